@@ -8,6 +8,7 @@ import { useCart } from '@/lib/context/cart-context';
 import { Button } from '@/components/ui/button';
 import { OrderDetails } from '@/components/orders/order-details';
 import { ArrowLeft, RefreshCw } from 'lucide-react';
+import type { ReturnItem } from '@/lib/validations/return';
 
 interface Order {
   id: string;
@@ -112,17 +113,18 @@ export default function OrderDetailPage() {
     }
   };
 
-  const handleReturn = async (orderIdToReturn: string, reason?: string) => {
+  const handleReturn = async (orderIdToReturn: string, reason?: string, items?: ReturnItem[]) => {
     try {
       const response = await fetch(`/api/orders/${orderIdToReturn}/return`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ reason }),
+        body: JSON.stringify({ reason, items }),
       });
 
       if (response.ok) {
+        const result = await response.json();
         // Refresh order data
         const updatedResponse = await fetch(`/api/orders/${orderIdToReturn}`);
         if (updatedResponse.ok) {
@@ -130,11 +132,13 @@ export default function OrderDetailPage() {
           setOrder(updatedOrder);
         }
         alert(
-          'Return request submitted successfully. We will contact you with return instructions.'
+          `Return request ${result.data.rmaNumber} submitted successfully. We will contact you with return instructions.`
         );
       } else {
         const errorData = await response.json();
-        alert(errorData.message || 'Failed to submit return request. Please contact support.');
+        alert(
+          errorData.error?.message || 'Failed to submit return request. Please contact support.'
+        );
       }
     } catch (error) {
       console.error('Error submitting return request:', error);
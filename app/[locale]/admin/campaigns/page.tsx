@@ -11,7 +11,7 @@
 
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import Link from 'next/link';
 import { Plus, Edit, Trash2, Eye, Calendar, Tag } from 'lucide-react';
 import { AdminLayout } from '@/components/admin/admin-layout';
@@ -34,10 +34,25 @@ import {
 } from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Campaign, CampaignFormData, CampaignStatus, CampaignType } from '@/types/shop';
-import { mockCampaigns } from '@/lib/stubs/mock-data';
+import { useToast } from '@/hooks/use-toast';
 import { cn } from '@/lib/utils';
 
+// Form date fields are local datetimes; the API stores ISO timestamps
+function toCampaignPayload(data: CampaignFormData) {
+  const toIso = (value?: string) => (value ? new Date(value).toISOString() : null);
+
+  return {
+    ...data,
+    description: data.description || null,
+    start_date: toIso(data.start_date),
+    end_date: toIso(data.end_date),
+    banner_image_url: data.banner_image_url || null,
+    thumbnail_url: data.thumbnail_url || null,
+  };
+}
+
 export default function CampaignsPage() {
+  const { toast } = useToast();
   const [campaigns, setCampaigns] = useState<Campaign[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [showCreateDialog, setShowCreateDialog] = useState(false);
@@ -45,15 +60,57 @@ export default function CampaignsPage() {
   const [statusFilter, setStatusFilter] = useState<CampaignStatus | 'all'>('all');
   const [typeFilter, setTypeFilter] = useState<CampaignType | 'all'>('all');
 
-  // Load campaigns (using mock data)
-  useEffect(() => {
+  // Load campaigns
+  const fetchCampaigns = useCallback(async () => {
     setIsLoading(true);
-    // Simulate API call
-    setTimeout(() => {
-      setCampaigns(mockCampaigns);
+    try {
+      const response = await fetch('/api/admin/campaigns');
+      const result = await response.json();
+
+      if (result.status === 'success') {
+        setCampaigns(result.data.campaigns);
+      }
+    } catch (error) {
+      console.error('Failed to fetch campaigns:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load campaigns',
+        variant: 'destructive',
+      });
+    } finally {
       setIsLoading(false);
-    }, 500);
-  }, []);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchCampaigns();
+  }, [fetchCampaigns]);
+
+  // Send a create, update or delete request and reload the list
+  const saveCampaign = async (url: string, method: string, body?: unknown): Promise<boolean> => {
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const result = await response.json();
+
+      if (result.status !== 'success') {
+        throw new Error(result.error?.message || 'Failed to save campaign');
+      }
+
+      fetchCampaigns();
+      return true;
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save campaign',
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
 
   // Filter campaigns
   const filteredCampaigns = campaigns.filter((campaign) => {
@@ -64,43 +121,25 @@ export default function CampaignsPage() {
 
   // Handle create campaign
   const handleCreateCampaign = async (data: CampaignFormData) => {
-    // Simulate API call
-    await new Promise((resolve) => setTimeout(resolve, 1000));
-
-    const newCampaign: Campaign = {
-      id: `campaign-${Date.now()}`,
-      ...data,
-      slug: data.slug || data.name.toLowerCase().replace(/\s+/g, '-'),
-      sort_order: campaigns.length + 1,
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString(),
-    };
-
-    setCampaigns([...campaigns, newCampaign]);
-    setShowCreateDialog(false);
+    if (await saveCampaign('/api/admin/campaigns', 'POST', toCampaignPayload(data))) {
+      setShowCreateDialog(false);
+    }
   };
 
   // Handle update campaign
   const handleUpdateCampaign = async (data: CampaignFormData) => {
     if (!editingCampaign) return;
 
-    // Simulate API call
-    await new Promise((resolve) => setTimeout(resolve, 1000));
-
-    const updatedCampaign: Campaign = {
-      ...editingCampaign,
-      ...data,
-      updated_at: new Date().toISOString(),
-    };
-
-    setCampaigns(campaigns.map((c) => (c.id === editingCampaign.id ? updatedCampaign : c)));
-    setEditingCampaign(null);
+    const url = `/api/admin/campaigns/${editingCampaign.id}`;
+    if (await saveCampaign(url, 'PATCH', toCampaignPayload(data))) {
+      setEditingCampaign(null);
+    }
   };
 
   // Handle delete campaign
-  const handleDeleteCampaign = (campaignId: string) => {
+  const handleDeleteCampaign = async (campaignId: string) => {
     if (confirm('Are you sure you want to delete this campaign?')) {
-      setCampaigns(campaigns.filter((c) => c.id !== campaignId));
+      await saveCampaign(`/api/admin/campaigns/${campaignId}`, 'DELETE');
     }
   };
 
@@ -8,6 +8,7 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
 import { AdminLayout } from '@/components/admin/admin-layout';
 import { CMSProvider, useCMS } from '@/lib/context/cms-context';
 import { SectionListEditor } from '@/components/cms/admin/section-list-editor';
@@ -20,6 +21,7 @@ import {
   Type,
   ImageIcon,
   LayoutGrid,
+  Megaphone,
   Save,
   Upload,
   Eye,
@@ -39,6 +41,9 @@ import {
   EyeOff,
   Plus,
   Layers,
+  CalendarClock,
+  Quote,
+  Mail,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import './cms-admin.css';
@@ -91,6 +96,24 @@ const sectionTypes: SectionTypeConfig[] = [
     description: 'Grid layout of category tiles',
     icon: <LayoutGrid className="h-5 w-5" />,
   },
+  {
+    type: 'testimonials',
+    label: 'Testimonials',
+    description: 'Customer quotes with ratings in a grid or carousel',
+    icon: <Quote className="h-5 w-5" />,
+  },
+  {
+    type: 'newsletter',
+    label: 'Newsletter Signup',
+    description: 'Email signup form with double opt-in',
+    icon: <Mail className="h-5 w-5" />,
+  },
+  {
+    type: 'campaign_showcase',
+    label: 'Campaign Showcase',
+    description: 'Active featured campaigns linking to their pages',
+    icon: <Megaphone className="h-5 w-5" />,
+  },
 ];
 
 // =============================================================================
@@ -159,6 +182,10 @@ function PublishControlsEnhanced() {
             Saving...
           </div>
         )}
+        <Link href="/admin/cms/schedule" className="cms-btn cms-btn-secondary">
+          <CalendarClock className="h-4 w-4" />
+          Schedule
+        </Link>
       </div>
       <StatusBadge status={homepage.status} isDirty={isDirty} />
     </div>
@@ -237,6 +264,9 @@ function SectionCard({
       text_block: <Type className="h-4 w-4" />,
       image_banner: <ImageIcon className="h-4 w-4" />,
       category_grid: <LayoutGrid className="h-4 w-4" />,
+      testimonials: <Quote className="h-4 w-4" />,
+      newsletter: <Mail className="h-4 w-4" />,
+      campaign_showcase: <Megaphone className="h-4 w-4" />,
     };
     return icons[type] || null;
   };
@@ -253,6 +283,12 @@ function SectionCard({
         return 'Image Banner';
       case 'category_grid':
         return section.config.title || 'Category Grid';
+      case 'testimonials':
+        return section.config.title || 'Testimonials';
+      case 'newsletter':
+        return section.config.title || 'Newsletter Signup';
+      case 'campaign_showcase':
+        return section.config.title || 'Campaign Showcase';
       default:
         return 'Section';
     }
@@ -552,6 +588,46 @@ function CMSEditorContent() {
           },
         };
         break;
+      case 'testimonials':
+        sectionConfig = {
+          ...baseSection,
+          config: {
+            title: 'What Our Customers Say',
+            testimonials: [
+              {
+                id: crypto.randomUUID(),
+                quote: 'Add a customer quote here...',
+                author: 'Customer name',
+                rating: 5,
+              },
+            ],
+            layout: 'grid' as const,
+            showRating: true,
+          },
+        };
+        break;
+      case 'newsletter':
+        sectionConfig = {
+          ...baseSection,
+          config: {
+            title: 'Stay in the Loop',
+            placeholder: 'Enter your email address',
+            buttonText: 'Subscribe',
+            layout: 'centered' as const,
+          },
+        };
+        break;
+      case 'campaign_showcase':
+        sectionConfig = {
+          ...baseSection,
+          config: {
+            title: 'Current Campaigns',
+            limit: 3,
+            homepageOnly: true,
+            cardStyle: 'overlay' as const,
+          },
+        };
+        break;
     }
 
     addSection(sectionConfig);
@@ -0,0 +1,503 @@
+'use client';
+
+export const dynamic = 'force-dynamic';
+
+import React, { useCallback, useEffect, useMemo, useState, Suspense } from 'react';
+import Link from 'next/link';
+import { AdminLayout } from '@/components/admin/admin-layout';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ArrowLeft, CalendarClock, ChevronLeft, ChevronRight, Play, Plus, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+
+interface ScheduleEntry {
+  id: string;
+  kind: 'template' | 'section';
+  action: 'publish' | 'unpublish';
+  at: string;
+  status: string;
+  template_id?: string;
+  template_name?: string;
+  schedule_id?: string;
+  version_number?: number;
+  section_id?: string;
+  section_type?: string;
+  error?: string | null;
+  can_cancel: boolean;
+}
+
+interface TemplateOption {
+  id: string;
+  name: string;
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  pending: 'bg-blue-100 text-blue-800',
+  scheduled: 'bg-blue-100 text-blue-800',
+  active: 'bg-green-100 text-green-800',
+  published: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-600',
+  expired: 'bg-gray-100 text-gray-600',
+  archived: 'bg-gray-100 text-gray-600',
+};
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const EMPTY_FORM = { templateId: '', publishAt: '', unpublishAt: '', notes: '' };
+
+function entryLabel(entry: ScheduleEntry) {
+  if (entry.kind === 'section') {
+    return `Section: ${entry.section_type}`;
+  }
+  return entry.version_number
+    ? `${entry.template_name} (v${entry.version_number})`
+    : entry.template_name || 'Template';
+}
+
+function CMSScheduleContent() {
+  const { toast } = useToast();
+  const [month, setMonth] = useState(() => {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth(), 1);
+  });
+  const [entries, setEntries] = useState<ScheduleEntry[]>([]);
+  const [templates, setTemplates] = useState<TemplateOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [processing, setProcessing] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+
+  const fetchEntries = useCallback(async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({
+        from: month.toISOString(),
+        to: new Date(month.getFullYear(), month.getMonth() + 1, 1).toISOString(),
+      });
+
+      const response = await fetch(`/api/cms/schedules?${params}`);
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to load schedules');
+      }
+
+      setEntries(result.data.entries);
+    } catch (error) {
+      console.error('Error fetching schedules:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load schedules',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [month, toast]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  useEffect(() => {
+    fetch('/api/cms/templates?limit=100&sort_by=name&sort_order=asc')
+      .then((response) => response.json())
+      .then((result) => {
+        if (result.success) {
+          setTemplates(result.data.templates);
+        }
+      })
+      .catch((error) => console.error('Error fetching templates:', error));
+  }, []);
+
+  // Calendar cells, padded to whole weeks
+  const days = useMemo(() => {
+    const leading = month.getDay();
+    const count = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate();
+    return [
+      ...Array.from({ length: leading }, () => null),
+      ...Array.from({ length: count }, (_, i) => i + 1),
+    ];
+  }, [month]);
+
+  const entriesByDay = useMemo(() => {
+    const grouped = new Map<number, ScheduleEntry[]>();
+    for (const entry of entries) {
+      const day = new Date(entry.at).getDate();
+      grouped.set(day, [...(grouped.get(day) || []), entry]);
+    }
+    return grouped;
+  }, [entries]);
+
+  const upcoming = entries.filter(
+    (entry) => new Date(entry.at).getTime() >= Date.now() && entry.status !== 'cancelled'
+  );
+
+  const today = new Date();
+  const isToday = (day: number) =>
+    today.getFullYear() === month.getFullYear() &&
+    today.getMonth() === month.getMonth() &&
+    today.getDate() === day;
+
+  const changeMonth = (offset: number) => {
+    setMonth((current) => new Date(current.getFullYear(), current.getMonth() + offset, 1));
+  };
+
+  const formatTime = (date: string) =>
+    new Date(date).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+
+  const handleCancel = async (entry: ScheduleEntry) => {
+    if (!confirm(`Cancel the scheduled ${entry.action} of ${entryLabel(entry)}?`)) {
+      return;
+    }
+
+    setProcessing(true);
+    try {
+      const response = await fetch(
+        `/api/cms/templates/${entry.template_id}/schedules/${entry.schedule_id}`,
+        { method: 'DELETE' }
+      );
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to cancel schedule');
+      }
+
+      toast({ title: 'Schedule cancelled', description: entryLabel(entry) });
+      fetchEntries();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to cancel schedule',
+        variant: 'destructive',
+      });
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleSchedule = async () => {
+    setProcessing(true);
+    try {
+      const response = await fetch(`/api/cms/templates/${form.templateId}/schedules`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          publish_at: new Date(form.publishAt).toISOString(),
+          unpublish_at: form.unpublishAt ? new Date(form.unpublishAt).toISOString() : undefined,
+          timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+          notes: form.notes || undefined,
+        }),
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to schedule template');
+      }
+
+      toast({
+        title: 'Template scheduled',
+        description: `Publishes ${formatTime(result.data.schedule.publish_at)}`,
+      });
+      setDialogOpen(false);
+      setForm(EMPTY_FORM);
+      fetchEntries();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to schedule template',
+        variant: 'destructive',
+      });
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleRunDue = async () => {
+    setProcessing(true);
+    try {
+      const response = await fetch('/api/cron/cms-schedules', { method: 'POST' });
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to run schedules');
+      }
+
+      const { failed } = result.data;
+      toast({
+        title: 'Schedules processed',
+        description:
+          failed.length > 0
+            ? `${result.message}, ${failed.length} failed: ${failed[0].error}`
+            : result.message,
+        variant: failed.length > 0 ? 'destructive' : 'default',
+      });
+      fetchEntries();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to run schedules',
+        variant: 'destructive',
+      });
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  return (
+    <AdminLayout>
+      <div className="mx-auto max-w-7xl px-4 py-8 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-8 flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <Link
+              href="/admin/cms"
+              className="mb-2 inline-flex items-center text-sm text-gray-500 hover:text-gray-700"
+            >
+              <ArrowLeft className="mr-1 h-4 w-4" />
+              Back to CMS
+            </Link>
+            <h1 className="text-3xl font-bold text-gray-900">Publishing Schedule</h1>
+            <p className="mt-1 text-gray-600">
+              Scheduled template publishes and homepage section changes
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleRunDue} disabled={processing}>
+              <Play className="mr-2 h-4 w-4" />
+              Run due now
+            </Button>
+            <Button onClick={() => setDialogOpen(true)} disabled={processing}>
+              <Plus className="mr-2 h-4 w-4" />
+              Schedule Template
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+          {/* Calendar */}
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between">
+                <span>{month.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}</span>
+                <div className="flex items-center gap-1">
+                  {loading && (
+                    <div className="mr-2 h-4 w-4 animate-spin rounded-full border-b-2 border-blue-600"></div>
+                  )}
+                  <Button variant="ghost" size="sm" onClick={() => changeMonth(-1)}>
+                    <ChevronLeft className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => changeMonth(1)}>
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-7 gap-px overflow-hidden rounded-lg border bg-gray-200">
+                {WEEKDAYS.map((weekday) => (
+                  <div
+                    key={weekday}
+                    className="bg-gray-50 py-2 text-center text-xs font-medium uppercase text-gray-500"
+                  >
+                    {weekday}
+                  </div>
+                ))}
+                {days.map((day, index) => (
+                  <div key={index} className="min-h-24 bg-white p-1">
+                    {day && (
+                      <>
+                        <div
+                          className={cn(
+                            'mb-1 text-xs',
+                            isToday(day) ? 'font-bold text-blue-600' : 'text-gray-500'
+                          )}
+                        >
+                          {day}
+                        </div>
+                        <div className="space-y-1">
+                          {(entriesByDay.get(day) || []).map((entry) => (
+                            <div
+                              key={entry.id}
+                              title={entry.error || `${entry.action} · ${entry.status}`}
+                              className={cn(
+                                'truncate rounded px-1 text-xs',
+                                STATUS_STYLES[entry.status] || 'bg-gray-100 text-gray-600'
+                              )}
+                            >
+                              {entry.action === 'unpublish' ? '↓ ' : '↑ '}
+                              {entryLabel(entry)}
+                            </div>
+                          ))}
+                        </div>
+                      </>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Upcoming */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Upcoming</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {upcoming.length === 0 ? (
+                <div className="py-12 text-center">
+                  <CalendarClock className="mx-auto h-12 w-12 text-gray-400" />
+                  <p className="mt-2 text-sm text-gray-500">Nothing scheduled this month</p>
+                </div>
+              ) : (
+                <ul className="divide-y divide-gray-200">
+                  {upcoming.map((entry) => (
+                    <li key={entry.id} className="flex items-start justify-between gap-2 py-3">
+                      <div className="min-w-0">
+                        <div className="truncate text-sm font-medium text-gray-900">
+                          {entryLabel(entry)}
+                        </div>
+                        <div className="text-sm text-gray-500">
+                          {entry.action === 'publish' ? 'Publish' : 'Unpublish'}{' '}
+                          {formatTime(entry.at)}
+                        </div>
+                        <Badge
+                          variant="outline"
+                          className={cn('mt-1', STATUS_STYLES[entry.status])}
+                        >
+                          {entry.status}
+                        </Badge>
+                      </div>
+                      {entry.can_cancel && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleCancel(entry)}
+                          disabled={processing}
+                          aria-label="Cancel schedule"
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Schedule Dialog */}
+        <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Schedule Template</DialogTitle>
+              <DialogDescription>
+                Publishes the approved version, or the current version when review isn&apos;t
+                required.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Template</Label>
+                <Select
+                  value={form.templateId}
+                  onValueChange={(value) => setForm({ ...form, templateId: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a template" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {templates.map((template) => (
+                      <SelectItem key={template.id} value={template.id}>
+                        {template.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="publish-at">Publish at</Label>
+                <Input
+                  id="publish-at"
+                  type="datetime-local"
+                  value={form.publishAt}
+                  onChange={(e) => setForm({ ...form, publishAt: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="unpublish-at">Unpublish at (optional)</Label>
+                <Input
+                  id="unpublish-at"
+                  type="datetime-local"
+                  value={form.unpublishAt}
+                  onChange={(e) => setForm({ ...form, unpublishAt: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="schedule-notes">Notes</Label>
+                <Textarea
+                  id="schedule-notes"
+                  value={form.notes}
+                  onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                  rows={3}
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={handleSchedule}
+                disabled={processing || !form.templateId || !form.publishAt}
+              >
+                {processing ? 'Scheduling...' : 'Schedule'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </AdminLayout>
+  );
+}
+
+export default function CMSSchedulePage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="flex min-h-screen items-center justify-center">
+          <div className="h-8 w-8 animate-spin rounded-full border-b-2 border-blue-600"></div>
+        </div>
+      }
+    >
+      <CMSScheduleContent />
+    </Suspense>
+  );
+}
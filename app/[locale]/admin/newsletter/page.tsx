@@ -0,0 +1,320 @@
+'use client';
+
+export const dynamic = 'force-dynamic';
+
+import React, { useCallback, useEffect, useState, Suspense } from 'react';
+import { AdminLayout } from '@/components/admin/admin-layout';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Download, Mail, Search } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { NewsletterStatus } from '@/lib/validations/newsletter';
+import { cn } from '@/lib/utils';
+
+interface SubscriberListItem {
+  id: string;
+  email: string;
+  user_id: string | null;
+  status: NewsletterStatus;
+  locale: string;
+  topics: string[];
+  source: string | null;
+  confirmed_at: string | null;
+  unsubscribed_at: string | null;
+  created_at: string;
+}
+
+const STATUS_STYLES: Record<NewsletterStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  subscribed: 'bg-green-100 text-green-800',
+  unsubscribed: 'bg-gray-100 text-gray-800',
+};
+
+const STATUS_LABELS: Record<NewsletterStatus, string> = {
+  pending: 'Awaiting confirmation',
+  subscribed: 'Subscribed',
+  unsubscribed: 'Unsubscribed',
+};
+
+const TOPIC_LABELS: Record<string, string> = {
+  new_arrivals: 'New arrivals',
+  promotions: 'Promotions',
+  stories: 'Stories',
+};
+
+function AdminNewsletterContent() {
+  const { toast } = useToast();
+  const [subscribers, setSubscribers] = useState<SubscriberListItem[]>([]);
+  const [counts, setCounts] = useState<Record<NewsletterStatus, number>>({
+    pending: 0,
+    subscribed: 0,
+    unsubscribed: 0,
+  });
+  const [loading, setLoading] = useState(true);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [statusFilter, setStatusFilter] = useState('subscribed');
+  const [page, setPage] = useState(1);
+  const [total, setTotal] = useState(0);
+
+  const limit = 20;
+
+  const fetchSubscribers = useCallback(async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({
+        limit: limit.toString(),
+        offset: ((page - 1) * limit).toString(),
+        status: statusFilter,
+      });
+
+      if (searchQuery) {
+        params.append('search', searchQuery);
+      }
+
+      const response = await fetch(`/api/admin/newsletter?${params}`);
+      const result = await response.json();
+
+      if (result.status === 'success') {
+        setSubscribers(result.data.subscribers);
+        setCounts(result.data.counts);
+        setTotal(result.data.total);
+      }
+    } catch (error) {
+      console.error('Error fetching subscribers:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load subscribers',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [searchQuery, statusFilter, page, toast]);
+
+  useEffect(() => {
+    fetchSubscribers();
+  }, [fetchSubscribers]);
+
+  const formatDate = (dateString: string | null) => {
+    return dateString ? new Date(dateString).toLocaleDateString() : '—';
+  };
+
+  const totalPages = Math.ceil(total / limit);
+
+  return (
+    <AdminLayout>
+      <div className="mx-auto max-w-7xl px-4 py-8 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-8 flex items-start justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Newsletter</h1>
+            <p className="mt-1 text-gray-600">
+              Subscribers join after confirming their email address
+            </p>
+          </div>
+          <Button asChild variant="outline">
+            <a href={`/api/admin/newsletter/export?status=${statusFilter}`} download>
+              <Download className="mr-2 h-4 w-4" />
+              Export CSV
+            </a>
+          </Button>
+        </div>
+
+        {/* Counts */}
+        <div className="mb-6 grid grid-cols-1 gap-4 md:grid-cols-3">
+          {(Object.keys(STATUS_LABELS) as NewsletterStatus[]).map((status) => (
+            <Card key={status}>
+              <CardContent className="p-6">
+                <p className="text-sm text-gray-600">{STATUS_LABELS[status]}</p>
+                <p className="mt-1 text-2xl font-bold text-gray-900">{counts[status]}</p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        {/* Filters */}
+        <Card className="mb-6">
+          <CardContent className="p-6">
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 transform text-gray-400" />
+                <Input
+                  placeholder="Search by email..."
+                  value={searchQuery}
+                  onChange={(e) => {
+                    setSearchQuery(e.target.value);
+                    setPage(1);
+                  }}
+                  className="pl-10"
+                />
+              </div>
+
+              <Select
+                value={statusFilter}
+                onValueChange={(value) => {
+                  setStatusFilter(value);
+                  setPage(1);
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="All Statuses" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Statuses</SelectItem>
+                  <SelectItem value="subscribed">Subscribed</SelectItem>
+                  <SelectItem value="pending">Awaiting confirmation</SelectItem>
+                  <SelectItem value="unsubscribed">Unsubscribed</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Subscribers Table */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              <span>Subscribers ({total})</span>
+              {loading && (
+                <div className="h-4 w-4 animate-spin rounded-full border-b-2 border-blue-600"></div>
+              )}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="space-y-4">
+                {[...Array(5)].map((_, i) => (
+                  <div key={i} className="animate-pulse">
+                    <div className="h-12 rounded bg-gray-200"></div>
+                  </div>
+                ))}
+              </div>
+            ) : subscribers.length === 0 ? (
+              <div className="py-12 text-center">
+                <Mail className="mx-auto h-12 w-12 text-gray-400" />
+                <h3 className="mt-2 text-sm font-medium text-gray-900">No subscribers</h3>
+                <p className="mt-1 text-sm text-gray-500">
+                  No subscribers match your current filters.
+                </p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                        Email
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                        Status
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                        Topics
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                        Locale
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                        Source
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                        Signed Up
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 bg-white">
+                    {subscribers.map((subscriber) => (
+                      <tr key={subscriber.id} className="hover:bg-gray-50">
+                        <td className="whitespace-nowrap px-6 py-4">
+                          <div className="text-sm font-medium text-gray-900">
+                            {subscriber.email}
+                          </div>
+                          {subscriber.user_id && (
+                            <div className="text-sm text-gray-500">Has account</div>
+                          )}
+                        </td>
+                        <td className="whitespace-nowrap px-6 py-4">
+                          <Badge className={cn('border-0', STATUS_STYLES[subscriber.status])}>
+                            {STATUS_LABELS[subscriber.status]}
+                          </Badge>
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-900">
+                          {subscriber.topics
+                            .map((topic) => TOPIC_LABELS[topic] || topic)
+                            .join(', ')}
+                        </td>
+                        <td className="whitespace-nowrap px-6 py-4 text-sm uppercase text-gray-500">
+                          {subscriber.locale}
+                        </td>
+                        <td className="whitespace-nowrap px-6 py-4 text-sm text-gray-500">
+                          {subscriber.source || '—'}
+                        </td>
+                        <td className="whitespace-nowrap px-6 py-4 text-sm text-gray-500">
+                          {formatDate(subscriber.created_at)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {/* Pagination */}
+            {totalPages > 1 && (
+              <div className="mt-6 flex items-center justify-between">
+                <div className="text-sm text-gray-700">
+                  Showing {(page - 1) * limit + 1} to {Math.min(page * limit, total)} of {total}{' '}
+                  results
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPage(page - 1)}
+                    disabled={page === 1}
+                  >
+                    Previous
+                  </Button>
+                  <span className="text-sm text-gray-700">
+                    Page {page} of {totalPages}
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPage(page + 1)}
+                    disabled={page === totalPages}
+                  >
+                    Next
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AdminLayout>
+  );
+}
+
+export default function AdminNewsletterPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="flex min-h-screen items-center justify-center">
+          <div className="h-8 w-8 animate-spin rounded-full border-b-2 border-blue-600"></div>
+        </div>
+      }
+    >
+      <AdminNewsletterContent />
+    </Suspense>
+  );
+}
@@ -5,6 +5,7 @@ import { useParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
 import Image from 'next/image';
 import { AdminLayout } from '@/components/admin/admin-layout';
+import { OrderRefundsCard } from '@/components/admin/orders/order-refunds-card';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -350,6 +351,12 @@ export default function AdminOrderDetailPage() {
               </CardContent>
             </Card>
 
+            <OrderRefundsCard
+              orderId={order.id}
+              orderStatus={order.status}
+              onRefunded={fetchOrder}
+            />
+
             {/* Order Summary */}
             <Card>
               <CardHeader>
@@ -0,0 +1,481 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import Image from 'next/image';
+import { AdminLayout } from '@/components/admin/admin-layout';
+import { ReturnStatusBadge } from '@/components/admin/returns/return-status-badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  ArrowLeft,
+  CheckCircle,
+  CreditCard,
+  FileText,
+  Package,
+  PackageCheck,
+  Truck,
+  User,
+  XCircle,
+} from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { CARRIERS } from '@/lib/shipping/carriers';
+import { ReturnStatus, getAvailableReturnActions } from '@/lib/returns/return-workflow';
+import { ReturnCarrier, UpdateReturnRequest } from '@/lib/validations/return';
+
+interface ReturnDetailItem {
+  id: string;
+  quantity: number;
+  condition: string;
+  reason: string | null;
+  order_items: {
+    id: string;
+    quantity: number;
+    price: number;
+    products: { id: string; name: string; image_url: string | null } | null;
+  } | null;
+}
+
+interface ReturnDetail {
+  id: string;
+  order_id: string;
+  rma_number: string | null;
+  reason: string;
+  status: ReturnStatus;
+  admin_notes: string | null;
+  refund_amount: number;
+  stripe_refund_id: string | null;
+  refunded_at: string | null;
+  return_carrier: string | null;
+  return_tracking_number: string | null;
+  return_label_url: string | null;
+  approved_at: string | null;
+  rejected_at: string | null;
+  received_at: string | null;
+  created_at: string;
+  users: { full_name: string | null; email: string } | null;
+  orders: {
+    id: string;
+    order_number: string;
+    status: string;
+    total: number;
+    payment_intent_id: string | null;
+    created_at: string;
+  } | null;
+  return_request_items: ReturnDetailItem[];
+}
+
+export default function AdminReturnDetailPage() {
+  const params = useParams();
+  const returnId = params.id as string;
+  const { toast } = useToast();
+
+  const [returnRequest, setReturnRequest] = useState<ReturnDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState(false);
+  const [refundAmount, setRefundAmount] = useState('');
+  const [returnCarrier, setReturnCarrier] = useState('none');
+  const [decisionNotes, setDecisionNotes] = useState('');
+  const [adminNotes, setAdminNotes] = useState('');
+
+  const fetchReturn = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/admin/returns/${returnId}`);
+      const result = await response.json();
+
+      if (result.status === 'success') {
+        setReturnRequest(result.data);
+        setRefundAmount(Number(result.data.refund_amount).toFixed(2));
+        setAdminNotes(result.data.admin_notes || '');
+      }
+    } catch (error) {
+      console.error('Error fetching return:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [returnId]);
+
+  useEffect(() => {
+    fetchReturn();
+  }, [fetchReturn]);
+
+  const applyAction = async (body: UpdateReturnRequest, successMessage: string) => {
+    setUpdating(true);
+    try {
+      const response = await fetch(`/api/admin/returns/${returnId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const result = await response.json();
+
+      if (result.status !== 'success') {
+        throw new Error(result.error?.message || 'Failed to update return');
+      }
+
+      toast({ title: successMessage });
+      setDecisionNotes('');
+      fetchReturn();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update return',
+        variant: 'destructive',
+      });
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const handleApprove = () => {
+    applyAction(
+      {
+        action: 'approve',
+        refundAmount: parseFloat(refundAmount) || 0,
+        returnCarrier: returnCarrier === 'none' ? undefined : (returnCarrier as ReturnCarrier),
+        adminNotes: decisionNotes || undefined,
+      },
+      'Return approved'
+    );
+  };
+
+  const handleReject = () => {
+    applyAction({ action: 'reject', adminNotes: decisionNotes }, 'Return rejected');
+  };
+
+  const handleReceive = () => {
+    applyAction(
+      { action: 'receive', adminNotes: decisionNotes || undefined },
+      'Return marked as received'
+    );
+  };
+
+  const handleSaveNotes = () => {
+    applyAction({ action: 'note', adminNotes }, 'Notes saved');
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+    }).format(amount);
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  if (loading) {
+    return (
+      <AdminLayout>
+        <div className="flex min-h-[50vh] items-center justify-center">
+          <div className="h-8 w-8 animate-spin rounded-full border-b-2 border-blue-600"></div>
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  if (!returnRequest) {
+    return (
+      <AdminLayout>
+        <div className="mx-auto max-w-7xl px-4 py-8 text-center sm:px-6 lg:px-8">
+          <h2 className="text-xl font-semibold text-gray-900">Return not found</h2>
+          <Link href="/admin/returns" className="mt-4 inline-block text-blue-600 hover:underline">
+            Back to returns
+          </Link>
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  const availableActions = getAvailableReturnActions(returnRequest.status);
+
+  return (
+    <AdminLayout>
+      <div className="mx-auto max-w-7xl px-4 py-8 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-8">
+          <Link
+            href="/admin/returns"
+            className="mb-4 inline-flex items-center text-sm text-gray-600 hover:text-gray-900"
+          >
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Returns
+          </Link>
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">{returnRequest.rma_number}</h1>
+              <p className="mt-1 text-gray-600">Requested {formatDate(returnRequest.created_at)}</p>
+            </div>
+            <ReturnStatusBadge status={returnRequest.status} />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+          <div className="space-y-6 lg:col-span-2">
+            {/* Items */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <Package className="mr-2 h-5 w-5" />
+                  Returned Items
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="divide-y">
+                  {returnRequest.return_request_items.map((item) => (
+                    <div key={item.id} className="flex items-center gap-4 py-4">
+                      <div className="relative h-16 w-16 flex-shrink-0 overflow-hidden rounded-lg bg-gray-100">
+                        {item.order_items?.products?.image_url && (
+                          <Image
+                            src={item.order_items.products.image_url}
+                            alt={item.order_items.products.name}
+                            fill
+                            className="object-cover"
+                          />
+                        )}
+                      </div>
+                      <div className="min-w-0 flex-1">
+                        <p className="font-medium text-gray-900">
+                          {item.order_items?.products?.name || 'Product'}
+                        </p>
+                        <p className="text-sm text-gray-500">
+                          Returning {item.quantity} of {item.order_items?.quantity} &middot;{' '}
+                          <span className="capitalize">{item.condition.replace('_', ' ')}</span>
+                        </p>
+                        {item.reason && <p className="mt-1 text-sm text-gray-600">{item.reason}</p>}
+                      </div>
+                      <div className="text-right text-sm font-medium">
+                        {formatCurrency(Number(item.order_items?.price || 0) * item.quantity)}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Reason */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <FileText className="mr-2 h-5 w-5" />
+                  Customer Reason
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="whitespace-pre-wrap text-gray-700">{returnRequest.reason}</p>
+              </CardContent>
+            </Card>
+
+            {/* Admin Notes */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Admin Notes</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <Textarea
+                  value={adminNotes}
+                  onChange={(e) => setAdminNotes(e.target.value)}
+                  placeholder="Internal notes about this return..."
+                  rows={4}
+                />
+                <Button
+                  variant="outline"
+                  onClick={handleSaveNotes}
+                  disabled={
+                    updating ||
+                    !adminNotes.trim() ||
+                    adminNotes === (returnRequest.admin_notes || '')
+                  }
+                >
+                  Save Notes
+                </Button>
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="space-y-6">
+            {/* Actions */}
+            {availableActions.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Actions</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {availableActions.includes('approve') && (
+                    <>
+                      <div>
+                        <Label htmlFor="refund-amount">Refund amount</Label>
+                        <Input
+                          id="refund-amount"
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          value={refundAmount}
+                          onChange={(e) => setRefundAmount(e.target.value)}
+                          className="mt-1"
+                        />
+                      </div>
+                      <div>
+                        <Label>Return shipping label</Label>
+                        <Select value={returnCarrier} onValueChange={setReturnCarrier}>
+                          <SelectTrigger className="mt-1">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">No label</SelectItem>
+                            {Object.values(CARRIERS).map((carrier) => (
+                              <SelectItem key={carrier.code} value={carrier.code}>
+                                {carrier.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </>
+                  )}
+
+                  <div>
+                    <Label htmlFor="decision-notes">
+                      Note to customer
+                      {availableActions.includes('reject') && ' (required to reject)'}
+                    </Label>
+                    <Textarea
+                      id="decision-notes"
+                      value={decisionNotes}
+                      onChange={(e) => setDecisionNotes(e.target.value)}
+                      className="mt-1"
+                    />
+                  </div>
+
+                  <div className="flex flex-col gap-2">
+                    {availableActions.includes('approve') && (
+                      <Button onClick={handleApprove} disabled={updating}>
+                        <CheckCircle className="mr-2 h-4 w-4" />
+                        Approve &amp; Refund
+                      </Button>
+                    )}
+                    {availableActions.includes('reject') && (
+                      <Button
+                        variant="destructive"
+                        onClick={handleReject}
+                        disabled={updating || !decisionNotes.trim()}
+                      >
+                        <XCircle className="mr-2 h-4 w-4" />
+                        Reject
+                      </Button>
+                    )}
+                    {availableActions.includes('receive') && (
+                      <Button onClick={handleReceive} disabled={updating}>
+                        <PackageCheck className="mr-2 h-4 w-4" />
+                        Mark Received
+                      </Button>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Customer & Order */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <User className="mr-2 h-5 w-5" />
+                  Customer
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                <p className="font-medium">{returnRequest.users?.full_name || 'Customer'}</p>
+                <p className="text-gray-600">{returnRequest.users?.email}</p>
+                {returnRequest.orders && (
+                  <Link
+                    href={`/admin/orders/${returnRequest.order_id}`}
+                    className="inline-block text-blue-600 hover:underline"
+                  >
+                    Order #{returnRequest.orders.order_number} &middot;{' '}
+                    {formatCurrency(Number(returnRequest.orders.total))}
+                  </Link>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Refund */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <CreditCard className="mr-2 h-5 w-5" />
+                  Refund
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Amount</span>
+                  <span className="font-medium">
+                    {formatCurrency(Number(returnRequest.refund_amount))}
+                  </span>
+                </div>
+                {returnRequest.refunded_at && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Refunded</span>
+                    <span>{formatDate(returnRequest.refunded_at)}</span>
+                  </div>
+                )}
+                {returnRequest.stripe_refund_id && (
+                  <p className="break-all text-xs text-gray-500">
+                    {returnRequest.stripe_refund_id}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Return Shipping */}
+            {returnRequest.return_tracking_number && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center">
+                    <Truck className="mr-2 h-5 w-5" />
+                    Return Shipping
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2 text-sm">
+                  <p>
+                    {CARRIERS[returnRequest.return_carrier || '']?.name ||
+                      returnRequest.return_carrier}
+                  </p>
+                  <p className="font-mono">{returnRequest.return_tracking_number}</p>
+                  {returnRequest.return_label_url && (
+                    <a
+                      href={returnRequest.return_label_url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-blue-600 hover:underline"
+                    >
+                      Download label
+                    </a>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </div>
+      </div>
+    </AdminLayout>
+  );
+}
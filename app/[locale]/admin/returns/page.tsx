@@ -0,0 +1,498 @@
+'use client';
+
+export const dynamic = 'force-dynamic';
+
+import React, { useCallback, useEffect, useState, Suspense } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { AdminLayout } from '@/components/admin/admin-layout';
+import { ReturnStatusBadge } from '@/components/admin/returns/return-status-badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { CheckCircle, Eye, PackageOpen, Search, XCircle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { ReturnStatus } from '@/lib/returns/return-workflow';
+import { cn } from '@/lib/utils';
+
+interface ReturnListItem {
+  id: string;
+  order_id: string;
+  rma_number: string | null;
+  reason: string;
+  status: ReturnStatus;
+  refund_amount: number;
+  created_at: string;
+  users: { full_name: string | null; email: string } | null;
+  orders: { order_number: string; total: number } | null;
+  return_request_items: { quantity: number }[];
+}
+
+const AGE_FILTERS = [
+  { value: 'any', label: 'Any Age' },
+  { value: '2', label: 'Older than 2 days' },
+  { value: '7', label: 'Older than 7 days' },
+  { value: '14', label: 'Older than 14 days' },
+  { value: '30', label: 'Older than 30 days' },
+];
+
+function AdminReturnsContent() {
+  const searchParams = useSearchParams();
+  const { toast } = useToast();
+  const [returns, setReturns] = useState<ReturnListItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [statusFilter, setStatusFilter] = useState(searchParams.get('status') || 'pending');
+  const [ageFilter, setAgeFilter] = useState('any');
+  const [page, setPage] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [rejectDialogOpen, setRejectDialogOpen] = useState(false);
+  const [rejectNotes, setRejectNotes] = useState('');
+  const [processing, setProcessing] = useState(false);
+
+  const limit = 20;
+
+  const fetchReturns = useCallback(async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({
+        limit: limit.toString(),
+        offset: ((page - 1) * limit).toString(),
+        status: statusFilter,
+      });
+
+      if (searchQuery) {
+        params.append('search', searchQuery);
+      }
+      if (ageFilter !== 'any') {
+        params.append('olderThanDays', ageFilter);
+      }
+
+      const response = await fetch(`/api/admin/returns?${params}`);
+      const result = await response.json();
+
+      if (result.status === 'success') {
+        setReturns(result.data.returns);
+        setTotal(result.data.total);
+      }
+    } catch (error) {
+      console.error('Error fetching returns:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load returns',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [searchQuery, statusFilter, ageFilter, page, toast]);
+
+  useEffect(() => {
+    fetchReturns();
+    setSelectedIds([]);
+  }, [fetchReturns]);
+
+  const pendingReturns = returns.filter((returnRequest) => returnRequest.status === 'pending');
+  const allPendingSelected =
+    pendingReturns.length > 0 && selectedIds.length === pendingReturns.length;
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds((prev) =>
+      checked ? [...prev, id] : prev.filter((selected) => selected !== id)
+    );
+  };
+
+  const toggleAll = (checked: boolean) => {
+    setSelectedIds(checked ? pendingReturns.map((returnRequest) => returnRequest.id) : []);
+  };
+
+  const handleBulkAction = async (action: 'approve' | 'reject', adminNotes?: string) => {
+    setProcessing(true);
+    try {
+      const response = await fetch('/api/admin/returns/bulk', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids: selectedIds, action, adminNotes }),
+      });
+      const result = await response.json();
+
+      if (result.status !== 'success') {
+        throw new Error(result.error?.message || `Failed to ${action} returns`);
+      }
+
+      const { updated, failed } = result.data;
+      toast({
+        title: action === 'approve' ? 'Returns approved' : 'Returns rejected',
+        description:
+          failed.length > 0
+            ? `${updated.length} updated, ${failed.length} failed: ${failed[0].message}`
+            : `${updated.length} returns updated`,
+        variant: failed.length > 0 ? 'destructive' : 'default',
+      });
+
+      setRejectDialogOpen(false);
+      setRejectNotes('');
+      fetchReturns();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : `Failed to ${action} returns`,
+        variant: 'destructive',
+      });
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleBulkApprove = () => {
+    if (confirm(`Approve and refund ${selectedIds.length} returns?`)) {
+      handleBulkAction('approve');
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+    }).format(amount);
+  };
+
+  const getAgeInDays = (dateString: string) => {
+    return Math.floor((Date.now() - new Date(dateString).getTime()) / (24 * 60 * 60 * 1000));
+  };
+
+  const totalPages = Math.ceil(total / limit);
+
+  return (
+    <AdminLayout>
+      <div className="mx-auto max-w-7xl px-4 py-8 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">Returns</h1>
+          <p className="mt-1 text-gray-600">Review return requests, refunds and received items</p>
+        </div>
+
+        {/* Filters */}
+        <Card className="mb-6">
+          <CardContent className="p-6">
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 transform text-gray-400" />
+                <Input
+                  placeholder="Search by RMA number..."
+                  value={searchQuery}
+                  onChange={(e) => {
+                    setSearchQuery(e.target.value);
+                    setPage(1);
+                  }}
+                  className="pl-10"
+                />
+              </div>
+
+              <Select
+                value={statusFilter}
+                onValueChange={(value) => {
+                  setStatusFilter(value);
+                  setPage(1);
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="All Statuses" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Statuses</SelectItem>
+                  <SelectItem value="pending">Pending</SelectItem>
+                  <SelectItem value="approved">Approved</SelectItem>
+                  <SelectItem value="rejected">Rejected</SelectItem>
+                  <SelectItem value="received">Received</SelectItem>
+                  <SelectItem value="completed">Completed</SelectItem>
+                </SelectContent>
+              </Select>
+
+              <Select
+                value={ageFilter}
+                onValueChange={(value) => {
+                  setAgeFilter(value);
+                  setPage(1);
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Any Age" />
+                </SelectTrigger>
+                <SelectContent>
+                  {AGE_FILTERS.map((filter) => (
+                    <SelectItem key={filter.value} value={filter.value}>
+                      {filter.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Bulk Actions */}
+        {selectedIds.length > 0 && (
+          <div className="mb-4 flex items-center justify-between rounded-lg border bg-blue-50 p-4">
+            <span className="text-sm text-blue-800">{selectedIds.length} returns selected</span>
+            <div className="flex gap-2">
+              <Button size="sm" onClick={handleBulkApprove} disabled={processing}>
+                <CheckCircle className="mr-2 h-4 w-4" />
+                Approve
+              </Button>
+              <Button
+                size="sm"
+                variant="destructive"
+                onClick={() => setRejectDialogOpen(true)}
+                disabled={processing}
+              >
+                <XCircle className="mr-2 h-4 w-4" />
+                Reject
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Returns Table */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              <span>Returns ({total})</span>
+              {loading && (
+                <div className="h-4 w-4 animate-spin rounded-full border-b-2 border-blue-600"></div>
+              )}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="space-y-4">
+                {[...Array(5)].map((_, i) => (
+                  <div key={i} className="animate-pulse">
+                    <div className="h-16 rounded bg-gray-200"></div>
+                  </div>
+                ))}
+              </div>
+            ) : returns.length === 0 ? (
+              <div className="py-12 text-center">
+                <PackageOpen className="mx-auto h-12 w-12 text-gray-400" />
+                <h3 className="mt-2 text-sm font-medium text-gray-900">No returns</h3>
+                <p className="mt-1 text-sm text-gray-500">No returns match your current filters.</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-3">
+                        <Checkbox
+                          checked={allPendingSelected}
+                          onCheckedChange={(checked) => toggleAll(checked as boolean)}
+                          disabled={pendingReturns.length === 0}
+                          aria-label="Select all pending returns"
+                        />
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                        RMA
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                        Customer
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                        Order
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                        Status
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                        Refund
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                        Age
+                      </th>
+                      <th className="relative px-6 py-3">
+                        <span className="sr-only">Actions</span>
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 bg-white">
+                    {returns.map((returnRequest) => {
+                      const ageInDays = getAgeInDays(returnRequest.created_at);
+                      const unitCount = returnRequest.return_request_items.reduce(
+                        (sum, item) => sum + item.quantity,
+                        0
+                      );
+
+                      return (
+                        <tr key={returnRequest.id} className="hover:bg-gray-50">
+                          <td className="px-4 py-4">
+                            <Checkbox
+                              checked={selectedIds.includes(returnRequest.id)}
+                              onCheckedChange={(checked) =>
+                                toggleSelected(returnRequest.id, checked as boolean)
+                              }
+                              disabled={returnRequest.status !== 'pending'}
+                              aria-label={`Select ${returnRequest.rma_number}`}
+                            />
+                          </td>
+                          <td className="whitespace-nowrap px-6 py-4">
+                            <div className="text-sm font-medium text-gray-900">
+                              {returnRequest.rma_number}
+                            </div>
+                            <div className="text-sm text-gray-500">{unitCount} items</div>
+                          </td>
+                          <td className="whitespace-nowrap px-6 py-4">
+                            <div className="text-sm font-medium text-gray-900">
+                              {returnRequest.users?.full_name || 'Customer'}
+                            </div>
+                            <div className="text-sm text-gray-500">
+                              {returnRequest.users?.email}
+                            </div>
+                          </td>
+                          <td className="whitespace-nowrap px-6 py-4 text-sm">
+                            <Link
+                              href={`/admin/orders/${returnRequest.order_id}`}
+                              className="text-blue-600 hover:underline"
+                            >
+                              #{returnRequest.orders?.order_number}
+                            </Link>
+                          </td>
+                          <td className="whitespace-nowrap px-6 py-4">
+                            <ReturnStatusBadge status={returnRequest.status} />
+                          </td>
+                          <td className="whitespace-nowrap px-6 py-4 text-sm text-gray-900">
+                            {formatCurrency(Number(returnRequest.refund_amount))}
+                          </td>
+                          <td
+                            className={cn(
+                              'whitespace-nowrap px-6 py-4 text-sm',
+                              returnRequest.status === 'pending' && ageInDays >= 7
+                                ? 'font-medium text-red-600'
+                                : 'text-gray-500'
+                            )}
+                          >
+                            {ageInDays === 0 ? 'Today' : `${ageInDays}d`}
+                          </td>
+                          <td className="whitespace-nowrap px-6 py-4 text-right text-sm font-medium">
+                            <Button variant="ghost" size="sm" asChild>
+                              <Link href={`/admin/returns/${returnRequest.id}`}>
+                                <Eye className="mr-2 h-4 w-4" />
+                                View
+                              </Link>
+                            </Button>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {/* Pagination */}
+            {totalPages > 1 && (
+              <div className="mt-6 flex items-center justify-between">
+                <div className="text-sm text-gray-700">
+                  Showing {(page - 1) * limit + 1} to {Math.min(page * limit, total)} of {total}{' '}
+                  results
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPage(page - 1)}
+                    disabled={page === 1}
+                  >
+                    Previous
+                  </Button>
+                  <span className="text-sm text-gray-700">
+                    Page {page} of {totalPages}
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPage(page + 1)}
+                    disabled={page === totalPages}
+                  >
+                    Next
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Bulk Reject Dialog */}
+        <Dialog open={rejectDialogOpen} onOpenChange={setRejectDialogOpen}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Reject Returns</DialogTitle>
+              <DialogDescription>
+                Reject {selectedIds.length} return requests. The note is sent to each customer.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div>
+              <Label htmlFor="reject-notes">Reason for rejection *</Label>
+              <Textarea
+                id="reject-notes"
+                value={rejectNotes}
+                onChange={(e) => setRejectNotes(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+
+            <DialogFooter>
+              <Button
+                variant="outline"
+                onClick={() => setRejectDialogOpen(false)}
+                disabled={processing}
+              >
+                Cancel
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={() => handleBulkAction('reject', rejectNotes)}
+                disabled={processing || !rejectNotes.trim()}
+              >
+                {processing ? 'Rejecting...' : 'Reject Returns'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </AdminLayout>
+  );
+}
+
+export default function AdminReturnsPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="flex min-h-screen items-center justify-center">
+          <div className="h-8 w-8 animate-spin rounded-full border-b-2 border-blue-600"></div>
+        </div>
+      }
+    >
+      <AdminReturnsContent />
+    </Suspense>
+  );
+}
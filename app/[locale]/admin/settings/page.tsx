@@ -1,8 +1,9 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { useRouter } from 'next/navigation';
-import { createClientComponentClient } from '@supabase/auth-helpers-nextjs';
+export const dynamic = 'force-dynamic';
+
+import React, { useCallback, useEffect, useState, Suspense } from 'react';
+import { AdminLayout } from '@/components/admin/admin-layout';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -11,537 +12,647 @@ import { Switch } from '@/components/ui/switch';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
-import { Save, Settings, Store, CreditCard, Globe, Shield, Bell } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Save, Settings, Store, CreditCard, Truck, Shield, Bell, History } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { StoreSettings, StoreSettingsSection } from '@/lib/validations/settings';
+import { DEFAULT_STORE_SETTINGS, ShippingMethodId } from '@/lib/settings/store-settings';
+
+interface SettingsHistoryItem {
+  id: string;
+  setting_key: StoreSettingsSection;
+  old_value: Record<string, unknown> | null;
+  new_value: Record<string, unknown>;
+  changed_at: string;
+  users: { full_name: string | null; email: string } | null;
+}
 
-export default function SettingsPage() {
+const SECTION_LABELS: Record<StoreSettingsSection, string> = {
+  store: 'Store',
+  payments: 'Payment',
+  shipping: 'Shipping',
+  notifications: 'Notification',
+  security: 'Security',
+};
+
+const SHIPPING_METHOD_LABELS: Record<ShippingMethodId, string> = {
+  standard: 'Standard Shipping',
+  express: 'Express Shipping',
+  overnight: 'Overnight Shipping',
+};
+
+// Top-level fields whose value differs between two versions of a section
+function changedFields(
+  oldValue: Record<string, unknown> | null,
+  newValue: Record<string, unknown>
+): string[] {
+  if (!oldValue) {
+    return Object.keys(newValue);
+  }
+  return Object.keys(newValue).filter(
+    (key) => JSON.stringify(oldValue[key]) !== JSON.stringify(newValue[key])
+  );
+}
+
+function AdminSettingsContent() {
+  const { toast } = useToast();
   const [loading, setLoading] = useState(true);
-  const [saving, setSaving] = useState(false);
-  const [user, setUser] = useState<any>(null);
-  const [settings, setSettings] = useState({
-    store: {
-      name: 'Peakees',
-      description: 'Modern Israeli E-commerce Platform',
-      email: 'contact@peakees.com',
-      phone: '+972-XX-XXX-XXXX',
-      address: 'Tel Aviv, Israel',
-      currency: 'ILS',
-      language: 'he',
-      timezone: 'Asia/Jerusalem',
-    },
-    payments: {
-      stripeEnabled: true,
-      testMode: false,
-      acceptedCards: ['visa', 'mastercard', 'isracard'],
-      taxRate: 17,
-      freeShippingThreshold: 200,
-    },
-    notifications: {
-      orderNotifications: true,
-      lowStockAlerts: true,
-      customerEmails: true,
-      adminEmails: true,
-    },
-    security: {
-      requireAccountForCheckout: false,
-      enableRateLimiting: true,
-      sessionTimeout: 30,
-      twoFactorAuth: false,
-    },
-  });
-
-  const router = useRouter();
-  const supabase = createClientComponentClient();
+  const [saving, setSaving] = useState<StoreSettingsSection | null>(null);
+  const [settings, setSettings] = useState<StoreSettings>(DEFAULT_STORE_SETTINGS);
+  const [history, setHistory] = useState<SettingsHistoryItem[]>([]);
 
-  useEffect(() => {
-    checkAuth();
-  }, []);
+  const fetchHistory = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/settings/history?limit=20');
+      const result = await response.json();
 
-  const checkAuth = async () => {
-    const {
-      data: { session },
-    } = await supabase.auth.getSession();
-    if (!session) {
-      router.push('/auth/login');
-      return;
+      if (result.status === 'success') {
+        setHistory(result.data.history);
+      }
+    } catch (error) {
+      console.error('Error fetching settings history:', error);
     }
+  }, []);
 
-    if (session.user.email !== 'michaelvx@gmail.com') {
-      router.push('/');
-      return;
+  const fetchSettings = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/admin/settings');
+      const result = await response.json();
+
+      if (result.status !== 'success') {
+        throw new Error(result.error?.message || 'Failed to load settings');
+      }
+
+      setSettings(result.data);
+    } catch (error) {
+      console.error('Error fetching settings:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load settings',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
     }
+  }, [toast]);
 
-    setUser(session.user);
-    setLoading(false);
+  useEffect(() => {
+    fetchSettings();
+    fetchHistory();
+  }, [fetchSettings, fetchHistory]);
+
+  const updateSection = <S extends StoreSettingsSection>(
+    section: S,
+    changes: Partial<StoreSettings[S]>
+  ) => {
+    setSettings((prev) => ({ ...prev, [section]: { ...prev[section], ...changes } }));
   };
 
-  const handleSave = async (category: string) => {
-    setSaving(true);
+  const updateShippingMethod = (
+    method: ShippingMethodId,
+    changes: Partial<StoreSettings['shipping'][ShippingMethodId]>
+  ) => {
+    setSettings((prev) => ({
+      ...prev,
+      shipping: { ...prev.shipping, [method]: { ...prev.shipping[method], ...changes } },
+    }));
+  };
+
+  const handleSave = async (section: StoreSettingsSection) => {
+    setSaving(section);
     try {
-      // In a real implementation, you would save to your settings table
-      // For now, we'll just simulate a save
-      await new Promise((resolve) => setTimeout(resolve, 1000));
-      alert(`${category} settings saved successfully!`);
+      const response = await fetch('/api/admin/settings', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ section, value: settings[section] }),
+      });
+      const result = await response.json();
+
+      if (result.status !== 'success') {
+        throw new Error(result.error?.message || 'Failed to save settings');
+      }
+
+      setSettings((prev) => ({ ...prev, [section]: result.data.value }));
+      toast({
+        title: 'Settings saved',
+        description: `${SECTION_LABELS[section]} settings saved successfully`,
+      });
+      fetchHistory();
     } catch (error) {
       console.error('Error saving settings:', error);
-      alert('Error saving settings');
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save settings',
+        variant: 'destructive',
+      });
     } finally {
-      setSaving(false);
+      setSaving(null);
     }
   };
 
+  const renderSaveButton = (section: StoreSettingsSection) => (
+    <Button
+      onClick={() => handleSave(section)}
+      disabled={saving !== null}
+      className="flex items-center gap-2"
+    >
+      <Save className="h-4 w-4" />
+      {saving === section ? 'Saving...' : `Save ${SECTION_LABELS[section]} Settings`}
+    </Button>
+  );
+
   if (loading) {
     return (
-      <div className="container mx-auto p-6">
-        <div className="animate-pulse space-y-4">
-          <div className="h-8 w-1/4 rounded bg-gray-200"></div>
-          <div className="h-96 rounded bg-gray-200"></div>
+      <AdminLayout>
+        <div className="container mx-auto p-6">
+          <div className="animate-pulse space-y-4">
+            <div className="h-8 w-1/4 rounded bg-gray-200"></div>
+            <div className="h-96 rounded bg-gray-200"></div>
+          </div>
         </div>
-      </div>
+      </AdminLayout>
     );
   }
 
-  if (!user) {
-    return null;
-  }
-
   return (
-    <div className="container mx-auto space-y-8 p-6">
-      {/* Header */}
-      <div className="flex items-center gap-3">
-        <Settings className="h-8 w-8" />
-        <div>
-          <h1 className="text-3xl font-bold">System Settings</h1>
-          <p className="text-muted-foreground">Configure your store settings and preferences</p>
+    <AdminLayout>
+      <div className="container mx-auto space-y-8 p-6">
+        {/* Header */}
+        <div className="flex items-center gap-3">
+          <Settings className="h-8 w-8" />
+          <div>
+            <h1 className="text-3xl font-bold">System Settings</h1>
+            <p className="text-muted-foreground">Configure your store settings and preferences</p>
+          </div>
         </div>
-      </div>
 
-      {/* Settings Tabs */}
-      <Tabs defaultValue="store" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-4">
-          <TabsTrigger value="store" className="flex items-center gap-2">
-            <Store className="h-4 w-4" />
-            Store
-          </TabsTrigger>
-          <TabsTrigger value="payments" className="flex items-center gap-2">
-            <CreditCard className="h-4 w-4" />
-            Payments
-          </TabsTrigger>
-          <TabsTrigger value="notifications" className="flex items-center gap-2">
-            <Bell className="h-4 w-4" />
-            Notifications
-          </TabsTrigger>
-          <TabsTrigger value="security" className="flex items-center gap-2">
-            <Shield className="h-4 w-4" />
-            Security
-          </TabsTrigger>
-        </TabsList>
-
-        {/* Store Settings */}
-        <TabsContent value="store">
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <Store className="h-5 w-5" />
-                Store Information
-              </CardTitle>
-              <CardDescription>
-                Configure basic store information and localization settings
-              </CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-6">
-              <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
+        {/* Settings Tabs */}
+        <Tabs defaultValue="store" className="space-y-6">
+          <TabsList className="grid w-full grid-cols-6">
+            <TabsTrigger value="store" className="flex items-center gap-2">
+              <Store className="h-4 w-4" />
+              Store
+            </TabsTrigger>
+            <TabsTrigger value="payments" className="flex items-center gap-2">
+              <CreditCard className="h-4 w-4" />
+              Payments
+            </TabsTrigger>
+            <TabsTrigger value="shipping" className="flex items-center gap-2">
+              <Truck className="h-4 w-4" />
+              Shipping
+            </TabsTrigger>
+            <TabsTrigger value="notifications" className="flex items-center gap-2">
+              <Bell className="h-4 w-4" />
+              Notifications
+            </TabsTrigger>
+            <TabsTrigger value="security" className="flex items-center gap-2">
+              <Shield className="h-4 w-4" />
+              Security
+            </TabsTrigger>
+            <TabsTrigger value="history" className="flex items-center gap-2">
+              <History className="h-4 w-4" />
+              History
+            </TabsTrigger>
+          </TabsList>
+
+          {/* Store Settings */}
+          <TabsContent value="store">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Store className="h-5 w-5" />
+                  Store Information
+                </CardTitle>
+                <CardDescription>Basic information about your store</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="storeName">Store Name</Label>
+                    <Input
+                      id="storeName"
+                      value={settings.store.name}
+                      onChange={(e) => updateSection('store', { name: e.target.value })}
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="storeEmail">Contact Email</Label>
+                    <Input
+                      id="storeEmail"
+                      type="email"
+                      value={settings.store.email}
+                      onChange={(e) => updateSection('store', { email: e.target.value })}
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="storePhone">Phone Number</Label>
+                    <Input
+                      id="storePhone"
+                      value={settings.store.phone}
+                      onChange={(e) => updateSection('store', { phone: e.target.value })}
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="currency">Currency</Label>
+                    <Select
+                      value={settings.store.currency}
+                      onValueChange={(value) =>
+                        updateSection('store', {
+                          currency: value as StoreSettings['store']['currency'],
+                        })
+                      }
+                    >
+                      <SelectTrigger id="currency">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="ILS">ILS (₪)</SelectItem>
+                        <SelectItem value="USD">USD ($)</SelectItem>
+                        <SelectItem value="EUR">EUR (€)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="language">Default Language</Label>
+                    <Select
+                      value={settings.store.language}
+                      onValueChange={(value) =>
+                        updateSection('store', {
+                          language: value as StoreSettings['store']['language'],
+                        })
+                      }
+                    >
+                      <SelectTrigger id="language">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="he">Hebrew</SelectItem>
+                        <SelectItem value="en">English</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="timezone">Timezone</Label>
+                    <Input
+                      id="timezone"
+                      value={settings.store.timezone}
+                      onChange={(e) => updateSection('store', { timezone: e.target.value })}
+                    />
+                  </div>
+                </div>
+
                 <div className="space-y-2">
-                  <Label htmlFor="storeName">Store Name</Label>
-                  <Input
-                    id="storeName"
-                    value={settings.store.name}
-                    onChange={(e) =>
-                      setSettings((prev) => ({
-                        ...prev,
-                        store: { ...prev.store, name: e.target.value },
-                      }))
-                    }
+                  <Label htmlFor="storeDescription">Store Description</Label>
+                  <Textarea
+                    id="storeDescription"
+                    value={settings.store.description}
+                    onChange={(e) => updateSection('store', { description: e.target.value })}
+                    rows={3}
                   />
                 </div>
+
                 <div className="space-y-2">
-                  <Label htmlFor="storeEmail">Contact Email</Label>
-                  <Input
-                    id="storeEmail"
-                    type="email"
-                    value={settings.store.email}
-                    onChange={(e) =>
-                      setSettings((prev) => ({
-                        ...prev,
-                        store: { ...prev.store, email: e.target.value },
-                      }))
-                    }
+                  <Label htmlFor="storeAddress">Address</Label>
+                  <Textarea
+                    id="storeAddress"
+                    value={settings.store.address}
+                    onChange={(e) => updateSection('store', { address: e.target.value })}
+                    rows={2}
                   />
                 </div>
+
+                {renderSaveButton('store')}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          {/* Payment Settings */}
+          <TabsContent value="payments">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <CreditCard className="h-5 w-5" />
+                  Payment Configuration
+                </CardTitle>
+                <CardDescription>Manage payment methods and tax settings</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="taxRate">Tax Rate (%)</Label>
+                    <Input
+                      id="taxRate"
+                      type="number"
+                      min={0}
+                      max={100}
+                      step={0.01}
+                      value={settings.payments.taxRate}
+                      onChange={(e) =>
+                        updateSection('payments', { taxRate: Number(e.target.value) })
+                      }
+                    />
+                    <p className="text-sm text-muted-foreground">
+                      Applied at checkout to the discounted subtotal
+                    </p>
+
+                    <div className="flex items-center justify-between pt-2">
+                      <div>
+                        <Label>Prices Include VAT</Label>
+                        <p className="text-sm text-muted-foreground">
+                          Product prices already contain tax
+                        </p>
+                      </div>
+                      <Switch
+                        checked={settings.payments.pricesIncludeTax}
+                        onCheckedChange={(checked: boolean) =>
+                          updateSection('payments', { pricesIncludeTax: checked })
+                        }
+                      />
+                    </div>
+                  </div>
+                </div>
+
                 <div className="space-y-2">
-                  <Label htmlFor="storePhone">Phone Number</Label>
-                  <Input
-                    id="storePhone"
-                    value={settings.store.phone}
-                    onChange={(e) =>
-                      setSettings((prev) => ({
-                        ...prev,
-                        store: { ...prev.store, phone: e.target.value },
-                      }))
-                    }
-                  />
+                  <Label>Accepted Card Types</Label>
+                  <div className="flex gap-2">
+                    {settings.payments.acceptedCards.map((card) => (
+                      <Badge key={card} variant="secondary">
+                        {card}
+                      </Badge>
+                    ))}
+                  </div>
                 </div>
+
+                {renderSaveButton('payments')}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          {/* Shipping Settings */}
+          <TabsContent value="shipping">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Truck className="h-5 w-5" />
+                  Shipping Rates
+                </CardTitle>
+                <CardDescription>
+                  Shipping methods offered at checkout, in {settings.store.currency}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
                 <div className="space-y-2">
-                  <Label htmlFor="currency">Currency</Label>
+                  <Label htmlFor="freeShipping">Free Standard Shipping From</Label>
                   <Input
-                    id="currency"
-                    value={settings.store.currency}
+                    id="freeShipping"
+                    type="number"
+                    min={0}
+                    value={settings.shipping.freeShippingThreshold ?? ''}
+                    placeholder="No free shipping"
                     onChange={(e) =>
-                      setSettings((prev) => ({
-                        ...prev,
-                        store: { ...prev.store, currency: e.target.value },
-                      }))
+                      updateSection('shipping', {
+                        freeShippingThreshold:
+                          e.target.value === '' ? null : Number(e.target.value),
+                      })
                     }
+                    className="w-48"
                   />
+                  <p className="text-sm text-muted-foreground">
+                    Leave empty to always charge for standard shipping
+                  </p>
                 </div>
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="storeDescription">Store Description</Label>
-                <Textarea
-                  id="storeDescription"
-                  value={settings.store.description}
-                  onChange={(e) =>
-                    setSettings((prev) => ({
-                      ...prev,
-                      store: { ...prev.store, description: e.target.value },
-                    }))
-                  }
-                  rows={3}
-                />
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="storeAddress">Address</Label>
-                <Textarea
-                  id="storeAddress"
-                  value={settings.store.address}
-                  onChange={(e) =>
-                    setSettings((prev) => ({
-                      ...prev,
-                      store: { ...prev.store, address: e.target.value },
-                    }))
-                  }
-                  rows={2}
-                />
-              </div>
-
-              <Button
-                onClick={() => handleSave('Store')}
-                disabled={saving}
-                className="flex items-center gap-2"
-              >
-                <Save className="h-4 w-4" />
-                {saving ? 'Saving...' : 'Save Store Settings'}
-              </Button>
-            </CardContent>
-          </Card>
-        </TabsContent>
-
-        {/* Payment Settings */}
-        <TabsContent value="payments">
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <CreditCard className="h-5 w-5" />
-                Payment Configuration
-              </CardTitle>
-              <CardDescription>Manage payment methods and tax settings</CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-6">
-              <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
+
+                <div className="space-y-4">
+                  {(Object.keys(SHIPPING_METHOD_LABELS) as ShippingMethodId[]).map((method) => (
+                    <div
+                      key={method}
+                      className="grid grid-cols-1 items-end gap-4 rounded-lg border p-4 md:grid-cols-3"
+                    >
+                      <div className="flex items-center justify-between md:col-span-1">
+                        <Label>{SHIPPING_METHOD_LABELS[method]}</Label>
+                        <Switch
+                          checked={settings.shipping[method].enabled}
+                          onCheckedChange={(checked: boolean) =>
+                            updateShippingMethod(method, { enabled: checked })
+                          }
+                        />
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label htmlFor={`${method}Cost`}>Cost</Label>
+                        <Input
+                          id={`${method}Cost`}
+                          type="number"
+                          min={0}
+                          step={0.01}
+                          value={settings.shipping[method].cost}
+                          onChange={(e) =>
+                            updateShippingMethod(method, { cost: Number(e.target.value) })
+                          }
+                        />
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label htmlFor={`${method}Days`}>Delivery (business days)</Label>
+                        <Input
+                          id={`${method}Days`}
+                          type="number"
+                          min={1}
+                          value={settings.shipping[method].estimatedDays}
+                          onChange={(e) =>
+                            updateShippingMethod(method, {
+                              estimatedDays: parseInt(e.target.value) || 1,
+                            })
+                          }
+                        />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+
+                {renderSaveButton('shipping')}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          {/* Notification Settings */}
+          <TabsContent value="notifications">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Bell className="h-5 w-5" />
+                  Notification Preferences
+                </CardTitle>
+                <CardDescription>Configure email notifications and alerts</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
                 <div className="space-y-4">
                   <div className="flex items-center justify-between">
                     <div>
-                      <Label>Stripe Payments</Label>
-                      <p className="text-sm text-muted-foreground">
-                        Enable Stripe payment processing
-                      </p>
+                      <Label>Order Notifications</Label>
+                      <p className="text-sm text-muted-foreground">Get notified of new orders</p>
                     </div>
                     <Switch
-                      checked={settings.payments.stripeEnabled}
+                      checked={settings.notifications.orderNotifications}
                       onCheckedChange={(checked: boolean) =>
-                        setSettings((prev) => ({
-                          ...prev,
-                          payments: { ...prev.payments, stripeEnabled: checked },
-                        }))
+                        updateSection('notifications', { orderNotifications: checked })
                       }
                     />
                   </div>
 
                   <div className="flex items-center justify-between">
                     <div>
-                      <Label>Test Mode</Label>
-                      <p className="text-sm text-muted-foreground">Use Stripe test keys</p>
+                      <Label>Low Stock Alerts</Label>
+                      <p className="text-sm text-muted-foreground">
+                        Alert when products are low in stock
+                      </p>
                     </div>
                     <Switch
-                      checked={settings.payments.testMode}
+                      checked={settings.notifications.lowStockAlerts}
                       onCheckedChange={(checked: boolean) =>
-                        setSettings((prev) => ({
-                          ...prev,
-                          payments: { ...prev.payments, testMode: checked },
-                        }))
+                        updateSection('notifications', { lowStockAlerts: checked })
                       }
                     />
                   </div>
-                </div>
 
-                <div className="space-y-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="taxRate">Tax Rate (%)</Label>
-                    <Input
-                      id="taxRate"
-                      type="number"
-                      value={settings.payments.taxRate}
-                      onChange={(e) =>
-                        setSettings((prev) => ({
-                          ...prev,
-                          payments: { ...prev.payments, taxRate: parseInt(e.target.value) },
-                        }))
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <Label>Customer Emails</Label>
+                      <p className="text-sm text-muted-foreground">
+                        Send order confirmations to customers
+                      </p>
+                    </div>
+                    <Switch
+                      checked={settings.notifications.customerEmails}
+                      onCheckedChange={(checked: boolean) =>
+                        updateSection('notifications', { customerEmails: checked })
                       }
                     />
                   </div>
 
-                  <div className="space-y-2">
-                    <Label htmlFor="freeShipping">Free Shipping Threshold (₪)</Label>
-                    <Input
-                      id="freeShipping"
-                      type="number"
-                      value={settings.payments.freeShippingThreshold}
-                      onChange={(e) =>
-                        setSettings((prev) => ({
-                          ...prev,
-                          payments: {
-                            ...prev.payments,
-                            freeShippingThreshold: parseInt(e.target.value),
-                          },
-                        }))
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <Label>Admin Email Notifications</Label>
+                      <p className="text-sm text-muted-foreground">
+                        Receive admin notifications via email
+                      </p>
+                    </div>
+                    <Switch
+                      checked={settings.notifications.adminEmails}
+                      onCheckedChange={(checked: boolean) =>
+                        updateSection('notifications', { adminEmails: checked })
                       }
                     />
                   </div>
                 </div>
-              </div>
-
-              <div className="space-y-2">
-                <Label>Accepted Card Types</Label>
-                <div className="flex gap-2">
-                  {settings.payments.acceptedCards.map((card) => (
-                    <Badge key={card} variant="secondary">
-                      {card}
-                    </Badge>
-                  ))}
-                </div>
-              </div>
-
-              <Button
-                onClick={() => handleSave('Payment')}
-                disabled={saving}
-                className="flex items-center gap-2"
-              >
-                <Save className="h-4 w-4" />
-                {saving ? 'Saving...' : 'Save Payment Settings'}
-              </Button>
-            </CardContent>
-          </Card>
-        </TabsContent>
-
-        {/* Notification Settings */}
-        <TabsContent value="notifications">
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <Bell className="h-5 w-5" />
-                Notification Preferences
-              </CardTitle>
-              <CardDescription>Configure email notifications and alerts</CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-6">
-              <div className="space-y-4">
-                <div className="flex items-center justify-between">
-                  <div>
-                    <Label>Order Notifications</Label>
-                    <p className="text-sm text-muted-foreground">Get notified of new orders</p>
-                  </div>
-                  <Switch
-                    checked={settings.notifications.orderNotifications}
-                    onCheckedChange={(checked: boolean) =>
-                      setSettings((prev) => ({
-                        ...prev,
-                        notifications: { ...prev.notifications, orderNotifications: checked },
-                      }))
-                    }
-                  />
-                </div>
-
-                <div className="flex items-center justify-between">
-                  <div>
-                    <Label>Low Stock Alerts</Label>
-                    <p className="text-sm text-muted-foreground">
-                      Alert when products are low in stock
-                    </p>
-                  </div>
-                  <Switch
-                    checked={settings.notifications.lowStockAlerts}
-                    onCheckedChange={(checked: boolean) =>
-                      setSettings((prev) => ({
-                        ...prev,
-                        notifications: { ...prev.notifications, lowStockAlerts: checked },
-                      }))
-                    }
-                  />
-                </div>
 
-                <div className="flex items-center justify-between">
-                  <div>
-                    <Label>Customer Emails</Label>
-                    <p className="text-sm text-muted-foreground">
-                      Send order confirmations to customers
-                    </p>
-                  </div>
-                  <Switch
-                    checked={settings.notifications.customerEmails}
-                    onCheckedChange={(checked: boolean) =>
-                      setSettings((prev) => ({
-                        ...prev,
-                        notifications: { ...prev.notifications, customerEmails: checked },
-                      }))
-                    }
-                  />
-                </div>
-
-                <div className="flex items-center justify-between">
-                  <div>
-                    <Label>Admin Email Notifications</Label>
-                    <p className="text-sm text-muted-foreground">
-                      Receive admin notifications via email
-                    </p>
-                  </div>
-                  <Switch
-                    checked={settings.notifications.adminEmails}
-                    onCheckedChange={(checked: boolean) =>
-                      setSettings((prev) => ({
-                        ...prev,
-                        notifications: { ...prev.notifications, adminEmails: checked },
-                      }))
-                    }
-                  />
-                </div>
-              </div>
-
-              <Button
-                onClick={() => handleSave('Notification')}
-                disabled={saving}
-                className="flex items-center gap-2"
-              >
-                <Save className="h-4 w-4" />
-                {saving ? 'Saving...' : 'Save Notification Settings'}
-              </Button>
-            </CardContent>
-          </Card>
-        </TabsContent>
-
-        {/* Security Settings */}
-        <TabsContent value="security">
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <Shield className="h-5 w-5" />
-                Security Configuration
-              </CardTitle>
-              <CardDescription>Manage security settings and authentication options</CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-6">
-              <div className="space-y-4">
-                <div className="flex items-center justify-between">
-                  <div>
-                    <Label>Require Account for Checkout</Label>
-                    <p className="text-sm text-muted-foreground">
-                      Force users to create account before checkout
-                    </p>
+                {renderSaveButton('notifications')}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          {/* Security Settings */}
+          <TabsContent value="security">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Shield className="h-5 w-5" />
+                  Security Configuration
+                </CardTitle>
+                <CardDescription>
+                  Manage security settings and authentication options
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <Label>Require Account for Checkout</Label>
+                      <p className="text-sm text-muted-foreground">
+                        Turn off guest checkout so shoppers must sign in to pay
+                      </p>
+                    </div>
+                    <Switch
+                      checked={settings.security.requireAccountForCheckout}
+                      onCheckedChange={(checked: boolean) =>
+                        updateSection('security', { requireAccountForCheckout: checked })
+                      }
+                    />
                   </div>
-                  <Switch
-                    checked={settings.security.requireAccountForCheckout}
-                    onCheckedChange={(checked: boolean) =>
-                      setSettings((prev) => ({
-                        ...prev,
-                        security: { ...prev.security, requireAccountForCheckout: checked },
-                      }))
-                    }
-                  />
                 </div>
 
-                <div className="flex items-center justify-between">
-                  <div>
-                    <Label>Rate Limiting</Label>
-                    <p className="text-sm text-muted-foreground">
-                      Enable API rate limiting protection
-                    </p>
+                {renderSaveButton('security')}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          {/* Change History */}
+          <TabsContent value="history">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <History className="h-5 w-5" />
+                  Change History
+                </CardTitle>
+                <CardDescription>The 20 most recent settings changes</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {history.length === 0 ? (
+                  <p className="py-8 text-center text-sm text-muted-foreground">
+                    No settings have been changed yet.
+                  </p>
+                ) : (
+                  <div className="divide-y">
+                    {history.map((entry) => (
+                      <div key={entry.id} className="flex items-start justify-between py-3">
+                        <div>
+                          <p className="text-sm font-medium">
+                            {SECTION_LABELS[entry.setting_key] || entry.setting_key} settings
+                          </p>
+                          <p className="text-sm text-muted-foreground">
+                            {changedFields(entry.old_value, entry.new_value).join(', ') ||
+                              'No changes'}
+                          </p>
+                        </div>
+                        <div className="text-right text-sm text-muted-foreground">
+                          <p>{entry.users?.full_name || entry.users?.email || 'System'}</p>
+                          <p>{new Date(entry.changed_at).toLocaleString()}</p>
+                        </div>
+                      </div>
+                    ))}
                   </div>
-                  <Switch
-                    checked={settings.security.enableRateLimiting}
-                    onCheckedChange={(checked: boolean) =>
-                      setSettings((prev) => ({
-                        ...prev,
-                        security: { ...prev.security, enableRateLimiting: checked },
-                      }))
-                    }
-                  />
-                </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+      </div>
+    </AdminLayout>
+  );
+}
 
-                <div className="flex items-center justify-between">
-                  <div>
-                    <Label>Two-Factor Authentication</Label>
-                    <p className="text-sm text-muted-foreground">Enable 2FA for admin accounts</p>
-                  </div>
-                  <Switch
-                    checked={settings.security.twoFactorAuth}
-                    onCheckedChange={(checked: boolean) =>
-                      setSettings((prev) => ({
-                        ...prev,
-                        security: { ...prev.security, twoFactorAuth: checked },
-                      }))
-                    }
-                  />
-                </div>
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="sessionTimeout">Session Timeout (minutes)</Label>
-                <Input
-                  id="sessionTimeout"
-                  type="number"
-                  value={settings.security.sessionTimeout}
-                  onChange={(e) =>
-                    setSettings((prev) => ({
-                      ...prev,
-                      security: { ...prev.security, sessionTimeout: parseInt(e.target.value) },
-                    }))
-                  }
-                  className="w-32"
-                />
-              </div>
-
-              <Button
-                onClick={() => handleSave('Security')}
-                disabled={saving}
-                className="flex items-center gap-2"
-              >
-                <Save className="h-4 w-4" />
-                {saving ? 'Saving...' : 'Save Security Settings'}
-              </Button>
-            </CardContent>
-          </Card>
-        </TabsContent>
-      </Tabs>
-    </div>
+export default function SettingsPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="flex min-h-screen items-center justify-center">
+          <div className="h-8 w-8 animate-spin rounded-full border-b-2 border-blue-600"></div>
+        </div>
+      }
+    >
+      <AdminSettingsContent />
+    </Suspense>
   );
 }
@@ -0,0 +1,103 @@
+import { NextRequest } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { Database } from '@/types/supabase';
+import { updateCampaignSchema } from '@/lib/validations/campaign';
+import { withAdmin, withValidation } from '@/lib/api/middleware';
+import {
+  successResponse,
+  errorResponse,
+  handleDatabaseError,
+  handleNotFound,
+} from '@/lib/api/index';
+import { getCampaignStatus } from '@/lib/utils/shop-helpers';
+
+type CampaignParams = { params: Promise<{ id: string }> };
+
+// GET /api/admin/campaigns/[id] - Get a single campaign (admin only)
+export async function GET(req: NextRequest, { params }: CampaignParams) {
+  const { id } = await params;
+  return withAdmin(req, async (req, session) => {
+    try {
+      const supabase = createRouteHandlerClient<Database>({ cookies });
+
+      const { data: campaign, error } = await supabase
+        .from('campaigns')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          return handleNotFound(`Campaign with ID ${id} not found`);
+        }
+        throw error;
+      }
+
+      // The stored status may lag behind the dates until the next refresh
+      return successResponse({ ...campaign, status: getCampaignStatus(campaign) });
+    } catch (error) {
+      return handleDatabaseError(error as Error);
+    }
+  });
+}
+
+// PATCH /api/admin/campaigns/[id] - Update a campaign (admin only)
+export async function PATCH(req: NextRequest, { params }: CampaignParams) {
+  const { id } = await params;
+  return withAdmin(req, (req, session) =>
+    withValidation(req, updateCampaignSchema, async (req, validData) => {
+      try {
+        const supabase = createRouteHandlerClient<Database>({ cookies });
+
+        const { data: campaign, error } = await supabase
+          .from('campaigns')
+          .update({ ...validData, updated_at: new Date().toISOString() })
+          .eq('id', id)
+          .select()
+          .single();
+
+        if (error) {
+          if (error.code === 'PGRST116') {
+            return handleNotFound(`Campaign with ID ${id} not found`);
+          }
+          if (error.code === '23505') {
+            return errorResponse(
+              'A campaign with this slug already exists',
+              409,
+              'DUPLICATE_CAMPAIGN_SLUG'
+            );
+          }
+          if (error.code === '23514') {
+            return errorResponse('End date must be after the start date', 400, 'INVALID_DATES');
+          }
+          throw error;
+        }
+
+        return successResponse(campaign);
+      } catch (error) {
+        return handleDatabaseError(error as Error);
+      }
+    })
+  );
+}
+
+// DELETE /api/admin/campaigns/[id] - Delete a campaign (admin only)
+export async function DELETE(req: NextRequest, { params }: CampaignParams) {
+  const { id } = await params;
+  return withAdmin(req, async (req, session) => {
+    try {
+      const supabase = createRouteHandlerClient<Database>({ cookies });
+
+      const { error } = await supabase.from('campaigns').delete().eq('id', id);
+
+      if (error) {
+        throw error;
+      }
+
+      return successResponse({ message: 'Campaign deleted successfully' });
+    } catch (error) {
+      return handleDatabaseError(error as Error);
+    }
+  });
+}
@@ -0,0 +1,127 @@
+import { NextRequest } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { Database } from '@/types/supabase';
+import { campaignQuerySchema, createCampaignSchema } from '@/lib/validations/campaign';
+import { withAdmin, withQueryValidation, withValidation } from '@/lib/api/middleware';
+import { successResponse, errorResponse, handleDatabaseError } from '@/lib/api/index';
+import { generateSlug } from '@/types/collections';
+import { getCampaignStatus } from '@/lib/utils/shop-helpers';
+import { USE_STUBS } from '@/lib/stubs';
+import { mockCampaigns } from '@/lib/stubs/mock-data';
+
+// GET /api/admin/campaigns - List campaigns in display order (admin only)
+export async function GET(req: NextRequest) {
+  if (USE_STUBS) {
+    const url = new URL(req.url);
+    const status = url.searchParams.get('status') || 'all';
+    const type = url.searchParams.get('type') || 'all';
+
+    const campaigns = mockCampaigns
+      .map((campaign) => ({ ...campaign, status: getCampaignStatus(campaign) }))
+      .filter((campaign) => status === 'all' || campaign.status === status)
+      .filter((campaign) => type === 'all' || campaign.type === type);
+
+    return successResponse({
+      campaigns,
+      total: campaigns.length,
+      limit: campaigns.length,
+      offset: 0,
+      hasMore: false,
+    });
+  }
+
+  return withAdmin(req, (req, session) =>
+    withQueryValidation(req, campaignQuerySchema, async (req, data) => {
+      const { status = 'all', type = 'all', limit = 50, offset = 0 } = data;
+
+      try {
+        const supabase = createRouteHandlerClient<Database>({ cookies });
+
+        // Apply start/end date transitions before filtering on status
+        const { error: refreshError } = await supabase.rpc('refresh_campaign_statuses');
+        if (refreshError) {
+          throw refreshError;
+        }
+
+        let query = supabase
+          .from('campaigns')
+          .select('*', { count: 'exact' })
+          .order('sort_order', { ascending: true })
+          .order('created_at', { ascending: false })
+          .range(offset, offset + limit - 1);
+
+        if (status !== 'all') {
+          query = query.eq('status', status);
+        }
+
+        if (type !== 'all') {
+          query = query.eq('type', type);
+        }
+
+        const { data: campaigns, error, count } = await query;
+
+        if (error) {
+          throw error;
+        }
+
+        return successResponse({
+          campaigns: campaigns || [],
+          total: count || 0,
+          limit,
+          offset,
+          hasMore: (count || 0) > offset + limit,
+        });
+      } catch (error) {
+        return handleDatabaseError(error as Error);
+      }
+    })
+  );
+}
+
+// POST /api/admin/campaigns - Create a campaign (admin only)
+export async function POST(req: NextRequest) {
+  return withAdmin(req, (req, session) =>
+    withValidation(req, createCampaignSchema, async (req, validData) => {
+      try {
+        const supabase = createRouteHandlerClient<Database>({ cookies });
+        const slug = validData.slug || generateSlug(validData.name);
+
+        // New campaigns go to the end of the list unless placed explicitly
+        let sortOrder = validData.sort_order;
+        if (sortOrder === undefined) {
+          const { count } = await supabase
+            .from('campaigns')
+            .select('*', { count: 'exact', head: true });
+          sortOrder = (count || 0) + 1;
+        }
+
+        const { data: campaign, error } = await supabase
+          .from('campaigns')
+          .insert({
+            ...validData,
+            slug,
+            sort_order: sortOrder,
+            created_by: session.user.id,
+          })
+          .select()
+          .single();
+
+        if (error) {
+          if (error.code === '23505') {
+            return errorResponse(
+              'A campaign with this slug already exists',
+              409,
+              'DUPLICATE_CAMPAIGN_SLUG'
+            );
+          }
+          throw error;
+        }
+
+        return successResponse(campaign, 201);
+      } catch (error) {
+        return handleDatabaseError(error as Error);
+      }
+    })
+  );
+}
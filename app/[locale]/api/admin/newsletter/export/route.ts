@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { Database } from '@/types/supabase';
+import { newsletterExportSchema } from '@/lib/validations/newsletter';
+import { withAdmin, withQueryValidation } from '@/lib/api/middleware';
+import { handleDatabaseError } from '@/lib/api/index';
+import { subscribersToCsv } from '@/lib/newsletter/newsletter-subscriptions';
+
+// GET /api/admin/newsletter/export - Download subscribers as CSV (admin only)
+export async function GET(req: NextRequest) {
+  return withAdmin(req, (req, session) =>
+    withQueryValidation(req, newsletterExportSchema, async (req, data) => {
+      const { status = 'subscribed' } = data;
+
+      try {
+        const supabase = createRouteHandlerClient<Database>({ cookies });
+
+        let query = supabase
+          .from('newsletter_subscribers')
+          .select('*')
+          .order('created_at', { ascending: true });
+
+        if (status !== 'all') {
+          query = query.eq('status', status);
+        }
+
+        const { data: subscribers, error } = await query;
+
+        if (error) {
+          throw error;
+        }
+
+        const filename = `newsletter-${status}-${new Date().toISOString().slice(0, 10)}.csv`;
+
+        return new NextResponse(subscribersToCsv(subscribers || []), {
+          headers: {
+            'Content-Type': 'text/csv; charset=utf-8',
+            'Content-Disposition': `attachment; filename="${filename}"`,
+            'Cache-Control': 'no-store',
+          },
+        });
+      } catch (error) {
+        return handleDatabaseError(error as Error);
+      }
+    })
+  );
+}
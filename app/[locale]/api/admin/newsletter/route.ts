@@ -0,0 +1,71 @@
+import { NextRequest } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { Database } from '@/types/supabase';
+import { newsletterQuerySchema, NewsletterStatus } from '@/lib/validations/newsletter';
+import { withAdmin, withQueryValidation } from '@/lib/api/middleware';
+import { successResponse, handleDatabaseError } from '@/lib/api/index';
+import { NEWSLETTER_STATUSES } from '@/lib/newsletter/newsletter-subscriptions';
+
+// GET /api/admin/newsletter - List newsletter subscribers with per-status counts (admin only)
+export async function GET(req: NextRequest) {
+  return withAdmin(req, (req, session) =>
+    withQueryValidation(req, newsletterQuerySchema, async (req, data) => {
+      const { status = 'all', search, limit = 20, offset = 0 } = data;
+
+      try {
+        const supabase = createRouteHandlerClient<Database>({ cookies });
+
+        let query = supabase
+          .from('newsletter_subscribers')
+          .select(
+            'id, email, user_id, status, locale, topics, source, confirmed_at, unsubscribed_at, created_at',
+            { count: 'exact' }
+          )
+          .order('created_at', { ascending: false })
+          .range(offset, offset + limit - 1);
+
+        if (status !== 'all') {
+          query = query.eq('status', status);
+        }
+
+        if (search) {
+          query = query.ilike('email', `%${search}%`);
+        }
+
+        const [{ data: subscribers, error, count }, ...countResults] = await Promise.all([
+          query,
+          ...NEWSLETTER_STATUSES.map((status) =>
+            supabase
+              .from('newsletter_subscribers')
+              .select('id', { count: 'exact', head: true })
+              .eq('status', status)
+          ),
+        ]);
+
+        if (error) {
+          throw error;
+        }
+
+        const counts = {} as Record<NewsletterStatus, number>;
+        countResults.forEach(({ count, error }, index) => {
+          if (error) {
+            throw error;
+          }
+          counts[NEWSLETTER_STATUSES[index]] = count || 0;
+        });
+
+        return successResponse({
+          subscribers: subscribers || [],
+          counts,
+          total: count || 0,
+          limit,
+          offset,
+          hasMore: (count || 0) > offset + limit,
+        });
+      } catch (error) {
+        return handleDatabaseError(error as Error);
+      }
+    })
+  );
+}
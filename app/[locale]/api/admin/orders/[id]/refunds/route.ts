@@ -0,0 +1,146 @@
+import { NextRequest } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { Database } from '@/types/supabase';
+import { createRefundSchema } from '@/lib/validations/refund';
+import { withAdmin, withValidation } from '@/lib/api/middleware';
+import {
+  successResponse,
+  errorResponse,
+  handleDatabaseError,
+  handleNotFound,
+} from '@/lib/api/index';
+import {
+  cancelRefundedOrder,
+  getPaymentCurrency,
+  getRefundableAmount,
+  issueRefund,
+} from '@/lib/stripe/refunds';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { formatCurrency } from '@/lib/utils/currency';
+
+type OrderRefundParams = { params: Promise<{ id: string }> };
+
+// GET /api/admin/orders/[id]/refunds - Refund history and remaining balance (admin only)
+export async function GET(req: NextRequest, { params }: OrderRefundParams) {
+  const { id } = await params;
+  return withAdmin(req, async (req, session) => {
+    try {
+      const supabase = createRouteHandlerClient<Database>({ cookies });
+
+      const { data: refunds, error } = await supabase
+        .from('refunds')
+        .select('*')
+        .eq('order_id', id)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        throw error;
+      }
+
+      const refundable = await getRefundableAmount(supabase, id);
+
+      return successResponse({ refunds: refunds || [], refundable });
+    } catch (error) {
+      return handleDatabaseError(error as Error);
+    }
+  });
+}
+
+// POST /api/admin/orders/[id]/refunds - Refund all or part of a paid order (admin only)
+export async function POST(req: NextRequest, { params }: OrderRefundParams) {
+  const { id } = await params;
+  return withAdmin(req, (req, session) =>
+    withValidation(req, createRefundSchema, async (req, validData) => {
+      try {
+        const supabase = createRouteHandlerClient<Database>({ cookies });
+
+        const { data: order, error: fetchError } = await supabase
+          .from('orders')
+          .select('id, user_id, status, total, payment_intent_id')
+          .eq('id', id)
+          .single();
+
+        if (fetchError) {
+          if (fetchError.code === 'PGRST116') {
+            return handleNotFound(`Order with ID ${id} not found`);
+          }
+          throw fetchError;
+        }
+
+        if (!order.payment_intent_id) {
+          return errorResponse('This order has no card payment to refund', 400, 'NO_PAYMENT');
+        }
+
+        const refundable = await getRefundableAmount(supabase, id);
+
+        if (refundable <= 0) {
+          return errorResponse(
+            'This order has already been fully refunded',
+            400,
+            'NOTHING_TO_REFUND'
+          );
+        }
+
+        const amount = validData.amount ?? refundable;
+
+        if (amount > refundable) {
+          const currency = await getPaymentCurrency(supabase, order.payment_intent_id);
+          return errorResponse(
+            `Refund cannot exceed the ${formatCurrency(refundable, currency)} left on this order`,
+            400,
+            'REFUND_EXCEEDS_ORDER'
+          );
+        }
+
+        // Only orders that haven't shipped can be cancelled (restocking the items)
+        const shouldCancel =
+          validData.cancelOrder && ['pending', 'processing'].includes(order.status);
+        let cancelled = false;
+        let cancelError: string | undefined;
+
+        const result = await issueRefund(supabase, {
+          orderId: id,
+          paymentIntentId: order.payment_intent_id,
+          amount,
+          reason: validData.reason,
+          notes: validData.notes,
+          createdBy: session.user.id,
+          // Cancelled only once the money is on its way back. The refund stands
+          // if this fails, so the failure is reported alongside it.
+          onRefunded: shouldCancel
+            ? async () => {
+                try {
+                  await cancelRefundedOrder(
+                    createServiceRoleClient(),
+                    id,
+                    validData.notes || 'Cancelled and refunded by admin'
+                  );
+                  cancelled = true;
+                } catch (error) {
+                  console.error(`Failed to cancel refunded order ${id}:`, error);
+                  cancelError = (error as Error)?.message || 'Failed to cancel the order';
+                }
+              }
+            : undefined,
+        });
+
+        if (result.error) {
+          return errorResponse(result.error.message, result.error.status, result.error.code);
+        }
+
+        return successResponse(
+          {
+            refund: result.data,
+            refundable: Math.round((refundable - amount) * 100) / 100,
+            cancelled,
+            ...(cancelError && { cancelError }),
+          },
+          201
+        );
+      } catch (error) {
+        return handleDatabaseError(error as Error);
+      }
+    })
+  );
+}
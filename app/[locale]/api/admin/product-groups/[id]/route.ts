@@ -0,0 +1,87 @@
+import { NextRequest } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { Database } from '@/types/supabase';
+import { updateProductGroupSchema } from '@/lib/validations/campaign';
+import { withAdmin, withValidation } from '@/lib/api/middleware';
+import { successResponse, handleDatabaseError, handleNotFound } from '@/lib/api/index';
+
+type ProductGroupParams = { params: Promise<{ id: string }> };
+
+// GET /api/admin/product-groups/[id] - Get a product group (admin only)
+export async function GET(req: NextRequest, { params }: ProductGroupParams) {
+  const { id } = await params;
+  return withAdmin(req, async (req, session) => {
+    try {
+      const supabase = createRouteHandlerClient<Database>({ cookies });
+
+      const { data: group, error } = await supabase
+        .from('product_groups')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          return handleNotFound(`Product group with ID ${id} not found`);
+        }
+        throw error;
+      }
+
+      return successResponse(group);
+    } catch (error) {
+      return handleDatabaseError(error as Error);
+    }
+  });
+}
+
+// PATCH /api/admin/product-groups/[id] - Update a product group (admin only)
+export async function PATCH(req: NextRequest, { params }: ProductGroupParams) {
+  const { id } = await params;
+  return withAdmin(req, (req, session) =>
+    withValidation(req, updateProductGroupSchema, async (req, validData) => {
+      try {
+        const supabase = createRouteHandlerClient<Database>({ cookies });
+
+        const { data: group, error } = await supabase
+          .from('product_groups')
+          .update({ ...validData, updated_at: new Date().toISOString() })
+          .eq('id', id)
+          .select()
+          .single();
+
+        if (error) {
+          if (error.code === 'PGRST116') {
+            return handleNotFound(`Product group with ID ${id} not found`);
+          }
+          throw error;
+        }
+
+        return successResponse(group);
+      } catch (error) {
+        return handleDatabaseError(error as Error);
+      }
+    })
+  );
+}
+
+// DELETE /api/admin/product-groups/[id] - Delete a product group (admin only).
+// Campaigns built from it keep their own product list.
+export async function DELETE(req: NextRequest, { params }: ProductGroupParams) {
+  const { id } = await params;
+  return withAdmin(req, async (req, session) => {
+    try {
+      const supabase = createRouteHandlerClient<Database>({ cookies });
+
+      const { error } = await supabase.from('product_groups').delete().eq('id', id);
+
+      if (error) {
+        throw error;
+      }
+
+      return successResponse({ message: 'Product group deleted successfully' });
+    } catch (error) {
+      return handleDatabaseError(error as Error);
+    }
+  });
+}
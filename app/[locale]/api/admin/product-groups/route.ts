@@ -0,0 +1,60 @@
+import { NextRequest } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { Database } from '@/types/supabase';
+import { createProductGroupSchema } from '@/lib/validations/campaign';
+import { withAdmin, withValidation } from '@/lib/api/middleware';
+import { successResponse, handleDatabaseError } from '@/lib/api/index';
+import { USE_STUBS } from '@/lib/stubs';
+import { mockProductGroups } from '@/lib/stubs/mock-data';
+
+// GET /api/admin/product-groups - List product groups (admin only)
+export async function GET(req: NextRequest) {
+  if (USE_STUBS) {
+    return successResponse(mockProductGroups);
+  }
+
+  return withAdmin(req, async (req, session) => {
+    try {
+      const supabase = createRouteHandlerClient<Database>({ cookies });
+
+      const { data: groups, error } = await supabase
+        .from('product_groups')
+        .select('*')
+        .order('name', { ascending: true });
+
+      if (error) {
+        throw error;
+      }
+
+      return successResponse(groups || []);
+    } catch (error) {
+      return handleDatabaseError(error as Error);
+    }
+  });
+}
+
+// POST /api/admin/product-groups - Create a product group (admin only)
+export async function POST(req: NextRequest) {
+  return withAdmin(req, (req, session) =>
+    withValidation(req, createProductGroupSchema, async (req, validData) => {
+      try {
+        const supabase = createRouteHandlerClient<Database>({ cookies });
+
+        const { data: group, error } = await supabase
+          .from('product_groups')
+          .insert({ ...validData, created_by: session.user.id })
+          .select()
+          .single();
+
+        if (error) {
+          throw error;
+        }
+
+        return successResponse(group, 201);
+      } catch (error) {
+        return handleDatabaseError(error as Error);
+      }
+    })
+  );
+}
@@ -0,0 +1,127 @@
+import { NextRequest } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { Database } from '@/types/supabase';
+import { updatePromotionSchema } from '@/lib/validations/promotion';
+import { withAdmin, withValidation } from '@/lib/api/middleware';
+import {
+  successResponse,
+  errorResponse,
+  handleDatabaseError,
+  handleNotFound,
+} from '@/lib/api/index';
+import { getPromotionStatus } from '@/lib/promotions/promotion-service';
+
+type PromotionParams = { params: Promise<{ id: string }> };
+
+// GET /api/admin/promotions/[id] - Get a promotion with its recent redemptions (admin only)
+export async function GET(req: NextRequest, { params }: PromotionParams) {
+  const { id } = await params;
+  return withAdmin(req, async (req, session) => {
+    try {
+      const supabase = createRouteHandlerClient<Database>({ cookies });
+
+      const { data: promotion, error } = await supabase
+        .from('promotions')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          return handleNotFound(`Promotion with ID ${id} not found`);
+        }
+        throw error;
+      }
+
+      const { data: redemptions, error: redemptionsError } = await supabase
+        .from('promotion_redemptions')
+        .select('*')
+        .eq('promotion_id', id)
+        .order('created_at', { ascending: false })
+        .limit(50);
+
+      if (redemptionsError) {
+        throw redemptionsError;
+      }
+
+      return successResponse({
+        ...promotion,
+        status: getPromotionStatus(promotion),
+        redemptions: redemptions || [],
+      });
+    } catch (error) {
+      return handleDatabaseError(error as Error);
+    }
+  });
+}
+
+// PATCH /api/admin/promotions/[id] - Update a promotion (admin only)
+export async function PATCH(req: NextRequest, { params }: PromotionParams) {
+  const { id } = await params;
+  return withAdmin(req, (req, session) =>
+    withValidation(req, updatePromotionSchema, async (req, validData) => {
+      try {
+        const supabase = createRouteHandlerClient<Database>({ cookies });
+
+        const { data: promotion, error } = await supabase
+          .from('promotions')
+          .update({ ...validData, updated_at: new Date().toISOString() })
+          .eq('id', id)
+          .select()
+          .single();
+
+        if (error) {
+          if (error.code === 'PGRST116') {
+            return handleNotFound(`Promotion with ID ${id} not found`);
+          }
+          if (error.code === '23505') {
+            return errorResponse(
+              `Promo code ${validData.code} already exists`,
+              409,
+              'DUPLICATE_PROMO_CODE'
+            );
+          }
+          // Check constraints keep the rule consistent (e.g. buy X get Y quantities)
+          if (error.code === '23514') {
+            return errorResponse('Invalid promotion rule', 400, 'INVALID_PROMOTION');
+          }
+          throw error;
+        }
+
+        return successResponse({ ...promotion, status: getPromotionStatus(promotion) });
+      } catch (error) {
+        return handleDatabaseError(error as Error);
+      }
+    })
+  );
+}
+
+// DELETE /api/admin/promotions/[id] - Delete a promotion (admin only).
+// Only unused promotions can be deleted; redeemed ones are deactivated instead.
+export async function DELETE(req: NextRequest, { params }: PromotionParams) {
+  const { id } = await params;
+  return withAdmin(req, async (req, session) => {
+    try {
+      const supabase = createRouteHandlerClient<Database>({ cookies });
+
+      const { error } = await supabase.from('promotions').delete().eq('id', id);
+
+      if (error) {
+        // Redemptions reference the promotion
+        if (error.code === '23503') {
+          return errorResponse(
+            'Promotion has been redeemed; deactivate it instead',
+            409,
+            'PROMOTION_IN_USE'
+          );
+        }
+        throw error;
+      }
+
+      return successResponse({ message: 'Promotion deleted successfully' });
+    } catch (error) {
+      return handleDatabaseError(error as Error);
+    }
+  });
+}
@@ -0,0 +1,101 @@
+import { NextRequest } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { Database } from '@/types/supabase';
+import { createPromotionSchema, promotionQuerySchema } from '@/lib/validations/promotion';
+import { withAdmin, withQueryValidation, withValidation } from '@/lib/api/middleware';
+import { successResponse, errorResponse, handleDatabaseError } from '@/lib/api/index';
+import { getPromotionStatus } from '@/lib/promotions/promotion-service';
+
+// GET /api/admin/promotions - List promotions with their usage (admin only)
+export async function GET(req: NextRequest) {
+  return withAdmin(req, (req, session) =>
+    withQueryValidation(req, promotionQuerySchema, async (req, data) => {
+      const { status = 'all', search, limit = 20, offset = 0 } = data;
+
+      try {
+        const supabase = createRouteHandlerClient<Database>({ cookies });
+        const now = new Date().toISOString();
+
+        let query = supabase
+          .from('promotions')
+          .select('*', { count: 'exact' })
+          .order('created_at', { ascending: false })
+          .range(offset, offset + limit - 1);
+
+        switch (status) {
+          case 'active':
+            query = query
+              .eq('is_active', true)
+              .or(`starts_at.is.null,starts_at.lte.${now}`)
+              .or(`ends_at.is.null,ends_at.gt.${now}`);
+            break;
+          case 'scheduled':
+            query = query.eq('is_active', true).gt('starts_at', now);
+            break;
+          case 'expired':
+            query = query.eq('is_active', true).lte('ends_at', now);
+            break;
+          case 'inactive':
+            query = query.eq('is_active', false);
+            break;
+        }
+
+        if (search) {
+          query = query.or(`code.ilike.%${search}%,name.ilike.%${search}%`);
+        }
+
+        const { data: promotions, error, count } = await query;
+
+        if (error) {
+          throw error;
+        }
+
+        return successResponse({
+          promotions: (promotions || []).map((promotion) => ({
+            ...promotion,
+            status: getPromotionStatus(promotion),
+          })),
+          total: count || 0,
+          limit,
+          offset,
+          hasMore: (count || 0) > offset + limit,
+        });
+      } catch (error) {
+        return handleDatabaseError(error as Error);
+      }
+    })
+  );
+}
+
+// POST /api/admin/promotions - Create a promotion (admin only)
+export async function POST(req: NextRequest) {
+  return withAdmin(req, (req, session) =>
+    withValidation(req, createPromotionSchema, async (req, validData) => {
+      try {
+        const supabase = createRouteHandlerClient<Database>({ cookies });
+
+        const { data: promotion, error } = await supabase
+          .from('promotions')
+          .insert({ ...validData, created_by: session.user.id })
+          .select()
+          .single();
+
+        if (error) {
+          if (error.code === '23505') {
+            return errorResponse(
+              `Promo code ${validData.code} already exists`,
+              409,
+              'DUPLICATE_PROMO_CODE'
+            );
+          }
+          throw error;
+        }
+
+        return successResponse({ ...promotion, status: getPromotionStatus(promotion) }, 201);
+      } catch (error) {
+        return handleDatabaseError(error as Error);
+      }
+    })
+  );
+}
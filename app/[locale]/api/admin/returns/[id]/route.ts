@@ -0,0 +1,76 @@
+import { NextRequest } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { Database } from '@/types/supabase';
+import { updateReturnRequestSchema } from '@/lib/validations/return';
+import { withAdmin, withValidation } from '@/lib/api/middleware';
+import {
+  successResponse,
+  errorResponse,
+  handleDatabaseError,
+  handleNotFound,
+} from '@/lib/api/index';
+import { applyReturnAction } from '@/lib/returns/return-actions';
+
+type ReturnParams = { params: Promise<{ id: string }> };
+
+// GET /api/admin/returns/[id] - Get a return request with its items (admin only)
+export async function GET(req: NextRequest, { params }: ReturnParams) {
+  const { id } = await params;
+  return withAdmin(req, async (req, session) => {
+    try {
+      const supabase = createRouteHandlerClient<Database>({ cookies });
+
+      const { data: returnRequest, error } = await supabase
+        .from('return_requests')
+        .select(
+          `
+          *,
+          users ( full_name, email ),
+          orders ( id, order_number, status, total, payment_intent_id, created_at ),
+          return_request_items (
+            id,
+            quantity,
+            condition,
+            reason,
+            order_items ( id, quantity, price, variant_id, products ( id, name, image_url ) )
+          )
+        `
+        )
+        .eq('id', id)
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          return handleNotFound(`Return request with ID ${id} not found`);
+        }
+        throw error;
+      }
+
+      return successResponse(returnRequest);
+    } catch (error) {
+      return handleDatabaseError(error as Error);
+    }
+  });
+}
+
+// PATCH /api/admin/returns/[id] - Approve, reject, receive or annotate a return (admin only)
+export async function PATCH(req: NextRequest, { params }: ReturnParams) {
+  const { id } = await params;
+  return withAdmin(req, (req, session) =>
+    withValidation(req, updateReturnRequestSchema, async (req, validData) => {
+      try {
+        const supabase = createRouteHandlerClient<Database>({ cookies });
+        const result = await applyReturnAction(supabase, id, validData, session.user.id);
+
+        if (result.error) {
+          return errorResponse(result.error.message, result.error.status, result.error.code);
+        }
+
+        return successResponse(result.data);
+      } catch (error) {
+        return handleDatabaseError(error as Error);
+      }
+    })
+  );
+}
@@ -0,0 +1,53 @@
+import { NextRequest } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { Database } from '@/types/supabase';
+import { bulkReturnActionSchema, UpdateReturnRequest } from '@/lib/validations/return';
+import { withAdmin, withValidation } from '@/lib/api/middleware';
+import { successResponse, handleDatabaseError } from '@/lib/api/index';
+import { applyReturnAction } from '@/lib/returns/return-actions';
+
+// POST /api/admin/returns/bulk - Approve or reject several returns at once (admin only)
+export async function POST(req: NextRequest) {
+  return withAdmin(req, (req, session) =>
+    withValidation(req, bulkReturnActionSchema, async (req, validData) => {
+      const { ids, action, adminNotes } = validData;
+
+      try {
+        const supabase = createRouteHandlerClient<Database>({ cookies });
+        const updated: string[] = [];
+        const failed: { id: string; message: string; code: string }[] = [];
+
+        // The schema already requires notes for rejections
+        const input: UpdateReturnRequest =
+          action === 'approve' ? { action, adminNotes } : { action, adminNotes: adminNotes || '' };
+
+        // One at a time so each approval gets its own refund and notification.
+        // A failure is reported with the others rather than hiding what was
+        // already approved or refunded.
+        for (const id of ids) {
+          try {
+            const result = await applyReturnAction(supabase, id, input, session.user.id);
+
+            if (result.error) {
+              failed.push({ id, message: result.error.message, code: result.error.code });
+            } else {
+              updated.push(id);
+            }
+          } catch (error) {
+            console.error(`Bulk return action failed for ${id}:`, error);
+            failed.push({
+              id,
+              message: (error as Error)?.message || 'Failed to update return',
+              code: 'UPDATE_FAILED',
+            });
+          }
+        }
+
+        return successResponse({ updated, failed });
+      } catch (error) {
+        return handleDatabaseError(error as Error);
+      }
+    })
+  );
+}
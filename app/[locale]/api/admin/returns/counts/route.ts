@@ -0,0 +1,45 @@
+import { NextRequest } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { Database } from '@/types/supabase';
+import { withAdmin } from '@/lib/api/middleware';
+import { successResponse, handleDatabaseError } from '@/lib/api/index';
+import { ReturnStatus } from '@/lib/returns/return-workflow';
+
+const RETURN_STATUSES: ReturnStatus[] = [
+  'pending',
+  'approved',
+  'rejected',
+  'received',
+  'completed',
+];
+
+// GET /api/admin/returns/counts - Number of return requests in each status (admin only)
+export async function GET(req: NextRequest) {
+  return withAdmin(req, async (req, session) => {
+    try {
+      const supabase = createRouteHandlerClient<Database>({ cookies });
+
+      const results = await Promise.all(
+        RETURN_STATUSES.map((status) =>
+          supabase
+            .from('return_requests')
+            .select('id', { count: 'exact', head: true })
+            .eq('status', status)
+        )
+      );
+
+      const counts = {} as Record<ReturnStatus, number>;
+      results.forEach(({ count, error }, index) => {
+        if (error) {
+          throw error;
+        }
+        counts[RETURN_STATUSES[index]] = count || 0;
+      });
+
+      return successResponse({ counts });
+    } catch (error) {
+      return handleDatabaseError(error as Error);
+    }
+  });
+}
@@ -0,0 +1,58 @@
+import { NextRequest } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { Database } from '@/types/supabase';
+import { returnQuerySchema } from '@/lib/validations/return';
+import { withAdmin, withQueryValidation } from '@/lib/api/middleware';
+import { successResponse, handleDatabaseError } from '@/lib/api/index';
+
+// GET /api/admin/returns - List return requests, newest first (admin only)
+export async function GET(req: NextRequest) {
+  return withAdmin(req, (req, session) =>
+    withQueryValidation(req, returnQuerySchema, async (req, data) => {
+      const { status = 'all', search, olderThanDays, limit = 20, offset = 0 } = data;
+
+      try {
+        const supabase = createRouteHandlerClient<Database>({ cookies });
+
+        let query = supabase
+          .from('return_requests')
+          .select(
+            '*, users(full_name, email), orders(order_number, total), return_request_items(quantity)',
+            { count: 'exact' }
+          )
+          .order('created_at', { ascending: false })
+          .range(offset, offset + limit - 1);
+
+        if (status !== 'all') {
+          query = query.eq('status', status);
+        }
+
+        if (search) {
+          query = query.ilike('rma_number', `%${search}%`);
+        }
+
+        if (olderThanDays !== undefined) {
+          const cutoff = new Date(Date.now() - olderThanDays * 24 * 60 * 60 * 1000);
+          query = query.lte('created_at', cutoff.toISOString());
+        }
+
+        const { data: returns, error, count } = await query;
+
+        if (error) {
+          throw error;
+        }
+
+        return successResponse({
+          returns: returns || [],
+          total: count || 0,
+          limit,
+          offset,
+          hasMore: (count || 0) > offset + limit,
+        });
+      } catch (error) {
+        return handleDatabaseError(error as Error);
+      }
+    })
+  );
+}
@@ -0,0 +1,65 @@
+import { NextRequest } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { Database } from '@/types/supabase';
+import { moderateReviewSchema } from '@/lib/validations/review';
+import { withAdmin, withValidation } from '@/lib/api/middleware';
+import { successResponse, handleDatabaseError, handleNotFound } from '@/lib/api/index';
+
+type ReviewParams = { params: Promise<{ id: string }> };
+
+// PATCH /api/admin/reviews/[id] - Approve or reject a review (admin only)
+export async function PATCH(req: NextRequest, { params }: ReviewParams) {
+  const { id } = await params;
+  return withAdmin(req, (req, session) =>
+    withValidation(req, moderateReviewSchema, async (req, validData) => {
+      try {
+        const supabase = createRouteHandlerClient<Database>({ cookies });
+
+        const { data: review, error } = await supabase
+          .from('product_reviews')
+          .update({
+            status: validData.status,
+            moderation_notes: validData.moderation_notes ?? null,
+            moderated_by: session.user.id,
+            moderated_at: new Date().toISOString(),
+            updated_at: new Date().toISOString(),
+          })
+          .eq('id', id)
+          .select()
+          .single();
+
+        if (error) {
+          if (error.code === 'PGRST116') {
+            return handleNotFound(`Review with ID ${id} not found`);
+          }
+          throw error;
+        }
+
+        return successResponse(review);
+      } catch (error) {
+        return handleDatabaseError(error as Error);
+      }
+    })
+  );
+}
+
+// DELETE /api/admin/reviews/[id] - Remove a review (admin only)
+export async function DELETE(req: NextRequest, { params }: ReviewParams) {
+  const { id } = await params;
+  return withAdmin(req, async (req, session) => {
+    try {
+      const supabase = createRouteHandlerClient<Database>({ cookies });
+
+      const { error } = await supabase.from('product_reviews').delete().eq('id', id);
+
+      if (error) {
+        throw error;
+      }
+
+      return successResponse({ message: 'Review deleted successfully' });
+    } catch (error) {
+      return handleDatabaseError(error as Error);
+    }
+  });
+}
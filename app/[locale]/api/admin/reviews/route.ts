@@ -0,0 +1,49 @@
+import { NextRequest } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { Database } from '@/types/supabase';
+import { adminReviewQuerySchema } from '@/lib/validations/review';
+import { withAdmin, withQueryValidation } from '@/lib/api/middleware';
+import { successResponse, handleDatabaseError } from '@/lib/api/index';
+
+// GET /api/admin/reviews - Moderation queue, pending reviews by default (admin only)
+export async function GET(req: NextRequest) {
+  return withAdmin(req, (req, session) =>
+    withQueryValidation(req, adminReviewQuerySchema, async (req, data) => {
+      const { status = 'pending', limit = 20, offset = 0 } = data;
+
+      try {
+        const supabase = createRouteHandlerClient<Database>({ cookies });
+
+        const {
+          data: reviews,
+          error,
+          count,
+        } = await supabase
+          .from('product_reviews')
+          .select(
+            '*, users!product_reviews_user_id_fkey(full_name, email), products(id, name, image_url)',
+            { count: 'exact' }
+          )
+          .eq('status', status)
+          // Oldest first so the queue is worked through in order
+          .order('created_at', { ascending: status === 'pending' })
+          .range(offset, offset + limit - 1);
+
+        if (error) {
+          throw error;
+        }
+
+        return successResponse({
+          reviews: reviews || [],
+          total: count || 0,
+          limit,
+          offset,
+          hasMore: (count || 0) > offset + limit,
+        });
+      } catch (error) {
+        return handleDatabaseError(error as Error);
+      }
+    })
+  );
+}
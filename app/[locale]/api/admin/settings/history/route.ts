@@ -0,0 +1,46 @@
+import { NextRequest } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { Database } from '@/types/supabase';
+import { storeSettingsHistoryQuerySchema } from '@/lib/validations/settings';
+import { withAdmin, withQueryValidation } from '@/lib/api/middleware';
+import { successResponse, handleDatabaseError } from '@/lib/api/index';
+
+// GET /api/admin/settings/history - List settings changes, newest first (admin only)
+export async function GET(req: NextRequest) {
+  return withAdmin(req, (req, session) =>
+    withQueryValidation(req, storeSettingsHistoryQuerySchema, async (req, data) => {
+      const { section, limit = 20, offset = 0 } = data;
+
+      try {
+        const supabase = createRouteHandlerClient<Database>({ cookies });
+
+        let query = supabase
+          .from('site_settings_history')
+          .select('*, users(full_name, email)', { count: 'exact' })
+          .order('changed_at', { ascending: false })
+          .range(offset, offset + limit - 1);
+
+        if (section) {
+          query = query.eq('setting_key', section);
+        }
+
+        const { data: history, error, count } = await query;
+
+        if (error) {
+          throw error;
+        }
+
+        return successResponse({
+          history: history || [],
+          total: count || 0,
+          limit,
+          offset,
+          hasMore: (count || 0) > offset + limit,
+        });
+      } catch (error) {
+        return handleDatabaseError(error as Error);
+      }
+    })
+  );
+}
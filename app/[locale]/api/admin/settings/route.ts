@@ -0,0 +1,38 @@
+import { NextRequest } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { Database } from '@/types/supabase';
+import { updateStoreSettingsSchema } from '@/lib/validations/settings';
+import { withAdmin, withValidation } from '@/lib/api/middleware';
+import { successResponse, handleDatabaseError } from '@/lib/api/index';
+import { getStoreSettings, updateStoreSettings } from '@/lib/settings/store-settings';
+
+// GET /api/admin/settings - Get all store settings (admin only)
+export async function GET(req: NextRequest) {
+  return withAdmin(req, async (req, session) => {
+    try {
+      const supabase = createRouteHandlerClient<Database>({ cookies });
+      const settings = await getStoreSettings(supabase);
+
+      return successResponse(settings);
+    } catch (error) {
+      return handleDatabaseError(error as Error);
+    }
+  });
+}
+
+// PATCH /api/admin/settings - Save one settings section (admin only)
+export async function PATCH(req: NextRequest) {
+  return withAdmin(req, (req, session) =>
+    withValidation(req, updateStoreSettingsSchema, async (req, validData) => {
+      try {
+        const supabase = createRouteHandlerClient<Database>({ cookies });
+        const value = await updateStoreSettings(supabase, validData.section, validData.value);
+
+        return successResponse({ section: validData.section, value });
+      } catch (error) {
+        return handleDatabaseError(error as Error);
+      }
+    })
+  );
+}
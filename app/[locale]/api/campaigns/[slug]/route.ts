@@ -0,0 +1,84 @@
+import { NextRequest } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { Database } from '@/types/supabase';
+import { successResponse, handleDatabaseError, handleNotFound } from '@/lib/api/index';
+import { getCampaignStatus } from '@/lib/utils/shop-helpers';
+import { CampaignWithProducts, ShopProduct } from '@/types/shop';
+import { USE_STUBS, mockFashionProducts } from '@/lib/stubs';
+import { mockCampaigns } from '@/lib/stubs/mock-data';
+
+type CampaignSlugParams = { params: Promise<{ slug: string }> };
+
+// Keep the order the campaign lists its products in
+function orderByIds<T extends { id: string }>(items: T[], ids: string[]): T[] {
+  const byId = new Map(items.map((item) => [item.id, item]));
+  return ids.map((id) => byId.get(id)).filter((item): item is T => !!item);
+}
+
+// GET /api/campaigns/[slug] - Get an active campaign with its products
+export async function GET(req: NextRequest, { params }: CampaignSlugParams) {
+  const { slug } = await params;
+
+  if (USE_STUBS) {
+    const campaign = mockCampaigns.find((c) => c.slug === slug);
+
+    if (!campaign || getCampaignStatus(campaign) !== 'active') {
+      return handleNotFound(`Campaign ${slug} not found`);
+    }
+
+    const products = orderByIds(mockFashionProducts, campaign.product_ids);
+    const result: CampaignWithProducts = {
+      ...campaign,
+      products,
+      product_count: products.length,
+    };
+
+    return successResponse(result);
+  }
+
+  try {
+    const supabase = createRouteHandlerClient<Database>({ cookies });
+
+    // Stored status can lag behind the dates, so go by the dates
+    const now = new Date().toISOString();
+    const { data: campaign, error } = await supabase
+      .from('campaigns')
+      .select('*')
+      .eq('slug', slug)
+      .in('status', ['scheduled', 'active'])
+      .or(`start_date.is.null,start_date.lte.${now}`)
+      .or(`end_date.is.null,end_date.gt.${now}`)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return handleNotFound(`Campaign ${slug} not found`);
+      }
+      throw error;
+    }
+
+    let products: ShopProduct[] = [];
+
+    if (campaign.product_ids.length > 0) {
+      const { data: rows, error: productsError } = await supabase
+        .from('products')
+        .select('*')
+        .in('id', campaign.product_ids);
+
+      if (productsError) {
+        throw productsError;
+      }
+
+      products = orderByIds((rows || []) as unknown as ShopProduct[], campaign.product_ids);
+    }
+
+    return successResponse({
+      ...campaign,
+      products,
+      product_count: products.length,
+    });
+  } catch (error) {
+    return handleDatabaseError(error as Error);
+  }
+}
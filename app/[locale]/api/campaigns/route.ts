@@ -0,0 +1,61 @@
+import { NextRequest } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { Database } from '@/types/supabase';
+import { publicCampaignQuerySchema } from '@/lib/validations/campaign';
+import { withQueryValidation } from '@/lib/api/middleware';
+import { successResponse, handleDatabaseError } from '@/lib/api/index';
+import { getCampaignStatus } from '@/lib/utils/shop-helpers';
+import { USE_STUBS } from '@/lib/stubs';
+import { mockCampaigns } from '@/lib/stubs/mock-data';
+
+// GET /api/campaigns - List active campaigns for the storefront
+export async function GET(req: NextRequest) {
+  return withQueryValidation(req, publicCampaignQuerySchema, async (req, data) => {
+    const { featured, homepage, limit = 6 } = data;
+
+    if (USE_STUBS) {
+      const campaigns = mockCampaigns
+        .filter((campaign) => getCampaignStatus(campaign) === 'active')
+        .filter((campaign) => featured === undefined || campaign.is_featured === featured)
+        .filter((campaign) => homepage === undefined || campaign.show_on_homepage === homepage)
+        .sort((a, b) => (a.sort_order ?? 0) - (b.sort_order ?? 0))
+        .slice(0, limit);
+
+      return successResponse({ campaigns });
+    }
+
+    try {
+      const supabase = createRouteHandlerClient<Database>({ cookies });
+
+      // Stored status can lag behind the dates, so go by the dates
+      const now = new Date().toISOString();
+      let query = supabase
+        .from('campaigns')
+        .select('*')
+        .in('status', ['scheduled', 'active'])
+        .or(`start_date.is.null,start_date.lte.${now}`)
+        .or(`end_date.is.null,end_date.gt.${now}`)
+        .order('sort_order', { ascending: true })
+        .limit(limit);
+
+      if (featured !== undefined) {
+        query = query.eq('is_featured', featured);
+      }
+
+      if (homepage !== undefined) {
+        query = query.eq('show_on_homepage', homepage);
+      }
+
+      const { data: campaigns, error } = await query;
+
+      if (error) {
+        throw error;
+      }
+
+      return successResponse({ campaigns: campaigns || [] });
+    } catch (error) {
+      return handleDatabaseError(error as Error);
+    }
+  });
+}
@@ -16,7 +16,7 @@ export async function POST(req: NextRequest) {
       try {
         const supabase = createServerClient();
         const userId = session.user.id;
-        const { product_id, quantity } = validData;
+        const { product_id, variant_id, quantity } = validData;
 
         // Ensure quantity is defined (should be guaranteed by validation)
         if (quantity === undefined) {
@@ -37,21 +37,53 @@ export async function POST(req: NextRequest) {
           throw productError;
         }
 
-        if (product.inventory_count < quantity) {
+        // Products sold in sizes/colors are stocked per variant
+        const { data: variants, error: variantsError } = await supabase
+          .from('product_variants')
+          .select('id, inventory_count')
+          .eq('product_id', product_id)
+          .eq('is_active', true);
+
+        if (variantsError) {
+          throw variantsError;
+        }
+
+        let availableInventory = product.inventory_count;
+
+        if (variant_id) {
+          const variant = (variants || []).find((v: { id: string }) => v.id === variant_id);
+          if (!variant) {
+            return handleNotFound(`Variant with ID ${variant_id} not found for this product`);
+          }
+          availableInventory = variant.inventory_count;
+        } else if (variants && variants.length > 0) {
+          return errorResponse(
+            'Please select a size and color before adding this product to the cart.',
+            400,
+            'VARIANT_REQUIRED'
+          );
+        }
+
+        if (availableInventory < quantity) {
           return errorResponse(
-            `Not enough inventory. Only ${product.inventory_count} items available.`,
+            `Not enough inventory. Only ${availableInventory} items available.`,
             400,
             'INSUFFICIENT_INVENTORY'
           );
         }
 
-        // Check if the item is already in the cart
-        const { data: existingItem, error: existingItemError } = await supabase
+        // Check if the item (same variant) is already in the cart
+        let existingItemQuery = supabase
           .from('cart_items')
           .select('id, quantity')
           .eq('user_id', userId)
-          .eq('product_id', product_id)
-          .single();
+          .eq('product_id', product_id);
+
+        existingItemQuery = variant_id
+          ? existingItemQuery.eq('variant_id', variant_id)
+          : existingItemQuery.is('variant_id', null);
+
+        const { data: existingItem, error: existingItemError } = await existingItemQuery.single();
 
         if (existingItemError && existingItemError.code !== 'PGRST116') {
           throw existingItemError;
@@ -64,9 +96,9 @@ export async function POST(req: NextRequest) {
           const newQuantity = existingItem.quantity + quantity;
 
           // Check if new quantity exceeds inventory
-          if (newQuantity > product.inventory_count) {
+          if (newQuantity > availableInventory) {
             return errorResponse(
-              `Cannot add ${quantity} more items. Only ${product.inventory_count - existingItem.quantity} more available.`,
+              `Cannot add ${quantity} more items. Only ${availableInventory - existingItem.quantity} more available.`,
               400,
               'INSUFFICIENT_INVENTORY'
             );
@@ -94,6 +126,7 @@ export async function POST(req: NextRequest) {
             .insert({
               user_id: userId,
               product_id,
+              variant_id: variant_id || null,
               quantity,
               created_at: new Date().toISOString(),
               updated_at: new Date().toISOString(),
@@ -2,6 +2,7 @@ import { NextRequest } from 'next/server';
 import { createServerClient } from '@/lib/supabase/server';
 import { withAuth } from '@/lib/api/middleware';
 import { successResponse, handleDatabaseError } from '@/lib/api/index';
+import { getVariantPrice } from '@/lib/utils/shop-helpers';
 
 // GET /api/cart - Get the current user's cart
 export async function GET(req: NextRequest) {
@@ -18,12 +19,21 @@ export async function GET(req: NextRequest) {
           id,
           quantity,
           product_id,
+          variant_id,
           products (
             id,
             name,
             price,
             image_url,
             inventory_count
+          ),
+          product_variants (
+            id,
+            sku,
+            size,
+            color,
+            price_override,
+            inventory_count
           )
         `
         )
@@ -36,17 +46,22 @@ export async function GET(req: NextRequest) {
       // Transform items to use 'product' (singular) instead of 'products' (Supabase join format)
       const transformedItems = (cartItems || []).map((item: any) => {
         const product = Array.isArray(item.products) ? item.products[0] : item.products;
+        const variant = Array.isArray(item.product_variants)
+          ? item.product_variants[0]
+          : item.product_variants;
         return {
           id: item.id,
           product_id: item.product_id,
+          variant_id: item.variant_id || null,
           quantity: item.quantity,
           product: product || null,
+          variant: variant || null,
         };
       });
 
-      // Calculate total
+      // Calculate total (variant price overrides the product price)
       const total = transformedItems.reduce((sum: number, item: any) => {
-        const price = item.product?.price || 0;
+        const price = item.product ? getVariantPrice(item.product, item.variant) : 0;
         const discount = item.product?.discount_percent || 0;
         const discountedPrice = discount > 0 ? price * (1 - discount / 100) : price;
         return sum + discountedPrice * item.quantity;
@@ -21,7 +21,7 @@ export async function PUT(req: NextRequest) {
         // Check if cart item exists and belongs to the user
         const { data: cartItem, error: cartItemError } = await supabase
           .from('cart_items')
-          .select('id, product_id')
+          .select('id, product_id, variant_id')
           .eq('id', id)
           .eq('user_id', userId)
           .single();
@@ -33,20 +33,26 @@ export async function PUT(req: NextRequest) {
           throw cartItemError;
         }
 
-        // Check if product has sufficient inventory
-        const { data: product, error: productError } = await supabase
-          .from('products')
-          .select('id, inventory_count')
-          .eq('id', cartItem.product_id)
-          .single();
+        // Check if the product (or the selected variant) has sufficient inventory
+        const { data: stock, error: stockError } = cartItem.variant_id
+          ? await supabase
+              .from('product_variants')
+              .select('id, inventory_count')
+              .eq('id', cartItem.variant_id)
+              .single()
+          : await supabase
+              .from('products')
+              .select('id, inventory_count')
+              .eq('id', cartItem.product_id)
+              .single();
 
-        if (productError) {
-          throw productError;
+        if (stockError) {
+          throw stockError;
         }
 
-        if (product.inventory_count < quantity) {
+        if (stock.inventory_count < quantity) {
           return errorResponse(
-            `Not enough inventory. Only ${product.inventory_count} items available.`,
+            `Not enough inventory. Only ${stock.inventory_count} items available.`,
             400,
             'INSUFFICIENT_INVENTORY'
           );
@@ -1,74 +1,160 @@
 import { NextRequest } from 'next/server';
-import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
-import { cookies } from 'next/headers';
-import { Database } from '@/types/supabase';
-import { getServerStripe } from '@/lib/stripe/server';
-import { createOrderSchema } from '@/lib/validations/checkout';
+import { CreateOrder, createOrderSchema } from '@/lib/validations/checkout';
 import { withAuth, withValidation, withPaymentSecurity } from '@/lib/api/middleware';
 import { successResponse, errorResponse, handleDatabaseError } from '@/lib/api/index';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { findGuestCart, getGuestCartToken } from '@/lib/checkout/guest-cart';
+import { getOrderLookupUrl } from '@/lib/checkout/order-lookup';
+import {
+  CreatedOrder,
+  createOrderForVerifiedPayment,
+  IDEMPOTENCY_KEY_HEADER,
+  parseIdempotencyKey,
+} from '@/lib/checkout/order-creation';
+import { sendOrderConfirmation } from '@/lib/notifications/notification-service';
+import { isGuestCheckoutAllowed } from '@/lib/settings/store-settings';
 
-// POST /api/checkout/create-order - Create an order after successful payment
-export async function POST(req: NextRequest) {
-  return withPaymentSecurity(req, (req, session) =>
-    withValidation(req, createOrderSchema, async (req, validData) => {
-      const supabase = createRouteHandlerClient<Database>({ cookies });
-      const userId = session.user.id;
+// Retries get the same response as the first request
+function toOrderResponse(order: CreatedOrder) {
+  return {
+    orderId: order.orderId,
+    orderNumber: order.orderNumber,
+    status: order.status,
+    total: order.total,
+    discount: order.discount,
+    estimatedDelivery: order.estimatedDelivery,
+  };
+}
+
+// Guest orders come from the guest cart and are keyed by email. The payment
+// intent must have been created for this guest cart.
+async function createGuestOrder(
+  req: NextRequest,
+  validData: CreateOrder,
+  locale: string,
+  idempotencyKey: string | null
+) {
+  const supabase = createServiceRoleClient();
+
+  try {
+    const { shippingAddress, paymentMethodId, guestEmail } = validData;
+
+    if (!(await isGuestCheckoutAllowed(supabase))) {
+      return errorResponse('Please sign in to check out', 401, 'ACCOUNT_REQUIRED');
+    }
+
+    if (!guestEmail) {
+      return errorResponse('Email is required for guest checkout', 400, 'EMAIL_REQUIRED');
+    }
+
+    const guestCart = await findGuestCart(supabase, getGuestCartToken(req));
+    if (!guestCart) {
+      return errorResponse('Your cart is empty', 400, 'CART_EMPTY');
+    }
+
+    const { data: order, error: orderError } = await createOrderForVerifiedPayment(supabase, {
+      userId: null,
+      guestCartId: guestCart.id,
+      paymentIntentId: paymentMethodId,
+      idempotencyKey,
+      details: validData,
+    });
 
+    if (orderError) {
+      return errorResponse(orderError.message, orderError.status, orderError.code);
+    }
+
+    const lookupUrl = getOrderLookupUrl(order.orderId, guestEmail, locale);
+
+    // Guests have no account page, so the confirmation links to the lookup page.
+    // A retry (or the webhook) that found the order already sent it.
+    if (order.created) {
       try {
-        const { shippingAddress, billingAddress, paymentMethodId, shippingMethod, notes } =
-          validData;
-
-        // Start a database transaction
-        const { data: orderData, error: orderError } = await supabase.rpc(
-          'create_order_with_items',
-          {
-            p_user_id: userId,
-            p_shipping_address: shippingAddress,
-            p_billing_address: billingAddress || shippingAddress,
-            p_payment_method_id: paymentMethodId,
-            p_shipping_method: shippingMethod,
-            p_notes: notes || null,
-          }
-        );
+        await sendOrderConfirmation(order.orderId, guestEmail, {
+          customerName: `${shippingAddress.firstName} ${shippingAddress.lastName}`,
+          orderNumber: order.orderNumber,
+          total: order.total,
+          estimatedDelivery: order.estimatedDelivery,
+          trackingUrl: lookupUrl,
+        });
+      } catch (emailError) {
+        console.error('Failed to send confirmation email:', emailError);
+        // Don't fail the order creation if email fails
+      }
+    }
 
-        if (orderError) {
-          throw orderError;
+    return successResponse({ ...toOrderResponse(order), lookupUrl });
+  } catch (error: any) {
+    console.error('Guest order creation error:', error);
+    return handleDatabaseError(error);
+  }
+}
+
+// POST /api/checkout/create-order - Create an order after successful payment.
+// Safe to retry: the payment intent (and the optional Idempotency-Key header)
+// always maps to the same order.
+export async function POST(req: NextRequest, { params }: { params: Promise<{ locale: string }> }) {
+  const { locale } = await params;
+
+  return withPaymentSecurity(
+    req,
+    (req, session) =>
+      withValidation(req, createOrderSchema, async (req, validData) => {
+        const { key: idempotencyKey, error: keyError } = parseIdempotencyKey(
+          req.headers.get(IDEMPOTENCY_KEY_HEADER)
+        );
+        if (keyError) {
+          return errorResponse(keyError.message, keyError.status, keyError.code);
         }
 
-        if (!orderData || orderData.length === 0) {
-          return errorResponse('Failed to create order', 500);
+        if (!session) {
+          return createGuestOrder(req, validData, locale, idempotencyKey);
         }
 
-        const order = orderData[0];
+        // create_order_with_items only runs as the service role, once the
+        // payment is verified for this user
+        const supabase = createServiceRoleClient();
 
-        // Send order confirmation email
         try {
-          await fetch(`${process.env.NEXT_PUBLIC_APP_URL}/api/emails/order-confirmation`, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              orderId: order.id,
-              userEmail: shippingAddress.email,
-            }),
+          const { shippingAddress, paymentMethodId } = validData;
+
+          const { data: order, error: orderError } = await createOrderForVerifiedPayment(supabase, {
+            userId: session.user.id,
+            guestCartId: null,
+            paymentIntentId: paymentMethodId,
+            idempotencyKey,
+            details: validData,
           });
-        } catch (emailError) {
-          console.error('Failed to send confirmation email:', emailError);
-          // Don't fail the order creation if email fails
-        }
 
-        return successResponse({
-          orderId: order.id,
-          orderNumber: order.order_number,
-          status: order.status,
-          total: order.total,
-          estimatedDelivery: order.estimated_delivery,
-        });
-      } catch (error: any) {
-        console.error('Order creation error:', error);
-        return handleDatabaseError(error);
-      }
-    })
+          if (orderError) {
+            return errorResponse(orderError.message, orderError.status, orderError.code);
+          }
+
+          // Send order confirmation email (only once, by whoever created the order)
+          if (order.created) {
+            try {
+              await fetch(`${process.env.NEXT_PUBLIC_APP_URL}/api/emails/order-confirmation`, {
+                method: 'POST',
+                headers: {
+                  'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({
+                  orderId: order.orderId,
+                  userEmail: shippingAddress.email,
+                }),
+              });
+            } catch (emailError) {
+              console.error('Failed to send confirmation email:', emailError);
+              // Don't fail the order creation if email fails
+            }
+          }
+
+          return successResponse(toOrderResponse(order));
+        } catch (error: any) {
+          console.error('Order creation error:', error);
+          return handleDatabaseError(error);
+        }
+      }),
+    { allowGuest: true }
   );
 }
@@ -1,127 +1,183 @@
 import { NextRequest } from 'next/server';
 import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
 import { cookies } from 'next/headers';
-import { Database } from '@/types/supabase';
+import { Database, Json } from '@/types/supabase';
 import { getServerStripe } from '@/lib/stripe/server';
 import { createPaymentIntentSchema } from '@/lib/validations/checkout';
 import { withAuth, withValidation, withPaymentSecurity } from '@/lib/api/middleware';
 import { successResponse, errorResponse, handleDatabaseError } from '@/lib/api/index';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { getGuestOrderQuote, getOrderQuote } from '@/lib/checkout/order-quote';
+import {
+  reserveCartInventory,
+  reserveGuestCartInventory,
+} from '@/lib/checkout/inventory-reservations';
+import { findGuestCart, getGuestCartToken } from '@/lib/checkout/guest-cart';
+import { CheckoutDetails, PAYMENT_AMOUNT_TOLERANCE } from '@/lib/checkout/order-creation';
+import { isGuestCheckoutAllowed } from '@/lib/settings/store-settings';
+
+// POST /api/checkout/payment-intent - Create a payment intent (signed in or guest)
+export async function POST(req: NextRequest, { params }: { params: Promise<{ locale: string }> }) {
+  const { locale } = await params;
+
+  return withPaymentSecurity(
+    req,
+    (req, session) =>
+      withValidation(req, createPaymentIntentSchema, async (req, validData) => {
+        try {
+          const stripe = getServerStripe();
+          const userId = session?.user.id || null;
+          // Guest carts are only reachable with the service role client
+          const supabase = session
+            ? createRouteHandlerClient<Database>({ cookies })
+            : createServiceRoleClient();
+          const {
+            amount,
+            shippingMethod = 'standard',
+            orderId,
+            metadata = {},
+            loyaltyCode,
+            promoCode,
+            guestEmail,
+            shippingAddress,
+            billingAddress,
+            notes,
+          } = validData;
+
+          const guestCart = session ? null : await findGuestCart(supabase, getGuestCartToken(req));
+
+          if (!session) {
+            if (!(await isGuestCheckoutAllowed(supabase))) {
+              return errorResponse('Please sign in to check out', 401, 'ACCOUNT_REQUIRED');
+            }
+            if (!guestCart) {
+              return errorResponse('Your cart is empty', 400, 'CART_EMPTY');
+            }
+            if (!guestEmail) {
+              return errorResponse('Email is required for guest checkout', 400, 'EMAIL_REQUIRED');
+            }
+          }
 
-// POST /api/checkout/payment-intent - Create a payment intent
-export async function POST(req: NextRequest) {
-  return withPaymentSecurity(req, (req, session) =>
-    withValidation(req, createPaymentIntentSchema, async (req, validData) => {
-      try {
-        const stripe = getServerStripe();
-        const supabase = createRouteHandlerClient<Database>({ cookies });
-        const userId = session.user.id;
-        const { amount, currency = 'usd', orderId, metadata = {} } = validData;
-
-        // Validate minimum amount (50 cents for USD)
-        if (amount < 50) {
-          return errorResponse('Amount must be at least $0.50', 400);
-        }
+          // Validate minimum amount (50 cents for USD)
+          if (amount < 50) {
+            return errorResponse('Amount must be at least $0.50', 400);
+          }
 
-        // Get user's cart to validate the amount
-        const { data: cartItems, error: cartError } = await supabase
-          .from('cart_items')
-          .select(
-            `
-            quantity,
-            products (
-              id,
-              name,
-              price,
-              inventory_count
-            )
-          `
-          )
-          .eq('user_id', userId);
-
-        if (cartError) {
-          throw cartError;
-        }
+          // Price the cart with the same quote engine that creates the order
+          const quoteInput = { shippingMethod, promoCode, loyaltyCode };
+          const { data: quote, error: quoteError } = guestCart
+            ? await getGuestOrderQuote(supabase, guestCart.id, quoteInput)
+            : await getOrderQuote(supabase, quoteInput);
 
-        // Calculate expected total from cart
-        const cartTotal =
-          cartItems?.reduce((sum, item) => {
-            const products = Array.isArray(item.products) ? item.products[0] : item.products;
-            const price = products?.price || 0;
-            return sum + price * item.quantity;
-          }, 0) || 0;
-
-        // Add shipping and tax (simplified calculation)
-        const shipping = 0; // Free shipping for now
-        const tax = cartTotal * 0.08; // 8% tax
-        const expectedTotal = Math.round((cartTotal + shipping + tax) * 100);
-
-        // Validate amount matches expected total (with small tolerance for rounding)
-        if (Math.abs(amount - expectedTotal) > 5) {
-          return errorResponse('Invalid amount', 400);
-        }
+          if (quoteError) {
+            return errorResponse(quoteError.message, quoteError.status, quoteError.code);
+          }
 
-        // Check inventory for all items
-        for (const item of cartItems || []) {
-          const products = Array.isArray(item.products) ? item.products[0] : item.products;
-          if (!products) continue;
+          const expectedTotal = Math.round(quote.total * 100);
+          // Always the store currency; the amount is only checked in it
+          const currency = quote.currency.toLowerCase();
 
-          if (products.inventory_count < item.quantity) {
-            return errorResponse(`Insufficient inventory for ${products.name}`, 400);
+          // Validate amount matches expected total (with small tolerance for rounding)
+          if (Math.abs(amount - expectedTotal) > PAYMENT_AMOUNT_TOLERANCE) {
+            return errorResponse('Invalid amount', 400);
           }
-        }
 
-        // Create payment intent
-        const paymentIntent = await stripe.paymentIntents.create({
-          amount,
-          currency,
-          automatic_payment_methods: {
-            enabled: true,
-          },
-          metadata: {
-            userId,
-            orderId: orderId || '',
-            cartItemCount: cartItems?.length.toString() || '0',
-            ...metadata,
-          },
-          description: `Order for ${cartItems?.length || 0} items`,
-        });
-
-        // Store payment intent reference in database
-        const { error: dbError } = await supabase.from('payment_intents').insert({
-          id: paymentIntent.id,
-          user_id: userId,
-          amount,
-          currency,
-          status: paymentIntent.status,
-          client_secret: paymentIntent.client_secret,
-          metadata: paymentIntent.metadata,
-        });
-
-        if (dbError) {
-          console.error('Error storing payment intent:', dbError);
-          // Don't fail the request if we can't store in DB
-        }
+          // Check inventory for all items
+          for (const line of quote.lines) {
+            if (!line.inStock) {
+              return errorResponse(`Insufficient inventory for ${line.name}`, 400);
+            }
+          }
 
-        return successResponse({
-          paymentIntentId: paymentIntent.id,
-          clientSecret: paymentIntent.client_secret,
-          amount: paymentIntent.amount,
-          currency: paymentIntent.currency,
-        });
-      } catch (error: any) {
-        console.error('Payment intent creation error:', error);
-
-        if (error.type === 'StripeCardError') {
-          return errorResponse(error.message, 400);
-        }
+          // Create payment intent
+          const paymentIntent = await stripe.paymentIntents.create({
+            amount,
+            currency,
+            automatic_payment_methods: {
+              enabled: true,
+            },
+            // Client metadata first so it can't override the guest cart the order is checked against
+            metadata: {
+              ...metadata,
+              userId: userId || '',
+              guestCartId: guestCart?.id || '',
+              guestEmail: (guestCart && guestEmail) || '',
+              orderId: orderId || '',
+              cartItemCount: quote.lines.length.toString(),
+              loyaltyCode: quote.loyalty?.code || '',
+              promoCode: quote.promo?.code || '',
+              shippingMethod,
+            },
+            description: `Order for ${quote.lines.length} items`,
+            ...(guestCart && guestEmail ? { receipt_email: guestEmail } : {}),
+          });
+
+          // Hold the stock for this payment; another shopper may already hold the last unit
+          const { error: reservationError } = guestCart
+            ? await reserveGuestCartInventory(supabase, guestCart.id, paymentIntent.id)
+            : await reserveCartInventory(supabase, paymentIntent.id);
+
+          if (reservationError) {
+            await stripe.paymentIntents.cancel(paymentIntent.id);
+            return errorResponse(
+              reservationError.message,
+              reservationError.status,
+              reservationError.code
+            );
+          }
 
-        if (error.type === 'StripeInvalidRequestError') {
-          return errorResponse('Invalid payment request', 400);
-        }
+          // The order details, so the webhook can create the order if the browser never returns
+          const checkout: CheckoutDetails | null = shippingAddress
+            ? {
+                shippingAddress,
+                billingAddress,
+                shippingMethod,
+                notes,
+                loyaltyCode: quote.loyalty?.code,
+                promoCode: quote.promo?.code,
+                guestEmail: (guestCart && guestEmail) || undefined,
+                locale,
+              }
+            : null;
+
+          // Store payment intent reference in database
+          const { error: dbError } = await supabase.from('payment_intents').insert({
+            id: paymentIntent.id,
+            user_id: userId,
+            amount,
+            currency,
+            status: paymentIntent.status,
+            client_secret: paymentIntent.client_secret,
+            metadata: paymentIntent.metadata,
+            checkout: checkout as unknown as Json,
+          });
+
+          if (dbError) {
+            console.error('Error storing payment intent:', dbError);
+            // Don't fail the request if we can't store in DB
+          }
 
-        return handleDatabaseError(error);
-      }
-    })
+          return successResponse({
+            paymentIntentId: paymentIntent.id,
+            clientSecret: paymentIntent.client_secret,
+            amount: paymentIntent.amount,
+            currency: paymentIntent.currency,
+          });
+        } catch (error: any) {
+          console.error('Payment intent creation error:', error);
+
+          if (error.type === 'StripeCardError') {
+            return errorResponse(error.message, 400);
+          }
+
+          if (error.type === 'StripeInvalidRequestError') {
+            return errorResponse('Invalid payment request', 400);
+          }
+
+          return handleDatabaseError(error);
+        }
+      }),
+    { allowGuest: true }
   );
 }
 
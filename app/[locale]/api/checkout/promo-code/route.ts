@@ -0,0 +1,34 @@
+import { NextRequest } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { Database } from '@/types/supabase';
+import { applyPromoCodeSchema } from '@/lib/validations/promotion';
+import { withAuth, withValidation } from '@/lib/api/middleware';
+import { successResponse, errorResponse, handleDatabaseError } from '@/lib/api/index';
+import { promotionService } from '@/lib/promotions/promotion-service';
+
+// POST /api/checkout/promo-code - Check a promo code against the user's cart
+export async function POST(req: NextRequest) {
+  return withAuth(req, (req, session) =>
+    withValidation(req, applyPromoCodeSchema, async (req, validData) => {
+      try {
+        const supabase = createRouteHandlerClient<Database>({ cookies });
+
+        const { data: result, error } = await supabase.rpc('validate_promo_code', {
+          p_code: validData.code,
+        });
+
+        if (error) {
+          if (error.message?.startsWith('Promo code')) {
+            return errorResponse(error.message, 400, 'INVALID_PROMO_CODE');
+          }
+          throw error;
+        }
+
+        return successResponse(promotionService.toAppliedPromoCode(result));
+      } catch (error) {
+        return handleDatabaseError(error as Error);
+      }
+    })
+  );
+}
@@ -0,0 +1,45 @@
+import { NextRequest } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { Database } from '@/types/supabase';
+import { orderQuoteSchema } from '@/lib/validations/checkout';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { withOptionalAuth, withValidation } from '@/lib/api/middleware';
+import { successResponse, errorResponse, handleDatabaseError } from '@/lib/api/index';
+import { getGuestOrderQuote, getOrderQuote } from '@/lib/checkout/order-quote';
+import { findGuestCart, getGuestCartToken } from '@/lib/checkout/guest-cart';
+
+// POST /api/checkout/quote - Price the user's (or guest's) cart for a shipping method and codes
+export async function POST(req: NextRequest) {
+  return withOptionalAuth(req, (req, session) =>
+    withValidation(req, orderQuoteSchema, async (req, validData) => {
+      try {
+        const { shippingMethod = 'standard', promoCode, loyaltyCode } = validData;
+        const input = { shippingMethod, promoCode, loyaltyCode };
+
+        let result;
+        if (session) {
+          const supabase = createRouteHandlerClient<Database>({ cookies });
+          result = await getOrderQuote(supabase, input);
+        } else {
+          const serviceClient = createServiceRoleClient();
+          const guestCart = await findGuestCart(serviceClient, getGuestCartToken(req));
+          if (!guestCart) {
+            return errorResponse('Your cart is empty', 400, 'CART_EMPTY');
+          }
+          result = await getGuestOrderQuote(serviceClient, guestCart.id, input);
+        }
+
+        const { data: quote, error } = result;
+
+        if (error) {
+          return errorResponse(error.message, error.status, error.code);
+        }
+
+        return successResponse(quote);
+      } catch (error) {
+        return handleDatabaseError(error as Error);
+      }
+    })
+  );
+}
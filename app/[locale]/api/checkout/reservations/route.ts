@@ -0,0 +1,41 @@
+import { NextRequest } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { Database } from '@/types/supabase';
+import { withAuth } from '@/lib/api/middleware';
+import { successResponse, errorResponse, handleDatabaseError } from '@/lib/api/index';
+import { releaseCartInventory, reserveCartInventory } from '@/lib/checkout/inventory-reservations';
+
+// POST /api/checkout/reservations - Hold the cart's stock while checking out
+export async function POST(req: NextRequest) {
+  return withAuth(req, async (req, session) => {
+    try {
+      const supabase = createRouteHandlerClient<Database>({ cookies });
+
+      const { data, error } = await reserveCartInventory(supabase);
+
+      if (error) {
+        return errorResponse(error.message, error.status, error.code);
+      }
+
+      return successResponse(data);
+    } catch (error) {
+      return handleDatabaseError(error as Error);
+    }
+  });
+}
+
+// DELETE /api/checkout/reservations - Release the cart's stock holds
+export async function DELETE(req: NextRequest) {
+  return withAuth(req, async (req, session) => {
+    try {
+      const supabase = createRouteHandlerClient<Database>({ cookies });
+
+      const released = await releaseCartInventory(supabase);
+
+      return successResponse({ released });
+    } catch (error) {
+      return handleDatabaseError(error as Error);
+    }
+  });
+}
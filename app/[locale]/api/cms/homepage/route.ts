@@ -181,6 +181,17 @@ function getDefaultHomepage(): Homepage {
   };
 }
 
+/**
+ * Current homepage content, shared with the CMS scheduler
+ */
+export function getCurrentHomepage(): Homepage {
+  return draftHomepage || getDefaultHomepage();
+}
+
+export function setCurrentHomepage(homepage: Homepage): void {
+  draftHomepage = homepage;
+}
+
 /**
  * GET /api/cms/homepage
  * Returns the current homepage configuration
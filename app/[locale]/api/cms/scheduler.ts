@@ -0,0 +1,204 @@
+/**
+ * CMS Scheduler
+ *
+ * Runs due template schedules and homepage section schedules. Called by the
+ * cron route; every run is safe to repeat since only due, unprocessed work is
+ * picked up.
+ */
+
+import { ScheduledPublishResult } from '@/types/cms-templates';
+import { handleSectionPublishCache } from '@/lib/cache/cms-cache';
+import { isVersionApproved } from '@/lib/cms/template-review';
+import { schedulesStore, templatesStore, versionsStore } from './templates/route';
+import {
+  CMS_LOCALES,
+  invalidateTemplateCache,
+  publishTemplateVersion,
+  syncScheduledState,
+  unpublishTemplate,
+} from './templates/publishing';
+import { getCurrentHomepage, setCurrentHomepage } from './homepage/route';
+
+export interface ScheduledSectionResult {
+  section_id: string;
+  action: 'published' | 'expired';
+  processed_at: string;
+}
+
+export interface ScheduleFailure {
+  schedule_id: string;
+  template_id: string;
+  error: string;
+}
+
+export interface ScheduleRunSummary {
+  ran_at: string;
+  templates: ScheduledPublishResult[];
+  sections: ScheduledSectionResult[];
+  failed: ScheduleFailure[];
+}
+
+const isDue = (date: string | null | undefined, now: Date) =>
+  !!date && new Date(date).getTime() <= now.getTime();
+
+async function runTemplateSchedules(
+  now: Date
+): Promise<Pick<ScheduleRunSummary, 'templates' | 'failed'>> {
+  const executedAt = now.toISOString();
+  const results: ScheduledPublishResult[] = [];
+  const failed: ScheduleFailure[] = [];
+
+  for (const [templateId, schedules] of Array.from(schedulesStore.entries())) {
+    const ordered = [...schedules].sort(
+      (a, b) => new Date(a.publish_at).getTime() - new Date(b.publish_at).getTime()
+    );
+
+    for (const schedule of ordered) {
+      if (schedule.status !== 'pending' || !isDue(schedule.publish_at, now)) {
+        continue;
+      }
+
+      schedule.execution_attempts++;
+      schedule.updated_at = executedAt;
+
+      const template = templatesStore.get(templateId);
+      const version = (versionsStore.get(templateId) || []).find(
+        (v) => v.id === schedule.version_id
+      );
+
+      let error: string | null = null;
+      if (!template || template.is_deleted) {
+        error = 'Template no longer exists';
+      } else if (!version) {
+        error = 'Scheduled version no longer exists';
+      } else if (!isVersionApproved(template, version.id)) {
+        error = 'Scheduled version is not approved for publishing';
+      }
+
+      if (error || !template || !version) {
+        schedule.status = 'failed';
+        schedule.last_execution_error = error;
+        failed.push({ schedule_id: schedule.id, template_id: templateId, error: error || '' });
+        if (template) {
+          syncScheduledState(template);
+        }
+        continue;
+      }
+
+      try {
+        // A newer publish supersedes whatever was live, including its unpublish
+        for (const other of schedules) {
+          if (other.status === 'active') {
+            other.status = 'expired';
+            other.updated_at = executedAt;
+          }
+        }
+
+        schedule.status = 'active';
+        schedule.executed_at = executedAt;
+        schedule.last_execution_error = null;
+
+        publishTemplateVersion(template, version, null);
+        await invalidateTemplateCache(version);
+
+        results.push({
+          template_id: templateId,
+          version_id: version.id,
+          action: 'published',
+          executed_at: executedAt,
+        });
+      } catch (publishError) {
+        schedule.status = 'failed';
+        schedule.last_execution_error = (publishError as Error).message;
+        failed.push({
+          schedule_id: schedule.id,
+          template_id: templateId,
+          error: schedule.last_execution_error,
+        });
+        syncScheduledState(template);
+      }
+    }
+
+    for (const schedule of schedules) {
+      if (schedule.status !== 'active' || !isDue(schedule.unpublish_at, now)) {
+        continue;
+      }
+
+      schedule.status = 'expired';
+      schedule.updated_at = executedAt;
+
+      const template = templatesStore.get(templateId);
+      if (!template || template.is_deleted) {
+        continue;
+      }
+
+      // Only take the version down if it is still the live one
+      if (template.published_version_id === schedule.version_id) {
+        const version = (versionsStore.get(templateId) || []).find(
+          (v) => v.id === schedule.version_id
+        );
+
+        unpublishTemplate(template);
+        if (version) {
+          await invalidateTemplateCache(version);
+        }
+
+        results.push({
+          template_id: templateId,
+          version_id: schedule.version_id,
+          action: 'unpublished',
+          executed_at: executedAt,
+        });
+      } else {
+        syncScheduledState(template);
+      }
+    }
+  }
+
+  return { templates: results, failed };
+}
+
+async function runSectionSchedules(now: Date): Promise<ScheduledSectionResult[]> {
+  const processedAt = now.toISOString();
+  const homepage = getCurrentHomepage();
+  const results: ScheduledSectionResult[] = [];
+
+  const sections = homepage.sections.map((section) => {
+    if (section.status === 'scheduled' && isDue(section.scheduled_at, now)) {
+      results.push({ section_id: section.id, action: 'published', processed_at: processedAt });
+      return { ...section, status: 'published' as const, updated_at: processedAt };
+    }
+
+    if (section.status === 'published' && isDue(section.expires_at, now)) {
+      results.push({ section_id: section.id, action: 'expired', processed_at: processedAt });
+      return { ...section, status: 'archived' as const, updated_at: processedAt };
+    }
+
+    return section;
+  });
+
+  if (results.length === 0) {
+    return results;
+  }
+
+  setCurrentHomepage({ ...homepage, sections, updated_at: processedAt });
+
+  try {
+    for (const locale of CMS_LOCALES) {
+      for (const result of results) {
+        await handleSectionPublishCache(result.section_id, locale);
+      }
+    }
+  } catch (error) {
+    console.error('Error invalidating section cache:', error);
+  }
+
+  return results;
+}
+
+export async function runDueSchedules(now: Date = new Date()): Promise<ScheduleRunSummary> {
+  const { templates, failed } = await runTemplateSchedules(now);
+  const sections = await runSectionSchedules(now);
+
+  return { ran_at: now.toISOString(), templates, sections, failed };
+}
@@ -0,0 +1,162 @@
+/**
+ * CMS Schedules Calendar API Route
+ *
+ * Handles the combined publishing calendar.
+ * GET - List template and homepage section schedule entries in a date range
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { hasTemplatePermission, resolveTemplateRole } from '@/lib/cms/template-permissions';
+import { getTemplateUser } from '@/lib/cms/template-auth';
+import {
+  collaboratorsStore,
+  schedulesStore,
+  templatesStore,
+  versionsStore,
+} from '../templates/route';
+import { getCurrentHomepage } from '../homepage/route';
+
+interface ScheduleCalendarEntry {
+  id: string;
+  kind: 'template' | 'section';
+  action: 'publish' | 'unpublish';
+  at: string;
+  status: string;
+  template_id?: string;
+  template_name?: string;
+  schedule_id?: string;
+  version_number?: number;
+  section_id?: string;
+  section_type?: string;
+  error?: string | null;
+  can_cancel: boolean;
+}
+
+/**
+ * GET /api/cms/schedules
+ * Query: from, to (ISO dates). Defaults to the current month.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getTemplateUser();
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const now = new Date();
+    const from = new Date(
+      searchParams.get('from') || new Date(now.getFullYear(), now.getMonth(), 1).toISOString()
+    );
+    const to = new Date(
+      searchParams.get('to') || new Date(now.getFullYear(), now.getMonth() + 1, 1).toISOString()
+    );
+
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+      return NextResponse.json({ success: false, error: 'Invalid date range' }, { status: 400 });
+    }
+
+    const inRange = (date: string | null | undefined): date is string =>
+      !!date && new Date(date) >= from && new Date(date) < to;
+
+    const entries: ScheduleCalendarEntry[] = [];
+
+    for (const template of Array.from(templatesStore.values())) {
+      if (template.is_deleted) continue;
+
+      const role = resolveTemplateRole({
+        template,
+        collaborators: collaboratorsStore.get(template.id) || [],
+        ...user,
+      });
+      if (!hasTemplatePermission(role, 'can_view')) continue;
+
+      const canPublish = hasTemplatePermission(role, 'can_publish');
+      const versions = versionsStore.get(template.id) || [];
+
+      for (const schedule of schedulesStore.get(template.id) || []) {
+        const base = {
+          kind: 'template' as const,
+          status: schedule.status,
+          template_id: template.id,
+          template_name: template.name,
+          schedule_id: schedule.id,
+          version_number: versions.find((v) => v.id === schedule.version_id)?.version_number,
+          error: schedule.last_execution_error,
+        };
+
+        if (inRange(schedule.publish_at)) {
+          entries.push({
+            ...base,
+            id: `${schedule.id}-publish`,
+            action: 'publish',
+            at: schedule.publish_at,
+            can_cancel: canPublish && schedule.status === 'pending',
+          });
+        }
+
+        if (inRange(schedule.unpublish_at)) {
+          entries.push({
+            ...base,
+            id: `${schedule.id}-unpublish`,
+            action: 'unpublish',
+            at: schedule.unpublish_at,
+            can_cancel:
+              canPublish && (schedule.status === 'pending' || schedule.status === 'active'),
+          });
+        }
+      }
+    }
+
+    // Homepage sections are only scheduled by admins
+    if (user.isAdmin) {
+      for (const section of getCurrentHomepage().sections) {
+        const base = {
+          kind: 'section' as const,
+          status: section.status,
+          section_id: section.id,
+          section_type: section.type,
+          can_cancel: false,
+        };
+
+        if (inRange(section.scheduled_at)) {
+          entries.push({
+            ...base,
+            id: `${section.id}-publish`,
+            action: 'publish',
+            at: section.scheduled_at,
+          });
+        }
+
+        if (inRange(section.expires_at)) {
+          entries.push({
+            ...base,
+            id: `${section.id}-unpublish`,
+            action: 'unpublish',
+            at: section.expires_at,
+          });
+        }
+      }
+    }
+
+    entries.sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        from: from.toISOString(),
+        to: to.toISOString(),
+        entries,
+      },
+    });
+  } catch (error) {
+    console.error('Error listing CMS schedules:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to list schedules' },
+      { status: 500 }
+    );
+  }
+}
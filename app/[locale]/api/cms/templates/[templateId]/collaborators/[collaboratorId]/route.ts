@@ -0,0 +1,127 @@
+/**
+ * CMS Template Collaborator API Route
+ *
+ * Handles changes to a single collaborator.
+ * PATCH - Change a collaborator's role
+ * DELETE - Remove a collaborator
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { hasTemplatePermission, withRolePermissions } from '@/lib/cms/template-permissions';
+import { updateCollaboratorSchema } from '@/lib/validations/cms-template';
+import { collaboratorsStore } from '../../../route';
+import { authorizeTemplate } from '../../../access';
+
+interface RouteParams {
+  params: Promise<{
+    templateId: string;
+    collaboratorId: string;
+  }>;
+}
+
+/**
+ * PATCH /api/cms/templates/[templateId]/collaborators/[collaboratorId]
+ * Change a collaborator's role
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { templateId, collaboratorId } = await params;
+
+    const access = await authorizeTemplate(templateId, 'can_manage_collaborators');
+    if (access instanceof NextResponse) {
+      return access;
+    }
+
+    const body = await request.json();
+    const parsed = updateCollaboratorSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.errors[0].message },
+        { status: 400 }
+      );
+    }
+
+    const collaborators = collaboratorsStore.get(templateId) || [];
+    const index = collaborators.findIndex((c) => c.id === collaboratorId);
+
+    if (index === -1) {
+      return NextResponse.json(
+        { success: false, error: 'Collaborator not found' },
+        { status: 404 }
+      );
+    }
+
+    const current = collaborators[index];
+    const collaborator = withRolePermissions({
+      ...current,
+      role: parsed.data.role,
+      notes: parsed.data.notes !== undefined ? parsed.data.notes || null : current.notes,
+      updated_at: new Date().toISOString(),
+    });
+
+    collaborators[index] = collaborator;
+    collaboratorsStore.set(templateId, collaborators);
+
+    return NextResponse.json({
+      success: true,
+      data: { collaborator },
+      message: 'Collaborator updated successfully',
+    });
+  } catch (error) {
+    console.error('Error updating collaborator:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update collaborator' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/cms/templates/[templateId]/collaborators/[collaboratorId]
+ * Remove a collaborator. Collaborators may also remove themselves.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { templateId, collaboratorId } = await params;
+
+    const access = await authorizeTemplate(templateId, 'can_view');
+    if (access instanceof NextResponse) {
+      return access;
+    }
+
+    const collaborators = collaboratorsStore.get(templateId) || [];
+    const collaborator = collaborators.find((c) => c.id === collaboratorId);
+
+    if (!collaborator) {
+      return NextResponse.json(
+        { success: false, error: 'Collaborator not found' },
+        { status: 404 }
+      );
+    }
+
+    const isSelf = collaborator.user_id === access.userId;
+    if (!isSelf && !hasTemplatePermission(access.role, 'can_manage_collaborators')) {
+      return NextResponse.json(
+        { success: false, error: `Your ${access.role} role on this template does not allow this` },
+        { status: 403 }
+      );
+    }
+
+    collaboratorsStore.set(
+      templateId,
+      collaborators.filter((c) => c.id !== collaboratorId)
+    );
+
+    return NextResponse.json({
+      success: true,
+      message: 'Collaborator removed successfully',
+    });
+  } catch (error) {
+    console.error('Error removing collaborator:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to remove collaborator' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * CMS Template Collaborators API Route
+ *
+ * Handles the people a template is shared with.
+ * GET - List collaborators and the caller's role
+ * POST - Invite a collaborator
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { ROLE_PERMISSIONS } from '@/types/cms-templates';
+import { withRolePermissions } from '@/lib/cms/template-permissions';
+import { addCollaboratorSchema } from '@/lib/validations/cms-template';
+import { collaboratorsStore } from '../../route';
+import { authorizeTemplate } from '../../access';
+
+interface RouteParams {
+  params: Promise<{
+    templateId: string;
+  }>;
+}
+
+/**
+ * GET /api/cms/templates/[templateId]/collaborators
+ * List collaborators on a template
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { templateId } = await params;
+
+    const access = await authorizeTemplate(templateId, 'can_view');
+    if (access instanceof NextResponse) {
+      return access;
+    }
+
+    const collaborators = collaboratorsStore.get(templateId) || [];
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        collaborators,
+        owner_id: access.template.created_by,
+        role: access.role,
+        permissions: ROLE_PERMISSIONS[access.role],
+      },
+    });
+  } catch (error) {
+    console.error('Error listing collaborators:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to list collaborators' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/cms/templates/[templateId]/collaborators
+ * Invite a user to collaborate on a template
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { templateId } = await params;
+
+    const access = await authorizeTemplate(templateId, 'can_manage_collaborators');
+    if (access instanceof NextResponse) {
+      return access;
+    }
+
+    const body = await request.json();
+    const parsed = addCollaboratorSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.errors[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { user_id, role, notes } = parsed.data;
+    const collaborators = collaboratorsStore.get(templateId) || [];
+
+    if (
+      user_id === access.template.created_by ||
+      collaborators.some((c) => c.user_id === user_id)
+    ) {
+      return NextResponse.json(
+        { success: false, error: 'User already has access to this template' },
+        { status: 409 }
+      );
+    }
+
+    const supabase = createServerClient();
+    const { data: user } = await supabase.from('users').select('id').eq('id', user_id).single();
+
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'User not found' }, { status: 404 });
+    }
+
+    const now = new Date().toISOString();
+
+    // Access is granted straight away; there is no separate acceptance step
+    const collaborator = withRolePermissions({
+      id: `collaborator-${crypto.randomUUID()}`,
+      template_id: templateId,
+      user_id,
+      role,
+      invited_by: access.userId,
+      invited_at: now,
+      accepted_at: now,
+      notes: notes || null,
+      created_at: now,
+      updated_at: now,
+    });
+
+    collaborators.push(collaborator);
+    collaboratorsStore.set(templateId, collaborators);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: { collaborator },
+        message: 'Collaborator added successfully',
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error adding collaborator:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to add collaborator' },
+      { status: 500 }
+    );
+  }
+}
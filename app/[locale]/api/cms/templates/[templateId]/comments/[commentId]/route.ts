@@ -0,0 +1,143 @@
+/**
+ * CMS Template Comment API Route
+ *
+ * Handles changes to a single comment.
+ * PATCH - Resolve, reopen or edit a comment
+ * DELETE - Delete a comment (soft delete)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { hasTemplatePermission } from '@/lib/cms/template-permissions';
+import { updateCommentSchema } from '@/lib/validations/cms-template';
+import { commentsStore } from '../../../route';
+import { authorizeTemplate } from '../../../access';
+
+interface RouteParams {
+  params: Promise<{
+    templateId: string;
+    commentId: string;
+  }>;
+}
+
+/**
+ * PATCH /api/cms/templates/[templateId]/comments/[commentId]
+ * Resolve or reopen a thread, or edit your own comment
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { templateId, commentId } = await params;
+
+    const access = await authorizeTemplate(templateId, 'can_comment');
+    if (access instanceof NextResponse) {
+      return access;
+    }
+
+    const body = await request.json();
+    const parsed = updateCommentSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.errors[0].message },
+        { status: 400 }
+      );
+    }
+
+    const comments = commentsStore.get(templateId) || [];
+    const comment = comments.find((c) => c.id === commentId && !c.is_deleted);
+
+    if (!comment) {
+      return NextResponse.json({ success: false, error: 'Comment not found' }, { status: 404 });
+    }
+
+    const now = new Date().toISOString();
+    const input = parsed.data;
+
+    if (input.action === 'edit') {
+      if (comment.created_by !== access.userId) {
+        return NextResponse.json(
+          { success: false, error: 'Only the author can edit a comment' },
+          { status: 403 }
+        );
+      }
+
+      comment.content = input.content;
+    } else {
+      // Resolution belongs to the whole thread
+      if (comment.parent_comment_id) {
+        return NextResponse.json(
+          { success: false, error: 'Only top-level comments can be resolved' },
+          { status: 400 }
+        );
+      }
+
+      const resolve = input.action === 'resolve';
+      comment.is_resolved = resolve;
+      comment.resolved_at = resolve ? now : null;
+      comment.resolved_by = resolve ? access.userId : null;
+    }
+
+    comment.updated_at = now;
+    commentsStore.set(templateId, comments);
+
+    return NextResponse.json({
+      success: true,
+      data: { comment },
+      message: 'Comment updated successfully',
+    });
+  } catch (error) {
+    console.error('Error updating comment:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update comment' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/cms/templates/[templateId]/comments/[commentId]
+ * Soft delete a comment. Authors can delete their own; owners can delete any.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { templateId, commentId } = await params;
+
+    const access = await authorizeTemplate(templateId, 'can_view');
+    if (access instanceof NextResponse) {
+      return access;
+    }
+
+    const comments = commentsStore.get(templateId) || [];
+    const comment = comments.find((c) => c.id === commentId && !c.is_deleted);
+
+    if (!comment) {
+      return NextResponse.json({ success: false, error: 'Comment not found' }, { status: 404 });
+    }
+
+    if (
+      comment.created_by !== access.userId &&
+      !hasTemplatePermission(access.role, 'can_manage_collaborators')
+    ) {
+      return NextResponse.json(
+        { success: false, error: 'Only the author or a template owner can delete a comment' },
+        { status: 403 }
+      );
+    }
+
+    const now = new Date().toISOString();
+    comment.is_deleted = true;
+    comment.deleted_at = now;
+    comment.updated_at = now;
+    commentsStore.set(templateId, comments);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Comment deleted successfully',
+    });
+  } catch (error) {
+    console.error('Error deleting comment:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete comment' },
+      { status: 500 }
+    );
+  }
+}
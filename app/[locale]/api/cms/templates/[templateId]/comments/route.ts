@@ -0,0 +1,165 @@
+/**
+ * CMS Template Comments API Route
+ *
+ * Handles review comments on a template.
+ * GET - List comment threads, optionally for one section or version
+ * POST - Add a comment or reply
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { CMSTemplateComment } from '@/types/cms-templates';
+import { buildCommentThreads } from '@/lib/cms/template-permissions';
+import { addCommentSchema } from '@/lib/validations/cms-template';
+import { commentsStore, versionsStore } from '../../route';
+import { authorizeTemplate } from '../../access';
+
+interface RouteParams {
+  params: Promise<{
+    templateId: string;
+  }>;
+}
+
+/**
+ * GET /api/cms/templates/[templateId]/comments
+ * List comment threads with their replies
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { templateId } = await params;
+    const { searchParams } = new URL(request.url);
+
+    const sectionId = searchParams.get('section_id');
+    const versionId = searchParams.get('version_id');
+    const resolved = searchParams.get('resolved');
+
+    const access = await authorizeTemplate(templateId, 'can_view');
+    if (access instanceof NextResponse) {
+      return access;
+    }
+
+    let threads = buildCommentThreads(commentsStore.get(templateId) || []);
+
+    // Filters apply to the thread's root; replies always follow it
+    if (sectionId) {
+      threads = threads.filter((t) => t.section_id === sectionId);
+    }
+    if (versionId) {
+      threads = threads.filter((t) => t.version_id === versionId);
+    }
+    if (resolved === 'true' || resolved === 'false') {
+      threads = threads.filter((t) => t.is_resolved === (resolved === 'true'));
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        comments: threads,
+        unresolved_count: threads.filter((t) => !t.is_resolved).length,
+      },
+    });
+  } catch (error) {
+    console.error('Error listing comments:', error);
+    return NextResponse.json({ success: false, error: 'Failed to list comments' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/cms/templates/[templateId]/comments
+ * Add a comment, optionally anchored to a section or replying to another comment
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { templateId } = await params;
+
+    const access = await authorizeTemplate(templateId, 'can_comment');
+    if (access instanceof NextResponse) {
+      return access;
+    }
+
+    const body = await request.json();
+    const parsed = addCommentSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.errors[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { content, comment_type, parent_comment_id } = parsed.data;
+    const comments = commentsStore.get(templateId) || [];
+    const versions = versionsStore.get(templateId) || [];
+
+    let versionId = parsed.data.version_id || access.template.current_version_id;
+    let sectionId = parsed.data.section_id || null;
+    let threadLevel = 0;
+
+    if (parent_comment_id) {
+      const parent = comments.find((c) => c.id === parent_comment_id && !c.is_deleted);
+
+      if (!parent) {
+        return NextResponse.json(
+          { success: false, error: 'Parent comment not found' },
+          { status: 404 }
+        );
+      }
+
+      // Replies stay anchored wherever their parent is
+      versionId = parent.version_id;
+      sectionId = parent.section_id;
+      threadLevel = parent.thread_level + 1;
+    }
+
+    const version = versionId ? versions.find((v) => v.id === versionId) : null;
+
+    if (versionId && !version) {
+      return NextResponse.json({ success: false, error: 'Version not found' }, { status: 404 });
+    }
+
+    if (
+      !parent_comment_id &&
+      sectionId &&
+      !version?.content.sections.some((section) => section.id === sectionId)
+    ) {
+      return NextResponse.json(
+        { success: false, error: 'Section not found in this version' },
+        { status: 404 }
+      );
+    }
+
+    const now = new Date().toISOString();
+    const comment: CMSTemplateComment = {
+      id: `comment-${crypto.randomUUID()}`,
+      template_id: templateId,
+      version_id: versionId,
+      content,
+      comment_type,
+      parent_comment_id: parent_comment_id || null,
+      thread_level: threadLevel,
+      section_id: sectionId,
+      is_resolved: false,
+      resolved_at: null,
+      resolved_by: null,
+      created_by: access.userId,
+      is_deleted: false,
+      deleted_at: null,
+      created_at: now,
+      updated_at: now,
+    };
+
+    comments.push(comment);
+    commentsStore.set(templateId, comments);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: { comment },
+        message: 'Comment added successfully',
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error adding comment:', error);
+    return NextResponse.json({ success: false, error: 'Failed to add comment' }, { status: 500 });
+  }
+}
@@ -7,7 +7,8 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { CMSTemplate, CMSTemplateVersion } from '@/types/cms-templates';
-import { templatesStore, versionsStore } from '../../route';
+import { collaboratorsStore, commentsStore, templatesStore, versionsStore } from '../../route';
+import { authorizeTemplate } from '../../access';
 
 interface RouteParams {
   params: Promise<{
@@ -33,13 +34,15 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    const sourceTemplate = templatesStore.get(templateId);
+    const access = await authorizeTemplate(templateId, 'can_view', 'Source template not found');
+    if (access instanceof NextResponse) {
+      return access;
+    }
+    const { template: sourceTemplate } = access;
 
-    if (!sourceTemplate || sourceTemplate.is_deleted) {
-      return NextResponse.json(
-        { success: false, error: 'Source template not found' },
-        { status: 404 }
-      );
+    // A duplicate is a new template, which only site admins can start
+    if (!access.isAdmin) {
+      return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
     }
 
     // Check for duplicate slug
@@ -82,12 +85,19 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       current_version_id: newVersionId,
       published_version_id: null,
       status: 'draft',
+      requires_review: sourceTemplate.requires_review,
+      review_version_id: null,
+      review_requested_by: null,
+      review_requested_at: null,
+      approved_version_id: null,
+      approved_by: null,
+      approved_at: null,
       scheduled_publish_at: null,
       scheduled_unpublish_at: null,
       published_at: null,
       unpublished_at: null,
-      created_by: null, // Would be set from auth
-      updated_by: null,
+      created_by: access.userId,
+      updated_by: access.userId,
       published_by: null,
       metadata: { ...sourceTemplate.metadata, duplicated_from: templateId },
       view_count: 0,
@@ -119,7 +129,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       based_on_version_id: sourceVersion.id,
       is_published: false,
       published_at: null,
-      created_by: null,
+      created_by: access.userId,
       is_valid: true,
       validation_errors: null,
       content_hash: '',
@@ -129,6 +139,8 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     // Store new template and version
     templatesStore.set(newTemplateId, newTemplate);
     versionsStore.set(newTemplateId, [newVersion]);
+    collaboratorsStore.set(newTemplateId, []);
+    commentsStore.set(newTemplateId, []);
 
     return NextResponse.json({
       success: true,
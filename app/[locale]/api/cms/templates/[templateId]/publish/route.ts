@@ -7,7 +7,16 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { templatesStore, versionsStore } from '../../route';
+import { isVersionApproved } from '@/lib/cms/template-review';
+import { schedulesStore, versionsStore } from '../../route';
+import { authorizeTemplate } from '../../access';
+import {
+  cancelSchedule,
+  createSchedule,
+  invalidateTemplateCache,
+  publishTemplateVersion,
+  unpublishTemplate,
+} from '../../publishing';
 
 interface RouteParams {
   params: Promise<{
@@ -25,23 +34,30 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     const body = await request.json().catch(() => ({}));
     const { version_id, scheduled_for, timezone } = body;
 
-    const template = templatesStore.get(templateId);
-
-    if (!template || template.is_deleted) {
-      return NextResponse.json({ success: false, error: 'Template not found' }, { status: 404 });
+    const access = await authorizeTemplate(templateId, 'can_publish');
+    if (access instanceof NextResponse) {
+      return access;
     }
+    const { template } = access;
 
     const versions = versionsStore.get(templateId) || [];
 
-    // Determine which version to publish
-    const targetVersionId = version_id || template.current_version_id;
+    // Determine which version to publish; gated templates default to the approved one
+    const targetVersionId =
+      version_id ||
+      (template.requires_review ? template.approved_version_id : template.current_version_id);
     const targetVersion = versions.find((v) => v.id === targetVersionId);
 
     if (!targetVersion) {
       return NextResponse.json({ success: false, error: 'Version not found' }, { status: 404 });
     }
 
-    const now = new Date().toISOString();
+    if (!isVersionApproved(template, targetVersion.id)) {
+      return NextResponse.json(
+        { success: false, error: 'Only an approved version can be published or scheduled' },
+        { status: 409 }
+      );
+    }
 
     // Handle scheduled publishing
     if (scheduled_for) {
@@ -53,42 +69,28 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         );
       }
 
-      template.scheduled_publish_at = scheduledDate.toISOString();
-      template.status = 'scheduled';
-      templatesStore.set(templateId, template);
+      // The scheduler picks this up once it is due
+      const schedule = createSchedule(
+        template,
+        targetVersion,
+        { publish_at: scheduledDate.toISOString(), timezone },
+        access.userId
+      );
 
       return NextResponse.json({
         success: true,
         data: {
           template,
-          scheduled_for: template.scheduled_publish_at,
+          schedule,
+          scheduled_for: schedule.publish_at,
         },
         message: 'Template scheduled for publishing',
       });
     }
 
     // Immediate publish
-    // Unpublish previous version if exists
-    if (template.published_version_id) {
-      const previousVersion = versions.find((v) => v.id === template.published_version_id);
-      if (previousVersion) {
-        previousVersion.is_published = false;
-      }
-    }
-
-    // Publish target version
-    targetVersion.is_published = true;
-    targetVersion.published_at = now;
-
-    // Update template
-    template.published_version_id = targetVersion.id;
-    template.published_at = now;
-    template.status = 'published';
-    template.scheduled_publish_at = null;
-    template.updated_at = now;
-
-    versionsStore.set(templateId, versions);
-    templatesStore.set(templateId, template);
+    publishTemplateVersion(template, targetVersion, access.userId);
+    await invalidateTemplateCache(targetVersion);
 
     return NextResponse.json({
       success: true,
@@ -115,11 +117,11 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
   try {
     const { templateId } = await params;
 
-    const template = templatesStore.get(templateId);
-
-    if (!template || template.is_deleted) {
-      return NextResponse.json({ success: false, error: 'Template not found' }, { status: 404 });
+    const access = await authorizeTemplate(templateId, 'can_publish');
+    if (access instanceof NextResponse) {
+      return access;
     }
+    const { template } = access;
 
     if (template.status !== 'published' && template.status !== 'scheduled') {
       return NextResponse.json(
@@ -128,27 +130,21 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    const now = new Date().toISOString();
     const versions = versionsStore.get(templateId) || [];
+    const publishedVersion = versions.find((v) => v.id === template.published_version_id);
 
-    // Unpublish current published version
-    if (template.published_version_id) {
-      const publishedVersion = versions.find((v) => v.id === template.published_version_id);
-      if (publishedVersion) {
-        publishedVersion.is_published = false;
+    // Unpublishing also calls off anything still scheduled
+    for (const schedule of schedulesStore.get(templateId) || []) {
+      if (schedule.status === 'pending' || schedule.status === 'active') {
+        cancelSchedule(template, schedule, access.userId);
       }
     }
 
-    // Update template
-    template.published_version_id = null;
-    template.unpublished_at = now;
-    template.status = 'draft';
-    template.scheduled_publish_at = null;
-    template.scheduled_unpublish_at = null;
-    template.updated_at = now;
+    unpublishTemplate(template);
 
-    versionsStore.set(templateId, versions);
-    templatesStore.set(templateId, template);
+    if (publishedVersion) {
+      await invalidateTemplateCache(publishedVersion);
+    }
 
     return NextResponse.json({
       success: true,
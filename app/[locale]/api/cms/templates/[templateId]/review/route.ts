@@ -0,0 +1,138 @@
+/**
+ * CMS Template Review API Route
+ *
+ * Handles the approval gate for templates that require review.
+ * POST - Submit, withdraw, approve or reject a review
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { CMSTemplateComment, CommentType } from '@/types/cms-templates';
+import { REVIEW_TRANSITIONS, ReviewAction, getReviewActionError } from '@/lib/cms/template-review';
+import { templateReviewSchema } from '@/lib/validations/cms-template';
+import { commentsStore, templatesStore } from '../../route';
+import { authorizeTemplate } from '../../access';
+
+interface RouteParams {
+  params: Promise<{
+    templateId: string;
+  }>;
+}
+
+// Comment recorded for each action; withdrawing leaves no trace in the thread
+const REVIEW_COMMENT_TYPES: Partial<Record<ReviewAction, CommentType>> = {
+  submit: 'general',
+  approve: 'approval',
+  reject: 'rejection',
+};
+
+const REVIEW_MESSAGES: Record<ReviewAction, string> = {
+  submit: 'Template submitted for review',
+  withdraw: 'Review withdrawn',
+  approve: 'Template approved',
+  reject: 'Template rejected',
+};
+
+/**
+ * POST /api/cms/templates/[templateId]/review
+ * Move a template through review. Decisions are recorded as comments on the
+ * reviewed version.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { templateId } = await params;
+
+    const access = await authorizeTemplate(templateId, 'can_view');
+    if (access instanceof NextResponse) {
+      return access;
+    }
+
+    const body = await request.json();
+    const parsed = templateReviewSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.errors[0].message },
+        { status: 400 }
+      );
+    }
+
+    const input = parsed.data;
+    const { template } = access;
+
+    const reviewError = getReviewActionError(template, access.role, input.action, access.userId);
+    if (reviewError) {
+      return NextResponse.json(
+        { success: false, error: reviewError.message },
+        { status: reviewError.status }
+      );
+    }
+
+    const now = new Date().toISOString();
+    const reviewedVersionId =
+      input.action === 'submit' ? template.current_version_id : template.review_version_id;
+
+    switch (input.action) {
+      case 'submit':
+        template.review_version_id = template.current_version_id;
+        template.review_requested_by = access.userId;
+        template.review_requested_at = now;
+        break;
+      case 'approve':
+        template.approved_version_id = template.review_version_id;
+        template.approved_by = access.userId;
+        template.approved_at = now;
+        template.review_version_id = null;
+        break;
+      case 'withdraw':
+      case 'reject':
+        template.review_version_id = null;
+        break;
+    }
+
+    template.status = REVIEW_TRANSITIONS[input.action].to;
+    template.updated_at = now;
+    templatesStore.set(templateId, template);
+
+    let comment: CMSTemplateComment | null = null;
+    const commentType = REVIEW_COMMENT_TYPES[input.action];
+    const content =
+      ('comment' in input && input.comment) || (input.action === 'approve' ? 'Approved' : null);
+
+    if (commentType && content) {
+      comment = {
+        id: `comment-${crypto.randomUUID()}`,
+        template_id: templateId,
+        version_id: reviewedVersionId,
+        content,
+        comment_type: commentType,
+        parent_comment_id: null,
+        thread_level: 0,
+        section_id: null,
+        is_resolved: false,
+        resolved_at: null,
+        resolved_by: null,
+        created_by: access.userId,
+        is_deleted: false,
+        deleted_at: null,
+        created_at: now,
+        updated_at: now,
+      };
+
+      const comments = commentsStore.get(templateId) || [];
+      comments.push(comment);
+      commentsStore.set(templateId, comments);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { template, comment },
+      message: REVIEW_MESSAGES[input.action],
+    });
+  } catch (error) {
+    console.error('Error updating template review:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update template review' },
+      { status: 500 }
+    );
+  }
+}
@@ -9,7 +9,10 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { CMSTemplateVersion } from '@/types/cms-templates';
+import { hasTemplatePermission } from '@/lib/cms/template-permissions';
+import { getAvailableReviewActions } from '@/lib/cms/template-review';
 import { templatesStore, versionsStore } from '../route';
+import { authorizeTemplate } from '../access';
 
 interface RouteParams {
   params: Promise<{
@@ -25,11 +28,11 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
   try {
     const { templateId } = await params;
 
-    const template = templatesStore.get(templateId);
-
-    if (!template || template.is_deleted) {
-      return NextResponse.json({ success: false, error: 'Template not found' }, { status: 404 });
+    const access = await authorizeTemplate(templateId, 'can_view');
+    if (access instanceof NextResponse) {
+      return access;
     }
+    const { template } = access;
 
     // Get versions
     const versions = versionsStore.get(templateId) || [];
@@ -50,6 +53,8 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         current_version: currentVersion || null,
         published_version: publishedVersion || null,
         versions_count: versions.length,
+        role: access.role,
+        review_actions: getAvailableReviewActions(template, access.role, access.userId),
       },
     });
   } catch (error) {
@@ -69,21 +74,40 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
   try {
     const { templateId } = await params;
     const body = await request.json();
-    const { name, description, category, tags, content, change_summary } = body;
-
-    const template = templatesStore.get(templateId);
+    const { name, description, category, tags, content, change_summary, requires_review } = body;
 
-    if (!template || template.is_deleted) {
-      return NextResponse.json({ success: false, error: 'Template not found' }, { status: 404 });
+    const access = await authorizeTemplate(templateId, 'can_edit');
+    if (access instanceof NextResponse) {
+      return access;
     }
+    const { template } = access;
 
     const now = new Date().toISOString();
 
+    // The review gate is an owner setting
+    if (requires_review !== undefined) {
+      if (!hasTemplatePermission(access.role, 'can_manage_collaborators')) {
+        return NextResponse.json(
+          { success: false, error: 'Only template owners can change the review requirement' },
+          { status: 403 }
+        );
+      }
+
+      template.requires_review = requires_review === true;
+
+      // Turning the gate off drops any pending review
+      if (!template.requires_review && template.status === 'review') {
+        template.status = 'draft';
+        template.review_version_id = null;
+      }
+    }
+
     // Update template metadata
     if (name !== undefined) template.name = name;
     if (description !== undefined) template.description = description;
     if (category !== undefined) template.category = category;
     if (tags !== undefined) template.tags = tags;
+    template.updated_by = access.userId;
     template.updated_at = now;
 
     // If content is provided, create a new version
@@ -112,7 +136,7 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
         based_on_version_id: null,
         is_published: false,
         published_at: null,
-        created_by: null,
+        created_by: access.userId,
         is_valid: true,
         validation_errors: null,
         content_hash: '',
@@ -158,17 +182,18 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
   try {
     const { templateId } = await params;
 
-    const template = templatesStore.get(templateId);
-
-    if (!template || template.is_deleted) {
-      return NextResponse.json({ success: false, error: 'Template not found' }, { status: 404 });
+    const access = await authorizeTemplate(templateId, 'can_delete');
+    if (access instanceof NextResponse) {
+      return access;
     }
+    const { template } = access;
 
     const now = new Date().toISOString();
 
     // Soft delete
     template.is_deleted = true;
     template.deleted_at = now;
+    template.deleted_by = access.userId;
     template.status = 'archived';
     templatesStore.set(templateId, template);
 
@@ -0,0 +1,60 @@
+/**
+ * CMS Template Schedule API Route
+ *
+ * Handles a single publishing schedule.
+ * DELETE - Cancel a schedule
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { schedulesStore } from '../../../route';
+import { authorizeTemplate } from '../../../access';
+import { cancelSchedule } from '../../../publishing';
+
+interface RouteParams {
+  params: Promise<{
+    templateId: string;
+    scheduleId: string;
+  }>;
+}
+
+/**
+ * DELETE /api/cms/templates/[templateId]/schedules/[scheduleId]
+ * Cancel a pending publish, or the pending unpublish of an active schedule
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { templateId, scheduleId } = await params;
+
+    const access = await authorizeTemplate(templateId, 'can_publish');
+    if (access instanceof NextResponse) {
+      return access;
+    }
+
+    const schedule = (schedulesStore.get(templateId) || []).find((s) => s.id === scheduleId);
+
+    if (!schedule) {
+      return NextResponse.json({ success: false, error: 'Schedule not found' }, { status: 404 });
+    }
+
+    if (schedule.status !== 'pending' && schedule.status !== 'active') {
+      return NextResponse.json(
+        { success: false, error: `Cannot cancel a schedule that is ${schedule.status}` },
+        { status: 409 }
+      );
+    }
+
+    cancelSchedule(access.template, schedule, access.userId);
+
+    return NextResponse.json({
+      success: true,
+      data: { schedule, template: access.template },
+      message: 'Schedule cancelled successfully',
+    });
+  } catch (error) {
+    console.error('Error cancelling schedule:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to cancel schedule' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * CMS Template Schedules API Route
+ *
+ * Handles scheduled publishing for a template.
+ * GET - List the template's schedules
+ * POST - Schedule a version to publish (and optionally unpublish)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isVersionApproved } from '@/lib/cms/template-review';
+import { scheduleTemplateSchema } from '@/lib/validations/cms-template';
+import { schedulesStore, versionsStore } from '../../route';
+import { authorizeTemplate } from '../../access';
+import { createSchedule } from '../../publishing';
+
+interface RouteParams {
+  params: Promise<{
+    templateId: string;
+  }>;
+}
+
+/**
+ * GET /api/cms/templates/[templateId]/schedules
+ * List schedules, soonest first
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { templateId } = await params;
+
+    const access = await authorizeTemplate(templateId, 'can_view');
+    if (access instanceof NextResponse) {
+      return access;
+    }
+
+    const schedules = [...(schedulesStore.get(templateId) || [])].sort(
+      (a, b) => new Date(a.publish_at).getTime() - new Date(b.publish_at).getTime()
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: { schedules },
+    });
+  } catch (error) {
+    console.error('Error listing schedules:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to list schedules' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/cms/templates/[templateId]/schedules
+ * Schedule a version to publish
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { templateId } = await params;
+
+    const access = await authorizeTemplate(templateId, 'can_publish');
+    if (access instanceof NextResponse) {
+      return access;
+    }
+
+    const body = await request.json();
+    const parsed = scheduleTemplateSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.errors[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { template } = access;
+    const { version_id, ...input } = parsed.data;
+
+    const targetVersionId =
+      version_id ||
+      (template.requires_review ? template.approved_version_id : template.current_version_id);
+    const version = (versionsStore.get(templateId) || []).find((v) => v.id === targetVersionId);
+
+    if (!version) {
+      return NextResponse.json({ success: false, error: 'Version not found' }, { status: 404 });
+    }
+
+    if (!isVersionApproved(template, version.id)) {
+      return NextResponse.json(
+        { success: false, error: 'Only an approved version can be published or scheduled' },
+        { status: 409 }
+      );
+    }
+
+    const schedule = createSchedule(template, version, input, access.userId);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: { schedule, template },
+        message: 'Template scheduled for publishing',
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error scheduling template:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to schedule template' },
+      { status: 500 }
+    );
+  }
+}
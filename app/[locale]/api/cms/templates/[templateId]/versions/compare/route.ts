@@ -0,0 +1,67 @@
+/**
+ * CMS Template Version Compare API Route
+ *
+ * Handles structural diffs between versions.
+ * GET - Compare two versions of a template
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { diffTemplateVersions } from '@/lib/cms/template-diff';
+import { versionsStore } from '../../../route';
+import { authorizeTemplate } from '../../../access';
+
+interface RouteParams {
+  params: Promise<{
+    templateId: string;
+  }>;
+}
+
+/**
+ * GET /api/cms/templates/[templateId]/versions/compare?from=<id>&to=<id>
+ * Diff `from` against `to`, which defaults to the current version
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { templateId } = await params;
+    const { searchParams } = new URL(request.url);
+
+    const access = await authorizeTemplate(templateId, 'can_view');
+    if (access instanceof NextResponse) {
+      return access;
+    }
+    const { template } = access;
+
+    const fromId = searchParams.get('from');
+    const toId = searchParams.get('to') || template.current_version_id;
+
+    if (!fromId) {
+      return NextResponse.json(
+        { success: false, error: 'A version to compare from is required' },
+        { status: 400 }
+      );
+    }
+
+    const versions = versionsStore.get(templateId) || [];
+    const fromVersion = versions.find((v) => v.id === fromId);
+    const toVersion = versions.find((v) => v.id === toId);
+
+    if (!fromVersion || !toVersion) {
+      return NextResponse.json({ success: false, error: 'Version not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        diff: diffTemplateVersions(fromVersion, toVersion),
+        from_version: fromVersion,
+        to_version: toVersion,
+      },
+    });
+  } catch (error) {
+    console.error('Error comparing versions:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to compare versions' },
+      { status: 500 }
+    );
+  }
+}
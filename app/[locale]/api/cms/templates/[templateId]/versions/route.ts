@@ -9,6 +9,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { CMSTemplateVersion } from '@/types/cms-templates';
 import { templatesStore, versionsStore } from '../../route';
+import { authorizeTemplate } from '../../access';
 
 interface RouteParams {
   params: Promise<{
@@ -28,11 +29,11 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     const limit = parseInt(searchParams.get('limit') || '20', 10);
     const offset = parseInt(searchParams.get('offset') || '0', 10);
 
-    const template = templatesStore.get(templateId);
-
-    if (!template || template.is_deleted) {
-      return NextResponse.json({ success: false, error: 'Template not found' }, { status: 404 });
+    const access = await authorizeTemplate(templateId, 'can_view');
+    if (access instanceof NextResponse) {
+      return access;
     }
+    const { template } = access;
 
     const versions = versionsStore.get(templateId) || [];
 
@@ -78,11 +79,11 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     const body = await request.json();
     const { action, version_id, content, change_summary } = body;
 
-    const template = templatesStore.get(templateId);
-
-    if (!template || template.is_deleted) {
-      return NextResponse.json({ success: false, error: 'Template not found' }, { status: 404 });
+    const access = await authorizeTemplate(templateId, 'can_edit');
+    if (access instanceof NextResponse) {
+      return access;
     }
+    const { template } = access;
 
     const versions = versionsStore.get(templateId) || [];
     const maxVersionNumber = versions.reduce((max, v) => Math.max(max, v.version_number), 0);
@@ -112,7 +113,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         based_on_version_id: version_id,
         is_published: false,
         published_at: null,
-        created_by: null,
+        created_by: access.userId,
         is_valid: true,
         validation_errors: null,
         content_hash: '',
@@ -147,7 +148,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         based_on_version_id: null,
         is_published: false,
         published_at: null,
-        created_by: null,
+        created_by: access.userId,
         is_valid: true,
         validation_errors: null,
         content_hash: '',
@@ -161,6 +162,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
 
     // Update template
     template.current_version_id = newVersion.id;
+    template.updated_by = access.userId;
     template.updated_at = now;
 
     // If was published, mark as having unpublished changes
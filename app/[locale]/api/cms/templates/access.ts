@@ -0,0 +1,64 @@
+/**
+ * CMS Template Access
+ *
+ * Shared by the template routes to load a template and check the caller's
+ * role on it before handling the request.
+ */
+
+import { NextResponse } from 'next/server';
+import { CMSTemplate, CollaboratorRole } from '@/types/cms-templates';
+import { TemplateUser, getTemplateUser } from '@/lib/cms/template-auth';
+import {
+  TemplatePermission,
+  hasTemplatePermission,
+  resolveTemplateRole,
+} from '@/lib/cms/template-permissions';
+import { collaboratorsStore, templatesStore } from './route';
+
+export interface TemplateAccess extends TemplateUser {
+  template: CMSTemplate;
+  role: CollaboratorRole;
+}
+
+/**
+ * Resolve the caller's access to a template.
+ * Returns an error response when the caller is signed out (401), can't see the
+ * template (404) or lacks the requested permission (403).
+ */
+export async function authorizeTemplate(
+  templateId: string,
+  permission: TemplatePermission,
+  notFoundMessage = 'Template not found'
+): Promise<TemplateAccess | NextResponse> {
+  const user = await getTemplateUser();
+
+  if (!user) {
+    return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 });
+  }
+
+  const template = templatesStore.get(templateId);
+
+  if (!template || template.is_deleted) {
+    return NextResponse.json({ success: false, error: notFoundMessage }, { status: 404 });
+  }
+
+  const role = resolveTemplateRole({
+    template,
+    collaborators: collaboratorsStore.get(templateId) || [],
+    ...user,
+  });
+
+  // Templates the caller isn't a collaborator on are reported as missing
+  if (!role || !hasTemplatePermission(role, 'can_view')) {
+    return NextResponse.json({ success: false, error: notFoundMessage }, { status: 404 });
+  }
+
+  if (!hasTemplatePermission(role, permission)) {
+    return NextResponse.json(
+      { success: false, error: `Your ${role} role on this template does not allow this` },
+      { status: 403 }
+    );
+  }
+
+  return { ...user, template, role };
+}
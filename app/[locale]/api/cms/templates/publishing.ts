@@ -0,0 +1,179 @@
+/**
+ * CMS Template Publishing
+ *
+ * Publish, unpublish and schedule steps shared by the publish and schedule
+ * routes and the CMS scheduler.
+ */
+
+import {
+  CMSTemplate,
+  CMSTemplateSchedule,
+  CMSTemplateVersion,
+  SchedulePublishRequest,
+} from '@/types/cms-templates';
+import { handleSectionPublishCache } from '@/lib/cache/cms-cache';
+import { schedulesStore, templatesStore, versionsStore } from './route';
+
+// Homepage content is cached separately for every locale
+export const CMS_LOCALES = ['en', 'he'];
+
+export type ScheduleInput = Pick<
+  SchedulePublishRequest,
+  'publish_at' | 'unpublish_at' | 'timezone' | 'notes' | 'notify_on_publish' | 'notify_on_unpublish'
+> & { notification_emails?: string[] };
+
+/**
+ * Make a version the live one. userId is null for scheduled publishes.
+ */
+export function publishTemplateVersion(
+  template: CMSTemplate,
+  version: CMSTemplateVersion,
+  userId: string | null
+): void {
+  const now = new Date().toISOString();
+  const versions = versionsStore.get(template.id) || [];
+
+  // Unpublish previous version if exists
+  if (template.published_version_id) {
+    const previousVersion = versions.find((v) => v.id === template.published_version_id);
+    if (previousVersion) {
+      previousVersion.is_published = false;
+    }
+  }
+
+  version.is_published = true;
+  version.published_at = now;
+
+  template.published_version_id = version.id;
+  template.published_at = now;
+  template.published_by = userId;
+  // A pending review of a newer version carries on
+  template.status = template.status === 'review' ? 'review' : 'published';
+  template.updated_at = now;
+
+  versionsStore.set(template.id, versions);
+  syncScheduledState(template);
+}
+
+export function unpublishTemplate(template: CMSTemplate): void {
+  const now = new Date().toISOString();
+  const versions = versionsStore.get(template.id) || [];
+
+  if (template.published_version_id) {
+    const publishedVersion = versions.find((v) => v.id === template.published_version_id);
+    if (publishedVersion) {
+      publishedVersion.is_published = false;
+    }
+  }
+
+  template.published_version_id = null;
+  template.unpublished_at = now;
+  template.status = template.status === 'review' ? 'review' : 'draft';
+  template.updated_at = now;
+
+  versionsStore.set(template.id, versions);
+  syncScheduledState(template);
+}
+
+/**
+ * Keep the template's scheduled_* fields and status in line with its schedules.
+ */
+export function syncScheduledState(template: CMSTemplate): void {
+  const schedules = schedulesStore.get(template.id) || [];
+  const byDate = (a: string, b: string) => new Date(a).getTime() - new Date(b).getTime();
+
+  const nextPublish = schedules
+    .filter((s) => s.status === 'pending')
+    .map((s) => s.publish_at)
+    .sort(byDate)[0];
+  const nextUnpublish = schedules
+    .filter((s) => (s.status === 'pending' || s.status === 'active') && s.unpublish_at)
+    .map((s) => s.unpublish_at as string)
+    .sort(byDate)[0];
+
+  template.scheduled_publish_at = nextPublish || null;
+  template.scheduled_unpublish_at = nextUnpublish || null;
+
+  // Live and in-review templates keep their status while a publish is queued
+  if (nextPublish && template.status === 'draft') {
+    template.status = 'scheduled';
+  } else if (!nextPublish && template.status === 'scheduled') {
+    template.status = template.published_version_id ? 'published' : 'draft';
+  }
+
+  templatesStore.set(template.id, template);
+}
+
+export function createSchedule(
+  template: CMSTemplate,
+  version: CMSTemplateVersion,
+  input: ScheduleInput,
+  userId: string
+): CMSTemplateSchedule {
+  const now = new Date().toISOString();
+
+  const schedule: CMSTemplateSchedule = {
+    id: `schedule-${crypto.randomUUID()}`,
+    template_id: template.id,
+    version_id: version.id,
+    publish_at: new Date(input.publish_at).toISOString(),
+    unpublish_at: input.unpublish_at ? new Date(input.unpublish_at).toISOString() : null,
+    timezone: input.timezone || 'UTC',
+    is_recurring: false,
+    recurrence_rule: null,
+    recurrence_end_date: null,
+    status: 'pending',
+    executed_at: null,
+    execution_attempts: 0,
+    last_execution_error: null,
+    notify_on_publish: input.notify_on_publish ?? true,
+    notify_on_unpublish: input.notify_on_unpublish ?? true,
+    notification_emails: input.notification_emails || null,
+    created_by: userId,
+    updated_by: userId,
+    notes: input.notes || null,
+    metadata: {},
+    created_at: now,
+    updated_at: now,
+  };
+
+  const schedules = schedulesStore.get(template.id) || [];
+  schedules.push(schedule);
+  schedulesStore.set(template.id, schedules);
+
+  template.updated_at = now;
+  syncScheduledState(template);
+
+  return schedule;
+}
+
+export function cancelSchedule(
+  template: CMSTemplate,
+  schedule: CMSTemplateSchedule,
+  userId: string
+): void {
+  const now = new Date().toISOString();
+
+  schedule.status = 'cancelled';
+  schedule.updated_by = userId;
+  schedule.updated_at = now;
+
+  template.updated_at = now;
+  syncScheduledState(template);
+}
+
+/**
+ * Drop cached homepage content for every section in a version.
+ * Cache failures are logged rather than undoing the publish.
+ */
+export async function invalidateTemplateCache(version: CMSTemplateVersion): Promise<void> {
+  try {
+    for (const locale of CMS_LOCALES) {
+      for (const section of version.content.sections) {
+        await handleSectionPublishCache(section.id, locale);
+      }
+    }
+  } catch (error) {
+    console.error('Error invalidating template cache:', error);
+  }
+}
@@ -10,10 +10,16 @@ import { NextRequest, NextResponse } from 'next/server';
 import { Section } from '@/types/cms';
 import {
   CMSTemplate,
+  CMSTemplateCollaborator,
+  CMSTemplateComment,
+  CMSTemplateSchedule,
   CMSTemplateVersion,
   TemplateStatus,
   TemplateCategory,
 } from '@/types/cms-templates';
+import { hasTemplatePermission, resolveTemplateRole } from '@/lib/cms/template-permissions';
+import { getAvailableReviewActions } from '@/lib/cms/template-review';
+import { getTemplateUser } from '@/lib/cms/template-auth';
 
 // Check if we're using stubs
 const USE_STUBS = process.env.NEXT_PUBLIC_USE_STUBS === 'true';
@@ -21,6 +27,9 @@ const USE_STUBS = process.env.NEXT_PUBLIC_USE_STUBS === 'true';
 // In-memory store for templates (in production, this would be in the database)
 const templatesStore = new Map<string, CMSTemplate>();
 const versionsStore = new Map<string, CMSTemplateVersion[]>();
+const collaboratorsStore = new Map<string, CMSTemplateCollaborator[]>();
+const commentsStore = new Map<string, CMSTemplateComment[]>();
+const schedulesStore = new Map<string, CMSTemplateSchedule[]>();
 
 // Initialize with sample templates
 function initializeSampleTemplates() {
@@ -40,6 +49,13 @@ function initializeSampleTemplates() {
     current_version_id: 'version-1',
     published_version_id: 'version-1',
     status: 'published',
+    requires_review: false,
+    review_version_id: null,
+    review_requested_by: null,
+    review_requested_at: null,
+    approved_version_id: null,
+    approved_by: null,
+    approved_at: null,
     scheduled_publish_at: null,
     scheduled_unpublish_at: null,
     published_at: now,
@@ -69,6 +85,13 @@ function initializeSampleTemplates() {
     current_version_id: 'version-2',
     published_version_id: null,
     status: 'draft',
+    requires_review: false,
+    review_version_id: null,
+    review_requested_by: null,
+    review_requested_at: null,
+    approved_version_id: null,
+    approved_by: null,
+    approved_at: null,
     scheduled_publish_at: null,
     scheduled_unpublish_at: null,
     published_at: null,
@@ -129,6 +152,14 @@ initializeSampleTemplates();
  */
 export async function GET(request: NextRequest) {
   try {
+    const user = await getTemplateUser();
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
     const { searchParams } = new URL(request.url);
 
     // Parse query parameters
@@ -140,8 +171,19 @@ export async function GET(request: NextRequest) {
     const sortBy = searchParams.get('sort_by') || 'updated_at';
     const sortOrder = searchParams.get('sort_order') || 'desc';
 
-    // Get all templates from store
-    let templates = Array.from(templatesStore.values()).filter((t) => !t.is_deleted);
+    // Get all templates the user can see
+    let templates = Array.from(templatesStore.values()).filter(
+      (t) =>
+        !t.is_deleted &&
+        hasTemplatePermission(
+          resolveTemplateRole({
+            template: t,
+            collaborators: collaboratorsStore.get(t.id) || [],
+            ...user,
+          }),
+          'can_view'
+        )
+    );
 
     // Apply filters
     if (status) {
@@ -183,7 +225,18 @@ export async function GET(request: NextRequest) {
     // Paginate
     const total = templates.length;
     const offset = (page - 1) * limit;
-    const paginatedTemplates = templates.slice(offset, offset + limit);
+    const paginatedTemplates = templates.slice(offset, offset + limit).map((t) => ({
+      ...t,
+      review_actions: getAvailableReviewActions(
+        t,
+        resolveTemplateRole({
+          template: t,
+          collaborators: collaboratorsStore.get(t.id) || [],
+          ...user,
+        }),
+        user.userId
+      ),
+    }));
 
     return NextResponse.json({
       success: true,
@@ -212,8 +265,21 @@ export async function GET(request: NextRequest) {
  */
 export async function POST(request: NextRequest) {
   try {
+    const user = await getTemplateUser();
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Only site admins start new templates; everyone else is invited
+    if (!user.isAdmin) {
+      return NextResponse.json({ success: false, error: 'Admin access required' }, { status: 403 });
+    }
+
     const body = await request.json();
-    const { name, slug, description, category, tags, content } = body;
+    const { name, slug, description, category, tags, content, requires_review } = body;
 
     // Validate required fields
     if (!name || !slug) {
@@ -250,12 +316,19 @@ export async function POST(request: NextRequest) {
       current_version_id: versionId,
       published_version_id: null,
       status: 'draft',
+      requires_review: requires_review === true,
+      review_version_id: null,
+      review_requested_by: null,
+      review_requested_at: null,
+      approved_version_id: null,
+      approved_by: null,
+      approved_at: null,
       scheduled_publish_at: null,
       scheduled_unpublish_at: null,
       published_at: null,
       unpublished_at: null,
-      created_by: null, // Would be set from auth
-      updated_by: null,
+      created_by: user.userId,
+      updated_by: user.userId,
       published_by: null,
       metadata: {},
       view_count: 0,
@@ -289,7 +362,7 @@ export async function POST(request: NextRequest) {
       based_on_version_id: null,
       is_published: false,
       published_at: null,
-      created_by: null,
+      created_by: user.userId,
       is_valid: true,
       validation_errors: null,
       content_hash: '',
@@ -299,6 +372,8 @@ export async function POST(request: NextRequest) {
     // Store template and version
     templatesStore.set(templateId, template);
     versionsStore.set(templateId, [version]);
+    collaboratorsStore.set(templateId, []);
+    commentsStore.set(templateId, []);
 
     return NextResponse.json({
       success: true,
@@ -318,4 +393,4 @@ export async function POST(request: NextRequest) {
 }
 
 // Export stores for use by other routes
-export { templatesStore, versionsStore };
+export { templatesStore, versionsStore, collaboratorsStore, commentsStore, schedulesStore };
@@ -0,0 +1,41 @@
+/**
+ * Campaigns Cron Route
+ *
+ * Moves campaigns to scheduled, active or expired as their dates pass.
+ * GET - Invoked by Vercel Cron with the CRON_SECRET bearer token
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+
+/**
+ * GET /api/cron/campaigns
+ */
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { data, error } = await createServiceRoleClient().rpc('refresh_campaign_statuses');
+
+    if (error) {
+      throw error;
+    }
+
+    const updated = (data as number) || 0;
+
+    return NextResponse.json({
+      success: true,
+      data: { updated },
+      message: `Updated the status of ${updated} campaigns`,
+    });
+  } catch (error) {
+    console.error('Error refreshing campaign statuses:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to refresh campaign statuses' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * CMS Schedules Cron Route
+ *
+ * Runs due template and homepage section schedules.
+ * GET - Invoked by Vercel Cron with the CRON_SECRET bearer token
+ * POST - Run on demand from the CMS admin
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getTemplateUser } from '@/lib/cms/template-auth';
+import { runDueSchedules } from '../../cms/scheduler';
+
+async function isAuthorized(request: NextRequest): Promise<boolean> {
+  const secret = process.env.CRON_SECRET;
+  if (secret && request.headers.get('authorization') === `Bearer ${secret}`) {
+    return true;
+  }
+
+  const user = await getTemplateUser();
+  return !!user?.isAdmin;
+}
+
+async function handle(request: NextRequest) {
+  try {
+    if (!(await isAuthorized(request))) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const summary = await runDueSchedules();
+
+    if (summary.failed.length > 0) {
+      console.error('Scheduled publishes failed:', summary.failed);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: summary,
+      message: `Processed ${summary.templates.length + summary.sections.length} scheduled changes`,
+    });
+  } catch (error) {
+    console.error('Error running CMS schedules:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to run CMS schedules' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/cron/cms-schedules
+ */
+export async function GET(request: NextRequest) {
+  return handle(request);
+}
+
+/**
+ * POST /api/cron/cms-schedules
+ */
+export async function POST(request: NextRequest) {
+  return handle(request);
+}
@@ -0,0 +1,36 @@
+/**
+ * Inventory Reservations Cron Route
+ *
+ * Expires checkout stock holds that were never converted into an order.
+ * GET - Invoked by Vercel Cron with the CRON_SECRET bearer token
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { expireInventoryReservations } from '@/lib/checkout/inventory-reservations';
+
+/**
+ * GET /api/cron/inventory-reservations
+ */
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const expired = await expireInventoryReservations(createServiceRoleClient());
+
+    return NextResponse.json({
+      success: true,
+      data: { expired },
+      message: `Expired ${expired} inventory reservations`,
+    });
+  } catch (error) {
+    console.error('Error expiring inventory reservations:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to expire inventory reservations' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,112 @@
+import { NextRequest } from 'next/server';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import {
+  addToCartSchema,
+  removeFromCartSchema,
+  updateCartItemSchema,
+} from '@/lib/validations/cart';
+import { withRateLimit, withValidation } from '@/lib/api/middleware';
+import { successResponse, errorResponse, handleDatabaseError } from '@/lib/api/index';
+import {
+  addGuestCartItem,
+  findGuestCart,
+  findOrCreateGuestCart,
+  getGuestCartContents,
+  getGuestCartToken,
+  removeGuestCartItem,
+  setGuestCartCookie,
+  updateGuestCartItem,
+} from '@/lib/checkout/guest-cart';
+
+// GET /api/guest-cart - Get the guest cart for the cart cookie
+export async function GET(req: NextRequest) {
+  try {
+    const supabase = createServiceRoleClient();
+    const guestCart = await findGuestCart(supabase, getGuestCartToken(req));
+
+    if (!guestCart) {
+      return successResponse({ items: [], total: 0, itemCount: 0 });
+    }
+
+    return successResponse(await getGuestCartContents(supabase, guestCart.id));
+  } catch (error) {
+    return handleDatabaseError(error as Error);
+  }
+}
+
+// POST /api/guest-cart - Add an item, starting a guest cart if needed
+export async function POST(req: NextRequest) {
+  return withRateLimit(req, (req) =>
+    withValidation(req, addToCartSchema, async (req, validData) => {
+      try {
+        const supabase = createServiceRoleClient();
+        const guestCart = await findOrCreateGuestCart(supabase, getGuestCartToken(req));
+
+        // The schema defaults the quantity to 1
+        const { data, error } = await addGuestCartItem(supabase, guestCart.id, {
+          ...validData,
+          quantity: validData.quantity ?? 1,
+        });
+
+        if (error) {
+          return errorResponse(error.message, error.status, error.code);
+        }
+
+        return setGuestCartCookie(successResponse(data, 201), guestCart.token);
+      } catch (error) {
+        return handleDatabaseError(error as Error);
+      }
+    })
+  );
+}
+
+// PUT /api/guest-cart - Update a guest cart item quantity
+export async function PUT(req: NextRequest) {
+  return withValidation(req, updateCartItemSchema, async (req, validData) => {
+    try {
+      const supabase = createServiceRoleClient();
+      const guestCart = await findGuestCart(supabase, getGuestCartToken(req));
+
+      if (!guestCart) {
+        return errorResponse(`Cart item with ID ${validData.id} not found`, 404, 'NOT_FOUND');
+      }
+
+      const { data, error } = await updateGuestCartItem(supabase, guestCart.id, validData);
+
+      if (error) {
+        return errorResponse(error.message, error.status, error.code);
+      }
+
+      return successResponse(data);
+    } catch (error) {
+      return handleDatabaseError(error as Error);
+    }
+  });
+}
+
+// DELETE /api/guest-cart - Remove an item from the guest cart
+export async function DELETE(req: NextRequest) {
+  return withValidation(req, removeFromCartSchema, async (req, validData) => {
+    try {
+      const supabase = createServiceRoleClient();
+      const guestCart = await findGuestCart(supabase, getGuestCartToken(req));
+
+      if (!guestCart) {
+        return errorResponse(`Cart item with ID ${validData.id} not found`, 404, 'NOT_FOUND');
+      }
+
+      const { data, error } = await removeGuestCartItem(supabase, guestCart.id, validData.id);
+
+      if (error) {
+        return errorResponse(error.message, error.status, error.code);
+      }
+
+      return successResponse({
+        message: `Item removed from cart successfully`,
+        id: data.id,
+      });
+    } catch (error) {
+      return handleDatabaseError(error as Error);
+    }
+  });
+}
@@ -0,0 +1,36 @@
+import { NextRequest } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { Database } from '@/types/supabase';
+import { awardPointsSchema } from '@/lib/validations/loyalty';
+import { withAdmin, withValidation } from '@/lib/api/middleware';
+import { successResponse, handleDatabaseError } from '@/lib/api/index';
+import { loyaltyService } from '@/lib/loyalty/loyalty-service';
+
+// POST /api/loyalty/award-points - Grant points manually (admin only).
+// Paid orders are awarded automatically by the database.
+export async function POST(req: NextRequest) {
+  return withAdmin(req, (req, session) =>
+    withValidation(req, awardPointsSchema, async (req, validData) => {
+      try {
+        const supabase = createRouteHandlerClient<Database>({ cookies });
+
+        const { data: account, error } = await supabase.rpc('adjust_loyalty_points', {
+          p_user_id: validData.userId,
+          p_points: validData.points,
+          p_type: validData.type ?? 'bonus',
+          p_description: validData.description,
+          p_order_id: validData.orderId ?? null,
+        });
+
+        if (error) {
+          throw error;
+        }
+
+        return successResponse(loyaltyService.toUserLoyalty(validData.userId, account), 201);
+      } catch (error) {
+        return handleDatabaseError(error as Error);
+      }
+    })
+  );
+}
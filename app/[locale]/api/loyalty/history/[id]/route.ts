@@ -0,0 +1,52 @@
+import { NextRequest } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { Database } from '@/types/supabase';
+import { loyaltyHistoryQuerySchema } from '@/lib/validations/loyalty';
+import { withAuth, withQueryValidation } from '@/lib/api/middleware';
+import { successResponse, errorResponse, handleDatabaseError } from '@/lib/api/index';
+import { loyaltyService } from '@/lib/loyalty/loyalty-service';
+
+// GET /api/loyalty/history/[id] - Points ledger of a member, newest first
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  return withAuth(req, (req, session) =>
+    withQueryValidation(req, loyaltyHistoryQuerySchema, async (req, data) => {
+      const { limit = 50, offset = 0 } = data;
+
+      try {
+        const supabase = createRouteHandlerClient<Database>({ cookies });
+        const { id: userId } = await params;
+
+        // Members can only see their own history (unless admin)
+        if (userId !== session.user.id) {
+          const { data: user } = await supabase
+            .from('users')
+            .select('role')
+            .eq('id', session.user.id)
+            .single();
+
+          if (user?.role !== 'admin') {
+            return errorResponse('Access denied', 403);
+          }
+        }
+
+        const { data: transactions, error } = await supabase
+          .from('loyalty_transactions')
+          .select('*')
+          .eq('user_id', userId)
+          .order('created_at', { ascending: false })
+          .range(offset, offset + limit - 1);
+
+        if (error) {
+          throw error;
+        }
+
+        return successResponse(
+          (transactions || []).map((transaction) => loyaltyService.toPointsTransaction(transaction))
+        );
+      } catch (error) {
+        return handleDatabaseError(error as Error);
+      }
+    })
+  );
+}
@@ -0,0 +1,55 @@
+import { NextRequest } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { Database } from '@/types/supabase';
+import { redeemRewardSchema } from '@/lib/validations/loyalty';
+import { withAuth, withValidation } from '@/lib/api/middleware';
+import {
+  successResponse,
+  errorResponse,
+  handleDatabaseError,
+  handleNotFound,
+} from '@/lib/api/index';
+
+// POST /api/loyalty/redeem-reward - Spend points on a reward and get its code
+export async function POST(req: NextRequest) {
+  return withAuth(req, (req, session) =>
+    withValidation(req, redeemRewardSchema, async (req, validData) => {
+      try {
+        // Points can only be spent from the signed-in member's own balance
+        if (validData.userId && validData.userId !== session.user.id) {
+          return errorResponse('Access denied', 403);
+        }
+
+        const supabase = createRouteHandlerClient<Database>({ cookies });
+
+        const { data: redemption, error } = await supabase.rpc('redeem_loyalty_reward', {
+          p_reward_id: validData.rewardId,
+        });
+
+        if (error) {
+          if (error.message?.includes('Insufficient loyalty points')) {
+            return errorResponse('Not enough points for this reward', 400, 'INSUFFICIENT_POINTS');
+          }
+          if (error.message?.includes('Reward not found')) {
+            return handleNotFound(`Reward ${validData.rewardId} not found`);
+          }
+          throw error;
+        }
+
+        return successResponse(
+          {
+            redemptionId: redemption.redemption_id,
+            code: redemption.code,
+            rewardId: redemption.reward_id,
+            pointsCost: redemption.points_cost,
+            availablePoints: redemption.available_points,
+          },
+          201
+        );
+      } catch (error) {
+        return handleDatabaseError(error as Error);
+      }
+    })
+  );
+}
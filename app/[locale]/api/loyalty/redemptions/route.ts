@@ -0,0 +1,35 @@
+import { NextRequest } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { Database } from '@/types/supabase';
+import { withAuth } from '@/lib/api/middleware';
+import { successResponse, handleDatabaseError } from '@/lib/api/index';
+import { loyaltyService } from '@/lib/loyalty/loyalty-service';
+
+// GET /api/loyalty/redemptions - Redeemed rewards the member can still apply at checkout
+export async function GET(req: NextRequest) {
+  return withAuth(req, async (req, session) => {
+    try {
+      const supabase = createRouteHandlerClient<Database>({ cookies });
+
+      const { data: redemptions, error } = await supabase
+        .from('loyalty_redemptions')
+        .select('*')
+        .eq('user_id', session.user.id)
+        .eq('status', 'active')
+        .in('reward_type', ['discount', 'free_shipping'])
+        .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        throw error;
+      }
+
+      return successResponse(
+        (redemptions || []).map((redemption) => loyaltyService.toAppliedReward(redemption))
+      );
+    } catch (error) {
+      return handleDatabaseError(error as Error);
+    }
+  });
+}
@@ -0,0 +1,45 @@
+import { NextRequest } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { Database } from '@/types/supabase';
+import { withAuth } from '@/lib/api/middleware';
+import { successResponse, errorResponse, handleDatabaseError } from '@/lib/api/index';
+import { loyaltyService } from '@/lib/loyalty/loyalty-service';
+
+// GET /api/loyalty/user/[id] - Points balance and tier of a member
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  return withAuth(req, async (req, session) => {
+    try {
+      const supabase = createRouteHandlerClient<Database>({ cookies });
+      const { id: userId } = await params;
+
+      // Members can only see their own balance (unless admin)
+      if (userId !== session.user.id) {
+        const { data: user } = await supabase
+          .from('users')
+          .select('role')
+          .eq('id', session.user.id)
+          .single();
+
+        if (user?.role !== 'admin') {
+          return errorResponse('Access denied', 403);
+        }
+      }
+
+      const { data: account, error } = await supabase
+        .from('loyalty_accounts')
+        .select('*')
+        .eq('user_id', userId)
+        .single();
+
+      // No account yet means the member has not earned anything
+      if (error && error.code !== 'PGRST116') {
+        throw error;
+      }
+
+      return successResponse(loyaltyService.toUserLoyalty(userId, account));
+    } catch (error) {
+      return handleDatabaseError(error as Error);
+    }
+  });
+}
@@ -0,0 +1,30 @@
+import { NextRequest } from 'next/server';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { withValidation } from '@/lib/api/middleware';
+import { successResponse, errorResponse, handleServerError } from '@/lib/api/index';
+import { newsletterTokenSchema } from '@/lib/validations/newsletter';
+import { confirmNewsletterSubscription } from '@/lib/newsletter/newsletter-subscriptions';
+
+// POST /api/newsletter/confirm - Confirm a subscription with the token from the opt-in email
+export async function POST(req: NextRequest) {
+  return withValidation(req, newsletterTokenSchema, async (req, validData) => {
+    try {
+      const result = await confirmNewsletterSubscription(
+        createServiceRoleClient(),
+        validData.token
+      );
+
+      if (result.error) {
+        return errorResponse(result.error.message, result.error.status, result.error.code);
+      }
+
+      return successResponse({
+        message: 'Your subscription is confirmed',
+        email: result.data.email,
+        locale: result.data.locale,
+      });
+    } catch (error) {
+      return handleServerError(error as Error);
+    }
+  });
+}
@@ -0,0 +1,38 @@
+import { NextRequest } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { Database } from '@/types/supabase';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { withRateLimit, withValidation } from '@/lib/api/middleware';
+import { successResponse, handleServerError } from '@/lib/api/index';
+import { newsletterSubscribeSchema, NewsletterSubscribe } from '@/lib/validations/newsletter';
+import { subscribeToNewsletter } from '@/lib/newsletter/newsletter-subscriptions';
+
+// POST /api/newsletter - Sign up for the newsletter; the address is added once confirmed by email
+export async function POST(req: NextRequest) {
+  return withRateLimit(req, (req) =>
+    withValidation(req, newsletterSubscribeSchema, async (req, validData) => {
+      try {
+        // Signed-in subscribers are linked to their account
+        const authClient = createRouteHandlerClient<Database>({ cookies });
+        const {
+          data: { session },
+        } = await authClient.auth.getSession();
+
+        // The schema has already filled in the default locale and topics
+        await subscribeToNewsletter(
+          createServiceRoleClient(),
+          validData as NewsletterSubscribe,
+          session?.user.id
+        );
+
+        // Same answer for new and existing subscribers so the list can't be probed
+        return successResponse({
+          message: 'Check your inbox to confirm your subscription',
+        });
+      } catch (error) {
+        return handleServerError(error as Error);
+      }
+    })
+  );
+}
@@ -0,0 +1,26 @@
+import { NextRequest } from 'next/server';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { withValidation } from '@/lib/api/middleware';
+import { successResponse, errorResponse, handleServerError } from '@/lib/api/index';
+import { newsletterTokenSchema } from '@/lib/validations/newsletter';
+import { unsubscribeFromNewsletter } from '@/lib/newsletter/newsletter-subscriptions';
+
+// POST /api/newsletter/unsubscribe - Leave the newsletter with the token from any newsletter email
+export async function POST(req: NextRequest) {
+  return withValidation(req, newsletterTokenSchema, async (req, validData) => {
+    try {
+      const result = await unsubscribeFromNewsletter(createServiceRoleClient(), validData.token);
+
+      if (result.error) {
+        return errorResponse(result.error.message, result.error.status, result.error.code);
+      }
+
+      return successResponse({
+        message: 'You have been unsubscribed',
+        email: result.data.email,
+      });
+    } catch (error) {
+      return handleServerError(error as Error);
+    }
+  });
+}
@@ -2,118 +2,135 @@ import { NextRequest } from 'next/server';
 import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
 import { cookies } from 'next/headers';
 import { Database } from '@/types/supabase';
-import { withAuth } from '@/lib/api/middleware';
+import { withAuth, withValidation } from '@/lib/api/middleware';
 import {
   successResponse,
   errorResponse,
   handleDatabaseError,
   handleNotFound,
 } from '@/lib/api/index';
+import { createReturnRequestSchema } from '@/lib/validations/return';
+import { notifyReturnStatus } from '@/lib/returns/return-notifications';
 
-// POST /api/orders/[id]/return - Request order return
-export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+// GET /api/orders/[id]/return - List return requests (with items) for an order
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   return withAuth(req, async (req, session) => {
     try {
       const supabase = createRouteHandlerClient<Database>({ cookies });
-      const userId = session.user.id;
       const { id: orderId } = await params;
 
-      const body = await req.json();
-      const { reason } = body;
+      const { data: returns, error } = await supabase
+        .from('return_requests')
+        .select(
+          `
+          *,
+          return_request_items (
+            id,
+            order_item_id,
+            quantity,
+            condition,
+            reason
+          )
+        `
+        )
+        .eq('order_id', orderId)
+        .eq('user_id', session.user.id)
+        .order('created_at', { ascending: false });
 
-      if (!reason || reason.trim().length === 0) {
-        return errorResponse('Return reason is required', 400);
+      if (error) {
+        throw error;
       }
 
-      // Verify the order belongs to the user and can be returned
-      const { data: order, error: fetchError } = await supabase
-        .from('orders')
-        .select('id, status, created_at')
-        .eq('id', orderId)
-        .eq('user_id', userId)
-        .single();
+      return successResponse({ returns: returns || [] });
+    } catch (error) {
+      return handleDatabaseError(error as Error);
+    }
+  });
+}
 
-      if (fetchError || !order) {
-        return handleNotFound('Order not found');
-      }
+// POST /api/orders/[id]/return - Request a return for some or all items of an order
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  return withAuth(req, (req, session) =>
+    withValidation(req, createReturnRequestSchema, async (req, validData) => {
+      try {
+        const supabase = createRouteHandlerClient<Database>({ cookies });
+        const userId = session.user.id;
+        const { id: orderId } = await params;
+        const { reason, items } = validData;
 
-      // Check if order can be returned (only delivered orders within return window)
-      if (order.status !== 'delivered') {
-        return errorResponse('Only delivered orders can be returned.', 400);
-      }
+        // Verify the order belongs to the user and can be returned
+        const { data: order, error: fetchError } = await supabase
+          .from('orders')
+          .select('id, status')
+          .eq('id', orderId)
+          .eq('user_id', userId)
+          .single();
 
-      // Check return window (30 days)
-      const orderDate = new Date(order.created_at);
-      const returnDeadline = new Date(orderDate.getTime() + 30 * 24 * 60 * 60 * 1000);
-      const now = new Date();
+        if (fetchError || !order) {
+          return handleNotFound('Order not found');
+        }
 
-      if (now > returnDeadline) {
-        return errorResponse(
-          'Return window has expired. Returns must be requested within 30 days of delivery.',
-          400
-        );
-      }
+        // Check if order can be returned (only delivered orders)
+        if (order.status !== 'delivered') {
+          return errorResponse('Only delivered orders can be returned.', 400);
+        }
 
-      // Check if return request already exists
-      const { data: existingReturn, error: returnCheckError } = await supabase
-        .from('return_requests')
-        .select('id, status')
-        .eq('order_id', orderId)
-        .single();
-
-      if (returnCheckError && returnCheckError.code !== 'PGRST116') {
-        throw returnCheckError;
-      }
-
-      if (existingReturn) {
-        return errorResponse(
-          `A return request already exists for this order with status: ${existingReturn.status}`,
-          400
+        // Items are checked against what is still returnable, and the order against
+        // the 30-day return window, in the database
+        const { data: returnRequest, error: createError } = await supabase.rpc(
+          'create_return_request',
+          {
+            p_order_id: orderId,
+            p_reason: reason,
+            p_items: items
+              ? items.map((item) => ({
+                  order_item_id: item.orderItemId,
+                  quantity: item.quantity,
+                  condition: item.condition,
+                  reason: item.reason,
+                }))
+              : null,
+          }
         );
-      }
 
-      // Create return request
-      const { data: returnRequest, error: createError } = await supabase
-        .from('return_requests')
-        .insert({
-          order_id: orderId,
-          user_id: userId,
-          reason: reason.trim(),
-          status: 'pending',
-        })
-        .select()
-        .single();
+        if (createError) {
+          if (createError.message?.startsWith('Return ')) {
+            return errorResponse(createError.message, 400, 'INVALID_RETURN');
+          }
+          throw createError;
+        }
 
-      if (createError) {
-        throw createError;
-      }
+        // Send return request email to admin
+        try {
+          await fetch(`${process.env.NEXT_PUBLIC_APP_URL}/api/emails/return-request`, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+              orderId,
+              returnRequestId: returnRequest.id,
+              reason,
+            }),
+          });
+        } catch (emailError) {
+          console.error('Failed to send return request email:', emailError);
+          // Don't fail the return request if email fails
+        }
 
-      // Send return request email to admin
-      try {
-        await fetch(`${process.env.NEXT_PUBLIC_APP_URL}/api/emails/return-request`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            orderId,
-            returnRequestId: returnRequest.id,
-            reason,
-          }),
+        await notifyReturnStatus(supabase, returnRequest.id);
+
+        return successResponse({
+          message: 'Return request submitted successfully',
+          returnRequestId: returnRequest.id,
+          rmaNumber: returnRequest.rma_number,
+          refundAmount: Number(returnRequest.refund_amount),
+          status: returnRequest.status,
         });
-      } catch (emailError) {
-        console.error('Failed to send return request email:', emailError);
-        // Don't fail the return request if email fails
+      } catch (error) {
+        console.error('Error creating return request:', error);
+        return handleDatabaseError(error as Error);
       }
-
-      return successResponse({
-        message: 'Return request submitted successfully',
-        returnRequestId: returnRequest.id,
-        status: returnRequest.status,
-      });
-    } catch (error) {
-      console.error('Error creating return request:', error);
-      return handleDatabaseError(error as Error);
-    }
-  });
+    })
+  );
 }
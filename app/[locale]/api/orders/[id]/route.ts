@@ -4,6 +4,7 @@ import { cookies } from 'next/headers';
 import { Database } from '@/types/supabase';
 import { withAuth } from '@/lib/api/middleware';
 import { successResponse, handleDatabaseError, handleNotFound } from '@/lib/api/index';
+import { calculateTax, getCheckoutSettings } from '@/lib/settings/store-settings';
 
 // GET /api/orders/[id] - Get a specific order
 export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
@@ -21,6 +22,11 @@ export async function GET(req: NextRequest, { params }: { params: Promise<{ id:
           order_number,
           status,
           total,
+          subtotal,
+          shipping_method,
+          shipping_cost,
+          tax_amount,
+          currency,
           shipping_address,
           payment_intent_id,
           estimated_delivery,
@@ -56,14 +62,20 @@ export async function GET(req: NextRequest, { params }: { params: Promise<{ id:
         throw error;
       }
 
-      // Calculate order summary
+      // Orders store the quote they were placed with; older orders are estimated
       const subtotal =
-        order.order_items?.reduce((sum, item) => {
+        order.subtotal ??
+        (order.order_items?.reduce((sum, item) => {
           return sum + item.price * item.quantity;
-        }, 0) || 0;
+        }, 0) ||
+          0);
 
-      const shipping = 0; // Calculate based on shipping method
-      const tax = subtotal * 0.08; // 8% tax
+      let tax = order.tax_amount;
+      if (tax === null) {
+        const { taxRate, pricesIncludeTax } = await getCheckoutSettings(supabase);
+        tax = calculateTax(subtotal, taxRate, pricesIncludeTax);
+      }
+      const shipping = order.shipping_cost ?? 0;
       const total = order.total;
 
       const orderWithSummary = {
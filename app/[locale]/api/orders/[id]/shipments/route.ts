@@ -13,7 +13,7 @@ import {
 import { z } from 'zod';
 
 const createShipmentSchema = z.object({
-  carrier: z.enum(['ups', 'fedex', 'usps', 'dhl']),
+  carrier: z.enum(['ups', 'fedex', 'usps', 'dhl', 'israel_post', 'hfd']),
   serviceType: z.string().optional(),
   trackingNumber: z.string().optional(),
   estimatedDelivery: z.string().optional(),
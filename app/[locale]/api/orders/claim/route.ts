@@ -0,0 +1,58 @@
+import { NextRequest } from 'next/server';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { orderLookupSchema } from '@/lib/validations/checkout';
+import { withAuth, withValidation } from '@/lib/api/middleware';
+import { successResponse, errorResponse, handleDatabaseError } from '@/lib/api/index';
+import { getGuestOrder } from '@/lib/checkout/order-lookup';
+
+// POST /api/orders/claim - Attach a guest order to the signed-in account
+export async function POST(req: NextRequest) {
+  return withAuth(req, (req, session) =>
+    withValidation(req, orderLookupSchema, async (req, validData) => {
+      try {
+        // Claiming bypasses RLS, so only the service role may do it, and only
+        // once the signed link proves the order was shared with this shopper
+        const supabase = createServiceRoleClient();
+
+        const { data: order, error: lookupError } = await getGuestOrder(
+          supabase,
+          validData.orderId,
+          validData.token
+        );
+
+        if (lookupError) {
+          return errorResponse(lookupError.message, lookupError.status, lookupError.code);
+        }
+
+        if (order.user_id) {
+          return errorResponse('This order is already linked to an account', 409, 'ORDER_CLAIMED');
+        }
+
+        if (order.guest_email !== session.user.email?.toLowerCase()) {
+          return errorResponse(
+            'Sign in with the email address the order was placed with',
+            403,
+            'EMAIL_MISMATCH'
+          );
+        }
+
+        // The function matches the verified sign-in email too
+        const { error } = await supabase.rpc('claim_guest_order', {
+          p_order_id: validData.orderId,
+          p_user_id: session.user.id,
+        });
+
+        if (error) {
+          if (error.message.startsWith('Order cannot be claimed')) {
+            return errorResponse('This order cannot be claimed', 409, 'ORDER_CLAIMED');
+          }
+          throw error;
+        }
+
+        return successResponse({ orderId: validData.orderId, claimed: true });
+      } catch (error) {
+        return handleDatabaseError(error as Error);
+      }
+    })
+  );
+}
@@ -0,0 +1,37 @@
+import { NextRequest } from 'next/server';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { orderLookupSchema } from '@/lib/validations/checkout';
+import { withRateLimit, withValidation } from '@/lib/api/middleware';
+import { successResponse, errorResponse, handleDatabaseError } from '@/lib/api/index';
+import { getGuestOrder } from '@/lib/checkout/order-lookup';
+
+// POST /api/orders/lookup - View a guest order from its signed link
+export async function POST(req: NextRequest) {
+  return withRateLimit(req, (req) =>
+    withValidation(req, orderLookupSchema, async (req, validData) => {
+      try {
+        const supabase = createServiceRoleClient();
+
+        const { data: order, error } = await getGuestOrder(
+          supabase,
+          validData.orderId,
+          validData.token
+        );
+
+        if (error) {
+          return errorResponse(error.message, error.status, error.code);
+        }
+
+        const { user_id, ...guestOrder } = order;
+
+        return successResponse({
+          ...guestOrder,
+          claimed: Boolean(user_id),
+          itemCount: order.order_items?.length || 0,
+        });
+      } catch (error) {
+        return handleDatabaseError(error as Error);
+      }
+    })
+  );
+}
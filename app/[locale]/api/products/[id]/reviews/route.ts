@@ -0,0 +1,198 @@
+import { NextRequest } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { Database } from '@/types/supabase';
+import { ApprovedProductReview, ProductReviewSummary } from '@/types/shop';
+import type { Review } from '@/components/products/detail/product-reviews';
+import { createReviewSchema, reviewQuerySchema } from '@/lib/validations/review';
+import { withAuth, withValidation, withQueryValidation } from '@/lib/api/middleware';
+import {
+  successResponse,
+  errorResponse,
+  handleServerError,
+  handleDatabaseError,
+  handleNotFound,
+} from '@/lib/api/index';
+import { USE_STUBS, mockProducts, mockProductReviews } from '@/lib/stubs';
+import { summarizeReviews } from '@/lib/utils/shop-helpers';
+
+// Shape a review row the way the product page renders it
+function toReview(row: ApprovedProductReview): Review {
+  return {
+    id: row.id,
+    user: {
+      id: row.user_id,
+      name: row.reviewer_name || 'Customer',
+      avatar_url: row.reviewer_avatar_url || undefined,
+    },
+    rating: row.rating,
+    title: row.title,
+    content: row.content,
+    created_at: row.created_at,
+    helpful_count: row.helpful_count,
+    unhelpful_count: row.unhelpful_count,
+    verified_purchase: row.verified_purchase,
+  };
+}
+
+// GET /api/products/[id]/reviews - Approved reviews with rating aggregates
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  return withQueryValidation(req, reviewQuerySchema, async (req, data) => {
+    const { limit = 10, offset = 0, sortBy = 'newest', rating, verified } = data;
+
+    // Handle stub mode
+    if (USE_STUBS) {
+      try {
+        if (!mockProducts.some((product) => product.id === id)) {
+          return handleNotFound(`Product with ID ${id} not found`);
+        }
+
+        const approved = mockProductReviews.filter(
+          (review) => review.product_id === id && review.status === 'approved'
+        );
+        const matching = approved
+          .filter((review) => !rating || review.rating === rating)
+          .filter((review) => verified === undefined || review.verified_purchase === verified)
+          .sort((a, b) => {
+            switch (sortBy) {
+              case 'helpful':
+                return b.helpful_count - a.helpful_count;
+              case 'rating_desc':
+                return b.rating - a.rating;
+              case 'rating_asc':
+                return a.rating - b.rating;
+              default:
+                return b.created_at.localeCompare(a.created_at);
+            }
+          });
+
+        return successResponse({
+          reviews: matching.slice(offset, offset + limit).map(({ users, ...review }) =>
+            toReview({
+              ...review,
+              reviewer_name: users.full_name,
+              reviewer_avatar_url: users.avatar_url,
+            })
+          ),
+          ...summarizeReviews(approved),
+          total: matching.length,
+          limit,
+          offset,
+          hasMore: matching.length > offset + limit,
+        });
+      } catch (error) {
+        return handleServerError(error as Error);
+      }
+    }
+
+    try {
+      const supabase = createRouteHandlerClient<Database>({ cookies });
+
+      let query = supabase
+        .from('approved_product_reviews')
+        .select('*', { count: 'exact' })
+        .eq('product_id', id);
+
+      if (rating) {
+        query = query.eq('rating', rating);
+      }
+
+      if (verified !== undefined) {
+        query = query.eq('verified_purchase', verified);
+      }
+
+      switch (sortBy) {
+        case 'helpful':
+          query = query.order('helpful_count', { ascending: false });
+          break;
+        case 'rating_desc':
+          query = query.order('rating', { ascending: false });
+          break;
+        case 'rating_asc':
+          query = query.order('rating', { ascending: true });
+          break;
+      }
+
+      const {
+        data: reviews,
+        error,
+        count,
+      } = await query.order('created_at', { ascending: false }).range(offset, offset + limit - 1);
+
+      if (error) {
+        throw error;
+      }
+
+      const { data: summary, error: summaryError } = await supabase.rpc(
+        'get_product_review_summary',
+        { p_product_id: id }
+      );
+
+      if (summaryError) {
+        throw summaryError;
+      }
+
+      return successResponse({
+        reviews: (reviews || []).map(toReview),
+        ...(summary as ProductReviewSummary),
+        total: count || 0,
+        limit,
+        offset,
+        hasMore: (count || 0) > offset + limit,
+      });
+    } catch (error) {
+      return handleDatabaseError(error as Error);
+    }
+  });
+}
+
+// POST /api/products/[id]/reviews - Submit a review (held for moderation)
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  return withAuth(req, (req, session) =>
+    withValidation(req, createReviewSchema, async (req, validData) => {
+      try {
+        const supabase = createRouteHandlerClient<Database>({ cookies });
+
+        // Check if product exists
+        const { error: productError } = await supabase
+          .from('products')
+          .select('id')
+          .eq('id', id)
+          .single();
+
+        if (productError) {
+          if (productError.code === 'PGRST116') {
+            return handleNotFound(`Product with ID ${id} not found`);
+          }
+          throw productError;
+        }
+
+        // Verified-purchase flag, status and vote counts are set by the database
+        const { data: review, error } = await supabase
+          .from('product_reviews')
+          .insert({
+            product_id: id,
+            user_id: session.user.id,
+            rating: validData.rating,
+            title: validData.title,
+            content: validData.content,
+          })
+          .select()
+          .single();
+
+        if (error) {
+          if (error.code === '23505') {
+            return errorResponse('You have already reviewed this product', 409, 'DUPLICATE_REVIEW');
+          }
+          throw error;
+        }
+
+        return successResponse(review, 201);
+      } catch (error) {
+        return handleDatabaseError(error as Error);
+      }
+    })
+  );
+}
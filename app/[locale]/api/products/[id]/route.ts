@@ -10,7 +10,7 @@ import {
   handleDatabaseError,
   handleNotFound,
 } from '@/lib/api/index';
-import { USE_STUBS, mockProducts, mockCategories } from '@/lib/stubs';
+import { USE_STUBS, mockProducts, mockCategories, mockProductVariants } from '@/lib/stubs';
 
 // GET /api/products/[id] - Get a single product by ID
 export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
@@ -32,6 +32,7 @@ export async function GET(req: NextRequest, { params }: { params: Promise<{ id:
       return successResponse({
         ...product,
         categories: category ? { id: category.id, name: category.name } : null,
+        variants: mockProductVariants.filter((variant) => variant.product_id === product.id),
       });
     } catch (error) {
       return handleServerError(error as Error);
@@ -41,10 +42,10 @@ export async function GET(req: NextRequest, { params }: { params: Promise<{ id:
   try {
     const supabase = createRouteHandlerClient<Database>({ cookies });
 
-    // Get the product with its category
+    // Get the product with its category and variants
     const { data: product, error } = await supabase
       .from('products')
-      .select('*, categories(id, name)')
+      .select('*, categories(id, name), product_variants(*)')
       .eq('id', id)
       .single();
 
@@ -55,7 +56,12 @@ export async function GET(req: NextRequest, { params }: { params: Promise<{ id:
       throw error;
     }
 
-    return successResponse(product);
+    const { product_variants: variants, ...productData } = product;
+
+    return successResponse({
+      ...productData,
+      variants: (variants || []).filter((variant: { is_active: boolean }) => variant.is_active),
+    });
   } catch (error) {
     return handleDatabaseError(error as Error);
   }
@@ -0,0 +1,81 @@
+import { NextRequest } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { Database } from '@/types/supabase';
+import { updateProductVariantSchema } from '@/lib/validations/product';
+import { withValidation, withAdmin } from '@/lib/api/middleware';
+import { successResponse, handleDatabaseError, handleNotFound } from '@/lib/api/index';
+
+type VariantParams = { params: Promise<{ id: string; variantId: string }> };
+
+// PUT /api/products/[id]/variants/[variantId] - Update stock, price or status (admin only)
+export async function PUT(req: NextRequest, { params }: VariantParams) {
+  const { id, variantId } = await params;
+  return withAdmin(req, (req, session) =>
+    withValidation(req, updateProductVariantSchema, async (req, validData) => {
+      try {
+        const supabase = createRouteHandlerClient<Database>({ cookies });
+
+        const { data: variant, error } = await supabase
+          .from('product_variants')
+          .update({
+            ...validData,
+            updated_at: new Date().toISOString(),
+          })
+          .eq('id', variantId)
+          .eq('product_id', id)
+          .select()
+          .single();
+
+        if (error) {
+          if (error.code === 'PGRST116') {
+            return handleNotFound(`Variant with ID ${variantId} not found`);
+          }
+          throw error;
+        }
+
+        return successResponse(variant);
+      } catch (error) {
+        return handleDatabaseError(error as Error);
+      }
+    })
+  );
+}
+
+// DELETE /api/products/[id]/variants/[variantId] - Delete a variant (admin only)
+export async function DELETE(req: NextRequest, { params }: VariantParams) {
+  const { id, variantId } = await params;
+  return withAdmin(req, async (req, session) => {
+    try {
+      const supabase = createRouteHandlerClient<Database>({ cookies });
+
+      // Check if variant exists
+      const { data: existingVariant, error: checkError } = await supabase
+        .from('product_variants')
+        .select('id')
+        .eq('id', variantId)
+        .eq('product_id', id)
+        .single();
+
+      if (checkError) {
+        if (checkError.code === 'PGRST116') {
+          return handleNotFound(`Variant with ID ${variantId} not found`);
+        }
+        throw checkError;
+      }
+
+      // Order history keeps the SKU snapshot; carts holding this variant are cleared
+      const { error } = await supabase.from('product_variants').delete().eq('id', variantId);
+
+      if (error) {
+        throw error;
+      }
+
+      return successResponse({
+        message: `Variant with ID ${existingVariant.id} deleted successfully`,
+      });
+    } catch (error) {
+      return handleDatabaseError(error as Error);
+    }
+  });
+}
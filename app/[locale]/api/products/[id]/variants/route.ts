@@ -0,0 +1,110 @@
+import { NextRequest } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { Database } from '@/types/supabase';
+import { createProductVariantSchema } from '@/lib/validations/product';
+import { withValidation, withAdmin } from '@/lib/api/middleware';
+import {
+  successResponse,
+  errorResponse,
+  handleServerError,
+  handleDatabaseError,
+  handleNotFound,
+} from '@/lib/api/index';
+import { USE_STUBS, mockProducts, mockProductVariants } from '@/lib/stubs';
+import { generateVariantSku } from '@/lib/utils/shop-helpers';
+
+// GET /api/products/[id]/variants - List a product's active variants
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  // Handle stub mode
+  if (USE_STUBS) {
+    try {
+      if (!mockProducts.some((product) => product.id === id)) {
+        return handleNotFound(`Product with ID ${id} not found`);
+      }
+
+      return successResponse(
+        mockProductVariants.filter((variant) => variant.product_id === id && variant.is_active)
+      );
+    } catch (error) {
+      return handleServerError(error as Error);
+    }
+  }
+
+  try {
+    const supabase = createRouteHandlerClient<Database>({ cookies });
+
+    const { data: variants, error } = await supabase
+      .from('product_variants')
+      .select('*')
+      .eq('product_id', id)
+      .eq('is_active', true)
+      .order('size')
+      .order('color');
+
+    if (error) {
+      throw error;
+    }
+
+    return successResponse(variants || []);
+  } catch (error) {
+    return handleDatabaseError(error as Error);
+  }
+}
+
+// POST /api/products/[id]/variants - Add a variant to a product (admin only)
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  return withAdmin(req, (req, session) =>
+    withValidation(req, createProductVariantSchema, async (req, validData) => {
+      try {
+        const supabase = createRouteHandlerClient<Database>({ cookies });
+
+        // Check if product exists
+        const { data: product, error: productError } = await supabase
+          .from('products')
+          .select('id')
+          .eq('id', id)
+          .single();
+
+        if (productError) {
+          if (productError.code === 'PGRST116') {
+            return handleNotFound(`Product with ID ${id} not found`);
+          }
+          throw productError;
+        }
+
+        const { data: variant, error } = await supabase
+          .from('product_variants')
+          .insert({
+            product_id: product.id,
+            sku: validData.sku || generateVariantSku(product.id, validData.size, validData.color),
+            size: validData.size || null,
+            color: validData.color || null,
+            price_override: validData.price_override ?? null,
+            inventory_count: validData.inventory_count ?? 0,
+            is_active: validData.is_active ?? true,
+          })
+          .select()
+          .single();
+
+        if (error) {
+          if (error.code === '23505') {
+            return errorResponse(
+              'A variant with this SKU or size/color combination already exists',
+              409,
+              'DUPLICATE_VARIANT'
+            );
+          }
+          throw error;
+        }
+
+        return successResponse(variant, 201);
+      } catch (error) {
+        return handleDatabaseError(error as Error);
+      }
+    })
+  );
+}
@@ -0,0 +1,97 @@
+import { NextRequest } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { Database } from '@/types/supabase';
+import { reviewVoteSchema } from '@/lib/validations/review';
+import { withAuth, withValidation } from '@/lib/api/middleware';
+import {
+  successResponse,
+  errorResponse,
+  handleDatabaseError,
+  handleNotFound,
+} from '@/lib/api/index';
+
+type VoteParams = { params: Promise<{ id: string }> };
+
+// POST /api/reviews/[id]/vote - Mark a review as helpful or unhelpful
+export async function POST(req: NextRequest, { params }: VoteParams) {
+  const { id } = await params;
+  return withAuth(req, (req, session) =>
+    withValidation(req, reviewVoteSchema, async (req, validData) => {
+      try {
+        const supabase = createRouteHandlerClient<Database>({ cookies });
+
+        const { data: review, error: reviewError } = await supabase
+          .from('product_reviews')
+          .select('id, user_id')
+          .eq('id', id)
+          .eq('status', 'approved')
+          .single();
+
+        if (reviewError) {
+          if (reviewError.code === 'PGRST116') {
+            return handleNotFound(`Review with ID ${id} not found`);
+          }
+          throw reviewError;
+        }
+
+        if (review.user_id === session.user.id) {
+          return errorResponse('You cannot vote on your own review', 403, 'OWN_REVIEW');
+        }
+
+        // A second vote from the same user replaces the first
+        const { error } = await supabase.from('review_votes').upsert(
+          {
+            review_id: id,
+            user_id: session.user.id,
+            is_helpful: validData.helpful,
+          },
+          { onConflict: 'review_id,user_id' }
+        );
+
+        if (error) {
+          throw error;
+        }
+
+        // Counts are refreshed by a trigger on review_votes
+        const { data: updatedReview, error: countError } = await supabase
+          .from('product_reviews')
+          .select('id, helpful_count, unhelpful_count')
+          .eq('id', id)
+          .single();
+
+        if (countError) {
+          throw countError;
+        }
+
+        return successResponse(updatedReview);
+      } catch (error) {
+        return handleDatabaseError(error as Error);
+      }
+    })
+  );
+}
+
+// DELETE /api/reviews/[id]/vote - Withdraw a helpfulness vote
+export async function DELETE(req: NextRequest, { params }: VoteParams) {
+  const { id } = await params;
+  return withAuth(req, async (req, session) => {
+    try {
+      const supabase = createRouteHandlerClient<Database>({ cookies });
+
+      const { error } = await supabase
+        .from('review_votes')
+        .delete()
+        .eq('review_id', id)
+        .eq('user_id', session.user.id);
+
+      if (error) {
+        throw error;
+      }
+
+      return successResponse({ message: 'Vote removed successfully' });
+    } catch (error) {
+      return handleDatabaseError(error as Error);
+    }
+  });
+}
@@ -0,0 +1,106 @@
+import { NextRequest } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { Database } from '@/types/supabase';
+import { searchRequestSchema } from '@/lib/validations/search';
+import { withValidation } from '@/lib/api/middleware';
+import { successResponse, handleServerError, handleDatabaseError } from '@/lib/api/index';
+import { USE_STUBS, mockFashionProducts, mockCategories, mockProductReviews } from '@/lib/stubs';
+import { searchService, buildSearchFacets, SearchResult } from '@/lib/search/search-service';
+import { summarizeReviews } from '@/lib/utils/shop-helpers';
+
+// Fields matched by the in-memory stub search
+const STUB_SEARCH_FIELDS = ['name', 'description', 'material', 'clothing_type'];
+
+// POST /api/search - Typo-tolerant product search with facets and suggestions
+export async function POST(req: NextRequest) {
+  return withValidation(req, searchRequestSchema, async (req, data) => {
+    const { query = '', filters = {}, limit = 20, offset = 0 } = data;
+
+    // Handle stub mode
+    if (USE_STUBS) {
+      try {
+        const matched: SearchResult[] = searchService
+          .fuzzySearch(mockFashionProducts, query, STUB_SEARCH_FIELDS)
+          .map((product) => {
+            const category = mockCategories.find((cat) => cat.id === product.category_id);
+            const { averageRating, totalReviews } = summarizeReviews(
+              mockProductReviews.filter(
+                (review) => review.product_id === product.id && review.status === 'approved'
+              )
+            );
+            return {
+              id: product.id,
+              name: product.name,
+              description: product.description || '',
+              price: product.price,
+              image_url: product.image_url || '',
+              category_id: product.category_id,
+              inventory_count: product.inventory_count,
+              rating: totalReviews > 0 ? averageRating : undefined,
+              relevanceScore: product.relevanceScore ?? 0,
+              category: category ? { id: category.id, name: category.name } : undefined,
+            };
+          });
+
+        // Category facet ignores the category filter so shoppers can switch categories
+        const filtered = searchService.applyFilters(matched, { ...filters, categories: undefined });
+        const results = searchService.applyFilters(filtered, {
+          categories: filters.categories,
+          sortBy: filters.sortBy,
+        });
+
+        return successResponse({
+          results: results.slice(offset, offset + limit),
+          total: results.length,
+          facets: buildSearchFacets(filtered, results),
+          suggestions: query ? searchService.generateSuggestions(query, mockFashionProducts) : [],
+          query,
+          filters,
+        });
+      } catch (error) {
+        return handleServerError(error as Error);
+      }
+    }
+
+    try {
+      const supabase = createRouteHandlerClient<Database>({ cookies });
+
+      const { data: searchData, error } = await supabase.rpc('search_products', {
+        p_query: query,
+        p_terms: searchService.tokenize(query),
+        p_category_ids: filters.categories?.length ? filters.categories : null,
+        p_min_price: filters.priceRange?.min ?? null,
+        p_max_price: filters.priceRange?.max ?? null,
+        p_in_stock: filters.inStock ?? false,
+        p_sort: filters.sortBy || 'relevance',
+        p_limit: limit,
+        p_offset: offset,
+        p_min_rating: filters.rating ?? null,
+      });
+
+      if (error) {
+        return handleDatabaseError(error);
+      }
+
+      // Suggestions are a nice-to-have; a failure here should not fail the search
+      let suggestions: string[] = [];
+      if (query) {
+        const { data: suggestionRows } = await supabase.rpc('search_suggestions', {
+          p_query: query,
+          p_limit: 5,
+        });
+        suggestions = (suggestionRows || []).map((row: { suggestion: string }) => row.suggestion);
+      }
+
+      return successResponse({
+        ...searchData,
+        suggestions,
+        query,
+        filters,
+      });
+    } catch (error) {
+      return handleServerError(error as Error);
+    }
+  });
+}
@@ -0,0 +1,52 @@
+import { NextRequest } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { Database } from '@/types/supabase';
+import { searchSuggestionsQuerySchema } from '@/lib/validations/search';
+import { withQueryValidation } from '@/lib/api/middleware';
+import { successResponse, handleServerError, handleDatabaseError } from '@/lib/api/index';
+import { USE_STUBS, mockFashionProducts } from '@/lib/stubs';
+import { searchService } from '@/lib/search/search-service';
+
+// GET /api/search/suggestions - Query suggestions for the search box
+export async function GET(req: NextRequest) {
+  return withQueryValidation(req, searchSuggestionsQuerySchema, async (req, { q, limit }) => {
+    const query = String(q ?? '').trim();
+
+    if (!query) {
+      return successResponse({ suggestions: [] });
+    }
+
+    // Handle stub mode
+    if (USE_STUBS) {
+      try {
+        const suggestions = searchService
+          .generateSuggestions(query, mockFashionProducts)
+          .slice(0, limit);
+
+        return successResponse({ suggestions });
+      } catch (error) {
+        return handleServerError(error as Error);
+      }
+    }
+
+    try {
+      const supabase = createRouteHandlerClient<Database>({ cookies });
+
+      const { data, error } = await supabase.rpc('search_suggestions', {
+        p_query: query,
+        p_limit: limit,
+      });
+
+      if (error) {
+        return handleDatabaseError(error);
+      }
+
+      return successResponse({
+        suggestions: (data || []).map((row: { suggestion: string }) => row.suggestion),
+      });
+    } catch (error) {
+      return handleServerError(error as Error);
+    }
+  });
+}
@@ -0,0 +1,18 @@
+import { NextRequest } from 'next/server';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { Database } from '@/types/supabase';
+import { successResponse, handleDatabaseError } from '@/lib/api/index';
+import { getCheckoutSettings } from '@/lib/settings/store-settings';
+
+// GET /api/settings/checkout - Currency, tax rate and shipping options used to price the cart
+export async function GET(req: NextRequest) {
+  try {
+    const supabase = createRouteHandlerClient<Database>({ cookies });
+    const settings = await getCheckoutSettings(supabase);
+
+    return successResponse(settings);
+  } catch (error) {
+    return handleDatabaseError(error as Error);
+  }
+}
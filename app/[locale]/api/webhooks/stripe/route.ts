@@ -1,9 +1,18 @@
 import { NextRequest } from 'next/server';
 import { headers } from 'next/headers';
-import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
-import { cookies } from 'next/headers';
+import { SupabaseClient } from '@supabase/supabase-js';
 import { Database } from '@/types/supabase';
 import { getServerStripe } from '@/lib/stripe/server';
+import { syncStripeRefund } from '@/lib/stripe/refunds';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { releasePaymentIntentReservations } from '@/lib/checkout/inventory-reservations';
+import {
+  createOrderForVerifiedPayment,
+  getPaymentCheckout,
+  REFUNDED_PAYMENT_ERRORS,
+} from '@/lib/checkout/order-creation';
+import { getOrderLookupUrl } from '@/lib/checkout/order-lookup';
+import { sendOrderConfirmation } from '@/lib/notifications/notification-service';
 import Stripe from 'stripe';
 
 const stripe = getServerStripe();
@@ -28,7 +37,9 @@ export async function POST(req: NextRequest) {
     return new Response(`Webhook Error: ${error.message}`, { status: 400 });
   }
 
-  const supabase = createRouteHandlerClient<Database>({ cookies });
+  // Stripe calls without a session, so RLS would hide every row from the
+  // cookie client; the webhook runs with the service role
+  const supabase = createServiceRoleClient();
 
   try {
     switch (event.type) {
@@ -44,6 +55,10 @@ export async function POST(req: NextRequest) {
         await handlePaymentIntentCanceled(event.data.object as Stripe.PaymentIntent, supabase);
         break;
 
+      case 'charge.refunded':
+        await handleChargeRefunded(event.data.object as Stripe.Charge, supabase);
+        break;
+
       case 'charge.dispute.created':
         await handleChargeDisputeCreated(event.data.object as Stripe.Dispute, supabase);
         break;
@@ -59,9 +74,19 @@ export async function POST(req: NextRequest) {
   }
 }
 
-async function handlePaymentIntentSucceeded(paymentIntent: Stripe.PaymentIntent, supabase: any) {
+async function handlePaymentIntentSucceeded(
+  paymentIntent: Stripe.PaymentIntent,
+  supabase: SupabaseClient<Database>
+) {
   console.log('Payment succeeded:', paymentIntent.id);
 
+  // The checkout page normally creates the order; make sure it exists even if
+  // the shopper never got back there. Failures propagate so Stripe retries.
+  if (!(await createMissingOrder(paymentIntent, supabase))) {
+    await releaseReservations(paymentIntent.id, supabase);
+    return;
+  }
+
   try {
     // Update payment intent status in database
     const { error: updateError } = await supabase
@@ -77,45 +102,99 @@ async function handlePaymentIntentSucceeded(paymentIntent: Stripe.PaymentIntent,
     }
 
     // Update related order status
-    const { data: orders, error: orderError } = await supabase
+    const { error: orderError } = await supabase
       .from('orders')
       .update({
         status: 'processing',
         updated_at: new Date().toISOString(),
       })
-      .eq('payment_intent_id', paymentIntent.id)
-      .select('id, user_id');
+      .eq('payment_intent_id', paymentIntent.id);
 
     if (orderError) {
       console.error('Error updating order status:', orderError);
-      return;
-    }
-
-    // Send order confirmation email if not already sent
-    if (orders && orders.length > 0) {
-      const order = orders[0];
-
-      try {
-        await fetch(`${process.env.NEXT_PUBLIC_APP_URL}/api/emails/order-confirmation`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            orderId: order.id,
-            paymentIntentId: paymentIntent.id,
-          }),
-        });
-      } catch (emailError) {
-        console.error('Failed to send confirmation email:', emailError);
-      }
     }
   } catch (error) {
     console.error('Error in handlePaymentIntentSucceeded:', error);
   }
 }
 
-async function handlePaymentIntentFailed(paymentIntent: Stripe.PaymentIntent, supabase: any) {
+// Create the order from the checkout saved with the payment intent. Does
+// nothing when the checkout page already created it; whoever creates the order
+// sends its confirmation email. Throws when the order couldn't be created so
+// Stripe retries the event. Returns false when there is nothing to create
+// because the payment has been refunded (e.g. it no longer matched the cart or
+// its items sold out after the stock hold expired).
+async function createMissingOrder(
+  paymentIntent: Stripe.PaymentIntent,
+  supabase: SupabaseClient<Database>
+): Promise<boolean> {
+  const saved = await getPaymentCheckout(supabase, paymentIntent.id);
+
+  // Payments from before checkouts were saved are completed by the checkout page
+  if (!saved?.checkout) {
+    return true;
+  }
+
+  const { checkout } = saved;
+  const customer = {
+    userId: saved.userId,
+    guestCartId: saved.userId ? null : paymentIntent.metadata?.guestCartId || null,
+  };
+
+  if (!customer.userId && !customer.guestCartId) {
+    throw new Error(`Payment intent ${paymentIntent.id} has no customer`);
+  }
+
+  const { data: order, error } = await createOrderForVerifiedPayment(supabase, {
+    ...customer,
+    paymentIntentId: paymentIntent.id,
+    details: checkout,
+  });
+
+  if (error && REFUNDED_PAYMENT_ERRORS.includes(error.code)) {
+    return false;
+  }
+
+  if (error) {
+    throw new Error(`Order for payment intent ${paymentIntent.id} failed: ${error.message}`);
+  }
+
+  if (!order.created) {
+    return true;
+  }
+
+  try {
+    if (checkout.guestEmail) {
+      await sendOrderConfirmation(order.orderId, checkout.guestEmail, {
+        customerName: `${checkout.shippingAddress.firstName} ${checkout.shippingAddress.lastName}`,
+        orderNumber: order.orderNumber,
+        total: order.total,
+        estimatedDelivery: order.estimatedDelivery,
+        trackingUrl: getOrderLookupUrl(order.orderId, checkout.guestEmail, checkout.locale),
+      });
+    } else {
+      await fetch(`${process.env.NEXT_PUBLIC_APP_URL}/api/emails/order-confirmation`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          orderId: order.orderId,
+          userEmail: checkout.shippingAddress.email,
+        }),
+      });
+    }
+  } catch (emailError) {
+    console.error('Failed to send confirmation email:', emailError);
+  }
+
+  return true;
+}
+
+async function handlePaymentIntentFailed(
+  paymentIntent: Stripe.PaymentIntent,
+  supabase: SupabaseClient<Database>
+) {
   console.log('Payment failed:', paymentIntent.id);
 
   try {
@@ -132,6 +211,8 @@ async function handlePaymentIntentFailed(paymentIntent: Stripe.PaymentIntent, su
       console.error('Error updating payment intent:', updateError);
     }
 
+    await releaseReservations(paymentIntent.id, supabase);
+
     // Update order status to cancelled (since payment failed)
     const { data: orders, error: orderError } = await supabase
       .from('orders')
@@ -161,7 +242,10 @@ async function handlePaymentIntentFailed(paymentIntent: Stripe.PaymentIntent, su
   }
 }
 
-async function handlePaymentIntentCanceled(paymentIntent: Stripe.PaymentIntent, supabase: any) {
+async function handlePaymentIntentCanceled(
+  paymentIntent: Stripe.PaymentIntent,
+  supabase: SupabaseClient<Database>
+) {
   console.log('Payment canceled:', paymentIntent.id);
 
   try {
@@ -178,6 +262,8 @@ async function handlePaymentIntentCanceled(paymentIntent: Stripe.PaymentIntent,
       console.error('Error updating payment intent:', updateError);
     }
 
+    await releaseReservations(paymentIntent.id, supabase);
+
     // Update order status to canceled and restore inventory
     const { data: orders, error: orderError } = await supabase
       .from('orders')
@@ -204,6 +290,35 @@ async function handlePaymentIntentCanceled(paymentIntent: Stripe.PaymentIntent,
   }
 }
 
+async function handleChargeRefunded(charge: Stripe.Charge, supabase: SupabaseClient<Database>) {
+  console.log('Charge refunded:', charge.id);
+
+  try {
+    const paymentIntentId =
+      typeof charge.payment_intent === 'string' ? charge.payment_intent : charge.payment_intent?.id;
+
+    const { data: order, error: orderError } = await supabase
+      .from('orders')
+      .select('id')
+      .eq('payment_intent_id', paymentIntentId)
+      .single();
+
+    if (orderError || !order) {
+      console.error('No order found for refunded charge:', charge.id);
+      return;
+    }
+
+    // Webhook charges don't include their refunds, so list them to catch dashboard refunds too
+    const refunds = await stripe.refunds.list({ charge: charge.id, limit: 100 });
+
+    for (const refund of refunds.data) {
+      await syncStripeRefund(supabase, refund, order.id);
+    }
+  } catch (error) {
+    console.error('Error in handleChargeRefunded:', error);
+  }
+}
+
 async function handleChargeDisputeCreated(dispute: Stripe.Dispute, supabase: any) {
   console.log('Dispute created:', dispute.id);
 
@@ -233,12 +348,21 @@ async function handleChargeDisputeCreated(dispute: Stripe.Dispute, supabase: any
   }
 }
 
-async function restoreOrderInventory(orderId: string, supabase: any) {
+// Free the stock held for an unpaid payment intent so other shoppers can buy it
+async function releaseReservations(paymentIntentId: string, supabase: SupabaseClient<Database>) {
+  try {
+    await releasePaymentIntentReservations(supabase, paymentIntentId);
+  } catch (error) {
+    console.error('Error releasing inventory reservations:', error);
+  }
+}
+
+async function restoreOrderInventory(orderId: string, supabase: SupabaseClient<Database>) {
   try {
     // Get order items
     const { data: orderItems, error } = await supabase
       .from('order_items')
-      .select('product_id, quantity')
+      .select('product_id, variant_id, quantity')
       .eq('order_id', orderId);
 
     if (error || !orderItems) {
@@ -251,6 +375,7 @@ async function restoreOrderInventory(orderId: string, supabase: any) {
       const { error: updateError } = await supabase.rpc('restore_product_inventory', {
         p_product_id: item.product_id,
         p_quantity: item.quantity,
+        p_variant_id: item.variant_id || null,
       });
 
       if (updateError) {
@@ -0,0 +1,183 @@
+/**
+ * Campaign Content Component (Client Component)
+ *
+ * Loads a campaign once and applies the shop's URL filters and sort
+ * to its products on the client.
+ */
+
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { notFound } from 'next/navigation';
+import { useFormatter, useTranslations } from 'next-intl';
+import { SlidersHorizontal } from 'lucide-react';
+import { CampaignWithProducts } from '@/types/shop';
+import { ShopProductGrid } from '@/components/shop/shop-product-grid';
+import { FilterSortPanel } from '@/components/shop/filter-sort-panel';
+import { GridLayoutToggle } from '@/components/shop/grid-layout-toggle';
+import { useShopFilters, useGridLayout } from '@/lib/hooks/use-shop-state';
+import { filterProducts, sortProducts } from '@/lib/utils/shop-helpers';
+import { OptimizedImage } from '@/components/ui/optimized-image';
+import { Button } from '@/components/ui/button';
+
+interface CampaignContentProps {
+  slug: string;
+}
+
+export function CampaignContent({ slug }: CampaignContentProps) {
+  const t = useTranslations('shop');
+  const format = useFormatter();
+  const { filters, sort } = useShopFilters();
+  const { gridLayout, setGridLayout } = useGridLayout();
+
+  const [campaign, setCampaign] = useState<CampaignWithProducts | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [missing, setMissing] = useState(false);
+  const [showFilters, setShowFilters] = useState(false);
+
+  useEffect(() => {
+    const fetchCampaign = async () => {
+      setIsLoading(true);
+      try {
+        const response = await fetch(`/api/campaigns/${encodeURIComponent(slug)}`);
+        const result = await response.json();
+
+        if (result.status === 'success' && result.data) {
+          setCampaign(result.data);
+        } else if (response.status === 404) {
+          setMissing(true);
+        }
+      } catch (error) {
+        console.error('Failed to fetch campaign:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchCampaign();
+  }, [slug]);
+
+  const products = useMemo(
+    () => (campaign ? sortProducts(filterProducts(campaign.products, filters), sort) : []),
+    [campaign, filters, sort]
+  );
+
+  if (missing) {
+    notFound();
+  }
+
+  if (isLoading && !campaign) {
+    return <div className="h-64 animate-pulse bg-muted md:h-96" aria-label={t('loading')} />;
+  }
+
+  if (!campaign) {
+    return (
+      <p className="px-6 py-16 text-center text-sm text-muted-foreground">{t('noProducts')}</p>
+    );
+  }
+
+  return (
+    <div>
+      {/* Banner */}
+      <section
+        className="relative flex min-h-64 items-end overflow-hidden md:min-h-96"
+        style={{ backgroundColor: campaign.theme_color || undefined }}
+      >
+        {campaign.banner_image_url && (
+          <div className="absolute inset-0">
+            <OptimizedImage
+              src={campaign.banner_image_url}
+              alt={campaign.name}
+              fill
+              className="object-cover"
+              priority
+              sizes="100vw"
+            />
+          </div>
+        )}
+        <div className="relative w-full bg-gradient-to-t from-black/60 to-transparent px-6 py-10 text-white md:px-8">
+          <h1 className="text-3xl font-light uppercase tracking-wider md:text-5xl">
+            {campaign.name}
+          </h1>
+          {campaign.description && (
+            <p className="mt-3 max-w-2xl text-sm md:text-base">{campaign.description}</p>
+          )}
+          {campaign.end_date && (
+            <p className="mt-3 text-xs uppercase tracking-wider text-white/80">
+              {t('campaign.endsOn', {
+                date: format.dateTime(new Date(campaign.end_date), { dateStyle: 'medium' }),
+              })}
+            </p>
+          )}
+        </div>
+      </section>
+
+      {/* Toolbar */}
+      <div className="flex items-center justify-between border-b border-border px-6 py-4 md:px-8">
+        <div className="flex items-center gap-4">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setShowFilters(!showFilters)}
+            className="md:hidden"
+          >
+            <SlidersHorizontal className="me-2 h-4 w-4" />
+            {t('filters.filters')}
+          </Button>
+
+          <p className="text-sm text-muted-foreground">
+            {products.length} {t('products')}
+          </p>
+        </div>
+
+        <GridLayoutToggle value={gridLayout} onChange={setGridLayout} />
+      </div>
+
+      {/* Main Content Area */}
+      <div className="flex">
+        <div className="hidden w-64 shrink-0 border-e border-border p-6 md:block">
+          <FilterSortPanel variant="sidebar" />
+        </div>
+
+        <div className="flex-1">
+          {campaign.product_count === 0 ? (
+            <p className="p-8 text-center text-sm text-muted-foreground">
+              {t('campaign.noProducts')}
+            </p>
+          ) : (
+            <ShopProductGrid
+              products={products}
+              gridLayout={gridLayout}
+              hasMore={false}
+              className="p-6 md:p-8"
+            />
+          )}
+        </div>
+      </div>
+
+      {/* Mobile Filter Modal */}
+      {showFilters && (
+        <div className="fixed inset-0 z-50 bg-background md:hidden">
+          <div className="flex h-full flex-col">
+            <div className="flex items-center justify-between border-b border-border p-6">
+              <h2 className="text-sm font-medium uppercase tracking-wider">
+                {t('filters.filters')}
+              </h2>
+              <Button variant="ghost" size="sm" onClick={() => setShowFilters(false)}>
+                {t('close')}
+              </Button>
+            </div>
+            <div className="flex-1 overflow-y-auto p-6">
+              <FilterSortPanel variant="sidebar" />
+            </div>
+            <div className="border-t border-border p-6">
+              <Button onClick={() => setShowFilters(false)} className="w-full">
+                {t('filters.viewProducts')} ({products.length})
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
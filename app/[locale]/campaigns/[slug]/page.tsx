@@ -0,0 +1,46 @@
+/**
+ * Campaign Landing Page (e.g., /campaigns/summer-sale-2024)
+ *
+ * Storefront page for an active campaign: banner plus the campaign's
+ * products with the shop's filtering and sorting.
+ */
+
+import { Suspense } from 'react';
+import { Header } from '@/components/layout/header';
+import { CampaignContent } from './campaign-content';
+
+interface CampaignPageProps {
+  params: Promise<{
+    locale: string;
+    slug: string;
+  }>;
+}
+
+export default async function CampaignPage({ params }: CampaignPageProps) {
+  const { slug } = await params;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header variant="minimal" />
+
+      <main className="mx-auto max-w-[1920px]">
+        <Suspense fallback={<CampaignContentSkeleton />}>
+          <CampaignContent slug={slug} />
+        </Suspense>
+      </main>
+    </div>
+  );
+}
+
+function CampaignContentSkeleton() {
+  return (
+    <div>
+      <div className="h-64 animate-pulse bg-muted md:h-96" />
+      <div className="grid gap-px bg-border px-6 py-8 md:grid-cols-3 md:px-8 lg:grid-cols-4">
+        {Array.from({ length: 8 }).map((_, i) => (
+          <div key={i} className="aspect-[3/4] animate-pulse bg-muted" />
+        ))}
+      </div>
+    </div>
+  );
+}
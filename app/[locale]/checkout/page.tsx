@@ -16,14 +16,25 @@ import { StripeProvider } from '@/components/providers/stripe-provider';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { ShoppingCart, AlertCircle } from 'lucide-react';
+import { GuestCheckout } from '@/lib/validations/checkout';
 
 export default function CheckoutPage() {
   const t = useTranslations('checkout');
   const router = useRouter();
   const { session, isLoading: authLoading } = useAuth();
   const { items, itemCount, total } = useCart();
-  const { currentStep, nextStep, previousStep, clientSecret, error, isLoading, setGuestCheckout } =
-    useCheckout();
+  const {
+    currentStep,
+    nextStep,
+    previousStep,
+    clientSecret,
+    error,
+    isLoading,
+    isGuestCheckout,
+    setGuestCheckout,
+    setGuestEmail,
+    reserveInventory,
+  } = useCheckout();
 
   // If user is not authenticated, show guest checkout first
   const showGuestCheckout = !authLoading && !session;
@@ -35,12 +46,19 @@ export default function CheckoutPage() {
     }
   }, [itemCount, authLoading, router]);
 
+  // Hold the cart's stock when checkout starts and again whenever the cart changes
+  // (changing the cart releases the previous hold)
+  useEffect(() => {
+    if (session && itemCount > 0) {
+      reserveInventory();
+    }
+  }, [session, itemCount, total, reserveInventory]);
+
   // Guest checkout handlers
-  const handleGuestCheckout = (guestData: any) => {
+  const handleGuestCheckout = (guestData: GuestCheckout) => {
+    // The order is keyed by this email; continue with the shipping form
+    setGuestEmail(guestData.email);
     setGuestCheckout(true);
-    // Store guest info in checkout context if needed
-    // Then proceed to shipping form
-    nextStep();
   };
 
   const handleLoginRedirect = () => {
@@ -68,8 +86,8 @@ export default function CheckoutPage() {
     );
   }
 
-  // Handle guest checkout - show guest form for step 0, regular flow after
-  if (!session && currentStep === 0) {
+  // Handle guest checkout - show the guest form until the shopper continues as a guest
+  if (!session && !isGuestCheckout) {
     return (
       <CheckoutLayout>
         {error && (
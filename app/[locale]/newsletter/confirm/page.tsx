@@ -0,0 +1,16 @@
+import { Suspense } from 'react';
+import type { Metadata } from 'next';
+import { NewsletterTokenAction } from '@/components/newsletter/newsletter-token-action';
+
+export const metadata: Metadata = {
+  title: 'Confirm Newsletter Subscription | Peakees',
+  robots: { index: false },
+};
+
+export default function NewsletterConfirmPage() {
+  return (
+    <Suspense>
+      <NewsletterTokenAction action="confirm" />
+    </Suspense>
+  );
+}
@@ -0,0 +1,16 @@
+import { Suspense } from 'react';
+import type { Metadata } from 'next';
+import { NewsletterTokenAction } from '@/components/newsletter/newsletter-token-action';
+
+export const metadata: Metadata = {
+  title: 'Unsubscribe from Newsletter | Peakees',
+  robots: { index: false },
+};
+
+export default function NewsletterUnsubscribePage() {
+  return (
+    <Suspense>
+      <NewsletterTokenAction action="unsubscribe" />
+    </Suspense>
+  );
+}
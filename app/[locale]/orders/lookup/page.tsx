@@ -0,0 +1,16 @@
+import { Suspense } from 'react';
+import type { Metadata } from 'next';
+import { GuestOrderLookup } from '@/components/orders/guest-order-lookup';
+
+export const metadata: Metadata = {
+  title: 'Your Order | Peakees',
+  robots: { index: false },
+};
+
+export default function OrderLookupPage() {
+  return (
+    <Suspense>
+      <GuestOrderLookup />
+    </Suspense>
+  );
+}
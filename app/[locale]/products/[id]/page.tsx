@@ -10,10 +10,13 @@ import { ProductImageGallery } from '@/components/products/product-image-gallery
 import { ProductInformation } from '@/components/products/detail/product-information';
 import { ProductVariants } from '@/components/products/detail/product-variants';
 import { ProductReviews } from '@/components/products/detail/product-reviews';
+import { ProductReviewForm } from '@/components/products/detail/product-review-form';
 import { RelatedProducts } from '@/components/products/related-products';
 import { ProductDetailSkeleton } from '@/components/products/skeletons/product-detail-skeleton';
 import { Breadcrumb, generateShopProductBreadcrumbs } from '@/components/navigation';
-import { useProduct } from '@/lib/hooks';
+import { useProduct, useProductReviews } from '@/lib/hooks';
+import { findVariant, getVariantOptions } from '@/lib/utils/shop-helpers';
+import { ProductVariant } from '@/types/shop';
 import { Button } from '@/components/ui/button';
 
 // Mapping from clothing_type to translation key (matching shop.categories.{gender}.{key})
@@ -37,6 +40,7 @@ export default function ProductDetailPage() {
   const params = useParams();
   const productId = params.id as string;
   const t = useTranslations('shop');
+  const tReviews = useTranslations('reviews');
 
   // Initialize selected variants with default values (must be at top level)
   const [selectedVariants, setSelectedVariants] = useState<Record<string, string>>({
@@ -49,6 +53,7 @@ export default function ProductDetailPage() {
   });
 
   const { data: product, isLoading, error, refetch } = useProduct(productId);
+  const { data: reviewData } = useProductReviews(productId);
 
   if (isLoading) {
     return <ProductDetailSkeleton />;
@@ -113,8 +118,59 @@ export default function ProductDetailPage() {
   // Create variant groups from product specifications
   const variantGroups = [];
 
+  // Size and color options of products sold as separate SKUs
+  const productVariants: ProductVariant[] = product.variants || [];
+  const selectedVariant = findVariant(
+    productVariants,
+    selectedVariants.size,
+    selectedVariants.color
+  );
+
+  if (productVariants.length > 0) {
+    const { sizes, colors } = getVariantOptions(productVariants);
+
+    // An option is selectable when some in-stock SKU matches it and the other selection
+    const hasStock = (size?: string, color?: string) =>
+      productVariants.some(
+        (variant) =>
+          variant.is_active &&
+          variant.inventory_count > 0 &&
+          (!size || variant.size === size) &&
+          (!color || variant.color === color)
+      );
+
+    if (sizes.length > 0) {
+      variantGroups.push({
+        type: 'size' as const,
+        name: 'Size',
+        variants: sizes.map((option) => ({
+          id: option.value,
+          name: option.value,
+          type: 'size' as const,
+          value: option.value,
+          available: option.available && hasStock(option.value, selectedVariants.color),
+        })),
+      });
+    }
+
+    if (colors.length > 0) {
+      variantGroups.push({
+        type: 'color' as const,
+        name: 'Color',
+        variants: colors.map((option) => ({
+          id: option.value,
+          name: option.value,
+          type: 'color' as const,
+          value: option.value,
+          available: option.available && hasStock(selectedVariants.size, option.value),
+          meta: { color: option.value },
+        })),
+      });
+    }
+  }
+
   // Size from specifications
-  if (product.specifications?.size) {
+  if (productVariants.length === 0 && product.specifications?.size) {
     variantGroups.push({
       type: 'size' as const,
       name: 'Size',
@@ -208,7 +264,11 @@ export default function ProductDetailPage() {
 
         {/* Product Information */}
         <div className="space-y-6">
-          <ProductInformation product={product} />
+          <ProductInformation
+            product={product}
+            variant={selectedVariant}
+            requiresVariant={productVariants.length > 0}
+          />
 
           {/* Product Specifications */}
           {variantGroups.length > 0 && (
@@ -226,7 +286,20 @@ export default function ProductDetailPage() {
         </div>
       </div>
 
-      {/* Reviews removed for second-hand unique items store */}
+      {/* Reviews */}
+      <section id="reviews" className="mb-16 scroll-mt-24 space-y-8">
+        <h2 className="text-2xl font-bold">{tReviews('title')}</h2>
+        {reviewData && reviewData.totalReviews > 0 && (
+          <ProductReviews
+            productId={productId}
+            reviews={reviewData.reviews}
+            averageRating={reviewData.averageRating}
+            totalReviews={reviewData.totalReviews}
+            ratingCounts={reviewData.ratingCounts}
+          />
+        )}
+        <ProductReviewForm productId={productId} />
+      </section>
 
       {/* Related Products */}
       <div>
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import { cn } from '@/lib/utils';
@@ -17,6 +17,8 @@ import {
   LogOut,
   FolderOpen,
   PanelsTopLeft,
+  PackageOpen,
+  Mail,
 } from 'lucide-react';
 import { useAuth } from '@/lib/auth/auth-context';
 
@@ -35,6 +37,23 @@ export function AdminLayout({ children }: AdminLayoutProps) {
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const pathname = usePathname();
   const { signOut } = useAuth();
+  const [pendingReturns, setPendingReturns] = useState(0);
+
+  useEffect(() => {
+    const fetchReturnCounts = async () => {
+      try {
+        const response = await fetch('/api/admin/returns/counts');
+        const result = await response.json();
+        if (result.status === 'success') {
+          setPendingReturns(result.data.counts.pending);
+        }
+      } catch (error) {
+        console.error('Error fetching return counts:', error);
+      }
+    };
+
+    fetchReturnCounts();
+  }, []);
 
   const navigation: NavItem[] = [
     {
@@ -62,6 +81,17 @@ export function AdminLayout({ children }: AdminLayoutProps) {
       href: '/admin/orders',
       icon: ShoppingCart,
     },
+    {
+      title: 'Returns',
+      href: '/admin/returns',
+      icon: PackageOpen,
+      badge: pendingReturns || undefined,
+    },
+    {
+      title: 'Newsletter',
+      href: '/admin/newsletter',
+      icon: Mail,
+    },
     {
       title: 'Analytics',
       href: '/admin/analytics',
@@ -141,7 +171,7 @@ export function AdminLayout({ children }: AdminLayoutProps) {
                 >
                   <Icon className="mr-3 h-5 w-5" />
                   {item.title}
-                  {item.badge && (
+                  {!!item.badge && (
                     <span className="ml-auto rounded-full bg-red-100 px-2 py-1 text-xs text-red-600">
                       {item.badge}
                     </span>
@@ -53,6 +53,14 @@ const campaignStatuses: { value: CampaignStatus; label: string; description: str
   { value: 'archived', label: 'Archived', description: 'Hidden from all lists' },
 ];
 
+// datetime-local inputs take local time without seconds or zone, e.g. 2025-01-10T09:00
+function toDateTimeLocal(value?: string): string {
+  if (!value) return '';
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return '';
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
 export function CampaignForm({
   initialData,
   onSubmit,
@@ -78,8 +86,8 @@ export function CampaignForm({
       type: initialData?.type || 'collection',
       status: initialData?.status || 'draft',
       product_ids: initialData?.product_ids || [],
-      start_date: initialData?.start_date || '',
-      end_date: initialData?.end_date || '',
+      start_date: toDateTimeLocal(initialData?.start_date),
+      end_date: toDateTimeLocal(initialData?.end_date),
       banner_image_url: initialData?.banner_image_url || '',
       thumbnail_url: initialData?.thumbnail_url || '',
       theme_color: initialData?.theme_color || '#000000',
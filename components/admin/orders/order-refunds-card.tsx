@@ -0,0 +1,270 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { RotateCcw } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { Database } from '@/types/supabase';
+import { RefundReason } from '@/lib/validations/refund';
+
+type Refund = Database['public']['Tables']['refunds']['Row'];
+
+interface OrderRefundsCardProps {
+  orderId: string;
+  orderStatus: string;
+  onRefunded?: () => void;
+}
+
+const refundStatusVariant: Record<
+  Refund['status'],
+  'default' | 'secondary' | 'destructive' | 'outline'
+> = {
+  pending: 'secondary',
+  requires_action: 'secondary',
+  succeeded: 'default',
+  failed: 'destructive',
+  canceled: 'outline',
+};
+
+export function OrderRefundsCard({ orderId, orderStatus, onRefunded }: OrderRefundsCardProps) {
+  const { toast } = useToast();
+  const [refunds, setRefunds] = useState<Refund[]>([]);
+  const [refundable, setRefundable] = useState(0);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [refundType, setRefundType] = useState<'full' | 'partial'>('full');
+  const [amount, setAmount] = useState('');
+  const [reason, setReason] = useState<RefundReason>('requested_by_customer');
+  const [notes, setNotes] = useState('');
+  const [cancelOrder, setCancelOrder] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  const canCancel = ['pending', 'processing'].includes(orderStatus);
+
+  const fetchRefunds = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/admin/orders/${orderId}/refunds`);
+      const result = await response.json();
+
+      if (result.status === 'success') {
+        setRefunds(result.data.refunds);
+        setRefundable(result.data.refundable);
+      }
+    } catch (error) {
+      console.error('Error fetching refunds:', error);
+    }
+  }, [orderId]);
+
+  useEffect(() => {
+    fetchRefunds();
+  }, [fetchRefunds]);
+
+  const handleRefund = async () => {
+    setSubmitting(true);
+    try {
+      const response = await fetch(`/api/admin/orders/${orderId}/refunds`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          amount: refundType === 'partial' ? parseFloat(amount) : undefined,
+          reason,
+          notes: notes || undefined,
+          cancelOrder: canCancel && cancelOrder,
+        }),
+      });
+      const result = await response.json();
+
+      if (result.status !== 'success') {
+        throw new Error(result.error?.message || 'Failed to refund order');
+      }
+
+      toast({ title: 'Refund issued', description: formatCurrency(result.data.refund.amount) });
+      if (canCancel && cancelOrder && !result.data.cancelled) {
+        toast({
+          title: 'Order not cancelled',
+          description: 'The refund went through but the order could not be cancelled',
+          variant: 'destructive',
+        });
+      }
+      setDialogOpen(false);
+      setAmount('');
+      setNotes('');
+      setCancelOrder(false);
+      fetchRefunds();
+      onRefunded?.();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to refund order',
+        variant: 'destructive',
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+    }).format(value);
+  };
+
+  const partialAmount = parseFloat(amount);
+  const isValidAmount = refundType === 'full' || (partialAmount > 0 && partialAmount <= refundable);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <RotateCcw className="mr-2 h-5 w-5" />
+          Refunds
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex justify-between text-sm">
+          <span className="text-gray-600">Refundable:</span>
+          <span className="font-medium">{formatCurrency(refundable)}</span>
+        </div>
+
+        {refunds.length > 0 && (
+          <div className="space-y-2 border-t pt-3">
+            {refunds.map((refund) => (
+              <div key={refund.id} className="flex items-center justify-between text-sm">
+                <div>
+                  <p className="font-medium">{formatCurrency(Number(refund.amount))}</p>
+                  <p className="text-xs text-gray-500">
+                    {new Date(refund.created_at).toLocaleDateString()}
+                    {refund.return_request_id && ' · Return'}
+                  </p>
+                </div>
+                <Badge variant={refundStatusVariant[refund.status]}>{refund.status}</Badge>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <Button
+          variant="outline"
+          className="w-full"
+          onClick={() => setDialogOpen(true)}
+          disabled={refundable <= 0}
+        >
+          Issue Refund
+        </Button>
+
+        <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Refund Order</DialogTitle>
+              <DialogDescription>
+                The refund is sent to the customer&apos;s card through Stripe. Up to{' '}
+                {formatCurrency(refundable)} can be refunded.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4">
+              <Select
+                value={refundType}
+                onValueChange={(value) => setRefundType(value as 'full' | 'partial')}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="full">Full refund ({formatCurrency(refundable)})</SelectItem>
+                  <SelectItem value="partial">Partial refund</SelectItem>
+                </SelectContent>
+              </Select>
+
+              {refundType === 'partial' && (
+                <div>
+                  <Label htmlFor="refund-amount">Amount</Label>
+                  <Input
+                    id="refund-amount"
+                    type="number"
+                    min={0}
+                    max={refundable}
+                    step="0.01"
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                    className="mt-1"
+                  />
+                </div>
+              )}
+
+              <div>
+                <Label>Reason</Label>
+                <Select value={reason} onValueChange={(value) => setReason(value as RefundReason)}>
+                  <SelectTrigger className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="requested_by_customer">Requested by customer</SelectItem>
+                    <SelectItem value="duplicate">Duplicate charge</SelectItem>
+                    <SelectItem value="fraudulent">Fraudulent</SelectItem>
+                    <SelectItem value="other">Other</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label htmlFor="refund-notes">Notes</Label>
+                <Textarea
+                  id="refund-notes"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  className="mt-1"
+                />
+              </div>
+
+              {canCancel && (
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="cancel-order"
+                    checked={cancelOrder}
+                    onCheckedChange={(checked) => setCancelOrder(checked as boolean)}
+                  />
+                  <Label htmlFor="cancel-order">Also cancel the order and restock its items</Label>
+                </div>
+              )}
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={submitting}>
+                Cancel
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={handleRefund}
+                disabled={submitting || !isValidAmount}
+              >
+                {submitting ? 'Refunding...' : 'Refund'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </CardContent>
+    </Card>
+  );
+}
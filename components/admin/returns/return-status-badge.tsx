@@ -0,0 +1,33 @@
+'use client';
+
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { CheckCircle, Clock, PackageCheck, RotateCcw, XCircle } from 'lucide-react';
+import { ReturnStatus } from '@/lib/returns/return-workflow';
+
+export const returnStatusConfig: Record<
+  ReturnStatus,
+  {
+    label: string;
+    variant: 'default' | 'secondary' | 'destructive' | 'outline';
+    icon: React.ComponentType<{ className?: string }>;
+  }
+> = {
+  pending: { label: 'Pending', variant: 'secondary', icon: Clock },
+  approved: { label: 'Approved', variant: 'default', icon: CheckCircle },
+  rejected: { label: 'Rejected', variant: 'destructive', icon: XCircle },
+  received: { label: 'Received', variant: 'outline', icon: PackageCheck },
+  completed: { label: 'Completed', variant: 'outline', icon: RotateCcw },
+};
+
+export function ReturnStatusBadge({ status }: { status: ReturnStatus }) {
+  const statusInfo = returnStatusConfig[status];
+  const StatusIcon = statusInfo.icon;
+
+  return (
+    <Badge variant={statusInfo.variant} className="flex w-fit items-center">
+      <StatusIcon className="mr-1 h-3 w-3" />
+      {statusInfo.label}
+    </Badge>
+  );
+}
@@ -6,6 +6,13 @@ import { CreditCard, ShoppingBag } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
 import { useCart } from '@/lib/context/cart-context';
+import { useCheckoutSettings } from '@/lib/hooks';
+import {
+  DEFAULT_STORE_SETTINGS,
+  calculateTax,
+  getShippingCost,
+  toCheckoutSettings,
+} from '@/lib/settings/store-settings';
 import { cn } from '@/lib/utils';
 
 export interface CartSummaryProps {
@@ -22,15 +29,20 @@ export function CartSummary({
   compact = false,
 }: CartSummaryProps) {
   const { items, total, itemCount } = useCart();
+  const { data: loadedSettings } = useCheckoutSettings();
+  const settings = loadedSettings || toCheckoutSettings(DEFAULT_STORE_SETTINGS);
 
-  // Calculate summary details
+  // Calculate summary details (estimated with standard shipping)
   const subtotal = total;
-  const shipping = subtotal > 50 ? 0 : 5.99; // Free shipping over $50
-  const tax = subtotal * 0.08; // 8% tax
-  const finalTotal = subtotal + shipping + tax;
+  const shipping = getShippingCost(settings.shipping, 'standard', subtotal) ?? 0;
+  const tax = calculateTax(subtotal, settings.taxRate, settings.pricesIncludeTax);
+  const finalTotal = subtotal + shipping + (settings.pricesIncludeTax ? 0 : tax);
 
-  const freeShippingThreshold = 50;
-  const remainingForFreeShipping = Math.max(0, freeShippingThreshold - subtotal);
+  const freeShippingThreshold = settings.shipping.freeShippingThreshold;
+  const remainingForFreeShipping =
+    freeShippingThreshold !== null && settings.shipping.standard.enabled
+      ? Math.max(0, freeShippingThreshold - subtotal)
+      : 0;
 
   if (compact) {
     return (
@@ -99,7 +111,7 @@ export function CartSummary({
               <div
                 className="h-full bg-blue-500 transition-all duration-300"
                 style={{
-                  width: `${Math.min(100, (subtotal / freeShippingThreshold) * 100)}%`,
+                  width: `${Math.min(100, (subtotal / (freeShippingThreshold || 1)) * 100)}%`,
                 }}
               />
             </div>
@@ -108,7 +120,7 @@ export function CartSummary({
 
         {/* Tax */}
         <div className="flex justify-between text-sm text-muted-foreground">
-          <span>Estimated tax</span>
+          <span>{settings.pricesIncludeTax ? 'Includes VAT' : 'Estimated tax'}</span>
           <span>${tax.toFixed(2)}</span>
         </div>
 
@@ -173,7 +173,7 @@ function CheckoutSidebar() {
         </div>
 
         <div className="flex justify-between text-sm">
-          <span className="text-gray-600">Tax</span>
+          <span className="text-gray-600">{orderSummary.taxIncluded ? 'Includes VAT' : 'Tax'}</span>
           <span className="text-gray-900">${orderSummary.tax.toFixed(2)}</span>
         </div>
 
@@ -0,0 +1,78 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Gift, X } from 'lucide-react';
+import { useAuth } from '@/lib/auth/auth-context';
+import { useCheckout } from '@/lib/context/checkout-context';
+import { AppliedLoyaltyReward, loyaltyService } from '@/lib/loyalty/loyalty-service';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+
+interface LoyaltyRewardSelectorProps {
+  className?: string;
+}
+
+// Describe what a redeemed reward takes off the order
+function describeReward(reward: AppliedLoyaltyReward): string {
+  if (reward.type === 'free_shipping') {
+    return 'Free shipping';
+  }
+  return reward.isPercentage ? `${reward.value}% off` : `$${reward.value.toFixed(2)} off`;
+}
+
+export function LoyaltyRewardSelector({ className }: LoyaltyRewardSelectorProps) {
+  const { user } = useAuth();
+  const { loyaltyReward, setLoyaltyReward } = useCheckout();
+  const [rewards, setRewards] = useState<AppliedLoyaltyReward[]>([]);
+
+  useEffect(() => {
+    if (!user) {
+      setRewards([]);
+      return;
+    }
+
+    loyaltyService.getActiveRedemptions().then(setRewards);
+  }, [user]);
+
+  if (rewards.length === 0 && !loyaltyReward) {
+    return null;
+  }
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <div className="flex items-center space-x-2 text-sm font-medium text-gray-900">
+        <Gift className="h-4 w-4 text-gray-500" />
+        <span>Loyalty rewards</span>
+      </div>
+
+      {loyaltyReward ? (
+        <div className="flex items-center justify-between rounded-md bg-green-50 px-3 py-2 text-sm">
+          <span className="text-green-700">
+            {loyaltyReward.code} · {describeReward(loyaltyReward)}
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setLoyaltyReward(null)}
+            aria-label="Remove reward"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {rewards.map((reward) => (
+            <Button
+              key={reward.redemptionId}
+              variant="outline"
+              size="sm"
+              onClick={() => setLoyaltyReward(reward)}
+            >
+              {describeReward(reward)}
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
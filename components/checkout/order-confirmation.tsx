@@ -30,7 +30,7 @@ interface OrderDetails {
 
 export function OrderConfirmation({ orderId, className }: OrderConfirmationProps) {
   const router = useRouter();
-  const { resetCheckout, shippingAddress, orderSummary } = useCheckout();
+  const { resetCheckout, shippingAddress, orderSummary, orderLookupUrl } = useCheckout();
   const { clearCart } = useCart();
   const [orderDetails, setOrderDetails] = useState<OrderDetails | null>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -253,6 +253,13 @@ export function OrderConfirmation({ orderId, className }: OrderConfirmationProps
           </Button>
         )}
 
+        {/* Guests have no account page; the signed link is also in the confirmation email */}
+        {!orderId && orderLookupUrl && (
+          <Button variant="outline" asChild className="flex-1">
+            <a href={orderLookupUrl}>Track Your Order</a>
+          </Button>
+        )}
+
         <Button variant="outline" className="flex-1">
           <Download className="mr-2 h-4 w-4" />
           Download Receipt
@@ -239,7 +239,7 @@ export function OrderReview({ onNext, onPrevious, className }: OrderReviewProps)
               </span>
             </div>
             <div className="flex justify-between text-sm">
-              <span>Tax</span>
+              <span>{orderSummary.taxIncluded ? 'Includes VAT' : 'Tax'}</span>
               <span>${orderSummary.tax.toFixed(2)}</span>
             </div>
             {orderSummary.discount && orderSummary.discount > 0 && (
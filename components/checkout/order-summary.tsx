@@ -7,6 +7,8 @@ import { useCheckout } from '@/lib/context/checkout-context';
 import { cn } from '@/lib/utils';
 import { Separator } from '@/components/ui/separator';
 import { Badge } from '@/components/ui/badge';
+import { LoyaltyRewardSelector } from '@/components/checkout/loyalty-reward-selector';
+import { PromoCodeInput } from '@/components/checkout/promo-code-input';
 
 interface OrderSummaryProps {
   showItems?: boolean;
@@ -81,6 +83,12 @@ export function OrderSummary({ showItems = true, className }: OrderSummaryProps)
         </div>
       )}
 
+      {/* Promo Code */}
+      <PromoCodeInput className="mb-4" />
+
+      {/* Loyalty Rewards */}
+      <LoyaltyRewardSelector className="mb-4" />
+
       {/* Price Breakdown */}
       <div className="space-y-3">
         <div className="flex justify-between text-sm">
@@ -101,7 +109,7 @@ export function OrderSummary({ showItems = true, className }: OrderSummaryProps)
         </div>
 
         <div className="flex justify-between text-sm">
-          <span className="text-gray-600">Tax</span>
+          <span className="text-gray-600">{orderSummary.taxIncluded ? 'Includes VAT' : 'Tax'}</span>
           <span className="text-gray-900">${orderSummary.tax.toFixed(2)}</span>
         </div>
 
@@ -161,7 +169,7 @@ export function CompactOrderSummary({ className }: { className?: string }) {
             </span>
           </div>
           <div className="flex justify-between">
-            <span>Tax</span>
+            <span>{orderSummary.taxIncluded ? 'Includes VAT' : 'Tax'}</span>
             <span>${orderSummary.tax.toFixed(2)}</span>
           </div>
         </div>
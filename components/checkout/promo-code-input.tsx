@@ -0,0 +1,103 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Tag, X } from 'lucide-react';
+import { useAuth } from '@/lib/auth/auth-context';
+import { useCart } from '@/lib/context/cart-context';
+import { useCheckout } from '@/lib/context/checkout-context';
+import { promotionService } from '@/lib/promotions/promotion-service';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+
+interface PromoCodeInputProps {
+  className?: string;
+}
+
+export function PromoCodeInput({ className }: PromoCodeInputProps) {
+  const { user } = useAuth();
+  const { total } = useCart();
+  const { promoCode, setPromoCode } = useCheckout();
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+  const pricedTotal = useRef(total);
+  const appliedCode = promoCode?.code;
+
+  // Re-price the applied code when the cart changes
+  useEffect(() => {
+    if (pricedTotal.current === total) return;
+    pricedTotal.current = total;
+    if (!appliedCode) return;
+
+    promotionService.applyCode(appliedCode).then(({ promo, error: applyError }) => {
+      setPromoCode(promo);
+      if (!promo) {
+        setError(applyError || 'This promo code cannot be applied');
+      }
+    });
+  }, [total, appliedCode, setPromoCode]);
+
+  // Codes are checked against the signed-in user's cart
+  if (!user) {
+    return null;
+  }
+
+  const handleApply = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+
+    setIsApplying(true);
+    setError(null);
+
+    const { promo, error: applyError } = await promotionService.applyCode(code.trim());
+    if (promo) {
+      setPromoCode(promo);
+      setCode('');
+    } else {
+      setError(applyError || 'This promo code cannot be applied');
+    }
+
+    setIsApplying(false);
+  };
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <div className="flex items-center space-x-2 text-sm font-medium text-gray-900">
+        <Tag className="h-4 w-4 text-gray-500" />
+        <span>Promo code</span>
+      </div>
+
+      {promoCode ? (
+        <div className="flex items-center justify-between rounded-md bg-green-50 px-3 py-2 text-sm">
+          <span className="text-green-700">
+            {promoCode.code} · {promoCode.name}
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setPromoCode(null)}
+            aria-label="Remove promo code"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ) : (
+        <form onSubmit={handleApply} className="flex space-x-2">
+          <Input
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="Enter code"
+            maxLength={32}
+            aria-invalid={!!error}
+          />
+          <Button type="submit" variant="outline" disabled={isApplying || !code.trim()}>
+            {isApplying ? 'Applying...' : 'Apply'}
+          </Button>
+        </form>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+/**
+ * Campaign Showcase Section Editor - Admin Component
+ *
+ * Form for editing the campaign showcase. Campaigns themselves are picked
+ * automatically from active featured campaigns (see /admin/campaigns).
+ */
+
+'use client';
+
+import React, { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { CampaignShowcaseSection, CampaignShowcaseConfig } from '@/types/cms';
+import { campaignShowcaseConfigSchema } from '@/lib/validations/cms';
+import { useCMS } from '@/lib/context/cms-context';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Separator } from '@/components/ui/separator';
+
+interface CampaignShowcaseSectionEditorProps {
+  section: CampaignShowcaseSection;
+}
+
+export function CampaignShowcaseSectionEditor({ section }: CampaignShowcaseSectionEditorProps) {
+  const { updateSection } = useCMS();
+
+  const form = useForm<CampaignShowcaseConfig>({
+    resolver: zodResolver(campaignShowcaseConfigSchema),
+    defaultValues: {
+      title: section.config.title || '',
+      subtitle: section.config.subtitle || '',
+      limit: section.config.limit || 3,
+      homepageOnly: section.config.homepageOnly ?? true,
+      cardStyle: section.config.cardStyle || 'overlay',
+    },
+  });
+
+  // Auto-save on form changes
+  useEffect(() => {
+    const subscription = form.watch((data) => {
+      if (form.formState.isDirty) {
+        updateSection(section.id, {
+          config: data as CampaignShowcaseConfig,
+        });
+      }
+    });
+    return () => subscription.unsubscribe();
+  }, [form, section.id, updateSection]);
+
+  return (
+    <Form {...form}>
+      <form className="space-y-6">
+        <FormField
+          control={form.control}
+          name="title"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Section Title</FormLabel>
+              <FormControl>
+                <Input placeholder="Current Campaigns" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="subtitle"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Subtitle</FormLabel>
+              <FormControl>
+                <Input placeholder="Explore our latest edits" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <Separator />
+
+        <FormField
+          control={form.control}
+          name="limit"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Show up to {field.value} campaigns</FormLabel>
+              <FormControl>
+                <Slider
+                  min={1}
+                  max={12}
+                  step={1}
+                  value={[field.value]}
+                  onValueChange={(value) => field.onChange(value[0])}
+                />
+              </FormControl>
+              <FormDescription>Only active, featured campaigns are shown</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="homepageOnly"
+          render={({ field }) => (
+            <FormItem className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <FormLabel>Homepage campaigns only</FormLabel>
+                <FormDescription>Limit to campaigns marked Show on homepage</FormDescription>
+              </div>
+              <FormControl>
+                <Switch checked={field.value} onCheckedChange={field.onChange} />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="cardStyle"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Card Style</FormLabel>
+              <Select onValueChange={field.onChange} defaultValue={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select style" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value="overlay">Overlay (text on image)</SelectItem>
+                  <SelectItem value="below">Below (text under image)</SelectItem>
+                  <SelectItem value="minimal">Minimal (clean, simple)</SelectItem>
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,228 @@
+/**
+ * Newsletter Section Editor - Admin Component
+ *
+ * Form for editing the newsletter signup copy and layout. Subscribers go
+ * through double opt-in, so the success message should ask them to confirm.
+ */
+
+'use client';
+
+import React, { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { NewsletterSection, NewsletterConfig } from '@/types/cms';
+import { newsletterConfigSchema } from '@/lib/validations/cms';
+import { useCMS } from '@/lib/context/cms-context';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Separator } from '@/components/ui/separator';
+import { z } from 'zod';
+
+interface NewsletterSectionEditorProps {
+  section: NewsletterSection;
+}
+
+// Relaxed schema for editing (allow a partly typed image URL)
+const editorConfigSchema = newsletterConfigSchema.extend({
+  backgroundImage: z.string().optional(),
+});
+
+type EditorConfig = z.infer<typeof editorConfigSchema>;
+
+export function NewsletterSectionEditor({ section }: NewsletterSectionEditorProps) {
+  const { updateSection } = useCMS();
+
+  const form = useForm<EditorConfig>({
+    resolver: zodResolver(editorConfigSchema),
+    defaultValues: {
+      title: section.config.title || '',
+      subtitle: section.config.subtitle || '',
+      placeholder: section.config.placeholder || '',
+      buttonText: section.config.buttonText || 'Subscribe',
+      successMessage: section.config.successMessage || '',
+      privacyText: section.config.privacyText || '',
+      backgroundImage: section.config.backgroundImage || '',
+      backgroundColor: section.config.backgroundColor || '',
+      layout: section.config.layout || 'centered',
+    },
+  });
+
+  const layout = form.watch('layout');
+
+  // Auto-save on form changes
+  useEffect(() => {
+    const subscription = form.watch((data) => {
+      if (form.formState.isDirty) {
+        updateSection(section.id, {
+          config: data as NewsletterConfig,
+        });
+      }
+    });
+    return () => subscription.unsubscribe();
+  }, [form, section.id, updateSection]);
+
+  return (
+    <Form {...form}>
+      <form className="space-y-6">
+        <FormField
+          control={form.control}
+          name="title"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Title</FormLabel>
+              <FormControl>
+                <Input placeholder="Stay in the Loop" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="subtitle"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Subtitle</FormLabel>
+              <FormControl>
+                <Input placeholder="Get exclusive deals delivered to your inbox" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="placeholder"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Input Placeholder</FormLabel>
+                <FormControl>
+                  <Input placeholder="Enter your email address" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="buttonText"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Button Text</FormLabel>
+                <FormControl>
+                  <Input placeholder="Subscribe" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="successMessage"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Success Message</FormLabel>
+              <FormControl>
+                <Input placeholder="Thanks! Check your inbox to confirm." {...field} />
+              </FormControl>
+              <FormDescription>
+                Shown after signup. Subscribers must confirm by email first.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="privacyText"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Privacy Note</FormLabel>
+              <FormControl>
+                <Input placeholder="We respect your privacy. Unsubscribe anytime." {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <Separator />
+
+        <FormField
+          control={form.control}
+          name="layout"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Layout</FormLabel>
+              <Select onValueChange={field.onChange} defaultValue={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select layout" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value="centered">Centered</SelectItem>
+                  <SelectItem value="split">Split (image beside form)</SelectItem>
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {layout === 'split' && (
+          <FormField
+            control={form.control}
+            name="backgroundImage"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Image URL</FormLabel>
+                <FormControl>
+                  <Input placeholder="https://example.com/newsletter.jpg" {...field} />
+                </FormControl>
+                <FormDescription>Without an image the form is centered</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        <FormField
+          control={form.control}
+          name="backgroundColor"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Background Color</FormLabel>
+              <FormControl>
+                <Input placeholder="#F9FAFB" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </form>
+    </Form>
+  );
+}
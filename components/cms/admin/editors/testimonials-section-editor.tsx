@@ -0,0 +1,315 @@
+/**
+ * Testimonials Section Editor - Admin Component
+ *
+ * Form for editing customer testimonials and how they are displayed.
+ */
+
+'use client';
+
+import React, { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { TestimonialItem, TestimonialsConfig, TestimonialsSection } from '@/types/cms';
+import { testimonialItemSchema, testimonialsConfigSchema } from '@/lib/validations/cms';
+import { useCMS } from '@/lib/context/cms-context';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Separator } from '@/components/ui/separator';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Badge } from '@/components/ui/badge';
+import { MessageSquareQuote, Plus, X } from 'lucide-react';
+import { z } from 'zod';
+
+interface TestimonialsSectionEditorProps {
+  section: TestimonialsSection;
+}
+
+// Relaxed schema for editing (allow empty quotes and list while typing)
+const editorConfigSchema = testimonialsConfigSchema.extend({
+  testimonials: z
+    .array(
+      testimonialItemSchema.extend({
+        quote: z.string(),
+        author: z.string(),
+        avatar: z.string().optional(),
+      })
+    )
+    .optional()
+    .default([]),
+});
+
+type EditorConfig = z.infer<typeof editorConfigSchema>;
+
+export function TestimonialsSectionEditor({ section }: TestimonialsSectionEditorProps) {
+  const { updateSection } = useCMS();
+
+  const form = useForm<EditorConfig>({
+    resolver: zodResolver(editorConfigSchema),
+    defaultValues: {
+      title: section.config.title || '',
+      subtitle: section.config.subtitle || '',
+      testimonials: section.config.testimonials || [],
+      layout: section.config.layout || 'grid',
+      showRating: section.config.showRating ?? true,
+      autoplayDelay: section.config.autoplayDelay || 6000,
+      backgroundColor: section.config.backgroundColor || '',
+    },
+  });
+
+  const testimonials = form.watch('testimonials') || [];
+  const layout = form.watch('layout');
+
+  // Auto-save on form changes
+  useEffect(() => {
+    const subscription = form.watch((data) => {
+      if (form.formState.isDirty) {
+        updateSection(section.id, {
+          config: data as TestimonialsConfig,
+        });
+      }
+    });
+    return () => subscription.unsubscribe();
+  }, [form, section.id, updateSection]);
+
+  const setTestimonials = (items: TestimonialItem[]) => {
+    form.setValue('testimonials', items, { shouldDirty: true });
+  };
+
+  const addTestimonial = () => {
+    setTestimonials([
+      ...(form.getValues('testimonials') || []),
+      { id: crypto.randomUUID(), quote: '', author: '', rating: 5 },
+    ]);
+  };
+
+  const removeTestimonial = (index: number) => {
+    setTestimonials((form.getValues('testimonials') || []).filter((_, i) => i !== index));
+  };
+
+  const updateTestimonial = (index: number, updates: Partial<TestimonialItem>) => {
+    const current = [...(form.getValues('testimonials') || [])];
+    current[index] = { ...current[index], ...updates };
+    setTestimonials(current);
+  };
+
+  return (
+    <Form {...form}>
+      <form className="space-y-6">
+        <FormField
+          control={form.control}
+          name="title"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Section Title</FormLabel>
+              <FormControl>
+                <Input placeholder="What Our Customers Say" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="subtitle"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Subtitle</FormLabel>
+              <FormControl>
+                <Input placeholder="Real reviews from real customers" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <Separator />
+
+        <Tabs defaultValue="testimonials" className="w-full">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="testimonials">Testimonials</TabsTrigger>
+            <TabsTrigger value="display">Display</TabsTrigger>
+          </TabsList>
+
+          {/* Testimonials Tab */}
+          <TabsContent value="testimonials" className="space-y-4">
+            {testimonials.length === 0 ? (
+              <div className="rounded-lg border-2 border-dashed py-8 text-center">
+                <MessageSquareQuote className="mx-auto mb-2 h-12 w-12 text-muted-foreground/50" />
+                <p className="text-sm text-muted-foreground">No testimonials added yet</p>
+              </div>
+            ) : (
+              testimonials.map((testimonial, index) => (
+                <div key={testimonial.id} className="space-y-3 rounded-lg border p-3">
+                  <div className="flex items-center justify-between">
+                    <Badge variant="outline" className="font-mono text-xs">
+                      #{index + 1}
+                    </Badge>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeTestimonial(index)}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <Textarea
+                    placeholder="What did the customer say?"
+                    value={testimonial.quote}
+                    onChange={(e) => updateTestimonial(index, { quote: e.target.value })}
+                    rows={3}
+                  />
+                  <div className="grid grid-cols-2 gap-2">
+                    <Input
+                      placeholder="Author"
+                      value={testimonial.author}
+                      onChange={(e) => updateTestimonial(index, { author: e.target.value })}
+                    />
+                    <Input
+                      placeholder="Role (e.g. Verified buyer)"
+                      value={testimonial.role || ''}
+                      onChange={(e) =>
+                        updateTestimonial(index, { role: e.target.value || undefined })
+                      }
+                    />
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <Input
+                      placeholder="Avatar URL (optional)"
+                      value={testimonial.avatar || ''}
+                      onChange={(e) =>
+                        updateTestimonial(index, { avatar: e.target.value || undefined })
+                      }
+                    />
+                    <Select
+                      value={testimonial.rating ? String(testimonial.rating) : 'none'}
+                      onValueChange={(value) =>
+                        updateTestimonial(index, {
+                          rating: value === 'none' ? undefined : Number(value),
+                        })
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Rating" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">No rating</SelectItem>
+                        {[5, 4, 3, 2, 1].map((rating) => (
+                          <SelectItem key={rating} value={String(rating)}>
+                            {rating} {rating === 1 ? 'star' : 'stars'}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              ))
+            )}
+
+            <Button type="button" variant="outline" className="w-full" onClick={addTestimonial}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Testimonial
+            </Button>
+          </TabsContent>
+
+          {/* Display Tab */}
+          <TabsContent value="display" className="space-y-4">
+            <FormField
+              control={form.control}
+              name="layout"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Layout</FormLabel>
+                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select layout" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="grid">Grid (all at once)</SelectItem>
+                      <SelectItem value="carousel">Carousel (one at a time)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {layout === 'carousel' && (
+              <FormField
+                control={form.control}
+                name="autoplayDelay"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Rotate every {(field.value || 6000) / 1000}s</FormLabel>
+                    <FormControl>
+                      <Slider
+                        min={2000}
+                        max={15000}
+                        step={1000}
+                        value={[field.value || 6000]}
+                        onValueChange={(value) => field.onChange(value[0])}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <FormField
+              control={form.control}
+              name="showRating"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <FormLabel>Show star ratings</FormLabel>
+                    <FormDescription>Only shown for testimonials with a rating</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="backgroundColor"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Background Color</FormLabel>
+                  <FormControl>
+                    <Input placeholder="#F9FAFB" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </TabsContent>
+        </Tabs>
+      </form>
+    </Form>
+  );
+}
@@ -8,3 +8,4 @@ export { UndoRedoControls } from './undo-redo-controls';
 export { HistoryPanel, HistoryIndicator } from './history-panel';
 export { SaveTemplateDialog } from './save-template-dialog';
 export { TemplateLibraryPanel } from './template-library-panel';
+export { VersionHistoryPanel } from './version-history-panel';
@@ -10,7 +10,7 @@ import React, { useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { Save, Tag, FolderOpen, Pin, Loader2 } from 'lucide-react';
+import { Save, Tag, FolderOpen, Pin, ShieldCheck, Loader2 } from 'lucide-react';
 import {
   Dialog,
   DialogContent,
@@ -48,6 +48,7 @@ const saveTemplateSchema = z.object({
   category: z.enum(['seasonal', 'promotional', 'editorial', 'product_launch', 'event', 'custom']),
   tags: z.array(z.string()).default([]),
   isPinned: z.boolean().default(false),
+  requiresReview: z.boolean().default(false),
 });
 
 type SaveTemplateFormData = z.infer<typeof saveTemplateSchema>;
@@ -87,6 +88,7 @@ export function SaveTemplateDialog({
       category: 'custom',
       tags: [],
       isPinned: false,
+      requiresReview: false,
     },
   });
 
@@ -152,6 +154,7 @@ export function SaveTemplateDialog({
           description: data.description,
           category: data.category,
           tags: data.tags,
+          requires_review: data.requiresReview,
           content: homepage,
         }),
       });
@@ -308,6 +311,19 @@ export function SaveTemplateDialog({
             </Label>
           </div>
 
+          {/* Review Option */}
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="requiresReview"
+              checked={watch('requiresReview')}
+              onCheckedChange={(checked) => setValue('requiresReview', checked === true)}
+            />
+            <Label htmlFor="requiresReview" className="flex cursor-pointer items-center gap-1.5">
+              <ShieldCheck className="h-4 w-4" />
+              Require review before publishing
+            </Label>
+          </div>
+
           {/* Section count info */}
           <div className="rounded-md bg-muted p-3">
             <p className="text-sm">
@@ -15,6 +15,9 @@ import { ProductCarouselSectionEditor } from './editors/product-carousel-section
 import { TextBlockSectionEditor } from './editors/text-block-section-editor';
 import { ImageBannerSectionEditor } from './editors/image-banner-section-editor';
 import { CategoryGridSectionEditor } from './editors/category-grid-section-editor';
+import { TestimonialsSectionEditor } from './editors/testimonials-section-editor';
+import { NewsletterSectionEditor } from './editors/newsletter-section-editor';
+import { CampaignShowcaseSectionEditor } from './editors/campaign-showcase-section-editor';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { X } from 'lucide-react';
@@ -67,6 +70,15 @@ function SectionEditorRouter({ section }: { section: Section }) {
     case 'category_grid':
       return <CategoryGridSectionEditor section={section} />;
 
+    case 'testimonials':
+      return <TestimonialsSectionEditor section={section} />;
+
+    case 'newsletter':
+      return <NewsletterSectionEditor section={section} />;
+
+    case 'campaign_showcase':
+      return <CampaignShowcaseSectionEditor section={section} />;
+
     default:
       const _exhaustiveCheck: never = section;
       return <div>Unknown section type</div>;
@@ -35,6 +35,9 @@ import {
   ShoppingBag,
   LayoutGrid,
   Sparkles,
+  Megaphone,
+  Quote,
+  Mail,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
@@ -81,6 +84,12 @@ export function SectionListEditor({ onAddSection }: SectionListEditorProps) {
         return <Image className="h-5 w-5" />;
       case 'category_grid':
         return <LayoutGrid className="h-5 w-5" />;
+      case 'testimonials':
+        return <Quote className="h-5 w-5" />;
+      case 'newsletter':
+        return <Mail className="h-5 w-5" />;
+      case 'campaign_showcase':
+        return <Megaphone className="h-5 w-5" />;
       default:
         return null;
     }
@@ -98,6 +107,12 @@ export function SectionListEditor({ onAddSection }: SectionListEditorProps) {
         return 'Image Banner';
       case 'category_grid':
         return section.config.title || 'Category Grid';
+      case 'testimonials':
+        return section.config.title || 'Testimonials';
+      case 'newsletter':
+        return section.config.title || 'Newsletter Signup';
+      case 'campaign_showcase':
+        return section.config.title || 'Campaign Showcase';
       default:
         return 'Section';
     }
@@ -24,11 +24,18 @@ import {
   Pin,
   Loader2,
   RefreshCw,
+  Send,
+  Undo2,
+  CheckCircle2,
+  XCircle,
+  History,
+  LucideIcon,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
 import {
   Select,
   SelectContent,
@@ -53,6 +60,15 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
 import { cn } from '@/lib/utils';
 import {
   CMSTemplate,
@@ -60,7 +76,12 @@ import {
   TemplateStatus,
   TEMPLATE_CATEGORIES,
 } from '@/types/cms-templates';
+import { ReviewAction } from '@/lib/cms/template-review';
 import { apiUrl } from '@/lib/utils/api';
+import { VersionHistoryPanel } from './version-history-panel';
+
+// Templates as listed, with the review actions open to the current user
+type TemplateLibraryItem = CMSTemplate & { review_actions?: ReviewAction[] };
 
 interface TemplateLibraryPanelProps {
   onLoadTemplate: (templateId: string) => void;
@@ -87,6 +108,23 @@ const statusConfig: Record<TemplateStatus, { label: string; color: string }> = {
   archived: { label: 'Archived', color: 'bg-gray-100 text-gray-800' },
 };
 
+// Review action menu labels
+const reviewActionConfig: Record<ReviewAction, { label: string; icon: LucideIcon }> = {
+  submit: { label: 'Submit for Review', icon: Send },
+  withdraw: { label: 'Withdraw Review', icon: Undo2 },
+  approve: { label: 'Approve', icon: CheckCircle2 },
+  reject: { label: 'Reject', icon: XCircle },
+};
+
+// An approved version that hasn't gone live yet
+function isAwaitingPublish(template: CMSTemplate) {
+  return (
+    template.requires_review &&
+    !!template.approved_version_id &&
+    template.approved_version_id !== template.published_version_id
+  );
+}
+
 // Format relative time
 function formatRelativeTime(dateString: string) {
   const date = new Date(dateString);
@@ -108,7 +146,8 @@ export function TemplateLibraryPanel({
   onClose,
   className,
 }: TemplateLibraryPanelProps) {
-  const [templates, setTemplates] = useState<CMSTemplate[]>([]);
+  const { toast } = useToast();
+  const [templates, setTemplates] = useState<TemplateLibraryItem[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
   const [categoryFilter, setCategoryFilter] = useState<TemplateCategory | 'all'>('all');
@@ -116,6 +155,10 @@ export function TemplateLibraryPanel({
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
   const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [rejectTemplateId, setRejectTemplateId] = useState<string | null>(null);
+  const [rejectComment, setRejectComment] = useState('');
+  const [isReviewing, setIsReviewing] = useState(false);
+  const [historyTemplateId, setHistoryTemplateId] = useState<string | null>(null);
 
   // Fetch templates
   const fetchTemplates = useCallback(async () => {
@@ -184,6 +227,45 @@ export function TemplateLibraryPanel({
     }
   };
 
+  // Handle review workflow actions
+  const handleReviewAction = async (templateId: string, action: ReviewAction, comment?: string) => {
+    setIsReviewing(true);
+    try {
+      const response = await fetch(apiUrl(`/api/cms/templates/${templateId}/review`), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, comment }),
+      });
+
+      const data = await response.json();
+      if (!response.ok || !data.success) throw new Error(data.error || 'Failed to update review');
+
+      toast({ title: data.message });
+      setRejectTemplateId(null);
+      setRejectComment('');
+      fetchTemplates();
+    } catch (error) {
+      toast({
+        title: 'Review not updated',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsReviewing(false);
+    }
+  };
+
+  // Rejections need a reason, so they go through a dialog first
+  const handleReview = (templateId: string, action: ReviewAction) => {
+    if (action === 'reject') {
+      setRejectTemplateId(templateId);
+    } else {
+      handleReviewAction(templateId, action);
+    }
+  };
+
+  const pendingReviewCount = templates.filter((t) => t.status === 'review').length;
+
   // Filter templates locally for immediate feedback
   const filteredTemplates = templates.filter((template) => {
     if (searchQuery) {
@@ -204,6 +286,15 @@ export function TemplateLibraryPanel({
           <div className="flex items-center gap-2">
             <FolderOpen className="h-5 w-5 text-muted-foreground" />
             <h3 className="text-sm font-medium">Template Library</h3>
+            {pendingReviewCount > 0 && (
+              <Badge
+                variant="secondary"
+                className="cursor-pointer bg-blue-100 text-[10px] text-blue-800"
+                onClick={() => setStatusFilter('review')}
+              >
+                {pendingReviewCount} awaiting review
+              </Badge>
+            )}
           </div>
           <div className="flex items-center gap-2">
             <Button variant="ghost" size="icon" onClick={fetchTemplates} disabled={isLoading}>
@@ -260,6 +351,8 @@ export function TemplateLibraryPanel({
             <SelectContent>
               <SelectItem value="all">All Status</SelectItem>
               <SelectItem value="published">Published</SelectItem>
+              <SelectItem value="review">In Review</SelectItem>
+              <SelectItem value="scheduled">Scheduled</SelectItem>
               <SelectItem value="draft">Draft</SelectItem>
               <SelectItem value="archived">Archived</SelectItem>
             </SelectContent>
@@ -314,6 +407,8 @@ export function TemplateLibraryPanel({
                     /* TODO: Open edit dialog */
                   }}
                   onDuplicate={() => handleDuplicate(template)}
+                  onHistory={() => setHistoryTemplateId(template.id)}
+                  onReview={(action) => handleReview(template.id, action)}
                   onDelete={() => setDeleteConfirmId(template.id)}
                 />
               ))}
@@ -329,6 +424,8 @@ export function TemplateLibraryPanel({
                     /* TODO: Open edit dialog */
                   }}
                   onDuplicate={() => handleDuplicate(template)}
+                  onHistory={() => setHistoryTemplateId(template.id)}
+                  onReview={(action) => handleReview(template.id, action)}
                   onDelete={() => setDeleteConfirmId(template.id)}
                 />
               ))}
@@ -365,20 +462,118 @@ export function TemplateLibraryPanel({
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      {/* Version History Dialog */}
+      <Dialog open={!!historyTemplateId} onOpenChange={() => setHistoryTemplateId(null)}>
+        <DialogContent className="h-[80vh] max-w-5xl p-0">
+          <DialogHeader className="sr-only">
+            <DialogTitle>Version History</DialogTitle>
+            <DialogDescription>Compare and revert template versions</DialogDescription>
+          </DialogHeader>
+          {historyTemplateId && (
+            <VersionHistoryPanel
+              templateId={historyTemplateId}
+              onRestored={fetchTemplates}
+              className="rounded-lg"
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Reject Review Dialog */}
+      <Dialog
+        open={!!rejectTemplateId}
+        onOpenChange={(open) => {
+          if (!open) {
+            setRejectTemplateId(null);
+            setRejectComment('');
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject Template</DialogTitle>
+            <DialogDescription>
+              Let the editor know what needs to change before this template can be approved.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={rejectComment}
+            onChange={(e) => setRejectComment(e.target.value)}
+            placeholder="What needs to change?"
+            rows={4}
+          />
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setRejectTemplateId(null)}
+              disabled={isReviewing}
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() =>
+                rejectTemplateId && handleReviewAction(rejectTemplateId, 'reject', rejectComment)
+              }
+              disabled={isReviewing || !rejectComment.trim()}
+            >
+              {isReviewing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Reject
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
 
+// Review actions appended to a template's menu
+function ReviewMenuItems({
+  actions,
+  onReview,
+}: {
+  actions?: ReviewAction[];
+  onReview: (action: ReviewAction) => void;
+}) {
+  if (!actions?.length) return null;
+
+  return (
+    <>
+      <DropdownMenuSeparator />
+      {actions.map((action) => {
+        const { label, icon: Icon } = reviewActionConfig[action];
+        return (
+          <DropdownMenuItem key={action} onClick={() => onReview(action)}>
+            <Icon className="mr-2 h-4 w-4" />
+            {label}
+          </DropdownMenuItem>
+        );
+      })}
+    </>
+  );
+}
+
 // Template Card Component (Grid View)
 interface TemplateCardProps {
-  template: CMSTemplate;
+  template: TemplateLibraryItem;
   onLoad: () => void;
   onEdit: () => void;
   onDuplicate: () => void;
+  onHistory: () => void;
+  onReview: (action: ReviewAction) => void;
   onDelete: () => void;
 }
 
-function TemplateCard({ template, onLoad, onEdit, onDuplicate, onDelete }: TemplateCardProps) {
+function TemplateCard({
+  template,
+  onLoad,
+  onEdit,
+  onDuplicate,
+  onHistory,
+  onReview,
+  onDelete,
+}: TemplateCardProps) {
   return (
     <div className="group relative rounded-lg border bg-card p-4 transition-shadow hover:shadow-md">
       {/* Pinned indicator */}
@@ -426,6 +621,11 @@ function TemplateCard({ template, onLoad, onEdit, onDuplicate, onDelete }: Templ
                 <Copy className="mr-2 h-4 w-4" />
                 Duplicate
               </DropdownMenuItem>
+              <DropdownMenuItem onClick={onHistory}>
+                <History className="mr-2 h-4 w-4" />
+                Version History
+              </DropdownMenuItem>
+              <ReviewMenuItems actions={template.review_actions} onReview={onReview} />
               <DropdownMenuSeparator />
               <DropdownMenuItem onClick={onDelete} className="text-destructive">
                 <Trash2 className="mr-2 h-4 w-4" />
@@ -452,12 +652,19 @@ function TemplateCard({ template, onLoad, onEdit, onDuplicate, onDelete }: Templ
           >
             {statusConfig[template.status]?.label}
           </Badge>
+          {isAwaitingPublish(template) && (
+            <Badge variant="secondary" className="bg-green-100 text-[10px] text-green-800">
+              Approved
+            </Badge>
+          )}
         </div>
 
         <div className="flex items-center gap-3 text-xs text-muted-foreground">
           <span className="flex items-center gap-1">
             <Clock className="h-3 w-3" />
-            {formatRelativeTime(template.updated_at)}
+            {template.status === 'review' && template.review_requested_at
+              ? `Submitted ${formatRelativeTime(template.review_requested_at)}`
+              : formatRelativeTime(template.updated_at)}
           </span>
           <span className="flex items-center gap-1">
             <Eye className="h-3 w-3" />
@@ -480,7 +687,15 @@ function TemplateCard({ template, onLoad, onEdit, onDuplicate, onDelete }: Templ
 }
 
 // Template List Item Component (List View)
-function TemplateListItem({ template, onLoad, onEdit, onDuplicate, onDelete }: TemplateCardProps) {
+function TemplateListItem({
+  template,
+  onLoad,
+  onEdit,
+  onDuplicate,
+  onHistory,
+  onReview,
+  onDelete,
+}: TemplateCardProps) {
   return (
     <div className="group flex items-center gap-3 rounded-lg border bg-card p-3 transition-colors hover:bg-accent">
       {/* Thumbnail */}
@@ -509,6 +724,19 @@ function TemplateListItem({ template, onLoad, onEdit, onDuplicate, onDelete }: T
           >
             {categoryConfig[template.category]?.label}
           </Badge>
+          {(template.status === 'review' || isAwaitingPublish(template)) && (
+            <Badge
+              variant="secondary"
+              className={cn(
+                'text-[10px]',
+                template.status === 'review'
+                  ? statusConfig.review.color
+                  : 'bg-green-100 text-green-800'
+              )}
+            >
+              {template.status === 'review' ? statusConfig.review.label : 'Approved'}
+            </Badge>
+          )}
           <span>{formatRelativeTime(template.updated_at)}</span>
         </div>
       </div>
@@ -539,6 +767,11 @@ function TemplateListItem({ template, onLoad, onEdit, onDuplicate, onDelete }: T
               <Copy className="mr-2 h-4 w-4" />
               Duplicate
             </DropdownMenuItem>
+            <DropdownMenuItem onClick={onHistory}>
+              <History className="mr-2 h-4 w-4" />
+              Version History
+            </DropdownMenuItem>
+            <ReviewMenuItems actions={template.review_actions} onReview={onReview} />
             <DropdownMenuSeparator />
             <DropdownMenuItem onClick={onDelete} className="text-destructive">
               <Trash2 className="mr-2 h-4 w-4" />
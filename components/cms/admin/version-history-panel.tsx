@@ -0,0 +1,369 @@
+/**
+ * Version History Panel Component
+ *
+ * Lists a template's saved versions and shows a side-by-side diff of any
+ * version against the current one, with one-click revert.
+ */
+
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { ArrowRight, Clock, GitCompare, Loader2, Move, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { apiUrl } from '@/lib/utils/api';
+import { Section } from '@/types/cms';
+import { CMSTemplateVersion, SectionDiff, TemplateVersionDiff } from '@/types/cms-templates';
+
+type VersionListItem = CMSTemplateVersion & { is_current: boolean };
+
+interface Comparison {
+  diff: TemplateVersionDiff;
+  from_version: CMSTemplateVersion;
+  to_version: CMSTemplateVersion;
+}
+
+interface VersionHistoryPanelProps {
+  templateId: string;
+  onRestored?: (version: CMSTemplateVersion) => void;
+  onClose?: () => void;
+  className?: string;
+}
+
+// Row colors per side: the old side shows removals, the new side additions
+const changeConfig: Record<SectionDiff['change'], { label: string; old: string; new: string }> = {
+  added: { label: 'Added', old: '', new: 'border-green-300 bg-green-50' },
+  removed: { label: 'Removed', old: 'border-red-300 bg-red-50', new: '' },
+  modified: {
+    label: 'Modified',
+    old: 'border-amber-300 bg-amber-50',
+    new: 'border-amber-300 bg-amber-50',
+  },
+  unchanged: { label: 'Unchanged', old: '', new: '' },
+};
+
+function sectionLabel(section?: Section) {
+  if (!section) return '';
+  switch (section.type) {
+    case 'hero':
+      return section.config.headline || 'Hero Section';
+    case 'product_carousel':
+      return section.title || 'Product Carousel';
+    case 'image_banner':
+      return section.config.alt || 'Image Banner';
+    case 'newsletter':
+      return section.config.title || 'Newsletter Signup';
+    case 'category_grid':
+    case 'testimonials':
+    case 'campaign_showcase':
+      return section.config.title || section.type.replace('_', ' ');
+    default:
+      return section.type.replace('_', ' ');
+  }
+}
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined || value === '') return '—';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
+
+function formatDate(dateString: string) {
+  return new Date(dateString).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export function VersionHistoryPanel({
+  templateId,
+  onRestored,
+  onClose,
+  className,
+}: VersionHistoryPanelProps) {
+  const { toast } = useToast();
+  const [versions, setVersions] = useState<VersionListItem[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isComparing, setIsComparing] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  // Fetch versions, selecting the latest one that isn't current
+  const fetchVersions = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(apiUrl(`/api/cms/templates/${templateId}/versions?limit=50`));
+      if (!response.ok) throw new Error('Failed to fetch versions');
+
+      const data = await response.json();
+      const list: VersionListItem[] = data.data?.versions || [];
+      setVersions(list);
+      setSelectedId(list.find((v) => !v.is_current)?.id || null);
+    } catch (error) {
+      console.error('Error fetching versions:', error);
+      setVersions([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [templateId]);
+
+  useEffect(() => {
+    fetchVersions();
+  }, [fetchVersions]);
+
+  // Compare the selected version against the current one
+  useEffect(() => {
+    if (!selectedId) {
+      setComparison(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsComparing(true);
+    fetch(apiUrl(`/api/cms/templates/${templateId}/versions/compare?from=${selectedId}`))
+      .then((response) => response.json())
+      .then((data) => {
+        if (!cancelled) setComparison(data.success ? data.data : null);
+      })
+      .catch((error) => console.error('Error comparing versions:', error))
+      .finally(() => {
+        if (!cancelled) setIsComparing(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [templateId, selectedId]);
+
+  const handleRevert = async () => {
+    if (!comparison) return;
+
+    setIsRestoring(true);
+    try {
+      const response = await fetch(apiUrl(`/api/cms/templates/${templateId}/versions`), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'restore', version_id: comparison.from_version.id }),
+      });
+
+      const data = await response.json();
+      if (!response.ok || !data.success) throw new Error(data.error || 'Failed to revert');
+
+      toast({ title: `Reverted to v${comparison.from_version.version_number}` });
+      onRestored?.(data.data.version);
+      fetchVersions();
+    } catch (error) {
+      toast({
+        title: 'Version not restored',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const findSection = (version: CMSTemplateVersion, sectionId: string) =>
+    version.content.sections.find((section) => section.id === sectionId);
+
+  const diff = comparison?.diff;
+  const hasChanges =
+    !!diff &&
+    (diff.sections.some((row) => row.change !== 'unchanged' || row.moved) ||
+      Object.keys(diff.metadata_changes).length > 0);
+
+  return (
+    <div className={cn('flex h-full flex-col bg-background', className)}>
+      {/* Header */}
+      <div className="flex items-center justify-between border-b px-4 py-3">
+        <div className="flex items-center gap-2">
+          <GitCompare className="h-4 w-4 text-muted-foreground" />
+          <h3 className="text-sm font-medium">Version History</h3>
+          <span className="text-xs text-muted-foreground">({versions.length})</span>
+        </div>
+        <div className="flex items-center gap-2">
+          {comparison && (
+            <Button size="sm" onClick={handleRevert} disabled={isRestoring || isComparing}>
+              {isRestoring ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <RotateCcw className="mr-2 h-4 w-4" />
+              )}
+              Revert to v{comparison.from_version.version_number}
+            </Button>
+          )}
+          {onClose && (
+            <Button variant="ghost" size="sm" onClick={onClose}>
+              Close
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex flex-1 items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <div className="flex min-h-0 flex-1">
+          {/* Version list */}
+          <ScrollArea className="w-56 shrink-0 border-r">
+            <div className="space-y-1 p-2">
+              {versions.map((version) => (
+                <button
+                  key={version.id}
+                  onClick={() => !version.is_current && setSelectedId(version.id)}
+                  disabled={version.is_current}
+                  className={cn(
+                    'w-full rounded-md p-2 text-left transition-colors',
+                    version.id === selectedId ? 'bg-accent' : 'hover:bg-accent',
+                    version.is_current && 'cursor-default'
+                  )}
+                >
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium">v{version.version_number}</span>
+                    {version.is_current && (
+                      <Badge variant="secondary" className="text-[10px]">
+                        Current
+                      </Badge>
+                    )}
+                    {version.is_published && (
+                      <Badge
+                        variant="secondary"
+                        className="bg-green-100 text-[10px] text-green-800"
+                      >
+                        Live
+                      </Badge>
+                    )}
+                  </div>
+                  <p className="truncate text-xs text-muted-foreground">
+                    {version.version_name || version.change_summary || 'Untitled version'}
+                  </p>
+                  <p className="flex items-center gap-1 text-[10px] text-muted-foreground">
+                    <Clock className="h-3 w-3" />
+                    {formatDate(version.created_at)}
+                  </p>
+                </button>
+              ))}
+            </div>
+          </ScrollArea>
+
+          {/* Side-by-side diff */}
+          <ScrollArea className="flex-1">
+            <div className="p-4">
+              {isComparing ? (
+                <div className="flex items-center justify-center py-12">
+                  <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                </div>
+              ) : !comparison || !diff ? (
+                <div className="flex flex-col items-center justify-center py-12 text-center">
+                  <GitCompare className="mb-2 h-8 w-8 text-muted-foreground/50" />
+                  <p className="text-sm text-muted-foreground">
+                    {versions.length > 1
+                      ? 'Select a version to compare'
+                      : 'Save another version to compare changes'}
+                  </p>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <div className="grid grid-cols-2 gap-2 text-xs font-medium text-muted-foreground">
+                    <span>v{comparison.from_version.version_number}</span>
+                    <span>v{comparison.to_version.version_number} (current)</span>
+                  </div>
+
+                  {!hasChanges && (
+                    <p className="py-4 text-center text-sm text-muted-foreground">
+                      No differences from the current version
+                    </p>
+                  )}
+
+                  {diff.sections.map((row) => {
+                    const before = findSection(comparison.from_version, row.section_id);
+                    const after = findSection(comparison.to_version, row.section_id);
+
+                    return (
+                      <div key={row.section_id} className="grid grid-cols-2 gap-2">
+                        {[
+                          { section: before, side: 'old' as const },
+                          { section: after, side: 'new' as const },
+                        ].map(({ section, side }) => (
+                          <div
+                            key={side}
+                            className={cn(
+                              'rounded-md border p-2 text-xs',
+                              section ? changeConfig[row.change][side] : 'border-dashed opacity-40'
+                            )}
+                          >
+                            {section && (
+                              <>
+                                <div className="flex items-center gap-2">
+                                  <span className="truncate font-medium">
+                                    {sectionLabel(section)}
+                                  </span>
+                                  <span className="capitalize text-muted-foreground">
+                                    {section.type.replace('_', ' ')}
+                                  </span>
+                                  {side === 'new' && row.moved && (
+                                    <Badge
+                                      variant="secondary"
+                                      className="ml-auto bg-orange-100 text-[10px] text-orange-800"
+                                    >
+                                      <Move className="mr-1 h-3 w-3" />
+                                      Moved
+                                    </Badge>
+                                  )}
+                                  {side === 'new' && row.change !== 'unchanged' && (
+                                    <Badge
+                                      variant="secondary"
+                                      className={cn('text-[10px]', !row.moved && 'ml-auto')}
+                                    >
+                                      {changeConfig[row.change].label}
+                                    </Badge>
+                                  )}
+                                </div>
+                                {row.field_changes.map((change) => (
+                                  <div key={change.path} className="mt-1 flex gap-1">
+                                    <span className="shrink-0 text-muted-foreground">
+                                      {change.path}:
+                                    </span>
+                                    <span className="break-all">
+                                      {formatValue(side === 'old' ? change.old : change.new)}
+                                    </span>
+                                  </div>
+                                ))}
+                              </>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    );
+                  })}
+
+                  {Object.keys(diff.metadata_changes).length > 0 && (
+                    <div className="rounded-md border p-2 text-xs">
+                      <p className="mb-1 font-medium">Page settings</p>
+                      {Object.entries(diff.metadata_changes).map(([path, change]) => (
+                        <div key={path} className="flex items-center gap-1">
+                          <span className="text-muted-foreground">{path}:</span>
+                          <span className="break-all">{formatValue(change.old)}</span>
+                          <ArrowRight className="h-3 w-3 shrink-0" />
+                          <span className="break-all">{formatValue(change.new)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          </ScrollArea>
+        </div>
+      )}
+    </div>
+  );
+}
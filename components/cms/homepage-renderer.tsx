@@ -12,6 +12,9 @@ import { ProductCarouselSection } from './sections/product-carousel-section';
 import { TextBlockSection } from './sections/text-block-section';
 import { ImageBannerSection } from './sections/image-banner-section';
 import { CategoryGridSection } from './sections/category-grid-section';
+import { TestimonialsSection } from './sections/testimonials-section';
+import { NewsletterSection } from './sections/newsletter-section';
+import { CampaignShowcaseSection } from './sections/campaign-showcase-section';
 
 interface HomepageRendererProps {
   sections: Section[];
@@ -91,6 +94,27 @@ function SectionRenderer({ section, isPreview }: { section: Section; isPreview:
         </WrapperComponent>
       );
 
+    case 'testimonials':
+      return (
+        <WrapperComponent>
+          <TestimonialsSection section={section} isPreview={isPreview} />
+        </WrapperComponent>
+      );
+
+    case 'newsletter':
+      return (
+        <WrapperComponent>
+          <NewsletterSection section={section} isPreview={isPreview} />
+        </WrapperComponent>
+      );
+
+    case 'campaign_showcase':
+      return (
+        <WrapperComponent>
+          <CampaignShowcaseSection section={section} isPreview={isPreview} />
+        </WrapperComponent>
+      );
+
     default:
       // Exhaustive check - TypeScript will error if we miss a case
       const _exhaustiveCheck: never = section;
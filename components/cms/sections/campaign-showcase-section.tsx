@@ -0,0 +1,166 @@
+/**
+ * Campaign Showcase Section - Storefront Component
+ *
+ * Renders active featured campaigns as tiles linking to their landing pages.
+ */
+
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { CampaignShowcaseSection as CampaignShowcaseSectionType } from '@/types/cms';
+import { Campaign } from '@/types/shop';
+import { OptimizedImage } from '@/components/ui/optimized-image';
+import { cn } from '@/lib/utils';
+import { apiUrl } from '@/lib/utils/api';
+
+interface CampaignShowcaseSectionProps {
+  section: CampaignShowcaseSectionType;
+  isPreview?: boolean;
+}
+
+export function CampaignShowcaseSection({
+  section,
+  isPreview = false,
+}: CampaignShowcaseSectionProps) {
+  const { config } = section;
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchCampaigns = async () => {
+      setIsLoading(true);
+
+      try {
+        const params = new URLSearchParams({ featured: 'true', limit: String(config.limit) });
+        if (config.homepageOnly) {
+          params.set('homepage', 'true');
+        }
+
+        const response = await fetch(apiUrl(`/api/campaigns?${params.toString()}`));
+        const result = await response.json();
+
+        setCampaigns(result.status === 'success' ? result.data.campaigns : []);
+      } catch (error) {
+        console.error('Error fetching campaigns:', error);
+        setCampaigns([]);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchCampaigns();
+  }, [config.limit, config.homepageOnly]);
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-12">
+        <div className="animate-pulse space-y-4">
+          {config.title && <div className="mx-auto h-8 w-48 rounded bg-muted" />}
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-3">
+            {Array.from({ length: Math.min(config.limit, 3) }).map((_, i) => (
+              <div key={i} className="h-64 rounded bg-muted" />
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // Nothing to promote - hide the section on the storefront
+  if (campaigns.length === 0) {
+    return isPreview ? (
+      <div className="container mx-auto px-4 py-12 text-center text-sm text-muted-foreground">
+        No active featured campaigns
+      </div>
+    ) : null;
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-12">
+      {config.title && (
+        <h2
+          className={cn(
+            'text-center text-3xl font-bold text-foreground md:text-4xl',
+            config.subtitle ? 'mb-2' : 'mb-8'
+          )}
+        >
+          {config.title}
+        </h2>
+      )}
+      {config.subtitle && (
+        <p className="mb-8 text-center text-muted-foreground">{config.subtitle}</p>
+      )}
+
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-3">
+        {campaigns.map((campaign) => (
+          <CampaignCard
+            key={campaign.id}
+            campaign={campaign}
+            cardStyle={config.cardStyle || 'overlay'}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Campaign Card Component
+ */
+interface CampaignCardProps {
+  campaign: Campaign;
+  cardStyle: 'overlay' | 'below' | 'minimal';
+}
+
+function CampaignCard({ campaign, cardStyle }: CampaignCardProps) {
+  const imageUrl = campaign.thumbnail_url || campaign.banner_image_url;
+
+  return (
+    <Link
+      href={`/campaigns/${campaign.slug}`}
+      className="group relative overflow-hidden rounded-lg transition-transform hover:scale-105"
+    >
+      <div
+        className="relative aspect-[4/3] bg-muted"
+        style={{ backgroundColor: campaign.theme_color || undefined }}
+      >
+        {imageUrl && (
+          <OptimizedImage
+            src={imageUrl}
+            alt={campaign.name}
+            fill
+            className="object-cover"
+            sizes="(max-width: 768px) 100vw, (max-width: 1024px) 50vw, 33vw"
+          />
+        )}
+
+        {cardStyle === 'overlay' && (
+          <>
+            <div className="absolute inset-0 bg-black/40 transition-opacity group-hover:bg-black/50" />
+            <div className="absolute inset-0 flex items-center justify-center p-4">
+              <h3 className="text-center text-2xl font-bold text-white">{campaign.name}</h3>
+            </div>
+          </>
+        )}
+
+        {cardStyle === 'minimal' && (
+          <div className="absolute inset-0 flex items-end bg-gradient-to-t from-black/60 to-transparent p-4">
+            <h3 className="text-lg font-semibold text-white">{campaign.name}</h3>
+          </div>
+        )}
+      </div>
+
+      {cardStyle === 'below' && (
+        <div className="p-4">
+          <h3 className="text-lg font-semibold text-foreground">{campaign.name}</h3>
+          {campaign.description && (
+            <p className="mt-1 line-clamp-2 text-sm text-muted-foreground">
+              {campaign.description}
+            </p>
+          )}
+        </div>
+      )}
+    </Link>
+  );
+}
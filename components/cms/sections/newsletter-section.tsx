@@ -0,0 +1,141 @@
+/**
+ * Newsletter Section - Storefront Component
+ *
+ * Email signup form. Subscriptions go to /api/newsletter, which sends a
+ * confirmation email before the address is added to the list.
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { useParams } from 'next/navigation';
+import { Check, Loader2, Send } from 'lucide-react';
+import { NewsletterSection as NewsletterSectionType } from '@/types/cms';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { OptimizedImage } from '@/components/ui/optimized-image';
+import { cn } from '@/lib/utils';
+import { apiUrl } from '@/lib/utils/api';
+
+interface NewsletterSectionProps {
+  section: NewsletterSectionType;
+  isPreview?: boolean;
+}
+
+type SubmitState = 'idle' | 'loading' | 'success' | 'error';
+
+export function NewsletterSection({ section, isPreview = false }: NewsletterSectionProps) {
+  const { config } = section;
+  const params = useParams();
+  const locale = params?.locale || 'en';
+  const [email, setEmail] = useState('');
+  const [submitState, setSubmitState] = useState<SubmitState>('idle');
+  const [errorMessage, setErrorMessage] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // The editor preview shows the form without subscribing anyone
+    if (isPreview) return;
+
+    setSubmitState('loading');
+    setErrorMessage('');
+
+    try {
+      const response = await fetch(apiUrl('/api/newsletter'), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, locale, source: `cms_section:${section.id}` }),
+      });
+      const result = await response.json();
+
+      if (result.status !== 'success') {
+        throw new Error(result.error?.message || 'Something went wrong. Please try again.');
+      }
+
+      setSubmitState('success');
+      setEmail('');
+    } catch (error) {
+      setErrorMessage((error as Error).message);
+      setSubmitState('error');
+    }
+  };
+
+  const isSplit = config.layout === 'split' && !!config.backgroundImage;
+
+  const form = (
+    <div className={cn('w-full', !isSplit && 'mx-auto max-w-xl text-center')}>
+      <h2 className="mb-3 text-3xl font-bold text-foreground md:text-4xl">{config.title}</h2>
+      {config.subtitle && <p className="mb-8 text-lg text-muted-foreground">{config.subtitle}</p>}
+
+      {submitState === 'success' ? (
+        <p className="flex items-center gap-2 text-green-600" role="status">
+          <Check className="h-5 w-5 shrink-0" />
+          {config.successMessage || 'Thanks! Check your inbox to confirm your subscription.'}
+        </p>
+      ) : (
+        <form onSubmit={handleSubmit} className="flex flex-col gap-3 sm:flex-row">
+          <Input
+            type="email"
+            required
+            placeholder={config.placeholder || 'Enter your email address'}
+            value={email}
+            onChange={(e) => {
+              setEmail(e.target.value);
+              if (submitState === 'error') setSubmitState('idle');
+            }}
+            disabled={submitState === 'loading'}
+            aria-label="Email address"
+            className={cn('h-12 flex-1', submitState === 'error' && 'border-red-400')}
+          />
+          <Button
+            type="submit"
+            size="lg"
+            disabled={submitState === 'loading'}
+            className="h-12 min-w-[140px]"
+          >
+            {submitState === 'loading' ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Send className="mr-2 h-4 w-4" />
+            )}
+            {config.buttonText}
+          </Button>
+        </form>
+      )}
+
+      {submitState === 'error' && errorMessage && (
+        <p className="mt-2 text-sm text-red-500">{errorMessage}</p>
+      )}
+
+      {config.privacyText && (
+        <p className="mt-4 text-xs text-muted-foreground">{config.privacyText}</p>
+      )}
+    </div>
+  );
+
+  if (isSplit) {
+    return (
+      <div style={{ backgroundColor: config.backgroundColor }}>
+        <div className="container mx-auto grid grid-cols-1 items-center gap-8 px-4 py-16 md:grid-cols-2">
+          <div className="relative aspect-[4/3] overflow-hidden rounded-lg bg-muted">
+            <OptimizedImage
+              src={config.backgroundImage!}
+              alt=""
+              fill
+              className="object-cover"
+              sizes="(max-width: 768px) 100vw, 50vw"
+            />
+          </div>
+          {form}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ backgroundColor: config.backgroundColor }}>
+      <div className="container mx-auto px-4 py-16">{form}</div>
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+/**
+ * Testimonials Section - Storefront Component
+ *
+ * Renders customer quotes as a grid or an auto-rotating carousel.
+ */
+
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Quote, Star } from 'lucide-react';
+import { TestimonialItem, TestimonialsSection as TestimonialsSectionType } from '@/types/cms';
+import { OptimizedImage } from '@/components/ui/optimized-image';
+import { cn } from '@/lib/utils';
+
+interface TestimonialsSectionProps {
+  section: TestimonialsSectionType;
+  isPreview?: boolean;
+}
+
+export function TestimonialsSection({ section, isPreview = false }: TestimonialsSectionProps) {
+  const { config } = section;
+  const testimonials = config.testimonials || [];
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const isCarousel = config.layout === 'carousel' && testimonials.length > 1;
+
+  // Advance the carousel; paused in the editor preview so it stays put while editing
+  useEffect(() => {
+    if (!isCarousel || isPreview) return;
+
+    const timer = setInterval(
+      () => setActiveIndex((index) => (index + 1) % testimonials.length),
+      config.autoplayDelay || 6000
+    );
+    return () => clearInterval(timer);
+  }, [isCarousel, isPreview, testimonials.length, config.autoplayDelay]);
+
+  if (testimonials.length === 0) {
+    return isPreview ? (
+      <div className="container mx-auto px-4 py-12 text-center text-sm text-muted-foreground">
+        No testimonials added yet
+      </div>
+    ) : null;
+  }
+
+  return (
+    <div style={{ backgroundColor: config.backgroundColor }}>
+      <div className="container mx-auto px-4 py-16">
+        {config.title && (
+          <h2
+            className={cn(
+              'text-center text-3xl font-bold text-foreground md:text-4xl',
+              config.subtitle ? 'mb-2' : 'mb-10'
+            )}
+          >
+            {config.title}
+          </h2>
+        )}
+        {config.subtitle && (
+          <p className="mb-10 text-center text-muted-foreground">{config.subtitle}</p>
+        )}
+
+        {isCarousel ? (
+          <div className="mx-auto max-w-3xl">
+            <TestimonialCard
+              testimonial={testimonials[activeIndex % testimonials.length]}
+              showRating={config.showRating}
+              featured
+            />
+            <div className="mt-6 flex justify-center gap-2">
+              {testimonials.map((testimonial, index) => (
+                <button
+                  key={testimonial.id}
+                  onClick={() => setActiveIndex(index)}
+                  aria-label={`Show testimonial ${index + 1}`}
+                  className={cn(
+                    'h-2 rounded-full transition-all',
+                    index === activeIndex % testimonials.length
+                      ? 'w-6 bg-foreground'
+                      : 'w-2 bg-muted-foreground/30'
+                  )}
+                />
+              ))}
+            </div>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 gap-6 md:grid-cols-2 lg:grid-cols-3">
+            {testimonials.map((testimonial) => (
+              <TestimonialCard
+                key={testimonial.id}
+                testimonial={testimonial}
+                showRating={config.showRating}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Testimonial Card Component
+ */
+interface TestimonialCardProps {
+  testimonial: TestimonialItem;
+  showRating?: boolean;
+  featured?: boolean; // Single large quote for the carousel
+}
+
+function TestimonialCard({
+  testimonial,
+  showRating = true,
+  featured = false,
+}: TestimonialCardProps) {
+  return (
+    <figure
+      className={cn(
+        'flex flex-col p-6',
+        featured ? 'text-center' : 'rounded-lg border bg-card shadow-sm'
+      )}
+    >
+      <Quote className={cn('mb-4 h-6 w-6 text-muted-foreground/40', featured && 'mx-auto')} />
+
+      {showRating && testimonial.rating && (
+        <div
+          className={cn('mb-3 flex gap-0.5', featured && 'justify-center')}
+          aria-label={`${testimonial.rating} out of 5 stars`}
+        >
+          {Array.from({ length: 5 }).map((_, i) => (
+            <Star
+              key={i}
+              className={cn(
+                'h-4 w-4',
+                i < (testimonial.rating ?? 0) ? 'fill-amber-400 text-amber-400' : 'text-muted'
+              )}
+            />
+          ))}
+        </div>
+      )}
+
+      <blockquote className="flex-1 text-foreground">
+        <p className={cn(featured ? 'text-xl md:text-2xl' : 'text-base')}>{testimonial.quote}</p>
+      </blockquote>
+
+      <figcaption className={cn('mt-6 flex items-center gap-3', featured && 'justify-center')}>
+        {testimonial.avatar && (
+          <div className="relative h-10 w-10 shrink-0 overflow-hidden rounded-full bg-muted">
+            <OptimizedImage
+              src={testimonial.avatar}
+              alt={testimonial.author}
+              fill
+              className="object-cover"
+              sizes="40px"
+            />
+          </div>
+        )}
+        <div className={cn(featured ? 'text-center' : 'text-left')}>
+          <div className="font-semibold text-foreground">{testimonial.author}</div>
+          {testimonial.role && (
+            <div className="text-sm text-muted-foreground">{testimonial.role}</div>
+          )}
+        </div>
+      </figcaption>
+    </figure>
+  );
+}
@@ -6,13 +6,15 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { ScrollReveal } from '@/components/layout/scroll-reveal';
 import { ResponsiveH2 } from '@/components/ui/responsive-typography';
-import { useTranslations } from 'next-intl';
+import { useLocale, useTranslations } from 'next-intl';
 import { cn } from '@/lib/utils';
+import { apiUrl } from '@/lib/utils/api';
 
 type SubmitState = 'idle' | 'loading' | 'success' | 'error';
 
 export function NewsletterSignup() {
   const t = useTranslations('landing.newsletter');
+  const locale = useLocale();
   const [email, setEmail] = useState('');
   const [submitState, setSubmitState] = useState<SubmitState>('idle');
   const [errorMessage, setErrorMessage] = useState('');
@@ -29,11 +31,22 @@ export function NewsletterSignup() {
     setSubmitState('loading');
     setErrorMessage('');
 
-    // Simulate API call
-    await new Promise((resolve) => setTimeout(resolve, 1500));
-
-    // In real implementation, you would call your newsletter API here
-    // const response = await fetch('/api/newsletter', { method: 'POST', body: JSON.stringify({ email }) });
+    try {
+      const response = await fetch(apiUrl('/api/newsletter'), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, locale, source: 'landing' }),
+      });
+      const result = await response.json();
+
+      if (result.status !== 'success') {
+        throw new Error(result.error?.message || t('error.generic'));
+      }
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : t('error.generic'));
+      setSubmitState('error');
+      return;
+    }
 
     setSubmitState('success');
     setEmail('');
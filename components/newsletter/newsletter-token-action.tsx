@@ -0,0 +1,95 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { CheckCircle, Loader2, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { apiUrl } from '@/lib/utils/api';
+
+type ActionState = 'loading' | 'success' | 'error';
+
+interface NewsletterTokenActionProps {
+  action: 'confirm' | 'unsubscribe';
+}
+
+/**
+ * Runs the confirm or unsubscribe link from a newsletter email. The token is
+ * posted rather than sent as a GET so mail scanners that prefetch links
+ * can't confirm or unsubscribe on the reader's behalf.
+ */
+export function NewsletterTokenAction({ action }: NewsletterTokenActionProps) {
+  const t = useTranslations('newsletter');
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+  const [state, setState] = useState<ActionState>(token ? 'loading' : 'error');
+  const [errorMessage, setErrorMessage] = useState(token ? '' : t('missingToken'));
+  // Confirmation tokens are single use, so never post twice (e.g. Strict Mode re-runs)
+  const submitted = useRef(false);
+
+  useEffect(() => {
+    if (!token || submitted.current) return;
+    submitted.current = true;
+
+    const run = async () => {
+      try {
+        const response = await fetch(apiUrl(`/api/newsletter/${action}`), {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ token }),
+        });
+        const result = await response.json();
+
+        if (result.status !== 'success') {
+          throw new Error(result.error?.message || t(`${action}.error`));
+        }
+
+        setState('success');
+      } catch (error) {
+        setErrorMessage(error instanceof Error ? error.message : t(`${action}.error`));
+        setState('error');
+      }
+    };
+
+    run();
+  }, [action, token, t]);
+
+  return (
+    <main className="container mx-auto px-4 py-16">
+      <Card className="mx-auto max-w-md text-center">
+        <CardHeader>
+          <CardTitle>{t(`${action}.title`)}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {state === 'loading' && (
+            <p className="flex items-center justify-center gap-2 text-muted-foreground">
+              <Loader2 className="h-5 w-5 animate-spin" />
+              {t(`${action}.loading`)}
+            </p>
+          )}
+
+          {state === 'success' && (
+            <div className="space-y-3">
+              <CheckCircle className="mx-auto h-12 w-12 text-green-500" />
+              <p>{t(`${action}.success`)}</p>
+            </div>
+          )}
+
+          {state === 'error' && (
+            <div className="space-y-3">
+              <XCircle className="mx-auto h-12 w-12 text-red-500" />
+              <p className="font-medium">{t(`${action}.error`)}</p>
+              {errorMessage && <p className="text-sm text-muted-foreground">{errorMessage}</p>}
+            </div>
+          )}
+
+          <Button asChild variant="outline">
+            <Link href="/">{t('backToShop')}</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    </main>
+  );
+}
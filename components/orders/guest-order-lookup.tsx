@@ -0,0 +1,247 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { CheckCircle, Loader2, Package, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useAuth } from '@/lib/auth/auth-context';
+import { apiUrl } from '@/lib/utils/api';
+import { formatCurrency, isValidCurrency, ISRAELI_CURRENCY } from '@/lib/utils/currency';
+
+type LookupState = 'loading' | 'ready' | 'error';
+type ClaimState = 'idle' | 'claiming' | 'claimed';
+
+/**
+ * Shows a guest order from the signed link in its confirmation email, and
+ * lets a signed-in shopper with the same email add it to their account.
+ */
+export function GuestOrderLookup() {
+  const t = useTranslations('orderLookup');
+  const searchParams = useSearchParams();
+  const { session } = useAuth();
+  const orderId = searchParams.get('order');
+  const token = searchParams.get('token');
+  const [state, setState] = useState<LookupState>(orderId && token ? 'loading' : 'error');
+  const [errorMessage, setErrorMessage] = useState(orderId && token ? '' : t('missingToken'));
+  const [order, setOrder] = useState<any>(null);
+  const [claimState, setClaimState] = useState<ClaimState>('idle');
+  const [claimError, setClaimError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!orderId || !token) return;
+
+    const run = async () => {
+      try {
+        const response = await fetch(apiUrl('/api/orders/lookup'), {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ orderId, token }),
+        });
+        const result = await response.json();
+
+        if (result.status !== 'success') {
+          throw new Error(result.error?.message || t('error'));
+        }
+
+        setOrder(result.data);
+        setClaimState(result.data.claimed ? 'claimed' : 'idle');
+        setState('ready');
+      } catch (error) {
+        setErrorMessage(error instanceof Error ? error.message : t('error'));
+        setState('error');
+      }
+    };
+
+    run();
+  }, [orderId, token, t]);
+
+  const handleClaim = useCallback(async () => {
+    setClaimState('claiming');
+    setClaimError(null);
+
+    try {
+      const response = await fetch(apiUrl('/api/orders/claim'), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ orderId, token }),
+      });
+      const result = await response.json();
+
+      if (result.status !== 'success') {
+        throw new Error(result.error?.message || t('error'));
+      }
+
+      setClaimState('claimed');
+    } catch (error) {
+      setClaimError(error instanceof Error ? error.message : t('error'));
+      setClaimState('idle');
+    }
+  }, [orderId, token, t]);
+
+  const formatAmount = (amount: number | null | undefined) =>
+    formatCurrency(
+      Number(amount ?? 0),
+      order?.currency && isValidCurrency(order.currency) ? order.currency : ISRAELI_CURRENCY
+    );
+
+  // Returning from sign-in lands back on this link
+  const returnTo = `?redirect=${encodeURIComponent(`/orders/lookup?order=${orderId}&token=${token}`)}`;
+
+  return (
+    <main className="container mx-auto px-4 py-16">
+      <Card className="mx-auto max-w-2xl">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Package className="h-5 w-5" />
+            {t('title')}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {state === 'loading' && (
+            <p className="flex items-center justify-center gap-2 text-muted-foreground">
+              <Loader2 className="h-5 w-5 animate-spin" />
+              {t('loading')}
+            </p>
+          )}
+
+          {state === 'error' && (
+            <div className="space-y-3 text-center">
+              <XCircle className="mx-auto h-12 w-12 text-red-500" />
+              <p className="font-medium">{t('error')}</p>
+              {errorMessage && <p className="text-sm text-muted-foreground">{errorMessage}</p>}
+            </div>
+          )}
+
+          {state === 'ready' && order && (
+            <>
+              <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+                <div>
+                  <p className="text-sm text-gray-600">{t('orderNumber')}</p>
+                  <p className="font-medium">{order.order_number}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-gray-600">{t('placedOn')}</p>
+                  <p className="font-medium">{new Date(order.created_at).toLocaleDateString()}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-gray-600">{t('status')}</p>
+                  <Badge variant="secondary">{order.status}</Badge>
+                </div>
+                {order.estimated_delivery && (
+                  <div>
+                    <p className="text-sm text-gray-600">{t('estimatedDelivery')}</p>
+                    <p className="font-medium">
+                      {new Date(order.estimated_delivery).toLocaleDateString()}
+                    </p>
+                  </div>
+                )}
+                {order.shipments?.[0]?.tracking_number && (
+                  <div>
+                    <p className="text-sm text-gray-600">{t('tracking')}</p>
+                    <Link
+                      href={`/tracking?tracking=${order.shipments[0].tracking_number}`}
+                      className="font-medium text-blue-600 hover:text-blue-800"
+                    >
+                      {order.shipments[0].tracking_number}
+                    </Link>
+                  </div>
+                )}
+              </div>
+
+              <Separator />
+
+              <div className="space-y-3">
+                <p className="font-medium">{t('items')}</p>
+                {(order.order_items || []).map((item: any) => (
+                  <div key={item.id} className="flex justify-between text-sm">
+                    <span>
+                      {item.products?.name || item.sku}{' '}
+                      <span className="text-gray-500">
+                        {t('quantity', { count: item.quantity })}
+                      </span>
+                    </span>
+                    <span>{formatAmount(item.price * item.quantity)}</span>
+                  </div>
+                ))}
+              </div>
+
+              <Separator />
+
+              <div className="space-y-2 text-sm">
+                {order.subtotal !== null && (
+                  <div className="flex justify-between">
+                    <span>{t('subtotal')}</span>
+                    <span>{formatAmount(order.subtotal)}</span>
+                  </div>
+                )}
+                {order.shipping_cost !== null && (
+                  <div className="flex justify-between">
+                    <span>{t('shipping')}</span>
+                    <span>{formatAmount(order.shipping_cost)}</span>
+                  </div>
+                )}
+                {Number(order.discount_amount) > 0 && (
+                  <div className="flex justify-between text-green-600">
+                    <span>{t('discount')}</span>
+                    <span>-{formatAmount(order.discount_amount)}</span>
+                  </div>
+                )}
+                <div className="flex justify-between font-semibold">
+                  <span>{t('total')}</span>
+                  <span>{formatAmount(order.total)}</span>
+                </div>
+              </div>
+
+              <Separator />
+
+              {claimState === 'claimed' ? (
+                <div className="space-y-3 text-center">
+                  <CheckCircle className="mx-auto h-8 w-8 text-green-500" />
+                  <p>{order.claimed ? t('claim.claimed') : t('claim.success')}</p>
+                  {session && (
+                    <Button asChild variant="outline">
+                      <Link href="/account/orders">{t('claim.viewOrders')}</Link>
+                    </Button>
+                  )}
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  <p className="font-medium">{t('claim.title')}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {t('claim.description', { email: order.guest_email })}
+                  </p>
+                  {claimError && <p className="text-sm text-red-600">{claimError}</p>}
+                  {session ? (
+                    <Button onClick={handleClaim} disabled={claimState === 'claiming'}>
+                      {claimState === 'claiming' ? t('claim.claiming') : t('claim.button')}
+                    </Button>
+                  ) : (
+                    <div className="flex flex-col gap-3 sm:flex-row">
+                      <Button asChild>
+                        <Link href={`/auth/register${returnTo}`}>{t('claim.createAccount')}</Link>
+                      </Button>
+                      <Button asChild variant="outline">
+                        <Link href={`/auth/login${returnTo}`}>{t('claim.signIn')}</Link>
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+
+          <div className="text-center">
+            <Button asChild variant="outline">
+              <Link href="/">{t('backToShop')}</Link>
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </main>
+  );
+}
@@ -20,6 +20,14 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   RotateCcw,
   X,
@@ -33,6 +41,15 @@ import {
 } from 'lucide-react';
 import { canCancelOrder, canReturnOrder, canReorderOrder } from './order-status';
 import { cn } from '@/lib/utils';
+import type { ReturnCondition, ReturnItem } from '@/lib/validations/return';
+
+interface OrderActionItem {
+  id: string;
+  quantity: number;
+  products: {
+    name: string;
+  };
+}
 
 interface Order {
   id: string;
@@ -40,13 +57,21 @@ interface Order {
   status: 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled' | 'returned';
   total: number;
   created_at: string;
+  order_items?: OrderActionItem[];
 }
 
+const RETURN_CONDITIONS: { value: ReturnCondition; label: string }[] = [
+  { value: 'unopened', label: 'Unopened' },
+  { value: 'like_new', label: 'Like new' },
+  { value: 'used', label: 'Used' },
+  { value: 'damaged', label: 'Damaged' },
+];
+
 interface OrderActionsProps {
   order: Order;
   onReorder?: (orderId: string) => void;
   onCancel?: (orderId: string, reason?: string) => void;
-  onReturn?: (orderId: string, reason?: string) => void;
+  onReturn?: (orderId: string, reason?: string, items?: ReturnItem[]) => void;
   onDownloadInvoice?: (orderId: string) => void;
   onContactSupport?: (orderId: string) => void;
   className?: string;
@@ -65,6 +90,8 @@ export function OrderActions({
   const [returnDialogOpen, setReturnDialogOpen] = useState(false);
   const [cancelReason, setCancelReason] = useState('');
   const [returnReason, setReturnReason] = useState('');
+  const [returnQuantities, setReturnQuantities] = useState<Record<string, number>>({});
+  const [returnConditions, setReturnConditions] = useState<Record<string, ReturnCondition>>({});
   const [isLoading, setIsLoading] = useState(false);
 
   const canCancel = canCancelOrder(order.status);
@@ -86,14 +113,39 @@ export function OrderActions({
     }
   };
 
+  const orderItems = order.order_items || [];
+
+  const getReturnQuantity = (item: OrderActionItem) => returnQuantities[item.id] ?? item.quantity;
+
+  const hasReturnItems =
+    orderItems.length === 0 || orderItems.some((item) => getReturnQuantity(item) > 0);
+
+  // A whole-order return leaves items unset so the server returns everything remaining
+  const getReturnItems = (): ReturnItem[] | undefined => {
+    const isPartial = orderItems.some(
+      (item) => getReturnQuantity(item) < item.quantity || returnConditions[item.id]
+    );
+    if (!isPartial) return undefined;
+
+    return orderItems
+      .filter((item) => getReturnQuantity(item) > 0)
+      .map((item) => ({
+        orderItemId: item.id,
+        quantity: getReturnQuantity(item),
+        condition: returnConditions[item.id] || 'unopened',
+      }));
+  };
+
   const handleReturn = async () => {
     if (!onReturn) return;
 
     setIsLoading(true);
     try {
-      await onReturn(order.id, returnReason);
+      await onReturn(order.id, returnReason, getReturnItems());
       setReturnDialogOpen(false);
       setReturnReason('');
+      setReturnQuantities({});
+      setReturnConditions({});
     } catch (error) {
       console.error('Error returning order:', error);
     } finally {
@@ -195,6 +247,57 @@ export function OrderActions({
                 </DialogHeader>
 
                 <div className="space-y-4">
+                  {orderItems.length > 0 && (
+                    <div className="space-y-3">
+                      <Label>Items to return</Label>
+                      {orderItems.map((item) => (
+                        <div key={item.id} className="flex items-center gap-3">
+                          <span className="min-w-0 flex-1 truncate text-sm">
+                            {item.products.name}
+                          </span>
+                          <Input
+                            type="number"
+                            min={0}
+                            max={item.quantity}
+                            value={getReturnQuantity(item)}
+                            onChange={(e) =>
+                              setReturnQuantities((prev) => ({
+                                ...prev,
+                                [item.id]: Math.min(
+                                  item.quantity,
+                                  Math.max(0, parseInt(e.target.value) || 0)
+                                ),
+                              }))
+                            }
+                            className="w-20"
+                            aria-label={`Quantity of ${item.products.name} to return`}
+                          />
+                          <Select
+                            value={returnConditions[item.id] || 'unopened'}
+                            onValueChange={(value) =>
+                              setReturnConditions((prev) => ({
+                                ...prev,
+                                [item.id]: value as ReturnCondition,
+                              }))
+                            }
+                            disabled={getReturnQuantity(item) === 0}
+                          >
+                            <SelectTrigger className="w-32">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {RETURN_CONDITIONS.map((condition) => (
+                                <SelectItem key={condition.value} value={condition.value}>
+                                  {condition.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
                   <div>
                     <Label htmlFor="return-reason">Reason for return *</Label>
                     <Textarea
@@ -216,7 +319,10 @@ export function OrderActions({
                   >
                     Cancel
                   </Button>
-                  <Button onClick={handleReturn} disabled={isLoading || !returnReason.trim()}>
+                  <Button
+                    onClick={handleReturn}
+                    disabled={isLoading || !returnReason.trim() || !hasReturnItems}
+                  >
                     {isLoading ? 'Submitting...' : 'Submit Return Request'}
                   </Button>
                 </DialogFooter>
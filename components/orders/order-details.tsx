@@ -19,6 +19,7 @@ import {
   Mail,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import type { ReturnItem } from '@/lib/validations/return';
 
 interface OrderItem {
   id: string;
@@ -61,7 +62,7 @@ interface OrderDetailsProps {
   order: Order;
   onReorder?: (orderId: string) => void;
   onCancel?: (orderId: string) => void;
-  onReturn?: (orderId: string) => void;
+  onReturn?: (orderId: string, reason?: string, items?: ReturnItem[]) => void;
   className?: string;
 }
 
@@ -12,6 +12,8 @@ import { GarmentDetails } from '@/components/products/detail/garment-details';
 import { FavoriteButton } from '@/components/products/favorite-button';
 import { useAddToCart } from '@/lib/hooks';
 import { useTranslations } from '@/lib/hooks/use-translations';
+import { getVariantPrice } from '@/lib/utils/shop-helpers';
+import { ProductVariant } from '@/types/shop';
 
 export interface ProductInformationProps {
   product: {
@@ -40,10 +42,19 @@ export interface ProductInformationProps {
       materials?: string;
     };
   };
+  // Selected size/color SKU; stock and price follow it when set
+  variant?: ProductVariant | null;
+  // Product is sold per variant, so one must be selected before adding to cart
+  requiresVariant?: boolean;
   className?: string;
 }
 
-export function ProductInformation({ product, className }: ProductInformationProps) {
+export function ProductInformation({
+  product,
+  variant,
+  requiresVariant = false,
+  className,
+}: ProductInformationProps) {
   const [quantity, setQuantity] = useState(1);
   const { isHebrew } = useTranslations();
   const [addToCart, { isLoading }] = useAddToCart({
@@ -52,18 +63,22 @@ export function ProductInformation({ product, className }: ProductInformationPro
     },
   });
 
-  const isOutOfStock = product.inventory_count <= 0;
-  const maxQuantity = isOutOfStock ? 0 : product.inventory_count;
+  const inventoryCount = variant ? variant.inventory_count : product.inventory_count;
+  const price = getVariantPrice(product, variant);
+  const needsVariantSelection = requiresVariant && !variant;
+  const isOutOfStock = inventoryCount <= 0;
+  const maxQuantity = isOutOfStock ? 0 : inventoryCount;
 
   const handleQuantityChange = (value: number) => {
     setQuantity(Math.max(1, Math.min(value, maxQuantity)));
   };
 
   const handleAddToCart = async () => {
-    if (isOutOfStock || quantity < 1) return;
+    if (isOutOfStock || needsVariantSelection || quantity < 1) return;
 
     await addToCart({
       product_id: product.id,
+      ...(variant && { variant_id: variant.id }),
       quantity,
     });
   };
@@ -90,21 +105,21 @@ export function ProductInformation({ product, className }: ProductInformationPro
 
       {/* Product price */}
       <div>
-        <ProductPrice price={product.price} discount_percent={product.discount_percent} size="lg" />
+        <ProductPrice price={price} discount_percent={product.discount_percent} size="lg" />
 
         {/* Inventory status */}
         <div className="mt-2 text-sm">
           {isOutOfStock ? (
             <span className="text-destructive">{isHebrew ? 'אזל מהמלאי' : 'Out of stock'}</span>
-          ) : product.inventory_count === 1 ? (
+          ) : inventoryCount === 1 ? (
             <span className="text-green-600 dark:text-green-500">
               {isHebrew ? 'פריט אחד אחרון במלאי' : 'Last item in stock'}
             </span>
           ) : (
             <span className="text-green-600 dark:text-green-500">
               {isHebrew
-                ? `במלאי (${product.inventory_count} זמינות)`
-                : `In stock (${product.inventory_count} available)`}
+                ? `במלאי (${inventoryCount} זמינות)`
+                : `In stock (${inventoryCount} available)`}
             </span>
           )}
         </div>
@@ -176,7 +191,7 @@ export function ProductInformation({ product, className }: ProductInformationPro
           size="lg"
           className="flex-1"
           onClick={handleAddToCart}
-          disabled={isLoading || isOutOfStock}
+          disabled={isLoading || isOutOfStock || needsVariantSelection}
         >
           {isLoading
             ? isHebrew
@@ -186,9 +201,13 @@ export function ProductInformation({ product, className }: ProductInformationPro
               ? isHebrew
                 ? 'אזל מהמלאי'
                 : 'Out of Stock'
-              : isHebrew
-                ? 'הוסף לעגלה'
-                : 'Add to Cart'}
+              : needsVariantSelection
+                ? isHebrew
+                  ? 'בחרו מידה וצבע'
+                  : 'Select size and color'
+                : isHebrew
+                  ? 'הוסף לעגלה'
+                  : 'Add to Cart'}
         </Button>
         <div className="flex space-x-3">
           <FavoriteButton
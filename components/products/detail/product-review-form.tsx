@@ -0,0 +1,146 @@
+'use client';
+
+import { FormEvent, useState } from 'react';
+import Link from 'next/link';
+import { useTranslations } from 'next-intl';
+import { Star } from 'lucide-react';
+
+import { cn } from '@/lib/utils';
+import { useAuth } from '@/lib/auth/auth-context';
+import { apiUrl } from '@/lib/utils/api';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+
+export interface ProductReviewFormProps {
+  productId: string;
+  onSubmitted?: () => void;
+  className?: string;
+}
+
+type SubmitState = 'idle' | 'submitting' | 'submitted';
+
+/**
+ * Write-a-review form on the product page; the delivery email links here.
+ * Reviews are held for moderation before they are shown.
+ */
+export function ProductReviewForm({ productId, onSubmitted, className }: ProductReviewFormProps) {
+  const t = useTranslations('products.reviewForm');
+  const { session } = useAuth();
+  const [rating, setRating] = useState(0);
+  const [hoverRating, setHoverRating] = useState(0);
+  const [title, setTitle] = useState('');
+  const [content, setContent] = useState('');
+  const [state, setState] = useState<SubmitState>('idle');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+
+    if (rating === 0) {
+      setError(t('chooseRating'));
+      return;
+    }
+
+    setState('submitting');
+    setError(null);
+
+    try {
+      const response = await fetch(apiUrl(`/api/products/${productId}/reviews`), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rating, title, content }),
+      });
+      const result = await response.json();
+
+      if (result.status !== 'success') {
+        throw new Error(result.error?.message || t('failed'));
+      }
+
+      setState('submitted');
+      onSubmitted?.();
+    } catch (submitError) {
+      setError(submitError instanceof Error ? submitError.message : t('failed'));
+      setState('idle');
+    }
+  };
+
+  return (
+    <div id="write-review" className={cn('scroll-mt-24 rounded-lg border p-6', className)}>
+      <h3 className="mb-4 text-lg font-semibold">{t('title')}</h3>
+
+      {!session ? (
+        <p className="text-sm text-muted-foreground">
+          <Link
+            href={`/auth/login?redirect=${encodeURIComponent(`/products/${productId}#write-review`)}`}
+            className="font-medium text-primary hover:underline"
+          >
+            {t('signIn')}
+          </Link>{' '}
+          {t('signInToReview')}
+        </p>
+      ) : state === 'submitted' ? (
+        <p className="text-sm text-muted-foreground">{t('submitted')}</p>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>{t('rating')}</Label>
+            <div className="flex" onMouseLeave={() => setHoverRating(0)}>
+              {[1, 2, 3, 4, 5].map((value) => (
+                <button
+                  key={value}
+                  type="button"
+                  aria-label={t('stars', { count: value })}
+                  onClick={() => setRating(value)}
+                  onMouseEnter={() => setHoverRating(value)}
+                  className="p-0.5"
+                >
+                  <Star
+                    className={cn(
+                      'h-6 w-6',
+                      value <= (hoverRating || rating)
+                        ? 'fill-yellow-400 text-yellow-400'
+                        : 'text-gray-300'
+                    )}
+                  />
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="review-title">{t('reviewTitle')}</Label>
+            <Input
+              id="review-title"
+              value={title}
+              onChange={(event) => setTitle(event.target.value)}
+              minLength={3}
+              maxLength={120}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="review-content">{t('content')}</Label>
+            <Textarea
+              id="review-content"
+              value={content}
+              onChange={(event) => setContent(event.target.value)}
+              minLength={10}
+              maxLength={5000}
+              rows={5}
+              required
+            />
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <Button type="submit" disabled={state === 'submitting'}>
+            {state === 'submitting' ? t('submitting') : t('submit')}
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -2,8 +2,11 @@
 
 import { useState } from 'react';
 import { Star, ThumbsUp, ThumbsDown, ChevronDown, ChevronUp } from 'lucide-react';
+import { useLocale, useTranslations } from 'next-intl';
 
 import { cn } from '@/lib/utils';
+import { useAuth } from '@/lib/auth/auth-context';
+import { apiUrl } from '@/lib/utils/api';
 import { Button } from '@/components/ui/button';
 
 export interface Review {
@@ -31,6 +34,19 @@ export interface ProductReviewsProps {
   className?: string;
 }
 
+type VoteCounts = Pick<Review, 'helpful_count' | 'unhelpful_count'>;
+
+// Moves one vote between the counts: adds the new vote, drops the replaced one
+function applyVote(counts: VoteCounts, helpful: boolean, previous?: boolean): VoteCounts {
+  const next = { ...counts };
+  if (previous !== undefined) {
+    const key = previous ? 'helpful_count' : 'unhelpful_count';
+    next[key] = Math.max(0, next[key] - 1);
+  }
+  next[helpful ? 'helpful_count' : 'unhelpful_count'] += 1;
+  return next;
+}
+
 export function ProductReviews({
   productId,
   reviews,
@@ -39,8 +55,15 @@ export function ProductReviews({
   ratingCounts,
   className,
 }: ProductReviewsProps) {
+  const t = useTranslations('reviews');
+  const locale = useLocale();
+  const { session } = useAuth();
   const [expandedReviews, setExpandedReviews] = useState<Record<string, boolean>>({});
   const [visibleReviews, setVisibleReviews] = useState(3);
+  // Counts after this shopper's votes, and the votes they cast on this page
+  const [voteCounts, setVoteCounts] = useState<Record<string, VoteCounts>>({});
+  const [myVotes, setMyVotes] = useState<Record<string, boolean>>({});
+  const [voteErrors, setVoteErrors] = useState<Record<string, string>>({});
 
   const toggleReviewExpansion = (reviewId: string) => {
     setExpandedReviews((prev) => ({
@@ -49,13 +72,73 @@ export function ProductReviews({
     }));
   };
 
+  const getCounts = (review: Review): VoteCounts =>
+    voteCounts[review.id] || {
+      helpful_count: review.helpful_count,
+      unhelpful_count: review.unhelpful_count,
+    };
+
+  // Counts update straight away and roll back if the vote is rejected
+  const voteOnReview = async (review: Review, helpful: boolean) => {
+    if (!session) {
+      setVoteErrors((prev) => ({ ...prev, [review.id]: t('signInToVote') }));
+      return;
+    }
+
+    const previous = myVotes[review.id];
+    if (previous === helpful) {
+      return;
+    }
+
+    const counts = getCounts(review);
+    setVoteCounts((prev) => ({ ...prev, [review.id]: applyVote(counts, helpful, previous) }));
+    setMyVotes((prev) => ({ ...prev, [review.id]: helpful }));
+    setVoteErrors((prev) => ({ ...prev, [review.id]: '' }));
+
+    try {
+      const response = await fetch(apiUrl(`/api/reviews/${review.id}/vote`), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ helpful }),
+      });
+      const result = await response.json();
+
+      if (result.status !== 'success') {
+        throw new Error(result.error?.message || t('voteFailed'));
+      }
+
+      setVoteCounts((prev) => ({
+        ...prev,
+        [review.id]: {
+          helpful_count: result.data.helpful_count,
+          unhelpful_count: result.data.unhelpful_count,
+        },
+      }));
+    } catch (voteError) {
+      setVoteCounts((prev) => ({ ...prev, [review.id]: counts }));
+      setMyVotes((prev) => {
+        const next = { ...prev };
+        if (previous === undefined) {
+          delete next[review.id];
+        } else {
+          next[review.id] = previous;
+        }
+        return next;
+      });
+      setVoteErrors((prev) => ({
+        ...prev,
+        [review.id]: voteError instanceof Error ? voteError.message : t('voteFailed'),
+      }));
+    }
+  };
+
   const loadMoreReviews = () => {
     setVisibleReviews((prev) => prev + 3);
   };
 
   // Format date to readable format
   const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('en-US', {
+    return new Date(dateString).toLocaleDateString(locale, {
       year: 'numeric',
       month: 'long',
       day: 'numeric',
@@ -72,7 +155,7 @@ export function ProductReviews({
       <div className="flex flex-col gap-6 md:flex-row">
         {/* Overall rating summary */}
         <div className="flex flex-col items-center space-y-2 md:w-1/3">
-          <h3 className="text-xl font-semibold">Customer Reviews</h3>
+          <h3 className="text-xl font-semibold">{t('title')}</h3>
           <div className="flex items-baseline space-x-2">
             <span className="text-4xl font-bold">{averageRating.toFixed(1)}</span>
             <div className="flex">
@@ -89,7 +172,7 @@ export function ProductReviews({
               ))}
             </div>
           </div>
-          <p className="text-sm text-muted-foreground">Based on {totalReviews} reviews</p>
+          <p className="text-sm text-muted-foreground">{t('basedOn', { count: totalReviews })}</p>
         </div>
 
         {/* Rating breakdown */}
@@ -117,7 +200,7 @@ export function ProductReviews({
       {/* Review list */}
       {reviews.length > 0 ? (
         <div className="space-y-6">
-          <h3 className="text-lg font-medium">Reviews</h3>
+          <h3 className="text-lg font-medium">{t('list')}</h3>
           <div className="space-y-4">
             {reviews.slice(0, visibleReviews).map((review) => (
               <div key={review.id} className="space-y-3 rounded-lg border p-4">
@@ -142,7 +225,7 @@ export function ProductReviews({
                         {formatDate(review.created_at)}
                         {review.verified_purchase && (
                           <span className="ml-2 text-green-600 dark:text-green-500">
-                            Verified Purchase
+                            {t('verifiedPurchase')}
                           </span>
                         )}
                       </p>
@@ -182,11 +265,11 @@ export function ProductReviews({
                     >
                       {expandedReviews[review.id] ? (
                         <>
-                          <ChevronUp className="mr-1 h-3 w-3" /> Show less
+                          <ChevronUp className="mr-1 h-3 w-3" /> {t('showLess')}
                         </>
                       ) : (
                         <>
-                          <ChevronDown className="mr-1 h-3 w-3" /> Read more
+                          <ChevronDown className="mr-1 h-3 w-3" /> {t('readMore')}
                         </>
                       )}
                     </Button>
@@ -194,16 +277,37 @@ export function ProductReviews({
                 </div>
 
                 <div className="flex items-center space-x-4 text-sm">
-                  <span className="text-muted-foreground">Was this review helpful?</span>
-                  <button className="flex items-center space-x-1 text-muted-foreground hover:text-foreground">
+                  <span className="text-muted-foreground">{t('helpful')}</span>
+                  <button
+                    type="button"
+                    aria-label={t('markHelpful')}
+                    aria-pressed={myVotes[review.id] === true}
+                    onClick={() => voteOnReview(review, true)}
+                    className={cn(
+                      'flex items-center space-x-1 hover:text-foreground',
+                      myVotes[review.id] === true ? 'text-foreground' : 'text-muted-foreground'
+                    )}
+                  >
                     <ThumbsUp className="h-3 w-3" />
-                    <span>{review.helpful_count}</span>
+                    <span>{getCounts(review).helpful_count}</span>
                   </button>
-                  <button className="flex items-center space-x-1 text-muted-foreground hover:text-foreground">
+                  <button
+                    type="button"
+                    aria-label={t('markUnhelpful')}
+                    aria-pressed={myVotes[review.id] === false}
+                    onClick={() => voteOnReview(review, false)}
+                    className={cn(
+                      'flex items-center space-x-1 hover:text-foreground',
+                      myVotes[review.id] === false ? 'text-foreground' : 'text-muted-foreground'
+                    )}
+                  >
                     <ThumbsDown className="h-3 w-3" />
-                    <span>{review.unhelpful_count}</span>
+                    <span>{getCounts(review).unhelpful_count}</span>
                   </button>
                 </div>
+                {voteErrors[review.id] && (
+                  <p className="text-xs text-destructive">{voteErrors[review.id]}</p>
+                )}
               </div>
             ))}
           </div>
@@ -212,16 +316,14 @@ export function ProductReviews({
           {visibleReviews < reviews.length && (
             <div className="flex justify-center">
               <Button variant="outline" onClick={loadMoreReviews}>
-                Load More Reviews
+                {t('loadMore')}
               </Button>
             </div>
           )}
         </div>
       ) : (
         <div className="rounded-lg border border-dashed p-8 text-center">
-          <p className="text-muted-foreground">
-            No reviews yet. Be the first to review this product!
-          </p>
+          <p className="text-muted-foreground">{t('empty')}</p>
         </div>
       )}
     </div>
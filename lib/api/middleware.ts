@@ -2,9 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { ZodSchema } from 'zod';
 import { createServerClient } from '@/lib/supabase/server';
 import { handleUnauthorized, handleZodError, errorResponse } from './index';
-
-// Rate limiting store (in production, use Redis or similar)
-const rateLimitStore = new Map<string, { count: number; resetTime: number }>();
+import { checkRateLimit, getRateLimitHeaders, RateLimitPolicy } from '@/lib/security/rate-limit';
 
 // Middleware to check if user is authenticated
 export async function withAuth(
@@ -23,6 +21,19 @@ export async function withAuth(
   return handler(req, session);
 }
 
+// Middleware that resolves the session without requiring one (guest checkout)
+export async function withOptionalAuth(
+  req: NextRequest,
+  handler: (req: NextRequest, session: any | null) => Promise<NextResponse>
+): Promise<NextResponse> {
+  const supabase = createServerClient();
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  return handler(req, session || null);
+}
+
 // Middleware to check if user is an admin
 export async function withAdmin(
   req: NextRequest,
@@ -83,6 +94,10 @@ export async function withQueryValidation<T>(
 
     // Convert query parameters to appropriate types
     url.searchParams.forEach((value, key) => {
+      // Blank values count as missing; Number('') would turn them into 0
+      if (value.trim() === '') {
+        return;
+      }
       // Try to convert to number if possible
       if (!isNaN(Number(value))) {
         queryParams[key] = Number(value);
@@ -111,77 +126,63 @@ export async function withQueryValidation<T>(
   }
 }
 
-// Rate limiting middleware
+// Rate limiting middleware. Uses the route's policy from rateLimitConfig
+// unless one is given, and sets the RateLimit-* headers on the response.
 export async function withRateLimit(
   req: NextRequest,
   handler: (req: NextRequest) => Promise<NextResponse>,
-  options: { maxRequests: number; windowMs: number } = { maxRequests: 10, windowMs: 60000 }
+  policy?: RateLimitPolicy
 ): Promise<NextResponse> {
-  const ip = req.headers.get('x-forwarded-for') || req.headers.get('x-real-ip') || 'unknown';
-  const key = `rate_limit:${ip}`;
-  const now = Date.now();
-
-  // Clean up expired entries
-  const entries = Array.from(rateLimitStore.entries());
-  for (const [k, v] of entries) {
-    if (v.resetTime < now) {
-      rateLimitStore.delete(k);
-    }
-  }
-
-  const current = rateLimitStore.get(key);
+  const result = await checkRateLimit(req, { policy });
 
-  if (!current) {
-    rateLimitStore.set(key, { count: 1, resetTime: now + options.windowMs });
+  if (!result) {
     return handler(req);
   }
 
-  if (current.resetTime < now) {
-    rateLimitStore.set(key, { count: 1, resetTime: now + options.windowMs });
-    return handler(req);
-  }
+  const response = result.allowed
+    ? await handler(req)
+    : errorResponse('Too many requests', 429, 'RATE_LIMIT_EXCEEDED');
 
-  if (current.count >= options.maxRequests) {
-    return errorResponse('Too many requests', 429);
-  }
+  Object.entries(getRateLimitHeaders(result)).forEach(([key, value]) => {
+    response.headers.set(key, value);
+  });
 
-  current.count++;
-  return handler(req);
+  return response;
 }
 
-// Payment-specific security middleware
+// Payment-specific security middleware. With allowGuest the handler also runs
+// without a session (session is null) for guest checkout.
 export async function withPaymentSecurity(
   req: NextRequest,
-  handler: (req: NextRequest, session: any) => Promise<NextResponse>
+  handler: (req: NextRequest, session: any) => Promise<NextResponse>,
+  options: { allowGuest?: boolean } = {}
 ): Promise<NextResponse> {
-  // Apply stricter rate limiting for payment endpoints
-  return withRateLimit(
-    req,
-    async (req) => {
-      return withAuth(req, async (req, session) => {
-        // Additional payment security checks
-        const userAgent = req.headers.get('user-agent');
-        const origin = req.headers.get('origin');
-
-        // Basic bot detection
-        if (!userAgent || userAgent.includes('bot') || userAgent.includes('crawler')) {
-          return errorResponse('Invalid request', 403);
-        }
-
-        // Origin validation (in production, check against allowed origins)
-        if (
-          process.env.NODE_ENV === 'production' &&
-          origin &&
-          !origin.includes(process.env.NEXT_PUBLIC_APP_URL || '')
-        ) {
-          return errorResponse('Invalid origin', 403);
-        }
-
-        return handler(req, session);
-      });
-    },
-    { maxRequests: 5, windowMs: 60000 }
-  ); // 5 requests per minute for payment endpoints
+  const authenticate = options.allowGuest ? withOptionalAuth : withAuth;
+
+  // Payment endpoints have stricter limits in rateLimitConfig
+  return withRateLimit(req, async (req) => {
+    return authenticate(req, async (req, session) => {
+      // Additional payment security checks
+      const userAgent = req.headers.get('user-agent');
+      const origin = req.headers.get('origin');
+
+      // Basic bot detection
+      if (!userAgent || userAgent.includes('bot') || userAgent.includes('crawler')) {
+        return errorResponse('Invalid request', 403);
+      }
+
+      // Origin validation (in production, check against allowed origins)
+      if (
+        process.env.NODE_ENV === 'production' &&
+        origin &&
+        !origin.includes(process.env.NEXT_PUBLIC_APP_URL || '')
+      ) {
+        return errorResponse('Invalid origin', 403);
+      }
+
+      return handler(req, session);
+    });
+  });
 }
 
 // Combine multiple middleware functions
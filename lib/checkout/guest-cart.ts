@@ -0,0 +1,392 @@
+/**
+ * Guest Carts
+ * Server-side carts for shoppers without an account, kept apart from
+ * cart_items and identified by a random token in an httpOnly cookie. Guest
+ * checkout quotes, reserves and orders from these carts. Callers pass the
+ * service role client: guest carts have no row-level access for visitors.
+ */
+
+import { randomBytes } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '@/types/supabase';
+import { AddToCart, UpdateCartItem } from '@/lib/validations/cart';
+import { getVariantPrice } from '@/lib/utils/shop-helpers';
+
+export type GuestCart = Database['public']['Tables']['guest_carts']['Row'];
+
+export const GUEST_CART_COOKIE = 'guest_cart';
+
+// Guest carts (and their cookie) last this long after the last change
+export const GUEST_CART_TTL_DAYS = 30;
+
+export interface GuestCartError {
+  message: string;
+  status: number;
+  code: string;
+}
+
+export type GuestCartResult<T> =
+  | { data: T; error?: undefined }
+  | { data?: undefined; error: GuestCartError };
+
+export function generateGuestCartToken(): string {
+  return randomBytes(32).toString('hex');
+}
+
+export function getGuestCartToken(req: NextRequest): string | null {
+  return req.cookies.get(GUEST_CART_COOKIE)?.value || null;
+}
+
+export function setGuestCartCookie(response: NextResponse, token: string): NextResponse {
+  response.cookies.set(GUEST_CART_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: GUEST_CART_TTL_DAYS * 24 * 60 * 60,
+  });
+  return response;
+}
+
+function guestCartExpiry(now = new Date()): string {
+  return new Date(now.getTime() + GUEST_CART_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString();
+}
+
+// The unexpired guest cart for a cookie token, if any
+export async function findGuestCart(
+  supabase: SupabaseClient<Database>,
+  token: string | null
+): Promise<GuestCart | null> {
+  if (!token) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from('guest_carts')
+    .select('*')
+    .eq('token', token)
+    .gt('expires_at', new Date().toISOString())
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+// The guest cart for a cookie token, starting a new one when there is none
+export async function findOrCreateGuestCart(
+  supabase: SupabaseClient<Database>,
+  token: string | null
+): Promise<GuestCart> {
+  const existing = await findGuestCart(supabase, token);
+
+  if (existing) {
+    const { data, error } = await supabase
+      .from('guest_carts')
+      .update({ expires_at: guestCartExpiry() })
+      .eq('id', existing.id)
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  }
+
+  const { data, error } = await supabase
+    .from('guest_carts')
+    .insert({ token: generateGuestCartToken(), expires_at: guestCartExpiry() })
+    .select()
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Guest cart lines in the same shape as GET /api/cart, so the cart context
+ * renders both the same way.
+ */
+export async function getGuestCartContents(
+  supabase: SupabaseClient<Database>,
+  guestCartId: string
+): Promise<{ items: any[]; total: number; itemCount: number }> {
+  const { data: cartItems, error } = await supabase
+    .from('guest_cart_items')
+    .select(
+      `
+      id,
+      quantity,
+      product_id,
+      variant_id,
+      products (
+        id,
+        name,
+        price,
+        image_url,
+        inventory_count
+      ),
+      product_variants (
+        id,
+        sku,
+        size,
+        color,
+        price_override,
+        inventory_count
+      )
+    `
+    )
+    .eq('guest_cart_id', guestCartId)
+    .order('created_at');
+
+  if (error) {
+    throw error;
+  }
+
+  const items = (cartItems || []).map((item: any) => {
+    const product = Array.isArray(item.products) ? item.products[0] : item.products;
+    const variant = Array.isArray(item.product_variants)
+      ? item.product_variants[0]
+      : item.product_variants;
+    return {
+      id: item.id,
+      product_id: item.product_id,
+      variant_id: item.variant_id || null,
+      quantity: item.quantity,
+      product: product || null,
+      variant: variant || null,
+    };
+  });
+
+  const total = items.reduce((sum: number, item: any) => {
+    const price = item.product ? getVariantPrice(item.product, item.variant) : 0;
+    return sum + price * item.quantity;
+  }, 0);
+
+  return { items, total, itemCount: items.length };
+}
+
+// Stock for a product, or for the chosen variant when it is sold in variants
+async function getAvailableInventory(
+  supabase: SupabaseClient<Database>,
+  productId: string,
+  variantId: string | null | undefined
+): Promise<GuestCartResult<number>> {
+  const { data: product, error: productError } = await supabase
+    .from('products')
+    .select('id, inventory_count')
+    .eq('id', productId)
+    .maybeSingle();
+
+  if (productError) {
+    throw productError;
+  }
+  if (!product) {
+    return {
+      error: { message: `Product with ID ${productId} not found`, status: 404, code: 'NOT_FOUND' },
+    };
+  }
+
+  const { data: variants, error: variantsError } = await supabase
+    .from('product_variants')
+    .select('id, inventory_count')
+    .eq('product_id', productId)
+    .eq('is_active', true);
+
+  if (variantsError) {
+    throw variantsError;
+  }
+
+  if (variantId) {
+    const variant = (variants || []).find((v: { id: string }) => v.id === variantId);
+    if (!variant) {
+      return {
+        error: {
+          message: `Variant with ID ${variantId} not found for this product`,
+          status: 404,
+          code: 'NOT_FOUND',
+        },
+      };
+    }
+    return { data: variant.inventory_count };
+  }
+
+  if (variants && variants.length > 0) {
+    return {
+      error: {
+        message: 'Please select a size and color before adding this product to the cart.',
+        status: 400,
+        code: 'VARIANT_REQUIRED',
+      },
+    };
+  }
+
+  return { data: product.inventory_count };
+}
+
+function insufficientInventory(message: string): { error: GuestCartError } {
+  return { error: { message, status: 400, code: 'INSUFFICIENT_INVENTORY' } };
+}
+
+// Add a line to a guest cart, merging with the same product and variant
+export async function addGuestCartItem(
+  supabase: SupabaseClient<Database>,
+  guestCartId: string,
+  input: AddToCart
+): Promise<GuestCartResult<any>> {
+  const { product_id, variant_id, quantity } = input;
+
+  const inventory = await getAvailableInventory(supabase, product_id, variant_id);
+  if (inventory.error) {
+    return { error: inventory.error };
+  }
+  const availableInventory = inventory.data;
+
+  let existingItemQuery = supabase
+    .from('guest_cart_items')
+    .select('id, quantity')
+    .eq('guest_cart_id', guestCartId)
+    .eq('product_id', product_id);
+
+  existingItemQuery = variant_id
+    ? existingItemQuery.eq('variant_id', variant_id)
+    : existingItemQuery.is('variant_id', null);
+
+  const { data: existingItem, error: existingItemError } = await existingItemQuery.maybeSingle();
+
+  if (existingItemError) {
+    throw existingItemError;
+  }
+
+  if (existingItem) {
+    const newQuantity = existingItem.quantity + quantity;
+
+    if (newQuantity > availableInventory) {
+      return insufficientInventory(
+        `Cannot add ${quantity} more items. Only ${availableInventory - existingItem.quantity} more available.`
+      );
+    }
+
+    const { data, error } = await supabase
+      .from('guest_cart_items')
+      .update({ quantity: newQuantity })
+      .eq('id', existingItem.id)
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return { data };
+  }
+
+  if (availableInventory < quantity) {
+    return insufficientInventory(
+      `Not enough inventory. Only ${availableInventory} items available.`
+    );
+  }
+
+  const { data, error } = await supabase
+    .from('guest_cart_items')
+    .insert({
+      guest_cart_id: guestCartId,
+      product_id,
+      variant_id: variant_id || null,
+      quantity,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return { data };
+}
+
+async function findGuestCartItem(
+  supabase: SupabaseClient<Database>,
+  guestCartId: string,
+  id: string
+) {
+  const { data, error } = await supabase
+    .from('guest_cart_items')
+    .select('id, product_id, variant_id')
+    .eq('id', id)
+    .eq('guest_cart_id', guestCartId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+function cartItemNotFound(id: string): { error: GuestCartError } {
+  return {
+    error: { message: `Cart item with ID ${id} not found`, status: 404, code: 'NOT_FOUND' },
+  };
+}
+
+// Change the quantity of a guest cart line
+export async function updateGuestCartItem(
+  supabase: SupabaseClient<Database>,
+  guestCartId: string,
+  input: UpdateCartItem
+): Promise<GuestCartResult<any>> {
+  const cartItem = await findGuestCartItem(supabase, guestCartId, input.id);
+  if (!cartItem) {
+    return cartItemNotFound(input.id);
+  }
+
+  const inventory = await getAvailableInventory(supabase, cartItem.product_id, cartItem.variant_id);
+  if (inventory.error) {
+    return { error: inventory.error };
+  }
+  if (inventory.data < input.quantity) {
+    return insufficientInventory(`Not enough inventory. Only ${inventory.data} items available.`);
+  }
+
+  const { data, error } = await supabase
+    .from('guest_cart_items')
+    .update({ quantity: input.quantity })
+    .eq('id', input.id)
+    .select()
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return { data };
+}
+
+// Remove a line from a guest cart
+export async function removeGuestCartItem(
+  supabase: SupabaseClient<Database>,
+  guestCartId: string,
+  id: string
+): Promise<GuestCartResult<{ id: string }>> {
+  const cartItem = await findGuestCartItem(supabase, guestCartId, id);
+  if (!cartItem) {
+    return cartItemNotFound(id);
+  }
+
+  const { error } = await supabase.from('guest_cart_items').delete().eq('id', id);
+
+  if (error) {
+    throw error;
+  }
+
+  return { data: { id } };
+}
@@ -0,0 +1,140 @@
+/**
+ * Inventory Reservations
+ * Time-limited stock holds while a shopper checks out. Holds are made by the
+ * database (reserve_cart_inventory), released on cart changes, failed or
+ * canceled payments and expiry, and converted by create_order_with_items
+ * (or create_guest_order for guest carts).
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '@/types/supabase';
+
+export type InventoryReservation = Database['public']['Tables']['inventory_reservations']['Row'];
+
+export type InventoryReservationStatus = InventoryReservation['status'];
+
+// How long checkout holds stock before other shoppers can buy it
+export const RESERVATION_TTL_MINUTES = 15;
+
+export interface ReservationError {
+  message: string;
+  status: number;
+  code: string;
+}
+
+export type ReservationResult =
+  | { data: { expiresAt: string }; error?: undefined }
+  | { data?: undefined; error: ReservationError };
+
+// Maps reservation exceptions to API errors; null for anything unexpected
+export function toReservationError(message: string | undefined): ReservationError | null {
+  if (!message) {
+    return null;
+  }
+  if (message.startsWith('Insufficient inventory for product')) {
+    return {
+      message: message.replace('Insufficient inventory for product:', 'Insufficient inventory for'),
+      status: 409,
+      code: 'INSUFFICIENT_INVENTORY',
+    };
+  }
+  if (message.startsWith('Variant is no longer available for product')) {
+    return {
+      message: message.replace(
+        'Variant is no longer available for product:',
+        'This option is no longer available for'
+      ),
+      status: 409,
+      code: 'VARIANT_UNAVAILABLE',
+    };
+  }
+  if (message.startsWith('Cart is empty')) {
+    return { message: 'Your cart is empty', status: 400, code: 'CART_EMPTY' };
+  }
+  return null;
+}
+
+// Hold the signed-in user's cart, replacing any earlier holds
+export async function reserveCartInventory(
+  supabase: SupabaseClient<Database>,
+  paymentIntentId?: string
+): Promise<ReservationResult> {
+  const { data, error } = await supabase.rpc('reserve_checkout_inventory', {
+    p_payment_intent_id: paymentIntentId || null,
+    p_ttl_minutes: RESERVATION_TTL_MINUTES,
+  });
+
+  if (error) {
+    const reservationError = toReservationError(error.message);
+    if (reservationError) {
+      return { error: reservationError };
+    }
+    throw error;
+  }
+
+  return { data: { expiresAt: data as string } };
+}
+
+// Hold a guest cart for a payment intent (needs the service role client)
+export async function reserveGuestCartInventory(
+  supabase: SupabaseClient<Database>,
+  guestCartId: string,
+  paymentIntentId: string
+): Promise<ReservationResult> {
+  const { data, error } = await supabase.rpc('reserve_cart_inventory', {
+    p_user_id: null,
+    p_payment_intent_id: paymentIntentId,
+    p_ttl_minutes: RESERVATION_TTL_MINUTES,
+    p_guest_cart_id: guestCartId,
+  });
+
+  if (error) {
+    const reservationError = toReservationError(error.message);
+    if (reservationError) {
+      return { error: reservationError };
+    }
+    throw error;
+  }
+
+  return { data: { expiresAt: data as string } };
+}
+
+// Release the signed-in user's holds; returns how many were released
+export async function releaseCartInventory(supabase: SupabaseClient<Database>): Promise<number> {
+  const { data, error } = await supabase.rpc('release_checkout_inventory');
+
+  if (error) {
+    throw error;
+  }
+
+  return (data as number) || 0;
+}
+
+// Release the holds made for a payment intent (needs the service role client)
+export async function releasePaymentIntentReservations(
+  supabase: SupabaseClient<Database>,
+  paymentIntentId: string
+): Promise<number> {
+  const { data, error } = await supabase.rpc('release_payment_intent_reservations', {
+    p_payment_intent_id: paymentIntentId,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data as number) || 0;
+}
+
+// Mark lapsed holds as expired (needs the service role client)
+export async function expireInventoryReservations(
+  supabase: SupabaseClient<Database>
+): Promise<number> {
+  const { data, error } = await supabase.rpc('expire_inventory_reservations');
+
+  if (error) {
+    throw error;
+  }
+
+  return (data as number) || 0;
+}
@@ -0,0 +1,316 @@
+/**
+ * Order Creation
+ * Turns a paid payment intent into exactly one order. The database functions
+ * (create_order_with_items, create_guest_order) lock on the payment intent and
+ * the optional Idempotency-Key and return the existing order on a retry, so the
+ * checkout page and the payment_intent.succeeded webhook can both call this.
+ * Under those locks they also check the captured amount and currency against
+ * the order they are about to create.
+ */
+
+import Stripe from 'stripe';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '@/types/supabase';
+import { CreateOrder } from '@/lib/validations/checkout';
+import { toOrderQuoteError } from '@/lib/checkout/order-quote';
+import { toReservationError } from '@/lib/checkout/inventory-reservations';
+import { getServerStripe } from '@/lib/stripe/server';
+import { refundUnfulfilledPayment } from '@/lib/stripe/refunds';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+// Payment intents may be created a few cents off the quote (in cents);
+// check_order_payment allows the same
+export const PAYMENT_AMOUNT_TOLERANCE = 5;
+
+// Order creation errors for a succeeded payment that can never become an
+// order, with the reason recorded on its refund. The cart changed while it was
+// being paid for, or its stock ran out after the payment went through (e.g.
+// once its hold expired).
+const UNFULFILLABLE_PAYMENT_REASONS: Record<string, string> = {
+  PAYMENT_AMOUNT_MISMATCH: 'amount_mismatch',
+  PAYMENT_CURRENCY_MISMATCH: 'currency_mismatch',
+  INSUFFICIENT_INVENTORY: 'out_of_stock',
+  VARIANT_UNAVAILABLE: 'out_of_stock',
+};
+
+// Errors after which the payment has been refunded, so there is no order to retry
+export const REFUNDED_PAYMENT_ERRORS = [
+  'PAYMENT_REFUNDED',
+  ...Object.keys(UNFULFILLABLE_PAYMENT_REASONS),
+];
+
+// What the order needs besides the cart; saved with the payment intent for the webhook
+export type CheckoutDetails = Pick<
+  CreateOrder,
+  | 'shippingAddress'
+  | 'billingAddress'
+  | 'shippingMethod'
+  | 'notes'
+  | 'loyaltyCode'
+  | 'promoCode'
+  | 'guestEmail'
+> & {
+  locale?: string;
+};
+
+export interface CreatedOrder {
+  orderId: string;
+  orderNumber: string;
+  status: string;
+  total: number;
+  discount: number;
+  estimatedDelivery: string | null;
+  // False when the payment already had an order and that order was returned
+  created: boolean;
+}
+
+export interface OrderCreationError {
+  message: string;
+  status: number;
+  code: string;
+}
+
+export type OrderCreationResult =
+  | { data: CreatedOrder; error?: undefined }
+  | { data?: undefined; error: OrderCreationError };
+
+export interface CreateOrderForPaymentInput {
+  // Exactly one of userId and guestCartId
+  userId: string | null;
+  guestCartId: string | null;
+  paymentIntentId: string;
+  idempotencyKey?: string | null;
+  details: CheckoutDetails;
+}
+
+/**
+ * Reads the Idempotency-Key header. Missing is fine (the payment intent is the
+ * key then); blank or over-long keys are rejected rather than ignored.
+ */
+export function parseIdempotencyKey(
+  value: string | null
+): { key: string | null; error?: undefined } | { key?: undefined; error: OrderCreationError } {
+  if (value === null) {
+    return { key: null };
+  }
+
+  const key = value.trim();
+  if (!key || key.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+    return {
+      error: {
+        message: `${IDEMPOTENCY_KEY_HEADER} must be 1-${MAX_IDEMPOTENCY_KEY_LENGTH} characters`,
+        status: 400,
+        code: 'INVALID_IDEMPOTENCY_KEY',
+      },
+    };
+  }
+
+  return { key };
+}
+
+// Maps order creation exceptions to API errors; null for anything unexpected
+export function toOrderCreationError(message: string | undefined): OrderCreationError | null {
+  if (message?.startsWith('Payment has already been used')) {
+    return {
+      message: 'This payment has already been used for another order',
+      status: 409,
+      code: 'PAYMENT_ALREADY_USED',
+    };
+  }
+  if (message?.startsWith('Payment currency does not match')) {
+    return {
+      message: 'This payment was not made in the store currency',
+      status: 409,
+      code: 'PAYMENT_CURRENCY_MISMATCH',
+    };
+  }
+  if (message?.startsWith('Payment amount does not match')) {
+    return {
+      message: 'Your cart changed during payment',
+      status: 409,
+      code: 'PAYMENT_AMOUNT_MISMATCH',
+    };
+  }
+  return toOrderQuoteError(message) || toReservationError(message);
+}
+
+/**
+ * Creates the order for a payment intent, or returns the one already created
+ * for it (or for the same idempotency key). The order is rejected unless it
+ * costs what the payment captured. Needs the service role client: neither
+ * function is callable by shoppers.
+ */
+export async function createOrderForPayment(
+  supabase: SupabaseClient<Database>,
+  { userId, guestCartId, paymentIntentId, idempotencyKey, details }: CreateOrderForPaymentInput,
+  payment: Pick<Stripe.PaymentIntent, 'amount' | 'currency'>
+): Promise<OrderCreationResult> {
+  const { shippingAddress, billingAddress, shippingMethod, notes } = details;
+
+  const { data, error } = userId
+    ? await supabase.rpc('create_order_with_items', {
+        p_user_id: userId,
+        p_shipping_address: shippingAddress,
+        p_billing_address: billingAddress || shippingAddress,
+        p_payment_method_id: paymentIntentId,
+        p_payment_amount: payment.amount,
+        p_payment_currency: payment.currency,
+        p_shipping_method: shippingMethod,
+        p_notes: notes || null,
+        p_loyalty_code: details.loyaltyCode || null,
+        p_promo_code: details.promoCode || null,
+        p_idempotency_key: idempotencyKey || null,
+      })
+    : await supabase.rpc('create_guest_order', {
+        p_guest_cart_id: guestCartId,
+        p_email: details.guestEmail,
+        p_shipping_address: shippingAddress,
+        p_billing_address: billingAddress || shippingAddress,
+        p_payment_method_id: paymentIntentId,
+        p_payment_amount: payment.amount,
+        p_payment_currency: payment.currency,
+        p_shipping_method: shippingMethod,
+        p_notes: notes || null,
+        p_idempotency_key: idempotencyKey || null,
+      });
+
+  if (error) {
+    const creationError = toOrderCreationError(error.message);
+    if (creationError) {
+      return { error: creationError };
+    }
+    throw error;
+  }
+
+  const order = Array.isArray(data) ? data[0] : null;
+  if (!order) {
+    return { error: { message: 'Failed to create order', status: 500, code: 'ORDER_FAILED' } };
+  }
+
+  return {
+    data: {
+      orderId: order.id,
+      orderNumber: order.order_number,
+      status: order.status,
+      total: order.total,
+      discount: order.discount_amount,
+      estimatedDelivery: order.estimated_delivery,
+      created: Boolean(order.created),
+    },
+  };
+}
+
+// Whether the payment intent already has an order
+async function hasOrderForPayment(
+  supabase: SupabaseClient<Database>,
+  paymentIntentId: string
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('orders')
+    .select('id')
+    .eq('payment_intent_id', paymentIntentId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return Boolean(data);
+}
+
+// Whether the payment may become this customer's order. Whether it covers
+// the order is checked by the database functions when they create it.
+async function checkOrderPayment(
+  supabase: SupabaseClient<Database>,
+  paymentIntent: Stripe.PaymentIntent,
+  { userId, guestCartId }: CreateOrderForPaymentInput
+): Promise<OrderCreationError | null> {
+  // A payment belongs to the user (or guest cart) it was created for
+  const owner = userId ? paymentIntent.metadata?.userId : paymentIntent.metadata?.guestCartId;
+  if (!owner || owner !== (userId || guestCartId)) {
+    return { message: 'Payment does not match this cart', status: 400, code: 'INVALID_PAYMENT' };
+  }
+
+  if (paymentIntent.status !== 'succeeded') {
+    return { message: 'Payment has not been completed', status: 402, code: 'PAYMENT_INCOMPLETE' };
+  }
+
+  // A retry: the order was created and the cart emptied
+  if (await hasOrderForPayment(supabase, paymentIntent.id)) {
+    return null;
+  }
+
+  const charge = paymentIntent.latest_charge;
+  if (charge && typeof charge === 'object' && charge.amount_refunded > 0) {
+    return { message: 'This payment has been refunded', status: 409, code: 'PAYMENT_REFUNDED' };
+  }
+
+  return null;
+}
+
+/**
+ * Creates the order for a payment intent once the payment checks out: it
+ * belongs to this customer, has succeeded and covers what the cart costs in
+ * the store currency. A payment that no longer matches the cart, or whose
+ * items sold out meanwhile (e.g. after its stock hold expired), is refunded
+ * instead of turned into an order. Retries return the existing order.
+ */
+export async function createOrderForVerifiedPayment(
+  supabase: SupabaseClient<Database>,
+  input: CreateOrderForPaymentInput
+): Promise<OrderCreationResult> {
+  const paymentIntent = await getServerStripe().paymentIntents.retrieve(input.paymentIntentId, {
+    expand: ['latest_charge'],
+  });
+
+  const paymentError = await checkOrderPayment(supabase, paymentIntent, input);
+  if (paymentError) {
+    return { error: paymentError };
+  }
+
+  const result = await createOrderForPayment(supabase, input, paymentIntent);
+
+  // The payment has succeeded but can't become an order. The database only
+  // gets this far when the payment has no order, so nothing paid is refunded.
+  const refundReason = result.error && UNFULFILLABLE_PAYMENT_REASONS[result.error.code];
+  if (result.error && refundReason) {
+    console.error('Order for a paid payment cannot be created:', paymentIntent.id, result.error);
+    await refundUnfulfilledPayment(paymentIntent.id, refundReason);
+
+    return {
+      error: {
+        ...result.error,
+        message: `${result.error.message}, so the payment has been refunded`,
+      },
+    };
+  }
+
+  return result;
+}
+
+// The checkout saved with a payment intent, for creating its order without the browser
+export async function getPaymentCheckout(
+  supabase: SupabaseClient<Database>,
+  paymentIntentId: string
+): Promise<{ userId: string | null; checkout: CheckoutDetails | null } | null> {
+  const { data, error } = await supabase
+    .from('payment_intents')
+    .select('user_id, checkout')
+    .eq('id', paymentIntentId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  if (!data) {
+    return null;
+  }
+
+  return {
+    userId: data.user_id,
+    checkout: (data.checkout as CheckoutDetails | null) || null,
+  };
+}
@@ -0,0 +1,255 @@
+/**
+ * Order Quote
+ * Cart pricing from the database quote engine (calculate_order_quote). The
+ * quote endpoint, the payment intent and create_order_with_items all price a
+ * cart the same way, so what the customer sees is what they are charged.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '@/types/supabase';
+import { OrderSummary } from '@/lib/validations/checkout';
+import { ShippingMethodId } from '@/lib/settings/store-settings';
+
+export interface OrderQuoteLine {
+  productId: string;
+  variantId: string | null;
+  sku: string | null;
+  name: string;
+  unitPrice: number;
+  quantity: number;
+  lineTotal: number;
+  inStock: boolean;
+  variantAvailable: boolean;
+}
+
+export interface OrderQuoteShippingOption {
+  method: ShippingMethodId;
+  cost: number;
+  estimatedDays: number;
+}
+
+export interface OrderQuote {
+  currency: string;
+  lines: OrderQuoteLine[];
+  itemCount: number;
+  subtotal: number;
+  promo: {
+    promotionId: string;
+    code: string;
+    name: string;
+    type: string;
+    itemDiscount: number;
+    freeShipping: boolean;
+  } | null;
+  loyalty: {
+    redemptionId: string;
+    code: string;
+    rewardType: string;
+    itemDiscount: number;
+    freeShipping: boolean;
+  } | null;
+  discounts: {
+    items: number;
+    shipping: number;
+    total: number;
+  };
+  shipping: {
+    method: ShippingMethodId;
+    cost: number;
+    discount: number;
+    estimatedDays: number;
+    freeShippingThreshold: number | null;
+  };
+  shippingOptions: OrderQuoteShippingOption[];
+  tax: {
+    rate: number;
+    pricesIncludeTax: boolean;
+    taxableAmount: number;
+    amount: number;
+  };
+  total: number;
+}
+
+export interface OrderQuoteInput {
+  shippingMethod: ShippingMethodId;
+  promoCode?: string;
+  loyaltyCode?: string;
+}
+
+export interface OrderQuoteError {
+  message: string;
+  status: number;
+  code: string;
+}
+
+export type OrderQuoteResult =
+  | { data: OrderQuote; error?: undefined }
+  | { data?: undefined; error: OrderQuoteError };
+
+// Numeric columns come back from JSONB as numbers or strings
+const toNumber = (value: any): number => Number(value ?? 0);
+
+// Maps the snake_case quote_order result
+export function toOrderQuote(raw: any): OrderQuote {
+  return {
+    currency: raw.currency,
+    lines: (raw.lines || []).map((line: any) => ({
+      productId: line.product_id,
+      variantId: line.variant_id ?? null,
+      sku: line.sku ?? null,
+      name: line.name,
+      unitPrice: toNumber(line.unit_price),
+      quantity: line.quantity,
+      lineTotal: toNumber(line.line_total),
+      inStock: Boolean(line.in_stock),
+      variantAvailable: line.variant_available !== false,
+    })),
+    itemCount: raw.item_count ?? 0,
+    subtotal: toNumber(raw.subtotal),
+    promo: raw.promo
+      ? {
+          promotionId: raw.promo.promotion_id,
+          code: raw.promo.code,
+          name: raw.promo.name,
+          type: raw.promo.type,
+          itemDiscount: toNumber(raw.promo.item_discount),
+          freeShipping: Boolean(raw.promo.free_shipping),
+        }
+      : null,
+    loyalty: raw.loyalty
+      ? {
+          redemptionId: raw.loyalty.redemption_id,
+          code: raw.loyalty.code,
+          rewardType: raw.loyalty.reward_type,
+          itemDiscount: toNumber(raw.loyalty.item_discount),
+          freeShipping: Boolean(raw.loyalty.free_shipping),
+        }
+      : null,
+    discounts: {
+      items: toNumber(raw.discounts?.items),
+      shipping: toNumber(raw.discounts?.shipping),
+      total: toNumber(raw.discounts?.total),
+    },
+    shipping: {
+      method: raw.shipping.method,
+      cost: toNumber(raw.shipping.cost),
+      discount: toNumber(raw.shipping.discount),
+      estimatedDays: raw.shipping.estimated_days,
+      freeShippingThreshold:
+        raw.shipping.free_shipping_threshold === null ||
+        raw.shipping.free_shipping_threshold === undefined
+          ? null
+          : toNumber(raw.shipping.free_shipping_threshold),
+    },
+    shippingOptions: (raw.shipping_options || []).map((option: any) => ({
+      method: option.method,
+      cost: toNumber(option.cost),
+      estimatedDays: option.estimated_days,
+    })),
+    tax: {
+      rate: toNumber(raw.tax?.rate),
+      pricesIncludeTax: Boolean(raw.tax?.prices_include_tax),
+      taxableAmount: toNumber(raw.tax?.taxable_amount),
+      amount: toNumber(raw.tax?.amount),
+    },
+    total: toNumber(raw.total),
+  };
+}
+
+// The summary the checkout components render; the discount covers shipping too
+export function toOrderSummary(quote: OrderQuote): OrderSummary {
+  return {
+    subtotal: quote.subtotal,
+    shipping: quote.shipping.cost,
+    tax: quote.tax.amount,
+    taxIncluded: quote.tax.pricesIncludeTax,
+    discount: quote.discounts.total,
+    total: quote.total,
+  };
+}
+
+/**
+ * Maps quote engine exceptions to API errors. Returns null for anything that
+ * isn't a pricing error so the caller can treat it as a database failure.
+ */
+export function toOrderQuoteError(message: string | undefined): OrderQuoteError | null {
+  if (!message) {
+    return null;
+  }
+  if (message.startsWith('Promo code')) {
+    return { message, status: 400, code: 'INVALID_PROMO_CODE' };
+  }
+  if (message.toLowerCase().includes('loyalty reward')) {
+    return {
+      message: 'This reward code is invalid or has already been used',
+      status: 400,
+      code: 'INVALID_LOYALTY_REWARD',
+    };
+  }
+  if (message.startsWith('Shipping method is not available')) {
+    return {
+      message: 'This shipping method is not available',
+      status: 400,
+      code: 'SHIPPING_METHOD_UNAVAILABLE',
+    };
+  }
+  return null;
+}
+
+// Quotes the signed-in user's cart
+export async function getOrderQuote(
+  supabase: SupabaseClient<Database>,
+  input: OrderQuoteInput
+): Promise<OrderQuoteResult> {
+  const { data, error } = await supabase.rpc('quote_order', {
+    p_shipping_method: input.shippingMethod,
+    p_promo_code: input.promoCode || null,
+    p_loyalty_code: input.loyaltyCode || null,
+  });
+
+  if (error) {
+    const quoteError = toOrderQuoteError(error.message);
+    if (quoteError) {
+      return { error: quoteError };
+    }
+    throw error;
+  }
+
+  return { data: toOrderQuote(data) };
+}
+
+// Quotes a guest cart (needs the service role client); promo codes and
+// loyalty rewards are rejected by the engine for guests
+export async function getGuestOrderQuote(
+  supabase: SupabaseClient<Database>,
+  guestCartId: string,
+  input: OrderQuoteInput
+): Promise<OrderQuoteResult> {
+  return getCustomerOrderQuote(supabase, { userId: null, guestCartId }, input);
+}
+
+// Quotes a user's or a guest's cart without their session (needs the service
+// role client)
+export async function getCustomerOrderQuote(
+  supabase: SupabaseClient<Database>,
+  { userId, guestCartId }: { userId: string | null; guestCartId: string | null },
+  input: OrderQuoteInput
+): Promise<OrderQuoteResult> {
+  const { data, error } = await supabase.rpc('calculate_order_quote', {
+    p_user_id: userId,
+    p_shipping_method: input.shippingMethod,
+    p_promo_code: input.promoCode || null,
+    p_loyalty_code: input.loyaltyCode || null,
+    p_guest_cart_id: guestCartId,
+  });
+
+  if (error) {
+    const quoteError = toOrderQuoteError(error.message);
+    if (quoteError) {
+      return { error: quoteError };
+    }
+    throw error;
+  }
+
+  return { data: toOrderQuote(data) };
+}
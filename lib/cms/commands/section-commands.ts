@@ -655,6 +655,51 @@ export function createDefaultSection(sectionType: SectionType): Section {
         },
       } as Section;
 
+    case 'testimonials':
+      return {
+        ...baseSection,
+        config: {
+          title: 'What Our Customers Say',
+          testimonials: [
+            {
+              id: crypto.randomUUID(),
+              quote: 'Add a customer quote here...',
+              author: 'Customer name',
+              role: 'Verified buyer',
+              rating: 5,
+            },
+          ],
+          layout: 'grid',
+          showRating: true,
+          autoplayDelay: 6000,
+        },
+      } as Section;
+
+    case 'newsletter':
+      return {
+        ...baseSection,
+        config: {
+          title: 'Stay in the Loop',
+          subtitle: 'Get exclusive deals and new arrivals delivered to your inbox',
+          placeholder: 'Enter your email address',
+          buttonText: 'Subscribe',
+          successMessage: 'Thanks for subscribing! Check your inbox to confirm.',
+          privacyText: 'We respect your privacy. Unsubscribe anytime.',
+          layout: 'centered',
+        },
+      } as Section;
+
+    case 'campaign_showcase':
+      return {
+        ...baseSection,
+        config: {
+          title: 'Current Campaigns',
+          limit: 3,
+          homepageOnly: true,
+          cardStyle: 'overlay',
+        },
+      } as Section;
+
     default:
       return baseSection as Section;
   }
@@ -0,0 +1,31 @@
+/**
+ * CMS Template Auth
+ *
+ * Looks up the signed-in user for the template routes.
+ */
+
+import { createServerClient } from '@/lib/supabase/server';
+
+export interface TemplateUser {
+  userId: string;
+  isAdmin: boolean;
+}
+
+export async function getTemplateUser(): Promise<TemplateUser | null> {
+  const supabase = createServerClient();
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  if (!session) {
+    return null;
+  }
+
+  const { data: user } = await supabase
+    .from('users')
+    .select('role')
+    .eq('id', session.user.id)
+    .single();
+
+  return { userId: session.user.id, isAdmin: user?.role === 'admin' };
+}
@@ -0,0 +1,177 @@
+/**
+ * CMS Template Diff
+ * Section-aware structural diff between two template versions: which sections
+ * were added, removed or moved, and which of their fields changed. Sections
+ * are matched by id, so an edited section is a modification rather than a
+ * remove and add.
+ */
+
+import { Homepage, Section } from '@/types/cms';
+import {
+  CMSTemplateVersion,
+  SectionDiff,
+  SectionFieldChange,
+  TemplateVersionDiff,
+} from '@/types/cms-templates';
+
+// Bookkeeping fields that change on every save or move
+const IGNORED_SECTION_FIELDS = new Set(['id', 'order', 'created_at', 'updated_at']);
+
+/**
+ * Flatten nested objects into dot paths. Arrays are kept whole, since their
+ * items have no stable identity to diff against.
+ */
+function flatten(
+  value: unknown,
+  prefix = '',
+  out: Record<string, unknown> = {}
+): Record<string, unknown> {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    for (const [key, child] of Object.entries(value)) {
+      flatten(child, prefix ? `${prefix}.${key}` : key, out);
+    }
+  } else if (value !== undefined && prefix) {
+    out[prefix] = value;
+  }
+  return out;
+}
+
+function diffFields(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): SectionFieldChange[] {
+  const paths = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+
+  return paths
+    .filter((path) => JSON.stringify(before[path]) !== JSON.stringify(after[path]))
+    .map((path) => ({ path, old: before[path] ?? null, new: after[path] ?? null }));
+}
+
+function diffSectionFields(before: Section, after: Section): SectionFieldChange[] {
+  return diffFields(flatten(before), flatten(after)).filter(
+    (change) => !IGNORED_SECTION_FIELDS.has(change.path)
+  );
+}
+
+function orderedSections(content: Homepage): Section[] {
+  return [...content.sections].sort((a, b) => a.order - b.order);
+}
+
+/**
+ * Ids that keep their relative order between the two lists. Anything else
+ * that is in both lists was moved.
+ */
+function stableIds(before: string[], after: string[]): Set<string> {
+  const lengths = before.map(() => new Array<number>(after.length + 1).fill(0));
+  lengths.push(new Array<number>(after.length + 1).fill(0));
+
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        before[i] === after[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const stable = new Set<string>();
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      stable.add(before[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return stable;
+}
+
+/**
+ * Compare two versions. Sections come back as side-by-side rows in the
+ * newer version's order, with removed sections placed where they used to be.
+ */
+export function diffTemplateVersions(
+  from: CMSTemplateVersion,
+  to: CMSTemplateVersion
+): TemplateVersionDiff {
+  const before = orderedSections(from.content);
+  const after = orderedSections(to.content);
+  const beforeById = new Map(before.map((section, index) => [section.id, { section, index }]));
+  const afterIds = new Set(after.map((section) => section.id));
+  const stable = stableIds(
+    before.map((section) => section.id).filter((id) => afterIds.has(id)),
+    after.map((section) => section.id).filter((id) => beforeById.has(id))
+  );
+
+  const rows: SectionDiff[] = after.map((section, index) => {
+    const previous = beforeById.get(section.id);
+    if (!previous) {
+      return {
+        section_id: section.id,
+        section_type: section.type,
+        change: 'added',
+        moved: false,
+        old_position: null,
+        new_position: index,
+        field_changes: [],
+      };
+    }
+
+    const fieldChanges = diffSectionFields(previous.section, section);
+    return {
+      section_id: section.id,
+      section_type: section.type,
+      change: fieldChanges.length > 0 ? 'modified' : 'unchanged',
+      moved: !stable.has(section.id),
+      old_position: previous.index,
+      new_position: index,
+      field_changes: fieldChanges,
+    };
+  });
+
+  // Slot each removed section in after its nearest surviving predecessor
+  let insertAt = 0;
+  before.forEach((section, index) => {
+    if (afterIds.has(section.id)) {
+      insertAt = rows.findIndex((row) => row.section_id === section.id) + 1;
+      return;
+    }
+
+    rows.splice(insertAt++, 0, {
+      section_id: section.id,
+      section_type: section.type,
+      change: 'removed',
+      moved: false,
+      old_position: index,
+      new_position: null,
+      field_changes: [],
+    });
+  });
+
+  const metadataChanges = diffFields(
+    flatten(from.content.metadata),
+    flatten(to.content.metadata)
+  ).reduce<TemplateVersionDiff['metadata_changes']>((changes, change) => {
+    changes[change.path] = { old: change.old, new: change.new };
+    return changes;
+  }, {});
+
+  const idsWhere = (predicate: (row: SectionDiff) => boolean) =>
+    rows.filter(predicate).map((row) => row.section_id);
+
+  return {
+    from_version_id: from.id,
+    to_version_id: to.id,
+    added_sections: idsWhere((row) => row.change === 'added'),
+    removed_sections: idsWhere((row) => row.change === 'removed'),
+    modified_sections: idsWhere((row) => row.change === 'modified'),
+    reordered_sections: idsWhere((row) => row.moved),
+    metadata_changes: metadataChanges,
+    sections: rows,
+  };
+}
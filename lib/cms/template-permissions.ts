@@ -0,0 +1,107 @@
+/**
+ * CMS Template Permissions
+ *
+ * Resolves a user's role on a template and checks it against ROLE_PERMISSIONS.
+ * Site admins and the template's creator are always treated as owners.
+ */
+
+import {
+  CMSTemplate,
+  CMSTemplateCollaborator,
+  CMSTemplateComment,
+  CollaboratorRole,
+  ROLE_PERMISSIONS,
+} from '@/types/cms-templates';
+
+export type TemplatePermission = keyof (typeof ROLE_PERMISSIONS)[CollaboratorRole];
+
+export interface TemplateAccessContext {
+  template: CMSTemplate;
+  collaborators: CMSTemplateCollaborator[];
+  userId: string;
+  isAdmin: boolean;
+}
+
+export interface CommentThread extends CMSTemplateComment {
+  replies: CMSTemplateComment[];
+}
+
+export function resolveTemplateRole({
+  template,
+  collaborators,
+  userId,
+  isAdmin,
+}: TemplateAccessContext): CollaboratorRole | null {
+  if (isAdmin || template.created_by === userId) {
+    return 'owner';
+  }
+
+  const collaborator = collaborators.find((c) => c.user_id === userId);
+  return collaborator ? collaborator.role : null;
+}
+
+export function hasTemplatePermission(
+  role: CollaboratorRole | null,
+  permission: TemplatePermission
+): boolean {
+  return role ? ROLE_PERMISSIONS[role][permission] : false;
+}
+
+// The can_* columns mirror the role so clients don't need the permission table
+export function withRolePermissions(
+  collaborator: Omit<CMSTemplateCollaborator, 'can_edit' | 'can_publish' | 'can_delete'>
+): CMSTemplateCollaborator {
+  const permissions = ROLE_PERMISSIONS[collaborator.role];
+
+  return {
+    ...collaborator,
+    can_edit: permissions.can_edit,
+    can_publish: permissions.can_publish,
+    can_delete: permissions.can_delete,
+  };
+}
+
+/**
+ * Group comments into threads under their root comment.
+ * Replies are flattened onto the root in the order they were posted, and
+ * deleted comments are dropped unless they still have live replies.
+ */
+export function buildCommentThreads(comments: CMSTemplateComment[]): CommentThread[] {
+  const byId = new Map(comments.map((c) => [c.id, c]));
+
+  const rootOf = (comment: CMSTemplateComment): string => {
+    let current = comment;
+    while (current.parent_comment_id && byId.has(current.parent_comment_id)) {
+      current = byId.get(current.parent_comment_id)!;
+    }
+    return current.id;
+  };
+
+  const sorted = [...comments].sort(
+    (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+  );
+
+  const threads = new Map<string, CommentThread>();
+  for (const comment of sorted) {
+    const rootId = rootOf(comment);
+    if (rootId === comment.id) {
+      // A deleted root keeps its place in the thread but not its text
+      threads.set(comment.id, {
+        ...comment,
+        content: comment.is_deleted ? '' : comment.content,
+        replies: [],
+      });
+    }
+  }
+
+  for (const comment of sorted) {
+    const rootId = rootOf(comment);
+    if (rootId !== comment.id && !comment.is_deleted) {
+      threads.get(rootId)?.replies.push(comment);
+    }
+  }
+
+  return Array.from(threads.values()).filter(
+    (thread) => !thread.is_deleted || thread.replies.length > 0
+  );
+}
@@ -0,0 +1,89 @@
+/**
+ * CMS Template Review
+ * Optional approval gate between editing and publishing. When a template
+ * requires review, editors submit the current version, a reviewer or owner
+ * approves or rejects it, and only the approved version can go live.
+ */
+
+import { CMSTemplate, CollaboratorRole, TemplateStatus } from '@/types/cms-templates';
+
+export type ReviewAction = 'submit' | 'withdraw' | 'approve' | 'reject';
+
+export interface ReviewActionError {
+  message: string;
+  status: number;
+}
+
+// Roles allowed to take each action, and the status it moves the template to
+export const REVIEW_TRANSITIONS: Record<
+  ReviewAction,
+  { roles: CollaboratorRole[]; to: TemplateStatus }
+> = {
+  submit: { roles: ['owner', 'editor'], to: 'review' },
+  withdraw: { roles: ['owner', 'editor'], to: 'draft' },
+  approve: { roles: ['owner', 'reviewer'], to: 'draft' },
+  reject: { roles: ['owner', 'reviewer'], to: 'draft' },
+};
+
+/**
+ * Why the user can't take a review action on the template, or null if they can.
+ */
+export function getReviewActionError(
+  template: CMSTemplate,
+  role: CollaboratorRole,
+  action: ReviewAction,
+  userId: string
+): ReviewActionError | null {
+  if (!template.requires_review) {
+    return { message: 'This template does not require review', status: 400 };
+  }
+
+  if (!REVIEW_TRANSITIONS[action].roles.includes(role)) {
+    return { message: `Your ${role} role on this template does not allow this`, status: 403 };
+  }
+
+  if (action === 'submit') {
+    if (template.status !== 'draft' && template.status !== 'published') {
+      return { message: `Cannot submit a template that is ${template.status}`, status: 409 };
+    }
+    if (template.current_version_id === template.approved_version_id) {
+      return { message: 'The current version is already approved', status: 409 };
+    }
+    return null;
+  }
+
+  if (template.status !== 'review') {
+    return { message: 'This template is not awaiting review', status: 409 };
+  }
+
+  // Owners may sign off their own work; everyone else needs a second pair of eyes
+  if (
+    (action === 'approve' || action === 'reject') &&
+    template.review_requested_by === userId &&
+    role !== 'owner'
+  ) {
+    return { message: 'You cannot review your own submission', status: 403 };
+  }
+
+  return null;
+}
+
+// Review actions the user can take on the template right now
+export function getAvailableReviewActions(
+  template: CMSTemplate,
+  role: CollaboratorRole | null,
+  userId: string
+): ReviewAction[] {
+  if (!role) {
+    return [];
+  }
+
+  return (Object.keys(REVIEW_TRANSITIONS) as ReviewAction[]).filter(
+    (action) => getReviewActionError(template, role, action, userId) === null
+  );
+}
+
+// Templates without the gate can publish any version
+export function isVersionApproved(template: CMSTemplate, versionId: string): boolean {
+  return !template.requires_review || template.approved_version_id === versionId;
+}
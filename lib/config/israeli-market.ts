@@ -5,7 +5,8 @@ export const ISRAELI_CONFIG = {
   currency: 'ILS' as const,
   currencySymbol: '₪',
 
-  // Tax settings (Israeli VAT)
+  // Tax settings (Israeli VAT). Tax and shipping values here are only the
+  // defaults; checkout uses the admin store settings (lib/settings/store-settings.ts)
   vatRate: 0.17, // 17% VAT in Israel
   vatName: 'VAT',
   vatNameHebrew: 'מע"מ',
@@ -10,6 +10,7 @@ import React, {
   useRef,
 } from 'react';
 import { apiUrl } from '@/lib/utils/api';
+import { getVariantPrice } from '@/lib/utils/shop-helpers';
 import { useAuth } from '@/lib/auth/auth-context';
 import {
   saveCartToStorage,
@@ -26,6 +27,7 @@ import { trackCartAbandonment, setupAbandonmentTracking } from '@/lib/utils/cart
 export interface CartItem {
   id: string;
   product_id: string;
+  variant_id?: string | null;
   quantity: number;
   product: {
     id: string;
@@ -35,6 +37,14 @@ export interface CartItem {
     inventory_count: number;
     discount_percent?: number;
   };
+  variant?: {
+    id: string;
+    sku: string;
+    size: string | null;
+    color: string | null;
+    price_override: number | null;
+    inventory_count: number;
+  } | null;
 }
 
 export interface CartState {
@@ -47,7 +57,7 @@ export interface CartState {
 }
 
 export interface CartContextType extends CartState {
-  addItem: (productId: string, quantity?: number) => Promise<void>;
+  addItem: (productId: string, quantity?: number, variantId?: string) => Promise<void>;
   removeItem: (itemId: string) => Promise<void>;
   updateQuantity: (itemId: string, quantity: number) => Promise<void>;
   clearCart: () => Promise<void>;
@@ -101,7 +111,9 @@ function cartReducer(state: CartState, action: CartAction): CartState {
 
     case 'ADD_ITEM': {
       const existingItemIndex = state.items.findIndex(
-        (item) => item.product_id === action.payload.product_id
+        (item) =>
+          item.product_id === action.payload.product_id &&
+          (item.variant_id || null) === (action.payload.variant_id || null)
       );
 
       let newItems: CartItem[];
@@ -118,9 +130,10 @@ function cartReducer(state: CartState, action: CartAction): CartState {
       }
 
       const newTotal = newItems.reduce((sum, item) => {
+        const unitPrice = getVariantPrice(item.product, item.variant);
         const price = item.product.discount_percent
-          ? item.product.price * (1 - item.product.discount_percent / 100)
-          : item.product.price;
+          ? unitPrice * (1 - item.product.discount_percent / 100)
+          : unitPrice;
         return sum + price * item.quantity;
       }, 0);
 
@@ -140,9 +153,10 @@ function cartReducer(state: CartState, action: CartAction): CartState {
       );
 
       const newTotal = newItems.reduce((sum, item) => {
+        const unitPrice = getVariantPrice(item.product, item.variant);
         const price = item.product.discount_percent
-          ? item.product.price * (1 - item.product.discount_percent / 100)
-          : item.product.price;
+          ? unitPrice * (1 - item.product.discount_percent / 100)
+          : unitPrice;
         return sum + price * item.quantity;
       }, 0);
 
@@ -159,9 +173,10 @@ function cartReducer(state: CartState, action: CartAction): CartState {
     case 'REMOVE_ITEM': {
       const newItems = state.items.filter((item) => item.id !== action.payload);
       const newTotal = newItems.reduce((sum, item) => {
+        const unitPrice = getVariantPrice(item.product, item.variant);
         const price = item.product.discount_percent
-          ? item.product.price * (1 - item.product.discount_percent / 100)
-          : item.product.price;
+          ? unitPrice * (1 - item.product.discount_percent / 100)
+          : unitPrice;
         return sum + price * item.quantity;
       }, 0);
 
@@ -205,30 +220,28 @@ const CartContext = createContext<CartContextType | undefined>(undefined);
 // Provider
 export function CartProvider({ children }: { children: React.ReactNode }) {
   const [state, dispatch] = useReducer(cartReducer, initialState);
-  const { user, session } = useAuth();
+  const { user, session, isLoading: isAuthLoading } = useAuth();
   const lastUserIdRef = useRef<string | null>(null);
 
-  // Fetch cart from API
+  // Fetch cart from API (guests get the guest cart kept by cookie)
   const fetchCart = useCallback(async () => {
-    if (!session) {
-      dispatch({ type: 'CLEAR_CART' });
-      return;
-    }
-
     dispatch({ type: 'SET_LOADING', payload: true });
 
     try {
-      const response = await fetch(apiUrl('/api/cart'), {
-        headers: {
-          Authorization: `Bearer ${session.access_token}`,
-        },
-      });
+      const response = session
+        ? await fetch(apiUrl('/api/cart'), {
+            headers: {
+              Authorization: `Bearer ${session.access_token}`,
+            },
+          })
+        : await fetch(apiUrl('/api/guest-cart'));
 
       if (!response.ok) {
         throw new Error('Failed to fetch cart');
       }
 
-      const data = await response.json();
+      const responseData = await response.json();
+      const data = responseData.data || responseData;
       dispatch({
         type: 'SET_CART',
         payload: {
@@ -343,6 +356,13 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
     };
   }, [user?.id, session?.access_token]);
 
+  // Guests shop from the server-side guest cart
+  useEffect(() => {
+    if (!isAuthLoading && !session) {
+      fetchCart();
+    }
+  }, [isAuthLoading, session, fetchCart]);
+
   // Set up cart abandonment tracking
   useEffect(() => {
     const cleanup = setupAbandonmentTracking();
@@ -363,28 +383,33 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
     }
   }, [session, state.items, state.total, state.itemCount]);
 
-  // API functions
-  const addItem = async (productId: string, quantity: number = 1) => {
-    if (!session) {
-      dispatch({ type: 'SET_ERROR', payload: 'Please log in to add items to cart' });
-      return;
-    }
+  // Signed-in shoppers use /api/cart/*, guests the guest cart endpoint
+  const cartRequest = (action: 'add' | 'update' | 'remove', method: string, body: object) =>
+    fetch(apiUrl(session ? `/api/cart/${action}` : '/api/guest-cart'), {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(session ? { Authorization: `Bearer ${session.access_token}` } : {}),
+      },
+      body: JSON.stringify(body),
+    });
 
+  // API functions
+  const addItem = async (productId: string, quantity: number = 1, variantId?: string) => {
     dispatch({ type: 'SET_LOADING', payload: true });
 
     try {
-      const response = await fetch(apiUrl('/api/cart/add'), {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${session.access_token}`,
-        },
-        body: JSON.stringify({ product_id: productId, quantity }),
+      const response = await cartRequest('add', 'POST', {
+        product_id: productId,
+        variant_id: variantId,
+        quantity,
       });
 
       if (!response.ok) {
         const errorData = await response.json();
-        throw new Error(errorData.message || 'Failed to add item to cart');
+        throw new Error(
+          errorData.error?.message || errorData.message || 'Failed to add item to cart'
+        );
       }
 
       // Refresh cart after adding
@@ -393,6 +418,7 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
       // Track analytics event
       trackCartEvent('add_to_cart', {
         product_id: productId,
+        variant_id: variantId,
         quantity,
       });
 
@@ -407,19 +433,10 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
   };
 
   const removeItem = async (itemId: string) => {
-    if (!session) return;
-
     dispatch({ type: 'SET_LOADING', payload: true });
 
     try {
-      const response = await fetch(apiUrl('/api/cart/remove'), {
-        method: 'DELETE',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${session.access_token}`,
-        },
-        body: JSON.stringify({ id: itemId }),
-      });
+      const response = await cartRequest('remove', 'DELETE', { id: itemId });
 
       if (!response.ok) {
         throw new Error('Failed to remove item from cart');
@@ -443,19 +460,10 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
   };
 
   const updateQuantity = async (itemId: string, quantity: number) => {
-    if (!session) return;
-
     dispatch({ type: 'SET_LOADING', payload: true });
 
     try {
-      const response = await fetch(apiUrl('/api/cart/update'), {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${session.access_token}`,
-        },
-        body: JSON.stringify({ id: itemId, quantity }),
-      });
+      const response = await cartRequest('update', 'PUT', { id: itemId, quantity });
 
       if (!response.ok) {
         throw new Error('Failed to update cart item');
@@ -1,6 +1,13 @@
 'use client';
 
-import React, { createContext, useContext, useReducer, useCallback } from 'react';
+import React, {
+  createContext,
+  useContext,
+  useReducer,
+  useCallback,
+  useEffect,
+  useMemo,
+} from 'react';
 import { apiUrl } from '@/lib/utils/api';
 import { useAuth } from '@/lib/auth/auth-context';
 import { useCart } from '@/lib/context/cart-context';
@@ -13,7 +20,15 @@ import {
   OrderSummary,
 } from '@/lib/validations/checkout';
 import { detectUserCurrency, ISRAELI_CURRENCY } from '@/lib/utils/currency';
-import { israeliHelpers } from '@/lib/config/israeli-market';
+import { useCheckoutSettings } from '@/lib/hooks';
+import {
+  DEFAULT_STORE_SETTINGS,
+  getShippingMethods,
+  toCheckoutSettings,
+} from '@/lib/settings/store-settings';
+import { OrderQuote, toOrderSummary } from '@/lib/checkout/order-quote';
+import { AppliedLoyaltyReward } from '@/lib/loyalty/loyalty-service';
+import { AppliedPromoCode } from '@/lib/promotions/promotion-service';
 
 // Checkout state interface
 export interface CheckoutState extends CheckoutSession {
@@ -22,10 +37,18 @@ export interface CheckoutState extends CheckoutSession {
   currentStep: number;
   isGuestCheckout: boolean;
   orderSummary: OrderSummary | null;
+  orderQuote: OrderQuote | null;
   availableShippingMethods: ShippingMethod[];
   selectedShippingMethod: ShippingMethod | null;
   paymentIntentId: string | null;
   clientSecret: string | null;
+  loyaltyReward: AppliedLoyaltyReward | null;
+  promoCode: AppliedPromoCode | null;
+  // When the cart's stock hold lapses
+  reservationExpiresAt: string | null;
+  // Guest checkout: the email the order is keyed by, and its signed lookup link
+  guestEmail: string | null;
+  orderLookupUrl: string | null;
 }
 
 // Checkout actions
@@ -34,13 +57,18 @@ type CheckoutAction =
   | { type: 'SET_ERROR'; payload: string | null }
   | { type: 'SET_STEP'; payload: number }
   | { type: 'SET_GUEST_CHECKOUT'; payload: boolean }
+  | { type: 'SET_GUEST_EMAIL'; payload: string | null }
+  | { type: 'SET_ORDER_LOOKUP_URL'; payload: string | null }
   | { type: 'SET_SHIPPING_ADDRESS'; payload: ShippingAddress }
   | { type: 'SET_BILLING_ADDRESS'; payload: BillingAddress }
   | { type: 'SET_PAYMENT_METHOD'; payload: PaymentMethod }
   | { type: 'SET_SHIPPING_METHOD'; payload: ShippingMethod }
-  | { type: 'SET_ORDER_SUMMARY'; payload: OrderSummary }
+  | { type: 'SET_ORDER_QUOTE'; payload: OrderQuote }
   | { type: 'SET_AVAILABLE_SHIPPING_METHODS'; payload: ShippingMethod[] }
   | { type: 'SET_PAYMENT_INTENT'; payload: { paymentIntentId: string; clientSecret: string } }
+  | { type: 'SET_LOYALTY_REWARD'; payload: AppliedLoyaltyReward | null }
+  | { type: 'SET_PROMO_CODE'; payload: AppliedPromoCode | null }
+  | { type: 'SET_RESERVATION'; payload: string | null }
   | { type: 'RESET_CHECKOUT' };
 
 // Checkout context interface
@@ -50,66 +78,25 @@ export interface CheckoutContextType extends CheckoutState {
   setPaymentMethod: (method: PaymentMethod) => void;
   setShippingMethod: (method: ShippingMethod) => void;
   setGuestCheckout: (isGuest: boolean) => void;
+  setGuestEmail: (email: string | null) => void;
+  setLoyaltyReward: (reward: AppliedLoyaltyReward | null) => void;
+  setPromoCode: (promo: AppliedPromoCode | null) => void;
   nextStep: () => void;
   previousStep: () => void;
   goToStep: (step: number) => void;
   calculateOrderSummary: () => Promise<void>;
+  reserveInventory: () => Promise<void>;
   createPaymentIntent: () => Promise<void>;
   processOrder: () => Promise<string | null>;
   resetCheckout: () => void;
 }
 
 // Initial state
-// Default shipping methods
-const defaultShippingMethods: ShippingMethod[] = [
-  {
-    id: 'standard',
-    name: 'Standard Shipping',
-    description: 'Free shipping on orders over $50',
-    price: 0,
-    estimatedDays: 5,
-  },
-  {
-    id: 'express',
-    name: 'Express Shipping',
-    description: 'Faster delivery',
-    price: 9.99,
-    estimatedDays: 2,
-  },
-  {
-    id: 'overnight',
-    name: 'Overnight Shipping',
-    description: 'Next business day delivery',
-    price: 19.99,
-    estimatedDays: 1,
-  },
-];
-
-// Israeli shipping methods
-const israeliShippingMethods: ShippingMethod[] = [
-  {
-    id: 'standard',
-    name: 'Standard Shipping',
-    description: 'Free shipping on orders over ₪200',
-    price: 25,
-    estimatedDays: 3,
-  },
-  {
-    id: 'express',
-    name: 'Express Shipping',
-    description: 'Next business day delivery',
-    price: 40,
-    estimatedDays: 1,
-  },
-];
-
-// Helper function to get shipping methods based on country
-const getShippingMethodsForCountry = (country?: string): ShippingMethod[] => {
-  if (country === 'IL') {
-    return israeliShippingMethods;
-  }
-  return defaultShippingMethods;
-};
+// Shipping methods until the store settings have loaded
+const defaultShippingMethods: ShippingMethod[] = getShippingMethods(
+  toCheckoutSettings(DEFAULT_STORE_SETTINGS),
+  0
+);
 
 const initialState: CheckoutState = {
   step: 'shipping',
@@ -119,10 +106,16 @@ const initialState: CheckoutState = {
   isGuestCheckout: false,
   guestCheckout: false,
   orderSummary: null,
+  orderQuote: null,
   availableShippingMethods: defaultShippingMethods,
   selectedShippingMethod: defaultShippingMethods[0], // Default to standard shipping
   paymentIntentId: null,
   clientSecret: null,
+  loyaltyReward: null,
+  promoCode: null,
+  reservationExpiresAt: null,
+  guestEmail: null,
+  orderLookupUrl: null,
 };
 
 // Checkout reducer
@@ -145,14 +138,14 @@ function checkoutReducer(state: CheckoutState, action: CheckoutAction): Checkout
     case 'SET_GUEST_CHECKOUT':
       return { ...state, isGuestCheckout: action.payload, guestCheckout: action.payload };
 
+    case 'SET_GUEST_EMAIL':
+      return { ...state, guestEmail: action.payload };
+
+    case 'SET_ORDER_LOOKUP_URL':
+      return { ...state, orderLookupUrl: action.payload };
+
     case 'SET_SHIPPING_ADDRESS':
-      const newShippingMethods = getShippingMethodsForCountry(action.payload.country);
-      return {
-        ...state,
-        shippingAddress: action.payload,
-        availableShippingMethods: newShippingMethods,
-        selectedShippingMethod: newShippingMethods[0], // Reset to first method for new country
-      };
+      return { ...state, shippingAddress: action.payload };
 
     case 'SET_BILLING_ADDRESS':
       return { ...state, billingAddress: action.payload };
@@ -167,11 +160,19 @@ function checkoutReducer(state: CheckoutState, action: CheckoutAction): Checkout
         shippingMethod: action.payload.id as any,
       };
 
-    case 'SET_ORDER_SUMMARY':
-      return { ...state, orderSummary: action.payload };
+    case 'SET_ORDER_QUOTE':
+      return { ...state, orderQuote: action.payload, orderSummary: toOrderSummary(action.payload) };
 
     case 'SET_AVAILABLE_SHIPPING_METHODS':
-      return { ...state, availableShippingMethods: action.payload };
+      // Keep the chosen method (repriced) while it is still offered
+      return {
+        ...state,
+        availableShippingMethods: action.payload,
+        selectedShippingMethod:
+          action.payload.find((method) => method.id === state.selectedShippingMethod?.id) ||
+          action.payload[0] ||
+          null,
+      };
 
     case 'SET_PAYMENT_INTENT':
       return {
@@ -180,6 +181,26 @@ function checkoutReducer(state: CheckoutState, action: CheckoutAction): Checkout
         clientSecret: action.payload.clientSecret,
       };
 
+    case 'SET_LOYALTY_REWARD':
+      // The amount changes, so any payment intent for the old total is stale
+      return {
+        ...state,
+        loyaltyReward: action.payload,
+        paymentIntentId: null,
+        clientSecret: null,
+      };
+
+    case 'SET_PROMO_CODE':
+      return {
+        ...state,
+        promoCode: action.payload,
+        paymentIntentId: null,
+        clientSecret: null,
+      };
+
+    case 'SET_RESERVATION':
+      return { ...state, reservationExpiresAt: action.payload };
+
     case 'RESET_CHECKOUT':
       return initialState;
 
@@ -196,6 +217,21 @@ export function CheckoutProvider({ children }: { children: React.ReactNode }) {
   const [state, dispatch] = useReducer(checkoutReducer, initialState);
   const { session } = useAuth();
   const { items, total } = useCart();
+  const { data: loadedSettings } = useCheckoutSettings();
+  const checkoutSettings = useMemo(
+    () => loadedSettings || toCheckoutSettings(DEFAULT_STORE_SETTINGS),
+    [loadedSettings]
+  );
+  // Guest orders are keyed by the email given at checkout (or the shipping email)
+  const guestEmail = state.guestEmail || state.shippingAddress?.email;
+
+  // Shipping prices depend on the configured rates and the cart subtotal
+  useEffect(() => {
+    dispatch({
+      type: 'SET_AVAILABLE_SHIPPING_METHODS',
+      payload: getShippingMethods(checkoutSettings, total),
+    });
+  }, [checkoutSettings, total]);
 
   // Action creators
   const setShippingAddress = useCallback((address: ShippingAddress) => {
@@ -218,6 +254,18 @@ export function CheckoutProvider({ children }: { children: React.ReactNode }) {
     dispatch({ type: 'SET_GUEST_CHECKOUT', payload: isGuest });
   }, []);
 
+  const setGuestEmail = useCallback((email: string | null) => {
+    dispatch({ type: 'SET_GUEST_EMAIL', payload: email });
+  }, []);
+
+  const setLoyaltyReward = useCallback((reward: AppliedLoyaltyReward | null) => {
+    dispatch({ type: 'SET_LOYALTY_REWARD', payload: reward });
+  }, []);
+
+  const setPromoCode = useCallback((promo: AppliedPromoCode | null) => {
+    dispatch({ type: 'SET_PROMO_CODE', payload: promo });
+  }, []);
+
   const nextStep = useCallback(() => {
     if (state.currentStep < 3) {
       dispatch({ type: 'SET_STEP', payload: state.currentStep + 1 });
@@ -236,29 +284,62 @@ export function CheckoutProvider({ children }: { children: React.ReactNode }) {
     }
   }, []);
 
+  // Totals come from the server quote so they match what the payment intent charges
   const calculateOrderSummary = useCallback(async () => {
     dispatch({ type: 'SET_LOADING', payload: true });
 
     try {
-      const subtotal = total;
-      const shipping = state.selectedShippingMethod?.price || 0;
-      const tax = subtotal * 0.08; // 8% tax rate - should be calculated based on address
-      const orderTotal = subtotal + shipping + tax;
-
-      const summary: OrderSummary = {
-        subtotal,
-        shipping,
-        tax,
-        total: orderTotal,
-      };
+      const response = await fetch(apiUrl('/api/checkout/quote'), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          shippingMethod: state.selectedShippingMethod?.id,
+          loyaltyCode: state.loyaltyReward?.code,
+          promoCode: state.promoCode?.code,
+        }),
+      });
+      const result = await response.json();
 
-      dispatch({ type: 'SET_ORDER_SUMMARY', payload: summary });
+      if (!response.ok) {
+        dispatch({
+          type: 'SET_ERROR',
+          payload: result.error?.message || 'Failed to calculate order summary',
+        });
+        return;
+      }
+
+      dispatch({ type: 'SET_ORDER_QUOTE', payload: result.data });
     } catch (error) {
       dispatch({ type: 'SET_ERROR', payload: 'Failed to calculate order summary' });
     } finally {
       dispatch({ type: 'SET_LOADING', payload: false });
     }
-  }, [total, state.selectedShippingMethod]);
+  }, [state.selectedShippingMethod, state.loyaltyReward, state.promoCode]);
+
+  // Hold the cart's stock while the shopper checks out
+  const reserveInventory = useCallback(async () => {
+    try {
+      const response = await fetch(apiUrl('/api/checkout/reservations'), {
+        method: 'POST',
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        dispatch({ type: 'SET_RESERVATION', payload: null });
+        dispatch({
+          type: 'SET_ERROR',
+          payload: result.error?.message || 'Some items in your cart are no longer available',
+        });
+        return;
+      }
+
+      dispatch({ type: 'SET_RESERVATION', payload: result.data.expiresAt });
+    } catch (error) {
+      console.error('Inventory reservation error:', error);
+    }
+  }, []);
 
   const createPaymentIntent = useCallback(async () => {
     if (!state.orderSummary) {
@@ -276,7 +357,13 @@ export function CheckoutProvider({ children }: { children: React.ReactNode }) {
         },
         body: JSON.stringify({
           amount: Math.round(state.orderSummary.total * 100), // Convert to cents
-          currency: 'usd',
+          shippingMethod: state.selectedShippingMethod?.id,
+          loyaltyCode: state.loyaltyReward?.code,
+          promoCode: state.promoCode?.code,
+          guestEmail: session ? undefined : guestEmail,
+          // Lets the order be completed from the payment webhook if this page is closed
+          shippingAddress: state.shippingAddress || undefined,
+          billingAddress: state.billingAddress || undefined,
         }),
       });
 
@@ -284,7 +371,8 @@ export function CheckoutProvider({ children }: { children: React.ReactNode }) {
         throw new Error('Failed to create payment intent');
       }
 
-      const { paymentIntentId, clientSecret } = await response.json();
+      const result = await response.json();
+      const { paymentIntentId, clientSecret } = result.data;
       dispatch({
         type: 'SET_PAYMENT_INTENT',
         payload: { paymentIntentId, clientSecret },
@@ -294,7 +382,16 @@ export function CheckoutProvider({ children }: { children: React.ReactNode }) {
     } finally {
       dispatch({ type: 'SET_LOADING', payload: false });
     }
-  }, [state.orderSummary]);
+  }, [
+    state.orderSummary,
+    state.selectedShippingMethod,
+    state.loyaltyReward,
+    state.promoCode,
+    state.shippingAddress,
+    state.billingAddress,
+    session,
+    guestEmail,
+  ]);
 
   const processOrder = useCallback(async (): Promise<string | null> => {
     if (!state.shippingAddress || !state.paymentIntentId) {
@@ -315,15 +412,20 @@ export function CheckoutProvider({ children }: { children: React.ReactNode }) {
           billingAddress: state.billingAddress,
           paymentMethodId: state.paymentIntentId, // Using payment intent ID as payment method ID
           shippingMethod: state.selectedShippingMethod?.id || 'standard',
+          loyaltyCode: state.loyaltyReward?.code,
+          promoCode: state.promoCode?.code,
+          guestEmail: session ? undefined : guestEmail,
         }),
       });
 
       if (!response.ok) {
         const errorData = await response.json();
-        throw new Error(errorData.message || 'Failed to create order');
+        throw new Error(errorData.error?.message || errorData.message || 'Failed to create order');
       }
 
-      const data = await response.json();
+      const { data } = await response.json();
+      // Guests track the order through its signed lookup link
+      dispatch({ type: 'SET_ORDER_LOOKUP_URL', payload: data.lookupUrl || null });
       return data.orderId;
     } catch (error) {
       console.error('Order processing error:', error);
@@ -340,6 +442,10 @@ export function CheckoutProvider({ children }: { children: React.ReactNode }) {
     state.billingAddress,
     state.paymentIntentId,
     state.selectedShippingMethod,
+    state.loyaltyReward,
+    state.promoCode,
+    session,
+    guestEmail,
   ]);
 
   const resetCheckout = useCallback(() => {
@@ -353,10 +459,14 @@ export function CheckoutProvider({ children }: { children: React.ReactNode }) {
     setPaymentMethod,
     setShippingMethod,
     setGuestCheckout,
+    setGuestEmail,
+    setLoyaltyReward,
+    setPromoCode,
     nextStep,
     previousStep,
     goToStep,
     calculateOrderSummary,
+    reserveInventory,
     createPaymentIntent,
     processOrder,
     resetCheckout,
@@ -13,6 +13,7 @@ export const customerCartItem1: CartItem = {
   id: '40000000-0000-0000-0000-000000000001',
   user_id: customerUser.id,
   product_id: denimJacket.id,
+  variant_id: null,
   quantity: 2,
   created_at: '2024-01-20T10:00:00.000Z',
   updated_at: '2024-01-20T10:00:00.000Z',
@@ -22,6 +23,7 @@ export const customerCartItem2: CartItem = {
   id: '40000000-0000-0000-0000-000000000002',
   user_id: customerUser.id,
   product_id: floralDress.id,
+  variant_id: null,
   quantity: 1,
   created_at: '2024-01-20T10:05:00.000Z',
   updated_at: '2024-01-20T10:05:00.000Z',
@@ -31,6 +33,7 @@ export const testUser1CartItem1: CartItem = {
   id: '40000000-0000-0000-0000-000000000003',
   user_id: testUser1.id,
   product_id: casualShirt.id,
+  variant_id: null,
   quantity: 3,
   created_at: '2024-01-21T14:20:00.000Z',
   updated_at: '2024-01-21T14:20:00.000Z',
@@ -40,6 +43,7 @@ export const testUser1CartItem2: CartItem = {
   id: '40000000-0000-0000-0000-000000000004',
   user_id: testUser1.id,
   product_id: eveningBlouse.id,
+  variant_id: null,
   quantity: 1,
   created_at: '2024-01-21T14:25:00.000Z',
   updated_at: '2024-01-21T14:25:00.000Z',
@@ -57,6 +61,7 @@ export const createCartItemFixture = (overrides: Partial<CartItem> = {}): CartIt
   id: '40000000-0000-0000-0000-000000000099',
   user_id: customerUser.id,
   product_id: denimJacket.id,
+  variant_id: null,
   quantity: 1,
   created_at: new Date().toISOString(),
   updated_at: new Date().toISOString(),
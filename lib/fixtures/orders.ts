@@ -118,6 +118,8 @@ export const completedOrderItems: OrderItem[] = [
     id: '31000000-0000-0000-0000-000000000001',
     order_id: completedOrder.id,
     product_id: '20000000-0000-0000-0000-000000000001', // Denim Jacket
+    variant_id: null,
+    sku: null,
     quantity: 2,
     price: 89.99,
     created_at: '2024-01-10T10:00:00.000Z',
@@ -127,6 +129,8 @@ export const completedOrderItems: OrderItem[] = [
     id: '31000000-0000-0000-0000-000000000002',
     order_id: completedOrder.id,
     product_id: '20000000-0000-0000-0000-000000000011', // Floral Dress
+    variant_id: null,
+    sku: null,
     quantity: 1,
     price: 79.99,
     created_at: '2024-01-10T10:00:00.000Z',
@@ -139,6 +143,8 @@ export const processingOrderItems: OrderItem[] = [
     id: '31000000-0000-0000-0000-000000000003',
     order_id: processingOrder.id,
     product_id: '20000000-0000-0000-0000-000000000012', // Evening Blouse
+    variant_id: null,
+    sku: null,
     quantity: 1,
     price: 69.99,
     created_at: '2024-01-15T14:30:00.000Z',
@@ -148,6 +154,8 @@ export const processingOrderItems: OrderItem[] = [
     id: '31000000-0000-0000-0000-000000000004',
     order_id: processingOrder.id,
     product_id: '20000000-0000-0000-0000-000000000013', // Skinny Jeans
+    variant_id: null,
+    sku: null,
     quantity: 1,
     price: 84.99,
     created_at: '2024-01-15T14:30:00.000Z',
@@ -160,6 +168,8 @@ export const pendingOrderItems: OrderItem[] = [
     id: '31000000-0000-0000-0000-000000000005',
     order_id: pendingOrder.id,
     product_id: '20000000-0000-0000-0000-000000000001', // Denim Jacket
+    variant_id: null,
+    sku: null,
     quantity: 1,
     price: 89.99,
     created_at: '2024-01-20T09:15:00.000Z',
@@ -172,6 +182,8 @@ export const largeOrderItems: OrderItem[] = [
     id: '31000000-0000-0000-0000-000000000006',
     order_id: largeOrder.id,
     product_id: '20000000-0000-0000-0000-000000000001', // Denim Jacket
+    variant_id: null,
+    sku: null,
     quantity: 2,
     price: 89.99,
     created_at: '2024-01-08T16:45:00.000Z',
@@ -181,6 +193,8 @@ export const largeOrderItems: OrderItem[] = [
     id: '31000000-0000-0000-0000-000000000007',
     order_id: largeOrder.id,
     product_id: '20000000-0000-0000-0000-000000000011', // Floral Dress
+    variant_id: null,
+    sku: null,
     quantity: 1,
     price: 79.99,
     created_at: '2024-01-08T16:45:00.000Z',
@@ -190,6 +204,8 @@ export const largeOrderItems: OrderItem[] = [
     id: '31000000-0000-0000-0000-000000000008',
     order_id: largeOrder.id,
     product_id: '20000000-0000-0000-0000-000000000012', // Evening Blouse
+    variant_id: null,
+    sku: null,
     quantity: 2,
     price: 69.99,
     created_at: '2024-01-08T16:45:00.000Z',
@@ -199,6 +215,8 @@ export const largeOrderItems: OrderItem[] = [
     id: '31000000-0000-0000-0000-000000000009',
     order_id: largeOrder.id,
     product_id: '20000000-0000-0000-0000-000000000002', // Casual Shirt
+    variant_id: null,
+    sku: null,
     quantity: 3,
     price: 54.99,
     created_at: '2024-01-08T16:45:00.000Z',
@@ -238,6 +256,8 @@ export const createOrderItemFixture = (overrides: Partial<OrderItem> = {}): Orde
   id: '31000000-0000-0000-0000-000000000099',
   order_id: '30000000-0000-0000-0000-000000000099',
   product_id: '20000000-0000-0000-0000-000000000001',
+  variant_id: null,
+  sku: null,
   quantity: 1,
   price: 99.99,
   created_at: new Date().toISOString(),
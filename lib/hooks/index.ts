@@ -11,6 +11,8 @@ import { useCachedFetch } from './use-cached-fetch';
 import { useFetch } from './use-fetch';
 import { useCreate, useUpdate, useDelete } from './use-mutation';
 import { apiUrl } from '@/lib/utils/api';
+import { CheckoutSettings } from '@/lib/settings/store-settings';
+import type { Review } from '@/components/products/detail/product-reviews';
 
 // Export convenience hooks for specific API endpoints
 
@@ -32,6 +34,19 @@ export function useProduct(id: string, options = {}) {
   });
 }
 
+// Approved reviews of a product with its rating summary
+export function useProductReviews(id: string, options = {}) {
+  return useCachedFetch<{
+    reviews: Review[];
+    averageRating: number;
+    totalReviews: number;
+    ratingCounts: Record<number, number>;
+  }>(apiUrl(`/api/products/${id}/reviews`), {
+    cacheKey: `product-reviews-${id}`,
+    ...options,
+  });
+}
+
 export function useCreateProduct(options = {}) {
   return useCreate(apiUrl('/api/products'), options);
 }
@@ -90,3 +105,11 @@ export function useUpdateCartItem(options = {}) {
 export function useRemoveFromCart(options = {}) {
   return useDelete(apiUrl('/api/cart/remove'), options);
 }
+
+// Store settings
+export function useCheckoutSettings(options = {}) {
+  return useCachedFetch<CheckoutSettings>(apiUrl('/api/settings/checkout'), {
+    cacheKey: 'checkout-settings',
+    ...options,
+  });
+}
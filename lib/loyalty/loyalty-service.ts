@@ -1,4 +1,9 @@
 // Loyalty program service for managing points, rewards, and tiers
+import { Database } from '@/types/supabase';
+
+type LoyaltyAccountRow = Database['public']['Tables']['loyalty_accounts']['Row'];
+type LoyaltyTransactionRow = Database['public']['Tables']['loyalty_transactions']['Row'];
+type LoyaltyRedemptionRow = Database['public']['Tables']['loyalty_redemptions']['Row'];
 
 export interface LoyaltyTier {
   id: string;
@@ -16,10 +21,22 @@ export interface LoyaltyReward {
   pointsCost: number;
   type: 'discount' | 'free_shipping' | 'product' | 'experience';
   value: number;
+  isPercentage?: boolean; // discount value is a percentage of the subtotal
   isActive: boolean;
   expiresAt?: string;
 }
 
+// A redeemed reward code that can be applied at checkout
+export interface AppliedLoyaltyReward {
+  redemptionId: string;
+  code: string;
+  rewardId: string;
+  type: LoyaltyReward['type'];
+  value: number;
+  isPercentage: boolean;
+  pointsCost: number;
+}
+
 export interface UserLoyalty {
   userId: string;
   totalPoints: number;
@@ -34,7 +51,7 @@ export interface UserLoyalty {
 export interface PointsTransaction {
   id: string;
   userId: string;
-  type: 'earned' | 'redeemed' | 'expired' | 'bonus';
+  type: 'earned' | 'redeemed' | 'expired' | 'bonus' | 'reversed';
   points: number;
   description: string;
   orderId?: string;
@@ -125,6 +142,7 @@ export class LoyaltyService {
       pointsCost: 500,
       type: 'discount',
       value: 15,
+      isPercentage: true,
       isActive: true,
     },
   ];
@@ -157,7 +175,52 @@ export class LoyaltyService {
     return nextTier ? nextTier.minPoints - totalPoints : 0;
   }
 
-  // Award points for purchase
+  // Build the member summary from a stored balance (or defaults for new members)
+  toUserLoyalty(userId: string, account: LoyaltyAccountRow | null): UserLoyalty {
+    const totalPoints = account?.total_points ?? 0;
+    const nextTier = this.getNextTier(totalPoints);
+
+    return {
+      userId,
+      totalPoints,
+      availablePoints: account?.available_points ?? 0,
+      currentTier: this.getUserTier(totalPoints).id,
+      nextTier: nextTier?.id,
+      pointsToNextTier: this.getPointsToNextTier(totalPoints),
+      lifetimeSpent: Number(account?.lifetime_spent ?? 0),
+      joinedAt: account?.created_at ?? new Date().toISOString(),
+    };
+  }
+
+  // Map a ledger row to the client-facing transaction shape
+  toPointsTransaction(row: LoyaltyTransactionRow): PointsTransaction {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      type: row.type,
+      points: row.points,
+      description: row.description,
+      orderId: row.order_id ?? undefined,
+      rewardId: row.reward_id ?? undefined,
+      createdAt: row.created_at,
+      expiresAt: row.expires_at ?? undefined,
+    };
+  }
+
+  // Map an unused redemption to the reward applied at checkout
+  toAppliedReward(row: LoyaltyRedemptionRow): AppliedLoyaltyReward {
+    return {
+      redemptionId: row.id,
+      code: row.code,
+      rewardId: row.reward_id,
+      type: row.reward_type,
+      value: Number(row.reward_value),
+      isPercentage: row.is_percentage,
+      pointsCost: row.points_cost,
+    };
+  }
+
+  // Award points for purchase (admin only; paid orders are awarded automatically)
   async awardPoints(userId: string, orderId: string, orderTotal: number): Promise<boolean> {
     try {
       // Get user's current loyalty data
@@ -208,12 +271,11 @@ export class LoyaltyService {
         body: JSON.stringify({
           userId,
           rewardId,
-          pointsCost: reward.pointsCost,
         }),
       });
 
       if (response.ok) {
-        const data = await response.json();
+        const { data } = await response.json();
         return { success: true, code: data.code };
       }
 
@@ -229,7 +291,8 @@ export class LoyaltyService {
     try {
       const response = await fetch(`/api/loyalty/user/${userId}`);
       if (response.ok) {
-        return await response.json();
+        const { data } = await response.json();
+        return data;
       }
 
       // Return default loyalty data if not found
@@ -253,7 +316,8 @@ export class LoyaltyService {
     try {
       const response = await fetch(`/api/loyalty/history/${userId}?limit=${limit}`);
       if (response.ok) {
-        return await response.json();
+        const { data } = await response.json();
+        return data;
       }
       return [];
     } catch (error) {
@@ -262,6 +326,21 @@ export class LoyaltyService {
     }
   }
 
+  // Get the user's redeemed rewards that have not been used yet
+  async getActiveRedemptions(): Promise<AppliedLoyaltyReward[]> {
+    try {
+      const response = await fetch('/api/loyalty/redemptions');
+      if (response.ok) {
+        const { data } = await response.json();
+        return data;
+      }
+      return [];
+    } catch (error) {
+      console.error('Error fetching loyalty redemptions:', error);
+      return [];
+    }
+  }
+
   // Get available rewards
   getAvailableRewards(userPoints: number): LoyaltyReward[] {
     return this.rewards.filter((reward) => reward.isActive && reward.pointsCost <= userPoints);
@@ -0,0 +1,311 @@
+/**
+ * Newsletter Subscriptions
+ * Double opt-in signup, confirmation and unsubscribe for the newsletter list.
+ * Callers pass the service role client: visitors confirming or unsubscribing
+ * from an email link usually aren't signed in.
+ */
+
+import { randomBytes } from 'crypto';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '@/types/supabase';
+import { NewsletterStatus, NewsletterSubscribe } from '@/lib/validations/newsletter';
+import { sendNewsletterConfirmation } from '@/lib/notifications/notification-service';
+
+export type NewsletterSubscriber = Database['public']['Tables']['newsletter_subscribers']['Row'];
+
+// Confirmation links expire; signing up again sends a fresh one
+export const CONFIRMATION_TTL_DAYS = 7;
+
+export const NEWSLETTER_STATUSES: NewsletterStatus[] = ['pending', 'subscribed', 'unsubscribed'];
+
+export interface NewsletterError {
+  message: string;
+  status: number;
+  code: string;
+}
+
+export type NewsletterResult =
+  | { data: NewsletterSubscriber; error?: undefined }
+  | { data?: undefined; error: NewsletterError };
+
+export function generateNewsletterToken(): string {
+  return randomBytes(32).toString('hex');
+}
+
+export function isConfirmationExpired(subscriber: NewsletterSubscriber, now = new Date()): boolean {
+  if (!subscriber.confirmation_sent_at) {
+    return false;
+  }
+  const sentAt = new Date(subscriber.confirmation_sent_at).getTime();
+  return now.getTime() - sentAt > CONFIRMATION_TTL_DAYS * 24 * 60 * 60 * 1000;
+}
+
+/**
+ * Starts (or restarts) a subscription and emails the confirmation link.
+ * Addresses that are already confirmed are left alone so nobody can re-send
+ * confirmation emails to a subscriber or change their topics.
+ */
+export async function subscribeToNewsletter(
+  supabase: SupabaseClient<Database>,
+  input: NewsletterSubscribe,
+  userId?: string | null
+): Promise<NewsletterSubscriber> {
+  const { data: existing, error: fetchError } = await supabase
+    .from('newsletter_subscribers')
+    .select('*')
+    .eq('email', input.email)
+    .maybeSingle();
+
+  if (fetchError) {
+    throw fetchError;
+  }
+
+  const linkedUserId =
+    existing?.user_id || userId || (await findUserIdByEmail(supabase, input.email));
+
+  if (existing?.status === 'subscribed') {
+    if (!existing.user_id && linkedUserId) {
+      await supabase
+        .from('newsletter_subscribers')
+        .update({ user_id: linkedUserId })
+        .eq('id', existing.id);
+    }
+    return existing;
+  }
+
+  const pending = {
+    status: 'pending' as const,
+    locale: input.locale,
+    topics: input.topics,
+    source: input.source || null,
+    user_id: linkedUserId,
+    confirmation_token: generateNewsletterToken(),
+    confirmation_sent_at: new Date().toISOString(),
+  };
+
+  const { data: subscriber, error: saveError } = existing
+    ? await supabase
+        .from('newsletter_subscribers')
+        .update(pending)
+        .eq('id', existing.id)
+        .select()
+        .single()
+    : await supabase
+        .from('newsletter_subscribers')
+        .insert({ ...pending, email: input.email, unsubscribe_token: generateNewsletterToken() })
+        .select()
+        .single();
+
+  if (saveError) {
+    throw saveError;
+  }
+
+  await sendNewsletterConfirmation(subscriber.email, {
+    locale: subscriber.locale,
+    confirmationToken: subscriber.confirmation_token!,
+    unsubscribeToken: subscriber.unsubscribe_token,
+  });
+
+  return subscriber;
+}
+
+export async function confirmNewsletterSubscription(
+  supabase: SupabaseClient<Database>,
+  token: string
+): Promise<NewsletterResult> {
+  const { data: subscriber, error: fetchError } = await supabase
+    .from('newsletter_subscribers')
+    .select('*')
+    .eq('confirmation_token', token)
+    .maybeSingle();
+
+  if (fetchError) {
+    throw fetchError;
+  }
+
+  if (!subscriber) {
+    return {
+      error: {
+        message: 'This confirmation link is invalid or has already been used',
+        status: 404,
+        code: 'INVALID_TOKEN',
+      },
+    };
+  }
+
+  if (isConfirmationExpired(subscriber)) {
+    return {
+      error: {
+        message: 'This confirmation link has expired. Please sign up again.',
+        status: 410,
+        code: 'TOKEN_EXPIRED',
+      },
+    };
+  }
+
+  const { data: confirmed, error: updateError } = await supabase
+    .from('newsletter_subscribers')
+    .update({
+      status: 'subscribed',
+      confirmed_at: new Date().toISOString(),
+      confirmation_token: null,
+      unsubscribed_at: null,
+    })
+    .eq('id', subscriber.id)
+    .select()
+    .single();
+
+  if (updateError) {
+    throw updateError;
+  }
+
+  if (confirmed.user_id) {
+    await syncMarketingPreferences(supabase, confirmed.user_id, confirmed.topics);
+  }
+
+  return { data: confirmed };
+}
+
+// Unsubscribing is idempotent so the link in old emails keeps working
+export async function unsubscribeFromNewsletter(
+  supabase: SupabaseClient<Database>,
+  token: string
+): Promise<NewsletterResult> {
+  const { data: subscriber, error: fetchError } = await supabase
+    .from('newsletter_subscribers')
+    .select('*')
+    .eq('unsubscribe_token', token)
+    .maybeSingle();
+
+  if (fetchError) {
+    throw fetchError;
+  }
+
+  if (!subscriber) {
+    return {
+      error: {
+        message: 'This unsubscribe link is invalid',
+        status: 404,
+        code: 'INVALID_TOKEN',
+      },
+    };
+  }
+
+  if (subscriber.status === 'unsubscribed') {
+    return { data: subscriber };
+  }
+
+  const { data: unsubscribed, error: updateError } = await supabase
+    .from('newsletter_subscribers')
+    .update({
+      status: 'unsubscribed',
+      unsubscribed_at: new Date().toISOString(),
+      confirmation_token: null,
+    })
+    .eq('id', subscriber.id)
+    .select()
+    .single();
+
+  if (updateError) {
+    throw updateError;
+  }
+
+  if (unsubscribed.user_id) {
+    await syncMarketingPreferences(supabase, unsubscribed.user_id, []);
+  }
+
+  return { data: unsubscribed };
+}
+
+/**
+ * Mirrors the subscription onto the account's notification preferences.
+ * Failures are logged and never fail the confirmation or unsubscribe.
+ */
+export async function syncMarketingPreferences(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  topics: string[]
+): Promise<void> {
+  const preferences = {
+    email_marketing: topics.length > 0,
+    email_promotions: topics.includes('promotions'),
+  };
+
+  try {
+    const { data: updated, error } = await supabase
+      .from('notification_preferences')
+      .update(preferences)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) {
+      throw error;
+    }
+
+    if (!updated || updated.length === 0) {
+      const { error: insertError } = await supabase
+        .from('notification_preferences')
+        .insert({ user_id: userId, ...preferences });
+
+      if (insertError) {
+        throw insertError;
+      }
+    }
+  } catch (error) {
+    console.error('Failed to sync newsletter notification preferences:', error);
+  }
+}
+
+async function findUserIdByEmail(
+  supabase: SupabaseClient<Database>,
+  email: string
+): Promise<string | null> {
+  const { data: user } = await supabase
+    .from('users')
+    .select('id')
+    .ilike('email', email.replace(/[\\%_]/g, '\\$&'))
+    .maybeSingle();
+
+  return user?.id || null;
+}
+
+const CSV_COLUMNS = [
+  'email',
+  'status',
+  'locale',
+  'topics',
+  'source',
+  'has_account',
+  'confirmed_at',
+  'unsubscribed_at',
+  'created_at',
+] as const;
+
+// Quotes fields that need it and defuses values a spreadsheet would run as a formula
+function toCsvField(value: unknown): string {
+  let field = value === null || value === undefined ? '' : String(value);
+  if (/^[=+\-@]/.test(field)) {
+    field = `'${field}`;
+  }
+  return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+export function subscribersToCsv(subscribers: NewsletterSubscriber[]): string {
+  const rows = subscribers.map((subscriber) =>
+    [
+      subscriber.email,
+      subscriber.status,
+      subscriber.locale,
+      subscriber.topics.join(';'),
+      subscriber.source,
+      subscriber.user_id ? 'yes' : 'no',
+      subscriber.confirmed_at,
+      subscriber.unsubscribed_at,
+      subscriber.created_at,
+    ]
+      .map(toCsvField)
+      .join(',')
+  );
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
@@ -1,5 +1,7 @@
 // Notification service for multi-channel notifications
 
+import { formatCurrency } from '@/lib/utils/currency';
+
 export interface NotificationTemplate {
   id: string;
   name: string;
@@ -86,6 +88,99 @@ export class NotificationService {
       variables: ['customerName', 'orderNumber', 'reviewUrl'],
     });
 
+    // Return (RMA) templates
+    this.templates.set('return_requested', {
+      id: 'return_requested',
+      name: 'Return Requested',
+      type: 'email',
+      subject: 'We received your return request {{rmaNumber}}',
+      content: `
+        <h1>Your return request is in</h1>
+        <p>Hi {{customerName}},</p>
+        <p>We've received return request {{rmaNumber}} for order {{orderNumber}}.</p>
+        <p><strong>Items:</strong> {{items}}</p>
+        <p>We'll review it within 2 business days and email you the next steps.</p>
+      `,
+      variables: ['customerName', 'rmaNumber', 'orderNumber', 'items'],
+    });
+
+    this.templates.set('return_approved', {
+      id: 'return_approved',
+      name: 'Return Approved',
+      type: 'email',
+      subject: 'Your return {{rmaNumber}} has been approved',
+      content: `
+        <h1>Your return has been approved</h1>
+        <p>Hi {{customerName}},</p>
+        <p>Return {{rmaNumber}} for order {{orderNumber}} has been approved.</p>
+        <p><strong>Refund:</strong> {{refundAmount}} to your original payment method</p>
+        <p>{{returnInstructions}}</p>
+      `,
+      variables: ['customerName', 'rmaNumber', 'orderNumber', 'refundAmount', 'returnInstructions'],
+    });
+
+    this.templates.set('return_rejected', {
+      id: 'return_rejected',
+      name: 'Return Rejected',
+      type: 'email',
+      subject: 'Update on your return {{rmaNumber}}',
+      content: `
+        <h1>We couldn't accept your return</h1>
+        <p>Hi {{customerName}},</p>
+        <p>Return {{rmaNumber}} for order {{orderNumber}} was not approved.</p>
+        <p><strong>Reason:</strong> {{adminNotes}}</p>
+        <p>Reply to this email if you have any questions.</p>
+      `,
+      variables: ['customerName', 'rmaNumber', 'orderNumber', 'adminNotes'],
+    });
+
+    this.templates.set('return_received', {
+      id: 'return_received',
+      name: 'Return Received',
+      type: 'email',
+      subject: 'We received your returned items ({{rmaNumber}})',
+      content: `
+        <h1>Your returned items have arrived</h1>
+        <p>Hi {{customerName}},</p>
+        <p>The items from return {{rmaNumber}} (order {{orderNumber}}) reached our warehouse.</p>
+        <p>Your refund of {{refundAmount}} has already been issued.</p>
+      `,
+      variables: ['customerName', 'rmaNumber', 'orderNumber', 'refundAmount'],
+    });
+
+    // Newsletter double opt-in, one template per storefront locale
+    this.templates.set('newsletter_confirmation', {
+      id: 'newsletter_confirmation',
+      name: 'Newsletter Confirmation',
+      type: 'email',
+      subject: 'Confirm your Peakees newsletter subscription',
+      content: `
+        <h1>One more step</h1>
+        <p>Please confirm that you want to receive the Peakees newsletter at this address.</p>
+        <p><a href="{{confirmUrl}}">Confirm my subscription</a></p>
+        <p>If you didn't sign up, ignore this email and you won't hear from us.</p>
+        <p><small><a href="{{unsubscribeUrl}}">Unsubscribe</a></small></p>
+      `,
+      variables: ['confirmUrl', 'unsubscribeUrl'],
+    });
+
+    this.templates.set('newsletter_confirmation_he', {
+      id: 'newsletter_confirmation_he',
+      name: 'Newsletter Confirmation (Hebrew)',
+      type: 'email',
+      subject: 'אשרו את ההרשמה לניוזלטר של פיקיז',
+      content: `
+        <div dir="rtl">
+          <h1>עוד צעד אחד</h1>
+          <p>אנא אשרו שברצונכם לקבל את הניוזלטר של פיקיז לכתובת זו.</p>
+          <p><a href="{{confirmUrl}}">אישור ההרשמה</a></p>
+          <p>אם לא נרשמתם, התעלמו מהודעה זו ולא נשלח לכם דבר.</p>
+          <p><small><a href="{{unsubscribeUrl}}">הסרה מרשימת התפוצה</a></small></p>
+        </div>
+      `,
+      variables: ['confirmUrl', 'unsubscribeUrl'],
+    });
+
     // SMS templates
     this.templates.set('sms_order_shipped', {
       id: 'sms_order_shipped',
@@ -114,6 +209,11 @@ export class NotificationService {
     });
   }
 
+  // API routes need an absolute URL when called from the server
+  private apiUrl(path: string): string {
+    return typeof window === 'undefined' ? `${process.env.NEXT_PUBLIC_APP_URL || ''}${path}` : path;
+  }
+
   // Send notification
   async sendNotification(data: NotificationData): Promise<boolean> {
     try {
@@ -170,7 +270,7 @@ export class NotificationService {
     data: NotificationData
   ): Promise<boolean> {
     try {
-      const response = await fetch('/api/notifications/email', {
+      const response = await fetch(this.apiUrl('/api/notifications/email'), {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -204,7 +304,7 @@ export class NotificationService {
     data: NotificationData
   ): Promise<boolean> {
     try {
-      const response = await fetch('/api/notifications/sms', {
+      const response = await fetch(this.apiUrl('/api/notifications/sms'), {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -238,7 +338,7 @@ export class NotificationService {
     data: NotificationData
   ): Promise<boolean> {
     try {
-      const response = await fetch('/api/notifications/push', {
+      const response = await fetch(this.apiUrl('/api/notifications/push'), {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -286,7 +386,7 @@ export class NotificationService {
     if (!userId) return true; // Allow notifications for non-authenticated users
 
     try {
-      const response = await fetch(`/api/user/notification-preferences/${userId}`);
+      const response = await fetch(this.apiUrl(`/api/user/notification-preferences/${userId}`));
       if (!response.ok) return true; // Default to allow if preferences not found
 
       const preferences = await response.json();
@@ -307,7 +407,7 @@ export class NotificationService {
     errorMessage?: string
   ): Promise<void> {
     try {
-      await fetch('/api/notifications/log', {
+      await fetch(this.apiUrl('/api/notifications/log'), {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -331,7 +431,7 @@ export class NotificationService {
   // Schedule notification
   async scheduleNotification(data: NotificationData, scheduledFor: Date): Promise<boolean> {
     try {
-      const response = await fetch('/api/notifications/schedule', {
+      const response = await fetch(this.apiUrl('/api/notifications/schedule'), {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -375,7 +475,8 @@ export async function sendOrderConfirmation(orderId: string, userEmail: string,
       orderNumber: orderData.orderNumber,
       total: orderData.total,
       estimatedDelivery: orderData.estimatedDelivery,
-      trackingUrl: `${process.env.NEXT_PUBLIC_APP_URL}/account/orders/${orderId}`,
+      trackingUrl:
+        orderData.trackingUrl || `${process.env.NEXT_PUBLIC_APP_URL}/account/orders/${orderId}`,
     },
     userId: orderData.userId,
   });
@@ -402,7 +503,24 @@ export async function sendShippingNotification(
   });
 }
 
-export async function sendDeliveryNotification(orderId: string, userEmail: string, orderData: any) {
+// The write-a-review form on a product page
+export function getReviewUrl(productId: string) {
+  return `${process.env.NEXT_PUBLIC_APP_URL}/products/${productId}#write-review`;
+}
+
+export interface DeliveryNotificationData {
+  customerName: string;
+  orderNumber: string;
+  // The order item the review link points at (e.g. the first one)
+  productId: string;
+  userId?: string;
+}
+
+export async function sendDeliveryNotification(
+  orderId: string,
+  userEmail: string,
+  orderData: DeliveryNotificationData
+) {
   return notificationService.sendNotification({
     type: 'email',
     channel: 'order_updates',
@@ -411,8 +529,66 @@ export async function sendDeliveryNotification(orderId: string, userEmail: strin
     variables: {
       customerName: orderData.customerName,
       orderNumber: orderData.orderNumber,
-      reviewUrl: `${process.env.NEXT_PUBLIC_APP_URL}/account/orders/${orderId}/review`,
+      reviewUrl: getReviewUrl(orderData.productId),
     },
     userId: orderData.userId,
   });
 }
+
+// Template for each return status the customer is told about
+const RETURN_STATUS_TEMPLATES: Record<string, string> = {
+  pending: 'return_requested',
+  approved: 'return_approved',
+  rejected: 'return_rejected',
+  received: 'return_received',
+};
+
+export async function sendReturnStatusNotification(
+  returnRequestId: string,
+  userEmail: string,
+  returnData: any
+) {
+  const templateId = RETURN_STATUS_TEMPLATES[returnData.status];
+  if (!templateId) {
+    return false;
+  }
+
+  return notificationService.sendNotification({
+    type: 'email',
+    channel: 'order_updates',
+    templateId,
+    recipient: userEmail,
+    variables: {
+      customerName: returnData.customerName,
+      rmaNumber: returnData.rmaNumber,
+      orderNumber: returnData.orderNumber,
+      items: returnData.items || '',
+      refundAmount: formatCurrency(Number(returnData.refundAmount || 0), returnData.currency),
+      returnInstructions: returnData.returnLabelUrl
+        ? `Print your prepaid return label: ${returnData.returnLabelUrl}`
+        : 'Keep the items in their original packaging; we will send return instructions.',
+      adminNotes: returnData.adminNotes || '',
+    },
+    userId: returnData.userId,
+  });
+}
+
+// Double opt-in email; sent before the subscriber has agreed to marketing
+// email, so it deliberately skips the user's preference check
+export async function sendNewsletterConfirmation(
+  email: string,
+  data: { locale: string; confirmationToken: string; unsubscribeToken: string }
+) {
+  const baseUrl = `${process.env.NEXT_PUBLIC_APP_URL}/${data.locale}/newsletter`;
+
+  return notificationService.sendNotification({
+    type: 'email',
+    channel: 'newsletter',
+    templateId: data.locale === 'he' ? 'newsletter_confirmation_he' : 'newsletter_confirmation',
+    recipient: email,
+    variables: {
+      confirmUrl: `${baseUrl}/confirm?token=${data.confirmationToken}`,
+      unsubscribeUrl: `${baseUrl}/unsubscribe?token=${data.unsubscribeToken}`,
+    },
+  });
+}
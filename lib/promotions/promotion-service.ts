@@ -0,0 +1,86 @@
+/**
+ * Promotions Service
+ * Promo code types and checkout helpers. Codes are validated and priced by the
+ * database (evaluate_promotion); the client only displays the result.
+ */
+
+import { Database } from '@/types/supabase';
+
+type PromotionRow = Database['public']['Tables']['promotions']['Row'];
+
+export type PromotionType = PromotionRow['type'];
+
+export type PromotionStatus = 'active' | 'scheduled' | 'expired' | 'inactive';
+
+// A promo code accepted for the current cart
+export interface AppliedPromoCode {
+  promotionId: string;
+  code: string;
+  name: string;
+  type: PromotionType;
+  itemDiscount: number;
+  freeShipping: boolean;
+}
+
+// Result of the validate_promo_code RPC
+export interface PromoCodeValidation {
+  promotion_id: string;
+  code: string;
+  name: string;
+  type: PromotionType;
+  item_discount: number | string;
+  free_shipping: boolean;
+}
+
+export class PromotionService {
+  toAppliedPromoCode(result: PromoCodeValidation): AppliedPromoCode {
+    return {
+      promotionId: result.promotion_id,
+      code: result.code,
+      name: result.name,
+      type: result.type,
+      itemDiscount: Number(result.item_discount),
+      freeShipping: result.free_shipping,
+    };
+  }
+
+  // Check a code against the signed-in user's cart
+  async applyCode(code: string): Promise<{ promo: AppliedPromoCode | null; error?: string }> {
+    try {
+      const response = await fetch('/api/checkout/promo-code', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        return { promo: null, error: result.error?.message || 'This promo code cannot be applied' };
+      }
+
+      return { promo: result.data };
+    } catch (error) {
+      console.error('Error applying promo code:', error);
+      return { promo: null, error: 'This promo code cannot be applied' };
+    }
+  }
+}
+
+export const promotionService = new PromotionService();
+
+// Where a promotion is in its lifecycle, from its flag and date window
+export function getPromotionStatus(
+  promotion: Pick<PromotionRow, 'is_active' | 'starts_at' | 'ends_at'>,
+  now = new Date()
+): PromotionStatus {
+  if (!promotion.is_active) {
+    return 'inactive';
+  }
+  if (promotion.starts_at && new Date(promotion.starts_at) > now) {
+    return 'scheduled';
+  }
+  if (promotion.ends_at && new Date(promotion.ends_at) <= now) {
+    return 'expired';
+  }
+  return 'active';
+}
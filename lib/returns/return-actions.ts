@@ -0,0 +1,170 @@
+/**
+ * Return Actions
+ * Applies an admin action to a single return request. Shared by the
+ * per-return PATCH endpoint and the bulk endpoint.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '@/types/supabase';
+import { UpdateReturnRequest } from '@/lib/validations/return';
+import {
+  getPaymentCurrency,
+  getRefundableAmount,
+  getReturnRefund,
+  issueRefund,
+} from '@/lib/stripe/refunds';
+import { formatCurrency } from '@/lib/utils/currency';
+import { trackingService } from '@/lib/shipping/carriers';
+import { RETURN_TRANSITIONS, canApplyReturnAction } from '@/lib/returns/return-workflow';
+import { notifyReturnStatus } from '@/lib/returns/return-notifications';
+
+type ReturnRequestRow = Database['public']['Tables']['return_requests']['Row'];
+type ReturnRequestUpdate = Database['public']['Tables']['return_requests']['Update'];
+
+export interface ReturnActionError {
+  message: string;
+  status: number;
+  code: string;
+}
+
+export type ReturnActionResult =
+  | { data: ReturnRequestRow; error?: undefined }
+  | { data?: undefined; error: ReturnActionError };
+
+export async function applyReturnAction(
+  supabase: SupabaseClient<Database>,
+  id: string,
+  input: UpdateReturnRequest,
+  adminId?: string
+): Promise<ReturnActionResult> {
+  const { data: returnRequest, error: fetchError } = await supabase
+    .from('return_requests')
+    .select('*, orders ( id, order_number, total, payment_intent_id )')
+    .eq('id', id)
+    .single();
+
+  if (fetchError) {
+    if (fetchError.code === 'PGRST116') {
+      return {
+        error: {
+          message: `Return request with ID ${id} not found`,
+          status: 404,
+          code: 'NOT_FOUND',
+        },
+      };
+    }
+    throw fetchError;
+  }
+
+  // Notes can be edited at any stage and don't notify the customer
+  if (input.action === 'note') {
+    const { data: updated, error: updateError } = await supabase
+      .from('return_requests')
+      .update({ admin_notes: input.adminNotes, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (updateError) {
+      throw updateError;
+    }
+
+    return { data: updated };
+  }
+
+  if (!canApplyReturnAction(returnRequest.status, input.action)) {
+    return {
+      error: {
+        message: `Cannot ${input.action} a return that is ${returnRequest.status}`,
+        status: 409,
+        code: 'INVALID_RETURN_STATUS',
+      },
+    };
+  }
+
+  const update: ReturnRequestUpdate = {
+    status: RETURN_TRANSITIONS[input.action].to,
+    admin_notes: input.adminNotes ?? returnRequest.admin_notes,
+    updated_at: new Date().toISOString(),
+  };
+
+  if (input.action === 'approve') {
+    const order = (returnRequest as any).orders;
+
+    // A retried approval finishes the refund it already started
+    const startedRefund = await getReturnRefund(supabase, id);
+    const refundAmount = startedRefund
+      ? Number(startedRefund.amount)
+      : (input.refundAmount ?? Number(returnRequest.refund_amount));
+
+    // Refunds across returns and the admin order page may not exceed what was paid
+    const refundable = startedRefund
+      ? refundAmount
+      : await getRefundableAmount(supabase, returnRequest.order_id);
+
+    if (refundAmount > refundable) {
+      const currency = await getPaymentCurrency(supabase, order.payment_intent_id);
+      return {
+        error: {
+          message: `Refund cannot exceed the ${formatCurrency(refundable, currency)} left on this order`,
+          status: 400,
+          code: 'REFUND_EXCEEDS_ORDER',
+        },
+      };
+    }
+
+    update.refund_amount = refundAmount;
+
+    if (refundAmount > 0 && order.payment_intent_id) {
+      const refund = await issueRefund(supabase, {
+        orderId: returnRequest.order_id,
+        paymentIntentId: order.payment_intent_id,
+        amount: refundAmount,
+        returnRequestId: id,
+        createdBy: adminId,
+        metadata: {
+          return_request_id: id,
+          rma_number: returnRequest.rma_number || '',
+        },
+      });
+
+      if (refund.error) {
+        return { error: refund.error };
+      }
+
+      update.stripe_refund_id = refund.data.stripe_refund_id;
+      update.refunded_at = new Date().toISOString();
+    }
+
+    if (input.returnCarrier) {
+      update.return_carrier = input.returnCarrier;
+      update.return_tracking_number =
+        input.returnTrackingNumber || trackingService.generateTrackingNumber(input.returnCarrier);
+    }
+
+    if (input.returnLabelUrl) {
+      update.return_label_url = input.returnLabelUrl;
+    }
+  }
+
+  const { data: updated, error: updateError } = await supabase
+    .from('return_requests')
+    .update(update)
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (updateError) {
+    // Another admin moved the return first
+    if (updateError.code === '23514') {
+      return {
+        error: { message: updateError.message, status: 409, code: 'INVALID_RETURN_STATUS' },
+      };
+    }
+    throw updateError;
+  }
+
+  await notifyReturnStatus(supabase, id);
+
+  return { data: updated };
+}
@@ -0,0 +1,64 @@
+/**
+ * Return Notifications
+ * Emails the customer when their return changes status. Failures are logged
+ * and never fail the status change itself.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '@/types/supabase';
+import { sendReturnStatusNotification } from '@/lib/notifications/notification-service';
+import { getPaymentCurrency } from '@/lib/stripe/refunds';
+
+export async function notifyReturnStatus(
+  supabase: SupabaseClient<Database>,
+  returnRequestId: string
+): Promise<void> {
+  try {
+    const { data: returnRequest, error } = await supabase
+      .from('return_requests')
+      .select(
+        `
+        *,
+        orders ( order_number, payment_intent_id ),
+        users ( email, full_name ),
+        return_request_items (
+          quantity,
+          order_items ( products ( name ) )
+        )
+      `
+      )
+      .eq('id', returnRequestId)
+      .single();
+
+    if (error || !returnRequest) {
+      throw error || new Error('Return request not found');
+    }
+
+    const request = returnRequest as any;
+    const user = Array.isArray(request.users) ? request.users[0] : request.users;
+    const order = Array.isArray(request.orders) ? request.orders[0] : request.orders;
+
+    if (!user?.email) {
+      return;
+    }
+
+    const items = (request.return_request_items || [])
+      .map((item: any) => `${item.order_items?.products?.name || 'Item'} × ${item.quantity}`)
+      .join(', ');
+
+    await sendReturnStatusNotification(returnRequestId, user.email, {
+      status: request.status,
+      customerName: user.full_name || 'Valued Customer',
+      rmaNumber: request.rma_number,
+      orderNumber: order?.order_number || request.order_id,
+      items,
+      refundAmount: request.refund_amount,
+      currency: await getPaymentCurrency(supabase, order?.payment_intent_id || null),
+      returnLabelUrl: request.return_label_url,
+      adminNotes: request.admin_notes,
+      userId: request.user_id,
+    });
+  } catch (error) {
+    console.error('Failed to send return status notification:', error);
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Returns Workflow
+ * RMA status transitions. The database enforces the same moves
+ * (enforce_return_status_transition); this copy drives the admin UI.
+ */
+
+import { Database } from '@/types/supabase';
+
+type ReturnRequestRow = Database['public']['Tables']['return_requests']['Row'];
+
+export type ReturnStatus = ReturnRequestRow['status'];
+
+export type ReturnAction = 'approve' | 'reject' | 'receive';
+
+// Status a return must be in for each admin action, and the status it moves to
+export const RETURN_TRANSITIONS: Record<ReturnAction, { from: ReturnStatus; to: ReturnStatus }> = {
+  approve: { from: 'pending', to: 'approved' },
+  reject: { from: 'pending', to: 'rejected' },
+  receive: { from: 'approved', to: 'received' },
+};
+
+export function canApplyReturnAction(status: ReturnStatus, action: ReturnAction): boolean {
+  return RETURN_TRANSITIONS[action].from === status;
+}
+
+// Actions an admin can take on a return in its current status
+export function getAvailableReturnActions(status: ReturnStatus): ReturnAction[] {
+  return (Object.keys(RETURN_TRANSITIONS) as ReturnAction[]).filter((action) =>
+    canApplyReturnAction(status, action)
+  );
+}
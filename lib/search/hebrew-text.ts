@@ -0,0 +1,187 @@
+/**
+ * Hebrew Text Normalization
+ *
+ * Pure helpers that bring Hebrew (and mixed Hebrew/English) text into a single
+ * comparable form for search:
+ * - Niqqud and cantillation marks are stripped
+ * - Final letters (ך ם ן ף ץ) become their regular forms
+ * - Common prefix letters (ה ו ב ל מ ש) are stripped from query and index terms
+ * - Hebrew stop words are dropped
+ *
+ * The SQL function normalize_search_text mirrors normalizeSearchText so that
+ * indexed product text and API queries are normalized the same way.
+ */
+
+// Niqqud, cantillation and other combining points (excluding maqaf and sof pasuq)
+const NIQQUD_PATTERN = /[\u0591-\u05BD\u05BF\u05C1\u05C2\u05C4\u05C5\u05C7]/g;
+
+// Maqaf (Hebrew hyphen) separates words
+const MAQAF_PATTERN = /\u05BE/g;
+
+// Geresh and gershayim appear inside abbreviations (e.g. צה״ל)
+const GERESH_PATTERN = /[\u05F3\u05F4]/g;
+
+export const HEBREW_FINAL_LETTERS: Record<string, string> = {
+  ך: 'כ',
+  ם: 'מ',
+  ן: 'נ',
+  ף: 'פ',
+  ץ: 'צ',
+};
+
+const FINAL_LETTER_PATTERN = /[ךםןףץ]/g;
+
+// Single-letter prefixes: the article, "and", "in", "to", "from" and "that"
+export const HEBREW_PREFIX_LETTERS = ['ה', 'ו', 'ב', 'ל', 'מ', 'ש'];
+
+// Prefixes are only stripped while at least this many letters remain
+const MIN_STEM_LENGTH = 3;
+const MAX_PREFIX_LETTERS = 3;
+
+export function stripNiqqud(text: string): string {
+  return text.replace(NIQQUD_PATTERN, '');
+}
+
+export function normalizeFinalLetters(text: string): string {
+  return text.replace(FINAL_LETTER_PATTERN, (letter) => HEBREW_FINAL_LETTERS[letter]);
+}
+
+// Normalize text for comparison (keeps word boundaries and punctuation in place)
+export function normalizeSearchText(text: string): string {
+  return normalizeFinalLetters(
+    stripNiqqud(text.toLowerCase().replace(MAQAF_PATTERN, ' ')).replace(GERESH_PATTERN, '')
+  );
+}
+
+// Strip leading prefix letters from a normalized Hebrew word
+export function stripHebrewPrefixes(word: string): string {
+  let stem = word;
+  let stripped = 0;
+
+  while (
+    stripped < MAX_PREFIX_LETTERS &&
+    stem.length > MIN_STEM_LENGTH &&
+    HEBREW_PREFIX_LETTERS.includes(stem[0])
+  ) {
+    stem = stem.slice(1);
+    stripped++;
+  }
+
+  return stem;
+}
+
+export const HEBREW_STOP_WORDS = new Set(
+  [
+    'של',
+    'את',
+    'עם',
+    'על',
+    'אל',
+    'או',
+    'גם',
+    'כל',
+    'זה',
+    'זו',
+    'זאת',
+    'הוא',
+    'היא',
+    'הם',
+    'הן',
+    'אני',
+    'אתה',
+    'אתם',
+    'אנחנו',
+    'לא',
+    'כן',
+    'יש',
+    'אין',
+    'מה',
+    'מי',
+    'כי',
+    'אם',
+    'אבל',
+    'רק',
+    'עוד',
+    'כמו',
+    'בין',
+    'עד',
+    'מן',
+    'אחרי',
+    'לפני',
+    'שלי',
+    'שלך',
+    'הזה',
+    'הזאת',
+    'ביותר',
+    'מאוד',
+  ].map(normalizeSearchText)
+);
+
+export function isHebrewStopWord(word: string): boolean {
+  return HEBREW_STOP_WORDS.has(normalizeSearchText(word));
+}
+
+// Move a match start back over prefix letters that begin the same word, so a
+// stem match highlights the whole word
+function extendOverPrefixes(text: string, start: number): number {
+  let wordStart = start;
+  while (wordStart > 0 && /[\u0591-\u05BD\u05BF-\u05C7\u05D0-\u05EA]/.test(text[wordStart - 1])) {
+    wordStart--;
+  }
+
+  const prefix = stripNiqqud(text.slice(wordStart, start));
+  const isPrefix =
+    prefix.length <= MAX_PREFIX_LETTERS &&
+    prefix.split('').every((letter) => HEBREW_PREFIX_LETTERS.includes(letter));
+
+  return isPrefix ? wordStart : start;
+}
+
+// Locate terms in text, ignoring niqqud and final letter differences.
+// Returns merged [start, end) ranges into the original text.
+export function findNormalizedMatches(
+  text: string,
+  terms: string[]
+): Array<{ start: number; end: number }> {
+  // Normalize character by character, remembering where each character came from
+  let normalized = '';
+  const positions: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const chars = normalizeSearchText(text[i]);
+    for (let j = 0; j < chars.length; j++) {
+      normalized += chars[j];
+      positions.push(i);
+    }
+  }
+
+  const ranges: Array<{ start: number; end: number }> = [];
+  for (const term of terms) {
+    const needle = normalizeSearchText(term);
+    if (!needle) continue;
+
+    let index = normalized.indexOf(needle);
+    while (index !== -1) {
+      let end = positions[index + needle.length - 1] + 1;
+      // Keep trailing niqqud with the highlighted letter
+      while (end < text.length && stripNiqqud(text[end]) === '') {
+        end++;
+      }
+      ranges.push({ start: extendOverPrefixes(text, positions[index]), end });
+      index = normalized.indexOf(needle, index + needle.length);
+    }
+  }
+
+  ranges.sort((a, b) => a.start - b.start);
+
+  const merged: Array<{ start: number; end: number }> = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+
+  return merged;
+}
@@ -1,5 +1,12 @@
 // Enhanced search service with fuzzy matching and filters
 
+import {
+  normalizeSearchText,
+  stripHebrewPrefixes,
+  isHebrewStopWord,
+  findNormalizedMatches,
+} from './hebrew-text';
+
 export interface SearchFilters {
   categories?: string[];
   priceRange?: {
@@ -90,7 +97,8 @@ export class SearchService {
       });
 
       if (response.ok) {
-        return await response.json();
+        const result = await response.json();
+        return result.data;
       }
 
       throw new Error('Search request failed');
@@ -118,8 +126,8 @@ export class SearchService {
         `/api/search/suggestions?q=${encodeURIComponent(query)}&limit=${limit}`
       );
       if (response.ok) {
-        const data = await response.json();
-        return data.suggestions || [];
+        const result = await response.json();
+        return result.data?.suggestions || [];
       }
       return [];
     } catch (error) {
@@ -160,7 +168,7 @@ export class SearchService {
   fuzzySearch(items: any[], query: string, fields: string[]): any[] {
     if (!query.trim()) return items;
 
-    const searchTerms = this.tokenize(query.toLowerCase());
+    const searchTerms = this.tokenize(query);
 
     return items
       .map((item) => ({
@@ -171,13 +179,13 @@ export class SearchService {
       .sort((a, b) => b.relevanceScore - a.relevanceScore);
   }
 
-  // Tokenize search query
-  private tokenize(text: string): string[] {
-    return text
-      .toLowerCase()
-      .replace(/[^\w\s]/g, ' ')
+  // Tokenize text into normalized search terms (Hebrew prefixes stripped, stop words dropped)
+  tokenize(text: string): string[] {
+    return normalizeSearchText(text)
+      .replace(/[^\w\s\u05D0-\u05EA]/g, ' ')
       .split(/\s+/)
-      .filter((word) => word.length > 1 && !this.stopWords.has(word));
+      .filter((word) => word.length > 1 && !this.stopWords.has(word) && !isHebrewStopWord(word))
+      .map(stripHebrewPrefixes);
   }
 
   // Calculate relevance score
@@ -188,7 +196,7 @@ export class SearchService {
       const fieldValue = this.getNestedValue(item, field);
       if (!fieldValue) continue;
 
-      const fieldText = fieldValue.toString().toLowerCase();
+      const fieldText = normalizeSearchText(fieldValue.toString());
       const fieldTokens = this.tokenize(fieldText);
 
       for (const term of searchTerms) {
@@ -305,20 +313,24 @@ export class SearchService {
   // Generate search suggestions based on query
   generateSuggestions(query: string, products: any[]): string[] {
     const suggestions = new Set<string>();
-    const queryLower = query.toLowerCase();
+    const normalizedQuery = normalizeSearchText(query.trim());
 
     // Add exact matches and partial matches
     for (const product of products) {
-      const name = product.name.toLowerCase();
+      const name = normalizeSearchText(product.name);
 
-      if (name.includes(queryLower)) {
+      if (name.includes(normalizedQuery)) {
         suggestions.add(product.name);
       }
 
       // Add word-based suggestions
-      const words = name.split(' ');
+      const words = product.name.toLowerCase().split(' ');
       for (const word of words) {
-        if (word.startsWith(queryLower) && word.length > queryLower.length) {
+        const normalizedWord = normalizeSearchText(word);
+        if (
+          normalizedWord.startsWith(normalizedQuery) &&
+          normalizedWord.length > normalizedQuery.length
+        ) {
           suggestions.add(word);
         }
       }
@@ -396,6 +408,59 @@ export class SearchService {
   }
 }
 
+// Price facet buckets (kept in sync with search_products in the product search migration)
+export const SEARCH_PRICE_BUCKETS: Array<{ min: number; max: number | null }> = [
+  { min: 0, max: 100 },
+  { min: 100, max: 200 },
+  { min: 200, max: 500 },
+  { min: 500, max: 1000 },
+  { min: 1000, max: null },
+];
+
+// Build facets for an in-memory result set (used by the stub search API)
+export function buildSearchFacets(
+  matched: SearchResult[],
+  filtered: SearchResult[]
+): SearchResponse['facets'] {
+  const categories = new Map<string, { id: string; name: string; count: number }>();
+  for (const item of matched) {
+    if (!item.category_id) continue;
+    const existing = categories.get(item.category_id);
+    if (existing) {
+      existing.count += 1;
+    } else {
+      categories.set(item.category_id, {
+        id: item.category_id,
+        name: item.category?.name || item.category_id,
+        count: 1,
+      });
+    }
+  }
+
+  const highestPrice = filtered.reduce((max, item) => Math.max(max, item.price), 0);
+  const priceRanges = SEARCH_PRICE_BUCKETS.map((bucket) => ({
+    min: bucket.min,
+    // Open-ended top bucket reports the highest matching price
+    max: bucket.max ?? highestPrice,
+    count: filtered.filter(
+      (item) => item.price >= bucket.min && (bucket.max === null || item.price < bucket.max)
+    ).length,
+  })).filter((range) => range.count > 0);
+
+  const ratings = [5, 4, 3, 2, 1]
+    .map((rating) => ({
+      rating,
+      count: filtered.filter((item) => (item.rating || 0) >= rating).length,
+    }))
+    .filter((facet) => facet.count > 0);
+
+  return {
+    categories: Array.from(categories.values()).sort((a, b) => b.count - a.count),
+    priceRanges,
+    ratings,
+  };
+}
+
 // Create singleton instance
 export const searchService = new SearchService();
 
@@ -403,15 +468,17 @@ export const searchService = new SearchService();
 export function highlightSearchTerms(text: string, query: string): string {
   if (!query.trim()) return text;
 
-  const terms = query.toLowerCase().split(/\s+/);
-  let highlighted = text;
+  // Match on normalized terms so niqqud, final letters and prefixes don't prevent highlighting
+  const ranges = findNormalizedMatches(text, searchService.tokenize(query));
+  let highlighted = '';
+  let cursor = 0;
 
-  for (const term of terms) {
-    const regex = new RegExp(`(${term})`, 'gi');
-    highlighted = highlighted.replace(regex, '<mark>$1</mark>');
+  for (const { start, end } of ranges) {
+    highlighted += `${text.slice(cursor, start)}<mark>${text.slice(start, end)}</mark>`;
+    cursor = end;
   }
 
-  return highlighted;
+  return highlighted + text.slice(cursor);
 }
 
 export function formatSearchQuery(query: string): string {
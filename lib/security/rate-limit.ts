@@ -0,0 +1,299 @@
+/**
+ * Rate Limiting
+ * One limiter for every API route. Counters live in a pluggable store so the
+ * limit holds across replicas: Redis (over its REST API) when configured, an
+ * in-process map otherwise. Limits use a sliding window counter - the previous
+ * window's hits count in proportion to how much of it the sliding window still
+ * covers, so a burst on a window boundary can't double the limit.
+ */
+
+import type { NextRequest } from 'next/server';
+
+export interface RateLimitPolicy {
+  maxRequests: number;
+  windowMs: number;
+}
+
+// Rate limiting configuration
+export const rateLimitConfig = {
+  // API endpoints rate limits (requests per minute); the longest matching prefix wins
+  '/api/auth': 10,
+  '/api/cart': 60,
+  '/api/guest-cart': 30,
+  '/api/products': 100,
+  '/api/orders': 30,
+  '/api/orders/lookup': 20,
+  '/api/checkout': 20,
+  '/api/checkout/payment-intent': 5,
+  '/api/checkout/create-order': 5,
+  '/api/newsletter': 5,
+  '/api/webhooks': 1000, // High limit for webhooks
+  '/api/health': 60,
+
+  // Default rate limit
+  default: 100,
+};
+
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+
+export interface RateLimitStore {
+  /**
+   * Counts a hit in the window at `key` and returns it with the count of the
+   * window before it. Both counters expire after `ttlMs`.
+   */
+  increment(
+    key: string,
+    previousKey: string,
+    ttlMs: number
+  ): Promise<{ current: number; previous: number }>;
+}
+
+// Counters for a single process; fine for development and tests
+export class MemoryRateLimitStore implements RateLimitStore {
+  private counters = new Map<string, { count: number; expiresAt: number }>();
+  private maxKeys: number;
+
+  constructor(maxKeys = 10000) {
+    this.maxKeys = maxKeys;
+  }
+
+  async increment(key: string, previousKey: string, ttlMs: number) {
+    const now = Date.now();
+
+    if (this.counters.size >= this.maxKeys) {
+      this.prune(now);
+    }
+
+    const existing = this.read(key, now);
+    const current = { count: (existing?.count || 0) + 1, expiresAt: now + ttlMs };
+    this.counters.set(key, current);
+
+    return { current: current.count, previous: this.read(previousKey, now)?.count || 0 };
+  }
+
+  clear() {
+    this.counters.clear();
+  }
+
+  private read(key: string, now: number) {
+    const counter = this.counters.get(key);
+    if (counter && counter.expiresAt <= now) {
+      this.counters.delete(key);
+      return undefined;
+    }
+    return counter;
+  }
+
+  private prune(now: number) {
+    const entries = Array.from(this.counters.entries());
+    for (const [key, counter] of entries) {
+      if (counter.expiresAt <= now) {
+        this.counters.delete(key);
+      }
+    }
+  }
+}
+
+export type RedisCommand = Array<string | number>;
+
+// Anything that can run a batch of Redis commands and return their replies in order
+export interface RedisCommandClient {
+  pipeline(commands: RedisCommand[]): Promise<unknown[]>;
+}
+
+/**
+ * A client for Redis REST endpoints (Upstash and compatible proxies), so the
+ * limiter needs no TCP connection or extra dependency.
+ */
+export function createRedisRestClient(url: string, token: string): RedisCommandClient {
+  return {
+    async pipeline(commands) {
+      const response = await fetch(`${url.replace(/\/$/, '')}/pipeline`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(commands),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Redis request failed with status ${response.status}`);
+      }
+
+      const replies: Array<{ result?: unknown; error?: string }> = await response.json();
+      return replies.map((reply) => {
+        if (reply.error) {
+          throw new Error(`Redis command failed: ${reply.error}`);
+        }
+        return reply.result;
+      });
+    },
+  };
+}
+
+// Counters shared by every replica; INCR keeps concurrent hits exact
+export class RedisRateLimitStore implements RateLimitStore {
+  private client: RedisCommandClient;
+
+  constructor(client: RedisCommandClient) {
+    this.client = client;
+  }
+
+  async increment(key: string, previousKey: string, ttlMs: number) {
+    const [current, , previous] = await this.client.pipeline([
+      ['INCR', key],
+      ['PEXPIRE', key, ttlMs],
+      ['GET', previousKey],
+    ]);
+
+    return { current: Number(current) || 0, previous: Number(previous) || 0 };
+  }
+}
+
+let rateLimitStore: RateLimitStore | null = null;
+
+// Redis when RATE_LIMIT_REDIS_URL and RATE_LIMIT_REDIS_TOKEN are set, memory otherwise
+export function getRateLimitStore(): RateLimitStore {
+  if (!rateLimitStore) {
+    const url = process.env.RATE_LIMIT_REDIS_URL;
+    const token = process.env.RATE_LIMIT_REDIS_TOKEN;
+
+    if (!url || !token) {
+      if (process.env.NODE_ENV === 'production') {
+        console.warn('Rate limits are per instance: RATE_LIMIT_REDIS_URL is not configured');
+      }
+      rateLimitStore = new MemoryRateLimitStore();
+    } else {
+      rateLimitStore = new RedisRateLimitStore(createRedisRestClient(url, token));
+    }
+  }
+
+  return rateLimitStore;
+}
+
+// Swap the store (tests, or a different backend); null goes back to the default
+export function setRateLimitStore(store: RateLimitStore | null) {
+  rateLimitStore = store;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Milliseconds until the current window ends
+  resetMs: number;
+  windowMs: number;
+}
+
+// Counts one request for `key` under `policy`
+export async function consumeRateLimit(
+  key: string,
+  policy: RateLimitPolicy,
+  { store = getRateLimitStore(), now = Date.now() }: { store?: RateLimitStore; now?: number } = {}
+): Promise<RateLimitResult> {
+  const { maxRequests, windowMs } = policy;
+  const window = Math.floor(now / windowMs);
+  const elapsed = now - window * windowMs;
+
+  const { current, previous } = await store.increment(
+    `rate_limit:${key}:${window}`,
+    `rate_limit:${key}:${window - 1}`,
+    windowMs * 2
+  );
+
+  // Rejected requests count too, so clients that keep hammering stay limited
+  const count = previous * ((windowMs - elapsed) / windowMs) + current;
+
+  return {
+    allowed: count <= maxRequests,
+    limit: maxRequests,
+    remaining: Math.max(0, Math.floor(maxRequests - count)),
+    resetMs: windowMs - elapsed,
+    windowMs,
+  };
+}
+
+// Drops the locale prefix, so /he/api/... and /api/... are the same route
+function toApiPath(pathname: string): string {
+  const apiIndex = pathname.indexOf('/api/');
+  return apiIndex >= 0 ? pathname.slice(apiIndex) : pathname;
+}
+
+// The configured route for a path; localized paths (/he/api/...) match too
+export function getRateLimitRoute(pathname: string): string {
+  const path = toApiPath(pathname);
+
+  return Object.keys(rateLimitConfig)
+    .filter((route) => route !== 'default' && (path === route || path.startsWith(`${route}/`)))
+    .reduce((longest, route) => (route.length > longest.length ? route : longest), 'default');
+}
+
+/**
+ * The counter a path counts against: its configured route, or for routes on
+ * the default policy their top-level resource (e.g. /api/search), so unrelated
+ * endpoints don't use up each other's quota. Resource-wide rather than per
+ * path, so varying an ID in the URL doesn't get a client a fresh counter.
+ */
+export function getRateLimitBucket(pathname: string): string {
+  const route = getRateLimitRoute(pathname);
+  if (route !== 'default') {
+    return route;
+  }
+
+  const [, prefix, resource] = toApiPath(pathname).split('/');
+  return resource ? `/${prefix}/${resource}` : route;
+}
+
+export function getRateLimitPolicy(route: string): RateLimitPolicy {
+  return {
+    maxRequests: rateLimitConfig[route as keyof typeof rateLimitConfig] || rateLimitConfig.default,
+    windowMs: RATE_LIMIT_WINDOW_MS,
+  };
+}
+
+export function getClientIp(req: NextRequest): string {
+  const forwardedFor = req.headers.get('x-forwarded-for');
+  return forwardedFor?.split(',')[0].trim() || req.headers.get('x-real-ip') || 'unknown';
+}
+
+/**
+ * Counts a request against its route's policy (or the one given). Returns
+ * null when the store is unreachable: a Redis outage shouldn't take the API
+ * down with it.
+ */
+export async function checkRateLimit(
+  req: NextRequest,
+  { route, policy }: { route?: string; policy?: RateLimitPolicy } = {}
+): Promise<RateLimitResult | null> {
+  const { pathname } = new URL(req.url);
+  const rateLimitRoute = route || getRateLimitRoute(pathname);
+  const bucket = route || getRateLimitBucket(pathname);
+
+  try {
+    return await consumeRateLimit(
+      `${bucket}:${getClientIp(req)}`,
+      policy || getRateLimitPolicy(rateLimitRoute)
+    );
+  } catch (error) {
+    console.error('Rate limit check failed:', error);
+    return null;
+  }
+}
+
+// Standard RateLimit-* response headers, plus Retry-After once limited
+export function getRateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const resetSeconds = Math.ceil(result.resetMs / 1000);
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': result.limit.toString(),
+    'RateLimit-Remaining': result.remaining.toString(),
+    'RateLimit-Reset': resetSeconds.toString(),
+    'RateLimit-Policy': `${result.limit};w=${Math.ceil(result.windowMs / 1000)}`,
+  };
+
+  if (!result.allowed) {
+    headers['Retry-After'] = resetSeconds.toString();
+  }
+
+  return headers;
+}
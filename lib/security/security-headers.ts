@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
+import { checkRateLimit, getRateLimitHeaders, getRateLimitPolicy } from './rate-limit';
 
 // Security headers configuration for production
 export const securityHeaders = {
@@ -38,20 +39,8 @@ export const securityHeaders = {
   'Strict-Transport-Security': 'max-age=31536000; includeSubDomains; preload',
 };
 
-// Rate limiting configuration
-export const rateLimitConfig = {
-  // API endpoints rate limits (requests per minute)
-  '/api/auth': 10,
-  '/api/cart': 60,
-  '/api/products': 100,
-  '/api/orders': 30,
-  '/api/checkout': 20,
-  '/api/webhooks': 1000, // High limit for webhooks
-  '/api/health': 60,
-
-  // Default rate limit
-  default: 100,
-};
+// Rate limits live with the limiter
+export { rateLimitConfig } from './rate-limit';
 
 // CORS configuration
 export const corsConfig = {
@@ -108,42 +97,32 @@ export function withSecurity(handler: Function) {
   };
 }
 
-// Rate limiting middleware (simplified - use Redis in production)
-const requestCounts = new Map<string, { count: number; resetTime: number }>();
-
+// Rate limiting middleware for an endpoint in rateLimitConfig (or a custom
+// per-minute limit), sharing counters with the API route middleware
 export function withRateLimit(endpoint: string, limit?: number) {
   return function (handler: Function) {
     return async (req: NextRequest) => {
-      const ip = req.headers.get('x-forwarded-for') || req.headers.get('x-real-ip') || 'unknown';
-      const key = `${ip}:${endpoint}`;
-      const now = Date.now();
-      const windowMs = 60 * 1000; // 1 minute window
-      const requestLimit =
-        limit ||
-        rateLimitConfig[endpoint as keyof typeof rateLimitConfig] ||
-        rateLimitConfig.default;
-
-      const current = requestCounts.get(key);
-
-      if (!current || now > current.resetTime) {
-        requestCounts.set(key, { count: 1, resetTime: now + windowMs });
-      } else {
-        current.count++;
-
-        if (current.count > requestLimit) {
-          return NextResponse.json(
-            { error: 'Too many requests' },
-            {
-              status: 429,
-              headers: {
-                'Retry-After': Math.ceil((current.resetTime - now) / 1000).toString(),
-              },
-            }
-          );
-        }
+      const result = await checkRateLimit(req, {
+        route: endpoint,
+        policy: limit ? { maxRequests: limit, windowMs: 60 * 1000 } : getRateLimitPolicy(endpoint),
+      });
+
+      if (result && !result.allowed) {
+        return NextResponse.json(
+          { error: 'Too many requests' },
+          { status: 429, headers: getRateLimitHeaders(result) }
+        );
       }
 
-      return handler(req);
+      const response = await handler(req);
+
+      if (result && response instanceof NextResponse) {
+        Object.entries(getRateLimitHeaders(result)).forEach(([key, value]) => {
+          response.headers.set(key, value);
+        });
+      }
+
+      return response;
     };
   };
 }
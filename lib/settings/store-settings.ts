@@ -0,0 +1,216 @@
+/**
+ * Store Settings
+ * Admin-managed store, payment, shipping, notification and security settings,
+ * stored as one site_settings row per section. Checkout reads tax and shipping
+ * from here; the constants in ISRAELI_CONFIG are only the defaults.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database, Json } from '@/types/supabase';
+import { ISRAELI_CONFIG } from '@/lib/config/israeli-market';
+import { formatCurrency } from '@/lib/utils/currency';
+import { ShippingMethod } from '@/lib/validations/checkout';
+import {
+  STORE_SETTINGS_SECTIONS,
+  ShippingSettings,
+  StoreSettings,
+  StoreSettingsSection,
+  storeSettingsSchemas,
+} from '@/lib/validations/settings';
+
+export type StoreSettingsHistoryEntry =
+  Database['public']['Tables']['site_settings_history']['Row'];
+
+export type ShippingMethodId = 'standard' | 'express' | 'overnight';
+
+export const SHIPPING_METHOD_IDS: ShippingMethodId[] = ['standard', 'express', 'overnight'];
+
+export const DEFAULT_STORE_SETTINGS: StoreSettings = {
+  store: {
+    name: 'Peakees',
+    description: 'Modern Israeli E-commerce Platform',
+    email: ISRAELI_CONFIG.supportEmail,
+    phone: ISRAELI_CONFIG.supportPhone,
+    address: 'Tel Aviv, Israel',
+    currency: ISRAELI_CONFIG.currency,
+    language: 'he',
+    timezone: ISRAELI_CONFIG.timeZone,
+  },
+  payments: {
+    acceptedCards: ['visa', 'mastercard', 'isracard'],
+    taxRate: Math.round(ISRAELI_CONFIG.vatRate * 10000) / 100,
+    pricesIncludeTax: true,
+  },
+  shipping: {
+    freeShippingThreshold: ISRAELI_CONFIG.freeShippingThreshold,
+    standard: { enabled: true, cost: ISRAELI_CONFIG.standardShippingCost, estimatedDays: 3 },
+    express: { enabled: true, cost: ISRAELI_CONFIG.expressShippingCost, estimatedDays: 1 },
+    overnight: { enabled: false, cost: 60, estimatedDays: 1 },
+  },
+  notifications: {
+    orderNotifications: true,
+    lowStockAlerts: true,
+    customerEmails: true,
+    adminEmails: true,
+  },
+  security: {
+    requireAccountForCheckout: false,
+  },
+};
+
+// The subset checkout needs; safe to send to any visitor
+export interface CheckoutSettings {
+  currency: StoreSettings['store']['currency'];
+  taxRate: number;
+  pricesIncludeTax: boolean;
+  shipping: ShippingSettings;
+}
+
+/**
+ * Builds settings from site_settings rows. A missing or invalid section falls
+ * back to its defaults so a bad row can never break checkout.
+ */
+export function parseStoreSettings(rows: { key: string; value: Json }[]): StoreSettings {
+  const settings = { ...DEFAULT_STORE_SETTINGS };
+
+  for (const section of STORE_SETTINGS_SECTIONS) {
+    const row = rows.find((r) => r.key === section);
+    if (!row) continue;
+
+    const parsed = storeSettingsSchemas[section].safeParse(row.value);
+    if (parsed.success) {
+      Object.assign(settings, { [section]: parsed.data });
+    } else {
+      console.error(`Invalid ${section} settings, using defaults:`, parsed.error.flatten());
+    }
+  }
+
+  return settings;
+}
+
+export async function getStoreSettings(
+  supabase: SupabaseClient<Database>,
+  sections: readonly StoreSettingsSection[] = STORE_SETTINGS_SECTIONS
+): Promise<StoreSettings> {
+  const { data, error } = await supabase
+    .from('site_settings')
+    .select('key, value')
+    .in('key', [...sections]);
+
+  if (error) {
+    throw error;
+  }
+
+  return parseStoreSettings(data || []);
+}
+
+export async function getCheckoutSettings(
+  supabase: SupabaseClient<Database>
+): Promise<CheckoutSettings> {
+  const settings = await getStoreSettings(supabase, ['store', 'payments', 'shipping']);
+  return toCheckoutSettings(settings);
+}
+
+// Whether shoppers may check out without an account. Security settings are
+// admin-only, so this needs the service role client.
+export async function isGuestCheckoutAllowed(supabase: SupabaseClient<Database>): Promise<boolean> {
+  const settings = await getStoreSettings(supabase, ['security']);
+  return !settings.security.requireAccountForCheckout;
+}
+
+export function toCheckoutSettings(settings: StoreSettings): CheckoutSettings {
+  return {
+    currency: settings.store.currency,
+    taxRate: settings.payments.taxRate,
+    pricesIncludeTax: settings.payments.pricesIncludeTax,
+    shipping: settings.shipping,
+  };
+}
+
+// Saves a validated section; the database trigger records the change in history
+export async function updateStoreSettings<S extends StoreSettingsSection>(
+  supabase: SupabaseClient<Database>,
+  section: S,
+  value: StoreSettings[S]
+): Promise<StoreSettings[S]> {
+  const { data, error } = await supabase
+    .from('site_settings')
+    .upsert({ key: section, value: value as unknown as Json }, { onConflict: 'key' })
+    .select('value')
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return data.value as unknown as StoreSettings[S];
+}
+
+/**
+ * Tax on an amount at a percentage rate, rounded to the cent. When prices
+ * include tax this is the tax part of the amount rather than an addition.
+ * Mirrors calculate_order_quote.
+ */
+export function calculateTax(amount: number, taxRate: number, pricesIncludeTax = false): number {
+  const taxable = Math.max(0, amount);
+  const tax = pricesIncludeTax ? (taxable * taxRate) / (100 + taxRate) : (taxable * taxRate) / 100;
+  return Math.round(tax * 100) / 100;
+}
+
+export function isFreeShipping(shipping: ShippingSettings, subtotal: number): boolean {
+  return shipping.freeShippingThreshold !== null && subtotal >= shipping.freeShippingThreshold;
+}
+
+/**
+ * Shipping cost for a method, or null when the method is turned off.
+ * Only standard shipping becomes free over the threshold.
+ */
+export function getShippingCost(
+  shipping: ShippingSettings,
+  method: ShippingMethodId,
+  subtotal: number
+): number | null {
+  const option = shipping[method];
+  if (!option.enabled) {
+    return null;
+  }
+
+  if (method === 'standard' && isFreeShipping(shipping, subtotal)) {
+    return 0;
+  }
+
+  return option.cost;
+}
+
+const SHIPPING_METHOD_NAMES: Record<ShippingMethodId, { name: string; description: string }> = {
+  standard: { name: 'Standard Shipping', description: 'Delivered to your door' },
+  express: { name: 'Express Shipping', description: 'Faster delivery' },
+  overnight: { name: 'Overnight Shipping', description: 'Next business day delivery' },
+};
+
+// Enabled shipping methods priced for a cart subtotal
+export function getShippingMethods(settings: CheckoutSettings, subtotal: number): ShippingMethod[] {
+  const { shipping, currency } = settings;
+
+  return SHIPPING_METHOD_IDS.flatMap((id) => {
+    const price = getShippingCost(shipping, id, subtotal);
+    if (price === null) {
+      return [];
+    }
+
+    const description =
+      id === 'standard' && shipping.freeShippingThreshold !== null
+        ? `Free shipping on orders over ${formatCurrency(shipping.freeShippingThreshold, currency)}`
+        : SHIPPING_METHOD_NAMES[id].description;
+
+    return [
+      {
+        id,
+        name: SHIPPING_METHOD_NAMES[id].name,
+        description,
+        price,
+        estimatedDays: shipping[id].estimatedDays,
+      },
+    ];
+  });
+}
@@ -1,5 +1,7 @@
 // Shipping carrier integrations and tracking utilities
 
+import { HFDAdapter, IsraelPostAdapter } from './tracking-adapters';
+
 export interface TrackingEvent {
   timestamp: string;
   status: string;
@@ -28,6 +30,12 @@ export interface ShippingCarrier {
   supportedServices: string[];
 }
 
+// Pluggable tracking backend for a single carrier
+export interface TrackingAdapter {
+  carrier: string;
+  track(trackingNumber: string): Promise<TrackingInfo>;
+}
+
 // Supported shipping carriers
 export const CARRIERS: Record<string, ShippingCarrier> = {
   ups: {
@@ -59,6 +67,20 @@ export const CARRIERS: Record<string, ShippingCarrier> = {
     trackingUrlTemplate: 'https://www.dhl.com/en/express/tracking.html?AWB={trackingNumber}',
     supportedServices: ['express', 'economy'],
   },
+  israel_post: {
+    name: 'Israel Post',
+    code: 'israel_post',
+    apiEndpoint: 'https://apimftprd.israelpost.co.il/MyPost-itemtrace',
+    trackingUrlTemplate: 'https://israelpost.co.il/en/itemtrace?itemcode={trackingNumber}',
+    supportedServices: ['registered', 'express', 'ems'],
+  },
+  hfd: {
+    name: 'HFD',
+    code: 'hfd',
+    apiEndpoint: 'https://api.hfd.co.il/v1',
+    trackingUrlTemplate: 'https://www.hfd.co.il/tracking/?ship={trackingNumber}',
+    supportedServices: ['standard', 'express', 'pickup_point'],
+  },
 };
 
 // Tracking number validation patterns
@@ -67,13 +89,37 @@ export const TRACKING_PATTERNS: Record<string, RegExp> = {
   fedex: /^[0-9]{12,14}$/,
   usps: /^(94|93|92|94|95)[0-9]{20}$/,
   dhl: /^[0-9]{10,11}$/,
+  // UPU S10 format, e.g. RR123456789IL
+  israel_post: /^[A-Z]{2}[0-9]{9}IL$/,
+  hfd: /^HFD[0-9]{9}$/,
 };
 
+// UPU S10 check digit for the 8-digit serial of an international item number
+export function s10CheckDigit(serial: string): number {
+  const weights = [8, 6, 4, 2, 3, 5, 9, 7];
+  const sum = serial
+    .split('')
+    .reduce((total, digit, index) => total + Number(digit) * weights[index], 0);
+  const check = 11 - (sum % 11);
+
+  if (check === 10) return 0;
+  if (check === 11) return 5;
+  return check;
+}
+
 export class TrackingService {
   private apiKeys: Record<string, string>;
+  private adapters: Record<string, TrackingAdapter> = {};
 
-  constructor(apiKeys: Record<string, string>) {
+  constructor(apiKeys: Record<string, string>, adapters: TrackingAdapter[] = []) {
     this.apiKeys = apiKeys;
+    adapters.forEach((adapter) => this.registerAdapter(adapter));
+  }
+
+  // Register (or replace) the tracking backend for a carrier
+  registerAdapter(adapter: TrackingAdapter): this {
+    this.adapters[adapter.carrier] = adapter;
+    return this;
   }
 
   // Detect carrier from tracking number
@@ -256,6 +302,12 @@ export class TrackingService {
       throw new Error('Unable to detect carrier from tracking number');
     }
 
+    // Registered adapters take precedence over the built-in carriers
+    const adapter = this.adapters[detectedCarrier];
+    if (adapter) {
+      return adapter.track(trackingNumber);
+    }
+
     switch (detectedCarrier) {
       case 'ups':
         return this.trackUPS(trackingNumber);
@@ -283,6 +335,12 @@ export class TrackingService {
         return `94${timestamp.slice(-20).padStart(20, '0')}`;
       case 'dhl':
         return timestamp.slice(-10).padStart(10, '0');
+      case 'israel_post': {
+        const serial = timestamp.slice(-8).padStart(8, '0');
+        return `RR${serial}${s10CheckDigit(serial)}IL`;
+      }
+      case 'hfd':
+        return `HFD${timestamp.slice(-9).padStart(9, '0')}`;
       default:
         throw new Error(`Unsupported carrier: ${carrier}`);
     }
@@ -290,12 +348,18 @@ export class TrackingService {
 }
 
 // Create singleton instance
-export const trackingService = new TrackingService({
-  ups: process.env.UPS_API_KEY || '',
-  fedex: process.env.FEDEX_API_KEY || '',
-  usps: process.env.USPS_API_KEY || '',
-  dhl: process.env.DHL_API_KEY || '',
-});
+export const trackingService = new TrackingService(
+  {
+    ups: process.env.UPS_API_KEY || '',
+    fedex: process.env.FEDEX_API_KEY || '',
+    usps: process.env.USPS_API_KEY || '',
+    dhl: process.env.DHL_API_KEY || '',
+  },
+  [
+    new IsraelPostAdapter(process.env.ISRAEL_POST_API_KEY || '', CARRIERS.israel_post.apiEndpoint),
+    new HFDAdapter(process.env.HFD_API_KEY || '', CARRIERS.hfd.apiEndpoint),
+  ]
+);
 
 // Utility functions
 export function formatTrackingStatus(status: string): string {
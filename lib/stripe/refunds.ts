@@ -0,0 +1,310 @@
+/**
+ * Stripe Refunds
+ * Issues refunds against an order's payment intent and mirrors them into the
+ * refunds table. Admin refunds, return approvals and the charge.refunded
+ * webhook all go through here.
+ */
+
+import Stripe from 'stripe';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '@/types/supabase';
+import { getServerStripe } from '@/lib/stripe/server';
+import { RefundReason, refundReasonSchema } from '@/lib/validations/refund';
+import { getStoreSettings } from '@/lib/settings/store-settings';
+import { formatCurrency, isValidCurrency, SupportedCurrency } from '@/lib/utils/currency';
+
+type RefundRow = Database['public']['Tables']['refunds']['Row'];
+
+export type RefundStatus = RefundRow['status'];
+
+export interface IssueRefundInput {
+  orderId: string;
+  paymentIntentId: string;
+  amount: number;
+  reason?: RefundReason;
+  notes?: string;
+  returnRequestId?: string;
+  createdBy?: string;
+  metadata?: Record<string, string>;
+  // Runs once Stripe has accepted the refund but before it is recorded, since
+  // recording a full refund marks the order refunded (e.g. to cancel it first)
+  onRefunded?: () => Promise<void>;
+}
+
+export interface RefundError {
+  message: string;
+  status: number;
+  code: string;
+}
+
+export type IssueRefundResult =
+  | { data: RefundRow; error?: undefined }
+  | { data?: undefined; error: RefundError };
+
+// Stripe reports refund states with a few extra values we fold together
+export function toRefundStatus(status: string | null): RefundStatus {
+  switch (status) {
+    case 'succeeded':
+    case 'failed':
+    case 'canceled':
+    case 'requires_action':
+      return status;
+    default:
+      return 'pending';
+  }
+}
+
+// Stripe only accepts its own reasons; 'other' is sent without one
+function toStripeReason(reason: RefundReason): Stripe.RefundCreateParams.Reason | undefined {
+  return reason === 'other' ? undefined : reason;
+}
+
+// What is left to refund on an order after every refund that hasn't failed
+export async function getRefundableAmount(
+  supabase: SupabaseClient<Database>,
+  orderId: string
+): Promise<number> {
+  const { data, error } = await supabase.rpc('order_refundable_amount', { p_order_id: orderId });
+
+  if (error) {
+    throw error;
+  }
+
+  return Number(data || 0);
+}
+
+// The refund a return has already started, if it hasn't failed or been canceled
+export async function getReturnRefund(
+  supabase: SupabaseClient<Database>,
+  returnRequestId: string
+): Promise<RefundRow | null> {
+  const { data, error } = await supabase
+    .from('refunds')
+    .select('*')
+    .eq('return_request_id', returnRequestId)
+    .in('status', ['pending', 'requires_action', 'succeeded'])
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+// The currency an order was paid in: its payment intent's, or the store
+// currency for orders without one on record
+export async function getPaymentCurrency(
+  supabase: SupabaseClient<Database>,
+  paymentIntentId: string | null
+): Promise<SupportedCurrency> {
+  if (paymentIntentId) {
+    const { data, error } = await supabase
+      .from('payment_intents')
+      .select('currency')
+      .eq('id', paymentIntentId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    const currency = data?.currency.toUpperCase();
+    if (currency && isValidCurrency(currency)) {
+      return currency;
+    }
+  }
+
+  const settings = await getStoreSettings(supabase, ['store']);
+  return settings.store.currency;
+}
+
+// Records the refund before Stripe sees it, holding its share of the balance.
+// A return's retried approval gets the refund it already started.
+async function createPendingRefund(
+  supabase: SupabaseClient<Database>,
+  input: IssueRefundInput,
+  reason: RefundReason
+): Promise<{ data: RefundRow; error?: undefined } | { data?: undefined; error: RefundError }> {
+  const currency = await getPaymentCurrency(supabase, input.paymentIntentId);
+
+  const { data, error } = await supabase.rpc('create_pending_refund', {
+    p_order_id: input.orderId,
+    p_payment_intent_id: input.paymentIntentId,
+    p_amount: input.amount,
+    p_currency: currency.toLowerCase(),
+    p_reason: reason,
+    p_notes: input.notes || null,
+    p_return_request_id: input.returnRequestId || null,
+    p_created_by: input.createdBy || null,
+  });
+
+  if (error) {
+    // Another refund took the balance first
+    if (error.message?.startsWith('Refund exceeds the refundable amount')) {
+      const refundable = await getRefundableAmount(supabase, input.orderId);
+      return {
+        error: {
+          message: `Refund cannot exceed the ${formatCurrency(refundable, currency)} left on this order`,
+          status: 400,
+          code: 'REFUND_EXCEEDS_ORDER',
+        },
+      };
+    }
+    throw error;
+  }
+
+  return { data: data as RefundRow };
+}
+
+export async function issueRefund(
+  supabase: SupabaseClient<Database>,
+  input: IssueRefundInput
+): Promise<IssueRefundResult> {
+  const reason = input.reason || 'requested_by_customer';
+
+  // Recorded first so the balance is held while Stripe processes the refund
+  const { data: pending, error: pendingError } = await createPendingRefund(supabase, input, reason);
+
+  if (pendingError) {
+    return { error: pendingError };
+  }
+
+  // A retried return refund that Stripe has already handled
+  if (pending.status !== 'pending') {
+    return { data: pending };
+  }
+
+  // Keyed on the refund row, so a retry of a pending refund never refunds twice
+  let refund: Stripe.Refund;
+  try {
+    refund = await getServerStripe().refunds.create(
+      {
+        payment_intent: pending.payment_intent_id || input.paymentIntentId,
+        amount: Math.round(Number(pending.amount) * 100),
+        reason: toStripeReason(pending.reason),
+        metadata: {
+          ...input.metadata,
+          order_id: pending.order_id,
+          refund_id: pending.id,
+        },
+      },
+      { idempotencyKey: `refund-${pending.id}` }
+    );
+  } catch (stripeError) {
+    console.error('Stripe refund failed:', stripeError);
+    const message = (stripeError as Error).message;
+
+    await supabase
+      .from('refunds')
+      .update({ status: 'failed', failure_reason: message, updated_at: new Date().toISOString() })
+      .eq('id', pending.id);
+
+    return { error: { message: `Refund failed: ${message}`, status: 502, code: 'REFUND_FAILED' } };
+  }
+
+  // The refund has gone through either way, so it is always recorded
+  if (input.onRefunded) {
+    try {
+      await input.onRefunded();
+    } catch (followUpError) {
+      console.error('Refund follow-up failed:', followUpError);
+    }
+  }
+
+  const { data: updated, error: updateError } = await supabase
+    .from('refunds')
+    .update({
+      stripe_refund_id: refund.id,
+      currency: refund.currency,
+      status: toRefundStatus(refund.status),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', pending.id)
+    .select()
+    .single();
+
+  if (updateError) {
+    throw updateError;
+  }
+
+  return { data: updated };
+}
+
+// Cancels a refunded order and restocks its items, guest orders included
+// (needs the service role client)
+export async function cancelRefundedOrder(
+  supabase: SupabaseClient<Database>,
+  orderId: string,
+  reason: string
+): Promise<void> {
+  const { error } = await supabase.rpc('cancel_refunded_order', {
+    p_order_id: orderId,
+    p_reason: reason,
+  });
+
+  if (error) {
+    throw error;
+  }
+}
+
+// Hands back a payment that never became an order. Keyed on the payment
+// intent, so every caller shares one refund.
+export async function refundUnfulfilledPayment(
+  paymentIntentId: string,
+  reason: string
+): Promise<Stripe.Refund> {
+  return getServerStripe().refunds.create(
+    { payment_intent: paymentIntentId, metadata: { unfulfilled_reason: reason } },
+    { idempotencyKey: `unfulfilled-${paymentIntentId}` }
+  );
+}
+
+// Mirror a refund reported by Stripe, including ones issued from the Stripe dashboard
+export async function syncStripeRefund(
+  supabase: SupabaseClient<Database>,
+  refund: Stripe.Refund,
+  orderId: string
+): Promise<void> {
+  const update = {
+    stripe_refund_id: refund.id,
+    currency: refund.currency,
+    status: toRefundStatus(refund.status),
+    failure_reason: refund.failure_reason || null,
+    updated_at: new Date().toISOString(),
+  };
+
+  if (refund.metadata?.refund_id) {
+    const { error } = await supabase
+      .from('refunds')
+      .update(update)
+      .eq('id', refund.metadata.refund_id);
+
+    if (error) {
+      throw error;
+    }
+    return;
+  }
+
+  const paymentIntentId =
+    typeof refund.payment_intent === 'string' ? refund.payment_intent : refund.payment_intent?.id;
+
+  const reason = refundReasonSchema.safeParse(refund.reason);
+
+  const { error } = await supabase.from('refunds').upsert(
+    {
+      ...update,
+      order_id: orderId,
+      payment_intent_id: paymentIntentId || null,
+      amount: refund.amount / 100,
+      reason: reason.success ? reason.data : 'other',
+    },
+    { onConflict: 'stripe_refund_id' }
+  );
+
+  if (error) {
+    throw error;
+  }
+}
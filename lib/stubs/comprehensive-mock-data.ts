@@ -426,6 +426,7 @@ export const MOCK_CART_ITEMS: Tables['cart_items']['Row'][] = [
     id: '40000000-0000-0000-0000-000000000001',
     user_id: '00000000-0000-0000-0000-000000000002',
     product_id: '20000000-0000-0000-0000-000000000001',
+    variant_id: null,
     quantity: 1,
     created_at: '2024-10-29T10:00:00Z',
     updated_at: '2024-10-29T10:00:00Z',
@@ -434,6 +435,7 @@ export const MOCK_CART_ITEMS: Tables['cart_items']['Row'][] = [
     id: '40000000-0000-0000-0000-000000000002',
     user_id: '00000000-0000-0000-0000-000000000002',
     product_id: '20000000-0000-0000-0000-000000000006',
+    variant_id: null,
     quantity: 1,
     created_at: '2024-10-29T11:30:00Z',
     updated_at: '2024-10-29T11:30:00Z',
@@ -480,6 +482,8 @@ export const MOCK_ORDER_ITEMS: Tables['order_items']['Row'][] = [
     id: '60000000-0000-0000-0000-000000000001',
     order_id: '30000000-0000-0000-0000-000000000001',
     product_id: '20000000-0000-0000-0000-000000000001',
+    variant_id: null,
+    sku: null,
     quantity: 1,
     price: 12500,
     created_at: '2024-10-20T10:30:00Z',
@@ -489,6 +493,8 @@ export const MOCK_ORDER_ITEMS: Tables['order_items']['Row'][] = [
     id: '60000000-0000-0000-0000-000000000002',
     order_id: '30000000-0000-0000-0000-000000000001',
     product_id: '20000000-0000-0000-0000-000000000002',
+    variant_id: null,
+    sku: null,
     quantity: 1,
     price: 18000,
     created_at: '2024-10-20T10:30:00Z',
@@ -498,6 +504,8 @@ export const MOCK_ORDER_ITEMS: Tables['order_items']['Row'][] = [
     id: '60000000-0000-0000-0000-000000000003',
     order_id: '30000000-0000-0000-0000-000000000002',
     product_id: '20000000-0000-0000-0000-000000000002',
+    variant_id: null,
+    sku: null,
     quantity: 1,
     price: 18000,
     created_at: '2024-10-25T14:20:00Z',
@@ -507,6 +515,8 @@ export const MOCK_ORDER_ITEMS: Tables['order_items']['Row'][] = [
     id: '60000000-0000-0000-0000-000000000004',
     order_id: '30000000-0000-0000-0000-000000000003',
     product_id: '20000000-0000-0000-0000-000000000007',
+    variant_id: null,
+    sku: null,
     quantity: 1,
     price: 42000,
     created_at: '2024-10-28T09:15:00Z',
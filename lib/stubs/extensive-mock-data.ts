@@ -397,6 +397,7 @@ export const generateExtensiveCartItems = (): CartItem[] => [
     id: 'cart-001',
     user_id: 'user-001',
     product_id: 'prod-001',
+    variant_id: null,
     quantity: 1,
     created_at: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(),
     updated_at: new Date().toISOString(),
@@ -405,6 +406,7 @@ export const generateExtensiveCartItems = (): CartItem[] => [
     id: 'cart-002',
     user_id: 'user-001',
     product_id: 'prod-007',
+    variant_id: null,
     quantity: 2,
     created_at: new Date(Date.now() - 1 * 60 * 60 * 1000).toISOString(),
     updated_at: new Date().toISOString(),
@@ -413,6 +415,7 @@ export const generateExtensiveCartItems = (): CartItem[] => [
     id: 'cart-003',
     user_id: 'user-002',
     product_id: 'prod-003',
+    variant_id: null,
     quantity: 1,
     created_at: new Date(Date.now() - 3 * 60 * 60 * 1000).toISOString(),
     updated_at: new Date().toISOString(),
@@ -10,6 +10,8 @@ import {
   ProductGroup,
   CampaignType,
   CampaignStatus,
+  ProductVariant,
+  ProductReview,
 } from '@/types/shop';
 
 type Product = Database['public']['Tables']['products']['Row'];
@@ -440,6 +442,118 @@ export const mockFashionProducts: FashionProduct[] = [
 // Legacy mock products for backward compatibility
 export const mockProducts: Product[] = mockFashionProducts as Product[];
 
+// Size × color variants for every mock product that lists sizes or colors.
+// Stock is spread over the product's inventory_count so totals still match.
+export const mockProductVariants: ProductVariant[] = mockFashionProducts.flatMap((product) => {
+  const sizes = product.sizes?.length ? product.sizes : [null];
+  const colors = product.colors?.length ? product.colors : [null];
+  if (sizes[0] === null && colors[0] === null) return [];
+
+  const combinations = sizes.flatMap((size) => colors.map((color) => ({ size, color })));
+  const perVariant = Math.floor(product.inventory_count / combinations.length);
+  const remainder = product.inventory_count % combinations.length;
+
+  return combinations.map(({ size, color }, index) => ({
+    id: [product.id, size, color].filter(Boolean).join('-').toLowerCase(),
+    product_id: product.id,
+    sku: [product.id, size, color].filter(Boolean).join('-').toUpperCase(),
+    size,
+    color,
+    price_override: null,
+    inventory_count: perVariant + (index < remainder ? 1 : 0),
+    is_active: true,
+    created_at: product.created_at,
+    updated_at: product.updated_at,
+  }));
+});
+
+// Customer reviews with the reviewer joined from users, as the reviews API selects them
+export const mockProductReviews: Array<
+  ProductReview & { users: Pick<User, 'full_name' | 'avatar_url'> }
+> = [
+  {
+    id: 'review-1',
+    product_id: 'prod-1',
+    user_id: 'user-1',
+    order_id: 'order-1',
+    rating: 5,
+    title: 'Beautiful coat, great condition',
+    content: 'Arrived exactly as described. The wool is soft and there is no visible wear at all.',
+    verified_purchase: true,
+    status: 'approved',
+    moderation_notes: null,
+    moderated_by: 'admin-1',
+    moderated_at: '2024-01-20T10:00:00.000Z',
+    helpful_count: 12,
+    unhelpful_count: 1,
+    created_at: '2024-01-20T10:00:00.000Z',
+    updated_at: '2024-01-20T10:00:00.000Z',
+    users: {
+      full_name: 'John Doe',
+      avatar_url:
+        'https://images.unsplash.com/photo-1507003211169-0a1dd7228f2d?w=150&h=150&fit=crop&crop=face',
+    },
+  },
+  {
+    id: 'review-2',
+    product_id: 'prod-1',
+    user_id: 'user-2',
+    order_id: null,
+    rating: 4,
+    title: 'Runs slightly large',
+    content: 'Lovely piece, but I would size down. Shipping was quick and the packaging was neat.',
+    verified_purchase: false,
+    status: 'approved',
+    moderation_notes: null,
+    moderated_by: 'admin-1',
+    moderated_at: '2024-01-22T14:30:00.000Z',
+    helpful_count: 5,
+    unhelpful_count: 0,
+    created_at: '2024-01-22T14:30:00.000Z',
+    updated_at: '2024-01-22T14:30:00.000Z',
+    users: { full_name: 'Noa Levi', avatar_url: null },
+  },
+  {
+    id: 'review-3',
+    product_id: 'prod-2',
+    user_id: 'user-3',
+    order_id: null,
+    rating: 3,
+    title: 'Good value',
+    content:
+      'Decent quality for the price. A small mark on the sleeve that was mentioned in the listing.',
+    verified_purchase: true,
+    status: 'approved',
+    moderation_notes: null,
+    moderated_by: 'admin-1',
+    moderated_at: '2024-01-25T09:15:00.000Z',
+    helpful_count: 2,
+    unhelpful_count: 2,
+    created_at: '2024-01-25T09:15:00.000Z',
+    updated_at: '2024-01-25T09:15:00.000Z',
+    users: { full_name: 'Daniel Cohen', avatar_url: null },
+  },
+  {
+    id: 'review-4',
+    product_id: 'prod-2',
+    user_id: 'user-4',
+    order_id: null,
+    rating: 1,
+    title: 'Not what I expected',
+    content: 'The color looked very different in person and the fabric felt thinner than expected.',
+    verified_purchase: false,
+    status: 'pending',
+    moderation_notes: null,
+    moderated_by: null,
+    moderated_at: null,
+    helpful_count: 0,
+    unhelpful_count: 0,
+    created_at: '2024-01-28T18:45:00.000Z',
+    updated_at: '2024-01-28T18:45:00.000Z',
+    users: { full_name: 'Maya Katz', avatar_url: null },
+  },
+];
+
 export const mockUser: User = {
   id: 'user-1',
   email: 'test@example.com',
@@ -467,6 +581,7 @@ export const mockCartItems: CartItem[] = [
     id: 'cart-1',
     user_id: 'user-1',
     product_id: 'prod-1',
+    variant_id: 'prod-1-m-camel',
     quantity: 2,
     created_at: '2024-01-01T00:00:00.000Z',
     updated_at: '2024-01-01T00:00:00.000Z',
@@ -475,6 +590,7 @@ export const mockCartItems: CartItem[] = [
     id: 'cart-2',
     user_id: 'user-1',
     product_id: 'prod-2',
+    variant_id: null,
     quantity: 1,
     created_at: '2024-01-01T00:00:00.000Z',
     updated_at: '2024-01-01T00:00:00.000Z',
@@ -163,6 +163,27 @@ export const createStripeStub = () => ({
     },
   },
 
+  refunds: {
+    create: async (params: any, options?: any) => {
+      await simulateDelay(300);
+      return {
+        id: `re_mock_${Date.now()}`,
+        object: 'refund',
+        amount: params.amount,
+        currency: 'usd',
+        payment_intent: params.payment_intent,
+        reason: params.reason || null,
+        status: 'succeeded',
+        created: Math.floor(Date.now() / 1000),
+        metadata: params.metadata || {},
+      };
+    },
+    list: async (params: any) => {
+      await simulateDelay(200);
+      return { object: 'list', data: [], has_more: false, url: '/v1/refunds' };
+    },
+  },
+
   webhooks: {
     constructEvent: (payload: any, signature: string, secret: string) => {
       // Mock webhook event
@@ -1,8 +1,9 @@
 import { createServerComponentClient } from '@supabase/auth-helpers-nextjs';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { cookies } from 'next/headers';
 import { Database } from '@/types/supabase';
 import { USE_STUBS } from '@/lib/stubs';
-import { mockProducts } from '@/lib/stubs/mock-data';
+import { mockProducts, mockProductVariants } from '@/lib/stubs/mock-data';
 
 // In-memory cart storage for stub mode
 let stubCartItems: any[] = [
@@ -46,6 +47,7 @@ const getCartItemsWithProducts = (userId: string) => {
     .filter((item) => item.user_id === userId)
     .map((item) => {
       const product = mockProducts.find((p) => p.id === item.product_id);
+      const variant = mockProductVariants.find((v) => v.id === item.variant_id);
       return {
         ...item,
         products: product
@@ -57,6 +59,7 @@ const getCartItemsWithProducts = (userId: string) => {
               inventory_count: product.inventory_count,
             }
           : null,
+        product_variants: variant || null,
       };
     });
 };
@@ -114,6 +117,10 @@ export const createServerClient = () => {
           filters.push({ column, value });
           return builder;
         },
+        is: (column: string, value: any) => {
+          filters.push({ column, value });
+          return builder;
+        },
         single: async () => {
           console.log(`🎯 STUB: ${table}.single() with filters:`, filters);
 
@@ -134,9 +141,19 @@ export const createServerClient = () => {
             return { data: null, error: { code: 'PGRST116', message: 'Product not found' } };
           }
 
+          if (table === 'product_variants') {
+            const idFilter = filters.find((f) => f.column === 'id');
+            const variant = mockProductVariants.find((v) => v.id === idFilter?.value);
+            if (variant) {
+              return { data: variant, error: null };
+            }
+            return { data: null, error: { code: 'PGRST116', message: 'Variant not found' } };
+          }
+
           if (table === 'cart_items') {
             const userFilter = filters.find((f) => f.column === 'user_id');
             const productFilter = filters.find((f) => f.column === 'product_id');
+            const variantFilter = filters.find((f) => f.column === 'variant_id');
             const idFilter = filters.find((f) => f.column === 'id');
 
             let items = stubCartItems;
@@ -150,6 +167,9 @@ export const createServerClient = () => {
             if (productFilter) {
               items = items.filter((i) => i.product_id === productFilter.value);
             }
+            if (variantFilter) {
+              items = items.filter((i) => (i.variant_id ?? null) === variantFilter.value);
+            }
 
             if (items.length > 0) {
               return { data: items[0], error: null };
@@ -195,6 +215,14 @@ export const createServerClient = () => {
             return;
           }
 
+          if (table === 'product_variants') {
+            const variants = mockProductVariants.filter((v: any) =>
+              filters.every((f) => v[f.column] === f.value)
+            );
+            resolve({ data: variants, error: null });
+            return;
+          }
+
           if (table === 'favorites') {
             const userFilter = filters.find((f) => f.column === 'user_id');
             if (userFilter) {
@@ -377,3 +405,19 @@ export const createServerClient = () => {
   const cookieStore = cookies();
   return createServerComponentClient<Database>({ cookies: () => cookieStore });
 };
+
+// Bypasses RLS. Only for server-side writes made on behalf of visitors who
+// aren't signed in, such as newsletter confirmations, guest checkout, Stripe
+// webhooks and cron jobs. Never use in client code.
+export const createServiceRoleClient = (): SupabaseClient<Database> => {
+  if (USE_STUBS) {
+    // The stub has no RLS to bypass, so both clients share it
+    return createServerClient();
+  }
+
+  return createClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { persistSession: false, autoRefreshToken: false } }
+  );
+};
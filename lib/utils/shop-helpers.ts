@@ -5,7 +5,15 @@
  * Following functional programming principles.
  */
 
-import { ProductFilters, ShopProduct, SortOption } from '@/types/shop';
+import {
+  CampaignStatus,
+  ProductFilters,
+  ProductReview,
+  ProductReviewSummary,
+  ProductVariant,
+  ShopProduct,
+  SortOption,
+} from '@/types/shop';
 
 /**
  * Filter products based on criteria
@@ -149,3 +157,107 @@ export function inferGenderFromProduct(product: ShopProduct): 'men' | 'women' |
 
   return 'unisex';
 }
+
+/**
+ * Find the active variant matching a size/color selection
+ */
+export function findVariant(
+  variants: ProductVariant[],
+  size?: string | null,
+  color?: string | null
+): ProductVariant | undefined {
+  return variants.find(
+    (variant) =>
+      variant.is_active &&
+      (variant.size || null) === (size || null) &&
+      (variant.color || null) === (color || null)
+  );
+}
+
+/**
+ * Effective unit price of a product, honouring a variant price override
+ */
+export function getVariantPrice(
+  product: { price: number },
+  variant?: Pick<ProductVariant, 'price_override'> | null
+): number {
+  return variant?.price_override ?? product.price;
+}
+
+/**
+ * Distinct sizes and colors offered by a product's active variants,
+ * with whether any stock is left for each option
+ */
+export function getVariantOptions(variants: ProductVariant[]): {
+  sizes: Array<{ value: string; available: boolean }>;
+  colors: Array<{ value: string; available: boolean }>;
+} {
+  const sizes = new Map<string, boolean>();
+  const colors = new Map<string, boolean>();
+
+  for (const variant of variants) {
+    if (!variant.is_active) continue;
+    const inStock = variant.inventory_count > 0;
+
+    if (variant.size) {
+      sizes.set(variant.size, sizes.get(variant.size) || inStock);
+    }
+    if (variant.color) {
+      colors.set(variant.color, colors.get(variant.color) || inStock);
+    }
+  }
+
+  return {
+    sizes: Array.from(sizes, ([value, available]) => ({ value, available })),
+    colors: Array.from(colors, ([value, available]) => ({ value, available })),
+  };
+}
+
+/**
+ * Build a SKU from product and option codes, e.g. PRD1A2B-M-NAVY
+ */
+export function generateVariantSku(productId: string, size?: string | null, color?: string | null) {
+  const base = productId.replace(/-/g, '').slice(0, 8).toUpperCase();
+  return [base, size, color]
+    .filter(Boolean)
+    .map((part) => part!.toString().toUpperCase().replace(/\s+/g, ''))
+    .join('-');
+}
+
+/**
+ * Average rating, total and per-star counts of a set of approved reviews
+ */
+export function summarizeReviews(reviews: Pick<ProductReview, 'rating'>[]): ProductReviewSummary {
+  const ratingCounts: Record<number, number> = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+  reviews.forEach((review) => {
+    ratingCounts[review.rating] = (ratingCounts[review.rating] || 0) + 1;
+  });
+
+  const total = reviews.reduce((sum, review) => sum + review.rating, 0);
+
+  return {
+    averageRating: reviews.length > 0 ? Math.round((total / reviews.length) * 10) / 10 : 0,
+    totalReviews: reviews.length,
+    ratingCounts,
+  };
+}
+
+/**
+ * Effective status of a campaign: draft and archived are set by hand, the
+ * rest follows the start and end dates (mirrors campaign_status_for_dates)
+ */
+export function getCampaignStatus(
+  campaign: { status: CampaignStatus; start_date?: string | null; end_date?: string | null },
+  now = new Date()
+): CampaignStatus {
+  if (campaign.status === 'draft' || campaign.status === 'archived') {
+    return campaign.status;
+  }
+  if (campaign.end_date && new Date(campaign.end_date) <= now) {
+    return 'expired';
+  }
+  if (campaign.start_date && new Date(campaign.start_date) > now) {
+    return 'scheduled';
+  }
+  return 'active';
+}
@@ -0,0 +1,91 @@
+import { z } from 'zod';
+import { collectionSlugSchema } from '@/types/collections';
+
+// Empty form fields are sent as null
+const optionalUrlSchema = z.string().url('Must be a valid URL').nullable().optional();
+
+const campaignFieldsSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Campaign name is required')
+    .max(120, 'Name must be less than 120 characters'),
+  slug: collectionSlugSchema.optional(),
+  description: z
+    .string()
+    .max(1000, 'Description must be less than 1000 characters')
+    .nullable()
+    .optional(),
+  type: z.enum(['sale', 'collection', 'editorial', 'seasonal', 'new-arrivals']),
+  status: z.enum(['draft', 'scheduled', 'active', 'expired', 'archived']).default('draft'),
+  product_group_id: z.string().uuid('Invalid product group ID').nullable().optional(),
+  product_ids: z.array(z.string().min(1)).default([]),
+  start_date: z.string().datetime().nullable().optional(),
+  end_date: z.string().datetime().nullable().optional(),
+  banner_image_url: optionalUrlSchema,
+  thumbnail_url: optionalUrlSchema,
+  theme_color: z
+    .string()
+    .regex(/^#[0-9a-fA-F]{6}$/, 'Theme color must be a hex color')
+    .nullable()
+    .optional(),
+  sort_order: z.number().int().min(0).optional(),
+  is_featured: z.boolean().default(false),
+  show_on_homepage: z.boolean().default(false),
+});
+
+const endsAfterStart = (campaign: { start_date?: string | null; end_date?: string | null }) =>
+  !campaign.start_date ||
+  !campaign.end_date ||
+  new Date(campaign.end_date) > new Date(campaign.start_date);
+
+// Schema for creating a campaign (admin only)
+export const createCampaignSchema = campaignFieldsSchema.refine(endsAfterStart, {
+  message: 'End date must be after the start date',
+  path: ['end_date'],
+});
+
+// Schema for updating a campaign (admin only)
+export const updateCampaignSchema = campaignFieldsSchema.partial().refine(endsAfterStart, {
+  message: 'End date must be after the start date',
+  path: ['end_date'],
+});
+
+// Schema for GET /api/admin/campaigns
+export const campaignQuerySchema = z.object({
+  status: z.enum(['all', 'draft', 'scheduled', 'active', 'expired', 'archived']).default('all'),
+  type: z
+    .enum(['all', 'sale', 'collection', 'editorial', 'seasonal', 'new-arrivals'])
+    .default('all'),
+  limit: z.number().int().min(1).max(100).default(50),
+  offset: z.number().int().min(0).default(0),
+});
+
+// Schema for GET /api/campaigns (storefront, active campaigns only)
+export const publicCampaignQuerySchema = z.object({
+  featured: z.boolean().optional(),
+  homepage: z.boolean().optional(),
+  limit: z.number().int().min(1).max(24).default(6),
+});
+
+// Schema for creating a product group (admin only)
+export const createProductGroupSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Name is required')
+    .max(120, 'Name must be less than 120 characters'),
+  description: z.string().max(1000).nullable().optional(),
+  product_ids: z.array(z.string().min(1)).default([]),
+});
+
+// Schema for updating a product group (admin only)
+export const updateProductGroupSchema = createProductGroupSchema.partial();
+
+// Types
+export type CreateCampaign = z.infer<typeof createCampaignSchema>;
+export type UpdateCampaign = z.infer<typeof updateCampaignSchema>;
+export type CampaignQuery = z.infer<typeof campaignQuerySchema>;
+export type PublicCampaignQuery = z.infer<typeof publicCampaignQuerySchema>;
+export type CreateProductGroup = z.infer<typeof createProductGroupSchema>;
+export type UpdateProductGroup = z.infer<typeof updateProductGroupSchema>;
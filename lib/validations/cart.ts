@@ -4,12 +4,14 @@ import { z } from 'zod';
 export const cartItemSchema = z.object({
   user_id: z.string().uuid({ message: 'Invalid user ID' }),
   product_id: z.string().uuid({ message: 'Invalid product ID' }),
+  variant_id: z.string().uuid({ message: 'Invalid variant ID' }).nullable().optional(),
   quantity: z.number().int().min(1, { message: 'Quantity must be at least 1' }),
 });
 
 // Schema for adding an item to the cart
 export const addToCartSchema = z.object({
   product_id: z.string().uuid({ message: 'Invalid product ID' }),
+  variant_id: z.string().uuid({ message: 'Invalid variant ID' }).optional(),
   quantity: z.number().int().min(1, { message: 'Quantity must be at least 1' }).default(1),
 });
 
@@ -38,14 +38,39 @@ export const createOrderSchema = z.object({
   paymentMethodId: z.string().min(1, 'Payment method is required'),
   shippingMethod: z.enum(['standard', 'express', 'overnight']),
   notes: z.string().max(500, 'Notes too long').optional(),
+  loyaltyCode: z.string().trim().max(32, 'Invalid reward code').optional(),
+  promoCode: z.string().trim().max(32, 'Invalid promo code').optional(),
+  // Required when checking out without an account
+  guestEmail: z.string().email('Invalid email address').optional(),
 });
 
 // Payment intent creation schema
 export const createPaymentIntentSchema = z.object({
   amount: z.number().min(1, 'Amount must be greater than 0'),
-  currency: z.enum(['usd', 'ils', 'eur']).default('usd'),
+  shippingMethod: z.enum(['standard', 'express', 'overnight']).optional(),
   orderId: z.string().uuid('Invalid order ID').optional(),
   metadata: z.record(z.string()).optional(),
+  loyaltyCode: z.string().trim().max(32, 'Invalid reward code').optional(),
+  promoCode: z.string().trim().max(32, 'Invalid promo code').optional(),
+  // Required when checking out without an account
+  guestEmail: z.string().email('Invalid email address').optional(),
+  // Saved with the payment so the order can still be created if the browser never returns
+  shippingAddress: shippingAddressSchema.optional(),
+  billingAddress: billingAddressSchema.optional(),
+  notes: z.string().max(500, 'Notes too long').optional(),
+});
+
+// Order quote schema
+export const orderQuoteSchema = z.object({
+  shippingMethod: z.enum(['standard', 'express', 'overnight']).default('standard'),
+  loyaltyCode: z.string().trim().max(32, 'Invalid reward code').optional(),
+  promoCode: z.string().trim().max(32, 'Invalid promo code').optional(),
+});
+
+// Signed guest order link (lookup and claim)
+export const orderLookupSchema = z.object({
+  orderId: z.string().uuid('Invalid order ID'),
+  token: z.string().regex(/^[a-f0-9]{64}$/, 'Invalid order link'),
 });
 
 // Checkout session schema
@@ -93,6 +118,8 @@ export const orderSummarySchema = z.object({
   subtotal: z.number().min(0),
   shipping: z.number().min(0),
   tax: z.number().min(0),
+  // Tax is already part of the subtotal rather than added to it
+  taxIncluded: z.boolean().optional(),
   discount: z.number().min(0).optional(),
   total: z.number().min(0),
 });
@@ -103,6 +130,8 @@ export type BillingAddress = z.infer<typeof billingAddressSchema>;
 export type PaymentMethod = z.infer<typeof paymentMethodSchema>;
 export type CreateOrder = z.infer<typeof createOrderSchema>;
 export type CreatePaymentIntent = z.infer<typeof createPaymentIntentSchema>;
+export type OrderQuoteRequest = z.infer<typeof orderQuoteSchema>;
+export type OrderLookup = z.infer<typeof orderLookupSchema>;
 export type CheckoutSession = z.infer<typeof checkoutSessionSchema>;
 export type GuestCheckout = z.infer<typeof guestCheckoutSchema>;
 export type ShippingMethod = z.infer<typeof shippingMethodSchema>;
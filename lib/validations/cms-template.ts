@@ -0,0 +1,88 @@
+import { z } from 'zod';
+
+export const collaboratorRoleSchema = z.enum(['owner', 'editor', 'reviewer', 'viewer']);
+
+export const commentTypeSchema = z.enum([
+  'general',
+  'suggestion',
+  'issue',
+  'approval',
+  'rejection',
+]);
+
+export const addCollaboratorSchema = z.object({
+  user_id: z.string().min(1, 'User is required'),
+  role: collaboratorRoleSchema,
+  notes: z.string().trim().max(500).optional(),
+});
+
+export const updateCollaboratorSchema = z.object({
+  role: collaboratorRoleSchema,
+  notes: z.string().trim().max(500).optional(),
+});
+
+export const addCommentSchema = z.object({
+  content: z.string().trim().min(1, 'Comment cannot be empty').max(5000),
+  // Approval and rejection comments come from review decisions only
+  comment_type: commentTypeSchema.exclude(['approval', 'rejection']).default('general'),
+  version_id: z.string().min(1).optional(),
+  parent_comment_id: z.string().min(1).optional(),
+  section_id: z.string().min(1).optional(),
+});
+
+export const updateCommentSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('resolve') }),
+  z.object({ action: z.literal('unresolve') }),
+  z.object({
+    action: z.literal('edit'),
+    content: z.string().trim().min(1, 'Comment cannot be empty').max(5000),
+  }),
+]);
+
+export const templateReviewSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('submit'),
+    comment: z.string().trim().max(5000).optional(),
+  }),
+  z.object({ action: z.literal('withdraw') }),
+  z.object({
+    action: z.literal('approve'),
+    comment: z.string().trim().max(5000).optional(),
+  }),
+  z.object({
+    action: z.literal('reject'),
+    comment: z.string().trim().min(1, 'Explain why the template was rejected').max(5000),
+  }),
+]);
+
+export const scheduleTemplateSchema = z
+  .object({
+    version_id: z.string().min(1).optional(),
+    publish_at: z.string().datetime({ offset: true }),
+    unpublish_at: z.string().datetime({ offset: true }).optional(),
+    timezone: z.string().min(1).default('UTC'),
+    notes: z.string().trim().max(500).optional(),
+    notify_on_publish: z.boolean().default(true),
+    notify_on_unpublish: z.boolean().default(true),
+    notification_emails: z.array(z.string().email()).max(20).optional(),
+  })
+  .refine((data) => new Date(data.publish_at).getTime() > Date.now(), {
+    message: 'Publish time must be in the future',
+    path: ['publish_at'],
+  })
+  .refine(
+    (data) =>
+      !data.unpublish_at ||
+      new Date(data.unpublish_at).getTime() > new Date(data.publish_at).getTime(),
+    {
+      message: 'Unpublish time must be after the publish time',
+      path: ['unpublish_at'],
+    }
+  );
+
+export type AddCollaboratorInput = z.infer<typeof addCollaboratorSchema>;
+export type UpdateCollaboratorInput = z.infer<typeof updateCollaboratorSchema>;
+export type AddCommentInput = z.infer<typeof addCommentSchema>;
+export type UpdateCommentInput = z.infer<typeof updateCommentSchema>;
+export type TemplateReviewInput = z.infer<typeof templateReviewSchema>;
+export type ScheduleTemplateInput = z.infer<typeof scheduleTemplateSchema>;
@@ -15,6 +15,7 @@ export const sectionTypeSchema = z.enum([
   'category_grid',
   'testimonials',
   'newsletter',
+  'campaign_showcase',
 ]);
 
 export const sectionStatusSchema = z.enum(['draft', 'published', 'scheduled', 'archived']);
@@ -226,6 +227,84 @@ export const categoryGridSectionSchema = z.object({
   metadata: z.record(z.unknown()).optional(),
 });
 
+// Testimonials Schema
+export const testimonialItemSchema = z.object({
+  id: z.string().min(1),
+  quote: z.string().min(1, 'Quote is required').max(500),
+  author: z.string().min(1, 'Author is required').max(100),
+  role: z.string().max(100).optional(),
+  avatar: z.string().url().optional(),
+  rating: z.number().int().min(1).max(5).optional(),
+});
+
+export const testimonialsConfigSchema = z.object({
+  title: z.string().max(100).optional(),
+  subtitle: z.string().max(200).optional(),
+  testimonials: z.array(testimonialItemSchema).min(1, 'At least one testimonial is required'),
+  layout: z.enum(['grid', 'carousel']),
+  showRating: z.boolean().optional(),
+  autoplayDelay: z.number().int().min(2000).max(15000).optional(),
+  backgroundColor: z.string().optional(),
+});
+
+export const testimonialsSectionSchema = z.object({
+  id: z.string().uuid().optional(),
+  type: z.literal('testimonials'),
+  status: sectionStatusSchema,
+  order: z.number().int().min(0),
+  visible: z.boolean(),
+  scheduled_at: z.string().datetime().optional(),
+  expires_at: z.string().datetime().optional(),
+  config: testimonialsConfigSchema,
+  metadata: z.record(z.unknown()).optional(),
+});
+
+// Newsletter Schema
+export const newsletterConfigSchema = z.object({
+  title: z.string().min(1, 'Title is required').max(100),
+  subtitle: z.string().max(200).optional(),
+  placeholder: z.string().max(100).optional(),
+  buttonText: z.string().min(1, 'Button text is required').max(30),
+  successMessage: z.string().max(200).optional(),
+  privacyText: z.string().max(200).optional(),
+  backgroundImage: z.string().url().optional(),
+  backgroundColor: z.string().optional(),
+  layout: z.enum(['centered', 'split']),
+});
+
+export const newsletterSectionSchema = z.object({
+  id: z.string().uuid().optional(),
+  type: z.literal('newsletter'),
+  status: sectionStatusSchema,
+  order: z.number().int().min(0),
+  visible: z.boolean(),
+  scheduled_at: z.string().datetime().optional(),
+  expires_at: z.string().datetime().optional(),
+  config: newsletterConfigSchema,
+  metadata: z.record(z.unknown()).optional(),
+});
+
+// Campaign Showcase Schema
+export const campaignShowcaseConfigSchema = z.object({
+  title: z.string().max(100).optional(),
+  subtitle: z.string().max(200).optional(),
+  limit: z.number().int().min(1).max(12),
+  homepageOnly: z.boolean().optional(),
+  cardStyle: z.enum(['overlay', 'below', 'minimal']).optional(),
+});
+
+export const campaignShowcaseSectionSchema = z.object({
+  id: z.string().uuid().optional(),
+  type: z.literal('campaign_showcase'),
+  status: sectionStatusSchema,
+  order: z.number().int().min(0),
+  visible: z.boolean(),
+  scheduled_at: z.string().datetime().optional(),
+  expires_at: z.string().datetime().optional(),
+  config: campaignShowcaseConfigSchema,
+  metadata: z.record(z.unknown()).optional(),
+});
+
 // Union schema for any section
 export const sectionSchema = z.discriminatedUnion('type', [
   heroSectionSchema,
@@ -233,6 +312,9 @@ export const sectionSchema = z.discriminatedUnion('type', [
   textBlockSectionSchema,
   imageBannerSectionSchema,
   categoryGridSectionSchema,
+  testimonialsSectionSchema,
+  newsletterSectionSchema,
+  campaignShowcaseSectionSchema,
 ]);
 
 // Homepage Schema
@@ -260,5 +342,8 @@ export type ProductCarouselSectionInput = z.infer<typeof productCarouselSectionS
 export type TextBlockSectionInput = z.infer<typeof textBlockSectionSchema>;
 export type ImageBannerSectionInput = z.infer<typeof imageBannerSectionSchema>;
 export type CategoryGridSectionInput = z.infer<typeof categoryGridSectionSchema>;
+export type TestimonialsSectionInput = z.infer<typeof testimonialsSectionSchema>;
+export type NewsletterSectionInput = z.infer<typeof newsletterSectionSchema>;
+export type CampaignShowcaseSectionInput = z.infer<typeof campaignShowcaseSectionSchema>;
 export type SectionInput = z.infer<typeof sectionSchema>;
 export type HomepageInput = z.infer<typeof homepageSchema>;
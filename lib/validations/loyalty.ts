@@ -0,0 +1,27 @@
+import { z } from 'zod';
+
+// Schema for a manual points grant (admin only)
+export const awardPointsSchema = z.object({
+  userId: z.string().uuid({ message: 'Invalid user ID' }),
+  points: z.number().int().min(1, { message: 'Points must be a positive whole number' }),
+  type: z.enum(['earned', 'bonus']).default('bonus'),
+  description: z.string().min(1, { message: 'Description is required' }).max(200),
+  orderId: z.string().uuid({ message: 'Invalid order ID' }).optional(),
+});
+
+// Schema for redeeming a reward; the cost comes from the rewards catalog
+export const redeemRewardSchema = z.object({
+  userId: z.string().uuid({ message: 'Invalid user ID' }).optional(),
+  rewardId: z.string().min(1, { message: 'Reward is required' }),
+});
+
+// Schema for GET /api/loyalty/history/[id]
+export const loyaltyHistoryQuerySchema = z.object({
+  limit: z.number().int().min(1).max(200).default(50),
+  offset: z.number().int().min(0).default(0),
+});
+
+// Types
+export type AwardPoints = z.infer<typeof awardPointsSchema>;
+export type RedeemReward = z.infer<typeof redeemRewardSchema>;
+export type LoyaltyHistoryQuery = z.infer<typeof loyaltyHistoryQuerySchema>;
@@ -0,0 +1,47 @@
+import { z } from 'zod';
+
+export const NEWSLETTER_TOPICS = ['new_arrivals', 'promotions', 'stories'] as const;
+
+export const newsletterTopicSchema = z.enum(NEWSLETTER_TOPICS);
+
+export const newsletterStatusSchema = z.enum(['pending', 'subscribed', 'unsubscribed']);
+
+// Schema for POST /api/newsletter
+export const newsletterSubscribeSchema = z.object({
+  email: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .email({ message: 'Please enter a valid email address' })
+    .max(254),
+  locale: z.enum(['en', 'he']).default('en'),
+  topics: z
+    .array(newsletterTopicSchema)
+    .min(1, { message: 'Choose at least one topic' })
+    .default(['new_arrivals', 'promotions']),
+  source: z.string().trim().max(100).optional(),
+});
+
+// Schema for POST /api/newsletter/confirm and /api/newsletter/unsubscribe
+export const newsletterTokenSchema = z.object({
+  token: z.string().trim().min(1, { message: 'Token is required' }).max(128),
+});
+
+// Schema for GET /api/admin/newsletter
+export const newsletterQuerySchema = z.object({
+  status: z.enum(['all', 'pending', 'subscribed', 'unsubscribed']).default('all'),
+  search: z.string().trim().max(100).optional(),
+  limit: z.number().int().min(1).max(100).default(20),
+  offset: z.number().int().min(0).default(0),
+});
+
+// Schema for GET /api/admin/newsletter/export; defaults to confirmed subscribers
+export const newsletterExportSchema = z.object({
+  status: z.enum(['all', 'pending', 'subscribed', 'unsubscribed']).default('subscribed'),
+});
+
+// Types
+export type NewsletterTopic = z.infer<typeof newsletterTopicSchema>;
+export type NewsletterStatus = z.infer<typeof newsletterStatusSchema>;
+export type NewsletterSubscribe = z.infer<typeof newsletterSubscribeSchema>;
+export type NewsletterQuery = z.infer<typeof newsletterQuerySchema>;
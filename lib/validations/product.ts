@@ -43,8 +43,50 @@ export const productQuerySchema = z.object({
   max_price: z.number().min(0).optional(),
 });
 
+// Base product variant (SKU) schema
+export const productVariantSchema = z
+  .object({
+    sku: z.string().min(1).max(64).optional(),
+    size: z.string().min(1).max(20).nullable().optional(),
+    color: z.string().min(1).max(40).nullable().optional(),
+    price_override: z
+      .number()
+      .min(0, { message: 'Price override must be a positive number' })
+      .nullable()
+      .optional(),
+    inventory_count: z
+      .number()
+      .int()
+      .min(0, { message: 'Inventory count must be a non-negative integer' })
+      .default(0),
+    is_active: z.boolean().default(true),
+  })
+  .refine((variant) => variant.size || variant.color, {
+    message: 'A variant needs a size or a color',
+  });
+
+// Schema for creating a product variant
+export const createProductVariantSchema = productVariantSchema;
+
+// Schema for updating a product variant (options are fixed once created)
+export const updateProductVariantSchema = z.object({
+  price_override: z
+    .number()
+    .min(0, { message: 'Price override must be a positive number' })
+    .nullable()
+    .optional(),
+  inventory_count: z
+    .number()
+    .int()
+    .min(0, { message: 'Inventory count must be a non-negative integer' })
+    .optional(),
+  is_active: z.boolean().optional(),
+});
+
 // Types
 export type Product = z.infer<typeof productSchema>;
 export type CreateProduct = z.infer<typeof createProductSchema>;
 export type UpdateProduct = z.infer<typeof updateProductSchema>;
 export type ProductQuery = z.infer<typeof productQuerySchema>;
+export type CreateProductVariant = z.infer<typeof createProductVariantSchema>;
+export type UpdateProductVariant = z.infer<typeof updateProductVariantSchema>;
@@ -0,0 +1,76 @@
+import { z } from 'zod';
+
+// Promo codes are stored upper-case
+const promoCodeSchema = z
+  .string()
+  .trim()
+  .min(3, { message: 'Code must be at least 3 characters long' })
+  .max(32, { message: 'Code must be at most 32 characters long' })
+  .regex(/^[A-Za-z0-9_-]+$/, {
+    message: 'Code can only contain letters, numbers, dashes and underscores',
+  })
+  .transform((code) => code.toUpperCase());
+
+const promotionFieldsSchema = z.object({
+  code: promoCodeSchema,
+  name: z.string().trim().min(1, { message: 'Name is required' }).max(120),
+  description: z.string().max(1000).nullable().optional(),
+  type: z.enum(['percentage', 'fixed_amount', 'free_shipping', 'buy_x_get_y']),
+  value: z.number().min(0, { message: 'Value cannot be negative' }).default(0),
+  buy_quantity: z.number().int().min(1).nullable().optional(),
+  get_quantity: z.number().int().min(1).nullable().optional(),
+  min_subtotal: z.number().min(0).default(0),
+  usage_limit: z.number().int().min(1).nullable().optional(),
+  usage_limit_per_user: z.number().int().min(1).nullable().optional(),
+  starts_at: z.string().datetime().nullable().optional(),
+  ends_at: z.string().datetime().nullable().optional(),
+  category_ids: z.array(z.string().uuid({ message: 'Invalid category ID' })).default([]),
+  collection_ids: z.array(z.string().uuid({ message: 'Invalid collection ID' })).default([]),
+  is_active: z.boolean().default(true),
+});
+
+// Schema for creating a promotion (admin only)
+export const createPromotionSchema = promotionFieldsSchema
+  .refine((promo) => promo.type !== 'percentage' || promo.value <= 100, {
+    message: 'Percentage must be at most 100',
+    path: ['value'],
+  })
+  .refine(
+    (promo) =>
+      promo.type !== 'buy_x_get_y' ||
+      (!!promo.buy_quantity && !!promo.get_quantity && promo.value <= 100),
+    {
+      message: 'Buy X get Y needs buy and get quantities and a percentage off',
+      path: ['buy_quantity'],
+    }
+  )
+  .refine(
+    (promo) =>
+      !promo.starts_at || !promo.ends_at || new Date(promo.ends_at) > new Date(promo.starts_at),
+    {
+      message: 'End date must be after the start date',
+      path: ['ends_at'],
+    }
+  );
+
+// Schema for updating a promotion; the database re-checks rule consistency
+export const updatePromotionSchema = promotionFieldsSchema.partial();
+
+// Schema for GET /api/admin/promotions
+export const promotionQuerySchema = z.object({
+  status: z.enum(['all', 'active', 'scheduled', 'expired', 'inactive']).default('all'),
+  search: z.string().trim().max(100).optional(),
+  limit: z.number().int().min(1).max(100).default(20),
+  offset: z.number().int().min(0).default(0),
+});
+
+// Schema for checking a code at checkout
+export const applyPromoCodeSchema = z.object({
+  code: z.string().trim().min(1, { message: 'Enter a promo code' }).max(32, 'Invalid promo code'),
+});
+
+// Types
+export type CreatePromotion = z.infer<typeof createPromotionSchema>;
+export type UpdatePromotion = z.infer<typeof updatePromotionSchema>;
+export type PromotionQuery = z.infer<typeof promotionQuerySchema>;
+export type ApplyPromoCode = z.infer<typeof applyPromoCodeSchema>;
@@ -0,0 +1,20 @@
+import { z } from 'zod';
+
+export const refundReasonSchema = z.enum([
+  'duplicate',
+  'fraudulent',
+  'requested_by_customer',
+  'other',
+]);
+
+// Schema for POST /api/admin/orders/[id]/refunds; omitting amount refunds the full balance
+export const createRefundSchema = z.object({
+  amount: z.number().positive({ message: 'Refund amount must be greater than 0' }).optional(),
+  reason: refundReasonSchema.default('requested_by_customer'),
+  notes: z.string().trim().max(1000).optional(),
+  cancelOrder: z.boolean().default(false),
+});
+
+// Types
+export type RefundReason = z.infer<typeof refundReasonSchema>;
+export type CreateRefund = z.infer<typeof createRefundSchema>;
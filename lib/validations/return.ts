@@ -0,0 +1,91 @@
+import { z } from 'zod';
+
+export const returnConditionSchema = z.enum(['unopened', 'like_new', 'used', 'damaged']);
+
+export const returnCarrierSchema = z.enum(['ups', 'fedex', 'usps', 'dhl', 'israel_post', 'hfd']);
+
+export const returnItemSchema = z.object({
+  orderItemId: z.string().uuid({ message: 'Invalid order item ID' }),
+  quantity: z.number().int().min(1, { message: 'Quantity must be at least 1' }),
+  condition: returnConditionSchema.default('unopened'),
+  reason: z.string().trim().max(500).optional(),
+});
+
+// Schema for POST /api/orders/[id]/return; omitting items returns the whole order
+export const createReturnRequestSchema = z.object({
+  reason: z
+    .string()
+    .trim()
+    .min(1, { message: 'Return reason is required' })
+    .max(1000, { message: 'Reason must be less than 1000 characters' }),
+  items: z
+    .array(returnItemSchema)
+    .min(1, { message: 'Select at least one item to return' })
+    .refine((items) => new Set(items.map((item) => item.orderItemId)).size === items.length, {
+      message: 'Each item can only be listed once',
+    })
+    .optional(),
+});
+
+// Schema for GET /api/admin/returns
+export const returnQuerySchema = z.object({
+  status: z
+    .enum(['all', 'pending', 'approved', 'rejected', 'received', 'completed'])
+    .default('all'),
+  search: z.string().trim().max(100).optional(),
+  olderThanDays: z.number().int().min(0).max(365).optional(),
+  limit: z.number().int().min(1).max(100).default(20),
+  offset: z.number().int().min(0).default(0),
+});
+
+// Schema for PATCH /api/admin/returns/[id] (admin only)
+export const updateReturnRequestSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('approve'),
+    refundAmount: z.number().min(0, { message: 'Refund cannot be negative' }).optional(),
+    returnCarrier: returnCarrierSchema.optional(),
+    returnTrackingNumber: z.string().trim().max(100).optional(),
+    returnLabelUrl: z.string().url('Must be a valid URL').optional(),
+    adminNotes: z.string().max(1000).optional(),
+  }),
+  z.object({
+    action: z.literal('reject'),
+    adminNotes: z
+      .string()
+      .trim()
+      .min(1, { message: 'Tell the customer why the return was rejected' })
+      .max(1000),
+  }),
+  z.object({
+    action: z.literal('receive'),
+    adminNotes: z.string().max(1000).optional(),
+  }),
+  z.object({
+    action: z.literal('note'),
+    adminNotes: z.string().trim().min(1, { message: 'Note cannot be empty' }).max(1000),
+  }),
+]);
+
+// Schema for POST /api/admin/returns/bulk; approvals refund the requested amount
+export const bulkReturnActionSchema = z
+  .object({
+    ids: z
+      .array(z.string().uuid({ message: 'Invalid return request ID' }))
+      .min(1, { message: 'Select at least one return' })
+      .max(50, { message: 'At most 50 returns can be updated at once' }),
+    action: z.enum(['approve', 'reject']),
+    adminNotes: z.string().trim().max(1000).optional(),
+  })
+  .refine((data) => data.action !== 'reject' || !!data.adminNotes, {
+    message: 'Tell the customers why the returns were rejected',
+    path: ['adminNotes'],
+  });
+
+// Types
+export type ReturnCondition = z.infer<typeof returnConditionSchema>;
+export type ReturnCarrier = z.infer<typeof returnCarrierSchema>;
+export type ReturnItem = z.infer<typeof returnItemSchema>;
+export type CreateReturnRequest = z.infer<typeof createReturnRequestSchema>;
+export type ReturnQuery = z.infer<typeof returnQuerySchema>;
+export type UpdateReturnRequest = z.infer<typeof updateReturnRequestSchema>;
+export type BulkReturnAction = z.infer<typeof bulkReturnActionSchema>;
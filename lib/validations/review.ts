@@ -0,0 +1,54 @@
+import { z } from 'zod';
+
+// Schema for submitting a product review
+export const createReviewSchema = z.object({
+  rating: z
+    .number()
+    .int()
+    .min(1, { message: 'Rating must be between 1 and 5' })
+    .max(5, { message: 'Rating must be between 1 and 5' }),
+  title: z
+    .string()
+    .trim()
+    .min(3, { message: 'Title must be at least 3 characters long' })
+    .max(120, { message: 'Title must be at most 120 characters long' }),
+  content: z
+    .string()
+    .trim()
+    .min(10, { message: 'Review must be at least 10 characters long' })
+    .max(5000, { message: 'Review must be at most 5000 characters long' }),
+});
+
+// Schema for GET /api/products/[id]/reviews
+export const reviewQuerySchema = z.object({
+  limit: z.number().int().min(1).max(50).default(10),
+  offset: z.number().int().min(0).default(0),
+  sortBy: z.enum(['newest', 'helpful', 'rating_desc', 'rating_asc']).default('newest'),
+  rating: z.number().int().min(1).max(5).optional(),
+  verified: z.boolean().optional(),
+});
+
+// Schema for voting on a review's helpfulness
+export const reviewVoteSchema = z.object({
+  helpful: z.boolean(),
+});
+
+// Schema for GET /api/admin/reviews
+export const adminReviewQuerySchema = z.object({
+  status: z.enum(['pending', 'approved', 'rejected']).default('pending'),
+  limit: z.number().int().min(1).max(100).default(20),
+  offset: z.number().int().min(0).default(0),
+});
+
+// Schema for approving or rejecting a review (admin only)
+export const moderateReviewSchema = z.object({
+  status: z.enum(['approved', 'rejected']),
+  moderation_notes: z.string().max(1000).optional(),
+});
+
+// Types
+export type CreateReview = z.infer<typeof createReviewSchema>;
+export type ReviewQuery = z.infer<typeof reviewQuerySchema>;
+export type ReviewVote = z.infer<typeof reviewVoteSchema>;
+export type AdminReviewQuery = z.infer<typeof adminReviewQuerySchema>;
+export type ModerateReview = z.infer<typeof moderateReviewSchema>;
@@ -0,0 +1,41 @@
+import { z } from 'zod';
+
+// Search filters schema (mirrors SearchFilters in lib/search/search-service.ts)
+export const searchFiltersSchema = z.object({
+  categories: z.array(z.string()).optional(),
+  priceRange: z
+    .object({
+      min: z.number().min(0),
+      max: z.number().min(0),
+    })
+    .refine((range) => range.min <= range.max, {
+      message: 'Minimum price must not exceed maximum price',
+    })
+    .optional(),
+  inStock: z.boolean().optional(),
+  rating: z.number().min(0).max(5).optional(),
+  sortBy: z.enum(['relevance', 'price_asc', 'price_desc', 'name', 'rating', 'newest']).optional(),
+});
+
+// Schema for POST /api/search
+export const searchRequestSchema = z.object({
+  query: z.string().max(200, 'Search query too long').default(''),
+  filters: searchFiltersSchema.default({}),
+  limit: z.number().int().min(1).max(100).default(20),
+  offset: z.number().int().min(0).default(0),
+});
+
+// Schema for GET /api/search/suggestions
+export const searchSuggestionsQuerySchema = z.object({
+  // Numeric-looking queries arrive as numbers; a missing query suggests nothing
+  q: z
+    .union([z.string(), z.number()])
+    .transform((value) => String(value).trim() || undefined)
+    .optional(),
+  limit: z.number().int().min(1).max(20).default(5),
+});
+
+// Types
+export type SearchFiltersInput = z.infer<typeof searchFiltersSchema>;
+export type SearchRequest = z.infer<typeof searchRequestSchema>;
+export type SearchSuggestionsQuery = z.infer<typeof searchSuggestionsQuerySchema>;
@@ -0,0 +1,102 @@
+import { z } from 'zod';
+
+export const STORE_SETTINGS_SECTIONS = [
+  'store',
+  'payments',
+  'shipping',
+  'notifications',
+  'security',
+] as const;
+
+export const storeSettingsSectionSchema = z.enum(STORE_SETTINGS_SECTIONS);
+
+export const storeDetailsSettingsSchema = z.object({
+  name: z.string().trim().min(1, 'Store name is required').max(100),
+  description: z.string().trim().max(500),
+  email: z.string().trim().email('Invalid email address'),
+  phone: z.string().trim().max(30),
+  address: z.string().trim().max(300),
+  currency: z.enum(['ILS', 'USD', 'EUR']),
+  language: z.enum(['he', 'en']),
+  timezone: z.string().trim().min(1).max(50),
+});
+
+export const paymentSettingsSchema = z.object({
+  acceptedCards: z.array(z.string().trim().min(1).max(30)).max(10),
+  // Percent, e.g. 17 for 17% VAT
+  taxRate: z.number().min(0, 'Tax rate cannot be negative').max(100, 'Tax rate cannot exceed 100%'),
+  // Product prices already include VAT (the norm for Israeli consumer prices)
+  pricesIncludeTax: z.boolean(),
+});
+
+const shippingOptionSchema = z.object({
+  enabled: z.boolean(),
+  cost: z.number().min(0, 'Shipping cost cannot be negative'),
+  estimatedDays: z.number().int().min(1).max(60),
+});
+
+export const shippingSettingsSchema = z
+  .object({
+    // Standard shipping is free from this subtotal; null turns free shipping off
+    freeShippingThreshold: z.number().min(0).nullable(),
+    standard: shippingOptionSchema,
+    express: shippingOptionSchema,
+    overnight: shippingOptionSchema,
+  })
+  .refine((data) => data.standard.enabled || data.express.enabled || data.overnight.enabled, {
+    message: 'At least one shipping method must be enabled',
+    path: ['standard', 'enabled'],
+  });
+
+export const notificationSettingsSchema = z.object({
+  orderNotifications: z.boolean(),
+  lowStockAlerts: z.boolean(),
+  customerEmails: z.boolean(),
+  adminEmails: z.boolean(),
+});
+
+export const securitySettingsSchema = z.object({
+  // Turns off guest checkout
+  requireAccountForCheckout: z.boolean(),
+});
+
+export const storeSettingsSchemas = {
+  store: storeDetailsSettingsSchema,
+  payments: paymentSettingsSchema,
+  shipping: shippingSettingsSchema,
+  notifications: notificationSettingsSchema,
+  security: securitySettingsSchema,
+} as const;
+
+// Schema for PATCH /api/admin/settings - one section at a time
+export const updateStoreSettingsSchema = z.discriminatedUnion('section', [
+  z.object({ section: z.literal('store'), value: storeDetailsSettingsSchema }),
+  z.object({ section: z.literal('payments'), value: paymentSettingsSchema }),
+  z.object({ section: z.literal('shipping'), value: shippingSettingsSchema }),
+  z.object({ section: z.literal('notifications'), value: notificationSettingsSchema }),
+  z.object({ section: z.literal('security'), value: securitySettingsSchema }),
+]);
+
+// Schema for GET /api/admin/settings/history
+export const storeSettingsHistoryQuerySchema = z.object({
+  section: storeSettingsSectionSchema.optional(),
+  limit: z.number().int().min(1).max(100).default(20),
+  offset: z.number().int().min(0).default(0),
+});
+
+// Types
+export type StoreSettingsSection = z.infer<typeof storeSettingsSectionSchema>;
+export type StoreDetailsSettings = z.infer<typeof storeDetailsSettingsSchema>;
+export type PaymentSettings = z.infer<typeof paymentSettingsSchema>;
+export type ShippingSettings = z.infer<typeof shippingSettingsSchema>;
+export type NotificationSettings = z.infer<typeof notificationSettingsSchema>;
+export type SecuritySettings = z.infer<typeof securitySettingsSchema>;
+export type UpdateStoreSettings = z.infer<typeof updateStoreSettingsSchema>;
+
+export interface StoreSettings {
+  store: StoreDetailsSettings;
+  payments: PaymentSettings;
+  shipping: ShippingSettings;
+  notifications: NotificationSettings;
+  security: SecuritySettings;
+}
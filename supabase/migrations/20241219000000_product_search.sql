@@ -0,0 +1,300 @@
+-- ============================================================================
+-- Product Search Migration
+-- Server-side search over products and categories with trigram-based typo
+-- tolerance, facets and suggestions. Backs /api/search and
+-- /api/search/suggestions.
+-- ============================================================================
+
+-- Trigram matching works on any script, so it covers Hebrew as well as English
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- ============================================================================
+-- PART 1: SEARCHABLE TEXT
+-- ============================================================================
+
+-- Denormalized, lower-cased text that search matches against
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS search_text TEXT;
+
+CREATE OR REPLACE FUNCTION public.build_product_search_text(
+  p_name TEXT,
+  p_description TEXT,
+  p_material TEXT,
+  p_category_name TEXT
+)
+RETURNS TEXT AS $$
+BEGIN
+  RETURN lower(concat_ws(' ', p_name, p_category_name, p_material, p_description));
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Keep search_text in sync whenever a product changes
+CREATE OR REPLACE FUNCTION public.refresh_product_search_text()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_category_name TEXT;
+BEGIN
+  SELECT name INTO v_category_name
+  FROM public.categories
+  WHERE id = NEW.category_id;
+
+  NEW.search_text := public.build_product_search_text(
+    NEW.name,
+    NEW.description,
+    NEW.material,
+    v_category_name
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS refresh_product_search_text_trigger ON public.products;
+CREATE TRIGGER refresh_product_search_text_trigger
+  BEFORE INSERT OR UPDATE OF name, description, material, category_id ON public.products
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_product_search_text();
+
+-- Renaming a category changes the search text of every product in it
+CREATE OR REPLACE FUNCTION public.refresh_category_products_search_text()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.name IS DISTINCT FROM NEW.name THEN
+    UPDATE public.products
+    SET search_text = public.build_product_search_text(name, description, material, NEW.name)
+    WHERE category_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS refresh_category_products_search_text_trigger ON public.categories;
+CREATE TRIGGER refresh_category_products_search_text_trigger
+  AFTER UPDATE OF name ON public.categories
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_category_products_search_text();
+
+-- Backfill existing products
+UPDATE public.products p
+SET search_text = public.build_product_search_text(p.name, p.description, p.material, c.name)
+FROM public.categories c
+WHERE c.id = p.category_id;
+
+UPDATE public.products
+SET search_text = public.build_product_search_text(name, description, material, NULL)
+WHERE search_text IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_products_search_text_trgm
+  ON public.products USING GIN (search_text gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_products_name_trgm
+  ON public.products USING GIN (lower(name) gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_categories_name_trgm
+  ON public.categories USING GIN (lower(name) gin_trgm_ops);
+
+-- ============================================================================
+-- PART 2: SEARCH FUNCTIONS
+-- ============================================================================
+
+-- Full search: results page, total count and facets in a single round trip.
+-- p_terms are the tokenized query terms (stop words already removed by the API).
+-- A product matches when every term is found in its search text, either as a
+-- substring or as a close trigram match (typo tolerance).
+CREATE OR REPLACE FUNCTION public.search_products(
+  p_query TEXT,
+  p_terms TEXT[],
+  p_category_ids UUID[] DEFAULT NULL,
+  p_min_price DECIMAL DEFAULT NULL,
+  p_max_price DECIMAL DEFAULT NULL,
+  p_in_stock BOOLEAN DEFAULT FALSE,
+  p_sort TEXT DEFAULT 'relevance',
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_query TEXT := lower(trim(COALESCE(p_query, '')));
+  v_terms TEXT[] := COALESCE(p_terms, ARRAY[]::TEXT[]);
+  v_result JSONB;
+BEGIN
+  WITH matched AS (
+    SELECT
+      p.id,
+      p.name,
+      p.description,
+      p.price,
+      p.image_url,
+      p.category_id,
+      p.inventory_count,
+      p.created_at,
+      c.name AS category_name,
+      (
+        -- Whole-query similarity against the name carries the most weight
+        CASE WHEN v_query = '' THEN 0 ELSE similarity(lower(p.name), v_query) * 20 END
+        + CASE WHEN v_query <> '' AND lower(p.name) LIKE v_query || '%' THEN 10 ELSE 0 END
+        + COALESCE((
+          SELECT SUM(
+            CASE
+              WHEN lower(p.name) LIKE '%' || t || '%' THEN 8
+              WHEN p.search_text LIKE '%' || t || '%' THEN 5
+              ELSE word_similarity(t, p.search_text) * 4
+            END
+          )
+          FROM unnest(v_terms) AS t
+        ), 0)
+      )::REAL AS relevance
+    FROM public.products p
+    LEFT JOIN public.categories c ON c.id = p.category_id
+    WHERE NOT EXISTS (
+      SELECT 1
+      FROM unnest(v_terms) AS t
+      WHERE p.search_text NOT LIKE '%' || t || '%'
+        AND word_similarity(t, p.search_text) < 0.5
+    )
+      AND (p_min_price IS NULL OR p.price >= p_min_price)
+      AND (p_max_price IS NULL OR p.price <= p_max_price)
+      AND (NOT COALESCE(p_in_stock, FALSE) OR p.inventory_count > 0)
+  ),
+  -- Category facet ignores the category filter so shoppers can switch categories
+  filtered AS (
+    SELECT *
+    FROM matched
+    WHERE p_category_ids IS NULL
+      OR cardinality(p_category_ids) = 0
+      OR category_id = ANY(p_category_ids)
+  ),
+  page AS (
+    SELECT *
+    FROM filtered
+    ORDER BY
+      CASE WHEN p_sort = 'price_asc' THEN price END ASC,
+      CASE WHEN p_sort = 'price_desc' THEN price END DESC,
+      CASE WHEN p_sort = 'name' THEN name END ASC,
+      CASE WHEN p_sort = 'newest' THEN created_at END DESC,
+      relevance DESC,
+      created_at DESC
+    LIMIT p_limit
+    OFFSET p_offset
+  ),
+  price_buckets AS (
+    SELECT *
+    FROM (
+      VALUES (0, 100), (100, 200), (200, 500), (500, 1000), (1000, NULL)
+    ) AS b(min_price, max_price)
+  )
+  SELECT jsonb_build_object(
+    'results', COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', pg.id,
+          'name', pg.name,
+          'description', COALESCE(pg.description, ''),
+          'price', pg.price,
+          'image_url', COALESCE(pg.image_url, ''),
+          'category_id', pg.category_id,
+          'inventory_count', pg.inventory_count,
+          'relevanceScore', pg.relevance,
+          'category', CASE
+            WHEN pg.category_id IS NULL THEN NULL
+            ELSE jsonb_build_object('id', pg.category_id, 'name', pg.category_name)
+          END
+        )
+      )
+      FROM page pg
+    ), '[]'::JSONB),
+    'total', (SELECT COUNT(*) FROM filtered),
+    'facets', jsonb_build_object(
+      'categories', COALESCE((
+        SELECT jsonb_agg(
+          jsonb_build_object('id', category_id, 'name', category_name, 'count', cnt)
+          ORDER BY cnt DESC, category_name
+        )
+        FROM (
+          SELECT category_id, category_name, COUNT(*) AS cnt
+          FROM matched
+          WHERE category_id IS NOT NULL
+          GROUP BY category_id, category_name
+        ) cat
+      ), '[]'::JSONB),
+      'priceRanges', COALESCE((
+        SELECT jsonb_agg(
+          jsonb_build_object(
+            'min', b.min_price,
+            -- Open-ended top bucket reports the highest matching price
+            'max', COALESCE(b.max_price, (SELECT MAX(price) FROM filtered)),
+            'count', b.cnt
+          )
+          ORDER BY b.min_price
+        )
+        FROM (
+          SELECT
+            pb.min_price,
+            pb.max_price,
+            (
+              SELECT COUNT(*)
+              FROM filtered f
+              WHERE f.price >= pb.min_price
+                AND (pb.max_price IS NULL OR f.price < pb.max_price)
+            ) AS cnt
+          FROM price_buckets pb
+        ) b
+        WHERE b.cnt > 0
+      ), '[]'::JSONB),
+      -- Populated once products carry ratings
+      'ratings', '[]'::JSONB
+    )
+  )
+  INTO v_result;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.search_products TO anon, authenticated;
+
+COMMENT ON FUNCTION public.search_products IS
+  'Typo-tolerant product search returning results, total and facets as JSONB';
+
+-- Query suggestions from product and category names ("did you mean")
+CREATE OR REPLACE FUNCTION public.search_suggestions(
+  p_query TEXT,
+  p_limit INTEGER DEFAULT 5
+)
+RETURNS TABLE(
+  suggestion TEXT,
+  score REAL
+) AS $$
+DECLARE
+  v_query TEXT := lower(trim(COALESCE(p_query, '')));
+BEGIN
+  IF v_query = '' THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT s.suggestion, MAX(s.score) AS score
+  FROM (
+    SELECT
+      p.name AS suggestion,
+      (CASE WHEN lower(p.name) LIKE v_query || '%' THEN 1 ELSE 0 END
+        + word_similarity(v_query, lower(p.name)))::REAL AS score
+    FROM public.products p
+    WHERE lower(p.name) LIKE '%' || v_query || '%'
+      OR word_similarity(v_query, lower(p.name)) >= 0.4
+    UNION ALL
+    SELECT
+      c.name AS suggestion,
+      (CASE WHEN lower(c.name) LIKE v_query || '%' THEN 1 ELSE 0 END
+        + word_similarity(v_query, lower(c.name)))::REAL AS score
+    FROM public.categories c
+    WHERE lower(c.name) LIKE '%' || v_query || '%'
+      OR word_similarity(v_query, lower(c.name)) >= 0.4
+  ) s
+  GROUP BY s.suggestion
+  ORDER BY MAX(s.score) DESC, s.suggestion
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.search_suggestions TO anon, authenticated;
+
+COMMENT ON COLUMN public.products.search_text IS
+  'Lower-cased name, category, material and description used by search_products';
@@ -0,0 +1,302 @@
+-- ============================================================================
+-- Hebrew Search Normalization Migration
+-- Normalizes Hebrew text for search: strips niqqud, maps final letters to their
+-- regular forms and indexes prefix-stripped word stems. Mirrors
+-- lib/search/hebrew-text.ts so indexed text and API query terms line up.
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: NORMALIZATION FUNCTIONS
+-- ============================================================================
+
+-- Lower-case, strip niqqud/cantillation, split on maqaf, drop geresh/gershayim
+-- and replace final letters (ך ם ן ף ץ) with their regular forms
+CREATE OR REPLACE FUNCTION public.normalize_search_text(p_text TEXT)
+RETURNS TEXT AS $$
+BEGIN
+  IF p_text IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN translate(
+    regexp_replace(
+      replace(lower(p_text), U&'\05BE', ' '),
+      U&'[\0591-\05BD\05BF\05C1\05C2\05C4\05C5\05C7\05F3\05F4]',
+      '',
+      'g'
+    ),
+    'ךםןףץ',
+    'כמנפצ'
+  );
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Strip up to three leading prefix letters (ה ו ב ל מ ש) while at least three
+-- letters remain
+CREATE OR REPLACE FUNCTION public.strip_hebrew_prefixes(p_word TEXT)
+RETURNS TEXT AS $$
+DECLARE
+  v_stem TEXT := p_word;
+  v_stripped INTEGER := 0;
+BEGIN
+  WHILE v_stripped < 3
+    AND length(v_stem) > 3
+    AND left(v_stem, 1) IN ('ה', 'ו', 'ב', 'ל', 'מ', 'ש')
+  LOOP
+    v_stem := substr(v_stem, 2);
+    v_stripped := v_stripped + 1;
+  END LOOP;
+
+  RETURN v_stem;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Normalized text followed by the prefix-stripped stems of its Hebrew words
+CREATE OR REPLACE FUNCTION public.build_product_search_text(
+  p_name TEXT,
+  p_description TEXT,
+  p_material TEXT,
+  p_category_name TEXT
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_text TEXT;
+  v_stems TEXT;
+BEGIN
+  v_text := public.normalize_search_text(
+    concat_ws(' ', p_name, p_category_name, p_material, p_description)
+  );
+
+  SELECT string_agg(DISTINCT public.strip_hebrew_prefixes(word), ' ')
+  INTO v_stems
+  FROM regexp_split_to_table(v_text, '[^a-z0-9_א-ת]+') AS word
+  WHERE public.strip_hebrew_prefixes(word) <> word;
+
+  RETURN concat_ws(' ', v_text, v_stems);
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Re-index existing products with the normalized text
+UPDATE public.products p
+SET search_text = public.build_product_search_text(p.name, p.description, p.material, c.name)
+FROM public.categories c
+WHERE c.id = p.category_id;
+
+UPDATE public.products
+SET search_text = public.build_product_search_text(name, description, material, NULL)
+WHERE category_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_products_name_normalized_trgm
+  ON public.products USING GIN (public.normalize_search_text(name) gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_categories_name_normalized_trgm
+  ON public.categories USING GIN (public.normalize_search_text(name) gin_trgm_ops);
+
+-- ============================================================================
+-- PART 2: SEARCH FUNCTIONS
+-- ============================================================================
+
+-- Full search: results page, total count and facets in a single round trip.
+-- p_terms are the tokenized query terms (normalized, prefixes and stop words
+-- already removed by the API).
+-- A product matches when every term is found in its search text, either as a
+-- substring or as a close trigram match (typo tolerance).
+CREATE OR REPLACE FUNCTION public.search_products(
+  p_query TEXT,
+  p_terms TEXT[],
+  p_category_ids UUID[] DEFAULT NULL,
+  p_min_price DECIMAL DEFAULT NULL,
+  p_max_price DECIMAL DEFAULT NULL,
+  p_in_stock BOOLEAN DEFAULT FALSE,
+  p_sort TEXT DEFAULT 'relevance',
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_query TEXT := public.normalize_search_text(trim(COALESCE(p_query, '')));
+  v_terms TEXT[] := COALESCE(p_terms, ARRAY[]::TEXT[]);
+  v_result JSONB;
+BEGIN
+  WITH matched AS (
+    SELECT
+      p.id,
+      p.name,
+      p.description,
+      p.price,
+      p.image_url,
+      p.category_id,
+      p.inventory_count,
+      p.created_at,
+      c.name AS category_name,
+      (
+        -- Whole-query similarity against the name carries the most weight
+        CASE WHEN v_query = '' THEN 0 ELSE similarity(public.normalize_search_text(p.name), v_query) * 20 END
+        + CASE WHEN v_query <> '' AND public.normalize_search_text(p.name) LIKE v_query || '%' THEN 10 ELSE 0 END
+        + COALESCE((
+          SELECT SUM(
+            CASE
+              WHEN public.normalize_search_text(p.name) LIKE '%' || t || '%' THEN 8
+              WHEN p.search_text LIKE '%' || t || '%' THEN 5
+              ELSE word_similarity(t, p.search_text) * 4
+            END
+          )
+          FROM unnest(v_terms) AS t
+        ), 0)
+      )::REAL AS relevance
+    FROM public.products p
+    LEFT JOIN public.categories c ON c.id = p.category_id
+    WHERE NOT EXISTS (
+      SELECT 1
+      FROM unnest(v_terms) AS t
+      WHERE p.search_text NOT LIKE '%' || t || '%'
+        AND word_similarity(t, p.search_text) < 0.5
+    )
+      AND (p_min_price IS NULL OR p.price >= p_min_price)
+      AND (p_max_price IS NULL OR p.price <= p_max_price)
+      AND (NOT COALESCE(p_in_stock, FALSE) OR p.inventory_count > 0)
+  ),
+  -- Category facet ignores the category filter so shoppers can switch categories
+  filtered AS (
+    SELECT *
+    FROM matched
+    WHERE p_category_ids IS NULL
+      OR cardinality(p_category_ids) = 0
+      OR category_id = ANY(p_category_ids)
+  ),
+  page AS (
+    SELECT *
+    FROM filtered
+    ORDER BY
+      CASE WHEN p_sort = 'price_asc' THEN price END ASC,
+      CASE WHEN p_sort = 'price_desc' THEN price END DESC,
+      CASE WHEN p_sort = 'name' THEN name END ASC,
+      CASE WHEN p_sort = 'newest' THEN created_at END DESC,
+      relevance DESC,
+      created_at DESC
+    LIMIT p_limit
+    OFFSET p_offset
+  ),
+  price_buckets AS (
+    SELECT *
+    FROM (
+      VALUES (0, 100), (100, 200), (200, 500), (500, 1000), (1000, NULL)
+    ) AS b(min_price, max_price)
+  )
+  SELECT jsonb_build_object(
+    'results', COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', pg.id,
+          'name', pg.name,
+          'description', COALESCE(pg.description, ''),
+          'price', pg.price,
+          'image_url', COALESCE(pg.image_url, ''),
+          'category_id', pg.category_id,
+          'inventory_count', pg.inventory_count,
+          'relevanceScore', pg.relevance,
+          'category', CASE
+            WHEN pg.category_id IS NULL THEN NULL
+            ELSE jsonb_build_object('id', pg.category_id, 'name', pg.category_name)
+          END
+        )
+      )
+      FROM page pg
+    ), '[]'::JSONB),
+    'total', (SELECT COUNT(*) FROM filtered),
+    'facets', jsonb_build_object(
+      'categories', COALESCE((
+        SELECT jsonb_agg(
+          jsonb_build_object('id', category_id, 'name', category_name, 'count', cnt)
+          ORDER BY cnt DESC, category_name
+        )
+        FROM (
+          SELECT category_id, category_name, COUNT(*) AS cnt
+          FROM matched
+          WHERE category_id IS NOT NULL
+          GROUP BY category_id, category_name
+        ) cat
+      ), '[]'::JSONB),
+      'priceRanges', COALESCE((
+        SELECT jsonb_agg(
+          jsonb_build_object(
+            'min', b.min_price,
+            -- Open-ended top bucket reports the highest matching price
+            'max', COALESCE(b.max_price, (SELECT MAX(price) FROM filtered)),
+            'count', b.cnt
+          )
+          ORDER BY b.min_price
+        )
+        FROM (
+          SELECT
+            pb.min_price,
+            pb.max_price,
+            (
+              SELECT COUNT(*)
+              FROM filtered f
+              WHERE f.price >= pb.min_price
+                AND (pb.max_price IS NULL OR f.price < pb.max_price)
+            ) AS cnt
+          FROM price_buckets pb
+        ) b
+        WHERE b.cnt > 0
+      ), '[]'::JSONB),
+      -- Populated once products carry ratings
+      'ratings', '[]'::JSONB
+    )
+  )
+  INTO v_result;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.search_products TO anon, authenticated;
+
+COMMENT ON FUNCTION public.search_products IS
+  'Typo-tolerant product search returning results, total and facets as JSONB';
+
+-- Query suggestions from product and category names ("did you mean")
+CREATE OR REPLACE FUNCTION public.search_suggestions(
+  p_query TEXT,
+  p_limit INTEGER DEFAULT 5
+)
+RETURNS TABLE(
+  suggestion TEXT,
+  score REAL
+) AS $$
+DECLARE
+  v_query TEXT := public.normalize_search_text(trim(COALESCE(p_query, '')));
+BEGIN
+  IF v_query = '' THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT s.suggestion, MAX(s.score) AS score
+  FROM (
+    SELECT
+      p.name AS suggestion,
+      (CASE WHEN public.normalize_search_text(p.name) LIKE v_query || '%' THEN 1 ELSE 0 END
+        + word_similarity(v_query, public.normalize_search_text(p.name)))::REAL AS score
+    FROM public.products p
+    WHERE public.normalize_search_text(p.name) LIKE '%' || v_query || '%'
+      OR word_similarity(v_query, public.normalize_search_text(p.name)) >= 0.4
+    UNION ALL
+    SELECT
+      c.name AS suggestion,
+      (CASE WHEN public.normalize_search_text(c.name) LIKE v_query || '%' THEN 1 ELSE 0 END
+        + word_similarity(v_query, public.normalize_search_text(c.name)))::REAL AS score
+    FROM public.categories c
+    WHERE public.normalize_search_text(c.name) LIKE '%' || v_query || '%'
+      OR word_similarity(v_query, public.normalize_search_text(c.name)) >= 0.4
+  ) s
+  GROUP BY s.suggestion
+  ORDER BY MAX(s.score) DESC, s.suggestion
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.search_suggestions TO anon, authenticated;
+
+COMMENT ON FUNCTION public.normalize_search_text IS
+  'Search normalization for Hebrew and English text (mirrors lib/search/hebrew-text.ts)';
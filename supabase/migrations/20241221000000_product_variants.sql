@@ -0,0 +1,435 @@
+-- ============================================================================
+-- Product Variants Migration
+-- Size × color SKUs with per-variant inventory and optional price overrides.
+-- Cart items, order items and the inventory functions become variant-aware;
+-- products.inventory_count stays as the total across a product's variants.
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: VARIANTS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.product_variants (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  sku TEXT NOT NULL UNIQUE,
+  size TEXT,
+  color TEXT,
+  price_override DECIMAL(10, 2) CHECK (price_override IS NULL OR price_override >= 0),
+  inventory_count INTEGER NOT NULL DEFAULT 0 CHECK (inventory_count >= 0),
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- One variant per size/color combination of a product
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_variants_options
+  ON public.product_variants(product_id, COALESCE(size, ''), COALESCE(color, ''));
+CREATE INDEX IF NOT EXISTS idx_product_variants_product ON public.product_variants(product_id);
+CREATE INDEX IF NOT EXISTS idx_product_variants_active
+  ON public.product_variants(product_id)
+  WHERE is_active = TRUE;
+
+ALTER TABLE public.product_variants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Product variants are viewable by everyone" ON public.product_variants
+  FOR SELECT USING (true);
+
+CREATE POLICY "Admins can manage product variants" ON public.product_variants
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = auth.uid() AND users.role = 'admin'
+    )
+  );
+
+CREATE TRIGGER handle_product_variants_updated_at
+  BEFORE UPDATE ON public.product_variants
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- Keep products.inventory_count equal to the stock of its active variants so
+-- product-level listings, search and stock badges stay correct
+CREATE OR REPLACE FUNCTION public.sync_product_inventory_from_variants()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_product_id UUID := COALESCE(NEW.product_id, OLD.product_id);
+BEGIN
+  UPDATE public.products
+  SET inventory_count = COALESCE((
+    SELECT SUM(inventory_count)
+    FROM public.product_variants
+    WHERE product_id = v_product_id AND is_active = TRUE
+  ), 0)
+  WHERE id = v_product_id;
+
+  -- A variant moved to another product
+  IF TG_OP = 'UPDATE' AND OLD.product_id IS DISTINCT FROM NEW.product_id THEN
+    UPDATE public.products
+    SET inventory_count = COALESCE((
+      SELECT SUM(inventory_count)
+      FROM public.product_variants
+      WHERE product_id = OLD.product_id AND is_active = TRUE
+    ), 0)
+    WHERE id = OLD.product_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS sync_product_inventory_from_variants_trigger ON public.product_variants;
+CREATE TRIGGER sync_product_inventory_from_variants_trigger
+  AFTER INSERT OR UPDATE OF product_id, inventory_count, is_active OR DELETE
+  ON public.product_variants
+  FOR EACH ROW EXECUTE FUNCTION public.sync_product_inventory_from_variants();
+
+-- ============================================================================
+-- PART 2: VARIANT REFERENCES ON CART AND ORDER ITEMS
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'cart_items' AND column_name = 'variant_id'
+  ) THEN
+    ALTER TABLE public.cart_items
+      ADD COLUMN variant_id UUID REFERENCES public.product_variants(id) ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'order_items' AND column_name = 'variant_id'
+  ) THEN
+    ALTER TABLE public.order_items
+      ADD COLUMN variant_id UUID REFERENCES public.product_variants(id) ON DELETE SET NULL;
+  END IF;
+
+  -- SKU snapshot so order history survives variant deletion
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'order_items' AND column_name = 'sku'
+  ) THEN
+    ALTER TABLE public.order_items ADD COLUMN sku TEXT;
+  END IF;
+END $$;
+
+-- The same product can now sit in the cart once per variant
+ALTER TABLE public.cart_items DROP CONSTRAINT IF EXISTS cart_items_user_id_product_id_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cart_items_user_product_variant
+  ON public.cart_items(user_id, product_id, COALESCE(variant_id, '00000000-0000-0000-0000-000000000000'::UUID));
+
+CREATE INDEX IF NOT EXISTS idx_cart_items_variant ON public.cart_items(variant_id);
+CREATE INDEX IF NOT EXISTS idx_order_items_variant ON public.order_items(variant_id);
+
+-- ============================================================================
+-- PART 3: VARIANT-AWARE INVENTORY FUNCTIONS
+-- ============================================================================
+
+-- Replace the two-argument versions so calls without a variant stay unambiguous
+DROP FUNCTION IF EXISTS restore_product_inventory(UUID, INTEGER);
+DROP FUNCTION IF EXISTS reduce_product_inventory(UUID, INTEGER);
+
+-- Function to restore product inventory (per variant when one is given)
+CREATE OR REPLACE FUNCTION restore_product_inventory(
+  p_product_id UUID,
+  p_quantity INTEGER,
+  p_variant_id UUID DEFAULT NULL
+)
+RETURNS VOID AS $$
+BEGIN
+  IF p_variant_id IS NOT NULL THEN
+    -- Product total follows through the variant sync trigger
+    UPDATE public.product_variants
+    SET inventory_count = inventory_count + p_quantity
+    WHERE id = p_variant_id AND product_id = p_product_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Variant with ID % not found for product %', p_variant_id, p_product_id;
+    END IF;
+
+    RETURN;
+  END IF;
+
+  UPDATE public.products
+  SET inventory_count = inventory_count + p_quantity
+  WHERE id = p_product_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product with ID % not found', p_product_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION restore_product_inventory TO authenticated;
+GRANT EXECUTE ON FUNCTION restore_product_inventory TO service_role;
+
+-- Function to reduce product inventory (per variant when one is given)
+CREATE OR REPLACE FUNCTION reduce_product_inventory(
+  p_product_id UUID,
+  p_quantity INTEGER,
+  p_variant_id UUID DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  v_current_inventory INTEGER;
+BEGIN
+  IF p_variant_id IS NOT NULL THEN
+    SELECT inventory_count INTO v_current_inventory
+    FROM public.product_variants
+    WHERE id = p_variant_id AND product_id = p_product_id AND is_active = TRUE
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Variant with ID % not found for product %', p_variant_id, p_product_id;
+    END IF;
+
+    IF v_current_inventory < p_quantity THEN
+      RAISE EXCEPTION 'Insufficient inventory. Available: %, Requested: %', v_current_inventory, p_quantity;
+    END IF;
+
+    UPDATE public.product_variants
+    SET inventory_count = inventory_count - p_quantity
+    WHERE id = p_variant_id;
+
+    RETURN;
+  END IF;
+
+  -- Products sold by variant cannot be reduced without knowing which one
+  IF EXISTS (
+    SELECT 1 FROM public.product_variants
+    WHERE product_id = p_product_id AND is_active = TRUE
+  ) THEN
+    RAISE EXCEPTION 'Product % has variants; a variant must be specified', p_product_id;
+  END IF;
+
+  SELECT inventory_count INTO v_current_inventory
+  FROM public.products
+  WHERE id = p_product_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product with ID % not found', p_product_id;
+  END IF;
+
+  IF v_current_inventory < p_quantity THEN
+    RAISE EXCEPTION 'Insufficient inventory. Available: %, Requested: %', v_current_inventory, p_quantity;
+  END IF;
+
+  UPDATE public.products
+  SET inventory_count = inventory_count - p_quantity
+  WHERE id = p_product_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION reduce_product_inventory TO authenticated;
+GRANT EXECUTE ON FUNCTION reduce_product_inventory TO service_role;
+
+-- ============================================================================
+-- PART 4: VARIANT-AWARE ORDER FUNCTIONS
+-- ============================================================================
+
+-- Function to create order with items atomically (variant prices and stock)
+CREATE OR REPLACE FUNCTION create_order_with_items(
+  p_user_id UUID,
+  p_shipping_address JSONB,
+  p_billing_address JSONB,
+  p_payment_method_id TEXT,
+  p_shipping_method TEXT,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS TABLE(
+  id UUID,
+  order_number TEXT,
+  status TEXT,
+  total DECIMAL,
+  estimated_delivery DATE
+) AS $$
+DECLARE
+  v_order_id UUID;
+  v_order_number TEXT;
+  v_total DECIMAL := 0;
+  v_shipping_cost DECIMAL := 0;
+  v_tax DECIMAL := 0;
+  v_estimated_delivery DATE;
+  cart_item RECORD;
+BEGIN
+  -- Generate order number
+  v_order_number := generate_order_number();
+
+  -- Calculate estimated delivery based on shipping method
+  CASE p_shipping_method
+    WHEN 'standard' THEN v_estimated_delivery := CURRENT_DATE + INTERVAL '5-7 days';
+    WHEN 'express' THEN v_estimated_delivery := CURRENT_DATE + INTERVAL '2-3 days';
+    WHEN 'overnight' THEN v_estimated_delivery := CURRENT_DATE + INTERVAL '1 day';
+    ELSE v_estimated_delivery := CURRENT_DATE + INTERVAL '5-7 days';
+  END CASE;
+
+  -- Calculate shipping cost
+  CASE p_shipping_method
+    WHEN 'standard' THEN v_shipping_cost := 0.00;
+    WHEN 'express' THEN v_shipping_cost := 9.99;
+    WHEN 'overnight' THEN v_shipping_cost := 19.99;
+    ELSE v_shipping_cost := 0.00;
+  END CASE;
+
+  -- Calculate total from cart items (variant price overrides the product price)
+  FOR cart_item IN
+    SELECT
+      ci.product_id,
+      ci.variant_id,
+      ci.quantity,
+      COALESCE(v.price_override, p.price) AS price,
+      CASE WHEN ci.variant_id IS NULL THEN p.inventory_count ELSE v.inventory_count END
+        AS inventory_count,
+      CASE WHEN ci.variant_id IS NULL THEN p.name ELSE p.name || ' (' || v.sku || ')' END
+        AS name,
+      ci.variant_id IS NOT NULL AND (v.id IS NULL OR NOT v.is_active) AS variant_unavailable
+    FROM cart_items ci
+    JOIN products p ON ci.product_id = p.id
+    LEFT JOIN product_variants v ON ci.variant_id = v.id
+    WHERE ci.user_id = p_user_id
+  LOOP
+    IF cart_item.variant_unavailable THEN
+      RAISE EXCEPTION 'Variant is no longer available for product: %', cart_item.name;
+    END IF;
+
+    -- Check inventory
+    IF cart_item.inventory_count < cart_item.quantity THEN
+      RAISE EXCEPTION 'Insufficient inventory for product: %', cart_item.name;
+    END IF;
+
+    v_total := v_total + (cart_item.price * cart_item.quantity);
+  END LOOP;
+
+  -- Calculate tax (8% for now)
+  v_tax := v_total * 0.08;
+  v_total := v_total + v_shipping_cost + v_tax;
+
+  -- Create the order
+  INSERT INTO public.orders (
+    user_id,
+    order_number,
+    status,
+    total,
+    shipping_address,
+    payment_intent_id,
+    estimated_delivery,
+    notes
+  ) VALUES (
+    p_user_id,
+    v_order_number,
+    'pending',
+    v_total,
+    p_shipping_address,
+    p_payment_method_id,
+    v_estimated_delivery,
+    p_notes
+  ) RETURNING orders.id INTO v_order_id;
+
+  -- Create order items and update inventory
+  FOR cart_item IN
+    SELECT ci.product_id, ci.variant_id, ci.quantity, COALESCE(v.price_override, p.price) AS price, v.sku
+    FROM cart_items ci
+    JOIN products p ON ci.product_id = p.id
+    LEFT JOIN product_variants v ON ci.variant_id = v.id
+    WHERE ci.user_id = p_user_id
+  LOOP
+    -- Insert order item
+    INSERT INTO public.order_items (
+      order_id,
+      product_id,
+      variant_id,
+      sku,
+      quantity,
+      price
+    ) VALUES (
+      v_order_id,
+      cart_item.product_id,
+      cart_item.variant_id,
+      cart_item.sku,
+      cart_item.quantity,
+      cart_item.price
+    );
+
+    -- Update product (or variant) inventory
+    PERFORM reduce_product_inventory(
+      cart_item.product_id,
+      cart_item.quantity,
+      cart_item.variant_id
+    );
+  END LOOP;
+
+  -- Clear the user's cart
+  DELETE FROM public.cart_items WHERE user_id = p_user_id;
+
+  -- Return order details
+  RETURN QUERY
+  SELECT
+    v_order_id,
+    v_order_number,
+    'pending'::TEXT,
+    v_total,
+    v_estimated_delivery;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION create_order_with_items TO authenticated;
+
+-- Function to cancel order and restore inventory (per variant)
+CREATE OR REPLACE FUNCTION cancel_order_with_inventory_restore(
+  p_order_id UUID,
+  p_user_id UUID,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  order_item RECORD;
+BEGIN
+  -- Verify order belongs to user and can be cancelled
+  IF NOT EXISTS (
+    SELECT 1 FROM public.orders
+    WHERE id = p_order_id
+      AND user_id = p_user_id
+      AND status IN ('pending', 'processing')
+  ) THEN
+    RAISE EXCEPTION 'Order not found or cannot be cancelled';
+  END IF;
+
+  -- Update order status to cancelled
+  UPDATE public.orders
+  SET
+    status = 'cancelled',
+    cancellation_reason = p_reason,
+    updated_at = NOW()
+  WHERE id = p_order_id AND user_id = p_user_id;
+
+  -- Restore inventory for each order item
+  FOR order_item IN
+    SELECT oi.product_id, oi.variant_id, oi.quantity
+    FROM public.order_items oi
+    WHERE oi.order_id = p_order_id
+  LOOP
+    PERFORM restore_product_inventory(
+      order_item.product_id,
+      order_item.quantity,
+      order_item.variant_id
+    );
+  END LOOP;
+
+  INSERT INTO public.order_status_history (order_id, status, notes, created_at)
+  VALUES (p_order_id, 'cancelled', p_reason, NOW())
+  ON CONFLICT DO NOTHING;
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE EXCEPTION 'Failed to cancel order: %', SQLERRM;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION cancel_order_with_inventory_restore TO authenticated;
+
+COMMENT ON TABLE public.product_variants IS
+  'Sellable size/color SKUs of a product with their own stock and optional price';
+COMMENT ON COLUMN public.product_variants.price_override IS
+  'Replaces products.price for this variant when set';
@@ -0,0 +1,429 @@
+-- ============================================================================
+-- Product Reviews Migration
+-- Customer reviews with moderation, helpfulness voting and verified-purchase
+-- detection from order_items. Adds per-product rating aggregates and teaches
+-- search_products to filter, sort and facet by rating.
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: REVIEWS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.product_reviews (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  rating INTEGER NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  title TEXT NOT NULL,
+  content TEXT NOT NULL,
+  verified_purchase BOOLEAN NOT NULL DEFAULT FALSE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  moderation_notes TEXT,
+  moderated_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  moderated_at TIMESTAMP WITH TIME ZONE,
+  helpful_count INTEGER NOT NULL DEFAULT 0,
+  unhelpful_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  -- One review per customer per product
+  UNIQUE(product_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_reviews_product ON public.product_reviews(product_id);
+CREATE INDEX IF NOT EXISTS idx_product_reviews_user ON public.product_reviews(user_id);
+CREATE INDEX IF NOT EXISTS idx_product_reviews_status ON public.product_reviews(status);
+CREATE INDEX IF NOT EXISTS idx_product_reviews_approved
+  ON public.product_reviews(product_id, rating)
+  WHERE status = 'approved';
+
+ALTER TABLE public.product_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Approved reviews are viewable by everyone" ON public.product_reviews
+  FOR SELECT USING (status = 'approved');
+
+CREATE POLICY "Users can view their own reviews" ON public.product_reviews
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own reviews" ON public.product_reviews
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own reviews" ON public.product_reviews
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can manage product reviews" ON public.product_reviews
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = auth.uid() AND users.role = 'admin'
+    )
+  );
+
+CREATE TRIGGER handle_product_reviews_updated_at
+  BEFORE UPDATE ON public.product_reviews
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- New reviews always start pending with no votes, and are flagged as verified
+-- when the reviewer has a paid, non-cancelled order containing the product
+CREATE OR REPLACE FUNCTION public.prepare_product_review()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_order_id UUID;
+BEGIN
+  SELECT o.id INTO v_order_id
+  FROM public.order_items oi
+  JOIN public.orders o ON o.id = oi.order_id
+  WHERE oi.product_id = NEW.product_id
+    AND o.user_id = NEW.user_id
+    AND o.status IN ('processing', 'shipped', 'delivered', 'completed')
+  ORDER BY o.created_at DESC
+  LIMIT 1;
+
+  NEW.verified_purchase := v_order_id IS NOT NULL;
+  NEW.order_id := v_order_id;
+  NEW.status := 'pending';
+  NEW.helpful_count := 0;
+  NEW.unhelpful_count := 0;
+  NEW.moderation_notes := NULL;
+  NEW.moderated_by := NULL;
+  NEW.moderated_at := NULL;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS prepare_product_review_trigger ON public.product_reviews;
+CREATE TRIGGER prepare_product_review_trigger
+  BEFORE INSERT ON public.product_reviews
+  FOR EACH ROW EXECUTE FUNCTION public.prepare_product_review();
+
+-- Approved reviews with the reviewer's public profile. Customers can only read
+-- their own users row, so the view runs as its owner (not security_invoker) and
+-- exposes just the name and avatar.
+CREATE OR REPLACE VIEW public.approved_product_reviews AS
+SELECT
+  r.id,
+  r.product_id,
+  r.user_id,
+  r.rating,
+  r.title,
+  r.content,
+  r.verified_purchase,
+  r.helpful_count,
+  r.unhelpful_count,
+  r.created_at,
+  u.full_name AS reviewer_name,
+  u.avatar_url AS reviewer_avatar_url
+FROM public.product_reviews r
+JOIN public.users u ON u.id = r.user_id
+WHERE r.status = 'approved';
+
+GRANT SELECT ON public.approved_product_reviews TO anon, authenticated;
+
+COMMENT ON VIEW public.approved_product_reviews IS
+  'Approved product reviews with the reviewer name and avatar, for the storefront';
+
+-- ============================================================================
+-- PART 2: HELPFULNESS VOTES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.review_votes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  review_id UUID NOT NULL REFERENCES public.product_reviews(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  is_helpful BOOLEAN NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  UNIQUE(review_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_review_votes_review ON public.review_votes(review_id);
+
+ALTER TABLE public.review_votes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own review votes" ON public.review_votes
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage their own review votes" ON public.review_votes
+  FOR ALL USING (auth.uid() = user_id);
+
+CREATE TRIGGER handle_review_votes_updated_at
+  BEFORE UPDATE ON public.review_votes
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- Keep the denormalized helpful/unhelpful counts on the review in sync
+CREATE OR REPLACE FUNCTION public.refresh_review_vote_counts()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_review_id UUID := COALESCE(NEW.review_id, OLD.review_id);
+BEGIN
+  UPDATE public.product_reviews
+  SET
+    helpful_count = (
+      SELECT COUNT(*) FROM public.review_votes
+      WHERE review_id = v_review_id AND is_helpful = TRUE
+    ),
+    unhelpful_count = (
+      SELECT COUNT(*) FROM public.review_votes
+      WHERE review_id = v_review_id AND is_helpful = FALSE
+    )
+  WHERE id = v_review_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS refresh_review_vote_counts_trigger ON public.review_votes;
+CREATE TRIGGER refresh_review_vote_counts_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON public.review_votes
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_review_vote_counts();
+
+-- ============================================================================
+-- PART 3: RATING AGGREGATES
+-- ============================================================================
+
+-- Average rating, review count and per-star histogram over approved reviews
+CREATE OR REPLACE FUNCTION public.get_product_review_summary(p_product_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_result JSONB;
+BEGIN
+  SELECT jsonb_build_object(
+    'averageRating', COALESCE(ROUND(AVG(r.rating)::NUMERIC, 1), 0),
+    'totalReviews', COUNT(r.id),
+    'ratingCounts', jsonb_build_object(
+      '1', COUNT(r.id) FILTER (WHERE r.rating = 1),
+      '2', COUNT(r.id) FILTER (WHERE r.rating = 2),
+      '3', COUNT(r.id) FILTER (WHERE r.rating = 3),
+      '4', COUNT(r.id) FILTER (WHERE r.rating = 4),
+      '5', COUNT(r.id) FILTER (WHERE r.rating = 5)
+    )
+  )
+  INTO v_result
+  FROM public.product_reviews r
+  WHERE r.product_id = p_product_id
+    AND r.status = 'approved';
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.get_product_review_summary TO anon, authenticated;
+
+COMMENT ON FUNCTION public.get_product_review_summary IS
+  'Average rating, total and per-star counts of approved reviews for a product';
+
+-- ============================================================================
+-- PART 4: RATING-AWARE SEARCH
+-- ============================================================================
+
+-- Adding p_min_rating changes the signature, so the old function is replaced
+DROP FUNCTION IF EXISTS public.search_products(
+  TEXT, TEXT[], UUID[], DECIMAL, DECIMAL, BOOLEAN, TEXT, INTEGER, INTEGER
+);
+
+-- Full search: results page, total count and facets in a single round trip.
+-- p_terms are the tokenized query terms (normalized, prefixes and stop words
+-- already removed by the API).
+-- A product matches when every term is found in its search text, either as a
+-- substring or as a close trigram match (typo tolerance).
+-- Ratings are the average of approved reviews; unrated products never pass a
+-- minimum rating filter.
+CREATE OR REPLACE FUNCTION public.search_products(
+  p_query TEXT,
+  p_terms TEXT[],
+  p_category_ids UUID[] DEFAULT NULL,
+  p_min_price DECIMAL DEFAULT NULL,
+  p_max_price DECIMAL DEFAULT NULL,
+  p_in_stock BOOLEAN DEFAULT FALSE,
+  p_sort TEXT DEFAULT 'relevance',
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0,
+  p_min_rating DECIMAL DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_query TEXT := public.normalize_search_text(trim(COALESCE(p_query, '')));
+  v_terms TEXT[] := COALESCE(p_terms, ARRAY[]::TEXT[]);
+  v_result JSONB;
+BEGIN
+  WITH matched AS (
+    SELECT
+      p.id,
+      p.name,
+      p.description,
+      p.price,
+      p.image_url,
+      p.category_id,
+      p.inventory_count,
+      p.created_at,
+      c.name AS category_name,
+      rv.rating,
+      COALESCE(rv.review_count, 0) AS review_count,
+      (
+        -- Whole-query similarity against the name carries the most weight
+        CASE WHEN v_query = '' THEN 0 ELSE similarity(public.normalize_search_text(p.name), v_query) * 20 END
+        + CASE WHEN v_query <> '' AND public.normalize_search_text(p.name) LIKE v_query || '%' THEN 10 ELSE 0 END
+        + COALESCE((
+          SELECT SUM(
+            CASE
+              WHEN public.normalize_search_text(p.name) LIKE '%' || t || '%' THEN 8
+              WHEN p.search_text LIKE '%' || t || '%' THEN 5
+              ELSE word_similarity(t, p.search_text) * 4
+            END
+          )
+          FROM unnest(v_terms) AS t
+        ), 0)
+      )::REAL AS relevance
+    FROM public.products p
+    LEFT JOIN public.categories c ON c.id = p.category_id
+    LEFT JOIN LATERAL (
+      SELECT ROUND(AVG(r.rating)::NUMERIC, 1) AS rating, COUNT(*) AS review_count
+      FROM public.product_reviews r
+      WHERE r.product_id = p.id AND r.status = 'approved'
+    ) rv ON TRUE
+    WHERE NOT EXISTS (
+      SELECT 1
+      FROM unnest(v_terms) AS t
+      WHERE p.search_text NOT LIKE '%' || t || '%'
+        AND word_similarity(t, p.search_text) < 0.5
+    )
+      AND (p_min_price IS NULL OR p.price >= p_min_price)
+      AND (p_max_price IS NULL OR p.price <= p_max_price)
+      AND (NOT COALESCE(p_in_stock, FALSE) OR p.inventory_count > 0)
+  ),
+  -- Rating facet ignores the rating filter so shoppers can widen it again
+  rated AS (
+    SELECT *
+    FROM matched
+    WHERE p_min_rating IS NULL
+      OR p_min_rating = 0
+      OR COALESCE(rating, 0) >= p_min_rating
+  ),
+  -- Category facet ignores the category filter so shoppers can switch categories
+  filtered AS (
+    SELECT *
+    FROM rated
+    WHERE p_category_ids IS NULL
+      OR cardinality(p_category_ids) = 0
+      OR category_id = ANY(p_category_ids)
+  ),
+  page AS (
+    SELECT *
+    FROM filtered
+    ORDER BY
+      CASE WHEN p_sort = 'price_asc' THEN price END ASC,
+      CASE WHEN p_sort = 'price_desc' THEN price END DESC,
+      CASE WHEN p_sort = 'name' THEN name END ASC,
+      CASE WHEN p_sort = 'rating' THEN COALESCE(rating, 0) END DESC,
+      CASE WHEN p_sort = 'rating' THEN review_count END DESC,
+      CASE WHEN p_sort = 'newest' THEN created_at END DESC,
+      relevance DESC,
+      created_at DESC
+    LIMIT p_limit
+    OFFSET p_offset
+  ),
+  price_buckets AS (
+    SELECT *
+    FROM (
+      VALUES (0, 100), (100, 200), (200, 500), (500, 1000), (1000, NULL)
+    ) AS b(min_price, max_price)
+  )
+  SELECT jsonb_build_object(
+    'results', COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', pg.id,
+          'name', pg.name,
+          'description', COALESCE(pg.description, ''),
+          'price', pg.price,
+          'image_url', COALESCE(pg.image_url, ''),
+          'category_id', pg.category_id,
+          'inventory_count', pg.inventory_count,
+          'rating', pg.rating,
+          'reviewCount', pg.review_count,
+          'relevanceScore', pg.relevance,
+          'category', CASE
+            WHEN pg.category_id IS NULL THEN NULL
+            ELSE jsonb_build_object('id', pg.category_id, 'name', pg.category_name)
+          END
+        )
+      )
+      FROM page pg
+    ), '[]'::JSONB),
+    'total', (SELECT COUNT(*) FROM filtered),
+    'facets', jsonb_build_object(
+      'categories', COALESCE((
+        SELECT jsonb_agg(
+          jsonb_build_object('id', category_id, 'name', category_name, 'count', cnt)
+          ORDER BY cnt DESC, category_name
+        )
+        FROM (
+          SELECT category_id, category_name, COUNT(*) AS cnt
+          FROM rated
+          WHERE category_id IS NOT NULL
+          GROUP BY category_id, category_name
+        ) cat
+      ), '[]'::JSONB),
+      'priceRanges', COALESCE((
+        SELECT jsonb_agg(
+          jsonb_build_object(
+            'min', b.min_price,
+            -- Open-ended top bucket reports the highest matching price
+            'max', COALESCE(b.max_price, (SELECT MAX(price) FROM filtered)),
+            'count', b.cnt
+          )
+          ORDER BY b.min_price
+        )
+        FROM (
+          SELECT
+            pb.min_price,
+            pb.max_price,
+            (
+              SELECT COUNT(*)
+              FROM filtered f
+              WHERE f.price >= pb.min_price
+                AND (pb.max_price IS NULL OR f.price < pb.max_price)
+            ) AS cnt
+          FROM price_buckets pb
+        ) b
+        WHERE b.cnt > 0
+      ), '[]'::JSONB),
+      -- "N stars & up" counts within the selected categories
+      'ratings', COALESCE((
+        SELECT jsonb_agg(
+          jsonb_build_object('rating', s.stars, 'count', s.cnt)
+          ORDER BY s.stars DESC
+        )
+        FROM (
+          SELECT
+            stars,
+            (
+              SELECT COUNT(*)
+              FROM matched m
+              WHERE COALESCE(m.rating, 0) >= stars
+                AND (
+                  p_category_ids IS NULL
+                  OR cardinality(p_category_ids) = 0
+                  OR m.category_id = ANY(p_category_ids)
+                )
+            ) AS cnt
+          FROM generate_series(1, 5) AS stars
+        ) s
+        WHERE s.cnt > 0
+      ), '[]'::JSONB)
+    )
+  )
+  INTO v_result;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.search_products TO anon, authenticated;
+
+COMMENT ON FUNCTION public.search_products IS
+  'Typo-tolerant product search returning results, total and facets as JSONB';
+
+COMMENT ON COLUMN public.product_reviews.verified_purchase IS
+  'Set on insert when the reviewer has a paid order containing the product';
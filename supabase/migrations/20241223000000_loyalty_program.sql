@@ -0,0 +1,520 @@
+-- ============================================================================
+-- Loyalty Program Migration
+-- Points ledger, per-user balances and tier evaluation for the loyalty
+-- program. Points are awarded when an order is paid and reversed when it is
+-- cancelled, refunded or returned. Backs /api/loyalty/*.
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: TIERS
+-- ============================================================================
+
+-- Mirrors the tiers in lib/loyalty/loyalty-service.ts
+CREATE TABLE IF NOT EXISTS public.loyalty_tiers (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  min_points INTEGER NOT NULL UNIQUE CHECK (min_points >= 0),
+  points_multiplier DECIMAL(4, 2) NOT NULL DEFAULT 1 CHECK (points_multiplier > 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+INSERT INTO public.loyalty_tiers (id, name, min_points, points_multiplier) VALUES
+  ('bronze', 'Bronze', 0, 1),
+  ('silver', 'Silver', 500, 1.5),
+  ('gold', 'Gold', 1500, 2),
+  ('platinum', 'Platinum', 5000, 3)
+ON CONFLICT (id) DO UPDATE SET
+  name = EXCLUDED.name,
+  min_points = EXCLUDED.min_points,
+  points_multiplier = EXCLUDED.points_multiplier;
+
+ALTER TABLE public.loyalty_tiers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Loyalty tiers are viewable by everyone" ON public.loyalty_tiers
+  FOR SELECT USING (true);
+
+CREATE POLICY "Admins can manage loyalty tiers" ON public.loyalty_tiers
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = auth.uid() AND users.role = 'admin'
+    )
+  );
+
+CREATE TRIGGER handle_loyalty_tiers_updated_at
+  BEFORE UPDATE ON public.loyalty_tiers
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- Highest tier whose threshold the given lifetime points reach
+CREATE OR REPLACE FUNCTION public.loyalty_tier_for_points(p_points INTEGER)
+RETURNS TEXT AS $$
+  SELECT COALESCE(
+    (
+      SELECT id FROM public.loyalty_tiers
+      WHERE min_points <= GREATEST(COALESCE(p_points, 0), 0)
+      ORDER BY min_points DESC
+      LIMIT 1
+    ),
+    'bronze'
+  );
+$$ LANGUAGE sql STABLE;
+
+-- Rewards catalog, also mirrored in lib/loyalty/loyalty-service.ts. Costs are
+-- read from here on redemption so clients cannot choose their own price.
+CREATE TABLE IF NOT EXISTS public.loyalty_rewards (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  points_cost INTEGER NOT NULL CHECK (points_cost > 0),
+  type TEXT NOT NULL CHECK (type IN ('discount', 'free_shipping', 'product', 'experience')),
+  value DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+INSERT INTO public.loyalty_rewards (id, name, description, points_cost, type, value) VALUES
+  ('discount_10', '$10 Off', '$10 off your next purchase', 100, 'discount', 10),
+  ('discount_25', '$25 Off', '$25 off your next purchase', 250, 'discount', 25),
+  ('free_shipping', 'Free Shipping', 'Free shipping on your next order', 50, 'free_shipping', 0),
+  ('discount_percent_15', '15% Off', '15% off your entire order', 500, 'discount', 15)
+ON CONFLICT (id) DO UPDATE SET
+  name = EXCLUDED.name,
+  description = EXCLUDED.description,
+  points_cost = EXCLUDED.points_cost,
+  type = EXCLUDED.type,
+  value = EXCLUDED.value;
+
+ALTER TABLE public.loyalty_rewards ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Loyalty rewards are viewable by everyone" ON public.loyalty_rewards
+  FOR SELECT USING (true);
+
+CREATE POLICY "Admins can manage loyalty rewards" ON public.loyalty_rewards
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = auth.uid() AND users.role = 'admin'
+    )
+  );
+
+CREATE TRIGGER handle_loyalty_rewards_updated_at
+  BEFORE UPDATE ON public.loyalty_rewards
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- ============================================================================
+-- PART 2: ACCOUNTS AND LEDGER
+-- ============================================================================
+
+-- One balance row per member. total_points counts lifetime points earned
+-- (net of reversals) and drives the tier; available_points is spendable.
+CREATE TABLE IF NOT EXISTS public.loyalty_accounts (
+  user_id UUID PRIMARY KEY REFERENCES public.users(id) ON DELETE CASCADE,
+  total_points INTEGER NOT NULL DEFAULT 0 CHECK (total_points >= 0),
+  available_points INTEGER NOT NULL DEFAULT 0 CHECK (available_points >= 0),
+  current_tier TEXT NOT NULL DEFAULT 'bronze' REFERENCES public.loyalty_tiers(id),
+  lifetime_spent DECIMAL(12, 2) NOT NULL DEFAULT 0 CHECK (lifetime_spent >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+ALTER TABLE public.loyalty_accounts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own loyalty account" ON public.loyalty_accounts
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can manage loyalty accounts" ON public.loyalty_accounts
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = auth.uid() AND users.role = 'admin'
+    )
+  );
+
+CREATE TRIGGER handle_loyalty_accounts_updated_at
+  BEFORE UPDATE ON public.loyalty_accounts
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- Append-only points ledger; points are signed (negative for redemptions,
+-- expiries and reversals)
+CREATE TABLE IF NOT EXISTS public.loyalty_transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('earned', 'redeemed', 'expired', 'bonus', 'reversed')),
+  points INTEGER NOT NULL CHECK (points <> 0),
+  description TEXT NOT NULL,
+  order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  reward_id TEXT,
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_loyalty_transactions_user
+  ON public.loyalty_transactions(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_loyalty_transactions_order
+  ON public.loyalty_transactions(order_id)
+  WHERE order_id IS NOT NULL;
+
+ALTER TABLE public.loyalty_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own loyalty transactions" ON public.loyalty_transactions
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all loyalty transactions" ON public.loyalty_transactions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = auth.uid() AND users.role = 'admin'
+    )
+  );
+
+-- Rewards bought with points. The code is handed to the customer and later
+-- applied at checkout.
+CREATE TABLE IF NOT EXISTS public.loyalty_redemptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  reward_id TEXT NOT NULL REFERENCES public.loyalty_rewards(id),
+  reward_type TEXT NOT NULL CHECK (reward_type IN ('discount', 'free_shipping', 'product', 'experience')),
+  reward_value DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  points_cost INTEGER NOT NULL CHECK (points_cost > 0),
+  code TEXT NOT NULL UNIQUE,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'used', 'cancelled', 'expired')),
+  order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_loyalty_redemptions_user ON public.loyalty_redemptions(user_id);
+CREATE INDEX IF NOT EXISTS idx_loyalty_redemptions_status ON public.loyalty_redemptions(status);
+
+ALTER TABLE public.loyalty_redemptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own loyalty redemptions" ON public.loyalty_redemptions
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can manage loyalty redemptions" ON public.loyalty_redemptions
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = auth.uid() AND users.role = 'admin'
+    )
+  );
+
+CREATE TRIGGER handle_loyalty_redemptions_updated_at
+  BEFORE UPDATE ON public.loyalty_redemptions
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- ============================================================================
+-- PART 3: LEDGER FUNCTIONS
+-- ============================================================================
+
+-- Record a points movement and apply it to the member's balance and tier.
+-- Positive points count towards the tier unless they are a refund of
+-- redeemed points; negative points are spent from the available balance.
+CREATE OR REPLACE FUNCTION public.record_loyalty_transaction(
+  p_user_id UUID,
+  p_type TEXT,
+  p_points INTEGER,
+  p_description TEXT,
+  p_order_id UUID DEFAULT NULL,
+  p_reward_id TEXT DEFAULT NULL,
+  p_spent_delta DECIMAL DEFAULT 0,
+  p_created_by UUID DEFAULT NULL
+)
+RETURNS public.loyalty_accounts AS $$
+DECLARE
+  v_account public.loyalty_accounts;
+  v_tier_delta INTEGER;
+BEGIN
+  INSERT INTO public.loyalty_accounts (user_id)
+  VALUES (p_user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT * INTO v_account
+  FROM public.loyalty_accounts
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF p_points < 0 AND p_type = 'redeemed' AND v_account.available_points < -p_points THEN
+    RAISE EXCEPTION 'Insufficient loyalty points: % available, % required',
+      v_account.available_points, -p_points;
+  END IF;
+
+  -- Earning, bonuses and their reversals move the tier; spending does not
+  v_tier_delta := CASE WHEN p_type IN ('earned', 'bonus', 'reversed') THEN p_points ELSE 0 END;
+
+  INSERT INTO public.loyalty_transactions (
+    user_id, type, points, description, order_id, reward_id, created_by
+  )
+  VALUES (
+    p_user_id, p_type, p_points, p_description, p_order_id, p_reward_id, p_created_by
+  );
+
+  UPDATE public.loyalty_accounts
+  SET
+    total_points = GREATEST(total_points + v_tier_delta, 0),
+    available_points = GREATEST(available_points + p_points, 0),
+    lifetime_spent = GREATEST(lifetime_spent + COALESCE(p_spent_delta, 0), 0),
+    current_tier = public.loyalty_tier_for_points(total_points + v_tier_delta),
+    updated_at = NOW()
+  WHERE user_id = p_user_id
+  RETURNING * INTO v_account;
+
+  RETURN v_account;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Award points for a paid order: one point per whole unit of the order total,
+-- multiplied by the member's current tier. Safe to call more than once.
+CREATE OR REPLACE FUNCTION public.award_order_loyalty_points(p_order_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_order RECORD;
+  v_multiplier DECIMAL;
+  v_points INTEGER;
+BEGIN
+  SELECT id, user_id, total INTO v_order
+  FROM public.orders
+  WHERE id = p_order_id
+    AND status IN ('processing', 'shipped', 'delivered', 'completed');
+
+  IF NOT FOUND OR v_order.user_id IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.loyalty_transactions
+    WHERE order_id = p_order_id AND type = 'earned'
+  ) THEN
+    RETURN 0;
+  END IF;
+
+  SELECT t.points_multiplier INTO v_multiplier
+  FROM public.loyalty_tiers t
+  WHERE t.id = COALESCE(
+    (SELECT current_tier FROM public.loyalty_accounts WHERE user_id = v_order.user_id),
+    'bronze'
+  );
+
+  v_points := FLOOR(FLOOR(v_order.total) * COALESCE(v_multiplier, 1));
+
+  IF v_points <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  PERFORM public.record_loyalty_transaction(
+    v_order.user_id,
+    'earned',
+    v_points,
+    'Points earned from order',
+    p_order_id,
+    NULL,
+    v_order.total
+  );
+
+  RETURN v_points;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Take back whatever an order still holds in earned points. Safe to call more
+-- than once; a second call finds nothing left to reverse.
+CREATE OR REPLACE FUNCTION public.reverse_order_loyalty_points(
+  p_order_id UUID,
+  p_description TEXT DEFAULT 'Points reversed for cancelled order'
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_user_id UUID;
+  v_total DECIMAL;
+  v_net_points INTEGER;
+BEGIN
+  SELECT user_id, total INTO v_user_id, v_total
+  FROM public.orders
+  WHERE id = p_order_id;
+
+  IF NOT FOUND OR v_user_id IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  SELECT COALESCE(SUM(points), 0) INTO v_net_points
+  FROM public.loyalty_transactions
+  WHERE order_id = p_order_id AND type IN ('earned', 'reversed');
+
+  IF v_net_points <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  PERFORM public.record_loyalty_transaction(
+    v_user_id,
+    'reversed',
+    -v_net_points,
+    p_description,
+    p_order_id,
+    NULL,
+    -v_total
+  );
+
+  RETURN v_net_points;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Spend the session user's points on a catalog reward and issue a single-use
+-- code for it
+CREATE OR REPLACE FUNCTION public.redeem_loyalty_reward(p_reward_id TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_reward public.loyalty_rewards;
+  v_code TEXT;
+  v_redemption_id UUID;
+  v_account public.loyalty_accounts;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_reward
+  FROM public.loyalty_rewards
+  WHERE id = p_reward_id
+    AND is_active = TRUE
+    AND (expires_at IS NULL OR expires_at > NOW());
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Reward not found or no longer available';
+  END IF;
+
+  -- Raises when the balance is too low
+  v_account := public.record_loyalty_transaction(
+    v_user_id,
+    'redeemed',
+    -v_reward.points_cost,
+    'Redeemed: ' || v_reward.name,
+    NULL,
+    v_reward.id
+  );
+
+  LOOP
+    v_code := 'LOY-' || upper(substr(md5(random()::TEXT || clock_timestamp()::TEXT), 1, 8));
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM public.loyalty_redemptions WHERE code = v_code);
+  END LOOP;
+
+  INSERT INTO public.loyalty_redemptions (
+    user_id, reward_id, reward_type, reward_value, points_cost, code
+  )
+  VALUES (
+    v_user_id, v_reward.id, v_reward.type, v_reward.value, v_reward.points_cost, v_code
+  )
+  RETURNING id INTO v_redemption_id;
+
+  RETURN jsonb_build_object(
+    'redemption_id', v_redemption_id,
+    'code', v_code,
+    'reward_id', v_reward.id,
+    'points_cost', v_reward.points_cost,
+    'available_points', v_account.available_points
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Manual points grant or correction (admin only)
+CREATE OR REPLACE FUNCTION public.adjust_loyalty_points(
+  p_user_id UUID,
+  p_points INTEGER,
+  p_type TEXT,
+  p_description TEXT,
+  p_order_id UUID DEFAULT NULL
+)
+RETURNS public.loyalty_accounts AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.users
+    WHERE users.id = auth.uid() AND users.role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  IF p_type NOT IN ('earned', 'bonus') THEN
+    RAISE EXCEPTION 'Invalid loyalty transaction type: %', p_type;
+  END IF;
+
+  RETURN public.record_loyalty_transaction(
+    p_user_id,
+    p_type,
+    p_points,
+    p_description,
+    p_order_id,
+    NULL,
+    0,
+    auth.uid()
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Ledger internals only run from triggers and the functions above
+REVOKE EXECUTE ON FUNCTION public.record_loyalty_transaction FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.award_order_loyalty_points FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reverse_order_loyalty_points FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.redeem_loyalty_reward TO authenticated;
+GRANT EXECUTE ON FUNCTION public.adjust_loyalty_points TO authenticated;
+
+-- ============================================================================
+-- PART 4: AUTOMATIC AWARDS AND REVERSALS
+-- ============================================================================
+
+-- Award points once an order reaches a paid state and reverse them when it is
+-- cancelled or refunded. cancel_order_with_inventory_restore sets the status
+-- to 'cancelled', so cancellations through it are reversed here as well.
+CREATE OR REPLACE FUNCTION public.handle_order_loyalty_points()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.status IS NOT DISTINCT FROM NEW.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IN ('processing', 'shipped', 'delivered', 'completed')
+    AND (TG_OP = 'INSERT' OR OLD.status NOT IN ('processing', 'shipped', 'delivered', 'completed'))
+  THEN
+    PERFORM public.award_order_loyalty_points(NEW.id);
+  ELSIF NEW.status = 'cancelled' THEN
+    PERFORM public.reverse_order_loyalty_points(NEW.id, 'Points reversed for cancelled order');
+  ELSIF NEW.status = 'refunded' THEN
+    PERFORM public.reverse_order_loyalty_points(NEW.id, 'Points reversed for refunded order');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS handle_order_loyalty_points_trigger ON public.orders;
+CREATE TRIGGER handle_order_loyalty_points_trigger
+  AFTER INSERT OR UPDATE OF status ON public.orders
+  FOR EACH ROW EXECUTE FUNCTION public.handle_order_loyalty_points();
+
+-- Approving a return takes back the points the order earned
+CREATE OR REPLACE FUNCTION public.handle_return_loyalty_points()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'approved' AND OLD.status IS DISTINCT FROM 'approved' THEN
+    PERFORM public.reverse_order_loyalty_points(NEW.order_id, 'Points reversed for returned order');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS handle_return_loyalty_points_trigger ON public.return_requests;
+CREATE TRIGGER handle_return_loyalty_points_trigger
+  AFTER UPDATE OF status ON public.return_requests
+  FOR EACH ROW EXECUTE FUNCTION public.handle_return_loyalty_points();
+
+COMMENT ON TABLE public.loyalty_transactions IS
+  'Signed loyalty points ledger; loyalty_accounts holds the running balances';
+COMMENT ON FUNCTION public.award_order_loyalty_points IS
+  'Award tier-multiplied points for a paid order (idempotent)';
+COMMENT ON FUNCTION public.reverse_order_loyalty_points IS
+  'Reverse the net points an order earned (idempotent)';
@@ -0,0 +1,385 @@
+-- ============================================================================
+-- Loyalty Checkout Rewards Migration
+-- Lets a redeemed loyalty reward (discount or free shipping) be applied when
+-- the order is created. The order records the redemption and its discount,
+-- and the points are returned if the order is cancelled before it is paid
+-- for (failed or cancelled payment) or by the customer.
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: PERCENTAGE DISCOUNTS
+-- ============================================================================
+
+-- Discount rewards are a fixed amount unless flagged as a percentage
+ALTER TABLE public.loyalty_rewards
+ADD COLUMN IF NOT EXISTS is_percentage BOOLEAN NOT NULL DEFAULT FALSE;
+
+ALTER TABLE public.loyalty_redemptions
+ADD COLUMN IF NOT EXISTS is_percentage BOOLEAN NOT NULL DEFAULT FALSE;
+
+UPDATE public.loyalty_rewards
+SET is_percentage = TRUE
+WHERE id = 'discount_percent_15';
+
+UPDATE public.loyalty_redemptions
+SET is_percentage = TRUE
+WHERE reward_id = 'discount_percent_15';
+
+-- Spend the session user's points on a catalog reward and issue a single-use
+-- code for it (now copies the percentage flag onto the redemption)
+CREATE OR REPLACE FUNCTION public.redeem_loyalty_reward(p_reward_id TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_reward public.loyalty_rewards;
+  v_code TEXT;
+  v_redemption_id UUID;
+  v_account public.loyalty_accounts;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_reward
+  FROM public.loyalty_rewards
+  WHERE id = p_reward_id
+    AND is_active = TRUE
+    AND (expires_at IS NULL OR expires_at > NOW());
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Reward not found or no longer available';
+  END IF;
+
+  -- Raises when the balance is too low
+  v_account := public.record_loyalty_transaction(
+    v_user_id,
+    'redeemed',
+    -v_reward.points_cost,
+    'Redeemed: ' || v_reward.name,
+    NULL,
+    v_reward.id
+  );
+
+  LOOP
+    v_code := 'LOY-' || upper(substr(md5(random()::TEXT || clock_timestamp()::TEXT), 1, 8));
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM public.loyalty_redemptions WHERE code = v_code);
+  END LOOP;
+
+  INSERT INTO public.loyalty_redemptions (
+    user_id, reward_id, reward_type, reward_value, is_percentage, points_cost, code
+  )
+  VALUES (
+    v_user_id, v_reward.id, v_reward.type, v_reward.value, v_reward.is_percentage,
+    v_reward.points_cost, v_code
+  )
+  RETURNING id INTO v_redemption_id;
+
+  RETURN jsonb_build_object(
+    'redemption_id', v_redemption_id,
+    'code', v_code,
+    'reward_id', v_reward.id,
+    'points_cost', v_reward.points_cost,
+    'available_points', v_account.available_points
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- PART 2: ORDER DISCOUNTS
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'discount_amount'
+  ) THEN
+    ALTER TABLE public.orders ADD COLUMN discount_amount DECIMAL(10, 2) NOT NULL DEFAULT 0;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'loyalty_redemption_id'
+  ) THEN
+    ALTER TABLE public.orders
+    ADD COLUMN loyalty_redemption_id UUID REFERENCES public.loyalty_redemptions(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_orders_loyalty_redemption
+  ON public.orders(loyalty_redemption_id)
+  WHERE loyalty_redemption_id IS NOT NULL;
+
+-- Give back the points of the reward an order used and void its code
+CREATE OR REPLACE FUNCTION public.release_order_loyalty_redemption(
+  p_order_id UUID,
+  p_description TEXT DEFAULT 'Points returned for cancelled order'
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_redemption public.loyalty_redemptions;
+BEGIN
+  SELECT r.* INTO v_redemption
+  FROM public.loyalty_redemptions r
+  JOIN public.orders o ON o.loyalty_redemption_id = r.id
+  WHERE o.id = p_order_id
+    AND r.status = 'used'
+  FOR UPDATE OF r;
+
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE public.loyalty_redemptions
+  SET status = 'cancelled', updated_at = NOW()
+  WHERE id = v_redemption.id;
+
+  -- A positive redemption entry returns the points without touching the tier
+  PERFORM public.record_loyalty_transaction(
+    v_redemption.user_id,
+    'redeemed',
+    v_redemption.points_cost,
+    p_description,
+    p_order_id,
+    v_redemption.reward_id
+  );
+
+  RETURN v_redemption.points_cost;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.release_order_loyalty_redemption FROM PUBLIC, anon, authenticated;
+
+-- Award points once an order reaches a paid state and reverse them when it is
+-- cancelled or refunded. cancel_order_with_inventory_restore and the payment
+-- webhooks set the status to 'cancelled', so those cancellations also return
+-- the points spent on a reward used by the order.
+CREATE OR REPLACE FUNCTION public.handle_order_loyalty_points()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.status IS NOT DISTINCT FROM NEW.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IN ('processing', 'shipped', 'delivered', 'completed')
+    AND (TG_OP = 'INSERT' OR OLD.status NOT IN ('processing', 'shipped', 'delivered', 'completed'))
+  THEN
+    PERFORM public.award_order_loyalty_points(NEW.id);
+  ELSIF NEW.status = 'cancelled' THEN
+    PERFORM public.reverse_order_loyalty_points(NEW.id, 'Points reversed for cancelled order');
+    PERFORM public.release_order_loyalty_redemption(NEW.id, 'Points returned for cancelled order');
+  ELSIF NEW.status = 'refunded' THEN
+    PERFORM public.reverse_order_loyalty_points(NEW.id, 'Points reversed for refunded order');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- PART 3: ORDER CREATION
+-- ============================================================================
+
+-- Adding p_loyalty_code changes the signature, so the old function is replaced
+DROP FUNCTION IF EXISTS create_order_with_items(UUID, JSONB, JSONB, TEXT, TEXT, TEXT);
+
+-- Function to create order with items atomically (variant prices and stock,
+-- optional loyalty reward). Discounts mirror calculateLoyaltyDiscount in
+-- lib/loyalty/loyalty-service.ts: item discounts reduce the taxable subtotal,
+-- free shipping waives the shipping cost.
+CREATE OR REPLACE FUNCTION create_order_with_items(
+  p_user_id UUID,
+  p_shipping_address JSONB,
+  p_billing_address JSONB,
+  p_payment_method_id TEXT,
+  p_shipping_method TEXT,
+  p_notes TEXT DEFAULT NULL,
+  p_loyalty_code TEXT DEFAULT NULL
+)
+RETURNS TABLE(
+  id UUID,
+  order_number TEXT,
+  status TEXT,
+  total DECIMAL,
+  discount_amount DECIMAL,
+  estimated_delivery DATE
+) AS $$
+DECLARE
+  v_order_id UUID;
+  v_order_number TEXT;
+  v_subtotal DECIMAL := 0;
+  v_total DECIMAL := 0;
+  v_shipping_cost DECIMAL := 0;
+  v_tax DECIMAL := 0;
+  v_item_discount DECIMAL := 0;
+  v_shipping_discount DECIMAL := 0;
+  v_redemption public.loyalty_redemptions;
+  v_estimated_delivery DATE;
+  cart_item RECORD;
+BEGIN
+  -- Generate order number
+  v_order_number := generate_order_number();
+
+  -- Calculate estimated delivery based on shipping method
+  CASE p_shipping_method
+    WHEN 'standard' THEN v_estimated_delivery := CURRENT_DATE + INTERVAL '5-7 days';
+    WHEN 'express' THEN v_estimated_delivery := CURRENT_DATE + INTERVAL '2-3 days';
+    WHEN 'overnight' THEN v_estimated_delivery := CURRENT_DATE + INTERVAL '1 day';
+    ELSE v_estimated_delivery := CURRENT_DATE + INTERVAL '5-7 days';
+  END CASE;
+
+  -- Calculate shipping cost
+  CASE p_shipping_method
+    WHEN 'standard' THEN v_shipping_cost := 0.00;
+    WHEN 'express' THEN v_shipping_cost := 9.99;
+    WHEN 'overnight' THEN v_shipping_cost := 19.99;
+    ELSE v_shipping_cost := 0.00;
+  END CASE;
+
+  -- Calculate subtotal from cart items (variant price overrides the product price)
+  FOR cart_item IN
+    SELECT
+      ci.product_id,
+      ci.variant_id,
+      ci.quantity,
+      COALESCE(v.price_override, p.price) AS price,
+      CASE WHEN ci.variant_id IS NULL THEN p.inventory_count ELSE v.inventory_count END
+        AS inventory_count,
+      CASE WHEN ci.variant_id IS NULL THEN p.name ELSE p.name || ' (' || v.sku || ')' END
+        AS name,
+      ci.variant_id IS NOT NULL AND (v.id IS NULL OR NOT v.is_active) AS variant_unavailable
+    FROM cart_items ci
+    JOIN products p ON ci.product_id = p.id
+    LEFT JOIN product_variants v ON ci.variant_id = v.id
+    WHERE ci.user_id = p_user_id
+  LOOP
+    IF cart_item.variant_unavailable THEN
+      RAISE EXCEPTION 'Variant is no longer available for product: %', cart_item.name;
+    END IF;
+
+    -- Check inventory
+    IF cart_item.inventory_count < cart_item.quantity THEN
+      RAISE EXCEPTION 'Insufficient inventory for product: %', cart_item.name;
+    END IF;
+
+    v_subtotal := v_subtotal + (cart_item.price * cart_item.quantity);
+  END LOOP;
+
+  -- Apply a redeemed loyalty reward
+  IF p_loyalty_code IS NOT NULL AND trim(p_loyalty_code) <> '' THEN
+    SELECT r.* INTO v_redemption
+    FROM public.loyalty_redemptions r
+    WHERE r.code = upper(trim(p_loyalty_code))
+      AND r.user_id = p_user_id
+      AND r.status = 'active'
+      AND (r.expires_at IS NULL OR r.expires_at > NOW())
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Invalid or already used loyalty reward: %', p_loyalty_code;
+    END IF;
+
+    CASE v_redemption.reward_type
+      WHEN 'discount' THEN
+        IF v_redemption.is_percentage THEN
+          v_item_discount := ROUND(v_subtotal * LEAST(v_redemption.reward_value, 100) / 100, 2);
+        ELSE
+          v_item_discount := LEAST(v_redemption.reward_value, v_subtotal);
+        END IF;
+      WHEN 'free_shipping' THEN
+        v_shipping_discount := v_shipping_cost;
+      ELSE
+        RAISE EXCEPTION 'Loyalty reward cannot be applied at checkout: %', p_loyalty_code;
+    END CASE;
+  END IF;
+
+  -- Calculate tax (8% for now) on the discounted subtotal
+  v_tax := (v_subtotal - v_item_discount) * 0.08;
+  v_total := v_subtotal - v_item_discount + v_shipping_cost - v_shipping_discount + v_tax;
+
+  -- Create the order
+  INSERT INTO public.orders (
+    user_id,
+    order_number,
+    status,
+    total,
+    discount_amount,
+    loyalty_redemption_id,
+    shipping_address,
+    payment_intent_id,
+    estimated_delivery,
+    notes
+  ) VALUES (
+    p_user_id,
+    v_order_number,
+    'pending',
+    v_total,
+    v_item_discount + v_shipping_discount,
+    v_redemption.id,
+    p_shipping_address,
+    p_payment_method_id,
+    v_estimated_delivery,
+    p_notes
+  ) RETURNING orders.id INTO v_order_id;
+
+  -- The reward code is single use
+  IF v_redemption.id IS NOT NULL THEN
+    UPDATE public.loyalty_redemptions
+    SET status = 'used', order_id = v_order_id, updated_at = NOW()
+    WHERE loyalty_redemptions.id = v_redemption.id;
+  END IF;
+
+  -- Create order items and update inventory
+  FOR cart_item IN
+    SELECT ci.product_id, ci.variant_id, ci.quantity, COALESCE(v.price_override, p.price) AS price, v.sku
+    FROM cart_items ci
+    JOIN products p ON ci.product_id = p.id
+    LEFT JOIN product_variants v ON ci.variant_id = v.id
+    WHERE ci.user_id = p_user_id
+  LOOP
+    -- Insert order item
+    INSERT INTO public.order_items (
+      order_id,
+      product_id,
+      variant_id,
+      sku,
+      quantity,
+      price
+    ) VALUES (
+      v_order_id,
+      cart_item.product_id,
+      cart_item.variant_id,
+      cart_item.sku,
+      cart_item.quantity,
+      cart_item.price
+    );
+
+    -- Update product (or variant) inventory
+    PERFORM reduce_product_inventory(
+      cart_item.product_id,
+      cart_item.quantity,
+      cart_item.variant_id
+    );
+  END LOOP;
+
+  -- Clear the user's cart
+  DELETE FROM public.cart_items WHERE user_id = p_user_id;
+
+  -- Return order details
+  RETURN QUERY
+  SELECT
+    v_order_id,
+    v_order_number,
+    'pending'::TEXT,
+    v_total,
+    v_item_discount + v_shipping_discount,
+    v_estimated_delivery;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION create_order_with_items TO authenticated;
+
+COMMENT ON COLUMN public.orders.discount_amount IS
+  'Total discount applied at checkout (item discounts plus waived shipping)';
+COMMENT ON COLUMN public.orders.loyalty_redemption_id IS
+  'Loyalty reward redeemed on this order; released again if the order is cancelled';
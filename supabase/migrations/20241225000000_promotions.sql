@@ -0,0 +1,532 @@
+-- Promotions Migration
+-- Promo codes with percentage, fixed-amount, free-shipping and buy-X-get-Y
+-- rules. Codes are validated and applied server-side by create_order_with_items.
+
+-- ============================================================================
+-- PART 1: Promotions
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.promotions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT NOT NULL UNIQUE CHECK (code = upper(code) AND length(code) BETWEEN 3 AND 32),
+  name TEXT NOT NULL,
+  description TEXT,
+  type TEXT NOT NULL CHECK (type IN ('percentage', 'fixed_amount', 'free_shipping', 'buy_x_get_y')),
+  -- Percent off (percentage, buy_x_get_y) or amount off (fixed_amount)
+  value DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (value >= 0),
+  buy_quantity INTEGER CHECK (buy_quantity > 0),
+  get_quantity INTEGER CHECK (get_quantity > 0),
+  min_subtotal DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (min_subtotal >= 0),
+  usage_limit INTEGER CHECK (usage_limit > 0),
+  usage_limit_per_user INTEGER CHECK (usage_limit_per_user > 0),
+  usage_count INTEGER NOT NULL DEFAULT 0 CHECK (usage_count >= 0),
+  starts_at TIMESTAMPTZ,
+  ends_at TIMESTAMPTZ,
+  -- Empty targets mean the promotion applies to the whole cart
+  category_ids UUID[] NOT NULL DEFAULT '{}',
+  collection_ids UUID[] NOT NULL DEFAULT '{}',
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  CHECK (type <> 'percentage' OR value <= 100),
+  CHECK (type <> 'buy_x_get_y' OR (buy_quantity IS NOT NULL AND get_quantity IS NOT NULL AND value <= 100)),
+  CHECK (ends_at IS NULL OR starts_at IS NULL OR ends_at > starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_promotions_active ON public.promotions(is_active, starts_at, ends_at);
+
+ALTER TABLE public.promotions ENABLE ROW LEVEL SECURITY;
+
+-- Codes are not browsable; customers validate them through validate_promo_code
+CREATE POLICY "Admins can manage promotions" ON public.promotions
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = auth.uid() AND users.role = 'admin'
+    )
+  );
+
+CREATE TRIGGER handle_promotions_updated_at
+  BEFORE UPDATE ON public.promotions
+  FOR EACH ROW EXECUTE FUNCTION handle_updated_at();
+
+-- ============================================================================
+-- PART 2: Promotion redemptions (one row per order that used a code)
+-- ============================================================================
+
+-- Redeemed promotions can't be deleted (deactivate them), so the history stays intact
+CREATE TABLE IF NOT EXISTS public.promotion_redemptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  promotion_id UUID NOT NULL REFERENCES public.promotions(id) ON DELETE RESTRICT,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  discount_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  UNIQUE(order_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_promotion_redemptions_promotion_user
+  ON public.promotion_redemptions(promotion_id, user_id);
+
+ALTER TABLE public.promotion_redemptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own promotion redemptions" ON public.promotion_redemptions
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can manage promotion redemptions" ON public.promotion_redemptions
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = auth.uid() AND users.role = 'admin'
+    )
+  );
+
+-- ============================================================================
+-- PART 3: Orders reference the promotion they used
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'orders' AND column_name = 'promotion_id'
+  ) THEN
+    ALTER TABLE public.orders
+      ADD COLUMN promotion_id UUID REFERENCES public.promotions(id) ON DELETE SET NULL,
+      ADD COLUMN promo_code TEXT;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_orders_promotion ON public.orders(promotion_id);
+
+-- ============================================================================
+-- PART 4: Evaluating a code against a cart
+-- ============================================================================
+
+-- Cart lines of a user, flagged when they match the promotion's targets
+CREATE OR REPLACE FUNCTION promotion_cart_lines(
+  p_user_id UUID,
+  p_category_ids UUID[],
+  p_collection_ids UUID[]
+)
+RETURNS TABLE(price DECIMAL, quantity INTEGER, eligible BOOLEAN) AS $$
+  SELECT
+    COALESCE(v.price_override, p.price),
+    ci.quantity,
+    (cardinality(p_category_ids) = 0 AND cardinality(p_collection_ids) = 0)
+      OR p.category_id = ANY(p_category_ids)
+      OR EXISTS (
+        SELECT 1 FROM public.collection_products cp
+        WHERE cp.product_id = p.id AND cp.collection_id = ANY(p_collection_ids)
+      )
+  FROM public.cart_items ci
+  JOIN public.products p ON ci.product_id = p.id
+  LEFT JOIN public.product_variants v ON ci.variant_id = v.id
+  WHERE ci.user_id = p_user_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Check a promo code's window, limits and minimum spend against the user's
+-- cart and work out its discount. Mirrored for display only by the checkout
+-- summary; this function is the source of truth.
+CREATE OR REPLACE FUNCTION evaluate_promotion(p_code TEXT, p_user_id UUID)
+RETURNS TABLE(promotion_id UUID, item_discount DECIMAL, free_shipping BOOLEAN) AS $$
+DECLARE
+  v_promo public.promotions;
+  v_subtotal DECIMAL;
+  v_eligible_subtotal DECIMAL;
+  v_eligible_units INTEGER;
+  v_user_uses INTEGER;
+  v_free_units INTEGER;
+  v_discount DECIMAL := 0;
+BEGIN
+  SELECT pr.* INTO v_promo
+  FROM public.promotions pr
+  WHERE pr.code = upper(trim(p_code));
+
+  IF NOT FOUND OR NOT v_promo.is_active THEN
+    RAISE EXCEPTION 'Promo code is not valid: %', p_code;
+  END IF;
+
+  IF v_promo.starts_at IS NOT NULL AND v_promo.starts_at > NOW() THEN
+    RAISE EXCEPTION 'Promo code is not active yet: %', p_code;
+  END IF;
+
+  IF v_promo.ends_at IS NOT NULL AND v_promo.ends_at <= NOW() THEN
+    RAISE EXCEPTION 'Promo code has expired: %', p_code;
+  END IF;
+
+  IF v_promo.usage_limit IS NOT NULL AND v_promo.usage_count >= v_promo.usage_limit THEN
+    RAISE EXCEPTION 'Promo code usage limit reached: %', p_code;
+  END IF;
+
+  IF v_promo.usage_limit_per_user IS NOT NULL THEN
+    SELECT COUNT(*) INTO v_user_uses
+    FROM public.promotion_redemptions pr
+    WHERE pr.promotion_id = v_promo.id AND pr.user_id = p_user_id;
+
+    IF v_user_uses >= v_promo.usage_limit_per_user THEN
+      RAISE EXCEPTION 'Promo code has already been used: %', p_code;
+    END IF;
+  END IF;
+
+  SELECT
+    COALESCE(SUM(l.price * l.quantity), 0),
+    COALESCE(SUM(l.price * l.quantity) FILTER (WHERE l.eligible), 0),
+    COALESCE(SUM(l.quantity) FILTER (WHERE l.eligible), 0)
+  INTO v_subtotal, v_eligible_subtotal, v_eligible_units
+  FROM promotion_cart_lines(p_user_id, v_promo.category_ids, v_promo.collection_ids) l;
+
+  IF v_subtotal < v_promo.min_subtotal THEN
+    RAISE EXCEPTION 'Promo code requires a minimum spend of %', v_promo.min_subtotal;
+  END IF;
+
+  IF v_eligible_units = 0 THEN
+    RAISE EXCEPTION 'Promo code does not apply to items in your cart: %', p_code;
+  END IF;
+
+  CASE v_promo.type
+    WHEN 'percentage' THEN
+      v_discount := ROUND(v_eligible_subtotal * v_promo.value / 100, 2);
+    WHEN 'fixed_amount' THEN
+      v_discount := LEAST(v_promo.value, v_eligible_subtotal);
+    WHEN 'free_shipping' THEN
+      v_discount := 0;
+    WHEN 'buy_x_get_y' THEN
+      -- Every complete set of buy + get units discounts the cheapest units
+      v_free_units := (v_eligible_units / (v_promo.buy_quantity + v_promo.get_quantity))
+        * v_promo.get_quantity;
+
+      IF v_free_units = 0 THEN
+        RAISE EXCEPTION 'Promo code requires % eligible items',
+          v_promo.buy_quantity + v_promo.get_quantity;
+      END IF;
+
+      SELECT ROUND(COALESCE(SUM(unit.price), 0) * v_promo.value / 100, 2) INTO v_discount
+      FROM (
+        SELECT l.price
+        FROM promotion_cart_lines(p_user_id, v_promo.category_ids, v_promo.collection_ids) l,
+          generate_series(1, l.quantity)
+        WHERE l.eligible
+        ORDER BY l.price ASC
+        LIMIT v_free_units
+      ) unit;
+  END CASE;
+
+  RETURN QUERY SELECT v_promo.id, v_discount, v_promo.type = 'free_shipping';
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Preview a code against the signed-in user's cart (checkout summary)
+CREATE OR REPLACE FUNCTION validate_promo_code(p_code TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  v_result RECORD;
+  v_promo public.promotions;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_result FROM evaluate_promotion(p_code, auth.uid());
+  SELECT pr.* INTO v_promo FROM public.promotions pr WHERE pr.id = v_result.promotion_id;
+
+  RETURN jsonb_build_object(
+    'promotion_id', v_promo.id,
+    'code', v_promo.code,
+    'name', v_promo.name,
+    'type', v_promo.type,
+    'item_discount', v_result.item_discount,
+    'free_shipping', v_result.free_shipping
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Give a code's use back when its order is cancelled
+CREATE OR REPLACE FUNCTION release_order_promotion(p_order_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_promotion_id UUID;
+BEGIN
+  DELETE FROM public.promotion_redemptions pr
+  WHERE pr.order_id = p_order_id
+  RETURNING pr.promotion_id INTO v_promotion_id;
+
+  IF v_promotion_id IS NOT NULL THEN
+    UPDATE public.promotions
+    SET usage_count = GREATEST(usage_count - 1, 0)
+    WHERE id = v_promotion_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION handle_order_promotion_release()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled'
+    AND NEW.promotion_id IS NOT NULL THEN
+    PERFORM release_order_promotion(NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS handle_order_promotion_release ON public.orders;
+CREATE TRIGGER handle_order_promotion_release
+  AFTER UPDATE OF status ON public.orders
+  FOR EACH ROW EXECUTE FUNCTION handle_order_promotion_release();
+
+REVOKE EXECUTE ON FUNCTION promotion_cart_lines(UUID, UUID[], UUID[]) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION evaluate_promotion(TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION release_order_promotion(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION validate_promo_code(TEXT) TO authenticated;
+
+-- ============================================================================
+-- PART 5: Apply promo codes when creating orders
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS create_order_with_items(UUID, JSONB, JSONB, TEXT, TEXT, TEXT, TEXT);
+
+-- Function to create order with items atomically (variant prices and stock,
+-- optional promo code and loyalty reward). The promo code is applied first;
+-- the loyalty reward then applies to what is left of the subtotal.
+CREATE OR REPLACE FUNCTION create_order_with_items(
+  p_user_id UUID,
+  p_shipping_address JSONB,
+  p_billing_address JSONB,
+  p_payment_method_id TEXT,
+  p_shipping_method TEXT,
+  p_notes TEXT DEFAULT NULL,
+  p_loyalty_code TEXT DEFAULT NULL,
+  p_promo_code TEXT DEFAULT NULL
+)
+RETURNS TABLE(
+  id UUID,
+  order_number TEXT,
+  status TEXT,
+  total DECIMAL,
+  discount_amount DECIMAL,
+  estimated_delivery DATE
+) AS $$
+DECLARE
+  v_order_id UUID;
+  v_order_number TEXT;
+  v_subtotal DECIMAL := 0;
+  v_total DECIMAL := 0;
+  v_shipping_cost DECIMAL := 0;
+  v_tax DECIMAL := 0;
+  v_item_discount DECIMAL := 0;
+  v_shipping_discount DECIMAL := 0;
+  v_promo_discount DECIMAL := 0;
+  v_promotion_id UUID;
+  v_promo RECORD;
+  v_redemption public.loyalty_redemptions;
+  v_estimated_delivery DATE;
+  cart_item RECORD;
+BEGIN
+  -- Generate order number
+  v_order_number := generate_order_number();
+
+  -- Calculate estimated delivery based on shipping method
+  CASE p_shipping_method
+    WHEN 'standard' THEN v_estimated_delivery := CURRENT_DATE + INTERVAL '5-7 days';
+    WHEN 'express' THEN v_estimated_delivery := CURRENT_DATE + INTERVAL '2-3 days';
+    WHEN 'overnight' THEN v_estimated_delivery := CURRENT_DATE + INTERVAL '1 day';
+    ELSE v_estimated_delivery := CURRENT_DATE + INTERVAL '5-7 days';
+  END CASE;
+
+  -- Calculate shipping cost
+  CASE p_shipping_method
+    WHEN 'standard' THEN v_shipping_cost := 0.00;
+    WHEN 'express' THEN v_shipping_cost := 9.99;
+    WHEN 'overnight' THEN v_shipping_cost := 19.99;
+    ELSE v_shipping_cost := 0.00;
+  END CASE;
+
+  -- Calculate subtotal from cart items (variant price overrides the product price)
+  FOR cart_item IN
+    SELECT
+      ci.product_id,
+      ci.variant_id,
+      ci.quantity,
+      COALESCE(v.price_override, p.price) AS price,
+      CASE WHEN ci.variant_id IS NULL THEN p.inventory_count ELSE v.inventory_count END
+        AS inventory_count,
+      CASE WHEN ci.variant_id IS NULL THEN p.name ELSE p.name || ' (' || v.sku || ')' END
+        AS name,
+      ci.variant_id IS NOT NULL AND (v.id IS NULL OR NOT v.is_active) AS variant_unavailable
+    FROM cart_items ci
+    JOIN products p ON ci.product_id = p.id
+    LEFT JOIN product_variants v ON ci.variant_id = v.id
+    WHERE ci.user_id = p_user_id
+  LOOP
+    IF cart_item.variant_unavailable THEN
+      RAISE EXCEPTION 'Variant is no longer available for product: %', cart_item.name;
+    END IF;
+
+    -- Check inventory
+    IF cart_item.inventory_count < cart_item.quantity THEN
+      RAISE EXCEPTION 'Insufficient inventory for product: %', cart_item.name;
+    END IF;
+
+    v_subtotal := v_subtotal + (cart_item.price * cart_item.quantity);
+  END LOOP;
+
+  -- Apply a promo code (locked so concurrent orders respect usage limits)
+  IF p_promo_code IS NOT NULL AND trim(p_promo_code) <> '' THEN
+    PERFORM 1 FROM public.promotions pr WHERE pr.code = upper(trim(p_promo_code)) FOR UPDATE;
+
+    SELECT * INTO v_promo FROM evaluate_promotion(p_promo_code, p_user_id);
+
+    v_promotion_id := v_promo.promotion_id;
+    v_promo_discount := v_promo.item_discount;
+    IF v_promo.free_shipping THEN
+      v_shipping_discount := v_shipping_cost;
+    END IF;
+  END IF;
+
+  v_item_discount := v_promo_discount;
+
+  -- Apply a redeemed loyalty reward
+  IF p_loyalty_code IS NOT NULL AND trim(p_loyalty_code) <> '' THEN
+    SELECT r.* INTO v_redemption
+    FROM public.loyalty_redemptions r
+    WHERE r.code = upper(trim(p_loyalty_code))
+      AND r.user_id = p_user_id
+      AND r.status = 'active'
+      AND (r.expires_at IS NULL OR r.expires_at > NOW())
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Invalid or already used loyalty reward: %', p_loyalty_code;
+    END IF;
+
+    CASE v_redemption.reward_type
+      WHEN 'discount' THEN
+        IF v_redemption.is_percentage THEN
+          v_item_discount := v_item_discount + ROUND(
+            (v_subtotal - v_promo_discount) * LEAST(v_redemption.reward_value, 100) / 100, 2
+          );
+        ELSE
+          v_item_discount := v_item_discount
+            + LEAST(v_redemption.reward_value, v_subtotal - v_promo_discount);
+        END IF;
+      WHEN 'free_shipping' THEN
+        v_shipping_discount := v_shipping_cost;
+      ELSE
+        RAISE EXCEPTION 'Loyalty reward cannot be applied at checkout: %', p_loyalty_code;
+    END CASE;
+  END IF;
+
+  -- Calculate tax (8% for now) on the discounted subtotal
+  v_tax := (v_subtotal - v_item_discount) * 0.08;
+  v_total := v_subtotal - v_item_discount + v_shipping_cost - v_shipping_discount + v_tax;
+
+  -- Create the order
+  INSERT INTO public.orders (
+    user_id,
+    order_number,
+    status,
+    total,
+    discount_amount,
+    loyalty_redemption_id,
+    promotion_id,
+    promo_code,
+    shipping_address,
+    payment_intent_id,
+    estimated_delivery,
+    notes
+  ) VALUES (
+    p_user_id,
+    v_order_number,
+    'pending',
+    v_total,
+    v_item_discount + v_shipping_discount,
+    v_redemption.id,
+    v_promotion_id,
+    CASE WHEN v_promotion_id IS NOT NULL THEN upper(trim(p_promo_code)) END,
+    p_shipping_address,
+    p_payment_method_id,
+    v_estimated_delivery,
+    p_notes
+  ) RETURNING orders.id INTO v_order_id;
+
+  -- Count the promo code use against its limits
+  IF v_promotion_id IS NOT NULL THEN
+    INSERT INTO public.promotion_redemptions (promotion_id, user_id, order_id, discount_amount)
+    VALUES (
+      v_promotion_id,
+      p_user_id,
+      v_order_id,
+      v_promo_discount + CASE WHEN v_promo.free_shipping THEN v_shipping_cost ELSE 0 END
+    );
+
+    UPDATE public.promotions
+    SET usage_count = usage_count + 1
+    WHERE promotions.id = v_promotion_id;
+  END IF;
+
+  -- The reward code is single use
+  IF v_redemption.id IS NOT NULL THEN
+    UPDATE public.loyalty_redemptions
+    SET status = 'used', order_id = v_order_id, updated_at = NOW()
+    WHERE loyalty_redemptions.id = v_redemption.id;
+  END IF;
+
+  -- Create order items and update inventory
+  FOR cart_item IN
+    SELECT ci.product_id, ci.variant_id, ci.quantity, COALESCE(v.price_override, p.price) AS price, v.sku
+    FROM cart_items ci
+    JOIN products p ON ci.product_id = p.id
+    LEFT JOIN product_variants v ON ci.variant_id = v.id
+    WHERE ci.user_id = p_user_id
+  LOOP
+    -- Insert order item
+    INSERT INTO public.order_items (
+      order_id,
+      product_id,
+      variant_id,
+      sku,
+      quantity,
+      price
+    ) VALUES (
+      v_order_id,
+      cart_item.product_id,
+      cart_item.variant_id,
+      cart_item.sku,
+      cart_item.quantity,
+      cart_item.price
+    );
+
+    -- Update product (or variant) inventory
+    PERFORM reduce_product_inventory(
+      cart_item.product_id,
+      cart_item.quantity,
+      cart_item.variant_id
+    );
+  END LOOP;
+
+  -- Clear the user's cart
+  DELETE FROM public.cart_items WHERE user_id = p_user_id;
+
+  -- Return order details
+  RETURN QUERY
+  SELECT
+    v_order_id,
+    v_order_number,
+    'pending'::TEXT,
+    v_total,
+    v_item_discount + v_shipping_discount,
+    v_estimated_delivery;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION create_order_with_items TO authenticated;
+
+COMMENT ON TABLE public.promotions IS
+  'Promo codes: percentage, fixed amount, free shipping or buy X get Y, optionally targeted';
+COMMENT ON COLUMN public.promotions.value IS
+  'Percent off for percentage and buy_x_get_y (100 = free items), amount off for fixed_amount';
+COMMENT ON COLUMN public.orders.promo_code IS
+  'Promo code applied at checkout; its use is released if the order is cancelled';
@@ -0,0 +1,139 @@
+-- Campaigns Migration
+-- Persists marketing campaigns and the product groups they are built from
+-- (Campaign and ProductGroup in types/shop.ts).
+
+-- ============================================================================
+-- PART 1: Product groups
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.product_groups (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  description TEXT,
+  product_ids UUID[] NOT NULL DEFAULT '{}',
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+ALTER TABLE public.product_groups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage product groups" ON public.product_groups
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = auth.uid() AND users.role = 'admin'
+    )
+  );
+
+CREATE TRIGGER handle_product_groups_updated_at
+  BEFORE UPDATE ON public.product_groups
+  FOR EACH ROW EXECUTE FUNCTION handle_updated_at();
+
+-- ============================================================================
+-- PART 2: Campaigns
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.campaigns (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  slug TEXT NOT NULL UNIQUE,
+  description TEXT,
+  type TEXT NOT NULL CHECK (type IN ('sale', 'collection', 'editorial', 'seasonal', 'new-arrivals')),
+  status TEXT NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'scheduled', 'active', 'expired', 'archived')),
+  product_group_id UUID REFERENCES public.product_groups(id) ON DELETE SET NULL,
+  product_ids UUID[] NOT NULL DEFAULT '{}',
+  start_date TIMESTAMPTZ,
+  end_date TIMESTAMPTZ,
+  banner_image_url TEXT,
+  thumbnail_url TEXT,
+  theme_color TEXT,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_featured BOOLEAN NOT NULL DEFAULT FALSE,
+  show_on_homepage BOOLEAN NOT NULL DEFAULT FALSE,
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  CHECK (end_date IS NULL OR start_date IS NULL OR end_date > start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_campaigns_status ON public.campaigns(status);
+CREATE INDEX IF NOT EXISTS idx_campaigns_sort_order ON public.campaigns(sort_order);
+CREATE INDEX IF NOT EXISTS idx_campaigns_dates ON public.campaigns(start_date, end_date);
+
+ALTER TABLE public.campaigns ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage campaigns" ON public.campaigns
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = auth.uid() AND users.role = 'admin'
+    )
+  );
+
+CREATE TRIGGER handle_campaigns_updated_at
+  BEFORE UPDATE ON public.campaigns
+  FOR EACH ROW EXECUTE FUNCTION handle_updated_at();
+
+-- ============================================================================
+-- PART 3: Automatic scheduled / active / expired transitions
+-- ============================================================================
+
+-- Draft and archived are set by hand; every other status follows the dates.
+-- Mirrors getCampaignStatus in lib/utils/shop-helpers.ts.
+CREATE OR REPLACE FUNCTION campaign_status_for_dates(
+  p_status TEXT,
+  p_start_date TIMESTAMPTZ,
+  p_end_date TIMESTAMPTZ,
+  p_now TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN p_status IN ('draft', 'archived') THEN p_status
+    WHEN p_end_date IS NOT NULL AND p_end_date <= p_now THEN 'expired'
+    WHEN p_start_date IS NOT NULL AND p_start_date > p_now THEN 'scheduled'
+    ELSE 'active'
+  END;
+$$ LANGUAGE sql STABLE;
+
+-- Goes by the dates rather than the stored status, which is only refreshed
+-- when a row is written or refresh_campaign_statuses runs
+CREATE POLICY "Active campaigns are viewable by everyone" ON public.campaigns
+  FOR SELECT USING (campaign_status_for_dates(status, start_date, end_date) = 'active');
+
+CREATE OR REPLACE FUNCTION sync_campaign_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.status := campaign_status_for_dates(NEW.status, NEW.start_date, NEW.end_date);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS sync_campaign_status ON public.campaigns;
+CREATE TRIGGER sync_campaign_status
+  BEFORE INSERT OR UPDATE ON public.campaigns
+  FOR EACH ROW EXECUTE FUNCTION sync_campaign_status();
+
+-- Move campaigns whose start or end date has passed (called by the campaigns
+-- cron and before the admin list)
+CREATE OR REPLACE FUNCTION refresh_campaign_statuses()
+RETURNS INTEGER AS $$
+DECLARE
+  v_updated INTEGER;
+BEGIN
+  UPDATE public.campaigns c
+  SET status = campaign_status_for_dates(c.status, c.start_date, c.end_date)
+  WHERE c.status IN ('scheduled', 'active', 'expired')
+    AND c.status <> campaign_status_for_dates(c.status, c.start_date, c.end_date);
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  RETURN v_updated;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION refresh_campaign_statuses() TO authenticated, service_role;
+
+COMMENT ON TABLE public.campaigns IS 'Marketing campaigns and curated product selections';
+COMMENT ON FUNCTION refresh_campaign_statuses IS
+  'Apply date-based scheduled/active/expired transitions; returns the number of campaigns moved';
@@ -0,0 +1,79 @@
+-- Campaign Showcase Section Migration
+-- Adds the campaign_showcase homepage section type, which lists active
+-- featured campaigns linking to their /campaigns/[slug] landing pages.
+
+-- ============================================================================
+-- PART 1: Allow the new section type
+-- ============================================================================
+
+ALTER TABLE public.homepage_sections
+  DROP CONSTRAINT IF EXISTS homepage_sections_section_type_check;
+
+ALTER TABLE public.homepage_sections
+  ADD CONSTRAINT homepage_sections_section_type_check CHECK (section_type IN (
+    'hero_banner',
+    'product_carousel',
+    'text_block',
+    'category_grid',
+    'promo_banner',
+    'newsletter',
+    'custom_html',
+    'campaign_showcase'
+  ));
+
+-- ============================================================================
+-- PART 2: Content validation
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.validate_section_content(
+  p_section_type TEXT,
+  p_content JSONB
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  -- Validation logic for each section type
+  CASE p_section_type
+    WHEN 'hero_banner' THEN
+      -- Require: title, media (image or video), cta
+      RETURN (
+        p_content ? 'title' AND
+        (p_content ? 'image_url' OR p_content ? 'video_url')
+      );
+
+    WHEN 'product_carousel' THEN
+      -- Require: title
+      RETURN p_content ? 'title';
+
+    WHEN 'text_block' THEN
+      -- Require: content
+      RETURN p_content ? 'content';
+
+    WHEN 'category_grid' THEN
+      -- Require: title or allow empty
+      RETURN true;
+
+    WHEN 'promo_banner' THEN
+      -- Require: title, cta
+      RETURN (p_content ? 'title' AND p_content ? 'cta');
+
+    WHEN 'newsletter' THEN
+      -- Require: title, placeholder
+      RETURN p_content ? 'title';
+
+    WHEN 'custom_html' THEN
+      -- Require: html
+      RETURN p_content ? 'html';
+
+    WHEN 'campaign_showcase' THEN
+      -- Require: a positive limit; campaigns are picked at render time
+      RETURN (
+        p_content ? 'limit' AND
+        jsonb_typeof(p_content->'limit') = 'number' AND
+        (p_content->>'limit')::INTEGER > 0
+      );
+
+    ELSE
+      RETURN false;
+  END CASE;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
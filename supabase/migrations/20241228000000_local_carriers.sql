@@ -0,0 +1,10 @@
+-- Local Carriers Migration
+-- Allows shipments through Israel Post and the HFD courier
+-- (CARRIERS in lib/shipping/carriers.ts).
+
+ALTER TABLE public.shipments
+  DROP CONSTRAINT IF EXISTS shipments_carrier_check;
+
+ALTER TABLE public.shipments
+  ADD CONSTRAINT shipments_carrier_check
+  CHECK (carrier IN ('ups', 'fedex', 'usps', 'dhl', 'israel_post', 'hfd'));
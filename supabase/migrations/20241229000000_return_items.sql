@@ -0,0 +1,352 @@
+-- ============================================================================
+-- Item-Level Returns Migration
+-- Return requests now list the order items (and quantities) being sent back,
+-- carry an RMA number, refund amount and return shipping label, and move
+-- through pending -> approved/rejected -> received -> completed. Approving a
+-- return restocks the items, takes back the refunded share of the loyalty
+-- points and marks fully returned orders as refunded.
+-- ============================================================================
+
+-- ============================================================================
+-- PART 1: RETURN REQUEST COLUMNS
+-- ============================================================================
+
+ALTER TABLE public.return_requests
+ADD COLUMN IF NOT EXISTS rma_number TEXT UNIQUE
+  DEFAULT ('RMA-' || upper(substr(md5(gen_random_uuid()::text), 1, 8))),
+ADD COLUMN IF NOT EXISTS refund_amount DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (refund_amount >= 0),
+ADD COLUMN IF NOT EXISTS stripe_refund_id TEXT,
+ADD COLUMN IF NOT EXISTS refunded_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS return_carrier TEXT,
+ADD COLUMN IF NOT EXISTS return_tracking_number TEXT,
+ADD COLUMN IF NOT EXISTS return_label_url TEXT,
+ADD COLUMN IF NOT EXISTS approved_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS rejected_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS received_at TIMESTAMPTZ;
+
+-- Goods are received after approval ('completed' is kept for older requests)
+ALTER TABLE public.return_requests DROP CONSTRAINT IF EXISTS return_requests_status_check;
+ALTER TABLE public.return_requests ADD CONSTRAINT return_requests_status_check
+  CHECK (status IN ('pending', 'approved', 'rejected', 'received', 'completed'));
+
+CREATE INDEX IF NOT EXISTS idx_return_requests_created_at ON public.return_requests(created_at DESC);
+
+-- ============================================================================
+-- PART 2: RETURN LINE ITEMS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.return_request_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  return_request_id UUID NOT NULL REFERENCES public.return_requests(id) ON DELETE CASCADE,
+  order_item_id UUID NOT NULL REFERENCES public.order_items(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  condition TEXT NOT NULL DEFAULT 'unopened'
+    CHECK (condition IN ('unopened', 'like_new', 'used', 'damaged')),
+  reason TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  UNIQUE(return_request_id, order_item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_return_request_items_request ON public.return_request_items(return_request_id);
+CREATE INDEX IF NOT EXISTS idx_return_request_items_order_item ON public.return_request_items(order_item_id);
+
+ALTER TABLE public.return_request_items ENABLE ROW LEVEL SECURITY;
+
+-- Items are written by create_return_request only
+CREATE POLICY "Users can view their own return items" ON public.return_request_items
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.return_requests rr
+      WHERE rr.id = return_request_id AND rr.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all return items" ON public.return_request_items
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = auth.uid() AND users.role = 'admin'
+    )
+  );
+
+-- ============================================================================
+-- PART 3: CREATING RETURNS
+-- ============================================================================
+
+-- Units of an order item not already covered by a pending or accepted return
+CREATE OR REPLACE FUNCTION public.returnable_quantity(p_order_item_id UUID)
+RETURNS INTEGER AS $$
+  SELECT (oi.quantity - COALESCE((
+    SELECT SUM(ri.quantity)
+    FROM public.return_request_items ri
+    JOIN public.return_requests rr ON rr.id = ri.return_request_id
+    WHERE ri.order_item_id = oi.id AND rr.status <> 'rejected'
+  ), 0))::INTEGER
+  FROM public.order_items oi
+  WHERE oi.id = p_order_item_id;
+$$ LANGUAGE sql STABLE;
+
+-- Open a return for the session user's delivered order, within 30 days of the
+-- order. p_items is a JSON array of {order_item_id, quantity, condition?,
+-- reason?}; when it is NULL or empty everything still returnable is included.
+-- The refund defaults to the items' share of the order total, capped by what
+-- has not been refunded yet.
+CREATE OR REPLACE FUNCTION public.create_return_request(
+  p_order_id UUID,
+  p_reason TEXT,
+  p_items JSONB DEFAULT NULL
+)
+RETURNS public.return_requests AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_order RECORD;
+  v_request public.return_requests;
+  v_item JSONB;
+  v_order_item RECORD;
+  v_quantity INTEGER;
+  v_item_count INTEGER := 0;
+  v_items_subtotal DECIMAL(10,2);
+  v_return_value DECIMAL(10,2) := 0;
+  v_already_refunded DECIMAL(10,2);
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Return requires a signed-in customer';
+  END IF;
+
+  SELECT o.id, o.status, o.total, o.created_at INTO v_order
+  FROM public.orders o
+  WHERE o.id = p_order_id AND o.user_id = v_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Return order not found';
+  END IF;
+
+  IF v_order.status <> 'delivered' THEN
+    RAISE EXCEPTION 'Return is only possible for delivered orders';
+  END IF;
+
+  IF v_order.created_at < NOW() - INTERVAL '30 days' THEN
+    RAISE EXCEPTION 'Return window has expired. Returns must be requested within 30 days of delivery.';
+  END IF;
+
+  INSERT INTO public.return_requests (order_id, user_id, reason, status)
+  VALUES (p_order_id, v_user_id, trim(p_reason), 'pending')
+  RETURNING * INTO v_request;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    FOR v_order_item IN
+      SELECT oi.id, oi.price, public.returnable_quantity(oi.id) AS remaining
+      FROM public.order_items oi
+      WHERE oi.order_id = p_order_id
+    LOOP
+      IF v_order_item.remaining > 0 THEN
+        INSERT INTO public.return_request_items (return_request_id, order_item_id, quantity)
+        VALUES (v_request.id, v_order_item.id, v_order_item.remaining);
+
+        v_item_count := v_item_count + 1;
+        v_return_value := v_return_value + v_order_item.price * v_order_item.remaining;
+      END IF;
+    END LOOP;
+  ELSE
+    FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+    LOOP
+      SELECT oi.id, oi.price, public.returnable_quantity(oi.id) AS remaining INTO v_order_item
+      FROM public.order_items oi
+      WHERE oi.id = (v_item->>'order_item_id')::UUID AND oi.order_id = p_order_id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Return item % is not part of this order', v_item->>'order_item_id';
+      END IF;
+
+      v_quantity := (v_item->>'quantity')::INTEGER;
+
+      IF v_quantity IS NULL OR v_quantity < 1 OR v_quantity > v_order_item.remaining THEN
+        RAISE EXCEPTION 'Return quantity for item % must be between 1 and %',
+          v_order_item.id, v_order_item.remaining;
+      END IF;
+
+      INSERT INTO public.return_request_items (
+        return_request_id, order_item_id, quantity, condition, reason
+      ) VALUES (
+        v_request.id,
+        v_order_item.id,
+        v_quantity,
+        COALESCE(v_item->>'condition', 'unopened'),
+        NULLIF(trim(v_item->>'reason'), '')
+      );
+
+      v_item_count := v_item_count + 1;
+      v_return_value := v_return_value + v_order_item.price * v_quantity;
+    END LOOP;
+  END IF;
+
+  IF v_item_count = 0 THEN
+    RAISE EXCEPTION 'Return has no items left to return';
+  END IF;
+
+  SELECT COALESCE(SUM(oi.price * oi.quantity), 0) INTO v_items_subtotal
+  FROM public.order_items oi
+  WHERE oi.order_id = p_order_id;
+
+  SELECT COALESCE(SUM(rr.refund_amount), 0) INTO v_already_refunded
+  FROM public.return_requests rr
+  WHERE rr.order_id = p_order_id
+    AND rr.id <> v_request.id
+    AND rr.status IN ('approved', 'received', 'completed');
+
+  UPDATE public.return_requests
+  SET refund_amount = GREATEST(LEAST(
+    ROUND(v_return_value / NULLIF(v_items_subtotal, 0) * v_order.total, 2),
+    v_order.total - v_already_refunded
+  ), 0)
+  WHERE id = v_request.id
+  RETURNING * INTO v_request;
+
+  RETURN v_request;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.create_return_request(UUID, TEXT, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.returnable_quantity(UUID) TO authenticated;
+
+-- ============================================================================
+-- PART 4: STATUS WORKFLOW
+-- ============================================================================
+
+-- Only forward moves are allowed; each one is timestamped
+CREATE OR REPLACE FUNCTION public.enforce_return_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT (
+    (OLD.status = 'pending' AND NEW.status IN ('approved', 'rejected')) OR
+    (OLD.status = 'approved' AND NEW.status = 'received') OR
+    (OLD.status = 'received' AND NEW.status = 'completed')
+  ) THEN
+    RAISE EXCEPTION 'Return request cannot move from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  CASE NEW.status
+    WHEN 'approved' THEN NEW.approved_at := NOW();
+    WHEN 'rejected' THEN NEW.rejected_at := NOW();
+    WHEN 'received' THEN NEW.received_at := NOW();
+    ELSE NULL;
+  END CASE;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_return_status_transition ON public.return_requests;
+CREATE TRIGGER enforce_return_status_transition
+  BEFORE UPDATE OF status ON public.return_requests
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_return_status_transition();
+
+-- Approval restocks the returned units (except damaged ones) and refunds the
+-- order once every unit has been returned
+CREATE OR REPLACE FUNCTION public.handle_return_approval()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_item RECORD;
+BEGIN
+  IF NEW.status <> 'approved' OR OLD.status = 'approved' THEN
+    RETURN NEW;
+  END IF;
+
+  FOR v_item IN
+    SELECT oi.product_id, oi.variant_id, ri.quantity
+    FROM public.return_request_items ri
+    JOIN public.order_items oi ON oi.id = ri.order_item_id
+    WHERE ri.return_request_id = NEW.id AND ri.condition <> 'damaged'
+  LOOP
+    PERFORM restore_product_inventory(v_item.product_id, v_item.quantity, v_item.variant_id);
+  END LOOP;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.order_items oi
+    WHERE oi.order_id = NEW.order_id
+      AND oi.quantity > COALESCE((
+        SELECT SUM(ri.quantity)
+        FROM public.return_request_items ri
+        JOIN public.return_requests rr ON rr.id = ri.return_request_id
+        WHERE ri.order_item_id = oi.id AND rr.status IN ('approved', 'received', 'completed')
+      ), 0)
+  ) THEN
+    UPDATE public.orders
+    SET status = 'refunded', updated_at = NOW()
+    WHERE id = NEW.order_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS handle_return_approval_trigger ON public.return_requests;
+CREATE TRIGGER handle_return_approval_trigger
+  AFTER UPDATE OF status ON public.return_requests
+  FOR EACH ROW EXECUTE FUNCTION public.handle_return_approval();
+
+-- ============================================================================
+-- PART 5: LOYALTY POINTS
+-- ============================================================================
+
+-- Approving a return takes back the refunded share of the points the order
+-- earned; a fully returned order is marked refunded, which reverses the rest
+CREATE OR REPLACE FUNCTION public.handle_return_loyalty_points()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_order RECORD;
+  v_earned_points INTEGER;
+  v_net_points INTEGER;
+  v_points INTEGER;
+BEGIN
+  IF NEW.status <> 'approved' OR OLD.status = 'approved' OR NEW.refund_amount <= 0 THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT o.user_id, o.total INTO v_order
+  FROM public.orders o
+  WHERE o.id = NEW.order_id;
+
+  IF NOT FOUND OR v_order.user_id IS NULL OR v_order.total <= 0 THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT
+    COALESCE(SUM(points) FILTER (WHERE type = 'earned'), 0),
+    COALESCE(SUM(points), 0)
+  INTO v_earned_points, v_net_points
+  FROM public.loyalty_transactions
+  WHERE order_id = NEW.order_id AND type IN ('earned', 'reversed');
+
+  -- Never more than the order still holds, so overlapping returns can't overdraw it
+  v_points := LEAST(
+    ROUND(v_earned_points * LEAST(NEW.refund_amount / v_order.total, 1))::INTEGER,
+    v_net_points
+  );
+
+  IF v_points > 0 THEN
+    PERFORM public.record_loyalty_transaction(
+      v_order.user_id,
+      'reversed',
+      -v_points,
+      'Points reversed for returned items',
+      NEW.order_id,
+      NULL,
+      -NEW.refund_amount
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON TABLE public.return_request_items IS 'Order items (and quantities) included in a return request';
+COMMENT ON FUNCTION public.create_return_request IS
+  'Open an item-level return for the session user''s delivered order';
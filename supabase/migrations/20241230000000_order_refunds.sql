@@ -0,0 +1,241 @@
+-- Order Refunds Migration
+-- Records every Stripe refund against its order and payment intent, whether it
+-- was issued from the admin order page, a return approval or the Stripe dashboard.
+
+-- ============================================================================
+-- PART 1: Refunds
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.refunds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  payment_intent_id TEXT REFERENCES public.payment_intents(id) ON DELETE SET NULL,
+  return_request_id UUID REFERENCES public.return_requests(id) ON DELETE SET NULL,
+  stripe_refund_id TEXT UNIQUE,
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  -- The payment's currency; there is no default since the store currency is configurable
+  currency TEXT NOT NULL,
+  reason TEXT NOT NULL DEFAULT 'requested_by_customer'
+    CHECK (reason IN ('duplicate', 'fraudulent', 'requested_by_customer', 'other')),
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'requires_action', 'succeeded', 'failed', 'canceled')),
+  notes TEXT,
+  failure_reason TEXT,
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_refunds_order_id ON public.refunds(order_id);
+CREATE INDEX IF NOT EXISTS idx_refunds_payment_intent_id ON public.refunds(payment_intent_id);
+CREATE INDEX IF NOT EXISTS idx_refunds_return_request_id ON public.refunds(return_request_id);
+-- A return is refunded at most once; failed and canceled attempts can be retried
+CREATE UNIQUE INDEX IF NOT EXISTS idx_refunds_return_request_id_active
+  ON public.refunds(return_request_id)
+  WHERE return_request_id IS NOT NULL AND status IN ('pending', 'requires_action', 'succeeded');
+
+ALTER TABLE public.refunds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view refunds for their orders" ON public.refunds
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.orders
+      WHERE orders.id = refunds.order_id AND orders.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can manage refunds" ON public.refunds
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = auth.uid() AND users.role = 'admin'
+    )
+  );
+
+CREATE TRIGGER handle_refunds_updated_at
+  BEFORE UPDATE ON public.refunds
+  FOR EACH ROW EXECUTE FUNCTION handle_updated_at();
+
+-- ============================================================================
+-- PART 2: Refundable balance
+-- ============================================================================
+
+-- Pending refunds count too, so two admins can't refund the same balance
+CREATE OR REPLACE FUNCTION public.order_refundable_amount(p_order_id UUID)
+RETURNS DECIMAL(10,2) AS $$
+  SELECT GREATEST(
+    o.total - COALESCE((
+      SELECT SUM(r.amount)
+      FROM public.refunds r
+      WHERE r.order_id = o.id AND r.status IN ('pending', 'requires_action', 'succeeded')
+    ), 0),
+    0
+  )
+  FROM public.orders o
+  WHERE o.id = p_order_id;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION public.order_refundable_amount(UUID) TO authenticated;
+
+-- Records a refund before it is sent to Stripe, holding its share of the
+-- balance. The order row is locked while the balance is checked, so two admins
+-- (or two approvals of the same return) can't both refund the same money. A
+-- return that already has a refund gets that refund back instead.
+CREATE OR REPLACE FUNCTION public.create_pending_refund(
+  p_order_id UUID,
+  p_payment_intent_id TEXT,
+  p_amount DECIMAL,
+  p_currency TEXT,
+  p_reason TEXT,
+  p_notes TEXT DEFAULT NULL,
+  p_return_request_id UUID DEFAULT NULL,
+  p_created_by UUID DEFAULT NULL
+)
+RETURNS public.refunds AS $$
+DECLARE
+  v_refund public.refunds;
+  v_refundable DECIMAL(10,2);
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.users
+    WHERE users.id = auth.uid() AND users.role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can issue refunds';
+  END IF;
+
+  PERFORM 1 FROM public.orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found: %', p_order_id;
+  END IF;
+
+  IF p_return_request_id IS NOT NULL THEN
+    SELECT r.* INTO v_refund
+    FROM public.refunds r
+    WHERE r.return_request_id = p_return_request_id
+      AND r.status IN ('pending', 'requires_action', 'succeeded');
+
+    IF FOUND THEN
+      RETURN v_refund;
+    END IF;
+  END IF;
+
+  v_refundable := public.order_refundable_amount(p_order_id);
+
+  IF p_amount > v_refundable THEN
+    RAISE EXCEPTION 'Refund exceeds the refundable amount: %', v_refundable;
+  END IF;
+
+  INSERT INTO public.refunds (
+    order_id,
+    payment_intent_id,
+    return_request_id,
+    amount,
+    currency,
+    reason,
+    notes,
+    created_by
+  ) VALUES (
+    p_order_id,
+    p_payment_intent_id,
+    p_return_request_id,
+    p_amount,
+    p_currency,
+    p_reason,
+    p_notes,
+    p_created_by
+  ) RETURNING * INTO v_refund;
+
+  RETURN v_refund;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.create_pending_refund(UUID, TEXT, DECIMAL, TEXT, TEXT, TEXT, UUID, UUID)
+  FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_pending_refund(UUID, TEXT, DECIMAL, TEXT, TEXT, TEXT, UUID, UUID)
+  TO authenticated;
+
+-- ============================================================================
+-- PART 3: Fully refunded orders
+-- ============================================================================
+
+-- Marks the order refunded once succeeded refunds cover its total; cancelled
+-- orders keep their status
+CREATE OR REPLACE FUNCTION public.sync_order_refund_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status <> 'succeeded' THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.orders o
+  SET status = 'refunded', updated_at = NOW()
+  WHERE o.id = NEW.order_id
+    AND o.status NOT IN ('refunded', 'cancelled')
+    AND o.total <= (
+      SELECT COALESCE(SUM(r.amount), 0)
+      FROM public.refunds r
+      WHERE r.order_id = o.id AND r.status = 'succeeded'
+    );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS sync_order_refund_status ON public.refunds;
+CREATE TRIGGER sync_order_refund_status
+  AFTER INSERT OR UPDATE OF status ON public.refunds
+  FOR EACH ROW EXECUTE FUNCTION public.sync_order_refund_status();
+
+-- ============================================================================
+-- PART 4: Cancelling refunded orders
+-- ============================================================================
+
+-- Cancels an order that an admin refunded and puts its items back in stock.
+-- Keyed on the order alone, unlike cancel_order_with_inventory_restore, so it
+-- covers guest orders, which have no user_id; hence service role only.
+CREATE OR REPLACE FUNCTION public.cancel_refunded_order(
+  p_order_id UUID,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  order_item RECORD;
+BEGIN
+  -- Locked so a concurrent cancellation can't restock the items twice
+  PERFORM 1 FROM public.orders
+  WHERE id = p_order_id AND status IN ('pending', 'processing')
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found or cannot be cancelled';
+  END IF;
+
+  UPDATE public.orders
+  SET status = 'cancelled', cancellation_reason = p_reason, updated_at = NOW()
+  WHERE id = p_order_id;
+
+  FOR order_item IN
+    SELECT oi.product_id, oi.variant_id, oi.quantity
+    FROM public.order_items oi
+    WHERE oi.order_id = p_order_id
+  LOOP
+    PERFORM restore_product_inventory(
+      order_item.product_id,
+      order_item.quantity,
+      order_item.variant_id
+    );
+  END LOOP;
+
+  INSERT INTO public.order_status_history (order_id, status, notes, created_at)
+  VALUES (p_order_id, 'cancelled', p_reason, NOW())
+  ON CONFLICT DO NOTHING;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.cancel_refunded_order(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_refunded_order(UUID, TEXT) TO service_role;
+
+COMMENT ON TABLE public.refunds IS 'Stripe refunds issued against orders';
+COMMENT ON FUNCTION public.order_refundable_amount IS
+  'Order total less every refund that has not failed or been canceled';
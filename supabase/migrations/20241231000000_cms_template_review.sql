@@ -0,0 +1,32 @@
+-- CMS Template Review Migration
+-- Optional approval gate: when a template requires review, editors submit a
+-- version, a reviewer or owner approves or rejects it, and only the approved
+-- version can be published or scheduled.
+
+-- ============================================================================
+-- PART 1: Review columns
+-- ============================================================================
+
+ALTER TABLE public.cms_templates
+  ADD COLUMN IF NOT EXISTS requires_review BOOLEAN DEFAULT false NOT NULL,
+  ADD COLUMN IF NOT EXISTS review_version_id UUID REFERENCES public.cms_template_versions(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS review_requested_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS review_requested_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS approved_version_id UUID REFERENCES public.cms_template_versions(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS approved_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS approved_at TIMESTAMPTZ;
+
+-- A template is only in review while a version is waiting on a decision
+ALTER TABLE public.cms_templates
+  ADD CONSTRAINT cms_templates_review_version CHECK (
+    status <> 'review' OR review_version_id IS NOT NULL
+  );
+
+CREATE INDEX IF NOT EXISTS idx_cms_templates_pending_review
+  ON public.cms_templates(review_requested_at)
+  WHERE status = 'review' AND is_deleted = false;
+
+COMMENT ON COLUMN public.cms_templates.requires_review IS
+  'When set, only the approved version can be published or scheduled';
+COMMENT ON COLUMN public.cms_templates.review_version_id IS 'Version awaiting a review decision';
+COMMENT ON COLUMN public.cms_templates.approved_version_id IS 'Latest version a reviewer approved';
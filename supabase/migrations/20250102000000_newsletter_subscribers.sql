@@ -0,0 +1,97 @@
+-- Newsletter Subscribers Migration
+-- Double opt-in newsletter list. Signups stay pending until the confirmation
+-- link is opened; every subscriber gets a permanent unsubscribe token.
+-- Subscribers with an account are linked to their notification_preferences.
+
+-- ============================================================================
+-- PART 1: Subscribers
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.newsletter_subscribers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  email TEXT NOT NULL,
+  user_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'subscribed', 'unsubscribed')),
+  locale TEXT NOT NULL DEFAULT 'en' CHECK (locale IN ('en', 'he')),
+  topics TEXT[] NOT NULL DEFAULT ARRAY['new_arrivals', 'promotions'],
+  source TEXT,
+  confirmation_token TEXT UNIQUE,
+  confirmation_sent_at TIMESTAMPTZ,
+  confirmed_at TIMESTAMPTZ,
+  unsubscribe_token TEXT NOT NULL UNIQUE,
+  unsubscribed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_newsletter_subscribers_email
+  ON public.newsletter_subscribers(lower(email));
+CREATE INDEX IF NOT EXISTS idx_newsletter_subscribers_user_id
+  ON public.newsletter_subscribers(user_id);
+CREATE INDEX IF NOT EXISTS idx_newsletter_subscribers_status
+  ON public.newsletter_subscribers(status);
+
+-- Signups, confirmations and unsubscribes are written by the server with the
+-- service role key; the anon key can't read tokens
+ALTER TABLE public.newsletter_subscribers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their newsletter subscription" ON public.newsletter_subscribers
+  FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can manage newsletter subscribers" ON public.newsletter_subscribers
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = auth.uid() AND users.role = 'admin'
+    )
+  );
+
+CREATE TRIGGER handle_newsletter_subscribers_updated_at
+  BEFORE UPDATE ON public.newsletter_subscribers
+  FOR EACH ROW EXECUTE FUNCTION handle_updated_at();
+
+-- ============================================================================
+-- PART 2: Account linking
+-- ============================================================================
+
+-- Link an existing subscription when someone signs up with the same email
+CREATE OR REPLACE FUNCTION public.link_newsletter_subscriber()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.newsletter_subscribers
+  SET user_id = NEW.id
+  WHERE lower(email) = lower(NEW.email) AND user_id IS NULL;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS link_newsletter_subscriber ON public.users;
+CREATE TRIGGER link_newsletter_subscriber
+  AFTER INSERT ON public.users
+  FOR EACH ROW EXECUTE FUNCTION public.link_newsletter_subscriber();
+
+-- Turning marketing email off in account settings unsubscribes the linked
+-- newsletter subscription too
+CREATE OR REPLACE FUNCTION public.sync_newsletter_marketing_opt_out()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.email_marketing = false AND OLD.email_marketing IS DISTINCT FROM false THEN
+    UPDATE public.newsletter_subscribers
+    SET status = 'unsubscribed', unsubscribed_at = NOW()
+    WHERE user_id = NEW.user_id AND status <> 'unsubscribed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS sync_newsletter_marketing_opt_out ON public.notification_preferences;
+CREATE TRIGGER sync_newsletter_marketing_opt_out
+  AFTER UPDATE OF email_marketing ON public.notification_preferences
+  FOR EACH ROW EXECUTE FUNCTION public.sync_newsletter_marketing_opt_out();
+
+COMMENT ON TABLE public.newsletter_subscribers IS 'Double opt-in newsletter list';
+COMMENT ON COLUMN public.newsletter_subscribers.topics IS
+  'Content the subscriber asked for: new_arrivals, promotions, stories';
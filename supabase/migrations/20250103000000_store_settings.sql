@@ -0,0 +1,372 @@
+-- Store Settings Migration
+-- Moves the admin store, payment, shipping, notification and security
+-- settings into site_settings (one row per section), records every change in
+-- site_settings_history, and makes create_order_with_items charge the tax rate
+-- and shipping costs configured there instead of hardcoded values.
+
+-- ============================================================================
+-- PART 1: Settings sections
+-- ============================================================================
+
+-- Defaults match ISRAELI_CONFIG in lib/config/israeli-market.ts
+INSERT INTO public.site_settings (key, value) VALUES
+  ('store', '{
+    "name": "Peakees",
+    "description": "Modern Israeli E-commerce Platform",
+    "email": "support@peakees.co.il",
+    "phone": "+972-3-123-4567",
+    "address": "Tel Aviv, Israel",
+    "currency": "ILS",
+    "language": "he",
+    "timezone": "Asia/Jerusalem"
+  }'::jsonb),
+  ('payments', '{
+    "acceptedCards": ["visa", "mastercard", "isracard"],
+    "taxRate": 17
+  }'::jsonb),
+  ('shipping', '{
+    "freeShippingThreshold": 200,
+    "standard": {"enabled": true, "cost": 25, "estimatedDays": 3},
+    "express": {"enabled": true, "cost": 40, "estimatedDays": 1},
+    "overnight": {"enabled": false, "cost": 60, "estimatedDays": 1}
+  }'::jsonb),
+  ('notifications', '{
+    "orderNotifications": true,
+    "lowStockAlerts": true,
+    "customerEmails": true,
+    "adminEmails": true
+  }'::jsonb),
+  ('security', '{
+    "requireAccountForCheckout": false
+  }'::jsonb)
+ON CONFLICT (key) DO NOTHING;
+
+-- Notification and security settings are for admins only
+DROP POLICY IF EXISTS "Site settings are viewable by everyone" ON public.site_settings;
+
+CREATE POLICY "Site settings are viewable by everyone" ON public.site_settings
+  FOR SELECT USING (
+    key NOT IN ('notifications', 'security')
+    OR EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = auth.uid() AND users.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Only admins can insert site settings" ON public.site_settings
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = auth.uid() AND users.role = 'admin'
+    )
+  );
+
+DROP TRIGGER IF EXISTS handle_site_settings_updated_at ON public.site_settings;
+CREATE TRIGGER handle_site_settings_updated_at
+  BEFORE UPDATE ON public.site_settings
+  FOR EACH ROW EXECUTE FUNCTION handle_updated_at();
+
+-- ============================================================================
+-- PART 2: Audit history
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.site_settings_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  setting_key TEXT NOT NULL,
+  old_value JSONB,
+  new_value JSONB NOT NULL,
+  changed_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  changed_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_site_settings_history_key
+  ON public.site_settings_history(setting_key, changed_at DESC);
+
+-- History is only written by the trigger below
+ALTER TABLE public.site_settings_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view site settings history" ON public.site_settings_history
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = auth.uid() AND users.role = 'admin'
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.record_site_settings_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.value IS NOT DISTINCT FROM NEW.value THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.site_settings_history (setting_key, old_value, new_value, changed_by)
+  VALUES (
+    NEW.key,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.value END,
+    NEW.value,
+    auth.uid()
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER record_site_settings_change
+  AFTER INSERT OR UPDATE ON public.site_settings
+  FOR EACH ROW EXECUTE FUNCTION public.record_site_settings_change();
+
+-- ============================================================================
+-- PART 3: Charge configured tax and shipping when creating orders
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS create_order_with_items(UUID, JSONB, JSONB, TEXT, TEXT, TEXT, TEXT, TEXT);
+
+-- Function to create order with items atomically (variant prices and stock,
+-- optional promo code and loyalty reward). The promo code is applied first;
+-- the loyalty reward then applies to what is left of the subtotal. Tax and
+-- shipping come from the payments and shipping site settings.
+CREATE OR REPLACE FUNCTION create_order_with_items(
+  p_user_id UUID,
+  p_shipping_address JSONB,
+  p_billing_address JSONB,
+  p_payment_method_id TEXT,
+  p_shipping_method TEXT,
+  p_notes TEXT DEFAULT NULL,
+  p_loyalty_code TEXT DEFAULT NULL,
+  p_promo_code TEXT DEFAULT NULL
+)
+RETURNS TABLE(
+  id UUID,
+  order_number TEXT,
+  status TEXT,
+  total DECIMAL,
+  discount_amount DECIMAL,
+  estimated_delivery DATE
+) AS $$
+DECLARE
+  v_order_id UUID;
+  v_order_number TEXT;
+  v_subtotal DECIMAL := 0;
+  v_total DECIMAL := 0;
+  v_shipping_cost DECIMAL := 0;
+  v_tax DECIMAL := 0;
+  v_tax_rate DECIMAL;
+  v_shipping_settings JSONB;
+  v_shipping_option JSONB;
+  v_item_discount DECIMAL := 0;
+  v_shipping_discount DECIMAL := 0;
+  v_promo_discount DECIMAL := 0;
+  v_promotion_id UUID;
+  v_promo RECORD;
+  v_redemption public.loyalty_redemptions;
+  v_estimated_delivery DATE;
+  cart_item RECORD;
+BEGIN
+  SELECT s.value INTO v_shipping_settings FROM public.site_settings s WHERE s.key = 'shipping';
+  SELECT (s.value->>'taxRate')::DECIMAL INTO v_tax_rate
+  FROM public.site_settings s WHERE s.key = 'payments';
+
+  v_shipping_option := v_shipping_settings -> p_shipping_method;
+  IF v_shipping_option IS NULL OR NOT COALESCE((v_shipping_option->>'enabled')::BOOLEAN, false) THEN
+    RAISE EXCEPTION 'Shipping method is not available: %', p_shipping_method;
+  END IF;
+
+  -- Generate order number
+  v_order_number := generate_order_number();
+
+  -- Estimated delivery from the shipping method's delivery time
+  v_estimated_delivery := CURRENT_DATE + COALESCE((v_shipping_option->>'estimatedDays')::INTEGER, 5);
+
+  -- Calculate subtotal from cart items (variant price overrides the product price)
+  FOR cart_item IN
+    SELECT
+      ci.product_id,
+      ci.variant_id,
+      ci.quantity,
+      COALESCE(v.price_override, p.price) AS price,
+      CASE WHEN ci.variant_id IS NULL THEN p.inventory_count ELSE v.inventory_count END
+        AS inventory_count,
+      CASE WHEN ci.variant_id IS NULL THEN p.name ELSE p.name || ' (' || v.sku || ')' END
+        AS name,
+      ci.variant_id IS NOT NULL AND (v.id IS NULL OR NOT v.is_active) AS variant_unavailable
+    FROM cart_items ci
+    JOIN products p ON ci.product_id = p.id
+    LEFT JOIN product_variants v ON ci.variant_id = v.id
+    WHERE ci.user_id = p_user_id
+  LOOP
+    IF cart_item.variant_unavailable THEN
+      RAISE EXCEPTION 'Variant is no longer available for product: %', cart_item.name;
+    END IF;
+
+    -- Check inventory
+    IF cart_item.inventory_count < cart_item.quantity THEN
+      RAISE EXCEPTION 'Insufficient inventory for product: %', cart_item.name;
+    END IF;
+
+    v_subtotal := v_subtotal + (cart_item.price * cart_item.quantity);
+  END LOOP;
+
+  -- Calculate shipping cost (standard shipping is free over the threshold)
+  v_shipping_cost := COALESCE((v_shipping_option->>'cost')::DECIMAL, 0);
+  IF p_shipping_method = 'standard'
+    AND v_shipping_settings->>'freeShippingThreshold' IS NOT NULL
+    AND v_subtotal >= (v_shipping_settings->>'freeShippingThreshold')::DECIMAL THEN
+    v_shipping_cost := 0;
+  END IF;
+
+  -- Apply a promo code (locked so concurrent orders respect usage limits)
+  IF p_promo_code IS NOT NULL AND trim(p_promo_code) <> '' THEN
+    PERFORM 1 FROM public.promotions pr WHERE pr.code = upper(trim(p_promo_code)) FOR UPDATE;
+
+    SELECT * INTO v_promo FROM evaluate_promotion(p_promo_code, p_user_id);
+
+    v_promotion_id := v_promo.promotion_id;
+    v_promo_discount := v_promo.item_discount;
+    IF v_promo.free_shipping THEN
+      v_shipping_discount := v_shipping_cost;
+    END IF;
+  END IF;
+
+  v_item_discount := v_promo_discount;
+
+  -- Apply a redeemed loyalty reward
+  IF p_loyalty_code IS NOT NULL AND trim(p_loyalty_code) <> '' THEN
+    SELECT r.* INTO v_redemption
+    FROM public.loyalty_redemptions r
+    WHERE r.code = upper(trim(p_loyalty_code))
+      AND r.user_id = p_user_id
+      AND r.status = 'active'
+      AND (r.expires_at IS NULL OR r.expires_at > NOW())
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Invalid or already used loyalty reward: %', p_loyalty_code;
+    END IF;
+
+    CASE v_redemption.reward_type
+      WHEN 'discount' THEN
+        IF v_redemption.is_percentage THEN
+          v_item_discount := v_item_discount + ROUND(
+            (v_subtotal - v_promo_discount) * LEAST(v_redemption.reward_value, 100) / 100, 2
+          );
+        ELSE
+          v_item_discount := v_item_discount
+            + LEAST(v_redemption.reward_value, v_subtotal - v_promo_discount);
+        END IF;
+      WHEN 'free_shipping' THEN
+        v_shipping_discount := v_shipping_cost;
+      ELSE
+        RAISE EXCEPTION 'Loyalty reward cannot be applied at checkout: %', p_loyalty_code;
+    END CASE;
+  END IF;
+
+  -- Calculate tax at the configured rate (a percentage) on the discounted subtotal
+  v_tax := ROUND((v_subtotal - v_item_discount) * COALESCE(v_tax_rate, 0) / 100, 2);
+  v_total := v_subtotal - v_item_discount + v_shipping_cost - v_shipping_discount + v_tax;
+
+  -- Create the order
+  INSERT INTO public.orders (
+    user_id,
+    order_number,
+    status,
+    total,
+    discount_amount,
+    loyalty_redemption_id,
+    promotion_id,
+    promo_code,
+    shipping_address,
+    payment_intent_id,
+    estimated_delivery,
+    notes
+  ) VALUES (
+    p_user_id,
+    v_order_number,
+    'pending',
+    v_total,
+    v_item_discount + v_shipping_discount,
+    v_redemption.id,
+    v_promotion_id,
+    CASE WHEN v_promotion_id IS NOT NULL THEN upper(trim(p_promo_code)) END,
+    p_shipping_address,
+    p_payment_method_id,
+    v_estimated_delivery,
+    p_notes
+  ) RETURNING orders.id INTO v_order_id;
+
+  -- Count the promo code use against its limits
+  IF v_promotion_id IS NOT NULL THEN
+    INSERT INTO public.promotion_redemptions (promotion_id, user_id, order_id, discount_amount)
+    VALUES (
+      v_promotion_id,
+      p_user_id,
+      v_order_id,
+      v_promo_discount + CASE WHEN v_promo.free_shipping THEN v_shipping_cost ELSE 0 END
+    );
+
+    UPDATE public.promotions
+    SET usage_count = usage_count + 1
+    WHERE promotions.id = v_promotion_id;
+  END IF;
+
+  -- The reward code is single use
+  IF v_redemption.id IS NOT NULL THEN
+    UPDATE public.loyalty_redemptions
+    SET status = 'used', order_id = v_order_id, updated_at = NOW()
+    WHERE loyalty_redemptions.id = v_redemption.id;
+  END IF;
+
+  -- Create order items and update inventory
+  FOR cart_item IN
+    SELECT ci.product_id, ci.variant_id, ci.quantity, COALESCE(v.price_override, p.price) AS price, v.sku
+    FROM cart_items ci
+    JOIN products p ON ci.product_id = p.id
+    LEFT JOIN product_variants v ON ci.variant_id = v.id
+    WHERE ci.user_id = p_user_id
+  LOOP
+    -- Insert order item
+    INSERT INTO public.order_items (
+      order_id,
+      product_id,
+      variant_id,
+      sku,
+      quantity,
+      price
+    ) VALUES (
+      v_order_id,
+      cart_item.product_id,
+      cart_item.variant_id,
+      cart_item.sku,
+      cart_item.quantity,
+      cart_item.price
+    );
+
+    -- Update product (or variant) inventory
+    PERFORM reduce_product_inventory(
+      cart_item.product_id,
+      cart_item.quantity,
+      cart_item.variant_id
+    );
+  END LOOP;
+
+  -- Clear the user's cart
+  DELETE FROM public.cart_items WHERE user_id = p_user_id;
+
+  -- Return order details
+  RETURN QUERY
+  SELECT
+    v_order_id,
+    v_order_number,
+    'pending'::TEXT,
+    v_total,
+    v_item_discount + v_shipping_discount,
+    v_estimated_delivery;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION create_order_with_items TO authenticated;
+
+COMMENT ON TABLE public.site_settings_history IS
+  'Audit trail of site settings changes: previous and new value and the admin who made it';
+COMMENT ON COLUMN public.site_settings.value IS
+  'Section settings as JSON; store, payments, shipping, notifications and security are validated by the admin settings API';
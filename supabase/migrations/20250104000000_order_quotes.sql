@@ -0,0 +1,436 @@
+-- Order Quotes Migration
+-- One pricing engine for checkout: calculate_order_quote prices a user's cart
+-- (lines, promo and loyalty discounts, shipping by method, VAT and total).
+-- The checkout summary and payment intent read it through quote_order, and
+-- create_order_with_items charges exactly what it returns.
+
+-- ============================================================================
+-- PART 1: VAT-inclusive prices and the order price breakdown
+-- ============================================================================
+
+-- Israeli consumer prices include VAT
+UPDATE public.site_settings
+SET value = value || '{"pricesIncludeTax": true}'::jsonb
+WHERE key = 'payments' AND NOT value ? 'pricesIncludeTax';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'orders' AND column_name = 'subtotal'
+  ) THEN
+    ALTER TABLE public.orders
+      ADD COLUMN subtotal DECIMAL(10, 2),
+      ADD COLUMN shipping_method TEXT,
+      ADD COLUMN shipping_cost DECIMAL(10, 2),
+      ADD COLUMN tax_amount DECIMAL(10, 2),
+      ADD COLUMN currency TEXT;
+  END IF;
+END $$;
+
+-- ============================================================================
+-- PART 2: Quoting a cart
+-- ============================================================================
+
+-- Price a user's cart. Raises for invalid promo codes, loyalty rewards and
+-- shipping methods; unavailable lines are flagged so the caller decides.
+CREATE OR REPLACE FUNCTION calculate_order_quote(
+  p_user_id UUID,
+  p_shipping_method TEXT DEFAULT 'standard',
+  p_promo_code TEXT DEFAULT NULL,
+  p_loyalty_code TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_store JSONB;
+  v_payments JSONB;
+  v_shipping JSONB;
+  v_lines JSONB;
+  v_item_count INTEGER;
+  v_subtotal DECIMAL;
+  v_free_shipping_threshold DECIMAL;
+  v_shipping_options JSONB;
+  v_shipping_cost DECIMAL;
+  v_estimated_days INTEGER;
+  v_shipping_discount DECIMAL := 0;
+  v_promo RECORD;
+  v_promotion public.promotions;
+  v_promo_discount DECIMAL := 0;
+  v_promo_json JSONB;
+  v_redemption public.loyalty_redemptions;
+  v_loyalty_discount DECIMAL := 0;
+  v_loyalty_json JSONB;
+  v_item_discount DECIMAL;
+  v_tax_rate DECIMAL;
+  v_prices_include_tax BOOLEAN;
+  v_taxable DECIMAL;
+  v_tax DECIMAL;
+  v_total DECIMAL;
+BEGIN
+  SELECT s.value INTO v_store FROM public.site_settings s WHERE s.key = 'store';
+  SELECT s.value INTO v_payments FROM public.site_settings s WHERE s.key = 'payments';
+  SELECT s.value INTO v_shipping FROM public.site_settings s WHERE s.key = 'shipping';
+
+  -- Cart lines (variant price overrides the product price)
+  SELECT
+    COALESCE(jsonb_agg(jsonb_build_object(
+      'product_id', l.product_id,
+      'variant_id', l.variant_id,
+      'sku', l.sku,
+      'name', l.name,
+      'unit_price', l.price,
+      'quantity', l.quantity,
+      'line_total', l.price * l.quantity,
+      'in_stock', l.inventory_count >= l.quantity,
+      'variant_available', NOT l.variant_unavailable
+    ) ORDER BY l.created_at), '[]'::jsonb),
+    COALESCE(SUM(l.quantity), 0),
+    COALESCE(SUM(l.price * l.quantity), 0)
+  INTO v_lines, v_item_count, v_subtotal
+  FROM (
+    SELECT
+      ci.product_id,
+      ci.variant_id,
+      ci.quantity,
+      ci.created_at,
+      v.sku,
+      COALESCE(v.price_override, p.price) AS price,
+      CASE WHEN ci.variant_id IS NULL THEN p.inventory_count ELSE v.inventory_count END
+        AS inventory_count,
+      CASE WHEN ci.variant_id IS NULL THEN p.name ELSE p.name || ' (' || v.sku || ')' END
+        AS name,
+      ci.variant_id IS NOT NULL AND (v.id IS NULL OR NOT v.is_active) AS variant_unavailable
+    FROM public.cart_items ci
+    JOIN public.products p ON ci.product_id = p.id
+    LEFT JOIN public.product_variants v ON ci.variant_id = v.id
+    WHERE ci.user_id = p_user_id
+  ) l;
+
+  -- Every enabled shipping method priced for this subtotal (standard is free
+  -- over the threshold)
+  v_free_shipping_threshold := (v_shipping->>'freeShippingThreshold')::DECIMAL;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'method', m.method,
+    'cost', CASE
+      WHEN m.method = 'standard' AND v_subtotal >= v_free_shipping_threshold THEN 0
+      ELSE COALESCE((v_shipping->m.method->>'cost')::DECIMAL, 0)
+    END,
+    'estimated_days', COALESCE((v_shipping->m.method->>'estimatedDays')::INTEGER, 5)
+  ) ORDER BY m.ord), '[]'::jsonb)
+  INTO v_shipping_options
+  FROM unnest(ARRAY['standard', 'express', 'overnight']) WITH ORDINALITY AS m(method, ord)
+  WHERE COALESCE((v_shipping->m.method->>'enabled')::BOOLEAN, false);
+
+  SELECT (o->>'cost')::DECIMAL, (o->>'estimated_days')::INTEGER
+  INTO v_shipping_cost, v_estimated_days
+  FROM jsonb_array_elements(v_shipping_options) o
+  WHERE o->>'method' = p_shipping_method;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shipping method is not available: %', p_shipping_method;
+  END IF;
+
+  -- Promo code first
+  IF p_promo_code IS NOT NULL AND trim(p_promo_code) <> '' THEN
+    SELECT * INTO v_promo FROM evaluate_promotion(p_promo_code, p_user_id);
+    SELECT pr.* INTO v_promotion FROM public.promotions pr WHERE pr.id = v_promo.promotion_id;
+
+    v_promo_discount := LEAST(v_promo.item_discount, v_subtotal);
+    IF v_promo.free_shipping THEN
+      v_shipping_discount := v_shipping_cost;
+    END IF;
+
+    v_promo_json := jsonb_build_object(
+      'promotion_id', v_promotion.id,
+      'code', v_promotion.code,
+      'name', v_promotion.name,
+      'type', v_promotion.type,
+      'item_discount', v_promo_discount,
+      'free_shipping', v_promo.free_shipping
+    );
+  END IF;
+
+  -- Then the loyalty reward, on what is left of the subtotal
+  IF p_loyalty_code IS NOT NULL AND trim(p_loyalty_code) <> '' THEN
+    SELECT r.* INTO v_redemption
+    FROM public.loyalty_redemptions r
+    WHERE r.code = upper(trim(p_loyalty_code))
+      AND r.user_id = p_user_id
+      AND r.status = 'active'
+      AND (r.expires_at IS NULL OR r.expires_at > NOW());
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Invalid or already used loyalty reward: %', p_loyalty_code;
+    END IF;
+
+    CASE v_redemption.reward_type
+      WHEN 'discount' THEN
+        IF v_redemption.is_percentage THEN
+          v_loyalty_discount := ROUND(
+            (v_subtotal - v_promo_discount) * LEAST(v_redemption.reward_value, 100) / 100, 2
+          );
+        ELSE
+          v_loyalty_discount := LEAST(v_redemption.reward_value, v_subtotal - v_promo_discount);
+        END IF;
+      WHEN 'free_shipping' THEN
+        v_shipping_discount := v_shipping_cost;
+      ELSE
+        RAISE EXCEPTION 'Loyalty reward cannot be applied at checkout: %', p_loyalty_code;
+    END CASE;
+
+    v_loyalty_json := jsonb_build_object(
+      'redemption_id', v_redemption.id,
+      'code', v_redemption.code,
+      'reward_type', v_redemption.reward_type,
+      'item_discount', v_loyalty_discount,
+      'free_shipping', v_redemption.reward_type = 'free_shipping'
+    );
+  END IF;
+
+  v_item_discount := v_promo_discount + v_loyalty_discount;
+
+  -- VAT on the discounted subtotal at the configured rate (a percentage)
+  v_tax_rate := COALESCE((v_payments->>'taxRate')::DECIMAL, 0);
+  v_prices_include_tax := COALESCE((v_payments->>'pricesIncludeTax')::BOOLEAN, true);
+  v_taxable := v_subtotal - v_item_discount;
+
+  IF v_prices_include_tax THEN
+    v_tax := ROUND(v_taxable * v_tax_rate / (100 + v_tax_rate), 2);
+    v_total := v_taxable + v_shipping_cost - v_shipping_discount;
+  ELSE
+    v_tax := ROUND(v_taxable * v_tax_rate / 100, 2);
+    v_total := v_taxable + v_shipping_cost - v_shipping_discount + v_tax;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'currency', COALESCE(v_store->>'currency', 'ILS'),
+    'lines', v_lines,
+    'item_count', v_item_count,
+    'subtotal', v_subtotal,
+    'promo', v_promo_json,
+    'loyalty', v_loyalty_json,
+    'discounts', jsonb_build_object(
+      'items', v_item_discount,
+      'shipping', v_shipping_discount,
+      'total', v_item_discount + v_shipping_discount
+    ),
+    'shipping', jsonb_build_object(
+      'method', p_shipping_method,
+      'cost', v_shipping_cost,
+      'discount', v_shipping_discount,
+      'estimated_days', v_estimated_days,
+      'free_shipping_threshold', v_free_shipping_threshold
+    ),
+    'shipping_options', v_shipping_options,
+    'tax', jsonb_build_object(
+      'rate', v_tax_rate,
+      'prices_include_tax', v_prices_include_tax,
+      'taxable_amount', v_taxable,
+      'amount', v_tax
+    ),
+    'total', v_total
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Quote the signed-in user's cart (checkout summary and payment intent)
+CREATE OR REPLACE FUNCTION quote_order(
+  p_shipping_method TEXT DEFAULT 'standard',
+  p_promo_code TEXT DEFAULT NULL,
+  p_loyalty_code TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  RETURN calculate_order_quote(auth.uid(), p_shipping_method, p_promo_code, p_loyalty_code);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION calculate_order_quote(UUID, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION quote_order(TEXT, TEXT, TEXT) TO authenticated;
+
+-- ============================================================================
+-- PART 3: Create orders from the quote
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS create_order_with_items(UUID, JSONB, JSONB, TEXT, TEXT, TEXT, TEXT, TEXT);
+
+-- Function to create order with items atomically. The promo code and loyalty
+-- reward are locked first so concurrent orders can't both use them; the
+-- order is then charged exactly what calculate_order_quote returns.
+CREATE OR REPLACE FUNCTION create_order_with_items(
+  p_user_id UUID,
+  p_shipping_address JSONB,
+  p_billing_address JSONB,
+  p_payment_method_id TEXT,
+  p_shipping_method TEXT,
+  p_notes TEXT DEFAULT NULL,
+  p_loyalty_code TEXT DEFAULT NULL,
+  p_promo_code TEXT DEFAULT NULL
+)
+RETURNS TABLE(
+  id UUID,
+  order_number TEXT,
+  status TEXT,
+  total DECIMAL,
+  discount_amount DECIMAL,
+  estimated_delivery DATE
+) AS $$
+DECLARE
+  v_order_id UUID;
+  v_order_number TEXT;
+  v_quote JSONB;
+  v_line JSONB;
+  v_promotion_id UUID;
+  v_redemption_id UUID;
+  v_estimated_delivery DATE;
+BEGIN
+  IF p_promo_code IS NOT NULL AND trim(p_promo_code) <> '' THEN
+    PERFORM 1 FROM public.promotions pr WHERE pr.code = upper(trim(p_promo_code)) FOR UPDATE;
+  END IF;
+
+  IF p_loyalty_code IS NOT NULL AND trim(p_loyalty_code) <> '' THEN
+    PERFORM 1 FROM public.loyalty_redemptions r
+    WHERE r.code = upper(trim(p_loyalty_code)) AND r.user_id = p_user_id
+    FOR UPDATE;
+  END IF;
+
+  v_quote := calculate_order_quote(p_user_id, p_shipping_method, p_promo_code, p_loyalty_code);
+
+  IF (v_quote->>'item_count')::INTEGER = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(v_quote->'lines')
+  LOOP
+    IF NOT (v_line->>'variant_available')::BOOLEAN THEN
+      RAISE EXCEPTION 'Variant is no longer available for product: %', v_line->>'name';
+    END IF;
+
+    IF NOT (v_line->>'in_stock')::BOOLEAN THEN
+      RAISE EXCEPTION 'Insufficient inventory for product: %', v_line->>'name';
+    END IF;
+  END LOOP;
+
+  -- Generate order number
+  v_order_number := generate_order_number();
+  v_estimated_delivery := CURRENT_DATE + (v_quote->'shipping'->>'estimated_days')::INTEGER;
+  v_promotion_id := (v_quote->'promo'->>'promotion_id')::UUID;
+  v_redemption_id := (v_quote->'loyalty'->>'redemption_id')::UUID;
+
+  -- Create the order
+  INSERT INTO public.orders (
+    user_id,
+    order_number,
+    status,
+    subtotal,
+    shipping_method,
+    shipping_cost,
+    tax_amount,
+    total,
+    currency,
+    discount_amount,
+    loyalty_redemption_id,
+    promotion_id,
+    promo_code,
+    shipping_address,
+    payment_intent_id,
+    estimated_delivery,
+    notes
+  ) VALUES (
+    p_user_id,
+    v_order_number,
+    'pending',
+    (v_quote->>'subtotal')::DECIMAL,
+    p_shipping_method,
+    (v_quote->'shipping'->>'cost')::DECIMAL,
+    (v_quote->'tax'->>'amount')::DECIMAL,
+    (v_quote->>'total')::DECIMAL,
+    v_quote->>'currency',
+    (v_quote->'discounts'->>'total')::DECIMAL,
+    v_redemption_id,
+    v_promotion_id,
+    v_quote->'promo'->>'code',
+    p_shipping_address,
+    p_payment_method_id,
+    v_estimated_delivery,
+    p_notes
+  ) RETURNING orders.id INTO v_order_id;
+
+  -- Count the promo code use against its limits
+  IF v_promotion_id IS NOT NULL THEN
+    INSERT INTO public.promotion_redemptions (promotion_id, user_id, order_id, discount_amount)
+    VALUES (
+      v_promotion_id,
+      p_user_id,
+      v_order_id,
+      (v_quote->'promo'->>'item_discount')::DECIMAL
+        + CASE WHEN (v_quote->'promo'->>'free_shipping')::BOOLEAN
+          THEN (v_quote->'shipping'->>'cost')::DECIMAL ELSE 0 END
+    );
+
+    UPDATE public.promotions
+    SET usage_count = usage_count + 1
+    WHERE promotions.id = v_promotion_id;
+  END IF;
+
+  -- The reward code is single use
+  IF v_redemption_id IS NOT NULL THEN
+    UPDATE public.loyalty_redemptions
+    SET status = 'used', order_id = v_order_id, updated_at = NOW()
+    WHERE loyalty_redemptions.id = v_redemption_id;
+  END IF;
+
+  -- Create order items and update inventory
+  FOR v_line IN SELECT * FROM jsonb_array_elements(v_quote->'lines')
+  LOOP
+    INSERT INTO public.order_items (
+      order_id,
+      product_id,
+      variant_id,
+      sku,
+      quantity,
+      price
+    ) VALUES (
+      v_order_id,
+      (v_line->>'product_id')::UUID,
+      (v_line->>'variant_id')::UUID,
+      v_line->>'sku',
+      (v_line->>'quantity')::INTEGER,
+      (v_line->>'unit_price')::DECIMAL
+    );
+
+    -- Update product (or variant) inventory
+    PERFORM reduce_product_inventory(
+      (v_line->>'product_id')::UUID,
+      (v_line->>'quantity')::INTEGER,
+      (v_line->>'variant_id')::UUID
+    );
+  END LOOP;
+
+  -- Clear the user's cart
+  DELETE FROM public.cart_items WHERE user_id = p_user_id;
+
+  -- Return order details
+  RETURN QUERY
+  SELECT
+    v_order_id,
+    v_order_number,
+    'pending'::TEXT,
+    (v_quote->>'total')::DECIMAL,
+    (v_quote->'discounts'->>'total')::DECIMAL,
+    v_estimated_delivery;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION create_order_with_items TO authenticated;
+
+COMMENT ON COLUMN public.orders.subtotal IS 'Sum of line totals before discounts';
+COMMENT ON COLUMN public.orders.shipping_cost IS
+  'Shipping charged for the method before shipping discounts (included in discount_amount)';
+COMMENT ON COLUMN public.orders.tax_amount IS
+  'VAT on the discounted subtotal; already part of total when prices include tax';
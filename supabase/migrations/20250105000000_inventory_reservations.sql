@@ -0,0 +1,446 @@
+-- Inventory Reservations Migration
+-- Time-limited holds on stock while a shopper checks out, so two shoppers
+-- can't pay for the last unit of a one-off item. Reservations are made when
+-- checkout starts and again for the payment intent, released on expiry,
+-- failed or canceled payments and cart changes, and converted when the
+-- order is created (which is when inventory is actually decremented).
+
+-- ============================================================================
+-- PART 1: Reservations
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.inventory_reservations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  variant_id UUID REFERENCES public.product_variants(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  payment_intent_id TEXT,
+  order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'active'
+    CHECK (status IN ('active', 'released', 'expired', 'converted')),
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_reservations_active_stock
+  ON public.inventory_reservations(product_id, variant_id, expires_at)
+  WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_inventory_reservations_user_id
+  ON public.inventory_reservations(user_id)
+  WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_inventory_reservations_payment_intent_id
+  ON public.inventory_reservations(payment_intent_id);
+
+-- Reservations are only written by the functions below
+ALTER TABLE public.inventory_reservations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their inventory reservations" ON public.inventory_reservations
+  FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can view inventory reservations" ON public.inventory_reservations
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = auth.uid() AND users.role = 'admin'
+    )
+  );
+
+CREATE TRIGGER handle_inventory_reservations_updated_at
+  BEFORE UPDATE ON public.inventory_reservations
+  FOR EACH ROW EXECUTE FUNCTION handle_updated_at();
+
+-- ============================================================================
+-- PART 2: Available stock
+-- ============================================================================
+
+-- Stock a user can buy: on-hand inventory less what other shoppers hold.
+-- Locks the product (or variant) row so concurrent checkouts queue up.
+CREATE OR REPLACE FUNCTION lock_available_inventory(
+  p_product_id UUID,
+  p_variant_id UUID,
+  p_user_id UUID
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_inventory INTEGER;
+  v_reserved INTEGER;
+BEGIN
+  IF p_variant_id IS NOT NULL THEN
+    SELECT inventory_count INTO v_inventory
+    FROM public.product_variants
+    WHERE id = p_variant_id AND product_id = p_product_id AND is_active = TRUE
+    FOR UPDATE;
+  ELSE
+    SELECT inventory_count INTO v_inventory
+    FROM public.products
+    WHERE id = p_product_id
+    FOR UPDATE;
+  END IF;
+
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  SELECT COALESCE(SUM(r.quantity), 0) INTO v_reserved
+  FROM public.inventory_reservations r
+  WHERE r.product_id = p_product_id
+    AND r.variant_id IS NOT DISTINCT FROM p_variant_id
+    AND r.status = 'active'
+    AND r.expires_at > NOW()
+    AND r.user_id <> p_user_id;
+
+  RETURN GREATEST(v_inventory - v_reserved, 0);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION lock_available_inventory(UUID, UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- PART 3: Reserving and releasing
+-- ============================================================================
+
+-- Release a user's active reservations; returns how many were released
+CREATE OR REPLACE FUNCTION release_inventory_reservations(p_user_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  UPDATE public.inventory_reservations
+  SET status = 'released'
+  WHERE user_id = p_user_id AND status = 'active';
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Hold every line of a user's cart, replacing any earlier holds. Raises when
+-- other shoppers already hold the remaining stock. Returns the expiry time.
+CREATE OR REPLACE FUNCTION reserve_cart_inventory(
+  p_user_id UUID,
+  p_payment_intent_id TEXT DEFAULT NULL,
+  p_ttl_minutes INTEGER DEFAULT 15
+)
+RETURNS TIMESTAMPTZ AS $$
+DECLARE
+  v_item RECORD;
+  v_expires_at TIMESTAMPTZ;
+  v_count INTEGER := 0;
+BEGIN
+  v_expires_at := NOW() + make_interval(mins => LEAST(GREATEST(p_ttl_minutes, 1), 60));
+
+  PERFORM release_inventory_reservations(p_user_id);
+
+  FOR v_item IN
+    SELECT ci.product_id, ci.variant_id, ci.quantity, p.name
+    FROM public.cart_items ci
+    JOIN public.products p ON ci.product_id = p.id
+    WHERE ci.user_id = p_user_id
+    ORDER BY ci.product_id, ci.variant_id
+  LOOP
+    IF lock_available_inventory(v_item.product_id, v_item.variant_id, p_user_id)
+      < v_item.quantity THEN
+      RAISE EXCEPTION 'Insufficient inventory for product: %', v_item.name;
+    END IF;
+
+    INSERT INTO public.inventory_reservations (
+      user_id,
+      product_id,
+      variant_id,
+      quantity,
+      payment_intent_id,
+      expires_at
+    ) VALUES (
+      p_user_id,
+      v_item.product_id,
+      v_item.variant_id,
+      v_item.quantity,
+      p_payment_intent_id,
+      v_expires_at
+    );
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  IF v_count = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  RETURN v_expires_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Reserve the signed-in user's cart (checkout start and payment intent)
+CREATE OR REPLACE FUNCTION reserve_checkout_inventory(
+  p_payment_intent_id TEXT DEFAULT NULL,
+  p_ttl_minutes INTEGER DEFAULT 15
+)
+RETURNS TIMESTAMPTZ AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  RETURN reserve_cart_inventory(auth.uid(), p_payment_intent_id, p_ttl_minutes);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Release the signed-in user's holds (checkout abandoned)
+CREATE OR REPLACE FUNCTION release_checkout_inventory()
+RETURNS INTEGER AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  RETURN release_inventory_reservations(auth.uid());
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Release the holds made for a payment intent (failed or canceled payment)
+CREATE OR REPLACE FUNCTION release_payment_intent_reservations(p_payment_intent_id TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  UPDATE public.inventory_reservations
+  SET status = 'released'
+  WHERE payment_intent_id = p_payment_intent_id AND status = 'active';
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Mark lapsed holds as expired (run by the cron route). Expired holds already
+-- stop counting against stock; this keeps the active set small.
+CREATE OR REPLACE FUNCTION expire_inventory_reservations()
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  UPDATE public.inventory_reservations
+  SET status = 'expired'
+  WHERE status = 'active' AND expires_at <= NOW();
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION release_inventory_reservations(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION reserve_cart_inventory(UUID, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION release_payment_intent_reservations(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION expire_inventory_reservations() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION reserve_checkout_inventory(TEXT, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION release_checkout_inventory() TO authenticated;
+GRANT EXECUTE ON FUNCTION release_payment_intent_reservations(TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION expire_inventory_reservations() TO service_role;
+
+-- Any cart change invalidates the holds; checkout reserves the new cart again
+CREATE OR REPLACE FUNCTION public.release_reservations_on_cart_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM release_inventory_reservations(COALESCE(NEW.user_id, OLD.user_id));
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS release_reservations_on_cart_change ON public.cart_items;
+CREATE TRIGGER release_reservations_on_cart_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.cart_items
+  FOR EACH ROW EXECUTE FUNCTION public.release_reservations_on_cart_change();
+
+-- ============================================================================
+-- PART 4: Orders convert reservations
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS create_order_with_items(UUID, JSONB, JSONB, TEXT, TEXT, TEXT, TEXT, TEXT);
+
+-- Function to create order with items atomically. The promo code and loyalty
+-- reward are locked first so concurrent orders can't both use them; stock is
+-- checked against other shoppers' reservations, and the user's own
+-- reservations are converted as inventory is decremented.
+CREATE OR REPLACE FUNCTION create_order_with_items(
+  p_user_id UUID,
+  p_shipping_address JSONB,
+  p_billing_address JSONB,
+  p_payment_method_id TEXT,
+  p_shipping_method TEXT,
+  p_notes TEXT DEFAULT NULL,
+  p_loyalty_code TEXT DEFAULT NULL,
+  p_promo_code TEXT DEFAULT NULL
+)
+RETURNS TABLE(
+  id UUID,
+  order_number TEXT,
+  status TEXT,
+  total DECIMAL,
+  discount_amount DECIMAL,
+  estimated_delivery DATE
+) AS $$
+DECLARE
+  v_order_id UUID;
+  v_order_number TEXT;
+  v_quote JSONB;
+  v_line JSONB;
+  v_promotion_id UUID;
+  v_redemption_id UUID;
+  v_estimated_delivery DATE;
+BEGIN
+  IF p_promo_code IS NOT NULL AND trim(p_promo_code) <> '' THEN
+    PERFORM 1 FROM public.promotions pr WHERE pr.code = upper(trim(p_promo_code)) FOR UPDATE;
+  END IF;
+
+  IF p_loyalty_code IS NOT NULL AND trim(p_loyalty_code) <> '' THEN
+    PERFORM 1 FROM public.loyalty_redemptions r
+    WHERE r.code = upper(trim(p_loyalty_code)) AND r.user_id = p_user_id
+    FOR UPDATE;
+  END IF;
+
+  v_quote := calculate_order_quote(p_user_id, p_shipping_method, p_promo_code, p_loyalty_code);
+
+  IF (v_quote->>'item_count')::INTEGER = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  FOR v_line IN
+    SELECT * FROM jsonb_array_elements(v_quote->'lines')
+    ORDER BY value->>'product_id', value->>'variant_id'
+  LOOP
+    IF NOT (v_line->>'variant_available')::BOOLEAN THEN
+      RAISE EXCEPTION 'Variant is no longer available for product: %', v_line->>'name';
+    END IF;
+
+    IF lock_available_inventory(
+      (v_line->>'product_id')::UUID,
+      (v_line->>'variant_id')::UUID,
+      p_user_id
+    ) < (v_line->>'quantity')::INTEGER THEN
+      RAISE EXCEPTION 'Insufficient inventory for product: %', v_line->>'name';
+    END IF;
+  END LOOP;
+
+  -- Generate order number
+  v_order_number := generate_order_number();
+  v_estimated_delivery := CURRENT_DATE + (v_quote->'shipping'->>'estimated_days')::INTEGER;
+  v_promotion_id := (v_quote->'promo'->>'promotion_id')::UUID;
+  v_redemption_id := (v_quote->'loyalty'->>'redemption_id')::UUID;
+
+  -- Create the order
+  INSERT INTO public.orders (
+    user_id,
+    order_number,
+    status,
+    subtotal,
+    shipping_method,
+    shipping_cost,
+    tax_amount,
+    total,
+    currency,
+    discount_amount,
+    loyalty_redemption_id,
+    promotion_id,
+    promo_code,
+    shipping_address,
+    payment_intent_id,
+    estimated_delivery,
+    notes
+  ) VALUES (
+    p_user_id,
+    v_order_number,
+    'pending',
+    (v_quote->>'subtotal')::DECIMAL,
+    p_shipping_method,
+    (v_quote->'shipping'->>'cost')::DECIMAL,
+    (v_quote->'tax'->>'amount')::DECIMAL,
+    (v_quote->>'total')::DECIMAL,
+    v_quote->>'currency',
+    (v_quote->'discounts'->>'total')::DECIMAL,
+    v_redemption_id,
+    v_promotion_id,
+    v_quote->'promo'->>'code',
+    p_shipping_address,
+    p_payment_method_id,
+    v_estimated_delivery,
+    p_notes
+  ) RETURNING orders.id INTO v_order_id;
+
+  -- Count the promo code use against its limits
+  IF v_promotion_id IS NOT NULL THEN
+    INSERT INTO public.promotion_redemptions (promotion_id, user_id, order_id, discount_amount)
+    VALUES (
+      v_promotion_id,
+      p_user_id,
+      v_order_id,
+      (v_quote->'promo'->>'item_discount')::DECIMAL
+        + CASE WHEN (v_quote->'promo'->>'free_shipping')::BOOLEAN
+          THEN (v_quote->'shipping'->>'cost')::DECIMAL ELSE 0 END
+    );
+
+    UPDATE public.promotions
+    SET usage_count = usage_count + 1
+    WHERE promotions.id = v_promotion_id;
+  END IF;
+
+  -- The reward code is single use
+  IF v_redemption_id IS NOT NULL THEN
+    UPDATE public.loyalty_redemptions
+    SET status = 'used', order_id = v_order_id, updated_at = NOW()
+    WHERE loyalty_redemptions.id = v_redemption_id;
+  END IF;
+
+  -- Create order items and update inventory
+  FOR v_line IN SELECT * FROM jsonb_array_elements(v_quote->'lines')
+  LOOP
+    INSERT INTO public.order_items (
+      order_id,
+      product_id,
+      variant_id,
+      sku,
+      quantity,
+      price
+    ) VALUES (
+      v_order_id,
+      (v_line->>'product_id')::UUID,
+      (v_line->>'variant_id')::UUID,
+      v_line->>'sku',
+      (v_line->>'quantity')::INTEGER,
+      (v_line->>'unit_price')::DECIMAL
+    );
+
+    -- Update product (or variant) inventory
+    PERFORM reduce_product_inventory(
+      (v_line->>'product_id')::UUID,
+      (v_line->>'quantity')::INTEGER,
+      (v_line->>'variant_id')::UUID
+    );
+  END LOOP;
+
+  -- The held stock is now decremented; convert before the cart is cleared
+  -- (clearing the cart releases any holds that are still active)
+  UPDATE public.inventory_reservations
+  SET status = 'converted', order_id = v_order_id
+  WHERE user_id = p_user_id AND inventory_reservations.status = 'active';
+
+  -- Clear the user's cart
+  DELETE FROM public.cart_items WHERE user_id = p_user_id;
+
+  -- Return order details
+  RETURN QUERY
+  SELECT
+    v_order_id,
+    v_order_number,
+    'pending'::TEXT,
+    (v_quote->>'total')::DECIMAL,
+    (v_quote->'discounts'->>'total')::DECIMAL,
+    v_estimated_delivery;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION create_order_with_items TO authenticated;
+
+COMMENT ON TABLE public.inventory_reservations IS
+  'Time-limited stock holds during checkout; active and unexpired holds reduce available stock';
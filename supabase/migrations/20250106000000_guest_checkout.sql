@@ -0,0 +1,679 @@
+-- Guest Checkout Migration
+-- Orders without an account. Guests shop from a server-side guest cart
+-- (identified by a cookie token, separate from cart_items), orders are keyed
+-- by email, and a signed lookup link lets the guest track the order. A guest
+-- order can later be claimed by an account with the same email.
+-- Promo codes and loyalty rewards still need an account.
+
+-- ============================================================================
+-- PART 1: Guest carts
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.guest_carts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  token TEXT NOT NULL UNIQUE,
+  email TEXT,
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT NOW() + INTERVAL '30 days',
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS public.guest_cart_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  guest_cart_id UUID NOT NULL REFERENCES public.guest_carts(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  variant_id UUID REFERENCES public.product_variants(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_guest_carts_expires_at ON public.guest_carts(expires_at);
+CREATE INDEX IF NOT EXISTS idx_guest_cart_items_guest_cart_id
+  ON public.guest_cart_items(guest_cart_id);
+
+-- Guest carts are read and written by the server with the service role key;
+-- the cart token is the only credential a guest has
+ALTER TABLE public.guest_carts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.guest_cart_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view guest carts" ON public.guest_carts
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = auth.uid() AND users.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can view guest cart items" ON public.guest_cart_items
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = auth.uid() AND users.role = 'admin'
+    )
+  );
+
+CREATE TRIGGER handle_guest_carts_updated_at
+  BEFORE UPDATE ON public.guest_carts
+  FOR EACH ROW EXECUTE FUNCTION handle_updated_at();
+
+CREATE TRIGGER handle_guest_cart_items_updated_at
+  BEFORE UPDATE ON public.guest_cart_items
+  FOR EACH ROW EXECUTE FUNCTION handle_updated_at();
+
+-- ============================================================================
+-- PART 2: Guest orders and payments
+-- ============================================================================
+
+ALTER TABLE public.orders ALTER COLUMN user_id DROP NOT NULL;
+ALTER TABLE public.payment_intents ALTER COLUMN user_id DROP NOT NULL;
+ALTER TABLE public.inventory_reservations ALTER COLUMN user_id DROP NOT NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'orders' AND column_name = 'guest_email'
+  ) THEN
+    ALTER TABLE public.orders
+      ADD COLUMN guest_email TEXT,
+      ADD COLUMN claimed_at TIMESTAMPTZ,
+      ADD CONSTRAINT orders_customer_check CHECK (user_id IS NOT NULL OR guest_email IS NOT NULL);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'inventory_reservations'
+      AND column_name = 'guest_cart_id'
+  ) THEN
+    ALTER TABLE public.inventory_reservations
+      ADD COLUMN guest_cart_id UUID REFERENCES public.guest_carts(id) ON DELETE CASCADE,
+      ADD CONSTRAINT inventory_reservations_holder_check
+        CHECK (user_id IS NOT NULL OR guest_cart_id IS NOT NULL);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_orders_guest_email
+  ON public.orders(lower(guest_email))
+  WHERE guest_email IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_inventory_reservations_guest_cart_id
+  ON public.inventory_reservations(guest_cart_id)
+  WHERE status = 'active';
+
+-- ============================================================================
+-- PART 3: Reservations for guest carts
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS lock_available_inventory(UUID, UUID, UUID);
+
+-- Stock a shopper can buy: on-hand inventory less what other shoppers hold.
+-- The shopper is a user or a guest cart. Locks the product (or variant) row
+-- so concurrent checkouts queue up.
+CREATE OR REPLACE FUNCTION lock_available_inventory(
+  p_product_id UUID,
+  p_variant_id UUID,
+  p_user_id UUID,
+  p_guest_cart_id UUID DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_inventory INTEGER;
+  v_reserved INTEGER;
+BEGIN
+  IF p_variant_id IS NOT NULL THEN
+    SELECT inventory_count INTO v_inventory
+    FROM public.product_variants
+    WHERE id = p_variant_id AND product_id = p_product_id AND is_active = TRUE
+    FOR UPDATE;
+  ELSE
+    SELECT inventory_count INTO v_inventory
+    FROM public.products
+    WHERE id = p_product_id
+    FOR UPDATE;
+  END IF;
+
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  SELECT COALESCE(SUM(r.quantity), 0) INTO v_reserved
+  FROM public.inventory_reservations r
+  WHERE r.product_id = p_product_id
+    AND r.variant_id IS NOT DISTINCT FROM p_variant_id
+    AND r.status = 'active'
+    AND r.expires_at > NOW()
+    AND NOT (p_user_id IS NOT NULL AND r.user_id IS NOT DISTINCT FROM p_user_id)
+    AND NOT (p_guest_cart_id IS NOT NULL AND r.guest_cart_id IS NOT DISTINCT FROM p_guest_cart_id);
+
+  RETURN GREATEST(v_inventory - v_reserved, 0);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Release a guest cart's active reservations; returns how many were released
+CREATE OR REPLACE FUNCTION release_guest_cart_reservations(p_guest_cart_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  UPDATE public.inventory_reservations
+  SET status = 'released'
+  WHERE guest_cart_id = p_guest_cart_id AND status = 'active';
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP FUNCTION IF EXISTS reserve_cart_inventory(UUID, TEXT, INTEGER);
+
+-- Hold every line of a user's cart (or a guest cart), replacing any earlier
+-- holds. Raises when other shoppers already hold the remaining stock.
+-- Returns the expiry time.
+CREATE OR REPLACE FUNCTION reserve_cart_inventory(
+  p_user_id UUID,
+  p_payment_intent_id TEXT DEFAULT NULL,
+  p_ttl_minutes INTEGER DEFAULT 15,
+  p_guest_cart_id UUID DEFAULT NULL
+)
+RETURNS TIMESTAMPTZ AS $$
+DECLARE
+  v_item RECORD;
+  v_expires_at TIMESTAMPTZ;
+  v_count INTEGER := 0;
+BEGIN
+  v_expires_at := NOW() + make_interval(mins => LEAST(GREATEST(p_ttl_minutes, 1), 60));
+
+  IF p_guest_cart_id IS NOT NULL THEN
+    PERFORM release_guest_cart_reservations(p_guest_cart_id);
+  ELSE
+    PERFORM release_inventory_reservations(p_user_id);
+  END IF;
+
+  FOR v_item IN
+    SELECT ci.product_id, ci.variant_id, ci.quantity, p.name
+    FROM (
+      SELECT c.product_id, c.variant_id, c.quantity
+      FROM public.cart_items c
+      WHERE p_guest_cart_id IS NULL AND c.user_id = p_user_id
+      UNION ALL
+      SELECT g.product_id, g.variant_id, g.quantity
+      FROM public.guest_cart_items g
+      WHERE g.guest_cart_id = p_guest_cart_id
+    ) ci
+    JOIN public.products p ON ci.product_id = p.id
+    ORDER BY ci.product_id, ci.variant_id
+  LOOP
+    IF lock_available_inventory(v_item.product_id, v_item.variant_id, p_user_id, p_guest_cart_id)
+      < v_item.quantity THEN
+      RAISE EXCEPTION 'Insufficient inventory for product: %', v_item.name;
+    END IF;
+
+    INSERT INTO public.inventory_reservations (
+      user_id,
+      guest_cart_id,
+      product_id,
+      variant_id,
+      quantity,
+      payment_intent_id,
+      expires_at
+    ) VALUES (
+      CASE WHEN p_guest_cart_id IS NULL THEN p_user_id END,
+      p_guest_cart_id,
+      v_item.product_id,
+      v_item.variant_id,
+      v_item.quantity,
+      p_payment_intent_id,
+      v_expires_at
+    );
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  IF v_count = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  RETURN v_expires_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION lock_available_inventory(UUID, UUID, UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION release_guest_cart_reservations(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION reserve_cart_inventory(UUID, TEXT, INTEGER, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION reserve_cart_inventory(UUID, TEXT, INTEGER, UUID) TO service_role;
+
+-- Any guest cart change invalidates its holds, as for cart_items
+CREATE OR REPLACE FUNCTION public.release_reservations_on_guest_cart_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM release_guest_cart_reservations(COALESCE(NEW.guest_cart_id, OLD.guest_cart_id));
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS release_reservations_on_guest_cart_change ON public.guest_cart_items;
+CREATE TRIGGER release_reservations_on_guest_cart_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.guest_cart_items
+  FOR EACH ROW EXECUTE FUNCTION public.release_reservations_on_guest_cart_change();
+
+-- ============================================================================
+-- PART 4: Quoting guest carts
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS calculate_order_quote(UUID, TEXT, TEXT, TEXT);
+
+-- Price a user's cart, or a guest cart when p_guest_cart_id is given. Raises
+-- for invalid promo codes, loyalty rewards and shipping methods; unavailable
+-- lines are flagged so the caller decides.
+CREATE OR REPLACE FUNCTION calculate_order_quote(
+  p_user_id UUID,
+  p_shipping_method TEXT DEFAULT 'standard',
+  p_promo_code TEXT DEFAULT NULL,
+  p_loyalty_code TEXT DEFAULT NULL,
+  p_guest_cart_id UUID DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_store JSONB;
+  v_payments JSONB;
+  v_shipping JSONB;
+  v_lines JSONB;
+  v_item_count INTEGER;
+  v_subtotal DECIMAL;
+  v_free_shipping_threshold DECIMAL;
+  v_shipping_options JSONB;
+  v_shipping_cost DECIMAL;
+  v_estimated_days INTEGER;
+  v_shipping_discount DECIMAL := 0;
+  v_promo RECORD;
+  v_promotion public.promotions;
+  v_promo_discount DECIMAL := 0;
+  v_promo_json JSONB;
+  v_redemption public.loyalty_redemptions;
+  v_loyalty_discount DECIMAL := 0;
+  v_loyalty_json JSONB;
+  v_item_discount DECIMAL;
+  v_tax_rate DECIMAL;
+  v_prices_include_tax BOOLEAN;
+  v_taxable DECIMAL;
+  v_tax DECIMAL;
+  v_total DECIMAL;
+BEGIN
+  SELECT s.value INTO v_store FROM public.site_settings s WHERE s.key = 'store';
+  SELECT s.value INTO v_payments FROM public.site_settings s WHERE s.key = 'payments';
+  SELECT s.value INTO v_shipping FROM public.site_settings s WHERE s.key = 'shipping';
+
+  -- Cart lines (variant price overrides the product price)
+  SELECT
+    COALESCE(jsonb_agg(jsonb_build_object(
+      'product_id', l.product_id,
+      'variant_id', l.variant_id,
+      'sku', l.sku,
+      'name', l.name,
+      'unit_price', l.price,
+      'quantity', l.quantity,
+      'line_total', l.price * l.quantity,
+      'in_stock', l.inventory_count >= l.quantity,
+      'variant_available', NOT l.variant_unavailable
+    ) ORDER BY l.created_at), '[]'::jsonb),
+    COALESCE(SUM(l.quantity), 0),
+    COALESCE(SUM(l.price * l.quantity), 0)
+  INTO v_lines, v_item_count, v_subtotal
+  FROM (
+    SELECT
+      ci.product_id,
+      ci.variant_id,
+      ci.quantity,
+      ci.created_at,
+      v.sku,
+      COALESCE(v.price_override, p.price) AS price,
+      CASE WHEN ci.variant_id IS NULL THEN p.inventory_count ELSE v.inventory_count END
+        AS inventory_count,
+      CASE WHEN ci.variant_id IS NULL THEN p.name ELSE p.name || ' (' || v.sku || ')' END
+        AS name,
+      ci.variant_id IS NOT NULL AND (v.id IS NULL OR NOT v.is_active) AS variant_unavailable
+    FROM (
+      SELECT c.product_id, c.variant_id, c.quantity, c.created_at
+      FROM public.cart_items c
+      WHERE p_guest_cart_id IS NULL AND c.user_id = p_user_id
+      UNION ALL
+      SELECT g.product_id, g.variant_id, g.quantity, g.created_at
+      FROM public.guest_cart_items g
+      WHERE g.guest_cart_id = p_guest_cart_id
+    ) ci
+    JOIN public.products p ON ci.product_id = p.id
+    LEFT JOIN public.product_variants v ON ci.variant_id = v.id
+  ) l;
+
+  -- Every enabled shipping method priced for this subtotal (standard is free
+  -- over the threshold)
+  v_free_shipping_threshold := (v_shipping->>'freeShippingThreshold')::DECIMAL;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'method', m.method,
+    'cost', CASE
+      WHEN m.method = 'standard' AND v_subtotal >= v_free_shipping_threshold THEN 0
+      ELSE COALESCE((v_shipping->m.method->>'cost')::DECIMAL, 0)
+    END,
+    'estimated_days', COALESCE((v_shipping->m.method->>'estimatedDays')::INTEGER, 5)
+  ) ORDER BY m.ord), '[]'::jsonb)
+  INTO v_shipping_options
+  FROM unnest(ARRAY['standard', 'express', 'overnight']) WITH ORDINALITY AS m(method, ord)
+  WHERE COALESCE((v_shipping->m.method->>'enabled')::BOOLEAN, false);
+
+  SELECT (o->>'cost')::DECIMAL, (o->>'estimated_days')::INTEGER
+  INTO v_shipping_cost, v_estimated_days
+  FROM jsonb_array_elements(v_shipping_options) o
+  WHERE o->>'method' = p_shipping_method;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shipping method is not available: %', p_shipping_method;
+  END IF;
+
+  -- Promo code first (usage limits are per account, so guests can't use one)
+  IF p_promo_code IS NOT NULL AND trim(p_promo_code) <> '' THEN
+    IF p_user_id IS NULL THEN
+      RAISE EXCEPTION 'Promo code requires an account: %', p_promo_code;
+    END IF;
+
+    SELECT * INTO v_promo FROM evaluate_promotion(p_promo_code, p_user_id);
+    SELECT pr.* INTO v_promotion FROM public.promotions pr WHERE pr.id = v_promo.promotion_id;
+
+    v_promo_discount := LEAST(v_promo.item_discount, v_subtotal);
+    IF v_promo.free_shipping THEN
+      v_shipping_discount := v_shipping_cost;
+    END IF;
+
+    v_promo_json := jsonb_build_object(
+      'promotion_id', v_promotion.id,
+      'code', v_promotion.code,
+      'name', v_promotion.name,
+      'type', v_promotion.type,
+      'item_discount', v_promo_discount,
+      'free_shipping', v_promo.free_shipping
+    );
+  END IF;
+
+  -- Then the loyalty reward, on what is left of the subtotal
+  IF p_loyalty_code IS NOT NULL AND trim(p_loyalty_code) <> '' THEN
+    SELECT r.* INTO v_redemption
+    FROM public.loyalty_redemptions r
+    WHERE r.code = upper(trim(p_loyalty_code))
+      AND r.user_id = p_user_id
+      AND r.status = 'active'
+      AND (r.expires_at IS NULL OR r.expires_at > NOW());
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Invalid or already used loyalty reward: %', p_loyalty_code;
+    END IF;
+
+    CASE v_redemption.reward_type
+      WHEN 'discount' THEN
+        IF v_redemption.is_percentage THEN
+          v_loyalty_discount := ROUND(
+            (v_subtotal - v_promo_discount) * LEAST(v_redemption.reward_value, 100) / 100, 2
+          );
+        ELSE
+          v_loyalty_discount := LEAST(v_redemption.reward_value, v_subtotal - v_promo_discount);
+        END IF;
+      WHEN 'free_shipping' THEN
+        v_shipping_discount := v_shipping_cost;
+      ELSE
+        RAISE EXCEPTION 'Loyalty reward cannot be applied at checkout: %', p_loyalty_code;
+    END CASE;
+
+    v_loyalty_json := jsonb_build_object(
+      'redemption_id', v_redemption.id,
+      'code', v_redemption.code,
+      'reward_type', v_redemption.reward_type,
+      'item_discount', v_loyalty_discount,
+      'free_shipping', v_redemption.reward_type = 'free_shipping'
+    );
+  END IF;
+
+  v_item_discount := v_promo_discount + v_loyalty_discount;
+
+  -- VAT on the discounted subtotal at the configured rate (a percentage)
+  v_tax_rate := COALESCE((v_payments->>'taxRate')::DECIMAL, 0);
+  v_prices_include_tax := COALESCE((v_payments->>'pricesIncludeTax')::BOOLEAN, true);
+  v_taxable := v_subtotal - v_item_discount;
+
+  IF v_prices_include_tax THEN
+    v_tax := ROUND(v_taxable * v_tax_rate / (100 + v_tax_rate), 2);
+    v_total := v_taxable + v_shipping_cost - v_shipping_discount;
+  ELSE
+    v_tax := ROUND(v_taxable * v_tax_rate / 100, 2);
+    v_total := v_taxable + v_shipping_cost - v_shipping_discount + v_tax;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'currency', COALESCE(v_store->>'currency', 'ILS'),
+    'lines', v_lines,
+    'item_count', v_item_count,
+    'subtotal', v_subtotal,
+    'promo', v_promo_json,
+    'loyalty', v_loyalty_json,
+    'discounts', jsonb_build_object(
+      'items', v_item_discount,
+      'shipping', v_shipping_discount,
+      'total', v_item_discount + v_shipping_discount
+    ),
+    'shipping', jsonb_build_object(
+      'method', p_shipping_method,
+      'cost', v_shipping_cost,
+      'discount', v_shipping_discount,
+      'estimated_days', v_estimated_days,
+      'free_shipping_threshold', v_free_shipping_threshold
+    ),
+    'shipping_options', v_shipping_options,
+    'tax', jsonb_build_object(
+      'rate', v_tax_rate,
+      'prices_include_tax', v_prices_include_tax,
+      'taxable_amount', v_taxable,
+      'amount', v_tax
+    ),
+    'total', v_total
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Guest routes quote with the service role client
+REVOKE EXECUTE ON FUNCTION calculate_order_quote(UUID, TEXT, TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION calculate_order_quote(UUID, TEXT, TEXT, TEXT, UUID) TO service_role;
+
+-- ============================================================================
+-- PART 5: Creating guest orders
+-- ============================================================================
+
+-- Create a guest order from a guest cart, charged exactly what
+-- calculate_order_quote returns. Mirrors create_order_with_items without
+-- promo codes and loyalty rewards.
+CREATE OR REPLACE FUNCTION create_guest_order(
+  p_guest_cart_id UUID,
+  p_email TEXT,
+  p_shipping_address JSONB,
+  p_billing_address JSONB,
+  p_payment_method_id TEXT,
+  p_shipping_method TEXT,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS TABLE(
+  id UUID,
+  order_number TEXT,
+  status TEXT,
+  total DECIMAL,
+  discount_amount DECIMAL,
+  estimated_delivery DATE
+) AS $$
+DECLARE
+  v_order_id UUID;
+  v_order_number TEXT;
+  v_quote JSONB;
+  v_line JSONB;
+  v_estimated_delivery DATE;
+BEGIN
+  IF p_email IS NULL OR trim(p_email) = '' THEN
+    RAISE EXCEPTION 'Guest orders require an email address';
+  END IF;
+
+  v_quote := calculate_order_quote(NULL, p_shipping_method, NULL, NULL, p_guest_cart_id);
+
+  IF (v_quote->>'item_count')::INTEGER = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  FOR v_line IN
+    SELECT * FROM jsonb_array_elements(v_quote->'lines')
+    ORDER BY value->>'product_id', value->>'variant_id'
+  LOOP
+    IF NOT (v_line->>'variant_available')::BOOLEAN THEN
+      RAISE EXCEPTION 'Variant is no longer available for product: %', v_line->>'name';
+    END IF;
+
+    IF lock_available_inventory(
+      (v_line->>'product_id')::UUID,
+      (v_line->>'variant_id')::UUID,
+      NULL,
+      p_guest_cart_id
+    ) < (v_line->>'quantity')::INTEGER THEN
+      RAISE EXCEPTION 'Insufficient inventory for product: %', v_line->>'name';
+    END IF;
+  END LOOP;
+
+  -- Generate order number
+  v_order_number := generate_order_number();
+  v_estimated_delivery := CURRENT_DATE + (v_quote->'shipping'->>'estimated_days')::INTEGER;
+
+  -- Create the order
+  INSERT INTO public.orders (
+    user_id,
+    guest_email,
+    order_number,
+    status,
+    subtotal,
+    shipping_method,
+    shipping_cost,
+    tax_amount,
+    total,
+    currency,
+    discount_amount,
+    shipping_address,
+    payment_intent_id,
+    estimated_delivery,
+    notes
+  ) VALUES (
+    NULL,
+    lower(trim(p_email)),
+    v_order_number,
+    'pending',
+    (v_quote->>'subtotal')::DECIMAL,
+    p_shipping_method,
+    (v_quote->'shipping'->>'cost')::DECIMAL,
+    (v_quote->'tax'->>'amount')::DECIMAL,
+    (v_quote->>'total')::DECIMAL,
+    v_quote->>'currency',
+    (v_quote->'discounts'->>'total')::DECIMAL,
+    p_shipping_address,
+    p_payment_method_id,
+    v_estimated_delivery,
+    p_notes
+  ) RETURNING orders.id INTO v_order_id;
+
+  -- Create order items and update inventory
+  FOR v_line IN SELECT * FROM jsonb_array_elements(v_quote->'lines')
+  LOOP
+    INSERT INTO public.order_items (
+      order_id,
+      product_id,
+      variant_id,
+      sku,
+      quantity,
+      price
+    ) VALUES (
+      v_order_id,
+      (v_line->>'product_id')::UUID,
+      (v_line->>'variant_id')::UUID,
+      v_line->>'sku',
+      (v_line->>'quantity')::INTEGER,
+      (v_line->>'unit_price')::DECIMAL
+    );
+
+    PERFORM reduce_product_inventory(
+      (v_line->>'product_id')::UUID,
+      (v_line->>'quantity')::INTEGER,
+      (v_line->>'variant_id')::UUID
+    );
+  END LOOP;
+
+  -- Convert the holds before the cart is cleared (clearing releases them)
+  UPDATE public.inventory_reservations
+  SET status = 'converted', order_id = v_order_id
+  WHERE guest_cart_id = p_guest_cart_id AND inventory_reservations.status = 'active';
+
+  DELETE FROM public.guest_cart_items WHERE guest_cart_id = p_guest_cart_id;
+
+  UPDATE public.guest_carts
+  SET email = lower(trim(p_email))
+  WHERE guest_carts.id = p_guest_cart_id;
+
+  -- Return order details
+  RETURN QUERY
+  SELECT
+    v_order_id,
+    v_order_number,
+    'pending'::TEXT,
+    (v_quote->>'total')::DECIMAL,
+    (v_quote->'discounts'->>'total')::DECIMAL,
+    v_estimated_delivery;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION create_guest_order(UUID, TEXT, JSONB, JSONB, TEXT, TEXT, TEXT)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION create_guest_order(UUID, TEXT, JSONB, JSONB, TEXT, TEXT, TEXT)
+  TO service_role;
+
+-- ============================================================================
+-- PART 6: Claiming guest orders
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS claim_guest_order(UUID);
+
+-- Attach a guest order to an account whose verified sign-in email matches the
+-- order email. Paid orders earn their loyalty points on claim. Only the
+-- service role can call it, after checking the order's signed lookup link;
+-- the email comes from auth.users because profile emails in public.users are
+-- editable by their owners.
+CREATE OR REPLACE FUNCTION claim_guest_order(p_order_id UUID, p_user_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_email TEXT;
+BEGIN
+  SELECT u.email INTO v_email
+  FROM auth.users u
+  WHERE u.id = p_user_id AND u.email_confirmed_at IS NOT NULL;
+
+  UPDATE public.orders
+  SET user_id = p_user_id, claimed_at = NOW(), updated_at = NOW()
+  WHERE id = p_order_id
+    AND user_id IS NULL
+    AND v_email IS NOT NULL
+    AND lower(guest_email) = lower(v_email);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order cannot be claimed: %', p_order_id;
+  END IF;
+
+  -- Only awards paid orders, and only once
+  PERFORM public.award_order_loyalty_points(p_order_id);
+
+  RETURN p_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION claim_guest_order(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_guest_order(UUID, UUID) TO service_role;
+
+COMMENT ON COLUMN public.orders.guest_email IS
+  'Email a guest order is keyed by; null for orders placed with an account';
+COMMENT ON COLUMN public.orders.claimed_at IS 'When a guest order was attached to an account';
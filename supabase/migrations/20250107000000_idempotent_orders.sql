@@ -0,0 +1,519 @@
+-- Idempotent Orders Migration
+-- One payment produces exactly one order. Order creation locks on the payment
+-- intent (and the client's Idempotency-Key, when given) and returns the
+-- existing order on a retry, so a retried create-order request and the
+-- payment_intent.succeeded webhook can race without duplicate orders or
+-- double inventory decrements. The checkout details are saved with the
+-- payment intent so the webhook can create the order if the browser never
+-- comes back.
+
+-- ============================================================================
+-- PART 1: Keys
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'orders' AND column_name = 'idempotency_key'
+  ) THEN
+    ALTER TABLE public.orders ADD COLUMN idempotency_key TEXT;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'payment_intents' AND column_name = 'checkout'
+  ) THEN
+    ALTER TABLE public.payment_intents ADD COLUMN checkout JSONB;
+  END IF;
+END $$;
+
+-- The backstop for the locks below: a payment intent or key can only ever
+-- belong to one order
+DROP INDEX IF EXISTS idx_orders_payment_intent_id;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_orders_payment_intent_id_unique
+  ON public.orders(payment_intent_id)
+  WHERE payment_intent_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_orders_idempotency_key_unique
+  ON public.orders(idempotency_key)
+  WHERE idempotency_key IS NOT NULL;
+
+-- ============================================================================
+-- PART 2: Finding the order for a payment
+-- ============================================================================
+
+-- The order already created for a payment intent or idempotency key, if any
+-- (all columns null otherwise). Takes transaction-scoped locks first so
+-- concurrent attempts for the same payment queue up and the later ones find
+-- the first one's order. Keys are scoped to the customer so a guessed key
+-- never returns someone else's order.
+CREATE OR REPLACE FUNCTION lock_order_for_payment(
+  p_payment_intent_id TEXT,
+  p_idempotency_key TEXT,
+  p_user_id UUID,
+  p_guest_email TEXT DEFAULT NULL
+)
+RETURNS public.orders AS $$
+DECLARE
+  v_order public.orders;
+BEGIN
+  -- Always payment intent first, then key, so two attempts can't deadlock
+  PERFORM pg_advisory_xact_lock(hashtextextended('order_payment:' || p_payment_intent_id, 0));
+  IF p_idempotency_key IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtextextended('order_key:' || p_idempotency_key, 0));
+  END IF;
+
+  SELECT o.* INTO v_order
+  FROM public.orders o
+  WHERE o.payment_intent_id = p_payment_intent_id;
+
+  -- A payment intent is never someone else's order to return
+  IF FOUND AND (
+    v_order.user_id IS DISTINCT FROM p_user_id
+    OR (p_user_id IS NULL AND v_order.guest_email IS DISTINCT FROM lower(trim(p_guest_email)))
+  ) THEN
+    RAISE EXCEPTION 'Payment has already been used for another order';
+  END IF;
+
+  IF NOT FOUND AND p_idempotency_key IS NOT NULL THEN
+    SELECT o.* INTO v_order
+    FROM public.orders o
+    WHERE o.idempotency_key = p_idempotency_key
+      AND o.user_id IS NOT DISTINCT FROM p_user_id
+      AND (p_user_id IS NOT NULL OR o.guest_email = lower(trim(p_guest_email)));
+  END IF;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION lock_order_for_payment(TEXT, TEXT, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Rejects an order whose quote isn't what Stripe captured, so the charged and
+-- recorded totals can't drift apart. Runs under lock_order_for_payment's locks,
+-- after the existing order check, so a retry racing the first attempt gets
+-- that order back instead of comparing the payment with an emptied cart.
+-- Amounts are in the currency's minor unit, within 5 of the quote like the
+-- payment intent itself.
+CREATE OR REPLACE FUNCTION check_order_payment(
+  p_quote JSONB,
+  p_payment_amount BIGINT,
+  p_payment_currency TEXT
+)
+RETURNS VOID AS $$
+BEGIN
+  IF lower(p_payment_currency) IS DISTINCT FROM lower(p_quote->>'currency') THEN
+    RAISE EXCEPTION 'Payment currency does not match the order: % (expected %)',
+      p_payment_currency, p_quote->>'currency';
+  END IF;
+
+  IF abs(p_payment_amount - round((p_quote->>'total')::DECIMAL * 100)) > 5 THEN
+    RAISE EXCEPTION 'Payment amount does not match the order total: % (expected %)',
+      p_payment_amount, round((p_quote->>'total')::DECIMAL * 100);
+  END IF;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+REVOKE EXECUTE ON FUNCTION check_order_payment(JSONB, BIGINT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- PART 3: Creating orders once
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS create_order_with_items(UUID, JSONB, JSONB, TEXT, TEXT, TEXT, TEXT, TEXT);
+
+-- Function to create order with items atomically, once per payment. A retry
+-- returns the existing order with created = false. The promo code and loyalty
+-- reward are locked first so concurrent orders can't both use them; stock is
+-- checked against other shoppers' reservations, and the user's own
+-- reservations are converted as inventory is decremented.
+CREATE OR REPLACE FUNCTION create_order_with_items(
+  p_user_id UUID,
+  p_shipping_address JSONB,
+  p_billing_address JSONB,
+  p_payment_method_id TEXT,
+  p_payment_amount BIGINT,
+  p_payment_currency TEXT,
+  p_shipping_method TEXT,
+  p_notes TEXT DEFAULT NULL,
+  p_loyalty_code TEXT DEFAULT NULL,
+  p_promo_code TEXT DEFAULT NULL,
+  p_idempotency_key TEXT DEFAULT NULL
+)
+RETURNS TABLE(
+  id UUID,
+  order_number TEXT,
+  status TEXT,
+  total DECIMAL,
+  discount_amount DECIMAL,
+  estimated_delivery DATE,
+  created BOOLEAN
+) AS $$
+DECLARE
+  v_existing public.orders;
+  v_order_id UUID;
+  v_order_number TEXT;
+  v_quote JSONB;
+  v_line JSONB;
+  v_promotion_id UUID;
+  v_redemption_id UUID;
+  v_estimated_delivery DATE;
+BEGIN
+  v_existing := lock_order_for_payment(p_payment_method_id, p_idempotency_key, p_user_id);
+
+  IF v_existing.id IS NOT NULL THEN
+    RETURN QUERY
+    SELECT
+      v_existing.id,
+      v_existing.order_number,
+      v_existing.status::TEXT,
+      v_existing.total,
+      v_existing.discount_amount,
+      v_existing.estimated_delivery,
+      FALSE;
+    RETURN;
+  END IF;
+
+  IF p_promo_code IS NOT NULL AND trim(p_promo_code) <> '' THEN
+    PERFORM 1 FROM public.promotions pr WHERE pr.code = upper(trim(p_promo_code)) FOR UPDATE;
+  END IF;
+
+  IF p_loyalty_code IS NOT NULL AND trim(p_loyalty_code) <> '' THEN
+    PERFORM 1 FROM public.loyalty_redemptions r
+    WHERE r.code = upper(trim(p_loyalty_code)) AND r.user_id = p_user_id
+    FOR UPDATE;
+  END IF;
+
+  v_quote := calculate_order_quote(p_user_id, p_shipping_method, p_promo_code, p_loyalty_code);
+
+  -- Only reached when the payment has no order yet, so an empty cart is
+  -- really empty rather than cleared by a concurrent attempt
+  IF (v_quote->>'item_count')::INTEGER = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  PERFORM check_order_payment(v_quote, p_payment_amount, p_payment_currency);
+
+  FOR v_line IN
+    SELECT * FROM jsonb_array_elements(v_quote->'lines')
+    ORDER BY value->>'product_id', value->>'variant_id'
+  LOOP
+    IF NOT (v_line->>'variant_available')::BOOLEAN THEN
+      RAISE EXCEPTION 'Variant is no longer available for product: %', v_line->>'name';
+    END IF;
+
+    IF lock_available_inventory(
+      (v_line->>'product_id')::UUID,
+      (v_line->>'variant_id')::UUID,
+      p_user_id
+    ) < (v_line->>'quantity')::INTEGER THEN
+      RAISE EXCEPTION 'Insufficient inventory for product: %', v_line->>'name';
+    END IF;
+  END LOOP;
+
+  -- Generate order number
+  v_order_number := generate_order_number();
+  v_estimated_delivery := CURRENT_DATE + (v_quote->'shipping'->>'estimated_days')::INTEGER;
+  v_promotion_id := (v_quote->'promo'->>'promotion_id')::UUID;
+  v_redemption_id := (v_quote->'loyalty'->>'redemption_id')::UUID;
+
+  -- Create the order
+  INSERT INTO public.orders (
+    user_id,
+    order_number,
+    status,
+    subtotal,
+    shipping_method,
+    shipping_cost,
+    tax_amount,
+    total,
+    currency,
+    discount_amount,
+    loyalty_redemption_id,
+    promotion_id,
+    promo_code,
+    shipping_address,
+    payment_intent_id,
+    idempotency_key,
+    estimated_delivery,
+    notes
+  ) VALUES (
+    p_user_id,
+    v_order_number,
+    'pending',
+    (v_quote->>'subtotal')::DECIMAL,
+    p_shipping_method,
+    (v_quote->'shipping'->>'cost')::DECIMAL,
+    (v_quote->'tax'->>'amount')::DECIMAL,
+    (v_quote->>'total')::DECIMAL,
+    v_quote->>'currency',
+    (v_quote->'discounts'->>'total')::DECIMAL,
+    v_redemption_id,
+    v_promotion_id,
+    v_quote->'promo'->>'code',
+    p_shipping_address,
+    p_payment_method_id,
+    p_idempotency_key,
+    v_estimated_delivery,
+    p_notes
+  ) RETURNING orders.id INTO v_order_id;
+
+  -- Count the promo code use against its limits
+  IF v_promotion_id IS NOT NULL THEN
+    INSERT INTO public.promotion_redemptions (promotion_id, user_id, order_id, discount_amount)
+    VALUES (
+      v_promotion_id,
+      p_user_id,
+      v_order_id,
+      (v_quote->'promo'->>'item_discount')::DECIMAL
+        + CASE WHEN (v_quote->'promo'->>'free_shipping')::BOOLEAN
+          THEN (v_quote->'shipping'->>'cost')::DECIMAL ELSE 0 END
+    );
+
+    UPDATE public.promotions
+    SET usage_count = usage_count + 1
+    WHERE promotions.id = v_promotion_id;
+  END IF;
+
+  -- The reward code is single use
+  IF v_redemption_id IS NOT NULL THEN
+    UPDATE public.loyalty_redemptions
+    SET status = 'used', order_id = v_order_id, updated_at = NOW()
+    WHERE loyalty_redemptions.id = v_redemption_id;
+  END IF;
+
+  -- Create order items and update inventory
+  FOR v_line IN SELECT * FROM jsonb_array_elements(v_quote->'lines')
+  LOOP
+    INSERT INTO public.order_items (
+      order_id,
+      product_id,
+      variant_id,
+      sku,
+      quantity,
+      price
+    ) VALUES (
+      v_order_id,
+      (v_line->>'product_id')::UUID,
+      (v_line->>'variant_id')::UUID,
+      v_line->>'sku',
+      (v_line->>'quantity')::INTEGER,
+      (v_line->>'unit_price')::DECIMAL
+    );
+
+    -- Update product (or variant) inventory
+    PERFORM reduce_product_inventory(
+      (v_line->>'product_id')::UUID,
+      (v_line->>'quantity')::INTEGER,
+      (v_line->>'variant_id')::UUID
+    );
+  END LOOP;
+
+  -- The held stock is now decremented; convert before the cart is cleared
+  -- (clearing the cart releases any holds that are still active)
+  UPDATE public.inventory_reservations
+  SET status = 'converted', order_id = v_order_id
+  WHERE user_id = p_user_id AND inventory_reservations.status = 'active';
+
+  -- Clear the user's cart
+  DELETE FROM public.cart_items WHERE user_id = p_user_id;
+
+  -- Return order details
+  RETURN QUERY
+  SELECT
+    v_order_id,
+    v_order_number,
+    'pending'::TEXT,
+    (v_quote->>'total')::DECIMAL,
+    (v_quote->'discounts'->>'total')::DECIMAL,
+    v_estimated_delivery,
+    TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION create_order_with_items(UUID, JSONB, JSONB, TEXT, BIGINT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION create_order_with_items(UUID, JSONB, JSONB, TEXT, BIGINT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT)
+  TO service_role;
+
+DROP FUNCTION IF EXISTS create_guest_order(UUID, TEXT, JSONB, JSONB, TEXT, TEXT, TEXT);
+
+-- Create a guest order from a guest cart once per payment, charged exactly
+-- what calculate_order_quote returns. Mirrors create_order_with_items
+-- without promo codes and loyalty rewards.
+CREATE OR REPLACE FUNCTION create_guest_order(
+  p_guest_cart_id UUID,
+  p_email TEXT,
+  p_shipping_address JSONB,
+  p_billing_address JSONB,
+  p_payment_method_id TEXT,
+  p_payment_amount BIGINT,
+  p_payment_currency TEXT,
+  p_shipping_method TEXT,
+  p_notes TEXT DEFAULT NULL,
+  p_idempotency_key TEXT DEFAULT NULL
+)
+RETURNS TABLE(
+  id UUID,
+  order_number TEXT,
+  status TEXT,
+  total DECIMAL,
+  discount_amount DECIMAL,
+  estimated_delivery DATE,
+  created BOOLEAN
+) AS $$
+DECLARE
+  v_existing public.orders;
+  v_order_id UUID;
+  v_order_number TEXT;
+  v_quote JSONB;
+  v_line JSONB;
+  v_estimated_delivery DATE;
+BEGIN
+  IF p_email IS NULL OR trim(p_email) = '' THEN
+    RAISE EXCEPTION 'Guest orders require an email address';
+  END IF;
+
+  v_existing := lock_order_for_payment(p_payment_method_id, p_idempotency_key, NULL, p_email);
+
+  IF v_existing.id IS NOT NULL THEN
+    RETURN QUERY
+    SELECT
+      v_existing.id,
+      v_existing.order_number,
+      v_existing.status::TEXT,
+      v_existing.total,
+      v_existing.discount_amount,
+      v_existing.estimated_delivery,
+      FALSE;
+    RETURN;
+  END IF;
+
+  v_quote := calculate_order_quote(NULL, p_shipping_method, NULL, NULL, p_guest_cart_id);
+
+  -- Only reached when the payment has no order yet, so an empty cart is
+  -- really empty rather than cleared by a concurrent attempt
+  IF (v_quote->>'item_count')::INTEGER = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  PERFORM check_order_payment(v_quote, p_payment_amount, p_payment_currency);
+
+  FOR v_line IN
+    SELECT * FROM jsonb_array_elements(v_quote->'lines')
+    ORDER BY value->>'product_id', value->>'variant_id'
+  LOOP
+    IF NOT (v_line->>'variant_available')::BOOLEAN THEN
+      RAISE EXCEPTION 'Variant is no longer available for product: %', v_line->>'name';
+    END IF;
+
+    IF lock_available_inventory(
+      (v_line->>'product_id')::UUID,
+      (v_line->>'variant_id')::UUID,
+      NULL,
+      p_guest_cart_id
+    ) < (v_line->>'quantity')::INTEGER THEN
+      RAISE EXCEPTION 'Insufficient inventory for product: %', v_line->>'name';
+    END IF;
+  END LOOP;
+
+  -- Generate order number
+  v_order_number := generate_order_number();
+  v_estimated_delivery := CURRENT_DATE + (v_quote->'shipping'->>'estimated_days')::INTEGER;
+
+  -- Create the order
+  INSERT INTO public.orders (
+    user_id,
+    guest_email,
+    order_number,
+    status,
+    subtotal,
+    shipping_method,
+    shipping_cost,
+    tax_amount,
+    total,
+    currency,
+    discount_amount,
+    shipping_address,
+    payment_intent_id,
+    idempotency_key,
+    estimated_delivery,
+    notes
+  ) VALUES (
+    NULL,
+    lower(trim(p_email)),
+    v_order_number,
+    'pending',
+    (v_quote->>'subtotal')::DECIMAL,
+    p_shipping_method,
+    (v_quote->'shipping'->>'cost')::DECIMAL,
+    (v_quote->'tax'->>'amount')::DECIMAL,
+    (v_quote->>'total')::DECIMAL,
+    v_quote->>'currency',
+    (v_quote->'discounts'->>'total')::DECIMAL,
+    p_shipping_address,
+    p_payment_method_id,
+    p_idempotency_key,
+    v_estimated_delivery,
+    p_notes
+  ) RETURNING orders.id INTO v_order_id;
+
+  -- Create order items and update inventory
+  FOR v_line IN SELECT * FROM jsonb_array_elements(v_quote->'lines')
+  LOOP
+    INSERT INTO public.order_items (
+      order_id,
+      product_id,
+      variant_id,
+      sku,
+      quantity,
+      price
+    ) VALUES (
+      v_order_id,
+      (v_line->>'product_id')::UUID,
+      (v_line->>'variant_id')::UUID,
+      v_line->>'sku',
+      (v_line->>'quantity')::INTEGER,
+      (v_line->>'unit_price')::DECIMAL
+    );
+
+    PERFORM reduce_product_inventory(
+      (v_line->>'product_id')::UUID,
+      (v_line->>'quantity')::INTEGER,
+      (v_line->>'variant_id')::UUID
+    );
+  END LOOP;
+
+  -- Convert the holds before the cart is cleared (clearing releases them)
+  UPDATE public.inventory_reservations
+  SET status = 'converted', order_id = v_order_id
+  WHERE guest_cart_id = p_guest_cart_id AND inventory_reservations.status = 'active';
+
+  DELETE FROM public.guest_cart_items WHERE guest_cart_id = p_guest_cart_id;
+
+  UPDATE public.guest_carts
+  SET email = lower(trim(p_email))
+  WHERE guest_carts.id = p_guest_cart_id;
+
+  -- Return order details
+  RETURN QUERY
+  SELECT
+    v_order_id,
+    v_order_number,
+    'pending'::TEXT,
+    (v_quote->>'total')::DECIMAL,
+    (v_quote->'discounts'->>'total')::DECIMAL,
+    v_estimated_delivery,
+    TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION create_guest_order(UUID, TEXT, JSONB, JSONB, TEXT, BIGINT, TEXT, TEXT, TEXT, TEXT)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION create_guest_order(UUID, TEXT, JSONB, JSONB, TEXT, BIGINT, TEXT, TEXT, TEXT, TEXT)
+  TO service_role;
+
+COMMENT ON COLUMN public.orders.idempotency_key IS
+  'Client Idempotency-Key the order was created with; retries with the same key return this order';
+COMMENT ON COLUMN public.payment_intents.checkout IS
+  'Checkout details captured with the payment intent, used to create the order from the webhook';
@@ -0,0 +1,71 @@
+import { runDueSchedules } from '@/app/[locale]/api/cms/scheduler';
+import { createSchedule } from '@/app/[locale]/api/cms/templates/publishing';
+import { templatesStore, versionsStore } from '@/app/[locale]/api/cms/templates/route';
+import { handleSectionPublishCache } from '@/lib/cache/cms-cache';
+import { Section } from '@/types/cms';
+
+jest.mock('@/lib/cache/cms-cache', () => ({
+  handleSectionPublishCache: jest.fn(),
+}));
+
+jest.mock('@/lib/cms/template-auth', () => ({
+  getTemplateUser: jest.fn(),
+}));
+
+const TEMPLATE_ID = 'template-default-homepage';
+
+function scheduleVersion(versionId: string, publishAt: Date) {
+  const template = templatesStore.get(TEMPLATE_ID)!;
+  const version = versionsStore.get(TEMPLATE_ID)!.find((v) => v.id === versionId)!;
+  return createSchedule(
+    template,
+    version,
+    { publish_at: publishAt.toISOString(), timezone: 'UTC' },
+    'admin-michael'
+  );
+}
+
+describe('CMS Scheduler', () => {
+  it('should publish due schedules and invalidate the section cache', async () => {
+    const now = new Date();
+    const template = templatesStore.get(TEMPLATE_ID)!;
+    const version = versionsStore.get(TEMPLATE_ID)![0];
+    version.content.sections = [{ id: 'section-hero', type: 'hero' } as Section];
+
+    const schedule = scheduleVersion(version.id, new Date(now.getTime() - 1000));
+    const summary = await runDueSchedules(now);
+
+    expect(summary.templates).toEqual([
+      expect.objectContaining({ template_id: TEMPLATE_ID, action: 'published' }),
+    ]);
+    expect(schedule.status).toBe('active');
+    expect(schedule.execution_attempts).toBe(1);
+    expect(template.published_version_id).toBe(version.id);
+    expect(handleSectionPublishCache).toHaveBeenCalledWith('section-hero', 'en');
+    expect(handleSectionPublishCache).toHaveBeenCalledWith('section-hero', 'he');
+  });
+
+  it('should mark schedules failed when the version is not approved', async () => {
+    const now = new Date();
+    const template = templatesStore.get(TEMPLATE_ID)!;
+    template.requires_review = true;
+    template.approved_version_id = null;
+
+    const schedule = scheduleVersion(template.current_version_id!, new Date(now.getTime() - 1000));
+    const summary = await runDueSchedules(now);
+
+    expect(schedule.status).toBe('failed');
+    expect(schedule.last_execution_error).toBe('Scheduled version is not approved for publishing');
+    expect(summary.failed).toEqual([expect.objectContaining({ schedule_id: schedule.id })]);
+  });
+
+  it('should leave schedules that are not yet due', async () => {
+    const now = new Date();
+    const schedule = scheduleVersion('version-1', new Date(now.getTime() + 60 * 60 * 1000));
+
+    await runDueSchedules(now);
+
+    expect(schedule.status).toBe('pending');
+    expect(templatesStore.get(TEMPLATE_ID)!.scheduled_publish_at).toBe(schedule.publish_at);
+  });
+});
@@ -0,0 +1,103 @@
+import {
+  stripNiqqud,
+  normalizeFinalLetters,
+  normalizeSearchText,
+  stripHebrewPrefixes,
+  isHebrewStopWord,
+  findNormalizedMatches,
+} from '@/lib/search/hebrew-text';
+import { searchService, highlightSearchTerms } from '@/lib/search/search-service';
+
+describe('Hebrew text normalization', () => {
+  describe('stripNiqqud', () => {
+    it('should remove vowel points', () => {
+      expect(stripNiqqud('שָׁלוֹם')).toBe('שלום');
+    });
+
+    it('should leave unpointed text unchanged', () => {
+      expect(stripNiqqud('חולצה')).toBe('חולצה');
+    });
+  });
+
+  describe('normalizeFinalLetters', () => {
+    it('should replace final letters with regular forms', () => {
+      expect(normalizeFinalLetters('ךםןףץ')).toBe('כמנפצ');
+      expect(normalizeFinalLetters('מכנסיים')).toBe('מכנסיימ');
+    });
+  });
+
+  describe('normalizeSearchText', () => {
+    it('should lower-case Latin text and normalize Hebrew text together', () => {
+      expect(normalizeSearchText('Denim מִכְנָסַיִם')).toBe('denim מכנסימ');
+    });
+
+    it('should split words joined by maqaf and drop gershayim', () => {
+      expect(normalizeSearchText('בית־ספר')).toBe('בית ספר');
+      expect(normalizeSearchText('צה״ל')).toBe('צהל');
+    });
+  });
+
+  describe('stripHebrewPrefixes', () => {
+    it('should strip prefix letters', () => {
+      expect(stripHebrewPrefixes('החולצה')).toBe('חולצה');
+      expect(stripHebrewPrefixes('ובחולצה')).toBe('חולצה');
+    });
+
+    it('should keep at least three letters', () => {
+      expect(stripHebrewPrefixes('לבנ')).toBe('לבנ');
+      expect(stripHebrewPrefixes('שמלה')).toBe('מלה');
+    });
+
+    it('should not touch Latin words', () => {
+      expect(stripHebrewPrefixes('shirt')).toBe('shirt');
+    });
+  });
+
+  describe('isHebrewStopWord', () => {
+    it('should recognize stop words regardless of final letters', () => {
+      expect(isHebrewStopWord('של')).toBe(true);
+      expect(isHebrewStopWord('עם')).toBe(true);
+      expect(isHebrewStopWord('עמ')).toBe(true);
+      expect(isHebrewStopWord('שמלה')).toBe(false);
+    });
+  });
+
+  describe('findNormalizedMatches', () => {
+    it('should map matches back to the original text', () => {
+      expect(findNormalizedMatches('שמלה ארוכה', ['ארוכה'])).toEqual([{ start: 5, end: 10 }]);
+    });
+
+    it('should include niqqud in matched ranges', () => {
+      const text = 'שָׁלוֹם';
+      expect(findNormalizedMatches(text, ['שלומ'])).toEqual([{ start: 0, end: text.length }]);
+    });
+
+    it('should merge overlapping matches', () => {
+      expect(findNormalizedMatches('cashmere', ['cash', 'shmere'])).toEqual([{ start: 0, end: 8 }]);
+    });
+  });
+});
+
+describe('SearchService Hebrew support', () => {
+  it('should tokenize Hebrew queries into normalized stems', () => {
+    expect(searchService.tokenize('החולצות של הילדים')).toEqual(['חולצות', 'ילדימ']);
+  });
+
+  it('should match Hebrew products regardless of prefixes and niqqud', () => {
+    const products = [
+      { id: '1', name: 'חולצה לבנה' },
+      { id: '2', name: 'מעיל צמר' },
+    ];
+
+    const results = searchService.fuzzySearch(products, 'בחוּלצה', ['name']);
+    expect(results.map((product) => product.id)).toEqual(['1']);
+  });
+
+  it('should highlight Hebrew terms in the original text', () => {
+    expect(highlightSearchTerms('מכנסיים ארוכים', 'המכנסיים')).toBe('<mark>מכנסיים</mark> ארוכים');
+  });
+
+  it('should escape regular expression characters in queries', () => {
+    expect(highlightSearchTerms('T-shirt (XL)', '(xl')).toBe('T-shirt (<mark>XL</mark>)');
+  });
+});
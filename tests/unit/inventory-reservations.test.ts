@@ -0,0 +1,24 @@
+import { toReservationError } from '@/lib/checkout/inventory-reservations';
+
+describe('Inventory Reservations', () => {
+  it('should report stock held by other shoppers as a conflict', () => {
+    expect(toReservationError('Insufficient inventory for product: Vintage Denim Jacket')).toEqual({
+      message: 'Insufficient inventory for Vintage Denim Jacket',
+      status: 409,
+      code: 'INSUFFICIENT_INVENTORY',
+    });
+  });
+
+  it('should map an empty cart and ignore unexpected errors', () => {
+    expect(
+      toReservationError('Variant is no longer available for product: Vintage Denim Jacket')
+    ).toEqual({
+      message: 'This option is no longer available for Vintage Denim Jacket',
+      status: 409,
+      code: 'VARIANT_UNAVAILABLE',
+    });
+    expect(toReservationError('Cart is empty')?.code).toBe('CART_EMPTY');
+    expect(toReservationError('Not authenticated')).toBeNull();
+    expect(toReservationError(undefined)).toBeNull();
+  });
+});
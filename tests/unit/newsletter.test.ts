@@ -0,0 +1,53 @@
+import {
+  isConfirmationExpired,
+  NewsletterSubscriber,
+  subscribersToCsv,
+} from '@/lib/newsletter/newsletter-subscriptions';
+
+function subscriber(overrides: Partial<NewsletterSubscriber> = {}): NewsletterSubscriber {
+  return {
+    id: 'sub-1',
+    email: 'jane@example.com',
+    user_id: null,
+    status: 'subscribed',
+    locale: 'en',
+    topics: ['new_arrivals', 'promotions'],
+    source: 'landing',
+    confirmation_token: null,
+    confirmation_sent_at: '2024-01-01T00:00:00.000Z',
+    confirmed_at: '2024-01-02T00:00:00.000Z',
+    unsubscribe_token: 'token',
+    unsubscribed_at: null,
+    created_at: '2024-01-01T00:00:00.000Z',
+    updated_at: '2024-01-02T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('Newsletter Subscriptions', () => {
+  it('should export subscribers as CSV without tokens', () => {
+    const csv = subscribersToCsv([subscriber({ user_id: 'user-1' })]);
+    const [header, row] = csv.trim().split('\r\n');
+
+    expect(header).toBe(
+      'email,status,locale,topics,source,has_account,confirmed_at,unsubscribed_at,created_at'
+    );
+    expect(row).toBe(
+      'jane@example.com,subscribed,en,new_arrivals;promotions,landing,yes,2024-01-02T00:00:00.000Z,,2024-01-01T00:00:00.000Z'
+    );
+    expect(csv).not.toContain('token');
+  });
+
+  it('should quote and defuse unsafe CSV values', () => {
+    const csv = subscribersToCsv([subscriber({ source: '=HYPERLINK("x")' })]);
+
+    expect(csv).toContain(`"'=HYPERLINK(""x"")"`);
+  });
+
+  it('should expire confirmation links after seven days', () => {
+    const pending = subscriber({ status: 'pending' });
+
+    expect(isConfirmationExpired(pending, new Date('2024-01-07T00:00:00.000Z'))).toBe(false);
+    expect(isConfirmationExpired(pending, new Date('2024-01-09T00:00:00.000Z'))).toBe(true);
+  });
+});
@@ -0,0 +1,255 @@
+import {
+  createOrderForPayment,
+  createOrderForVerifiedPayment,
+  parseIdempotencyKey,
+  toOrderCreationError,
+} from '@/lib/checkout/order-creation';
+
+const mockStripe = {
+  paymentIntents: { retrieve: jest.fn() },
+  refunds: { create: jest.fn() },
+};
+
+jest.mock('@/lib/stripe/server', () => ({
+  getServerStripe: () => mockStripe,
+}));
+
+const details = {
+  shippingAddress: {
+    firstName: 'Dana',
+    lastName: 'Levi',
+    email: 'dana@example.com',
+    phone: '0501234567',
+    address: '1 Herzl St',
+    city: 'Tel Aviv',
+    state: 'TA',
+    zipCode: '6100000',
+    country: 'IL',
+  },
+  shippingMethod: 'standard' as const,
+};
+
+const existingOrder = {
+  id: 'order-1',
+  order_number: 'ORD-1',
+  status: 'processing',
+  total: 120,
+  discount_amount: 0,
+  estimated_delivery: '2025-01-10',
+  created: false,
+};
+
+describe('Order Creation', () => {
+  it('should accept a missing or valid Idempotency-Key and reject blank or long keys', () => {
+    expect(parseIdempotencyKey(null)).toEqual({ key: null });
+    expect(parseIdempotencyKey(' checkout-123 ')).toEqual({ key: 'checkout-123' });
+    expect(parseIdempotencyKey('   ').error?.code).toBe('INVALID_IDEMPOTENCY_KEY');
+    expect(parseIdempotencyKey('k'.repeat(256)).error?.status).toBe(400);
+  });
+
+  it('should map a payment used by another customer and fall back to quote errors', () => {
+    expect(toOrderCreationError('Payment has already been used for another order')).toEqual({
+      message: 'This payment has already been used for another order',
+      status: 409,
+      code: 'PAYMENT_ALREADY_USED',
+    });
+    expect(toOrderCreationError('Cart is empty')?.code).toBe('CART_EMPTY');
+    expect(toOrderCreationError('connection reset')).toBeNull();
+  });
+
+  it('should return the existing order for a retried payment', async () => {
+    const rpc = jest.fn().mockResolvedValue({ data: [existingOrder], error: null });
+
+    const result = await createOrderForPayment(
+      { rpc } as any,
+      {
+        userId: 'user-1',
+        guestCartId: null,
+        paymentIntentId: 'pi_123',
+        idempotencyKey: 'checkout-123',
+        details,
+      },
+      { amount: 12000, currency: 'ils' }
+    );
+
+    expect(rpc).toHaveBeenCalledWith(
+      'create_order_with_items',
+      expect.objectContaining({
+        p_user_id: 'user-1',
+        p_payment_method_id: 'pi_123',
+        p_payment_amount: 12000,
+        p_payment_currency: 'ils',
+        p_idempotency_key: 'checkout-123',
+      })
+    );
+    expect(result.data).toEqual({
+      orderId: 'order-1',
+      orderNumber: 'ORD-1',
+      status: 'processing',
+      total: 120,
+      discount: 0,
+      estimatedDelivery: '2025-01-10',
+      created: false,
+    });
+  });
+
+  it('should create guest orders from the guest cart', async () => {
+    const rpc = jest
+      .fn()
+      .mockResolvedValue({ data: [{ ...existingOrder, created: true }], error: null });
+
+    const result = await createOrderForPayment(
+      { rpc } as any,
+      {
+        userId: null,
+        guestCartId: 'cart-1',
+        paymentIntentId: 'pi_456',
+        details: { ...details, guestEmail: 'guest@example.com' },
+      },
+      { amount: 12000, currency: 'ils' }
+    );
+
+    expect(rpc).toHaveBeenCalledWith(
+      'create_guest_order',
+      expect.objectContaining({
+        p_guest_cart_id: 'cart-1',
+        p_email: 'guest@example.com',
+        p_idempotency_key: null,
+      })
+    );
+    expect(result.data?.created).toBe(true);
+  });
+
+  describe('with a loyalty reward', () => {
+    const input = {
+      userId: 'user-1',
+      guestCartId: null,
+      paymentIntentId: 'pi_789',
+      details: { ...details, loyaltyCode: 'RWD-7F3A9C' },
+    };
+
+    // No order yet for the payment; rpc creates it with the reward's discount applied
+    const createSupabase = () => ({
+      rpc: jest.fn().mockResolvedValue({
+        data: [{ ...existingOrder, total: 214, discount_amount: 20, created: true }],
+        error: null,
+      }),
+      from: jest.fn(() => ({
+        select: () => ({
+          eq: () => ({ maybeSingle: jest.fn().mockResolvedValue({ data: null, error: null }) }),
+        }),
+      })),
+    });
+
+    const paymentIntent = (amount: number, currency = 'ils') => ({
+      id: 'pi_789',
+      status: 'succeeded',
+      amount,
+      currency,
+      metadata: { userId: 'user-1', loyaltyCode: 'RWD-7F3A9C' },
+      latest_charge: { amount_refunded: 0 },
+    });
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+
+    it('should create the order for the amount and currency the payment captured', async () => {
+      mockStripe.paymentIntents.retrieve.mockResolvedValue(paymentIntent(21400));
+      const supabase = createSupabase();
+
+      const result = await createOrderForVerifiedPayment(supabase as any, input);
+
+      expect(supabase.rpc).toHaveBeenCalledWith(
+        'create_order_with_items',
+        expect.objectContaining({
+          p_loyalty_code: 'RWD-7F3A9C',
+          p_promo_code: null,
+          p_payment_amount: 21400,
+          p_payment_currency: 'ils',
+        })
+      );
+      expect(result.data).toMatchObject({ total: 214, discount: 20, created: true });
+      expect(mockStripe.refunds.create).not.toHaveBeenCalled();
+    });
+
+    it('should refund a payment taken without the discount instead of creating the order', async () => {
+      mockStripe.paymentIntents.retrieve.mockResolvedValue(paymentIntent(23400));
+      const supabase = createSupabase();
+      supabase.rpc.mockResolvedValue({
+        data: null,
+        error: { message: 'Payment amount does not match the order total: 23400 (expected 21400)' },
+      });
+
+      const result = await createOrderForVerifiedPayment(supabase as any, input);
+
+      expect(result.error).toMatchObject({
+        code: 'PAYMENT_AMOUNT_MISMATCH',
+        message: 'Your cart changed during payment, so the payment has been refunded',
+      });
+      expect(mockStripe.refunds.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          payment_intent: 'pi_789',
+          metadata: { unfulfilled_reason: 'amount_mismatch' },
+        }),
+        { idempotencyKey: 'unfulfilled-pi_789' }
+      );
+    });
+
+    it('should refund a payment made in another currency instead of creating the order', async () => {
+      mockStripe.paymentIntents.retrieve.mockResolvedValue(paymentIntent(21400, 'usd'));
+      const supabase = createSupabase();
+      supabase.rpc.mockResolvedValue({
+        data: null,
+        error: { message: 'Payment currency does not match the order: usd (expected ILS)' },
+      });
+
+      const result = await createOrderForVerifiedPayment(supabase as any, input);
+
+      expect(result.error?.code).toBe('PAYMENT_CURRENCY_MISMATCH');
+      expect(mockStripe.refunds.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          payment_intent: 'pi_789',
+          metadata: { unfulfilled_reason: 'currency_mismatch' },
+        }),
+        { idempotencyKey: 'unfulfilled-pi_789' }
+      );
+    });
+
+    it('should return the order a concurrent attempt created instead of refunding it', async () => {
+      // Nothing found before the lock; the other attempt's order is returned under it
+      mockStripe.paymentIntents.retrieve.mockResolvedValue(paymentIntent(21400));
+      const supabase = createSupabase();
+      supabase.rpc.mockResolvedValue({ data: [{ ...existingOrder, total: 214 }], error: null });
+
+      const result = await createOrderForVerifiedPayment(supabase as any, input);
+
+      expect(result.data).toMatchObject({ orderId: 'order-1', created: false });
+      expect(mockStripe.refunds.create).not.toHaveBeenCalled();
+    });
+
+    it('should refund a payment whose items sold out after the hold expired', async () => {
+      mockStripe.paymentIntents.retrieve.mockResolvedValue(paymentIntent(21400));
+      const supabase = createSupabase();
+      supabase.rpc.mockResolvedValue({
+        data: null,
+        error: { message: 'Insufficient inventory for product: Vintage Denim Jacket' },
+      });
+
+      const result = await createOrderForVerifiedPayment(supabase as any, input);
+
+      expect(result.error).toMatchObject({
+        code: 'INSUFFICIENT_INVENTORY',
+        message:
+          'Insufficient inventory for Vintage Denim Jacket, so the payment has been refunded',
+      });
+      expect(mockStripe.refunds.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          payment_intent: 'pi_789',
+          metadata: { unfulfilled_reason: 'out_of_stock' },
+        }),
+        { idempotencyKey: 'unfulfilled-pi_789' }
+      );
+    });
+  });
+});
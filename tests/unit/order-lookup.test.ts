@@ -0,0 +1,56 @@
+import {
+  getOrderLookupUrl,
+  signOrderLookupToken,
+  verifyOrderLookupToken,
+} from '@/lib/checkout/order-lookup';
+
+const ORDER_ID = '7f1c2d3e-4b5a-4c6d-8e9f-0a1b2c3d4e5f';
+
+describe('Guest Order Lookup', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = {
+      ...originalEnv,
+      ORDER_LOOKUP_SECRET: 'test-lookup-secret',
+      NEXT_PUBLIC_APP_URL: 'https://peakees.test',
+    };
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('should accept the token for the order and email it was signed for', () => {
+    const token = signOrderLookupToken(ORDER_ID, 'Guest@Example.com ');
+
+    expect(token).toMatch(/^[a-f0-9]{64}$/);
+    expect(verifyOrderLookupToken(ORDER_ID, 'guest@example.com', token)).toBe(true);
+  });
+
+  it('should reject tokens for another order, another email or a different secret', () => {
+    const token = signOrderLookupToken(ORDER_ID, 'guest@example.com');
+
+    expect(
+      verifyOrderLookupToken('00000000-0000-4000-8000-000000000000', 'guest@example.com', token)
+    ).toBe(false);
+    expect(verifyOrderLookupToken(ORDER_ID, 'other@example.com', token)).toBe(false);
+    expect(verifyOrderLookupToken(ORDER_ID, 'guest@example.com', 'not-a-token')).toBe(false);
+
+    process.env.ORDER_LOOKUP_SECRET = 'rotated-secret';
+    expect(verifyOrderLookupToken(ORDER_ID, 'guest@example.com', token)).toBe(false);
+  });
+
+  it('should build a localized lookup link and require a secret', () => {
+    const url = getOrderLookupUrl(ORDER_ID, 'guest@example.com', 'he');
+
+    expect(url).toBe(
+      `https://peakees.test/he/orders/lookup?order=${ORDER_ID}&token=${signOrderLookupToken(ORDER_ID, 'guest@example.com')}`
+    );
+
+    delete process.env.ORDER_LOOKUP_SECRET;
+    expect(() => signOrderLookupToken(ORDER_ID, 'guest@example.com')).toThrow(
+      'ORDER_LOOKUP_SECRET is not configured'
+    );
+  });
+});
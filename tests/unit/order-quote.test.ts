@@ -0,0 +1,114 @@
+import { toOrderQuote, toOrderQuoteError, toOrderSummary } from '@/lib/checkout/order-quote';
+
+describe('Order Quote', () => {
+  const raw = {
+    currency: 'ILS',
+    lines: [
+      {
+        product_id: 'product-1',
+        variant_id: null,
+        sku: null,
+        name: 'Trail Jacket',
+        unit_price: '117.00',
+        quantity: 2,
+        line_total: '234.00',
+        in_stock: true,
+        variant_available: true,
+      },
+    ],
+    item_count: 2,
+    subtotal: '234.00',
+    promo: {
+      promotion_id: 'promo-1',
+      code: 'SAVE10',
+      name: '10% off',
+      type: 'percentage',
+      item_discount: '23.40',
+      free_shipping: false,
+    },
+    loyalty: null,
+    discounts: { items: '23.40', shipping: 0, total: '23.40' },
+    shipping: {
+      method: 'standard',
+      cost: 0,
+      discount: 0,
+      estimated_days: 3,
+      free_shipping_threshold: 200,
+    },
+    shipping_options: [
+      { method: 'standard', cost: 0, estimated_days: 3 },
+      { method: 'express', cost: 40, estimated_days: 1 },
+    ],
+    tax: { rate: 17, prices_include_tax: true, taxable_amount: '210.60', amount: '30.60' },
+    total: '210.60',
+  };
+
+  it('should map the database quote to numbers and camelCase', () => {
+    const quote = toOrderQuote(raw);
+
+    expect(quote.lines[0]).toEqual({
+      productId: 'product-1',
+      variantId: null,
+      sku: null,
+      name: 'Trail Jacket',
+      unitPrice: 117,
+      quantity: 2,
+      lineTotal: 234,
+      inStock: true,
+      variantAvailable: true,
+    });
+    expect(quote.promo?.itemDiscount).toBe(23.4);
+    expect(quote.shipping.freeShippingThreshold).toBe(200);
+    expect(quote.shippingOptions.map((option) => option.method)).toEqual(['standard', 'express']);
+    expect(quote.tax.pricesIncludeTax).toBe(true);
+    expect(quote.total).toBe(210.6);
+  });
+
+  it('should summarize the quote for checkout', () => {
+    expect(toOrderSummary(toOrderQuote(raw))).toEqual({
+      subtotal: 234,
+      shipping: 0,
+      tax: 30.6,
+      taxIncluded: true,
+      discount: 23.4,
+      total: 210.6,
+    });
+  });
+
+  it('should carry a loyalty reward and its discount into the summary', () => {
+    const quote = toOrderQuote({
+      ...raw,
+      promo: null,
+      loyalty: {
+        redemption_id: 'redemption-1',
+        code: 'RWD-7F3A9C',
+        reward_type: 'discount',
+        item_discount: '20.00',
+        free_shipping: false,
+      },
+      discounts: { items: '20.00', shipping: 0, total: '20.00' },
+      tax: { rate: 17, prices_include_tax: true, taxable_amount: '214.00', amount: '31.09' },
+      total: '214.00',
+    });
+
+    expect(quote.loyalty).toEqual({
+      redemptionId: 'redemption-1',
+      code: 'RWD-7F3A9C',
+      rewardType: 'discount',
+      itemDiscount: 20,
+      freeShipping: false,
+    });
+    expect(toOrderSummary(quote)).toMatchObject({ discount: 20, total: 214 });
+  });
+
+  it('should map pricing errors and ignore everything else', () => {
+    expect(toOrderQuoteError('Promo code has expired')?.code).toBe('INVALID_PROMO_CODE');
+    expect(toOrderQuoteError('Invalid or already used loyalty reward: ABC')?.code).toBe(
+      'INVALID_LOYALTY_REWARD'
+    );
+    expect(toOrderQuoteError('Shipping method is not available: overnight')?.code).toBe(
+      'SHIPPING_METHOD_UNAVAILABLE'
+    );
+    expect(toOrderQuoteError('connection refused')).toBeNull();
+  });
+});
@@ -0,0 +1,126 @@
+import {
+  consumeRateLimit,
+  getRateLimitBucket,
+  getRateLimitHeaders,
+  getRateLimitPolicy,
+  getRateLimitRoute,
+  MemoryRateLimitStore,
+  RedisCommand,
+  RedisRateLimitStore,
+} from '@/lib/security/rate-limit';
+
+// Stand-in for a Redis server: just the commands the store sends
+function createRedisStandIn() {
+  const data = new Map<string, number>();
+  const commands: RedisCommand[] = [];
+
+  return {
+    commands,
+    async pipeline(batch: RedisCommand[]) {
+      commands.push(...batch);
+      return batch.map(([command, key]) => {
+        switch (command) {
+          case 'INCR': {
+            const value = (data.get(String(key)) || 0) + 1;
+            data.set(String(key), value);
+            return value;
+          }
+          case 'PEXPIRE':
+            return 1;
+          case 'GET':
+            return data.has(String(key)) ? String(data.get(String(key))) : null;
+          default:
+            throw new Error(`Unsupported command ${command}`);
+        }
+      });
+    },
+  };
+}
+
+const policy = { maxRequests: 3, windowMs: 60000 };
+const windowStart = 60000 * 1000;
+
+describe('Rate Limiting', () => {
+  it('should allow requests up to the limit and then reject them', async () => {
+    const store = new MemoryRateLimitStore();
+    const results = [];
+
+    for (let i = 0; i < 4; i++) {
+      results.push(await consumeRateLimit('1.2.3.4', policy, { store, now: windowStart + i }));
+    }
+
+    expect(results.map((result) => result.allowed)).toEqual([true, true, true, false]);
+    expect(results.map((result) => result.remaining)).toEqual([2, 1, 0, 0]);
+  });
+
+  it('should weigh the previous window so limits hold across a window boundary', async () => {
+    const store = new MemoryRateLimitStore();
+
+    for (let i = 0; i < 3; i++) {
+      await consumeRateLimit('1.2.3.4', policy, { store, now: windowStart + 59000 });
+    }
+
+    // Just after the boundary almost all of the previous window still counts
+    const early = await consumeRateLimit('1.2.3.4', policy, { store, now: windowStart + 61000 });
+    expect(early.allowed).toBe(false);
+
+    // Most of the way through the next window the old hits have slid out
+    const late = await consumeRateLimit('1.2.3.4', policy, { store, now: windowStart + 119000 });
+    expect(late.allowed).toBe(true);
+  });
+
+  it('should share counters through a Redis-compatible store', async () => {
+    const redis = createRedisStandIn();
+    // Two replicas with their own store instances
+    const replicaA = new RedisRateLimitStore(redis);
+    const replicaB = new RedisRateLimitStore(redis);
+
+    await consumeRateLimit('1.2.3.4', policy, { store: replicaA, now: windowStart });
+    await consumeRateLimit('1.2.3.4', policy, { store: replicaB, now: windowStart + 1 });
+    await consumeRateLimit('1.2.3.4', policy, { store: replicaA, now: windowStart + 2 });
+    const result = await consumeRateLimit('1.2.3.4', policy, {
+      store: replicaB,
+      now: windowStart + 3,
+    });
+
+    expect(result.allowed).toBe(false);
+    expect(redis.commands).toContainEqual(['PEXPIRE', 'rate_limit:1.2.3.4:1000', 120000]);
+  });
+
+  it('should pick the most specific route policy for localized paths', () => {
+    expect(getRateLimitRoute('/he/api/checkout/payment-intent')).toBe(
+      '/api/checkout/payment-intent'
+    );
+    expect(getRateLimitRoute('/en/api/checkout/quote')).toBe('/api/checkout');
+    expect(getRateLimitRoute('/api/orders/lookup')).toBe('/api/orders/lookup');
+    expect(getRateLimitRoute('/en/api/cartography')).toBe('default');
+    expect(getRateLimitPolicy('/api/checkout/payment-intent')).toEqual({
+      maxRequests: 5,
+      windowMs: 60000,
+    });
+    expect(getRateLimitPolicy('default').maxRequests).toBe(100);
+  });
+
+  it('should count routes on the default policy per resource, not in one shared bucket', () => {
+    expect(getRateLimitBucket('/en/api/search/suggestions')).toBe('/api/search');
+    expect(getRateLimitBucket('/api/reviews/abc/vote')).toBe('/api/reviews');
+    expect(getRateLimitBucket('/api/reviews/def/vote')).toBe('/api/reviews');
+    expect(getRateLimitBucket('/he/api/checkout/quote')).toBe('/api/checkout');
+    expect(getRateLimitPolicy(getRateLimitRoute('/api/search')).maxRequests).toBe(100);
+  });
+
+  it('should describe the limit in RateLimit headers', async () => {
+    const store = new MemoryRateLimitStore();
+    const allowed = await consumeRateLimit('1.2.3.4', policy, { store, now: windowStart + 15000 });
+
+    expect(getRateLimitHeaders(allowed)).toEqual({
+      'RateLimit-Limit': '3',
+      'RateLimit-Remaining': '2',
+      'RateLimit-Reset': '45',
+      'RateLimit-Policy': '3;w=60',
+    });
+
+    const limited = { ...allowed, allowed: false, remaining: 0 };
+    expect(getRateLimitHeaders(limited)['Retry-After']).toBe('45');
+  });
+});
@@ -0,0 +1,140 @@
+import { cancelRefundedOrder, issueRefund } from '@/lib/stripe/refunds';
+
+const mockStripe = {
+  refunds: { create: jest.fn() },
+};
+
+jest.mock('@/lib/stripe/server', () => ({
+  getServerStripe: () => mockStripe,
+}));
+
+const pendingRefund = {
+  id: 'refund-row-1',
+  order_id: 'order-1',
+  payment_intent_id: 'pi_123',
+  return_request_id: 'return-1',
+  amount: 80,
+  currency: 'ils',
+  reason: 'requested_by_customer',
+  status: 'pending',
+};
+
+// The order was paid in shekels; rpc answers by function name
+const createSupabase = (rpcResults: Record<string, { data: any; error: any }>) => {
+  const update = jest.fn(() => ({
+    eq: () => ({
+      select: () => ({
+        single: jest.fn().mockResolvedValue({
+          data: { ...pendingRefund, status: 'succeeded', stripe_refund_id: 're_1' },
+          error: null,
+        }),
+      }),
+    }),
+  }));
+
+  return {
+    rpc: jest.fn((name: string) => Promise.resolve(rpcResults[name])),
+    from: jest.fn(() => ({
+      select: () => ({
+        eq: () => ({
+          maybeSingle: jest.fn().mockResolvedValue({ data: { currency: 'ils' }, error: null }),
+        }),
+      }),
+      update,
+    })),
+  };
+};
+
+const input = {
+  orderId: 'order-1',
+  paymentIntentId: 'pi_123',
+  amount: 80,
+  returnRequestId: 'return-1',
+};
+
+describe('Stripe Refunds', () => {
+  describe('issueRefund', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+
+    it('should hold the balance in the database before refunding with a key from the refund row', async () => {
+      mockStripe.refunds.create.mockResolvedValue({
+        id: 're_1',
+        currency: 'ils',
+        status: 'succeeded',
+      });
+      const supabase = createSupabase({
+        create_pending_refund: { data: pendingRefund, error: null },
+      });
+
+      const result = await issueRefund(supabase as any, input);
+
+      expect(supabase.rpc).toHaveBeenCalledWith(
+        'create_pending_refund',
+        expect.objectContaining({
+          p_order_id: 'order-1',
+          p_amount: 80,
+          p_currency: 'ils',
+          p_return_request_id: 'return-1',
+        })
+      );
+      expect(mockStripe.refunds.create).toHaveBeenCalledWith(
+        expect.objectContaining({ payment_intent: 'pi_123', amount: 8000 }),
+        { idempotencyKey: 'refund-refund-row-1' }
+      );
+      expect(result.data?.status).toBe('succeeded');
+    });
+
+    it('should return the refund a concurrent approval of the same return already made', async () => {
+      const supabase = createSupabase({
+        create_pending_refund: { data: { ...pendingRefund, status: 'succeeded' }, error: null },
+      });
+
+      const result = await issueRefund(supabase as any, input);
+
+      expect(result.data?.status).toBe('succeeded');
+      expect(mockStripe.refunds.create).not.toHaveBeenCalled();
+    });
+
+    it('should not call Stripe once another refund has taken the balance', async () => {
+      const supabase = createSupabase({
+        create_pending_refund: {
+          data: null,
+          error: { message: 'Refund exceeds the refundable amount: 20.00' },
+        },
+        order_refundable_amount: { data: 20, error: null },
+      });
+
+      const result = await issueRefund(supabase as any, input);
+
+      expect(result.error).toMatchObject({ status: 400, code: 'REFUND_EXCEEDS_ORDER' });
+      expect(result.error?.message).toContain('20');
+      expect(mockStripe.refunds.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancelRefundedOrder', () => {
+    it('should cancel a guest order by its ID alone', async () => {
+      const rpc = jest.fn().mockResolvedValue({ data: null, error: null });
+
+      await cancelRefundedOrder({ rpc } as any, 'guest-order-1', 'Cancelled and refunded by admin');
+
+      expect(rpc).toHaveBeenCalledWith('cancel_refunded_order', {
+        p_order_id: 'guest-order-1',
+        p_reason: 'Cancelled and refunded by admin',
+      });
+    });
+
+    it('should throw when the order could not be cancelled', async () => {
+      const rpc = jest.fn().mockResolvedValue({
+        data: null,
+        error: { message: 'Order not found or cannot be cancelled' },
+      });
+
+      await expect(
+        cancelRefundedOrder({ rpc } as any, 'guest-order-1', 'Refunded')
+      ).rejects.toEqual({ message: 'Order not found or cannot be cancelled' });
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import {
+  calculateTax,
+  DEFAULT_STORE_SETTINGS,
+  getShippingCost,
+  getShippingMethods,
+  parseStoreSettings,
+  toCheckoutSettings,
+} from '@/lib/settings/store-settings';
+
+describe('Store Settings', () => {
+  const shipping = DEFAULT_STORE_SETTINGS.shipping;
+
+  it('should calculate tax at a percentage rate rounded to the cent', () => {
+    expect(calculateTax(100, 17)).toBe(17);
+    expect(calculateTax(19.99, 17)).toBe(3.4);
+    expect(calculateTax(-10, 17)).toBe(0);
+  });
+
+  it('should extract tax from VAT-inclusive prices', () => {
+    expect(calculateTax(117, 17, true)).toBe(17);
+    expect(calculateTax(100, 17, true)).toBe(14.53);
+  });
+
+  it('should make only standard shipping free over the threshold', () => {
+    expect(getShippingCost(shipping, 'standard', 199)).toBe(25);
+    expect(getShippingCost(shipping, 'standard', 200)).toBe(0);
+    expect(getShippingCost(shipping, 'express', 500)).toBe(40);
+    expect(getShippingCost(shipping, 'overnight', 500)).toBeNull();
+    expect(getShippingCost({ ...shipping, freeShippingThreshold: null }, 'standard', 10000)).toBe(
+      25
+    );
+  });
+
+  it('should only offer enabled shipping methods', () => {
+    const methods = getShippingMethods(toCheckoutSettings(DEFAULT_STORE_SETTINGS), 50);
+
+    expect(methods.map((method) => method.id)).toEqual(['standard', 'express']);
+    expect(methods[0].price).toBe(25);
+  });
+
+  it('should fall back to defaults for missing or invalid sections', () => {
+    const settings = parseStoreSettings([
+      { key: 'payments', value: { ...DEFAULT_STORE_SETTINGS.payments, taxRate: 18 } },
+      { key: 'shipping', value: { freeShippingThreshold: 'free' } },
+    ]);
+
+    expect(settings.payments.taxRate).toBe(18);
+    expect(settings.shipping).toEqual(DEFAULT_STORE_SETTINGS.shipping);
+    expect(settings.store).toEqual(DEFAULT_STORE_SETTINGS.store);
+  });
+});
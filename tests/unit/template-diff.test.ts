@@ -0,0 +1,67 @@
+import { diffTemplateVersions } from '@/lib/cms/template-diff';
+import { Section } from '@/types/cms';
+import { CMSTemplateVersion } from '@/types/cms-templates';
+
+function section(id: string, order: number, config: Record<string, unknown> = {}): Section {
+  return {
+    id,
+    type: 'text_block',
+    status: 'published',
+    order,
+    visible: true,
+    created_at: '2024-01-01T00:00:00.000Z',
+    updated_at: '2024-01-01T00:00:00.000Z',
+    config: { content: id, ...config },
+  } as Section;
+}
+
+function version(id: string, sections: Section[], metadata = {}): CMSTemplateVersion {
+  return {
+    id,
+    content: {
+      id: 'homepage-1',
+      sections,
+      status: 'draft',
+      created_at: '2024-01-01T00:00:00.000Z',
+      updated_at: '2024-01-01T00:00:00.000Z',
+      metadata,
+    },
+  } as CMSTemplateVersion;
+}
+
+describe('Template Diff', () => {
+  it('should report added, removed and modified sections', () => {
+    const diff = diffTemplateVersions(
+      version('v1', [section('a', 0), section('b', 1), section('c', 2)]),
+      version('v2', [section('a', 0, { content: 'changed' }), section('c', 1), section('d', 2)])
+    );
+
+    expect(diff.added_sections).toEqual(['d']);
+    expect(diff.removed_sections).toEqual(['b']);
+    expect(diff.modified_sections).toEqual(['a']);
+    expect(diff.reordered_sections).toEqual([]);
+    expect(diff.sections.map((row) => row.section_id)).toEqual(['a', 'b', 'c', 'd']);
+    expect(diff.sections[0].field_changes).toEqual([
+      { path: 'config.content', old: 'a', new: 'changed' },
+    ]);
+  });
+
+  it('should only flag the moved section when reordering', () => {
+    const diff = diffTemplateVersions(
+      version('v1', [section('a', 0), section('b', 1), section('c', 2)]),
+      version('v2', [section('c', 0), section('a', 1), section('b', 2)])
+    );
+
+    expect(diff.reordered_sections).toEqual(['c']);
+    expect(diff.modified_sections).toEqual([]);
+  });
+
+  it('should diff page metadata by path', () => {
+    const diff = diffTemplateVersions(
+      version('v1', [], { seo: { title: 'Old' } }),
+      version('v2', [], { seo: { title: 'New' } })
+    );
+
+    expect(diff.metadata_changes).toEqual({ 'seo.title': { old: 'Old', new: 'New' } });
+  });
+});
@@ -0,0 +1,100 @@
+import {
+  buildCommentThreads,
+  hasTemplatePermission,
+  resolveTemplateRole,
+} from '@/lib/cms/template-permissions';
+import { CMSTemplate, CMSTemplateCollaborator, CMSTemplateComment } from '@/types/cms-templates';
+
+const template = { id: 'template-1', created_by: 'user-owner' } as CMSTemplate;
+
+const collaborators = [
+  { id: 'collaborator-1', template_id: 'template-1', user_id: 'user-reviewer', role: 'reviewer' },
+] as CMSTemplateCollaborator[];
+
+function comment(overrides: Partial<CMSTemplateComment>): CMSTemplateComment {
+  return {
+    id: 'comment',
+    template_id: 'template-1',
+    version_id: null,
+    content: 'Looks good',
+    comment_type: 'general',
+    parent_comment_id: null,
+    thread_level: 0,
+    section_id: null,
+    is_resolved: false,
+    resolved_at: null,
+    resolved_by: null,
+    created_by: 'user-reviewer',
+    is_deleted: false,
+    deleted_at: null,
+    created_at: '2024-12-01T10:00:00.000Z',
+    updated_at: '2024-12-01T10:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('Template Permissions', () => {
+  describe('resolveTemplateRole', () => {
+    it('should treat the creator and site admins as owners', () => {
+      expect(
+        resolveTemplateRole({ template, collaborators, userId: 'user-owner', isAdmin: false })
+      ).toBe('owner');
+      expect(
+        resolveTemplateRole({ template, collaborators, userId: 'someone', isAdmin: true })
+      ).toBe('owner');
+    });
+
+    it('should use the collaborator role and deny strangers', () => {
+      expect(
+        resolveTemplateRole({ template, collaborators, userId: 'user-reviewer', isAdmin: false })
+      ).toBe('reviewer');
+      expect(
+        resolveTemplateRole({ template, collaborators, userId: 'stranger', isAdmin: false })
+      ).toBeNull();
+    });
+  });
+
+  describe('hasTemplatePermission', () => {
+    it('should follow ROLE_PERMISSIONS', () => {
+      expect(hasTemplatePermission('reviewer', 'can_comment')).toBe(true);
+      expect(hasTemplatePermission('reviewer', 'can_edit')).toBe(false);
+      expect(hasTemplatePermission('editor', 'can_publish')).toBe(true);
+      expect(hasTemplatePermission(null, 'can_view')).toBe(false);
+    });
+  });
+
+  describe('buildCommentThreads', () => {
+    it('should nest replies under their root comment', () => {
+      const threads = buildCommentThreads([
+        comment({ id: 'root' }),
+        comment({
+          id: 'reply-2',
+          parent_comment_id: 'reply-1',
+          thread_level: 2,
+          created_at: '2024-12-01T12:00:00.000Z',
+        }),
+        comment({
+          id: 'reply-1',
+          parent_comment_id: 'root',
+          thread_level: 1,
+          created_at: '2024-12-01T11:00:00.000Z',
+        }),
+      ]);
+
+      expect(threads).toHaveLength(1);
+      expect(threads[0].replies.map((r) => r.id)).toEqual(['reply-1', 'reply-2']);
+    });
+
+    it('should drop deleted comments but keep a deleted root with live replies', () => {
+      const threads = buildCommentThreads([
+        comment({ id: 'gone', is_deleted: true }),
+        comment({ id: 'root', is_deleted: true }),
+        comment({ id: 'reply', parent_comment_id: 'root', thread_level: 1 }),
+      ]);
+
+      expect(threads.map((t) => t.id)).toEqual(['root']);
+      expect(threads[0].content).toBe('');
+      expect(threads[0].replies).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import {
+  getAvailableReviewActions,
+  getReviewActionError,
+  isVersionApproved,
+} from '@/lib/cms/template-review';
+import { CMSTemplate } from '@/types/cms-templates';
+
+function template(overrides: Partial<CMSTemplate>): CMSTemplate {
+  return {
+    id: 'template-1',
+    status: 'draft',
+    requires_review: true,
+    current_version_id: 'version-2',
+    review_version_id: null,
+    review_requested_by: null,
+    approved_version_id: 'version-1',
+    ...overrides,
+  } as CMSTemplate;
+}
+
+describe('Template Review', () => {
+  it('should let editors submit and reviewers decide', () => {
+    expect(getAvailableReviewActions(template({}), 'editor', 'user-editor')).toEqual(['submit']);
+
+    const inReview = template({
+      status: 'review',
+      review_version_id: 'version-2',
+      review_requested_by: 'user-editor',
+    });
+
+    expect(getAvailableReviewActions(inReview, 'reviewer', 'user-reviewer')).toEqual([
+      'approve',
+      'reject',
+    ]);
+    expect(getAvailableReviewActions(inReview, 'viewer', 'user-viewer')).toEqual([]);
+  });
+
+  it('should stop non-owners reviewing their own submission', () => {
+    const inReview = template({
+      status: 'review',
+      review_version_id: 'version-2',
+      review_requested_by: 'user-1',
+    });
+
+    expect(getReviewActionError(inReview, 'reviewer', 'approve', 'user-1')?.status).toBe(403);
+    expect(getReviewActionError(inReview, 'owner', 'approve', 'user-1')).toBeNull();
+  });
+
+  it('should only gate publishing when review is required', () => {
+    expect(isVersionApproved(template({}), 'version-1')).toBe(true);
+    expect(isVersionApproved(template({}), 'version-2')).toBe(false);
+    expect(isVersionApproved(template({ requires_review: false }), 'version-2')).toBe(true);
+  });
+});
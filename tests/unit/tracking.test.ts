@@ -0,0 +1,100 @@
+import { TrackingService, TRACKING_PATTERNS, s10CheckDigit } from '@/lib/shipping/carriers';
+import { IsraelPostAdapter, MockTrackingAdapter } from '@/lib/shipping/tracking-adapters';
+
+describe('Tracking', () => {
+  describe('detectCarrier', () => {
+    const service = new TrackingService({});
+
+    it('should detect Israel Post item numbers', () => {
+      expect(service.detectCarrier('RR123456785IL')).toBe('israel_post');
+      expect(service.detectCarrier('rr 123 456 785 il')).toBe('israel_post');
+    });
+
+    it('should detect HFD shipment numbers', () => {
+      expect(service.detectCarrier('HFD123456789')).toBe('hfd');
+    });
+
+    it('should not confuse foreign S10 numbers with Israel Post', () => {
+      expect(service.detectCarrier('RR123456785US')).toBeNull();
+    });
+  });
+
+  describe('generateTrackingNumber', () => {
+    it('should generate Israel Post numbers with a valid S10 check digit', () => {
+      const trackingNumber = new TrackingService({}).generateTrackingNumber('israel_post');
+
+      expect(TRACKING_PATTERNS.israel_post.test(trackingNumber)).toBe(true);
+      expect(Number(trackingNumber[10])).toBe(s10CheckDigit(trackingNumber.slice(2, 10)));
+    });
+
+    it('should compute the S10 check digit', () => {
+      expect(s10CheckDigit('12345678')).toBe(5);
+    });
+  });
+
+  describe('trackPackage', () => {
+    it('should use a registered adapter for the detected carrier', async () => {
+      const adapter = new MockTrackingAdapter('israel_post', {
+        RR123456785IL: { status: 'delivered' },
+      });
+      const service = new TrackingService({}, [adapter]);
+
+      const info = await service.trackPackage('RR123456785IL');
+
+      expect(info.carrier).toBe('israel_post');
+      expect(info.status).toBe('delivered');
+      expect(adapter.calls).toEqual(['RR123456785IL']);
+    });
+
+    it('should surface adapter failures', async () => {
+      const adapter = new MockTrackingAdapter('hfd').setResponse(
+        'HFD123456789',
+        new Error('Failed to track HFD package')
+      );
+      const service = new TrackingService({}).registerAdapter(adapter);
+
+      await expect(service.trackPackage('HFD123456789')).rejects.toThrow(
+        'Failed to track HFD package'
+      );
+    });
+  });
+
+  describe('IsraelPostAdapter', () => {
+    const originalFetch = global.fetch;
+
+    afterEach(() => {
+      global.fetch = originalFetch;
+    });
+
+    it('should map the item trace to tracking info, newest event first', async () => {
+      global.fetch = jest.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          itemCode: 'RR123456785IL',
+          events: [
+            { date: '2024-12-01T08:00:00Z', code: 'ACCEPTED', description: 'Accepted' },
+            {
+              date: '2024-12-03T12:00:00Z',
+              code: 'DELIVERED',
+              description: 'Delivered',
+              city: 'Haifa',
+            },
+          ],
+        }),
+      }) as jest.Mock;
+
+      const adapter = new IsraelPostAdapter('key', 'https://israelpost.test');
+      const info = await adapter.track('RR123456785IL');
+
+      expect(info.status).toBe('delivered');
+      expect(info.actualDelivery).toBe('2024-12-03T12:00:00.000Z');
+      expect(info.events[0].city).toBe('Haifa');
+    });
+
+    it('should require an API key', async () => {
+      await expect(new IsraelPostAdapter('', 'https://israelpost.test').track('x')).rejects.toThrow(
+        'Israel Post API key not configured'
+      );
+    });
+  });
+});
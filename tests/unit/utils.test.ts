@@ -1,4 +1,25 @@
 import { cn } from '@/lib/utils';
+import {
+  findVariant,
+  generateVariantSku,
+  getCampaignStatus,
+  getVariantPrice,
+} from '@/lib/utils/shop-helpers';
+import { ProductVariant } from '@/types/shop';
+
+const variant = (overrides: Partial<ProductVariant>): ProductVariant => ({
+  id: 'variant-1',
+  product_id: 'product-1',
+  sku: 'SKU-1',
+  size: null,
+  color: null,
+  price_override: null,
+  inventory_count: 5,
+  is_active: true,
+  created_at: '2025-01-01T00:00:00Z',
+  updated_at: '2025-01-01T00:00:00Z',
+  ...overrides,
+});
 
 describe('Utils', () => {
   describe('cn function', () => {
@@ -48,4 +69,65 @@ describe('Utils', () => {
       expect(result).toBe('text-red-500 bg-blue-500');
     });
   });
+
+  describe('getCampaignStatus', () => {
+    const now = new Date('2025-01-15T12:00:00Z');
+
+    it('should follow the start and end dates', () => {
+      const dates = { start_date: '2025-01-01T00:00:00Z', end_date: '2025-02-01T00:00:00Z' };
+
+      expect(getCampaignStatus({ status: 'scheduled', ...dates }, now)).toBe('active');
+      expect(getCampaignStatus({ status: 'active', start_date: '2025-01-20T00:00:00Z' }, now)).toBe(
+        'scheduled'
+      );
+      expect(getCampaignStatus({ status: 'active', end_date: '2025-01-10T00:00:00Z' }, now)).toBe(
+        'expired'
+      );
+    });
+
+    it('should keep draft and archived campaigns as they are', () => {
+      expect(getCampaignStatus({ status: 'draft', start_date: '2025-01-01T00:00:00Z' }, now)).toBe(
+        'draft'
+      );
+      expect(getCampaignStatus({ status: 'archived' }, now)).toBe('archived');
+    });
+  });
+
+  describe('variant helpers', () => {
+    const variants = [
+      variant({ id: 'm-navy', size: 'M', color: 'Navy' }),
+      variant({ id: 'l-navy', size: 'L', color: 'Navy', is_active: false }),
+      variant({ id: 'one-size-red', color: 'Red' }),
+    ];
+
+    it('should find the active variant for a size and color', () => {
+      expect(findVariant(variants, 'M', 'Navy')?.id).toBe('m-navy');
+      expect(findVariant(variants, undefined, 'Red')?.id).toBe('one-size-red');
+      expect(findVariant(variants, '', 'Red')?.id).toBe('one-size-red');
+    });
+
+    it('should not match inactive variants or partial selections', () => {
+      expect(findVariant(variants, 'L', 'Navy')).toBeUndefined();
+      expect(findVariant(variants, 'M', null)).toBeUndefined();
+      expect(findVariant([], 'M', 'Navy')).toBeUndefined();
+    });
+
+    it('should use the variant price override and fall back to the product price', () => {
+      const product = { price: 100 };
+
+      expect(getVariantPrice(product, { price_override: 80 })).toBe(80);
+      expect(getVariantPrice(product, { price_override: 0 })).toBe(0);
+      expect(getVariantPrice(product, { price_override: null })).toBe(100);
+      expect(getVariantPrice(product, null)).toBe(100);
+      expect(getVariantPrice(product)).toBe(100);
+    });
+
+    it('should build SKUs from the product id and option codes', () => {
+      const productId = '1a2b3c4d-5e6f-7a8b-9c0d-e1f2a3b4c5d6';
+
+      expect(generateVariantSku(productId, 'M', 'navy')).toBe('1A2B3C4D-M-NAVY');
+      expect(generateVariantSku(productId, null, 'Light Blue')).toBe('1A2B3C4D-LIGHTBLUE');
+      expect(generateVariantSku(productId, 'xl')).toBe('1A2B3C4D-XL');
+    });
+  });
 });
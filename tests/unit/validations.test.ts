@@ -1,10 +1,28 @@
 import { loginSchema, registerSchema, resetPasswordSchema } from '@/lib/validations/auth';
-import { productSchema, createProductSchema, updateProductSchema } from '@/lib/validations/product';
+import {
+  productSchema,
+  createProductSchema,
+  updateProductSchema,
+  createProductVariantSchema,
+  updateProductVariantSchema,
+} from '@/lib/validations/product';
 import {
   shippingAddressSchema,
   billingAddressSchema,
   createOrderSchema,
 } from '@/lib/validations/checkout';
+import { createReviewSchema, moderateReviewSchema } from '@/lib/validations/review';
+import { createPromotionSchema } from '@/lib/validations/promotion';
+import { sectionSchema } from '@/lib/validations/cms';
+import { createRefundSchema } from '@/lib/validations/refund';
+import { newsletterSubscribeSchema } from '@/lib/validations/newsletter';
+import { updateStoreSettingsSchema } from '@/lib/validations/settings';
+import { searchSuggestionsQuerySchema } from '@/lib/validations/search';
+import {
+  bulkReturnActionSchema,
+  createReturnRequestSchema,
+  updateReturnRequestSchema,
+} from '@/lib/validations/return';
 
 describe('Validation Schemas', () => {
   describe('Auth Validations', () => {
@@ -192,6 +210,50 @@ describe('Validation Schemas', () => {
     });
   });
 
+  describe('Product Variant Validations', () => {
+    describe('createProductVariantSchema', () => {
+      it('should accept a variant with a size or a color and fill in defaults', () => {
+        const result = createProductVariantSchema.safeParse({ size: 'M' });
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.inventory_count).toBe(0);
+          expect(result.data.is_active).toBe(true);
+        }
+
+        expect(
+          createProductVariantSchema.safeParse({ color: 'Navy', price_override: 79.9 }).success
+        ).toBe(true);
+      });
+
+      it('should reject a variant without a size or a color', () => {
+        const result = createProductVariantSchema.safeParse({ sku: 'SKU-1' });
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.issues[0].message).toBe('A variant needs a size or a color');
+        }
+      });
+
+      it('should reject negative prices and fractional stock', () => {
+        expect(
+          createProductVariantSchema.safeParse({ size: 'M', price_override: -1 }).success
+        ).toBe(false);
+        expect(
+          createProductVariantSchema.safeParse({ size: 'M', inventory_count: 1.5 }).success
+        ).toBe(false);
+      });
+    });
+
+    describe('updateProductVariantSchema', () => {
+      it('should allow clearing the price override and drop option changes', () => {
+        const result = updateProductVariantSchema.safeParse({ price_override: null, size: 'L' });
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data).toEqual({ price_override: null });
+        }
+      });
+    });
+  });
+
   describe('Checkout Validations', () => {
     describe('shippingAddressSchema', () => {
       it('should validate correct shipping address', () => {
@@ -316,4 +378,281 @@ describe('Validation Schemas', () => {
       });
     });
   });
+  describe('Review Validations', () => {
+    describe('createReviewSchema', () => {
+      it('should validate a complete review', () => {
+        const result = createReviewSchema.safeParse({
+          rating: 5,
+          title: 'Great coat',
+          content: 'Warm, well made and exactly as pictured.',
+        });
+        expect(result.success).toBe(true);
+      });
+
+      it('should reject ratings outside 1-5', () => {
+        const base = { title: 'Great coat', content: 'Warm, well made and exactly as pictured.' };
+
+        expect(createReviewSchema.safeParse({ ...base, rating: 0 }).success).toBe(false);
+        expect(createReviewSchema.safeParse({ ...base, rating: 6 }).success).toBe(false);
+        expect(createReviewSchema.safeParse({ ...base, rating: 4.5 }).success).toBe(false);
+      });
+
+      it('should reject content that is too short', () => {
+        const result = createReviewSchema.safeParse({
+          rating: 4,
+          title: 'Nice',
+          content: 'Good',
+        });
+        expect(result.success).toBe(false);
+      });
+    });
+
+    describe('moderateReviewSchema', () => {
+      it('should only accept approved or rejected', () => {
+        expect(moderateReviewSchema.safeParse({ status: 'approved' }).success).toBe(true);
+        expect(moderateReviewSchema.safeParse({ status: 'pending' }).success).toBe(false);
+      });
+    });
+  });
+
+  describe('Promotion Validations', () => {
+    describe('createPromotionSchema', () => {
+      const base = { code: 'summer-10', name: 'Summer sale' };
+
+      it('should upper-case the code and apply defaults', () => {
+        const result = createPromotionSchema.safeParse({ ...base, type: 'percentage', value: 10 });
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.code).toBe('SUMMER-10');
+          expect(result.data.min_subtotal).toBe(0);
+          expect(result.data.category_ids).toEqual([]);
+          expect(result.data.is_active).toBe(true);
+        }
+      });
+
+      it('should reject percentages above 100', () => {
+        const result = createPromotionSchema.safeParse({ ...base, type: 'percentage', value: 150 });
+        expect(result.success).toBe(false);
+      });
+
+      it('should require quantities for buy X get Y', () => {
+        expect(
+          createPromotionSchema.safeParse({ ...base, type: 'buy_x_get_y', value: 100 }).success
+        ).toBe(false);
+        expect(
+          createPromotionSchema.safeParse({
+            ...base,
+            type: 'buy_x_get_y',
+            value: 100,
+            buy_quantity: 2,
+            get_quantity: 1,
+          }).success
+        ).toBe(true);
+      });
+
+      it('should reject a date window that ends before it starts', () => {
+        const result = createPromotionSchema.safeParse({
+          ...base,
+          type: 'free_shipping',
+          starts_at: '2025-01-10T00:00:00Z',
+          ends_at: '2025-01-01T00:00:00Z',
+        });
+        expect(result.success).toBe(false);
+      });
+    });
+  });
+
+  describe('Return Validations', () => {
+    const orderItemId = '123e4567-e89b-12d3-a456-426614174000';
+
+    describe('createReturnRequestSchema', () => {
+      it('should accept a whole-order return without items', () => {
+        expect(createReturnRequestSchema.safeParse({ reason: 'Too small' }).success).toBe(true);
+      });
+
+      it('should default the item condition to unopened', () => {
+        const result = createReturnRequestSchema.safeParse({
+          reason: 'Wrong color',
+          items: [{ orderItemId, quantity: 1 }],
+        });
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.data.items?.[0].condition).toBe('unopened');
+        }
+      });
+
+      it('should reject the same item listed twice', () => {
+        const result = createReturnRequestSchema.safeParse({
+          reason: 'Wrong color',
+          items: [
+            { orderItemId, quantity: 1 },
+            { orderItemId, quantity: 1 },
+          ],
+        });
+        expect(result.success).toBe(false);
+      });
+    });
+
+    describe('updateReturnRequestSchema', () => {
+      it('should require a reason when rejecting', () => {
+        expect(updateReturnRequestSchema.safeParse({ action: 'reject' }).success).toBe(false);
+        expect(
+          updateReturnRequestSchema.safeParse({ action: 'reject', adminNotes: 'Worn' }).success
+        ).toBe(true);
+      });
+    });
+
+    describe('bulkReturnActionSchema', () => {
+      it('should require notes for a bulk rejection', () => {
+        const ids = [orderItemId];
+        expect(bulkReturnActionSchema.safeParse({ ids, action: 'reject' }).success).toBe(false);
+        expect(bulkReturnActionSchema.safeParse({ ids, action: 'approve' }).success).toBe(true);
+      });
+    });
+  });
+
+  describe('Refund Validations', () => {
+    it('should default to a full refund requested by the customer', () => {
+      const result = createRefundSchema.safeParse({});
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.amount).toBeUndefined();
+        expect(result.data.reason).toBe('requested_by_customer');
+      }
+    });
+
+    it('should reject a zero refund amount', () => {
+      expect(createRefundSchema.safeParse({ amount: 0 }).success).toBe(false);
+    });
+  });
+
+  describe('Newsletter Validations', () => {
+    it('should normalize the email and default locale and topics', () => {
+      const result = newsletterSubscribeSchema.safeParse({ email: '  Jane@Example.COM ' });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data).toEqual({
+          email: 'jane@example.com',
+          locale: 'en',
+          topics: ['new_arrivals', 'promotions'],
+        });
+      }
+    });
+
+    it('should reject unknown locales and empty topic lists', () => {
+      const locale = newsletterSubscribeSchema.safeParse({ email: 'a@b.co', locale: 'fr' });
+      const topics = newsletterSubscribeSchema.safeParse({ email: 'a@b.co', topics: [] });
+      expect(locale.success).toBe(false);
+      expect(topics.success).toBe(false);
+    });
+  });
+
+  describe('Search Validations', () => {
+    it('should treat a missing or blank suggestion query as no query', () => {
+      expect(searchSuggestionsQuerySchema.parse({}).q).toBeUndefined();
+      expect(searchSuggestionsQuerySchema.parse({ q: '   ' }).q).toBeUndefined();
+    });
+
+    it('should keep numeric-looking queries as text', () => {
+      expect(searchSuggestionsQuerySchema.parse({ q: 501 })).toEqual({ q: '501', limit: 5 });
+    });
+  });
+
+  describe('Store Settings Validations', () => {
+    const shipping = {
+      freeShippingThreshold: 200,
+      standard: { enabled: true, cost: 25, estimatedDays: 3 },
+      express: { enabled: true, cost: 40, estimatedDays: 1 },
+      overnight: { enabled: false, cost: 60, estimatedDays: 1 },
+    };
+
+    it('should validate a section update against that section', () => {
+      const valid = updateStoreSettingsSchema.safeParse({ section: 'shipping', value: shipping });
+      const wrongSection = updateStoreSettingsSchema.safeParse({
+        section: 'payments',
+        value: shipping,
+      });
+      expect(valid.success).toBe(true);
+      expect(wrongSection.success).toBe(false);
+    });
+
+    it('should reject out of range tax rates and disabling every shipping method', () => {
+      const tax = updateStoreSettingsSchema.safeParse({
+        section: 'payments',
+        value: { acceptedCards: [], taxRate: 117, pricesIncludeTax: true },
+      });
+      const noShipping = updateStoreSettingsSchema.safeParse({
+        section: 'shipping',
+        value: {
+          ...shipping,
+          standard: { ...shipping.standard, enabled: false },
+          express: { ...shipping.express, enabled: false },
+        },
+      });
+      expect(tax.success).toBe(false);
+      expect(noShipping.success).toBe(false);
+    });
+  });
+
+  describe('CMS Validations', () => {
+    describe('sectionSchema', () => {
+      const campaignShowcase = {
+        type: 'campaign_showcase',
+        status: 'draft',
+        order: 0,
+        visible: true,
+      };
+
+      it('should accept a campaign showcase section', () => {
+        const result = sectionSchema.safeParse({
+          ...campaignShowcase,
+          config: { title: 'Current Campaigns', limit: 3, cardStyle: 'overlay' },
+        });
+        expect(result.success).toBe(true);
+      });
+
+      it('should reject a campaign showcase without a valid limit', () => {
+        const missing = sectionSchema.safeParse({ ...campaignShowcase, config: {} });
+        const zero = sectionSchema.safeParse({ ...campaignShowcase, config: { limit: 0 } });
+        expect(missing.success).toBe(false);
+        expect(zero.success).toBe(false);
+      });
+
+      it('should require at least one complete testimonial', () => {
+        const base = { ...campaignShowcase, type: 'testimonials' };
+        const valid = sectionSchema.safeParse({
+          ...base,
+          config: {
+            layout: 'carousel',
+            testimonials: [{ id: 't1', quote: 'Great fit!', author: 'Sam', rating: 5 }],
+          },
+        });
+        const empty = sectionSchema.safeParse({
+          ...base,
+          config: { layout: 'grid', testimonials: [] },
+        });
+        const noAuthor = sectionSchema.safeParse({
+          ...base,
+          config: { layout: 'grid', testimonials: [{ id: 't1', quote: 'Great fit!', author: '' }] },
+        });
+        expect(valid.success).toBe(true);
+        expect(empty.success).toBe(false);
+        expect(noAuthor.success).toBe(false);
+      });
+
+      it('should require a title and button text for newsletter sections', () => {
+        const base = { ...campaignShowcase, type: 'newsletter' };
+        const valid = sectionSchema.safeParse({
+          ...base,
+          config: { title: 'Stay in the Loop', buttonText: 'Subscribe', layout: 'centered' },
+        });
+        const noButton = sectionSchema.safeParse({
+          ...base,
+          config: { title: 'Stay in the Loop', buttonText: '', layout: 'centered' },
+        });
+        expect(valid.success).toBe(true);
+        expect(noButton.success).toBe(false);
+      });
+    });
+  });
 });
@@ -5,7 +5,7 @@
  * Extends the base CMS types with template-specific functionality.
  */
 
-import { Homepage } from './cms';
+import { Homepage, SectionType } from './cms';
 
 // ============================================================================
 // CORE TYPES
@@ -73,6 +73,15 @@ export interface CMSTemplate {
   // Status
   status: TemplateStatus;
 
+  // Review Workflow
+  requires_review: boolean;
+  review_version_id: string | null;
+  review_requested_by: string | null;
+  review_requested_at: string | null;
+  approved_version_id: string | null;
+  approved_by: string | null;
+  approved_at: string | null;
+
   // Publishing Schedule
   scheduled_publish_at: string | null;
   scheduled_unpublish_at: string | null;
@@ -626,9 +635,41 @@ export interface TemplateComparison {
   added_sections: string[];
   removed_sections: string[];
   modified_sections: string[];
+  reordered_sections: string[];
   metadata_changes: Record<string, { old: unknown; new: unknown }>;
 }
 
+/**
+ * A single changed field, keyed by dot path (e.g. "config.primaryCta.text")
+ */
+export interface SectionFieldChange {
+  path: string;
+  old: unknown;
+  new: unknown;
+}
+
+/**
+ * One row of a side-by-side section diff
+ */
+export interface SectionDiff {
+  section_id: string;
+  section_type: SectionType;
+  change: 'added' | 'removed' | 'modified' | 'unchanged';
+  moved: boolean;
+  old_position: number | null; // 0-based, null when added
+  new_position: number | null; // 0-based, null when removed
+  field_changes: SectionFieldChange[];
+}
+
+/**
+ * Structural diff between two template versions
+ */
+export interface TemplateVersionDiff extends TemplateComparison {
+  from_version_id: string;
+  to_version_id: string;
+  sections: SectionDiff[];
+}
+
 /**
  * Template export format
  */
@@ -13,7 +13,8 @@ export type SectionType =
   | 'image_banner'
   | 'category_grid'
   | 'testimonials'
-  | 'newsletter';
+  | 'newsletter'
+  | 'campaign_showcase';
 
 export type SectionStatus = 'draft' | 'published' | 'scheduled' | 'archived';
 
@@ -198,13 +199,73 @@ export interface CategoryGridSection extends BaseSection {
   config: CategoryGridConfig;
 }
 
+// Campaign Showcase Configuration (active featured campaigns)
+export interface CampaignShowcaseConfig {
+  title?: string;
+  subtitle?: string;
+  limit: number;
+  homepageOnly?: boolean;
+  cardStyle?: 'overlay' | 'below' | 'minimal';
+}
+
+export interface CampaignShowcaseSection extends BaseSection {
+  type: 'campaign_showcase';
+  config: CampaignShowcaseConfig;
+}
+
+// Testimonials Configuration
+export interface TestimonialItem {
+  id: string;
+  quote: string;
+  author: string;
+  role?: string; // e.g. "Verified buyer"
+  avatar?: string;
+  rating?: number; // 1-5
+}
+
+export interface TestimonialsConfig {
+  title?: string;
+  subtitle?: string;
+  testimonials: TestimonialItem[];
+  layout: 'grid' | 'carousel';
+  showRating?: boolean;
+  autoplayDelay?: number; // ms, carousel only
+  backgroundColor?: string;
+}
+
+export interface TestimonialsSection extends BaseSection {
+  type: 'testimonials';
+  config: TestimonialsConfig;
+}
+
+// Newsletter Signup Configuration
+export interface NewsletterConfig {
+  title: string;
+  subtitle?: string;
+  placeholder?: string;
+  buttonText: string;
+  successMessage?: string;
+  privacyText?: string;
+  backgroundImage?: string;
+  backgroundColor?: string;
+  layout: 'centered' | 'split';
+}
+
+export interface NewsletterSection extends BaseSection {
+  type: 'newsletter';
+  config: NewsletterConfig;
+}
+
 // Union type of all section types
 export type Section =
   | HeroSection
   | ProductCarouselSection
   | TextBlockSection
   | ImageBannerSection
-  | CategoryGridSection;
+  | CategoryGridSection
+  | TestimonialsSection
+  | NewsletterSection
+  | CampaignShowcaseSection;
 
 // Homepage Configuration
 export interface Homepage {
@@ -241,6 +302,9 @@ export interface EditorState {
 }
 
 // Form Types for Section Editors
-export type SectionFormData<T extends Section = Section> = Omit<T, 'id' | 'created_at' | 'updated_at'>;
+export type SectionFormData<T extends Section = Section> = Omit<
+  T,
+  'id' | 'created_at' | 'updated_at'
+>;
 
 // Validation Schemas will be defined in lib/validations/cms.ts
@@ -70,6 +70,32 @@ export interface SeasonalMetadata {
   is_current_season?: boolean;
 }
 
+/**
+ * Sellable size/color SKU of a product with its own stock
+ * price_override replaces the product price when set
+ */
+export type ProductVariant = Database['public']['Tables']['product_variants']['Row'];
+
+/**
+ * Customer review of a product
+ * Only approved reviews are public; verified_purchase is set from order history
+ */
+export type ProductReview = Database['public']['Tables']['product_reviews']['Row'];
+
+/**
+ * Approved review as the storefront sees it, with the reviewer's name and avatar
+ */
+export type ApprovedProductReview = Database['public']['Views']['approved_product_reviews']['Row'];
+
+/**
+ * Rating aggregates over a product's approved reviews
+ */
+export interface ProductReviewSummary {
+  averageRating: number;
+  totalReviews: number;
+  ratingCounts: Record<number, number>; // e.g., { 5: 10, 4: 5, 3: 3, 2: 1, 1: 0 }
+}
+
 /**
  * Enhanced product entity with fashion-specific attributes
  * Extends the base Product type from Supabase with additional fashion fields
@@ -102,6 +128,9 @@ export interface FashionProduct
   // Computed fields (NEW)
   is_new?: boolean;
   is_sale?: boolean;
+
+  // Size × color SKUs (absent for one-off items sold without variants)
+  variants?: ProductVariant[];
 }
 
 /**
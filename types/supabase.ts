@@ -94,6 +94,727 @@ export interface Database {
           collection_year?: number | null;
         };
       };
+      product_variants: {
+        Row: {
+          id: string;
+          product_id: string;
+          sku: string;
+          size: string | null;
+          color: string | null;
+          price_override: number | null;
+          inventory_count: number;
+          is_active: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          product_id: string;
+          sku: string;
+          size?: string | null;
+          color?: string | null;
+          price_override?: number | null;
+          inventory_count?: number;
+          is_active?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          product_id?: string;
+          sku?: string;
+          size?: string | null;
+          color?: string | null;
+          price_override?: number | null;
+          inventory_count?: number;
+          is_active?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      product_reviews: {
+        Row: {
+          id: string;
+          product_id: string;
+          user_id: string;
+          order_id: string | null;
+          rating: number;
+          title: string;
+          content: string;
+          verified_purchase: boolean;
+          status: 'pending' | 'approved' | 'rejected';
+          moderation_notes: string | null;
+          moderated_by: string | null;
+          moderated_at: string | null;
+          helpful_count: number;
+          unhelpful_count: number;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          product_id: string;
+          user_id: string;
+          order_id?: string | null;
+          rating: number;
+          title: string;
+          content: string;
+          verified_purchase?: boolean;
+          status?: 'pending' | 'approved' | 'rejected';
+          moderation_notes?: string | null;
+          moderated_by?: string | null;
+          moderated_at?: string | null;
+          helpful_count?: number;
+          unhelpful_count?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          product_id?: string;
+          user_id?: string;
+          order_id?: string | null;
+          rating?: number;
+          title?: string;
+          content?: string;
+          verified_purchase?: boolean;
+          status?: 'pending' | 'approved' | 'rejected';
+          moderation_notes?: string | null;
+          moderated_by?: string | null;
+          moderated_at?: string | null;
+          helpful_count?: number;
+          unhelpful_count?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      review_votes: {
+        Row: {
+          id: string;
+          review_id: string;
+          user_id: string;
+          is_helpful: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          review_id: string;
+          user_id: string;
+          is_helpful: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          review_id?: string;
+          user_id?: string;
+          is_helpful?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      loyalty_tiers: {
+        Row: {
+          id: string;
+          name: string;
+          min_points: number;
+          points_multiplier: number;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id: string;
+          name: string;
+          min_points: number;
+          points_multiplier?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          min_points?: number;
+          points_multiplier?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      loyalty_rewards: {
+        Row: {
+          id: string;
+          name: string;
+          description: string | null;
+          points_cost: number;
+          type: 'discount' | 'free_shipping' | 'product' | 'experience';
+          value: number;
+          is_percentage: boolean;
+          is_active: boolean;
+          expires_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id: string;
+          name: string;
+          description?: string | null;
+          points_cost: number;
+          type: 'discount' | 'free_shipping' | 'product' | 'experience';
+          value?: number;
+          is_percentage?: boolean;
+          is_active?: boolean;
+          expires_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          description?: string | null;
+          points_cost?: number;
+          type?: 'discount' | 'free_shipping' | 'product' | 'experience';
+          value?: number;
+          is_percentage?: boolean;
+          is_active?: boolean;
+          expires_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      loyalty_accounts: {
+        Row: {
+          user_id: string;
+          total_points: number;
+          available_points: number;
+          current_tier: string;
+          lifetime_spent: number;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          user_id: string;
+          total_points?: number;
+          available_points?: number;
+          current_tier?: string;
+          lifetime_spent?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          total_points?: number;
+          available_points?: number;
+          current_tier?: string;
+          lifetime_spent?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      loyalty_transactions: {
+        Row: {
+          id: string;
+          user_id: string;
+          type: 'earned' | 'redeemed' | 'expired' | 'bonus' | 'reversed';
+          points: number;
+          description: string;
+          order_id: string | null;
+          reward_id: string | null;
+          created_by: string | null;
+          expires_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          type: 'earned' | 'redeemed' | 'expired' | 'bonus' | 'reversed';
+          points: number;
+          description: string;
+          order_id?: string | null;
+          reward_id?: string | null;
+          created_by?: string | null;
+          expires_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          type?: 'earned' | 'redeemed' | 'expired' | 'bonus' | 'reversed';
+          points?: number;
+          description?: string;
+          order_id?: string | null;
+          reward_id?: string | null;
+          created_by?: string | null;
+          expires_at?: string | null;
+          created_at?: string;
+        };
+      };
+      loyalty_redemptions: {
+        Row: {
+          id: string;
+          user_id: string;
+          reward_id: string;
+          reward_type: 'discount' | 'free_shipping' | 'product' | 'experience';
+          reward_value: number;
+          is_percentage: boolean;
+          points_cost: number;
+          code: string;
+          status: 'active' | 'used' | 'cancelled' | 'expired';
+          order_id: string | null;
+          expires_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          reward_id: string;
+          reward_type: 'discount' | 'free_shipping' | 'product' | 'experience';
+          reward_value?: number;
+          is_percentage?: boolean;
+          points_cost: number;
+          code: string;
+          status?: 'active' | 'used' | 'cancelled' | 'expired';
+          order_id?: string | null;
+          expires_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          reward_id?: string;
+          reward_type?: 'discount' | 'free_shipping' | 'product' | 'experience';
+          reward_value?: number;
+          is_percentage?: boolean;
+          points_cost?: number;
+          code?: string;
+          status?: 'active' | 'used' | 'cancelled' | 'expired';
+          order_id?: string | null;
+          expires_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      promotions: {
+        Row: {
+          id: string;
+          code: string;
+          name: string;
+          description: string | null;
+          type: 'percentage' | 'fixed_amount' | 'free_shipping' | 'buy_x_get_y';
+          value: number;
+          buy_quantity: number | null;
+          get_quantity: number | null;
+          min_subtotal: number;
+          usage_limit: number | null;
+          usage_limit_per_user: number | null;
+          usage_count: number;
+          starts_at: string | null;
+          ends_at: string | null;
+          category_ids: string[];
+          collection_ids: string[];
+          is_active: boolean;
+          created_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          code: string;
+          name: string;
+          description?: string | null;
+          type: 'percentage' | 'fixed_amount' | 'free_shipping' | 'buy_x_get_y';
+          value?: number;
+          buy_quantity?: number | null;
+          get_quantity?: number | null;
+          min_subtotal?: number;
+          usage_limit?: number | null;
+          usage_limit_per_user?: number | null;
+          usage_count?: number;
+          starts_at?: string | null;
+          ends_at?: string | null;
+          category_ids?: string[];
+          collection_ids?: string[];
+          is_active?: boolean;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          code?: string;
+          name?: string;
+          description?: string | null;
+          type?: 'percentage' | 'fixed_amount' | 'free_shipping' | 'buy_x_get_y';
+          value?: number;
+          buy_quantity?: number | null;
+          get_quantity?: number | null;
+          min_subtotal?: number;
+          usage_limit?: number | null;
+          usage_limit_per_user?: number | null;
+          usage_count?: number;
+          starts_at?: string | null;
+          ends_at?: string | null;
+          category_ids?: string[];
+          collection_ids?: string[];
+          is_active?: boolean;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      promotion_redemptions: {
+        Row: {
+          id: string;
+          promotion_id: string;
+          user_id: string;
+          order_id: string;
+          discount_amount: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          promotion_id: string;
+          user_id: string;
+          order_id: string;
+          discount_amount?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          promotion_id?: string;
+          user_id?: string;
+          order_id?: string;
+          discount_amount?: number;
+          created_at?: string;
+        };
+      };
+      product_groups: {
+        Row: {
+          id: string;
+          name: string;
+          description: string | null;
+          product_ids: string[];
+          created_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          description?: string | null;
+          product_ids?: string[];
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          description?: string | null;
+          product_ids?: string[];
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      campaigns: {
+        Row: {
+          id: string;
+          name: string;
+          slug: string;
+          description: string | null;
+          type: 'sale' | 'collection' | 'editorial' | 'seasonal' | 'new-arrivals';
+          status: 'draft' | 'scheduled' | 'active' | 'expired' | 'archived';
+          product_group_id: string | null;
+          product_ids: string[];
+          start_date: string | null;
+          end_date: string | null;
+          banner_image_url: string | null;
+          thumbnail_url: string | null;
+          theme_color: string | null;
+          sort_order: number;
+          is_featured: boolean;
+          show_on_homepage: boolean;
+          created_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          slug: string;
+          description?: string | null;
+          type: 'sale' | 'collection' | 'editorial' | 'seasonal' | 'new-arrivals';
+          status?: 'draft' | 'scheduled' | 'active' | 'expired' | 'archived';
+          product_group_id?: string | null;
+          product_ids?: string[];
+          start_date?: string | null;
+          end_date?: string | null;
+          banner_image_url?: string | null;
+          thumbnail_url?: string | null;
+          theme_color?: string | null;
+          sort_order?: number;
+          is_featured?: boolean;
+          show_on_homepage?: boolean;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          slug?: string;
+          description?: string | null;
+          type?: 'sale' | 'collection' | 'editorial' | 'seasonal' | 'new-arrivals';
+          status?: 'draft' | 'scheduled' | 'active' | 'expired' | 'archived';
+          product_group_id?: string | null;
+          product_ids?: string[];
+          start_date?: string | null;
+          end_date?: string | null;
+          banner_image_url?: string | null;
+          thumbnail_url?: string | null;
+          theme_color?: string | null;
+          sort_order?: number;
+          is_featured?: boolean;
+          show_on_homepage?: boolean;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      return_requests: {
+        Row: {
+          id: string;
+          order_id: string;
+          user_id: string;
+          reason: string;
+          status: 'pending' | 'approved' | 'rejected' | 'received' | 'completed';
+          admin_notes: string | null;
+          rma_number: string | null;
+          refund_amount: number;
+          stripe_refund_id: string | null;
+          refunded_at: string | null;
+          return_carrier: string | null;
+          return_tracking_number: string | null;
+          return_label_url: string | null;
+          approved_at: string | null;
+          rejected_at: string | null;
+          received_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          order_id: string;
+          user_id: string;
+          reason: string;
+          status?: 'pending' | 'approved' | 'rejected' | 'received' | 'completed';
+          admin_notes?: string | null;
+          rma_number?: string | null;
+          refund_amount?: number;
+          stripe_refund_id?: string | null;
+          refunded_at?: string | null;
+          return_carrier?: string | null;
+          return_tracking_number?: string | null;
+          return_label_url?: string | null;
+          approved_at?: string | null;
+          rejected_at?: string | null;
+          received_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          order_id?: string;
+          user_id?: string;
+          reason?: string;
+          status?: 'pending' | 'approved' | 'rejected' | 'received' | 'completed';
+          admin_notes?: string | null;
+          rma_number?: string | null;
+          refund_amount?: number;
+          stripe_refund_id?: string | null;
+          refunded_at?: string | null;
+          return_carrier?: string | null;
+          return_tracking_number?: string | null;
+          return_label_url?: string | null;
+          approved_at?: string | null;
+          rejected_at?: string | null;
+          received_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      return_request_items: {
+        Row: {
+          id: string;
+          return_request_id: string;
+          order_item_id: string;
+          quantity: number;
+          condition: 'unopened' | 'like_new' | 'used' | 'damaged';
+          reason: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          return_request_id: string;
+          order_item_id: string;
+          quantity: number;
+          condition?: 'unopened' | 'like_new' | 'used' | 'damaged';
+          reason?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          return_request_id?: string;
+          order_item_id?: string;
+          quantity?: number;
+          condition?: 'unopened' | 'like_new' | 'used' | 'damaged';
+          reason?: string | null;
+          created_at?: string;
+        };
+      };
+      refunds: {
+        Row: {
+          id: string;
+          order_id: string;
+          payment_intent_id: string | null;
+          return_request_id: string | null;
+          stripe_refund_id: string | null;
+          amount: number;
+          currency: string;
+          reason: 'duplicate' | 'fraudulent' | 'requested_by_customer' | 'other';
+          status: 'pending' | 'requires_action' | 'succeeded' | 'failed' | 'canceled';
+          notes: string | null;
+          failure_reason: string | null;
+          created_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          order_id: string;
+          payment_intent_id?: string | null;
+          return_request_id?: string | null;
+          stripe_refund_id?: string | null;
+          amount: number;
+          currency: string;
+          reason?: 'duplicate' | 'fraudulent' | 'requested_by_customer' | 'other';
+          status?: 'pending' | 'requires_action' | 'succeeded' | 'failed' | 'canceled';
+          notes?: string | null;
+          failure_reason?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          order_id?: string;
+          payment_intent_id?: string | null;
+          return_request_id?: string | null;
+          stripe_refund_id?: string | null;
+          amount?: number;
+          currency?: string;
+          reason?: 'duplicate' | 'fraudulent' | 'requested_by_customer' | 'other';
+          status?: 'pending' | 'requires_action' | 'succeeded' | 'failed' | 'canceled';
+          notes?: string | null;
+          failure_reason?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      newsletter_subscribers: {
+        Row: {
+          id: string;
+          email: string;
+          user_id: string | null;
+          status: 'pending' | 'subscribed' | 'unsubscribed';
+          locale: 'en' | 'he';
+          topics: string[];
+          source: string | null;
+          confirmation_token: string | null;
+          confirmation_sent_at: string | null;
+          confirmed_at: string | null;
+          unsubscribe_token: string;
+          unsubscribed_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          email: string;
+          user_id?: string | null;
+          status?: 'pending' | 'subscribed' | 'unsubscribed';
+          locale?: 'en' | 'he';
+          topics?: string[];
+          source?: string | null;
+          confirmation_token?: string | null;
+          confirmation_sent_at?: string | null;
+          confirmed_at?: string | null;
+          unsubscribe_token: string;
+          unsubscribed_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          email?: string;
+          user_id?: string | null;
+          status?: 'pending' | 'subscribed' | 'unsubscribed';
+          locale?: 'en' | 'he';
+          topics?: string[];
+          source?: string | null;
+          confirmation_token?: string | null;
+          confirmation_sent_at?: string | null;
+          confirmed_at?: string | null;
+          unsubscribe_token?: string;
+          unsubscribed_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      notification_preferences: {
+        Row: {
+          id: string;
+          user_id: string;
+          email_order_updates: boolean;
+          email_marketing: boolean;
+          email_promotions: boolean;
+          sms_order_updates: boolean;
+          sms_delivery_alerts: boolean;
+          push_order_updates: boolean;
+          push_promotions: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          email_order_updates?: boolean;
+          email_marketing?: boolean;
+          email_promotions?: boolean;
+          sms_order_updates?: boolean;
+          sms_delivery_alerts?: boolean;
+          push_order_updates?: boolean;
+          push_promotions?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          email_order_updates?: boolean;
+          email_marketing?: boolean;
+          email_promotions?: boolean;
+          sms_order_updates?: boolean;
+          sms_delivery_alerts?: boolean;
+          push_order_updates?: boolean;
+          push_promotions?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
       categories: {
         Row: {
           id: string;
@@ -157,6 +878,8 @@ export interface Database {
           id: string;
           order_id: string;
           product_id: string;
+          variant_id: string | null;
+          sku: string | null;
           quantity: number;
           price: number;
           created_at: string;
@@ -166,6 +889,8 @@ export interface Database {
           id?: string;
           order_id: string;
           product_id: string;
+          variant_id?: string | null;
+          sku?: string | null;
           quantity: number;
           price: number;
           created_at?: string;
@@ -175,17 +900,119 @@ export interface Database {
           id?: string;
           order_id?: string;
           product_id?: string;
+          variant_id?: string | null;
+          sku?: string | null;
           quantity?: number;
           price?: number;
           created_at?: string;
           updated_at?: string;
         };
       };
+      guest_carts: {
+        Row: {
+          id: string;
+          token: string;
+          email: string | null;
+          expires_at: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          token: string;
+          email?: string | null;
+          expires_at?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          token?: string;
+          email?: string | null;
+          expires_at?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      guest_cart_items: {
+        Row: {
+          id: string;
+          guest_cart_id: string;
+          product_id: string;
+          variant_id: string | null;
+          quantity: number;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          guest_cart_id: string;
+          product_id: string;
+          variant_id?: string | null;
+          quantity: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          guest_cart_id?: string;
+          product_id?: string;
+          variant_id?: string | null;
+          quantity?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      inventory_reservations: {
+        Row: {
+          id: string;
+          user_id: string | null;
+          guest_cart_id: string | null;
+          product_id: string;
+          variant_id: string | null;
+          quantity: number;
+          payment_intent_id: string | null;
+          order_id: string | null;
+          status: 'active' | 'released' | 'expired' | 'converted';
+          expires_at: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id?: string | null;
+          guest_cart_id?: string | null;
+          product_id: string;
+          variant_id?: string | null;
+          quantity: number;
+          payment_intent_id?: string | null;
+          order_id?: string | null;
+          status?: 'active' | 'released' | 'expired' | 'converted';
+          expires_at: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string | null;
+          guest_cart_id?: string | null;
+          product_id?: string;
+          variant_id?: string | null;
+          quantity?: number;
+          payment_intent_id?: string | null;
+          order_id?: string | null;
+          status?: 'active' | 'released' | 'expired' | 'converted';
+          expires_at?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
       cart_items: {
         Row: {
           id: string;
           user_id: string;
           product_id: string;
+          variant_id: string | null;
           quantity: number;
           created_at: string;
           updated_at: string;
@@ -194,6 +1021,7 @@ export interface Database {
           id?: string;
           user_id: string;
           product_id: string;
+          variant_id?: string | null;
           quantity: number;
           created_at?: string;
           updated_at?: string;
@@ -202,6 +1030,7 @@ export interface Database {
           id?: string;
           user_id?: string;
           product_id?: string;
+          variant_id?: string | null;
           quantity?: number;
           created_at?: string;
           updated_at?: string;
@@ -230,6 +1059,32 @@ export interface Database {
           updated_at?: string;
         };
       };
+      site_settings_history: {
+        Row: {
+          id: string;
+          setting_key: string;
+          old_value: Json | null;
+          new_value: Json;
+          changed_by: string | null;
+          changed_at: string;
+        };
+        Insert: {
+          id?: string;
+          setting_key: string;
+          old_value?: Json | null;
+          new_value: Json;
+          changed_by?: string | null;
+          changed_at?: string;
+        };
+        Update: {
+          id?: string;
+          setting_key?: string;
+          old_value?: Json | null;
+          new_value?: Json;
+          changed_by?: string | null;
+          changed_at?: string;
+        };
+      };
       user_addresses: {
         Row: {
           id: string;
@@ -275,7 +1130,7 @@ export interface Database {
         Row: {
           id: string;
           stripe_payment_intent_id: string;
-          user_id: string;
+          user_id: string | null;
           amount: number;
           currency: string;
           status: string;
@@ -286,22 +1141,24 @@ export interface Database {
         Insert: {
           id?: string;
           stripe_payment_intent_id: string;
-          user_id: string;
+          user_id?: string | null;
           amount: number;
           currency: string;
           status: string;
           metadata?: Json | null;
+          checkout?: Json | null;
           created_at?: string;
           updated_at?: string;
         };
         Update: {
           id?: string;
           stripe_payment_intent_id?: string;
-          user_id?: string;
+          user_id?: string | null;
           amount?: number;
           currency?: string;
           status?: string;
           metadata?: Json | null;
+          checkout?: Json | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -372,7 +1229,22 @@ export interface Database {
       };
     };
     Views: {
-      [_ in never]: never;
+      approved_product_reviews: {
+        Row: {
+          id: string;
+          product_id: string;
+          user_id: string;
+          rating: number;
+          title: string;
+          content: string;
+          verified_purchase: boolean;
+          helpful_count: number;
+          unhelpful_count: number;
+          created_at: string;
+          reviewer_name: string | null;
+          reviewer_avatar_url: string | null;
+        };
+      };
     };
     Functions: {
       [_ in never]: never;